@@ -10,6 +10,11 @@ export const REPOSITORY_TOKENS = {
   // Vehicle repositories
   IVehicleTypeRepository: Symbol.for('IVehicleTypeRepository'),
   IVehicleRepository: Symbol.for('IVehicleRepository'),
+  IVehicleHoldRepository: Symbol.for('IVehicleHoldRepository'),
+  IMaintenanceWindowRepository: Symbol.for('IMaintenanceWindowRepository'),
+  IServiceRecordRepository: Symbol.for('IServiceRecordRepository'),
+  IVehicleTripLogRepository: Symbol.for('IVehicleTripLogRepository'),
+  IExchangeRateRepository: Symbol.for('IExchangeRateRepository'),
   // Amenity repository
   IAmenityRepository: Symbol.for('IAmenityRepository'),
   // Quote repositories
@@ -19,21 +24,39 @@ export const REPOSITORY_TOKENS = {
   // Pricing & Event Type repositories
   IPricingConfigRepository: Symbol.for('IPricingConfigRepository'),
   IEventTypeRepository: Symbol.for('IEventTypeRepository'),
+  // Promo code repositories
+  IPromoCodeRepository: Symbol.for('IPromoCodeRepository'),
+  IPromoCodeRedemptionRepository: Symbol.for('IPromoCodeRedemptionRepository'),
   // Chat, Message & Notification repositories
   IChatRepository: Symbol.for('IChatRepository'),
   IMessageRepository: Symbol.for('IMessageRepository'),
   INotificationRepository: Symbol.for('INotificationRepository'),
+  INotificationPreferenceRepository: Symbol.for('INotificationPreferenceRepository'),
   // Driver FCM Token repository
   IDriverFcmTokenRepository: Symbol.for('IDriverFcmTokenRepository'),
-  // Payment repository
+  // Web Push subscription repository
+  IWebPushSubscriptionRepository: Symbol.for('IWebPushSubscriptionRepository'),
+  // Payment repositories
   IPaymentRepository: Symbol.for('IPaymentRepository'),
+  IWebhookEventRepository: Symbol.for('IWebhookEventRepository'),
+  IAuditLogRepository: Symbol.for('IAuditLogRepository'),
+  // Corporate account repositories
+  ICorporateAccountRepository: Symbol.for('ICorporateAccountRepository'),
+  ICorporateBookingRepository: Symbol.for('ICorporateBookingRepository'),
+  ICorporateInvoiceRepository: Symbol.for('ICorporateInvoiceRepository'),
   // Reservation repositories
   IReservationRepository: Symbol.for('IReservationRepository'),
   IReservationItineraryRepository: Symbol.for('IReservationItineraryRepository'),
   IReservationModificationRepository: Symbol.for('IReservationModificationRepository'),
   IReservationChargeRepository: Symbol.for('IReservationChargeRepository'),
+  IReservationInvoiceRepository: Symbol.for('IReservationInvoiceRepository'),
+  IReferenceSequenceRepository: Symbol.for('IReferenceSequenceRepository'),
+  ICancellationPolicyRepository: Symbol.for('ICancellationPolicyRepository'),
   // Ticket repositories
   ITicketRepository: Symbol.for('ITicketRepository'),
   ITicketMessageRepository: Symbol.for('ITicketMessageRepository'),
+  // Two-factor authentication repositories
+  ITwoFactorAuthRepository: Symbol.for('ITwoFactorAuthRepository'),
+  ISessionRepository: Symbol.for('ISessionRepository'),
 } as const;
 
@@ -7,6 +7,10 @@ export const SERVICE_TOKENS = {
   IOTPService: Symbol.for('IOTPService'),
   IJWTService: Symbol.for('IJWTService'),
   ITokenBlacklistService: Symbol.for('ITokenBlacklistService'),
+  IRateLimiterService: Symbol.for('IRateLimiterService'),
+  IAccountLockoutService: Symbol.for('IAccountLockoutService'),
+  ITwoFactorService: Symbol.for('ITwoFactorService'),
+  ISessionService: Symbol.for('ISessionService'),
   // Communication services
   IEmailService: Symbol.for('IEmailService'),
   // External services
@@ -15,7 +19,14 @@ export const SERVICE_TOKENS = {
   // Business logic services
   IRouteCalculationService: Symbol.for('IRouteCalculationService'),
   IPricingCalculationService: Symbol.for('IPricingCalculationService'),
+  ICancellationRefundCalculatorService: Symbol.for('ICancellationRefundCalculatorService'),
   IVehicleRecommendationService: Symbol.for('IVehicleRecommendationService'),
+  IVehicleAvailabilityService: Symbol.for('IVehicleAvailabilityService'),
+  IVehicleMaintenanceService: Symbol.for('IVehicleMaintenanceService'),
+  IExchangeRateService: Symbol.for('IExchangeRateService'),
+  IPromoCodeService: Symbol.for('IPromoCodeService'),
+  ICorporateCreditService: Symbol.for('ICorporateCreditService'),
+  IReservationInvoiceService: Symbol.for('IReservationInvoiceService'),
   IPDFGenerationService: Symbol.for('IPDFGenerationService'),
   // Socket event service
   ISocketEventService: Symbol.for('ISocketEventService'),
@@ -24,7 +35,12 @@ export const SERVICE_TOKENS = {
   IQueueService: Symbol.for('IQueueService'),
   // Push notification service
   IExpoPushNotificationService: Symbol.for('IExpoPushNotificationService'),
+  IWebPushService: Symbol.for('IWebPushService'),
+  IAuditLogService: Symbol.for('IAuditLogService'),
   // Notification service
   INotificationService: Symbol.for('INotificationService'),
+  INotificationDispatcherService: Symbol.for('INotificationDispatcherService'),
+  // Payment gateway
+  IPaymentGateway: Symbol.for('IPaymentGateway'),
 } as const;
 
@@ -15,6 +15,13 @@ export const USE_CASE_TOKENS = {
   GoogleAuthUseCase: Symbol.for('GoogleAuthUseCase'),
   SetupPasswordUseCase: Symbol.for('SetupPasswordUseCase'),
   LinkGoogleAccountUseCase: Symbol.for('LinkGoogleAccountUseCase'),
+  StartTwoFactorChallengeUseCase: Symbol.for('StartTwoFactorChallengeUseCase'),
+  VerifyTwoFactorLoginUseCase: Symbol.for('VerifyTwoFactorLoginUseCase'),
+  GetTwoFactorStatusUseCase: Symbol.for('GetTwoFactorStatusUseCase'),
+  SetupTwoFactorUseCase: Symbol.for('SetupTwoFactorUseCase'),
+  EnableTwoFactorUseCase: Symbol.for('EnableTwoFactorUseCase'),
+  DisableTwoFactorUseCase: Symbol.for('DisableTwoFactorUseCase'),
+  RegenerateRecoveryCodesUseCase: Symbol.for('RegenerateRecoveryCodesUseCase'),
   // User use cases
   GetUserProfileUseCase: Symbol.for('GetUserProfileUseCase'),
   UpdateUserProfileUseCase: Symbol.for('UpdateUserProfileUseCase'),
@@ -24,6 +31,11 @@ export const USE_CASE_TOKENS = {
   ListUsersUseCase: Symbol.for('ListUsersUseCase'),
   ChangeUserStatusUseCase: Symbol.for('ChangeUserStatusUseCase'),
   ChangeUserRoleUseCase: Symbol.for('ChangeUserRoleUseCase'),
+  UnlockUserUseCase: Symbol.for('UnlockUserUseCase'),
+  ListUserSessionsUseCase: Symbol.for('ListUserSessionsUseCase'),
+  RevokeUserSessionUseCase: Symbol.for('RevokeUserSessionUseCase'),
+  RevokeAllUserSessionsUseCase: Symbol.for('RevokeAllUserSessionsUseCase'),
+  ForceLogoutUserUseCase: Symbol.for('ForceLogoutUserUseCase'),
   GetUserStatisticsUseCase: Symbol.for('GetUserStatisticsUseCase'),
   DeleteUserAccountUseCase: Symbol.for('DeleteUserAccountUseCase'),
   // Driver use cases
@@ -33,6 +45,7 @@ export const USE_CASE_TOKENS = {
   UpdateDriverUseCase: Symbol.for('UpdateDriverUseCase'),
   UpdateDriverStatusUseCase: Symbol.for('UpdateDriverStatusUseCase'),
   DeleteDriverUseCase: Symbol.for('DeleteDriverUseCase'),
+  UnlockDriverUseCase: Symbol.for('UnlockDriverUseCase'),
   LoginDriverUseCase: Symbol.for('LoginDriverUseCase'),
   ChangeDriverPasswordUseCase: Symbol.for('ChangeDriverPasswordUseCase'),
   ForgotDriverPasswordUseCase: Symbol.for('ForgotDriverPasswordUseCase'),
@@ -86,6 +99,14 @@ export const USE_CASE_TOKENS = {
   GetVehicleRecommendationsUseCase: Symbol.for('GetVehicleRecommendationsUseCase'),
   CalculateQuotePricingUseCase: Symbol.for('CalculateQuotePricingUseCase'),
   SubmitQuoteUseCase: Symbol.for('SubmitQuoteUseCase'),
+  ApplyPromoCodeUseCase: Symbol.for('ApplyPromoCodeUseCase'),
+  RemovePromoCodeUseCase: Symbol.for('RemovePromoCodeUseCase'),
+  AcceptCounterOfferUseCase: Symbol.for('AcceptCounterOfferUseCase'),
+  RejectCounterOfferUseCase: Symbol.for('RejectCounterOfferUseCase'),
+  SendQuoteReminderUseCase: Symbol.for('SendQuoteReminderUseCase'),
+  SendQuoteExpiredEmailUseCase: Symbol.for('SendQuoteExpiredEmailUseCase'),
+  SendDraftQuoteReminderUseCase: Symbol.for('SendDraftQuoteReminderUseCase'),
+  RequoteQuoteUseCase: Symbol.for('RequoteQuoteUseCase'),
   // Event Type use cases
   GetEventTypesUseCase: Symbol.for('GetEventTypesUseCase'),
   CreateCustomEventTypeUseCase: Symbol.for('CreateCustomEventTypeUseCase'),
@@ -95,11 +116,25 @@ export const USE_CASE_TOKENS = {
   UpdateQuoteStatusUseCase: Symbol.for('UpdateQuoteStatusUseCase'),
   AssignDriverToQuoteUseCase: Symbol.for('AssignDriverToQuoteUseCase'),
   RecalculateQuoteUseCase: Symbol.for('RecalculateQuoteUseCase'),
+  ProposeCounterOfferUseCase: Symbol.for('ProposeCounterOfferUseCase'),
   // Pricing Config use cases
   GetPricingConfigUseCase: Symbol.for('GetPricingConfigUseCase'),
   CreatePricingConfigUseCase: Symbol.for('CreatePricingConfigUseCase'),
   GetPricingConfigHistoryUseCase: Symbol.for('GetPricingConfigHistoryUseCase'),
   ActivatePricingConfigUseCase: Symbol.for('ActivatePricingConfigUseCase'),
+  // Exchange Rate use cases
+  GetExchangeRatesUseCase: Symbol.for('GetExchangeRatesUseCase'),
+  UpsertExchangeRateUseCase: Symbol.for('UpsertExchangeRateUseCase'),
+  DeleteExchangeRateUseCase: Symbol.for('DeleteExchangeRateUseCase'),
+  // Promo Code use cases
+  GetPromoCodesUseCase: Symbol.for('GetPromoCodesUseCase'),
+  CreatePromoCodeUseCase: Symbol.for('CreatePromoCodeUseCase'),
+  UpdatePromoCodeUseCase: Symbol.for('UpdatePromoCodeUseCase'),
+  // Cancellation Policy use cases
+  GetCancellationPolicyUseCase: Symbol.for('GetCancellationPolicyUseCase'),
+  CreateCancellationPolicyUseCase: Symbol.for('CreateCancellationPolicyUseCase'),
+  GetCancellationPolicyHistoryUseCase: Symbol.for('GetCancellationPolicyHistoryUseCase'),
+  ActivateCancellationPolicyUseCase: Symbol.for('ActivateCancellationPolicyUseCase'),
   // Chat use cases
   CreateChatUseCase: Symbol.for('CreateChatUseCase'),
   GetUserChatsUseCase: Symbol.for('GetUserChatsUseCase'),
@@ -117,13 +152,36 @@ export const USE_CASE_TOKENS = {
   MarkAllNotificationsAsReadUseCase: Symbol.for('MarkAllNotificationsAsReadUseCase'),
   GetUnreadNotificationCountUseCase: Symbol.for('GetUnreadNotificationCountUseCase'),
   MarkChatNotificationsAsReadUseCase: Symbol.for('MarkChatNotificationsAsReadUseCase'),
+  GetNotificationPreferencesUseCase: Symbol.for('GetNotificationPreferencesUseCase'),
+  UpdateNotificationPreferencesUseCase: Symbol.for('UpdateNotificationPreferencesUseCase'),
+  GetWebPushPublicKeyUseCase: Symbol.for('GetWebPushPublicKeyUseCase'),
+  RegisterPushSubscriptionUseCase: Symbol.for('RegisterPushSubscriptionUseCase'),
+  UnregisterPushSubscriptionUseCase: Symbol.for('UnregisterPushSubscriptionUseCase'),
+  SendNotificationDigestsUseCase: Symbol.for('SendNotificationDigestsUseCase'),
   // Payment use cases
   CreatePaymentIntentUseCase: Symbol.for('CreatePaymentIntentUseCase'),
   HandlePaymentWebhookUseCase: Symbol.for('HandlePaymentWebhookUseCase'),
+  // Webhook event use cases
+  RecordWebhookEventUseCase: Symbol.for('RecordWebhookEventUseCase'),
+  ProcessWebhookEventUseCase: Symbol.for('ProcessWebhookEventUseCase'),
+  HandleChargeWebhookUseCase: Symbol.for('HandleChargeWebhookUseCase'),
+  GetWebhookEventsUseCase: Symbol.for('GetWebhookEventsUseCase'),
+  GetWebhookEventUseCase: Symbol.for('GetWebhookEventUseCase'),
+  ReplayWebhookEventUseCase: Symbol.for('ReplayWebhookEventUseCase'),
+  // Audit log use cases
+  GetAuditLogsUseCase: Symbol.for('GetAuditLogsUseCase'),
+  ExportAuditLogsCSVUseCase: Symbol.for('ExportAuditLogsCSVUseCase'),
   // Reservation use cases
   CreateReservationUseCase: Symbol.for('CreateReservationUseCase'),
   GetReservationUseCase: Symbol.for('GetReservationUseCase'),
   GetReservationsListUseCase: Symbol.for('GetReservationsListUseCase'),
+  GetUserCancellationPreviewUseCase: Symbol.for('GetUserCancellationPreviewUseCase'),
+  CancelUserReservationUseCase: Symbol.for('CancelUserReservationUseCase'),
+  CreateBalancePaymentIntentUseCase: Symbol.for('CreateBalancePaymentIntentUseCase'),
+  SendBalanceReminderUseCase: Symbol.for('SendBalanceReminderUseCase'),
+  EnforceBalanceDueUseCase: Symbol.for('EnforceBalanceDueUseCase'),
+  GetReservationInvoicesUseCase: Symbol.for('GetReservationInvoicesUseCase'),
+  GetReservationInvoicePdfUseCase: Symbol.for('GetReservationInvoicePdfUseCase'),
   // Admin Reservation use cases
   GetAdminReservationsListUseCase: Symbol.for('GetAdminReservationsListUseCase'),
   GetAdminReservationUseCase: Symbol.for('GetAdminReservationUseCase'),
@@ -134,6 +192,7 @@ export const USE_CASE_TOKENS = {
   UpdateReservationItineraryUseCase: Symbol.for('UpdateReservationItineraryUseCase'),
   ProcessReservationRefundUseCase: Symbol.for('ProcessReservationRefundUseCase'),
   CancelReservationUseCase: Symbol.for('CancelReservationUseCase'),
+  PreviewReservationCancellationUseCase: Symbol.for('PreviewReservationCancellationUseCase'),
   AddReservationChargeUseCase: Symbol.for('AddReservationChargeUseCase'),
   MarkChargeAsPaidUseCase: Symbol.for('MarkChargeAsPaidUseCase'),
   ExportReservationPDFUseCase: Symbol.for('ExportReservationPDFUseCase'),
@@ -141,6 +200,17 @@ export const USE_CASE_TOKENS = {
   // Admin Trip use cases
   GetAdminTripsListUseCase: Symbol.for('GetAdminTripsListUseCase'),
   GetActiveTripLocationsUseCase: Symbol.for('GetActiveTripLocationsUseCase'),
+  // Admin Schedule use cases
+  GetFleetScheduleUseCase: Symbol.for('GetFleetScheduleUseCase'),
+  // Admin Maintenance use cases
+  GetVehicleMaintenanceUseCase: Symbol.for('GetVehicleMaintenanceUseCase'),
+  UpdateVehicleMaintenancePlanUseCase: Symbol.for('UpdateVehicleMaintenancePlanUseCase'),
+  ScheduleMaintenanceWindowUseCase: Symbol.for('ScheduleMaintenanceWindowUseCase'),
+  CancelMaintenanceWindowUseCase: Symbol.for('CancelMaintenanceWindowUseCase'),
+  RecordVehicleServiceUseCase: Symbol.for('RecordVehicleServiceUseCase'),
+  // Admin Fuel Report use cases
+  GetTripFuelReportUseCase: Symbol.for('GetTripFuelReportUseCase'),
+  GetVehicleFuelHistoryUseCase: Symbol.for('GetVehicleFuelHistoryUseCase'),
   CreateChargePaymentIntentUseCase: Symbol.for('CreateChargePaymentIntentUseCase'),
   // Dashboard use cases
   GetDashboardStatsUseCase: Symbol.for('GetDashboardStatsUseCase'),
@@ -159,5 +229,22 @@ export const USE_CASE_TOKENS = {
   // Driver payment use cases
   CalculateDriverEarningsUseCase: Symbol.for('CalculateDriverEarningsUseCase'),
   RecordDriverPayoutUseCase: Symbol.for('RecordDriverPayoutUseCase'),
+  // Corporate account use cases
+  CreateCorporateAccountUseCase: Symbol.for('CreateCorporateAccountUseCase'),
+  UpdateCorporateAccountUseCase: Symbol.for('UpdateCorporateAccountUseCase'),
+  GetCorporateAccountsUseCase: Symbol.for('GetCorporateAccountsUseCase'),
+  GetCorporateAccountUseCase: Symbol.for('GetCorporateAccountUseCase'),
+  AddCorporateMemberUseCase: Symbol.for('AddCorporateMemberUseCase'),
+  RemoveCorporateMemberUseCase: Symbol.for('RemoveCorporateMemberUseCase'),
+  GetMyCorporateAccountUseCase: Symbol.for('GetMyCorporateAccountUseCase'),
+  BookQuoteOnAccountUseCase: Symbol.for('BookQuoteOnAccountUseCase'),
+  CompleteCorporateBookingUseCase: Symbol.for('CompleteCorporateBookingUseCase'),
+  GetCorporateBookingsUseCase: Symbol.for('GetCorporateBookingsUseCase'),
+  ReviewCorporateBookingUseCase: Symbol.for('ReviewCorporateBookingUseCase'),
+  GenerateCorporateInvoicesUseCase: Symbol.for('GenerateCorporateInvoicesUseCase'),
+  FlagOverdueCorporateInvoicesUseCase: Symbol.for('FlagOverdueCorporateInvoicesUseCase'),
+  MarkCorporateInvoicePaidUseCase: Symbol.for('MarkCorporateInvoicePaidUseCase'),
+  GetCorporateStatementUseCase: Symbol.for('GetCorporateStatementUseCase'),
+  GetCorporateInvoicePdfUseCase: Symbol.for('GetCorporateInvoicePdfUseCase'),
 } as const;
 
@@ -10,6 +10,7 @@ import {
   Min,
   ValidateNested,
   ArrayMinSize,
+  IsISO4217CurrencyCode,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { ReservationStatus } from '../../shared/constants';
@@ -189,7 +190,7 @@ export class AddReservationChargeRequest {
   amount!: number;
 
   @IsOptional()
-  @IsString()
+  @IsISO4217CurrencyCode()
   currency?: string;
 }
 
@@ -0,0 +1,48 @@
+import { AuditAction, AuditTargetType } from '../../shared/constants';
+
+/**
+ * Filters for the admin audit log, taken from the query string
+ */
+export interface AuditLogQuery {
+  actorId?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: string; // ISO date, inclusive
+  to?: string; // ISO date, inclusive
+}
+
+/**
+ * Response DTO for an audit log entry
+ */
+export interface AuditLogResponse {
+  auditLogId: string;
+  actorId: string;
+  actorEmail?: string;
+  actorRole?: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  changes: {
+    field: string;
+    before?: unknown;
+    after?: unknown;
+  }[];
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Response DTO for paginated audit log
+ */
+export interface AuditLogListResponse {
+  logs: AuditLogResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
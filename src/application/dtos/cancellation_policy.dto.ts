@@ -0,0 +1,87 @@
+import {
+  IsNotEmpty,
+  IsNumber,
+  IsArray,
+  IsIn,
+  Min,
+  Max,
+  ValidateNested,
+  ArrayMinSize,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  ICancellationPolicyTier,
+  CancellationRefundMode,
+} from '../../domain/entities/cancellation_policy.entity';
+import { ICancellationRefundBreakdown } from '../../domain/services/cancellation_refund_calculator_service.interface';
+
+const REFUND_MODES: CancellationRefundMode[] = ['tiered', 'full', 'none'];
+
+/**
+ * Refund tier data for cancellation policy requests
+ */
+export class CancellationPolicyTierDto {
+  @IsNumber()
+  @Min(0, { message: 'Minimum hours before departure must be 0 or greater' })
+  minHoursBeforeDeparture!: number;
+
+  @IsNumber()
+  @Min(0, { message: 'Refund percentage must be 0 or greater' })
+  @Max(100, { message: 'Refund percentage must be 100 or less' })
+  refundPercentage!: number;
+}
+
+/**
+ * Request DTO for creating a new cancellation policy
+ */
+export class CreateCancellationPolicyRequest {
+  @IsArray()
+  @ArrayMinSize(1, { message: 'At least one refund tier is required' })
+  @ValidateNested({ each: true })
+  @Type(() => CancellationPolicyTierDto)
+  tiers!: CancellationPolicyTierDto[];
+
+  @IsNumber()
+  @Min(0, { message: 'Non-refundable deposit percentage must be 0 or greater' })
+  @Max(100, { message: 'Non-refundable deposit percentage must be 100 or less' })
+  @IsNotEmpty()
+  nonRefundableDepositPercentage!: number;
+
+  @IsIn(REFUND_MODES, { message: 'Amenity refund mode must be one of: tiered, full, none' })
+  amenityRefundMode!: CancellationRefundMode;
+
+  @IsIn(REFUND_MODES, { message: 'Charge refund mode must be one of: tiered, full, none' })
+  chargeRefundMode!: CancellationRefundMode;
+}
+
+/**
+ * Response DTO for cancellation policy
+ */
+export interface CancellationPolicyResponse {
+  cancellationPolicyId: string;
+  version: number;
+  tiers: ICancellationPolicyTier[];
+  nonRefundableDepositPercentage: number;
+  amenityRefundMode: CancellationRefundMode;
+  chargeRefundMode: CancellationRefundMode;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for cancellation policy history (list)
+ */
+export interface CancellationPolicyHistoryResponse {
+  cancellationPolicies: CancellationPolicyResponse[];
+}
+
+/**
+ * Response DTO for a reservation cancellation preview
+ */
+export interface CancellationPreviewResponse extends ICancellationRefundBreakdown {
+  reservationId: string;
+  currency: string;
+  departureAt: Date | null;
+}
@@ -0,0 +1,289 @@
+import {
+  IsEmail,
+  IsIn,
+  IsInt,
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+import {
+  CorporateAccountStatus,
+  CorporateMemberRole,
+} from '../../domain/entities/corporate_account.entity';
+import { CorporateBookingStatus } from '../../domain/entities/corporate_booking.entity';
+import { CorporateInvoiceStatus } from '../../domain/entities/corporate_invoice.entity';
+
+const CORPORATE_MEMBER_ROLES: CorporateMemberRole[] = ['admin', 'booker'];
+const CORPORATE_ACCOUNT_STATUSES: CorporateAccountStatus[] = ['active', 'suspended'];
+
+/**
+ * Billing contact DTO for corporate accounts
+ */
+export class CorporateBillingContactDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  name!: string;
+
+  @IsEmail()
+  email!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  phoneNumber?: string;
+}
+
+/**
+ * Request DTO for creating a corporate account
+ * Credit limit and approval threshold are in the account's billing currency
+ */
+export class CreateCorporateAccountRequest {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(150)
+  name!: string;
+
+  @ValidateNested()
+  @Type(() => CorporateBillingContactDto)
+  billingContact!: CorporateBillingContactDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  billingAddress?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  taxId?: string;
+
+  @IsNumber()
+  @Min(0)
+  creditLimit!: number;
+
+  @IsISO4217CurrencyCode()
+  currency!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  paymentTermsDays?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  approvalThreshold?: number;
+}
+
+/**
+ * Request DTO for updating a corporate account
+ * The billing currency cannot be changed once bookings may have been made in it
+ */
+export class UpdateCorporateAccountRequest {
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(150)
+  name?: string;
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => CorporateBillingContactDto)
+  billingContact?: CorporateBillingContactDto;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  billingAddress?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(50)
+  taxId?: string;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  creditLimit?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  paymentTermsDays?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  approvalThreshold?: number | null;
+
+  @IsOptional()
+  @IsIn(CORPORATE_ACCOUNT_STATUSES)
+  status?: CorporateAccountStatus;
+}
+
+/**
+ * Request DTO for adding a user to a corporate account
+ */
+export class AddCorporateMemberRequest {
+  @IsEmail()
+  email!: string;
+
+  @IsIn(CORPORATE_MEMBER_ROLES)
+  role!: CorporateMemberRole;
+}
+
+/**
+ * Request DTO for approving or rejecting a booking on account
+ */
+export class ReviewCorporateBookingRequest {
+  @IsIn(['approve', 'reject'])
+  decision!: 'approve' | 'reject';
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(500)
+  reason?: string;
+}
+
+/**
+ * Request DTO for recording the payment of a corporate invoice
+ */
+export class MarkCorporateInvoicePaidRequest {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  paymentReference!: string;
+}
+
+/**
+ * Credit position of a corporate account
+ */
+export interface CorporateCreditSummaryResponse {
+  currency: string;
+  creditLimit: number;
+  unpaidInvoicesAmount: number;
+  uninvoicedAmount: number;
+  pendingApprovalAmount: number;
+  outstandingAmount: number;
+  availableCredit: number;
+}
+
+/**
+ * Member of a corporate account with their user details
+ */
+export interface CorporateMemberResponse {
+  userId: string;
+  role: CorporateMemberRole;
+  addedAt: Date;
+  fullName?: string;
+  email?: string;
+}
+
+/**
+ * Response DTO for a corporate account
+ */
+export interface CorporateAccountResponse {
+  corporateAccountId: string;
+  name: string;
+  billingContact: {
+    name: string;
+    email: string;
+    phoneNumber?: string;
+  };
+  billingAddress?: string;
+  taxId?: string;
+  creditLimit: number;
+  currency: string;
+  paymentTermsDays: number;
+  approvalThreshold?: number;
+  status: CorporateAccountStatus;
+  members: CorporateMemberResponse[];
+  credit?: CorporateCreditSummaryResponse;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for the corporate account of the signed-in member
+ */
+export interface MyCorporateAccountResponse {
+  account: CorporateAccountResponse;
+  role: CorporateMemberRole;
+}
+
+/**
+ * Response DTO for a booking on account
+ */
+export interface CorporateBookingResponse {
+  corporateBookingId: string;
+  corporateAccountId: string;
+  quoteId: string;
+  requestedBy: string;
+  amount: number;
+  currency: string;
+  status: CorporateBookingStatus;
+  reservationId?: string;
+  bookedAt?: Date;
+  invoiceId?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for a monthly corporate invoice
+ */
+export interface CorporateInvoiceResponse {
+  invoiceId: string;
+  invoiceNumber: string;
+  corporateAccountId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  lineItems: Array<{
+    corporateBookingId: string;
+    reservationId: string;
+    reservationNumber: string;
+    description: string;
+    bookedBy: string;
+    bookedAt: Date;
+    amount: number;
+  }>;
+  totalAmount: number;
+  currency: string;
+  status: CorporateInvoiceStatus;
+  issuedAt: Date;
+  dueAt: Date;
+  paidAt?: Date;
+  paymentReference?: string;
+}
+
+/**
+ * Response DTO for a corporate account statement
+ * Lists the invoices issued in the period and bookings still to be invoiced
+ */
+export interface CorporateStatementResponse {
+  corporateAccountId: string;
+  accountName: string;
+  currency: string;
+  from?: Date;
+  to?: Date;
+  generatedAt: Date;
+  invoices: CorporateInvoiceResponse[];
+  uninvoicedBookings: CorporateBookingResponse[];
+  totals: {
+    invoiced: number;
+    paid: number;
+    unpaid: number;
+    overdue: number;
+  };
+  credit: CorporateCreditSummaryResponse;
+}
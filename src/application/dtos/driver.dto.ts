@@ -146,6 +146,16 @@ export interface UpdateDriverStatusResponse {
   };
 }
 
+/**
+ * Response DTO for unlocking a driver account (admin)
+ * wasLocked is false when the account had failed logins but no active lockout
+ */
+export interface UnlockDriverResponse {
+  driverId: string;
+  email: string;
+  wasLocked: boolean;
+}
+
 /**
  * Request DTO for updating driver salary (admin)
  */
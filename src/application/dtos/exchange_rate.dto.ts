@@ -0,0 +1,47 @@
+import {
+  IsISO4217CurrencyCode,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+} from 'class-validator';
+
+/**
+ * Request DTO for creating or updating an exchange rate
+ * baseCurrency defaults to the active pricing config's currency
+ */
+export class UpsertExchangeRateRequest {
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  baseCurrency?: string;
+
+  @IsISO4217CurrencyCode()
+  @IsNotEmpty()
+  currency!: string;
+
+  @IsNumber()
+  @IsPositive({ message: 'Exchange rate must be greater than zero' })
+  rate!: number;
+}
+
+/**
+ * Response DTO for an exchange rate
+ */
+export interface ExchangeRateResponse {
+  exchangeRateId: string;
+  baseCurrency: string;
+  currency: string;
+  rate: number;
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for the exchange rate list
+ */
+export interface ExchangeRateListResponse {
+  baseCurrency: string;
+  supportedCurrencies: string[];
+  exchangeRates: ExchangeRateResponse[];
+}
@@ -0,0 +1,170 @@
+import {
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+  ValidateIf,
+} from 'class-validator';
+import { MaintenanceWindowStatus } from '../../domain/entities/maintenance_window.entity';
+import { VehicleStatus } from '../../shared/constants';
+
+/**
+ * Request DTO for scheduling a maintenance window
+ */
+export class ScheduleMaintenanceWindowRequest {
+  @IsDateString()
+  @IsNotEmpty()
+  startAt!: string;
+
+  @IsDateString()
+  @IsNotEmpty()
+  endAt!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  @Matches(/.*\S.*/, {
+    message: 'Reason must contain at least one non-whitespace character',
+  })
+  reason!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+}
+
+/**
+ * Request DTO for recording a completed service
+ * Passing windowId completes that maintenance window
+ */
+export class RecordVehicleServiceRequest {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  @Matches(/.*\S.*/, {
+    message: 'Service type must contain at least one non-whitespace character',
+  })
+  serviceType!: string;
+
+  @IsDateString()
+  @IsNotEmpty()
+  servicedAt!: string;
+
+  @IsNumber()
+  @Min(0)
+  odometerReading!: number;
+
+  @IsNumber()
+  @Min(0)
+  cost!: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  @Matches(/.*\S.*/, {
+    message: 'Vendor must contain at least one non-whitespace character',
+  })
+  vendor!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  notes?: string;
+
+  @IsOptional()
+  @IsString()
+  @Matches(/^\S+$/, {
+    message: 'Window ID must not contain whitespace',
+  })
+  windowId?: string;
+}
+
+/**
+ * Request DTO for updating a vehicle's service intervals and odometer
+ * All fields are optional - only provided fields will be updated
+ */
+export class UpdateVehicleMaintenancePlanRequest {
+  @IsOptional()
+  @ValidateIf((o: UpdateVehicleMaintenancePlanRequest) => o.serviceIntervalKm !== undefined)
+  @IsNumber()
+  @Min(1)
+  serviceIntervalKm?: number;
+
+  @IsOptional()
+  @ValidateIf((o: UpdateVehicleMaintenancePlanRequest) => o.serviceIntervalDays !== undefined)
+  @IsNumber()
+  @Min(1)
+  serviceIntervalDays?: number;
+
+  @IsOptional()
+  @ValidateIf((o: UpdateVehicleMaintenancePlanRequest) => o.odometerReading !== undefined)
+  @IsNumber()
+  @Min(0)
+  odometerReading?: number;
+}
+
+/**
+ * Response DTO for a maintenance window
+ */
+export interface MaintenanceWindowResponse {
+  windowId: string;
+  vehicleId: string;
+  startAt: Date;
+  endAt: Date;
+  reason: string;
+  notes?: string;
+  status: MaintenanceWindowStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  serviceRecordId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Response DTO for a service record
+ */
+export interface ServiceRecordResponse {
+  recordId: string;
+  vehicleId: string;
+  serviceType: string;
+  servicedAt: Date;
+  odometerReading: number;
+  cost: number;
+  vendor: string;
+  notes?: string;
+  windowId?: string;
+  createdAt: Date;
+}
+
+/**
+ * Response DTO for a vehicle's service intervals and due state
+ */
+export interface VehicleMaintenancePlanResponse {
+  vehicleId: string;
+  plateNumber: string;
+  status: VehicleStatus;
+  odometerReading: number;
+  serviceIntervalKm?: number;
+  serviceIntervalDays?: number;
+  lastServiceOdometer?: number;
+  lastServicedAt?: Date;
+  kmUntilService?: number;
+  nextServiceDueAt?: Date;
+  isServiceDue: boolean;
+}
+
+/**
+ * Response DTO for a vehicle's maintenance overview
+ */
+export interface VehicleMaintenanceResponse {
+  plan: VehicleMaintenancePlanResponse;
+  windows: MaintenanceWindowResponse[];
+  serviceRecords: ServiceRecordResponse[];
+  totalServiceCost: number;
+}
@@ -7,8 +7,20 @@ import {
   MaxLength,
   Min,
   Max,
+  IsArray,
+  Matches,
+  ValidateNested,
+  IsUrl,
 } from 'class-validator';
-import { NotificationType } from '../../shared/constants';
+import { Type } from 'class-transformer';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationSkipReason,
+  NotificationType,
+} from '../../shared/constants';
+
+const TIME_OF_DAY_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
 
 /**
  * Request DTO for creating a notification
@@ -33,6 +45,14 @@ export class CreateNotificationRequest {
 
   @IsOptional()
   data?: Record<string, unknown>;
+
+  /**
+   * Notifications with the same group key roll into one unread notification with a count
+   */
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  groupKey?: string;
 }
 
 /**
@@ -46,7 +66,21 @@ export interface NotificationResponse {
   message: string;
   data?: Record<string, unknown>;
   isRead: boolean;
+  count?: number; // Occurrences rolled into this notification, e.g. messages in one chat
+  deliveries?: NotificationDeliveryResponse[];
   createdAt: Date;
+  lastNotifiedAt: Date; // Latest roll-up, or createdAt; lists are ordered by it
+}
+
+/**
+ * Response DTO for the delivery outcome of a notification on one channel
+ */
+export interface NotificationDeliveryResponse {
+  channel: NotificationChannel;
+  status: NotificationDeliveryStatus;
+  reason?: NotificationSkipReason;
+  error?: string;
+  attemptedAt: Date;
 }
 
 /**
@@ -115,3 +149,123 @@ export interface UnreadNotificationCountResponse {
   unreadCount: number;
 }
 
+/**
+ * Channel settings for one notification type
+ */
+export class NotificationTypePreferenceDto {
+  @IsEnum(NotificationType)
+  type!: NotificationType;
+
+  @IsBoolean()
+  inApp!: boolean;
+
+  @IsBoolean()
+  email!: boolean;
+
+  @IsBoolean()
+  push!: boolean;
+}
+
+/**
+ * Quiet hours settings, times in HH:mm
+ */
+export class QuietHoursDto {
+  @IsBoolean()
+  enabled!: boolean;
+
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'Quiet hours start must be a time in HH:mm format' })
+  start!: string;
+
+  @Matches(TIME_OF_DAY_PATTERN, { message: 'Quiet hours end must be a time in HH:mm format' })
+  end!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  timezone!: string;
+}
+
+/**
+ * Request DTO for updating notification preferences
+ * Only the notification types sent are changed; the others keep their current settings
+ */
+export class UpdateNotificationPreferencesRequest {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => NotificationTypePreferenceDto)
+  channels?: NotificationTypePreferenceDto[];
+
+  @IsOptional()
+  @ValidateNested()
+  @Type(() => QuietHoursDto)
+  quietHours?: QuietHoursDto;
+
+  @IsOptional()
+  @IsBoolean()
+  dailyDigest?: boolean;
+}
+
+/**
+ * Response DTO for notification preferences
+ * Lists every notification type with the channels it is delivered on
+ */
+export interface NotificationPreferencesResponse {
+  channels: NotificationTypePreferenceDto[];
+  quietHours?: QuietHoursDto;
+  dailyDigest: boolean;
+  updatedAt?: Date;
+}
+
+/**
+ * Browser keys from a PushSubscription, base64url encoded
+ */
+export class PushSubscriptionKeysDto {
+  @IsString()
+  @IsNotEmpty()
+  p256dh!: string;
+
+  @IsString()
+  @IsNotEmpty()
+  auth!: string;
+}
+
+/**
+ * Request DTO for registering a browser for push notifications
+ * Matches the JSON form of the browser's PushSubscription
+ */
+export class RegisterPushSubscriptionRequest {
+  @IsUrl({ protocols: ['https'], require_protocol: true }, { message: 'Endpoint must be an https URL' })
+  @MaxLength(2048)
+  endpoint!: string;
+
+  @ValidateNested()
+  @Type(() => PushSubscriptionKeysDto)
+  keys!: PushSubscriptionKeysDto;
+}
+
+/**
+ * Request DTO for unregistering a browser from push notifications
+ */
+export class UnregisterPushSubscriptionRequest {
+  @IsString()
+  @IsNotEmpty()
+  endpoint!: string;
+}
+
+/**
+ * Response DTO for a registered push subscription
+ */
+export interface PushSubscriptionResponse {
+  subscriptionId: string;
+  endpoint: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for the VAPID public key browsers subscribe with
+ */
+export interface WebPushPublicKeyResponse {
+  publicKey: string;
+}
@@ -1,5 +1,11 @@
 import { IsNotEmpty, IsString } from 'class-validator';
 
+/**
+ * How a quote is paid
+ * Deposit plans take part of the total now and the balance before departure
+ */
+export type PaymentPlanType = 'full' | 'deposit';
+
 /**
  * Request DTO for creating a payment intent
  */
@@ -9,6 +15,17 @@ export class CreatePaymentIntentRequest {
   quoteId!: string;
 }
 
+/**
+ * Deposit plan response DTO
+ */
+export interface DepositPlanResponse {
+  depositPercentage: number;
+  depositAmount: number;
+  balanceAmount: number;
+  balanceDueAt: Date;
+  currency: string;
+}
+
 /**
  * Response DTO for creating a payment intent
  */
@@ -16,4 +33,5 @@ export interface CreatePaymentIntentResponse {
   clientSecret: string;
   paymentIntentId: string;
   paymentId: string;
+  depositPlan?: DepositPlanResponse; // Set when the intent only covers the deposit
 }
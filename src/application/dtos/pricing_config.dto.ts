@@ -1,5 +1,8 @@
 import {
+  IsBoolean,
+  IsISO4217CurrencyCode,
   IsNotEmpty,
+  IsOptional,
   IsNumber,
   Min,
   Max,
@@ -29,6 +32,20 @@ export class CreatePricingConfigRequest {
   @Min(0, { message: 'Night charge per night must be a positive number' })
   @IsNotEmpty()
   nightChargePerNight!: number;
+
+  /**
+   * Price distance fares with each vehicle's measured rolling-average consumption when available
+   */
+  @IsOptional()
+  @IsBoolean()
+  useActualFuelConsumption?: boolean;
+
+  /**
+   * ISO 4217 currency all prices in this config are expressed in (default: INR)
+   */
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
 }
 
 /**
@@ -41,6 +58,8 @@ export interface PricingConfigResponse {
   averageDriverPerHourRate: number;
   taxPercentage: number;
   nightChargePerNight: number;
+  useActualFuelConsumption: boolean;
+  currency: string;
   isActive: boolean;
   createdBy: string;
   createdAt: Date;
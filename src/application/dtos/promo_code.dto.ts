@@ -0,0 +1,147 @@
+import {
+  IsArray,
+  IsBoolean,
+  IsDateString,
+  IsIn,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsPositive,
+  IsString,
+  Matches,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { PromoDiscountType } from '../../domain/entities/promo_code.entity';
+
+const PROMO_DISCOUNT_TYPES: PromoDiscountType[] = ['percentage', 'fixed'];
+
+/**
+ * Request DTO for creating a promo code
+ * Fixed discounts and the minimum trip value are in the active pricing config's currency
+ */
+export class CreatePromoCodeRequest {
+  @IsString()
+  @IsNotEmpty()
+  @Matches(/^[A-Za-z0-9_-]{3,32}$/, {
+    message: 'Code must be 3-32 letters, numbers, hyphens or underscores',
+  })
+  code!: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsIn(PROMO_DISCOUNT_TYPES)
+  discountType!: PromoDiscountType;
+
+  @IsNumber()
+  @IsPositive()
+  discountValue!: number;
+
+  @IsDateString()
+  validFrom!: string;
+
+  @IsDateString()
+  validUntil!: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minTripValue?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  eventTypes?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * Request DTO for updating a promo code
+ * The code itself cannot be changed once created
+ */
+export class UpdatePromoCodeRequest {
+  @IsOptional()
+  @IsString()
+  @MaxLength(200)
+  description?: string;
+
+  @IsOptional()
+  @IsIn(PROMO_DISCOUNT_TYPES)
+  discountType?: PromoDiscountType;
+
+  @IsOptional()
+  @IsNumber()
+  @IsPositive()
+  discountValue?: number;
+
+  @IsOptional()
+  @IsDateString()
+  validFrom?: string;
+
+  @IsOptional()
+  @IsDateString()
+  validUntil?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  maxUses?: number;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  perUserLimit?: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  minTripValue?: number;
+
+  @IsOptional()
+  @IsArray()
+  @IsString({ each: true })
+  eventTypes?: string[];
+
+  @IsOptional()
+  @IsBoolean()
+  isActive?: boolean;
+}
+
+/**
+ * Response DTO for a promo code
+ */
+export interface PromoCodeResponse {
+  promoCodeId: string;
+  code: string;
+  description?: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  validFrom: Date;
+  validUntil: Date;
+  maxUses?: number;
+  usedCount: number;
+  perUserLimit?: number;
+  minTripValue?: number;
+  eventTypes: string[];
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
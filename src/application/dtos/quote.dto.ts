@@ -15,9 +15,15 @@ import {
   IsDateString,
   ValidateNested,
   IsIn,
+  IsISO4217CurrencyCode,
 } from 'class-validator';
 import { Type } from 'class-transformer';
 import { QuoteStatus, TripType, StopType } from '../../shared/constants';
+import {
+  NEGOTIABLE_PRICING_COMPONENTS,
+  NegotiablePricingComponent,
+  QuotePricingVersionStatus,
+} from '../../domain/entities/quote.entity';
 
 /**
  * Selected vehicle structure for DTOs
@@ -166,6 +172,20 @@ export class UpdateQuoteDraftRequest {
   @IsOptional()
   @IsArray()
   selectedAmenities?: string[];
+
+  @IsOptional()
+  @IsISO4217CurrencyCode()
+  currency?: string;
+}
+
+/**
+ * Request DTO for applying a promo code to a quote draft
+ */
+export class ApplyPromoCodeRequest {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(32)
+  code!: string;
 }
 
 /**
@@ -278,8 +298,34 @@ export interface PricingBreakdownResponse {
   nightCharge: number;
   amenitiesTotal: number;
   subtotal: number;
+  discount?: number;
+  promoCode?: string;
+  lineItems?: Array<{ description: string; amount: number; reason?: string }>;
   tax: number;
   total: number;
+  currency: string;
+  baseCurrency?: string;
+  exchangeRateAtTime?: number;
+}
+
+/**
+ * Negotiated pricing version response DTO
+ */
+export interface QuotePricingVersionResponse {
+  version: number;
+  status: QuotePricingVersionStatus;
+  pricing: PricingBreakdownResponse;
+  overrides: Array<{
+    component: NegotiablePricingComponent;
+    originalAmount: number;
+    amount: number;
+    reason: string;
+  }>;
+  lineItems: Array<{ description: string; amount: number; reason?: string }>;
+  note?: string;
+  proposedAt: Date;
+  respondedAt?: Date;
+  responseReason?: string;
 }
 
 /**
@@ -296,9 +342,12 @@ export interface QuoteResponse {
   passengerCount?: number;
   status: QuoteStatus;
   currentStep?: number;
+  currency?: string;
+  promoCode?: string;
   selectedVehicles?: SelectedVehicleDto[];
   selectedAmenities?: string[];
   pricing?: PricingBreakdownResponse;
+  pricingVersions?: QuotePricingVersionResponse[];
   routeData?: {
     outbound?: { totalDistance?: number; totalDuration?: number; routeGeometry?: string };
     return?: { totalDistance?: number; totalDuration?: number; routeGeometry?: string };
@@ -311,6 +360,7 @@ export interface QuoteResponse {
   chatAvailable?: boolean;
   chatId?: string;
   quotedAt?: Date;
+  requotedFromQuoteId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -326,6 +376,7 @@ export interface QuoteListItemResponse {
   status: QuoteStatus;
   currentStep?: number;
   totalPrice?: number;
+  currency?: string;
   startLocation?: string;
   endLocation?: string;
   chatAvailable?: boolean;
@@ -365,6 +416,39 @@ export interface SubmitQuoteResponse {
   pricing: PricingBreakdownResponse;
 }
 
+/**
+ * Change of a single pricing line between two quotes
+ * Lines that only exist on one side have 0 on the other
+ */
+export interface PricingDiffLine {
+  key: string;
+  label: string;
+  previous: number;
+  current: number;
+  difference: number;
+}
+
+/**
+ * Line-by-line comparison of an expired quote's pricing with its requote
+ */
+export interface PricingDiffResponse {
+  currency: string;
+  previousTotal: number;
+  currentTotal: number;
+  totalDifference: number;
+  lines: PricingDiffLine[];
+}
+
+/**
+ * Requote response DTO
+ * POST /api/v1/quotes/:id/requote
+ */
+export interface RequoteResponse {
+  requotedFromQuoteId: string;
+  quote: QuoteResponse;
+  priceDiff: PricingDiffResponse;
+}
+
 /**
  * Recalculate quote response DTO
  * POST /api/v1/admin/quotes/:id/recalculate
@@ -437,3 +521,70 @@ export class AssignDriverToQuoteRequest {
   driverId!: string;
 }
 
+/**
+ * Pricing component override in a counter-offer
+ */
+export class PricingOverrideDto {
+  @IsIn(NEGOTIABLE_PRICING_COMPONENTS)
+  component!: NegotiablePricingComponent;
+
+  @IsNumber()
+  @Min(0)
+  amount!: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+/**
+ * Ad-hoc line item in a counter-offer
+ * Negative amounts are credits
+ */
+export class PricingLineItemDto {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(200)
+  description!: string;
+
+  @IsNumber()
+  amount!: number;
+
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+}
+
+/**
+ * Request DTO for sending a counter-offer on a quote
+ */
+export class ProposeCounterOfferRequest {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PricingOverrideDto)
+  overrides?: PricingOverrideDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => PricingLineItemDto)
+  lineItems?: PricingLineItemDto[];
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  note?: string;
+}
+
+/**
+ * Request DTO for rejecting a counter-offer
+ */
+export class RejectCounterOfferRequest {
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  reason?: string;
+}
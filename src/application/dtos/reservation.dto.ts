@@ -1,5 +1,8 @@
+import { IsNotEmpty, IsNumber, IsOptional, IsString, MaxLength, Min } from 'class-validator';
 import { ReservationStatus, TripType } from '../../shared/constants';
 import { SelectedVehicleDto, AdminUserInfo } from './quote.dto';
+import { CancellationPreviewResponse } from './cancellation_policy.dto';
+import { ReservationInvoiceType } from '../../domain/entities/reservation_invoice.entity';
 
 /**
  * Original pricing snapshot response DTO
@@ -10,6 +13,23 @@ export interface OriginalPricingResponse {
   paidAt?: Date;
 }
 
+/**
+ * Payment schedule response DTO for deposit bookings
+ */
+export interface PaymentScheduleResponse {
+  totalAmount: number;
+  currency: string;
+  depositPercentage: number;
+  installments: Array<{
+    kind: 'deposit' | 'balance';
+    amount: number;
+    dueAt: Date;
+    status: 'pending' | 'paid' | 'overdue';
+    paymentId?: string;
+    paidAt?: Date;
+  }>;
+}
+
 /**
  * Reservation response DTO
  */
@@ -34,6 +54,7 @@ export interface ReservationResponse {
   assignedDriverId?: string;
   originalDriverId?: string;
   originalPricing?: OriginalPricingResponse;
+  paymentSchedule?: PaymentScheduleResponse;
   reservationDate: Date;
   confirmedAt?: Date;
   driverChangedAt?: Date;
@@ -164,6 +185,26 @@ export interface ReservationChargeResponse {
   createdAt: Date;
 }
 
+/**
+ * Reservation invoice, receipt or credit note response DTO
+ */
+export interface ReservationInvoiceResponse {
+  invoiceId: string;
+  invoiceNumber: string;
+  documentType: ReservationInvoiceType;
+  reservationId: string;
+  paymentId: string;
+  description: string;
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  issuedAt: Date;
+  chargeId?: string;
+  refundId?: string;
+  relatedInvoiceId?: string;
+  reason?: string;
+}
+
 /**
  * Admin reservation details response DTO
  * Extends ReservationResponse with additional admin-specific data
@@ -182,3 +223,34 @@ export interface AdminReservationDetailsResponse extends ReservationResponse {
   unpaidCharges?: number;
 }
 
+
+/**
+ * Request DTO for a user cancelling their own reservation
+ */
+export class CancelUserReservationRequest {
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  reason!: string;
+
+  /**
+   * Total refund shown in the preview the user confirmed
+   * Cancellation is rejected if the refund has changed since (e.g. a tier boundary was crossed)
+   */
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  expectedRefundAmount?: number;
+}
+
+/**
+ * Response DTO for the refund preview shown to a user before they cancel
+ * The policy is null when none has been configured and the remaining balance is refunded in full
+ */
+export interface UserCancellationPreviewResponse
+  extends Omit<CancellationPreviewResponse, 'cancellationPolicyId' | 'cancellationPolicyVersion'> {
+  cancellationPolicyId: string | null;
+  cancellationPolicyVersion: number | null;
+  canCancel: boolean;
+  selfServiceCutoffAt: Date | null;
+}
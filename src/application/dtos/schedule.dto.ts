@@ -0,0 +1,56 @@
+/**
+ * Fleet schedule DTOs
+ * Data Transfer Objects for the admin dispatch timeline
+ */
+
+/**
+ * Resource kinds a schedule can be built for
+ */
+export type ScheduleResource = 'vehicle' | 'driver';
+
+/**
+ * Kinds of blocks on a resource timeline
+ * - soft_hold: QUOTED quote still within its payment window
+ * - booking: paid reservation
+ * - maintenance: vehicle out of service
+ * - cooldown: driver rest period after a trip
+ */
+export type ScheduleEntryType = 'soft_hold' | 'booking' | 'maintenance' | 'cooldown';
+
+/**
+ * Single block on a resource timeline
+ */
+export interface ScheduleEntryResponse {
+  entryId: string;
+  type: ScheduleEntryType;
+  startAt: Date;
+  endAt: Date;
+  quoteId?: string;
+  reservationId?: string;
+  referenceNumber?: string;
+  tripName?: string;
+  status?: string;
+  conflictsWith: string[];
+}
+
+/**
+ * Timeline of one vehicle or driver
+ */
+export interface ResourceTimelineResponse {
+  resourceId: string;
+  resourceName: string;
+  status: string;
+  entries: ScheduleEntryResponse[];
+  hasConflicts: boolean;
+}
+
+/**
+ * Fleet schedule response DTO
+ */
+export interface FleetScheduleResponse {
+  resource: ScheduleResource;
+  from: Date;
+  to: Date;
+  timelines: ResourceTimelineResponse[];
+  conflictCount: number;
+}
@@ -0,0 +1,27 @@
+/**
+ * Response DTO for one login session
+ */
+export interface SessionResponse {
+  sessionId: string;
+  deviceName: string; // e.g. "Chrome on Windows"
+  ipAddress?: string;
+  userAgent?: string;
+  createdAt: Date;
+  lastSeenAt: Date; // Last login or token refresh
+  expiresAt: Date;
+  current: boolean; // The session making the request
+}
+
+/**
+ * Response DTO for listing a user's active sessions
+ */
+export interface SessionListResponse {
+  sessions: SessionResponse[];
+}
+
+/**
+ * Response DTO for ending sessions
+ */
+export interface RevokeSessionsResponse {
+  revokedCount: number;
+}
@@ -0,0 +1,154 @@
+import {
+  IsArray,
+  IsDateString,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+  ValidateNested,
+} from 'class-validator';
+import { Type } from 'class-transformer';
+
+/**
+ * Odometer reading DTO for one vehicle on the trip
+ */
+export class TripOdometerReadingDto {
+  @IsString()
+  @IsNotEmpty()
+  vehicleId!: string;
+
+  @IsNumber()
+  @Min(0)
+  odometerReading!: number;
+}
+
+/**
+ * Fuel fill DTO for one vehicle on the trip
+ */
+export class TripFuelFillDto {
+  @IsString()
+  @IsNotEmpty()
+  vehicleId!: string;
+
+  @IsNumber()
+  @Min(0.01)
+  litres!: number;
+
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  cost?: number;
+
+  @IsOptional()
+  @IsDateString()
+  filledAt?: string;
+}
+
+/**
+ * Request DTO for starting a trip
+ * Odometer readings are optional so trips can still be started without them
+ */
+export class StartTripRequest {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TripOdometerReadingDto)
+  odometerReadings?: TripOdometerReadingDto[];
+}
+
+/**
+ * Request DTO for ending a trip
+ * Odometer readings and fuel fills are optional so trips can still be ended without them
+ */
+export class EndTripRequest {
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TripOdometerReadingDto)
+  odometerReadings?: TripOdometerReadingDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => TripFuelFillDto)
+  fuelFills?: TripFuelFillDto[];
+}
+
+/**
+ * Response DTO for a fuel fill
+ */
+export interface FuelFillResponse {
+  litres: number;
+  cost?: number;
+  filledAt: Date;
+}
+
+/**
+ * Response DTO for the log of one vehicle on one trip
+ */
+export interface VehicleTripLogResponse {
+  logId: string;
+  reservationId: string;
+  vehicleId: string;
+  plateNumber?: string;
+  driverId: string;
+  startOdometer: number;
+  endOdometer?: number;
+  startedAt: Date;
+  completedAt?: Date;
+  estimatedDistanceKm: number;
+  actualDistanceKm?: number;
+  estimatedFuelLitres: number;
+  actualFuelLitres: number;
+  fuelCost: number;
+  estimatedKmPerLitre: number;
+  actualKmPerLitre?: number;
+  fuelFills: FuelFillResponse[];
+}
+
+/**
+ * Estimated vs actual totals
+ */
+export interface TripFuelTotalsResponse {
+  estimatedDistanceKm: number;
+  actualDistanceKm: number;
+  distanceVarianceKm: number;
+  estimatedFuelLitres: number;
+  actualFuelLitres: number;
+  fuelVarianceLitres: number;
+  fuelCost: number;
+}
+
+/**
+ * Response DTO for one reservation in the fuel report
+ */
+export interface TripFuelReportItemResponse extends TripFuelTotalsResponse {
+  reservationId: string;
+  reservationNumber?: string;
+  tripName?: string;
+  completedAt?: Date;
+  vehicles: VehicleTripLogResponse[];
+}
+
+/**
+ * Response DTO for the estimated vs actual fuel report
+ */
+export interface TripFuelReportResponse {
+  from: Date;
+  to: Date;
+  trips: TripFuelReportItemResponse[];
+  totals: TripFuelTotalsResponse;
+}
+
+/**
+ * Response DTO for a vehicle's measured fuel consumption history
+ */
+export interface VehicleFuelHistoryResponse {
+  vehicleId: string;
+  plateNumber: string;
+  ratedKmPerLitre: number;
+  averageKmPerLitre?: number;
+  odometerReading: number;
+  trips: VehicleTripLogResponse[];
+}
@@ -0,0 +1,83 @@
+import { IsString, IsNotEmpty, IsOptional, Matches, MaxLength } from 'class-validator';
+import { LoginUserResponse } from './user.dto';
+
+const AUTHENTICATOR_CODE_PATTERN = /^\d{6}$/;
+
+/**
+ * Request DTO carrying a second factor
+ * Either a code from the authenticator app or one of the recovery codes
+ */
+export class TwoFactorCodeRequest {
+  @IsOptional()
+  @IsString()
+  @Matches(AUTHENTICATOR_CODE_PATTERN, { message: 'Authentication code must be 6 digits' })
+  code?: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(20)
+  recoveryCode?: string;
+}
+
+/**
+ * Request DTO for finishing a login with the second factor
+ */
+export class VerifyTwoFactorLoginRequest extends TwoFactorCodeRequest {
+  @IsString()
+  @IsNotEmpty()
+  challengeToken!: string;
+}
+
+/**
+ * Request DTO for confirming two-factor setup with the first code from the authenticator app
+ */
+export class EnableTwoFactorRequest {
+  @IsString()
+  @Matches(AUTHENTICATOR_CODE_PATTERN, { message: 'Authentication code must be 6 digits' })
+  code!: string;
+}
+
+/**
+ * Response DTO for starting two-factor setup
+ * The client renders otpauthUri as a QR code; the secret is for typing in by hand
+ */
+export interface TwoFactorSetupResponse {
+  secret: string;
+  otpauthUri: string;
+}
+
+/**
+ * Response DTO for a login that needs a second step
+ * setup is present when the user must enroll an authenticator app before logging in
+ */
+export interface TwoFactorChallengeResponse {
+  twoFactorRequired: true;
+  challengeToken: string;
+  expiresIn: number; // Seconds until the challenge expires
+  setup?: TwoFactorSetupResponse;
+}
+
+/**
+ * Response DTO for finishing a login with the second factor
+ * recoveryCodes is present when the login completed enrollment; they are shown only once
+ */
+export interface VerifyTwoFactorLoginResponse extends LoginUserResponse {
+  recoveryCodes?: string[];
+}
+
+/**
+ * Response DTO for the two-factor status of the current user
+ */
+export interface TwoFactorStatusResponse {
+  enabled: boolean;
+  required: boolean; // The user's role must use two-factor authentication
+  recoveryCodesRemaining: number;
+  enabledAt?: Date;
+}
+
+/**
+ * Response DTO carrying new recovery codes, shown only once
+ */
+export interface TwoFactorRecoveryCodesResponse {
+  recoveryCodes: string[];
+}
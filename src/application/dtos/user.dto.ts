@@ -1,5 +1,5 @@
-import { IsEmail, IsNotEmpty, IsOptional, IsString, Matches, MinLength, ValidateIf, IsEnum, IsDateString } from 'class-validator';
-import { UserRole, UserStatus } from '../../shared/constants';
+import { IsEmail, IsNotEmpty, IsOptional, IsString, Matches, MinLength, ValidateIf, IsEnum, IsDateString, IsBoolean } from 'class-validator';
+import { AdminRole, Permission, UserRole, UserStatus } from '../../shared/constants';
 
 /**
  * Request DTO for user registration
@@ -128,6 +128,10 @@ export class UpdateUserProfileRequest {
     message: 'Profile picture must be a valid Cloudinary URL',
   })
   profilePicture?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  quoteFollowUpEmails?: boolean; // false opts out of quote reminder and follow-up emails
 }
 
 
@@ -173,7 +177,7 @@ export interface RefreshTokenRequest {
  */
 export interface RefreshTokenResponse {
   accessToken: string;
-  refreshToken?: string; // Optional - same refresh token (for mobile clients)
+  refreshToken?: string; // New refresh token; the one exchanged no longer works
 }
 
 /**
@@ -186,6 +190,8 @@ export interface LoginUserResponse {
     fullName: string;
     email: string;
     role: UserRole;
+    adminRole?: AdminRole;
+    permissions: Permission[];
     createdAt: Date;
   };
   accessToken: string; // access token
@@ -194,10 +200,11 @@ export interface LoginUserResponse {
 
 /**
  * Request DTO for user logout
- * Contains the refresh token extracted from HTTP-only cookie
+ * Contains the refresh token extracted from HTTP-only cookie and the session of the access token
  */
 export interface LogoutUserRequest {
   refreshToken?: string; // Optional - may not exist if already logged out
+  sessionId?: string; // Optional - missing on tokens issued before sessions were tracked
 }
 
 /**
@@ -237,10 +244,13 @@ export interface GetUserProfileResponse {
     phoneNumber?: string;
     profilePicture: string;
     role: UserRole;
+    adminRole?: AdminRole;
+    permissions: Permission[];
     createdAt: Date;
     updatedAt: Date;
     hasPassword: boolean;
     hasGoogleAuth: boolean;
+    quoteFollowUpEmails: boolean;
   };
 }
 
@@ -318,12 +328,16 @@ export interface ChangeUserStatusResponse {
 
 /**
  * Request DTO for changing user role (admin)
- * Validates role value
+ * Validates role value; admins also get a staff role that decides their permissions
  */
 export class ChangeUserRoleRequest {
   @IsEnum(UserRole)
   @IsNotEmpty()
   role!: UserRole;
+
+  @IsOptional()
+  @IsEnum(AdminRole)
+  adminRole?: AdminRole;
 }
 
 /**
@@ -339,12 +353,24 @@ export interface ChangeUserRoleResponse {
     phoneNumber?: string;
     profilePicture: string;
     role: UserRole;
+    adminRole?: AdminRole;
+    permissions: Permission[];
     status: string;
     isVerified: boolean;
     updatedAt: Date;
   };
 }
 
+/**
+ * Response DTO for unlocking a user account (admin)
+ * wasLocked is false when the account had failed logins but no active lockout
+ */
+export interface UnlockUserResponse {
+  userId: string;
+  email: string;
+  wasLocked: boolean;
+}
+
 /**
  * Response DTO for updating user profile
  * Contains the result of the profile update process
@@ -359,6 +385,7 @@ export interface UpdateUserProfileResponse {
     profilePicture: string;
     role: UserRole;
     updatedAt: Date;
+    quoteFollowUpEmails: boolean;
   };
 }
 
@@ -271,9 +271,12 @@ export interface VehicleResponse {
   vehicleModel: string;
   year: number;
   fuelConsumption: number;
+  averageFuelConsumption?: number;
   imageUrls?: string[];
   status: VehicleStatus;
   amenityIds?: string[];
+  odometerReading: number;
+  isServiceDue: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
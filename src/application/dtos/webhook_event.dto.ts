@@ -0,0 +1,39 @@
+import { WebhookEventStatus } from '../../domain/entities/webhook_event.entity';
+
+/**
+ * Response DTO for a stored webhook event in admin lists
+ */
+export interface WebhookEventResponse {
+  eventId: string;
+  provider: string;
+  type: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  receivedAt: Date;
+  lastAttemptAt?: Date;
+  processedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Response DTO for a single webhook event including the payload as received
+ * The payload is parsed when it is valid JSON and returned as the raw string otherwise
+ */
+export interface WebhookEventDetailResponse extends WebhookEventResponse {
+  payload: unknown;
+}
+
+/**
+ * Response DTO for paginated webhook event list
+ */
+export interface WebhookEventListResponse {
+  events: WebhookEventResponse[];
+  pagination: {
+    page: number;
+    limit: number;
+    total: number;
+    totalPages: number;
+  };
+}
@@ -0,0 +1,58 @@
+import { AuditLog } from '../../domain/entities/audit_log.entity';
+import { AuditLogFilter } from '../../domain/repositories/audit_log_repository.interface';
+import { AuditLogQuery, AuditLogResponse } from '../dtos/audit_log.dto';
+import { AuditAction, AuditTargetType, ERROR_CODES, ERROR_MESSAGES } from '../../shared/constants';
+import { AppError } from '../../shared/utils/app_error.util';
+
+/**
+ * Mapper class for converting AuditLog entities to response DTOs
+ */
+export class AuditLogMapper {
+  static toAuditLogResponse(auditLog: AuditLog): AuditLogResponse {
+    return {
+      auditLogId: auditLog.auditLogId,
+      actorId: auditLog.actorId,
+      actorEmail: auditLog.actorEmail,
+      actorRole: auditLog.actorRole,
+      action: auditLog.action,
+      targetType: auditLog.targetType,
+      targetId: auditLog.targetId,
+      changes: auditLog.changes,
+      ipAddress: auditLog.ipAddress,
+      userAgent: auditLog.userAgent,
+      metadata: auditLog.metadata,
+      createdAt: auditLog.createdAt,
+    };
+  }
+
+  /**
+   * Converts query string filters to a repository filter
+   * Throws a 400 for unknown actions or target types and unparsable dates, so a typo does not read as "no entries"
+   */
+  static toAuditLogFilter(query: AuditLogQuery = {}): AuditLogFilter {
+    const invalid = (): AppError =>
+      new AppError(ERROR_MESSAGES.INVALID_AUDIT_LOG_FILTER, ERROR_CODES.INVALID_AUDIT_LOG_FILTER, 400);
+
+    if (query.action && !Object.values(AuditAction).includes(query.action)) {
+      throw invalid();
+    }
+    if (query.targetType && !Object.values(AuditTargetType).includes(query.targetType)) {
+      throw invalid();
+    }
+
+    const from = query.from ? new Date(query.from) : undefined;
+    const to = query.to ? new Date(query.to) : undefined;
+    if ((from && isNaN(from.getTime())) || (to && isNaN(to.getTime())) || (from && to && from > to)) {
+      throw invalid();
+    }
+
+    return {
+      actorId: query.actorId?.trim() || undefined,
+      action: query.action,
+      targetType: query.targetType,
+      targetId: query.targetId?.trim() || undefined,
+      from,
+      to,
+    };
+  }
+}
@@ -0,0 +1,22 @@
+import { CancellationPolicy } from '../../domain/entities/cancellation_policy.entity';
+import { CancellationPolicyResponse } from '../dtos/cancellation_policy.dto';
+
+/**
+ * Mapper class for converting CancellationPolicy entities to response DTOs
+ */
+export class CancellationPolicyMapper {
+  static toCancellationPolicyResponse(policy: CancellationPolicy): CancellationPolicyResponse {
+    return {
+      cancellationPolicyId: policy.cancellationPolicyId,
+      version: policy.version,
+      tiers: [...policy.tiers].sort((a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture),
+      nonRefundableDepositPercentage: policy.nonRefundableDepositPercentage,
+      amenityRefundMode: policy.amenityRefundMode,
+      chargeRefundMode: policy.chargeRefundMode,
+      isActive: policy.isActive,
+      createdBy: policy.createdBy,
+      createdAt: policy.createdAt,
+      updatedAt: policy.updatedAt,
+    };
+  }
+}
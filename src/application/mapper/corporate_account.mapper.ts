@@ -0,0 +1,85 @@
+import { CorporateAccount } from '../../domain/entities/corporate_account.entity';
+import { CorporateBooking } from '../../domain/entities/corporate_booking.entity';
+import { CorporateInvoice } from '../../domain/entities/corporate_invoice.entity';
+import { User } from '../../domain/entities/user.entity';
+import { ICorporateCreditSummary } from '../../domain/services/corporate_credit_service.interface';
+import {
+  CorporateAccountResponse,
+  CorporateBookingResponse,
+  CorporateInvoiceResponse,
+} from '../dtos/corporate_account.dto';
+
+/**
+ * Mapper class for converting corporate account entities to response DTOs
+ */
+export class CorporateAccountMapper {
+  static toCorporateAccountResponse(
+    account: CorporateAccount,
+    credit?: ICorporateCreditSummary,
+    users: User[] = []
+  ): CorporateAccountResponse {
+    return {
+      corporateAccountId: account.corporateAccountId,
+      name: account.name,
+      billingContact: account.billingContact,
+      billingAddress: account.billingAddress,
+      taxId: account.taxId,
+      creditLimit: account.creditLimit,
+      currency: account.currency,
+      paymentTermsDays: account.paymentTermsDays,
+      approvalThreshold: account.approvalThreshold,
+      status: account.status,
+      members: account.members.map((member) => {
+        const user = users.find((u) => u.userId === member.userId);
+        return {
+          userId: member.userId,
+          role: member.role,
+          addedAt: member.addedAt,
+          fullName: user?.fullName,
+          email: user?.email,
+        };
+      }),
+      credit,
+      createdAt: account.createdAt,
+      updatedAt: account.updatedAt,
+    };
+  }
+
+  static toCorporateBookingResponse(booking: CorporateBooking): CorporateBookingResponse {
+    return {
+      corporateBookingId: booking.corporateBookingId,
+      corporateAccountId: booking.corporateAccountId,
+      quoteId: booking.quoteId,
+      requestedBy: booking.requestedBy,
+      amount: booking.amount,
+      currency: booking.currency,
+      status: booking.status,
+      reservationId: booking.reservationId,
+      bookedAt: booking.bookedAt,
+      invoiceId: booking.invoiceId,
+      reviewedBy: booking.reviewedBy,
+      reviewedAt: booking.reviewedAt,
+      rejectionReason: booking.rejectionReason,
+      createdAt: booking.createdAt,
+      updatedAt: booking.updatedAt,
+    };
+  }
+
+  static toCorporateInvoiceResponse(invoice: CorporateInvoice): CorporateInvoiceResponse {
+    return {
+      invoiceId: invoice.invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      corporateAccountId: invoice.corporateAccountId,
+      periodStart: invoice.periodStart,
+      periodEnd: invoice.periodEnd,
+      lineItems: invoice.lineItems,
+      totalAmount: invoice.totalAmount,
+      currency: invoice.currency,
+      status: invoice.status,
+      issuedAt: invoice.issuedAt,
+      dueAt: invoice.dueAt,
+      paidAt: invoice.paidAt,
+      paymentReference: invoice.paymentReference,
+    };
+  }
+}
@@ -79,7 +79,9 @@ function maxDate(dates: readonly Date[]): Date {
   return max;
 }
 
-export function deriveTripWindow(stops: readonly ReservationItinerary[]): {
+export function deriveTripWindow(
+  stops: readonly Pick<ReservationItinerary, 'arrivalTime' | 'departureTime'>[]
+): {
   tripStartAt: Date;
   tripEndAt: Date;
 } {
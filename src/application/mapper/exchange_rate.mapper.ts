@@ -0,0 +1,19 @@
+import { ExchangeRate } from '../../domain/entities/exchange_rate.entity';
+import { ExchangeRateResponse } from '../dtos/exchange_rate.dto';
+
+/**
+ * Mapper class for converting ExchangeRate entities to response DTOs
+ */
+export class ExchangeRateMapper {
+  static toExchangeRateResponse(exchangeRate: ExchangeRate): ExchangeRateResponse {
+    return {
+      exchangeRateId: exchangeRate.exchangeRateId,
+      baseCurrency: exchangeRate.baseCurrency,
+      currency: exchangeRate.currency,
+      rate: exchangeRate.rate,
+      updatedBy: exchangeRate.updatedBy,
+      createdAt: exchangeRate.createdAt,
+      updatedAt: exchangeRate.updatedAt,
+    };
+  }
+}
@@ -0,0 +1,75 @@
+import { MaintenanceWindow } from '../../domain/entities/maintenance_window.entity';
+import { ServiceRecord } from '../../domain/entities/service_record.entity';
+import { Vehicle } from '../../domain/entities/vehicle.entity';
+import {
+  MaintenanceWindowResponse,
+  ServiceRecordResponse,
+  VehicleMaintenancePlanResponse,
+  VehicleMaintenanceResponse,
+} from '../dtos/maintenance.dto';
+
+/**
+ * Mapper class for converting maintenance entities to response DTOs
+ */
+export class MaintenanceMapper {
+  static toMaintenanceWindowResponse(window: MaintenanceWindow): MaintenanceWindowResponse {
+    return {
+      windowId: window.windowId,
+      vehicleId: window.vehicleId,
+      startAt: window.startAt,
+      endAt: window.endAt,
+      reason: window.reason,
+      notes: window.notes,
+      status: window.status,
+      startedAt: window.startedAt,
+      completedAt: window.completedAt,
+      cancelledAt: window.cancelledAt,
+      serviceRecordId: window.serviceRecordId,
+      createdAt: window.createdAt,
+    };
+  }
+
+  static toServiceRecordResponse(record: ServiceRecord): ServiceRecordResponse {
+    return {
+      recordId: record.recordId,
+      vehicleId: record.vehicleId,
+      serviceType: record.serviceType,
+      servicedAt: record.servicedAt,
+      odometerReading: record.odometerReading,
+      cost: record.cost,
+      vendor: record.vendor,
+      notes: record.notes,
+      windowId: record.windowId,
+      createdAt: record.createdAt,
+    };
+  }
+
+  static toVehicleMaintenancePlanResponse(vehicle: Vehicle): VehicleMaintenancePlanResponse {
+    return {
+      vehicleId: vehicle.vehicleId,
+      plateNumber: vehicle.plateNumber,
+      status: vehicle.status,
+      odometerReading: vehicle.odometerReading,
+      serviceIntervalKm: vehicle.serviceIntervalKm,
+      serviceIntervalDays: vehicle.serviceIntervalDays,
+      lastServiceOdometer: vehicle.lastServiceOdometer,
+      lastServicedAt: vehicle.lastServicedAt,
+      kmUntilService: vehicle.getKmUntilService(),
+      nextServiceDueAt: vehicle.getNextServiceDueAt(),
+      isServiceDue: vehicle.isServiceDue(),
+    };
+  }
+
+  static toVehicleMaintenanceResponse(
+    vehicle: Vehicle,
+    windows: MaintenanceWindow[],
+    records: ServiceRecord[]
+  ): VehicleMaintenanceResponse {
+    return {
+      plan: this.toVehicleMaintenancePlanResponse(vehicle),
+      windows: windows.map((window) => this.toMaintenanceWindowResponse(window)),
+      serviceRecords: records.map((record) => this.toServiceRecordResponse(record)),
+      totalServiceCost: records.reduce((sum, record) => sum + record.cost, 0),
+    };
+  }
+}
@@ -0,0 +1,23 @@
+import { NotificationPreference } from '../../domain/entities/notification_preference.entity';
+import { NotificationPreferencesResponse } from '../dtos/notification.dto';
+import { NotificationType } from '../../shared/constants';
+
+/**
+ * Mapper class for converting NotificationPreference entities to response DTOs
+ */
+export class NotificationPreferenceMapper {
+  /**
+   * Lists every notification type, including the ones still on the default channels
+   */
+  static toNotificationPreferencesResponse(preference: NotificationPreference): NotificationPreferencesResponse {
+    return {
+      channels: Object.values(NotificationType).map((type) => ({
+        type,
+        ...preference.channelsFor(type),
+      })),
+      quietHours: preference.quietHours ? { ...preference.quietHours } : undefined,
+      dailyDigest: preference.dailyDigest,
+      updatedAt: preference.updatedAt,
+    };
+  }
+}
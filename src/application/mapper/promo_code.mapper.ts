@@ -0,0 +1,28 @@
+import { PromoCode } from '../../domain/entities/promo_code.entity';
+import { PromoCodeResponse } from '../dtos/promo_code.dto';
+
+/**
+ * Mapper class for converting PromoCode entities to response DTOs
+ */
+export class PromoCodeMapper {
+  static toPromoCodeResponse(promoCode: PromoCode): PromoCodeResponse {
+    return {
+      promoCodeId: promoCode.promoCodeId,
+      code: promoCode.code,
+      description: promoCode.description,
+      discountType: promoCode.discountType,
+      discountValue: promoCode.discountValue,
+      validFrom: promoCode.validFrom,
+      validUntil: promoCode.validUntil,
+      maxUses: promoCode.maxUses,
+      usedCount: promoCode.usedCount,
+      perUserLimit: promoCode.perUserLimit,
+      minTripValue: promoCode.minTripValue,
+      eventTypes: promoCode.eventTypes,
+      isActive: promoCode.isActive,
+      createdBy: promoCode.createdBy,
+      createdAt: promoCode.createdAt,
+      updatedAt: promoCode.updatedAt,
+    };
+  }
+}
@@ -1,8 +1,37 @@
-import { Quote } from '../../domain/entities/quote.entity';
+import { IPricingBreakdown, Quote } from '../../domain/entities/quote.entity';
 import { QuoteItinerary } from '../../domain/entities/quote_itinerary.entity';
 import { Passenger } from '../../domain/entities/passenger.entity';
-import { QuoteResponse, QuoteListItemResponse, ItineraryStopDto, PassengerDto } from '../dtos/quote.dto';
+import {
+  QuoteResponse,
+  QuoteListItemResponse,
+  ItineraryStopDto,
+  PassengerDto,
+  PricingBreakdownResponse,
+  PricingDiffLine,
+  PricingDiffResponse,
+} from '../dtos/quote.dto';
 import { StopType, TripType } from '../../shared/constants';
+import { normalizeCurrency, roundCurrencyAmount } from '../../shared/utils/currency.util';
+
+/**
+ * Pricing components compared when a quote is requoted, in breakdown order
+ * Negotiated line items are listed between the components and the subtotal
+ */
+const PRICING_DIFF_COMPONENTS: Array<{ key: keyof PricingBreakdownResponse; label: string }> = [
+  { key: 'baseFare', label: 'Base fare' },
+  { key: 'distanceFare', label: 'Distance fare' },
+  { key: 'driverCharge', label: 'Driver charge' },
+  { key: 'fuelMaintenance', label: 'Fuel & maintenance' },
+  { key: 'nightCharge', label: 'Night charge' },
+  { key: 'amenitiesTotal', label: 'Amenities' },
+];
+
+const PRICING_DIFF_TOTALS: Array<{ key: keyof PricingBreakdownResponse; label: string }> = [
+  { key: 'subtotal', label: 'Subtotal' },
+  { key: 'discount', label: 'Discount' },
+  { key: 'tax', label: 'Tax' },
+  { key: 'total', label: 'Total' },
+];
 
 /**
  * Quote mapper
@@ -53,37 +82,104 @@ export class QuoteMapper {
       passengerCount: quote.passengerCount,
       status: quote.status,
       currentStep: quote.currentStep,
+      currency: quote.currency,
+      promoCode: quote.promoCode,
       selectedVehicles: quote.selectedVehicles?.map((v) => ({
         vehicleId: v.vehicleId,
         quantity: v.quantity,
       })),
       selectedAmenities: quote.selectedAmenities,
-      pricing: quote.pricing
-        ? {
-            fuelPriceAtTime: quote.pricing.fuelPriceAtTime,
-            averageDriverRateAtTime: quote.pricing.averageDriverRateAtTime,
-            actualDriverRate: quote.actualDriverRate,
-            taxPercentageAtTime: quote.pricing.taxPercentageAtTime,
-            baseFare: quote.pricing.baseFare ?? 0,
-            distanceFare: quote.pricing.distanceFare ?? 0,
-            driverCharge: quote.pricing.driverCharge ?? 0,
-            fuelMaintenance: quote.pricing.fuelMaintenance ?? 0,
-            nightCharge: quote.pricing.nightCharge ?? 0,
-            amenitiesTotal: quote.pricing.amenitiesTotal ?? 0,
-            subtotal: quote.pricing.subtotal ?? 0,
-            tax: quote.pricing.tax ?? 0,
-            total: quote.pricing.total ?? 0,
-          }
-        : undefined,
+      pricing: quote.pricing ? this.mapPricingToDto(quote, quote.pricing) : undefined,
+      pricingVersions: quote.pricingVersions?.map((version) => ({
+        version: version.version,
+        status: version.status,
+        pricing: this.mapPricingToDto(quote, version.pricing),
+        overrides: version.overrides,
+        lineItems: version.lineItems,
+        note: version.note,
+        proposedAt: version.proposedAt,
+        respondedAt: version.respondedAt,
+        responseReason: version.responseReason,
+      })),
       routeData: quote.routeData,
       itinerary,
       passengers: passengersDto,
       quotedAt: quote.quotedAt,
+      requotedFromQuoteId: quote.requotedFromQuoteId,
       createdAt: quote.createdAt,
       updatedAt: quote.updatedAt,
     };
   }
 
+  /**
+   * Compares the pricing of an expired quote with the pricing of its requote line by line
+   * Both quotes are priced in the same currency, since a requote keeps the original quote's currency
+   */
+  static toPricingDiffResponse(previousQuote: Quote, currentQuote: Quote): PricingDiffResponse {
+    const previous = this.mapPricingToDto(previousQuote, previousQuote.pricing ?? {});
+    const current = this.mapPricingToDto(currentQuote, currentQuote.pricing ?? {});
+    const currency = current.currency;
+
+    const toLine = (key: string, label: string, previousAmount = 0, currentAmount = 0): PricingDiffLine => ({
+      key,
+      label,
+      previous: previousAmount,
+      current: currentAmount,
+      difference: roundCurrencyAmount(currentAmount - previousAmount, currency),
+    });
+    const amountOf = (pricing: PricingBreakdownResponse, key: keyof PricingBreakdownResponse): number =>
+      typeof pricing[key] === 'number' ? pricing[key] : 0;
+
+    const lineItems = [
+      ...(previous.lineItems ?? []).map((item, index) =>
+        toLine(`lineItem:${index}`, item.description, item.amount, 0)
+      ),
+      ...(current.lineItems ?? []).map((item, index) =>
+        toLine(`lineItem:new:${index}`, item.description, 0, item.amount)
+      ),
+    ];
+
+    const lines = [
+      ...PRICING_DIFF_COMPONENTS.map(({ key, label }) =>
+        toLine(key, label, amountOf(previous, key), amountOf(current, key))
+      ),
+      ...lineItems,
+      ...PRICING_DIFF_TOTALS.map(({ key, label }) => toLine(key, label, amountOf(previous, key), amountOf(current, key))),
+    ];
+
+    return {
+      currency,
+      previousTotal: previous.total,
+      currentTotal: current.total,
+      totalDifference: roundCurrencyAmount(current.total - previous.total, currency),
+      lines,
+    };
+  }
+
+  private static mapPricingToDto(quote: Quote, pricing: IPricingBreakdown): PricingBreakdownResponse {
+    return {
+      fuelPriceAtTime: pricing.fuelPriceAtTime,
+      averageDriverRateAtTime: pricing.averageDriverRateAtTime,
+      actualDriverRate: quote.actualDriverRate,
+      taxPercentageAtTime: pricing.taxPercentageAtTime,
+      baseFare: pricing.baseFare ?? 0,
+      distanceFare: pricing.distanceFare ?? 0,
+      driverCharge: pricing.driverCharge ?? 0,
+      fuelMaintenance: pricing.fuelMaintenance ?? 0,
+      nightCharge: pricing.nightCharge ?? 0,
+      amenitiesTotal: pricing.amenitiesTotal ?? 0,
+      subtotal: pricing.subtotal ?? 0,
+      discount: pricing.discount,
+      promoCode: pricing.promoCode,
+      lineItems: pricing.lineItems,
+      tax: pricing.tax ?? 0,
+      total: pricing.total ?? 0,
+      currency: normalizeCurrency(pricing.currency ?? quote.currency),
+      baseCurrency: pricing.baseCurrency,
+      exchangeRateAtTime: pricing.exchangeRateAtTime,
+    };
+  }
+
   private static mapItineraryStopToDto(stop: QuoteItinerary): ItineraryStopDto {
     return {
       locationName: stop.locationName,
@@ -150,6 +246,7 @@ export class QuoteMapper {
       status: quote.status,
       currentStep: quote.currentStep,
       totalPrice: quote.pricing?.total,
+      currency: quote.pricing?.currency ?? quote.currency,
       startLocation,
       endLocation,
       createdAt: quote.createdAt,
@@ -1,7 +1,9 @@
 import { Reservation } from '../../domain/entities/reservation.entity';
+import { ReservationInvoice } from '../../domain/entities/reservation_invoice.entity';
 import {
   ReservationResponse,
   ReservationListItemResponse,
+  ReservationInvoiceResponse,
 } from '../dtos/reservation.dto';
 
 /**
@@ -73,6 +75,7 @@ export class ReservationMapper {
       assignedDriverId: reservation.assignedDriverId,
       originalDriverId: reservation.originalDriverId,
       originalPricing: reservation.originalPricing,
+      paymentSchedule: reservation.paymentSchedule,
       reservationDate: reservation.reservationDate,
       confirmedAt: reservation.confirmedAt,
       driverChangedAt: reservation.driverChangedAt,
@@ -132,5 +135,23 @@ export class ReservationMapper {
       createdAt: reservation.createdAt,
     };
   }
-}
 
+  static toReservationInvoiceResponse(invoice: ReservationInvoice): ReservationInvoiceResponse {
+    return {
+      invoiceId: invoice.invoiceId,
+      invoiceNumber: invoice.invoiceNumber,
+      documentType: invoice.documentType,
+      reservationId: invoice.reservationId,
+      paymentId: invoice.paymentId,
+      description: invoice.description,
+      amount: invoice.amount,
+      currency: invoice.currency,
+      paymentMethod: invoice.paymentMethod,
+      issuedAt: invoice.issuedAt,
+      chargeId: invoice.chargeId,
+      refundId: invoice.refundId,
+      relatedInvoiceId: invoice.relatedInvoiceId,
+      reason: invoice.reason,
+    };
+  }
+}
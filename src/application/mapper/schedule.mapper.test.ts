@@ -0,0 +1,56 @@
+import { describe, it, expect } from 'vitest';
+import { buildResourceTimeline, countTimelineConflicts, ScheduleEntryInput } from './schedule.mapper';
+
+describe('buildResourceTimeline', () => {
+  const entry = (
+    entryId: string,
+    type: ScheduleEntryInput['type'],
+    startAt: string,
+    endAt: string,
+    ids: { quoteId?: string; reservationId?: string } = {}
+  ): ScheduleEntryInput => ({
+    entryId,
+    type,
+    startAt: new Date(startAt),
+    endAt: new Date(endAt),
+    ...ids,
+  });
+
+  it('should order entries by start time and leave separate trips unflagged', () => {
+    const timeline = buildResourceTimeline('vehicle-1', 'Coach (AB-123)', 'available', [
+      entry('booking:r2', 'booking', '2030-06-03T08:00:00Z', '2030-06-03T18:00:00Z', { reservationId: 'r2' }),
+      entry('booking:r1', 'booking', '2030-06-01T08:00:00Z', '2030-06-01T18:00:00Z', { reservationId: 'r1' }),
+    ]);
+
+    expect(timeline.entries.map((e) => e.entryId)).toEqual(['booking:r1', 'booking:r2']);
+    expect(timeline.hasConflicts).toBe(false);
+    expect(countTimelineConflicts(timeline)).toBe(0);
+  });
+
+  it('should flag a soft hold overlapping a booking or maintenance', () => {
+    const timeline = buildResourceTimeline('vehicle-1', 'Coach (AB-123)', 'maintenance', [
+      entry('booking:r1', 'booking', '2030-06-01T08:00:00Z', '2030-06-01T18:00:00Z', { reservationId: 'r1' }),
+      entry('soft_hold:q2', 'soft_hold', '2030-06-01T16:00:00Z', '2030-06-02T10:00:00Z', { quoteId: 'q2' }),
+      entry('maintenance:vehicle-1', 'maintenance', '2030-06-02T00:00:00Z', '2030-06-04T00:00:00Z'),
+    ]);
+
+    const softHold = timeline.entries.find((e) => e.entryId === 'soft_hold:q2');
+    expect(softHold?.conflictsWith).toEqual(['booking:r1', 'maintenance:vehicle-1']);
+    expect(countTimelineConflicts(timeline)).toBe(2);
+  });
+
+  it('should flag a trip that starts during another trip cooldown but not its own', () => {
+    const timeline = buildResourceTimeline('driver-1', 'Jane Doe', 'available', [
+      entry('booking:r1', 'booking', '2030-06-01T08:00:00Z', '2030-06-01T18:00:00Z', { reservationId: 'r1' }),
+      entry('cooldown:r1', 'cooldown', '2030-06-01T18:00:00Z', '2030-06-02T18:00:00Z', { reservationId: 'r1' }),
+      entry('booking:r2', 'booking', '2030-06-02T09:00:00Z', '2030-06-02T17:00:00Z', { reservationId: 'r2' }),
+      entry('cooldown:r2', 'cooldown', '2030-06-02T17:00:00Z', '2030-06-03T17:00:00Z', { reservationId: 'r2' }),
+    ]);
+
+    expect(timeline.entries.find((e) => e.entryId === 'booking:r1')?.conflictsWith).toEqual([]);
+    expect(timeline.entries.find((e) => e.entryId === 'booking:r2')?.conflictsWith).toEqual(['cooldown:r1']);
+    // Overlapping cooldowns alone do not block anything
+    expect(timeline.entries.find((e) => e.entryId === 'cooldown:r2')?.conflictsWith).toEqual([]);
+    expect(countTimelineConflicts(timeline)).toBe(1);
+  });
+});
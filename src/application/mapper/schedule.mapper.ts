@@ -0,0 +1,78 @@
+import {
+  ResourceTimelineResponse,
+  ScheduleEntryResponse,
+  ScheduleEntryType,
+} from '../dtos/schedule.dto';
+
+export type ScheduleEntryInput = Omit<ScheduleEntryResponse, 'conflictsWith'>;
+
+/**
+ * Entry types that occupy the resource outright
+ * A cooldown only blocks new trips, so two cooldowns may overlap freely
+ */
+const BLOCKING_TYPES = new Set<ScheduleEntryType>(['soft_hold', 'booking', 'maintenance']);
+
+function overlaps(a: ScheduleEntryInput, b: ScheduleEntryInput): boolean {
+  return a.startAt < b.endAt && b.startAt < a.endAt;
+}
+
+function belongToSameTrip(a: ScheduleEntryInput, b: ScheduleEntryInput): boolean {
+  return (
+    (a.quoteId !== undefined && a.quoteId === b.quoteId) ||
+    (a.reservationId !== undefined && a.reservationId === b.reservationId)
+  );
+}
+
+function isConflict(a: ScheduleEntryInput, b: ScheduleEntryInput): boolean {
+  if (!overlaps(a, b) || belongToSameTrip(a, b)) {
+    return false;
+  }
+
+  if (BLOCKING_TYPES.has(a.type) && BLOCKING_TYPES.has(b.type)) {
+    return true;
+  }
+
+  // A trip that starts while the driver is still cooling down from another trip
+  const isCooldownAgainstTrip = (cooldown: ScheduleEntryInput, other: ScheduleEntryInput): boolean =>
+    cooldown.type === 'cooldown' && (other.type === 'soft_hold' || other.type === 'booking');
+
+  return isCooldownAgainstTrip(a, b) || isCooldownAgainstTrip(b, a);
+}
+
+/**
+ * Builds a resource timeline ordered by start time, flagging entries that clash
+ * Each entry lists the entryIds of the entries it conflicts with
+ */
+export function buildResourceTimeline(
+  resourceId: string,
+  resourceName: string,
+  status: string,
+  entries: readonly ScheduleEntryInput[]
+): ResourceTimelineResponse {
+  const sorted = [...entries].sort(
+    (a, b) => a.startAt.getTime() - b.startAt.getTime() || a.endAt.getTime() - b.endAt.getTime()
+  );
+
+  const timelineEntries: ScheduleEntryResponse[] = sorted.map((entry) => ({
+    ...entry,
+    conflictsWith: sorted
+      .filter((other) => other.entryId !== entry.entryId && isConflict(entry, other))
+      .map((other) => other.entryId),
+  }));
+
+  return {
+    resourceId,
+    resourceName,
+    status,
+    entries: timelineEntries,
+    hasConflicts: timelineEntries.some((entry) => entry.conflictsWith.length > 0),
+  };
+}
+
+/**
+ * Counts distinct conflicting entry pairs on a timeline
+ */
+export function countTimelineConflicts(timeline: ResourceTimelineResponse): number {
+  const total = timeline.entries.reduce((sum, entry) => sum + entry.conflictsWith.length, 0);
+  return total / 2;
+}
@@ -0,0 +1,20 @@
+import { Session } from '../../domain/entities/session.entity';
+import { SessionResponse } from '../dtos/session.dto';
+
+/**
+ * Mapper class for converting Session entities to response DTOs
+ */
+export class SessionMapper {
+  static toSessionResponse(session: Session, currentSessionId?: string): SessionResponse {
+    return {
+      sessionId: session.sessionId,
+      deviceName: session.deviceName,
+      ipAddress: session.ipAddress ?? undefined,
+      userAgent: session.userAgent ?? undefined,
+      createdAt: session.createdAt,
+      lastSeenAt: session.lastSeenAt,
+      expiresAt: session.expiresAt,
+      current: session.sessionId === currentSessionId,
+    };
+  }
+}
@@ -0,0 +1,53 @@
+import { VehicleTripLog } from '../../domain/entities/vehicle_trip_log.entity';
+import { TripFuelTotalsResponse, VehicleTripLogResponse } from '../dtos/trip_log.dto';
+
+/**
+ * Mapper class for converting vehicle trip logs to response DTOs
+ */
+export class TripLogMapper {
+  static toVehicleTripLogResponse(log: VehicleTripLog, plateNumber?: string): VehicleTripLogResponse {
+    return {
+      logId: log.logId,
+      reservationId: log.reservationId,
+      vehicleId: log.vehicleId,
+      plateNumber,
+      driverId: log.driverId,
+      startOdometer: log.startOdometer,
+      endOdometer: log.endOdometer,
+      startedAt: log.startedAt,
+      completedAt: log.completedAt,
+      estimatedDistanceKm: log.estimatedDistanceKm,
+      actualDistanceKm: log.getActualDistanceKm(),
+      estimatedFuelLitres: log.getEstimatedFuelLitres(),
+      actualFuelLitres: log.getFuelLitres(),
+      fuelCost: log.getFuelCost(),
+      estimatedKmPerLitre: log.estimatedKmPerLitre,
+      actualKmPerLitre: log.getActualKmPerLitre(),
+      fuelFills: log.fuelFills.map((fill) => ({
+        litres: fill.litres,
+        cost: fill.cost,
+        filledAt: fill.filledAt,
+      })),
+    };
+  }
+
+  /**
+   * Sums estimated and actual figures over a set of vehicle trip logs
+   */
+  static toTotalsResponse(logs: VehicleTripLogResponse[]): TripFuelTotalsResponse {
+    const estimatedDistanceKm = logs.reduce((sum, log) => sum + log.estimatedDistanceKm, 0);
+    const actualDistanceKm = logs.reduce((sum, log) => sum + (log.actualDistanceKm ?? 0), 0);
+    const estimatedFuelLitres = logs.reduce((sum, log) => sum + log.estimatedFuelLitres, 0);
+    const actualFuelLitres = logs.reduce((sum, log) => sum + log.actualFuelLitres, 0);
+
+    return {
+      estimatedDistanceKm,
+      actualDistanceKm,
+      distanceVarianceKm: actualDistanceKm - estimatedDistanceKm,
+      estimatedFuelLitres,
+      actualFuelLitres,
+      fuelVarianceLitres: actualFuelLitres - estimatedFuelLitres,
+      fuelCost: logs.reduce((sum, log) => sum + log.fuelCost, 0),
+    };
+  }
+}
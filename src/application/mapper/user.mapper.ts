@@ -21,6 +21,8 @@ export class UserMapper {
                 fullName: user.fullName,
                 email: user.email,
                 role: user.role,
+                adminRole: user.adminRole,
+                permissions: user.getPermissions(),
                 createdAt: user.createdAt,
             },
             accessToken,
@@ -70,10 +72,13 @@ export class UserMapper {
                 phoneNumber: user.phoneNumber,
                 profilePicture: user.profilePicture,
                 role: user.role,
+                adminRole: user.adminRole,
+                permissions: user.getPermissions(),
                 createdAt: user.createdAt,
                 updatedAt: user.updatedAt,
                 hasPassword: user.hasPassword(),
                 hasGoogleAuth: user.hasGoogleAuth(),
+                quoteFollowUpEmails: user.quoteFollowUpEmails,
             },
         };
     }
@@ -89,6 +94,7 @@ export class UserMapper {
                 profilePicture: user.profilePicture,
                 role: user.role,
                 updatedAt: user.updatedAt,
+                quoteFollowUpEmails: user.quoteFollowUpEmails,
             },
         };
     }
@@ -139,6 +145,8 @@ export class UserMapper {
                 phoneNumber: user.phoneNumber,
                 profilePicture: user.profilePicture,
                 role: user.role,
+                adminRole: user.adminRole,
+                permissions: user.getPermissions(),
                 status: user.status,
                 isVerified: user.isVerified,
                 updatedAt: user.updatedAt,
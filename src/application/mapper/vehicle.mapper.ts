@@ -45,9 +45,12 @@ export class VehicleMapper {
       vehicleModel: vehicle.vehicleModel,
       year: vehicle.year,
       fuelConsumption: vehicle.fuelConsumption,
+      averageFuelConsumption: vehicle.averageFuelConsumption,
       imageUrls: vehicle.imageUrls,
       status: vehicle.status,
       amenityIds: vehicle.amenityIds && vehicle.amenityIds.length > 0 ? vehicle.amenityIds : undefined,
+      odometerReading: vehicle.odometerReading,
+      isServiceDue: vehicle.isServiceDue(),
       createdAt: vehicle.createdAt,
       updatedAt: vehicle.updatedAt,
     };
@@ -0,0 +1,18 @@
+import { WebPushSubscription } from '../../domain/entities/web_push_subscription.entity';
+import { PushSubscriptionResponse } from '../dtos/notification.dto';
+
+/**
+ * Mapper class for converting WebPushSubscription entities to response DTOs
+ * The browser keys are never returned
+ */
+export class WebPushSubscriptionMapper {
+  static toPushSubscriptionResponse(subscription: WebPushSubscription): PushSubscriptionResponse {
+    return {
+      subscriptionId: subscription.subscriptionId,
+      endpoint: subscription.endpoint,
+      userAgent: subscription.userAgent ?? undefined,
+      createdAt: subscription.createdAt,
+      updatedAt: subscription.updatedAt,
+    };
+  }
+}
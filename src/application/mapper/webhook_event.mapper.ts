@@ -0,0 +1,37 @@
+import { WebhookEvent } from '../../domain/entities/webhook_event.entity';
+import { WebhookEventDetailResponse, WebhookEventResponse } from '../dtos/webhook_event.dto';
+
+/**
+ * Mapper class for converting WebhookEvent entities to response DTOs
+ */
+export class WebhookEventMapper {
+  static toWebhookEventResponse(event: WebhookEvent): WebhookEventResponse {
+    return {
+      eventId: event.eventId,
+      provider: event.provider,
+      type: event.type,
+      status: event.status,
+      attempts: event.attempts,
+      receivedAt: event.receivedAt,
+      lastAttemptAt: event.lastAttemptAt,
+      processedAt: event.processedAt,
+      lastError: event.lastError,
+      createdAt: event.createdAt,
+      updatedAt: event.updatedAt,
+    };
+  }
+
+  static toWebhookEventDetailResponse(event: WebhookEvent): WebhookEventDetailResponse {
+    let payload: unknown = event.payload;
+    try {
+      payload = JSON.parse(event.payload);
+    } catch {
+      // Keep the raw string so admins can still see what arrived
+    }
+
+    return {
+      ...this.toWebhookEventResponse(event),
+      payload,
+    };
+  }
+}
@@ -0,0 +1,42 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetAuditLogsUseCase } from '../../../interface/admin/audit_log/get_audit_logs_use_case.interface';
+import { IAuditLogRepository } from '../../../../../domain/repositories/audit_log_repository.interface';
+import { AuditLogListResponse, AuditLogQuery } from '../../../../dtos/audit_log.dto';
+import { AuditLogMapper } from '../../../../mapper/audit_log.mapper';
+import { REPOSITORY_TOKENS } from '../../../../di/tokens';
+import { logger } from '../../../../../shared/logger';
+
+/**
+ * Use case for listing the audit log of admin and financial actions, newest first
+ */
+@injectable()
+export class GetAuditLogsUseCase implements IGetAuditLogsUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IAuditLogRepository)
+    private readonly auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async execute(query: AuditLogQuery = {}, page: number = 1, limit: number = 20): Promise<AuditLogListResponse> {
+    const filter = AuditLogMapper.toAuditLogFilter(query);
+
+    // Normalize pagination parameters
+    const normalizedPage = Math.max(1, Math.floor(page) || 1);
+    const normalizedLimit = Math.max(1, Math.min(100, Math.floor(limit) || 20));
+
+    const { logs, total } = await this.auditLogRepository.findPage(filter, normalizedPage, normalizedLimit);
+
+    logger.info(
+      `Admin audit log list: action=${filter.action || 'all'}, targetType=${filter.targetType || 'all'}, total=${total}`
+    );
+
+    return {
+      logs: logs.map((auditLog) => AuditLogMapper.toAuditLogResponse(auditLog)),
+      pagination: {
+        page: normalizedPage,
+        limit: normalizedLimit,
+        total,
+        totalPages: Math.ceil(total / normalizedLimit),
+      },
+    };
+  }
+}
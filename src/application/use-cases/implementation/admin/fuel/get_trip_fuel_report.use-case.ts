@@ -0,0 +1,99 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetTripFuelReportUseCase } from '../../../interface/admin/fuel/get_trip_fuel_report_use_case.interface';
+import { IReservationRepository } from '../../../../../domain/repositories/reservation_repository.interface';
+import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
+import { IVehicleTripLogRepository } from '../../../../../domain/repositories/vehicle_trip_log_repository.interface';
+import { VehicleTripLog } from '../../../../../domain/entities/vehicle_trip_log.entity';
+import { TripFuelReportItemResponse, TripFuelReportResponse } from '../../../../dtos/trip_log.dto';
+import { REPOSITORY_TOKENS } from '../../../../di/tokens';
+import { TripLogMapper } from '../../../../mapper/trip_log.mapper';
+import { ERROR_CODES, ERROR_MESSAGES, FUEL_LOG_CONFIG } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { logger } from '../../../../../shared/logger';
+
+/**
+ * Use case for getting the estimated vs actual trip fuel report
+ * Groups vehicle trip logs completed within the range by reservation and compares
+ * the route distance and rated fuel use snapshotted on start with the odometer and fuel fills
+ */
+@injectable()
+export class GetTripFuelReportUseCase implements IGetTripFuelReportUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleTripLogRepository)
+    private readonly vehicleTripLogRepository: IVehicleTripLogRepository
+  ) {}
+
+  async execute(from?: string, to?: string): Promise<TripFuelReportResponse> {
+    const { rangeStart, rangeEnd } = this.parseRange(from, to);
+
+    logger.info(`Trip fuel report request: from=${rangeStart.toISOString()}, to=${rangeEnd.toISOString()}`);
+
+    const logs = await this.vehicleTripLogRepository.findCompletedInDateRange(rangeStart, rangeEnd);
+
+    const logsByReservation = new Map<string, VehicleTripLog[]>();
+    for (const log of logs) {
+      const existing = logsByReservation.get(log.reservationId);
+      if (existing) {
+        existing.push(log);
+      } else {
+        logsByReservation.set(log.reservationId, [log]);
+      }
+    }
+
+    const [reservations, vehicles] = await Promise.all([
+      this.reservationRepository.findByIds(Array.from(logsByReservation.keys())),
+      this.vehicleRepository.findByIds(Array.from(new Set(logs.map((log) => log.vehicleId)))),
+    ]);
+    const reservationsById = new Map(reservations.map((reservation) => [reservation.reservationId, reservation]));
+
+    // Logs come back latest first, so reservations keep that order
+    const trips: TripFuelReportItemResponse[] = Array.from(logsByReservation.entries()).map(
+      ([reservationId, reservationLogs]) => {
+        const reservation = reservationsById.get(reservationId);
+        const vehicleLogs = reservationLogs.map((log) =>
+          TripLogMapper.toVehicleTripLogResponse(log, vehicles.get(log.vehicleId)?.plateNumber)
+        );
+
+        return {
+          reservationId,
+          reservationNumber: reservation?.reservationNumber,
+          tripName: reservation?.tripName,
+          completedAt: reservation?.completedAt ?? reservationLogs[0]?.completedAt,
+          ...TripLogMapper.toTotalsResponse(vehicleLogs),
+          vehicles: vehicleLogs,
+        };
+      }
+    );
+
+    logger.info(`Trip fuel report built: ${trips.length} trip(s), ${logs.length} vehicle log(s)`);
+
+    return {
+      from: rangeStart,
+      to: rangeEnd,
+      trips,
+      totals: TripLogMapper.toTotalsResponse(trips.flatMap((trip) => trip.vehicles)),
+    };
+  }
+
+  private parseRange(from?: string, to?: string): { rangeStart: Date; rangeEnd: Date } {
+    const rangeEnd = to ? new Date(to) : new Date();
+    const rangeStart = from
+      ? new Date(from)
+      : new Date(rangeEnd.getTime() - FUEL_LOG_CONFIG.DEFAULT_REPORT_RANGE_MS);
+
+    if (
+      isNaN(rangeStart.getTime()) ||
+      isNaN(rangeEnd.getTime()) ||
+      rangeStart >= rangeEnd ||
+      rangeEnd.getTime() - rangeStart.getTime() > FUEL_LOG_CONFIG.MAX_REPORT_RANGE_MS
+    ) {
+      throw new AppError(ERROR_MESSAGES.INVALID_FUEL_REPORT_RANGE, ERROR_CODES.INVALID_FUEL_REPORT_RANGE, 400);
+    }
+
+    return { rangeStart, rangeEnd };
+  }
+}
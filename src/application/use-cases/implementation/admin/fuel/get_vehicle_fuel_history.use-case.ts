@@ -0,0 +1,45 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetVehicleFuelHistoryUseCase } from '../../../interface/admin/fuel/get_vehicle_fuel_history_use_case.interface';
+import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
+import { IVehicleTripLogRepository } from '../../../../../domain/repositories/vehicle_trip_log_repository.interface';
+import { VehicleFuelHistoryResponse } from '../../../../dtos/trip_log.dto';
+import { REPOSITORY_TOKENS } from '../../../../di/tokens';
+import { TripLogMapper } from '../../../../mapper/trip_log.mapper';
+import { ERROR_CODES, ERROR_MESSAGES } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for getting a vehicle's measured fuel consumption history
+ * Returns the rated and rolling-average consumption with every completed trip log, latest first
+ */
+@injectable()
+export class GetVehicleFuelHistoryUseCase implements IGetVehicleFuelHistoryUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleTripLogRepository)
+    private readonly vehicleTripLogRepository: IVehicleTripLogRepository
+  ) {}
+
+  async execute(vehicleId: string): Promise<VehicleFuelHistoryResponse> {
+    if (!vehicleId || vehicleId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_VEHICLE_ID, 400);
+    }
+
+    const vehicle = await this.vehicleRepository.findById(vehicleId);
+    if (!vehicle) {
+      throw new AppError(ERROR_MESSAGES.VEHICLE_NOT_FOUND, ERROR_CODES.VEHICLE_NOT_FOUND, 404);
+    }
+
+    const logs = await this.vehicleTripLogRepository.findCompletedByVehicleId(vehicleId);
+
+    return {
+      vehicleId: vehicle.vehicleId,
+      plateNumber: vehicle.plateNumber,
+      ratedKmPerLitre: vehicle.fuelConsumption,
+      averageKmPerLitre: vehicle.averageFuelConsumption,
+      odometerReading: vehicle.odometerReading,
+      trips: logs.map((log) => TripLogMapper.toVehicleTripLogResponse(log, vehicle.plateNumber)),
+    };
+  }
+}
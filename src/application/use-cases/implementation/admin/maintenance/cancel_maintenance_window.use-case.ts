@@ -0,0 +1,59 @@
+import { injectable, inject } from 'tsyringe';
+import { ICancelMaintenanceWindowUseCase } from '../../../interface/admin/maintenance/cancel_maintenance_window_use_case.interface';
+import { IMaintenanceWindowRepository } from '../../../../../domain/repositories/maintenance_window_repository.interface';
+import { IVehicleMaintenanceService } from '../../../../../domain/services/vehicle_maintenance_service.interface';
+import { MaintenanceWindowResponse } from '../../../../dtos/maintenance.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { MaintenanceMapper } from '../../../../mapper/maintenance.mapper';
+import { ERROR_CODES, ERROR_MESSAGES, AuditAction, AuditTargetType } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { logger } from '../../../../../shared/logger';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for cancelling a vehicle maintenance window
+ * A window that already started releases its vehicle back to the fleet
+ */
+@injectable()
+export class CancelMaintenanceWindowUseCase implements ICancelMaintenanceWindowUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository,
+    @inject(SERVICE_TOKENS.IVehicleMaintenanceService)
+    private readonly vehicleMaintenanceService: IVehicleMaintenanceService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(windowId: string): Promise<MaintenanceWindowResponse> {
+    if (!windowId || windowId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    const window = await this.maintenanceWindowRepository.findById(windowId);
+    if (!window) {
+      throw new AppError(ERROR_MESSAGES.MAINTENANCE_WINDOW_NOT_FOUND, ERROR_CODES.MAINTENANCE_WINDOW_NOT_FOUND, 404);
+    }
+    if (!window.isBlocking()) {
+      throw new AppError(ERROR_MESSAGES.MAINTENANCE_WINDOW_CLOSED, ERROR_CODES.MAINTENANCE_WINDOW_CLOSED, 400);
+    }
+
+    const cancelledWindow = await this.vehicleMaintenanceService.closeWindow(windowId, 'cancelled');
+    if (!cancelledWindow) {
+      // Closed concurrently by the maintenance worker
+      throw new AppError(ERROR_MESSAGES.MAINTENANCE_WINDOW_CLOSED, ERROR_CODES.MAINTENANCE_WINDOW_CLOSED, 400);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.MAINTENANCE_WINDOW_CANCEL,
+      targetType: AuditTargetType.MAINTENANCE,
+      targetId: windowId,
+      before: window,
+      after: cancelledWindow,
+    });
+
+    logger.info(`Maintenance window ${windowId} cancelled for vehicle ${window.vehicleId}`);
+
+    return MaintenanceMapper.toMaintenanceWindowResponse(cancelledWindow);
+  }
+}
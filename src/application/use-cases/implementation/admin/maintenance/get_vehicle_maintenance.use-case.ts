@@ -0,0 +1,44 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetVehicleMaintenanceUseCase } from '../../../interface/admin/maintenance/get_vehicle_maintenance_use_case.interface';
+import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
+import { IMaintenanceWindowRepository } from '../../../../../domain/repositories/maintenance_window_repository.interface';
+import { IServiceRecordRepository } from '../../../../../domain/repositories/service_record_repository.interface';
+import { VehicleMaintenanceResponse } from '../../../../dtos/maintenance.dto';
+import { REPOSITORY_TOKENS } from '../../../../di/tokens';
+import { MaintenanceMapper } from '../../../../mapper/maintenance.mapper';
+import { ERROR_CODES, ERROR_MESSAGES } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for getting a vehicle's maintenance overview
+ * Returns service intervals and due state, maintenance windows and service history
+ */
+@injectable()
+export class GetVehicleMaintenanceUseCase implements IGetVehicleMaintenanceUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository,
+    @inject(REPOSITORY_TOKENS.IServiceRecordRepository)
+    private readonly serviceRecordRepository: IServiceRecordRepository
+  ) {}
+
+  async execute(vehicleId: string): Promise<VehicleMaintenanceResponse> {
+    if (!vehicleId || vehicleId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_VEHICLE_ID, 400);
+    }
+
+    const vehicle = await this.vehicleRepository.findById(vehicleId);
+    if (!vehicle) {
+      throw new AppError(ERROR_MESSAGES.VEHICLE_NOT_FOUND, ERROR_CODES.VEHICLE_NOT_FOUND, 404);
+    }
+
+    const [windows, records] = await Promise.all([
+      this.maintenanceWindowRepository.findByVehicleId(vehicleId),
+      this.serviceRecordRepository.findByVehicleId(vehicleId),
+    ]);
+
+    return MaintenanceMapper.toVehicleMaintenanceResponse(vehicle, windows, records);
+  }
+}
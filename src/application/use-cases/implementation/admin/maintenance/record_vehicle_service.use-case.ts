@@ -0,0 +1,104 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { IRecordVehicleServiceUseCase } from '../../../interface/admin/maintenance/record_vehicle_service_use_case.interface';
+import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
+import { IMaintenanceWindowRepository } from '../../../../../domain/repositories/maintenance_window_repository.interface';
+import { IServiceRecordRepository } from '../../../../../domain/repositories/service_record_repository.interface';
+import { IVehicleMaintenanceService } from '../../../../../domain/services/vehicle_maintenance_service.interface';
+import { ServiceRecord } from '../../../../../domain/entities/service_record.entity';
+import { Vehicle } from '../../../../../domain/entities/vehicle.entity';
+import { RecordVehicleServiceRequest, ServiceRecordResponse } from '../../../../dtos/maintenance.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { MaintenanceMapper } from '../../../../mapper/maintenance.mapper';
+import { ERROR_CODES, ERROR_MESSAGES, AuditAction, AuditTargetType } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { logger } from '../../../../../shared/logger';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for recording a completed vehicle service
+ * Adds to the service history, restarts the service intervals and completes the linked maintenance window
+ */
+@injectable()
+export class RecordVehicleServiceUseCase implements IRecordVehicleServiceUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository,
+    @inject(REPOSITORY_TOKENS.IServiceRecordRepository)
+    private readonly serviceRecordRepository: IServiceRecordRepository,
+    @inject(SERVICE_TOKENS.IVehicleMaintenanceService)
+    private readonly vehicleMaintenanceService: IVehicleMaintenanceService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(vehicleId: string, request: RecordVehicleServiceRequest): Promise<ServiceRecordResponse> {
+    if (!vehicleId || vehicleId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_VEHICLE_ID, 400);
+    }
+
+    const now = new Date();
+    const servicedAt = new Date(request.servicedAt);
+    if (isNaN(servicedAt.getTime()) || servicedAt > now) {
+      throw new AppError('Service date cannot be in the future', ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    const vehicle = await this.vehicleRepository.findById(vehicleId);
+    if (!vehicle) {
+      throw new AppError(ERROR_MESSAGES.VEHICLE_NOT_FOUND, ERROR_CODES.VEHICLE_NOT_FOUND, 404);
+    }
+
+    if (request.windowId) {
+      const window = await this.maintenanceWindowRepository.findById(request.windowId);
+      if (!window || window.vehicleId !== vehicleId) {
+        throw new AppError(ERROR_MESSAGES.MAINTENANCE_WINDOW_NOT_FOUND, ERROR_CODES.MAINTENANCE_WINDOW_NOT_FOUND, 404);
+      }
+      if (!window.isBlocking()) {
+        throw new AppError(ERROR_MESSAGES.MAINTENANCE_WINDOW_CLOSED, ERROR_CODES.MAINTENANCE_WINDOW_CLOSED, 400);
+      }
+    }
+
+    const record = new ServiceRecord(
+      randomUUID(),
+      vehicleId,
+      request.serviceType.trim(),
+      servicedAt,
+      request.odometerReading,
+      request.cost,
+      request.vendor.trim(),
+      now,
+      now,
+      request.notes?.trim() || undefined,
+      request.windowId
+    );
+    await this.serviceRecordRepository.create(record);
+
+    // Back-dated records fill in history without moving the intervals backwards
+    const isLatestService = !vehicle.lastServicedAt || servicedAt >= vehicle.lastServicedAt;
+    await this.vehicleRepository.updateById(vehicleId, {
+      odometerReading: Math.max(vehicle.odometerReading, request.odometerReading),
+      ...(isLatestService
+        ? { lastServiceOdometer: request.odometerReading, lastServicedAt: servicedAt }
+        : {}),
+    } as Partial<Vehicle>);
+
+    if (request.windowId) {
+      await this.vehicleMaintenanceService.closeWindow(request.windowId, 'completed', record.recordId);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.MAINTENANCE_SERVICE_RECORD,
+      targetType: AuditTargetType.MAINTENANCE,
+      targetId: record.recordId,
+      after: record,
+    });
+
+    logger.info(
+      `Service recorded for vehicle ${vehicle.plateNumber} (${vehicleId}): ${record.serviceType} at ${record.odometerReading} km, cost ${record.cost}`
+    );
+
+    return MaintenanceMapper.toServiceRecordResponse(record);
+  }
+}
@@ -0,0 +1,102 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { IScheduleMaintenanceWindowUseCase } from '../../../interface/admin/maintenance/schedule_maintenance_window_use_case.interface';
+import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
+import { IMaintenanceWindowRepository } from '../../../../../domain/repositories/maintenance_window_repository.interface';
+import { IVehicleHoldRepository } from '../../../../../domain/repositories/vehicle_hold_repository.interface';
+import { IQueueService } from '../../../../../domain/services/queue_service.interface';
+import { MaintenanceWindow } from '../../../../../domain/entities/maintenance_window.entity';
+import { MaintenanceWindowResponse, ScheduleMaintenanceWindowRequest } from '../../../../dtos/maintenance.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { MaintenanceMapper } from '../../../../mapper/maintenance.mapper';
+import { ERROR_CODES, ERROR_MESSAGES, VehicleStatus, AuditAction, AuditTargetType } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { describeVehicleHoldConflicts } from '../../../../../shared/utils/vehicle_hold.util';
+import { logger } from '../../../../../shared/logger';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for scheduling a vehicle maintenance window
+ * Rejects windows that clash with other maintenance or with trips the vehicle is already held for,
+ * then queues the jobs that move the vehicle in and out of MAINTENANCE
+ */
+@injectable()
+export class ScheduleMaintenanceWindowUseCase implements IScheduleMaintenanceWindowUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleHoldRepository)
+    private readonly vehicleHoldRepository: IVehicleHoldRepository,
+    @inject(SERVICE_TOKENS.IQueueService)
+    private readonly queueService: IQueueService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(vehicleId: string, request: ScheduleMaintenanceWindowRequest): Promise<MaintenanceWindowResponse> {
+    if (!vehicleId || vehicleId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_VEHICLE_ID, 400);
+    }
+
+    const now = new Date();
+    const startAt = new Date(request.startAt);
+    const endAt = new Date(request.endAt);
+    if (isNaN(startAt.getTime()) || isNaN(endAt.getTime()) || startAt >= endAt || endAt <= now) {
+      throw new AppError(ERROR_MESSAGES.INVALID_MAINTENANCE_WINDOW, ERROR_CODES.INVALID_MAINTENANCE_WINDOW, 400);
+    }
+
+    const vehicle = await this.vehicleRepository.findById(vehicleId);
+    if (!vehicle) {
+      throw new AppError(ERROR_MESSAGES.VEHICLE_NOT_FOUND, ERROR_CODES.VEHICLE_NOT_FOUND, 404);
+    }
+    if (vehicle.status === VehicleStatus.RETIRED) {
+      throw new AppError(ERROR_MESSAGES.VEHICLE_RETIRED, ERROR_CODES.VEHICLE_RETIRED, 400);
+    }
+
+    const overlappingWindows = await this.maintenanceWindowRepository.findBlockingInDateRange(startAt, endAt, [
+      vehicleId,
+    ]);
+    if (overlappingWindows.length > 0) {
+      throw new AppError(ERROR_MESSAGES.MAINTENANCE_WINDOW_OVERLAP, ERROR_CODES.MAINTENANCE_WINDOW_OVERLAP, 409);
+    }
+
+    // Trips already held or booked on the vehicle must be moved to another vehicle first
+    const conflictingHolds = await this.vehicleHoldRepository.findActiveOverlapping(startAt, endAt, now, [vehicleId]);
+    if (conflictingHolds.length > 0) {
+      throw new AppError(
+        describeVehicleHoldConflicts(conflictingHolds),
+        ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+        409
+      );
+    }
+
+    const window = new MaintenanceWindow(
+      randomUUID(),
+      vehicleId,
+      startAt,
+      endAt,
+      request.reason.trim(),
+      'scheduled',
+      now,
+      now,
+      request.notes?.trim() || undefined
+    );
+    await this.maintenanceWindowRepository.create(window);
+    await this.queueService.addMaintenanceWindowJobs(window.windowId, startAt, endAt);
+
+    await this.auditLogService.record({
+      action: AuditAction.MAINTENANCE_WINDOW_SCHEDULE,
+      targetType: AuditTargetType.MAINTENANCE,
+      targetId: window.windowId,
+      after: window,
+    });
+
+    logger.info(
+      `Maintenance window ${window.windowId} scheduled for vehicle ${vehicle.plateNumber} (${vehicleId}): ${startAt.toISOString()} to ${endAt.toISOString()}`
+    );
+
+    return MaintenanceMapper.toMaintenanceWindowResponse(window);
+  }
+}
@@ -0,0 +1,77 @@
+import { injectable, inject } from 'tsyringe';
+import { IUpdateVehicleMaintenancePlanUseCase } from '../../../interface/admin/maintenance/update_vehicle_maintenance_plan_use_case.interface';
+import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
+import { Vehicle } from '../../../../../domain/entities/vehicle.entity';
+import {
+  UpdateVehicleMaintenancePlanRequest,
+  VehicleMaintenancePlanResponse,
+} from '../../../../dtos/maintenance.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { MaintenanceMapper } from '../../../../mapper/maintenance.mapper';
+import { ERROR_CODES, ERROR_MESSAGES, AuditAction, AuditTargetType } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { logger } from '../../../../../shared/logger';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for updating a vehicle's service intervals and odometer reading
+ */
+@injectable()
+export class UpdateVehicleMaintenancePlanUseCase implements IUpdateVehicleMaintenancePlanUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(
+    vehicleId: string,
+    request: UpdateVehicleMaintenancePlanRequest
+  ): Promise<VehicleMaintenancePlanResponse> {
+    if (!vehicleId || vehicleId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_VEHICLE_ID, 400);
+    }
+
+    const vehicle = await this.vehicleRepository.findById(vehicleId);
+    if (!vehicle) {
+      throw new AppError(ERROR_MESSAGES.VEHICLE_NOT_FOUND, ERROR_CODES.VEHICLE_NOT_FOUND, 404);
+    }
+
+    if (
+      request.odometerReading !== undefined &&
+      vehicle.lastServiceOdometer !== undefined &&
+      request.odometerReading < vehicle.lastServiceOdometer
+    ) {
+      throw new AppError(
+        'Odometer reading cannot be lower than the last service reading',
+        ERROR_CODES.INVALID_REQUEST,
+        400
+      );
+    }
+
+    const updateData: Record<string, unknown> = {};
+    if (request.serviceIntervalKm !== undefined) updateData.serviceIntervalKm = request.serviceIntervalKm;
+    if (request.serviceIntervalDays !== undefined) updateData.serviceIntervalDays = request.serviceIntervalDays;
+    if (request.odometerReading !== undefined) updateData.odometerReading = request.odometerReading;
+
+    await this.vehicleRepository.updateById(vehicleId, updateData as Partial<Vehicle>);
+
+    const updatedVehicle = await this.vehicleRepository.findById(vehicleId);
+    if (!updatedVehicle) {
+      throw new AppError(ERROR_MESSAGES.VEHICLE_NOT_FOUND, ERROR_CODES.VEHICLE_NOT_FOUND, 404);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.MAINTENANCE_PLAN_UPDATE,
+      targetType: AuditTargetType.VEHICLE,
+      targetId: vehicleId,
+      before: vehicle,
+      after: updatedVehicle,
+    });
+
+    logger.info(`Maintenance plan updated for vehicle ${updatedVehicle.plateNumber} (${vehicleId})`);
+
+    return MaintenanceMapper.toVehicleMaintenancePlanResponse(updatedVehicle);
+  }
+}
@@ -4,15 +4,16 @@ import { IReservationRepository } from '../../../../../domain/repositories/reser
 import { IReservationModificationRepository } from '../../../../../domain/repositories/reservation_modification_repository.interface';
 import { IPassengerRepository } from '../../../../../domain/repositories/passenger_repository.interface';
 import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
-import { ICreateNotificationUseCase } from '../../../interface/notification/create_notification_use_case.interface';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../../di/tokens';
+import { INotificationService } from '../../../../../domain/services/notification_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
 import { Passenger } from '../../../../../domain/entities/passenger.entity';
-import { NotificationType, ERROR_MESSAGES, ReservationStatus } from '../../../../../shared/constants';
+import { NotificationType, ERROR_MESSAGES, ReservationStatus, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
 import { logger } from '../../../../../shared/logger';
 import { randomUUID } from 'crypto';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for adding passengers to reservation
@@ -29,8 +30,10 @@ export class AddPassengersToReservationUseCase implements IAddPassengersToReserv
     private readonly passengerRepository: IPassengerRepository,
     @inject(REPOSITORY_TOKENS.IVehicleRepository)
     private readonly vehicleRepository: IVehicleRepository,
-    @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
-    private readonly createNotificationUseCase: ICreateNotificationUseCase
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
@@ -156,7 +159,7 @@ export class AddPassengersToReservationUseCase implements IAddPassengersToReserv
 
     // Send notification to user
     try {
-      await this.createNotificationUseCase.execute({
+      await this.notificationService.sendNotification({
         userId: reservation.userId,
         type: NotificationType.RESERVATION_PASSENGERS_ADDED,
         title: 'Passengers Added to Reservation',
@@ -179,6 +182,15 @@ export class AddPassengersToReservationUseCase implements IAddPassengersToReserv
       throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_PASSENGERS_ADD,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      before: reservation,
+      after: updatedReservation,
+      metadata: { passengerCount: passengers.length },
+    });
+
     logger.info(`Admin added ${passengers.length} passenger(s) to reservation: ${reservationId}`);
 
     return updatedReservation;
@@ -3,18 +3,20 @@ import { IAddReservationChargeUseCase } from '../../../interface/admin/reservati
 import { IReservationRepository } from '../../../../../domain/repositories/reservation_repository.interface';
 import { IReservationChargeRepository } from '../../../../../domain/repositories/reservation_charge_repository.interface';
 import { IReservationModificationRepository } from '../../../../../domain/repositories/reservation_modification_repository.interface';
-import { ICreateNotificationUseCase } from '../../../interface/notification/create_notification_use_case.interface';
+import { INotificationService } from '../../../../../domain/services/notification_service.interface';
 import { IUserRepository } from '../../../../../domain/repositories/user_repository.interface';
 import { IEmailService } from '../../../../../domain/services/email_service.interface';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { EmailType, PaymentRequiredEmailData } from '../../../../../shared/types/email.types';
 import { FRONTEND_CONFIG } from '../../../../../shared/config';
 import { ReservationCharge } from '../../../../../domain/entities/reservation_charge.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
-import { NotificationType, ERROR_MESSAGES } from '../../../../../shared/constants';
+import { NotificationType, ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../../shared/utils/currency.util';
 import { logger } from '../../../../../shared/logger';
 import { randomUUID } from 'crypto';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for adding charge to reservation
@@ -29,12 +31,14 @@ export class AddReservationChargeUseCase implements IAddReservationChargeUseCase
     private readonly chargeRepository: IReservationChargeRepository,
     @inject(REPOSITORY_TOKENS.IReservationModificationRepository)
     private readonly modificationRepository: IReservationModificationRepository,
-    @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
-    private readonly createNotificationUseCase: ICreateNotificationUseCase,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
     @inject(REPOSITORY_TOKENS.IUserRepository)
     private readonly userRepository: IUserRepository,
     @inject(SERVICE_TOKENS.IEmailService)
-    private readonly emailService: IEmailService
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
@@ -43,7 +47,7 @@ export class AddReservationChargeUseCase implements IAddReservationChargeUseCase
     description: string,
     amount: number,
     adminUserId: string,
-    currency: string = 'INR'
+    requestedCurrency?: string
   ): Promise<ReservationCharge> {
     // Input validation
     if (!reservationId || typeof reservationId !== 'string' || reservationId.trim().length === 0) {
@@ -74,6 +78,12 @@ export class AddReservationChargeUseCase implements IAddReservationChargeUseCase
       );
     }
 
+    // Charges are always raised in the currency the reservation was paid in
+    const currency = normalizeCurrency(reservation.originalPricing?.currency);
+    if (requestedCurrency && normalizeCurrency(requestedCurrency) !== currency) {
+      throw new AppError(ERROR_MESSAGES.CURRENCY_MISMATCH, ERROR_CODES.CURRENCY_MISMATCH, 400);
+    }
+
     // Create charge entity
     const chargeId = randomUUID();
     const now = new Date();
@@ -114,7 +124,7 @@ export class AddReservationChargeUseCase implements IAddReservationChargeUseCase
 
     // Send notification to user
     try {
-      await this.createNotificationUseCase.execute({
+      await this.notificationService.sendNotification({
         userId: reservation.userId,
         type: NotificationType.RESERVATION_CHARGE_ADDED,
         title: 'Additional Charge Added',
@@ -166,6 +176,14 @@ export class AddReservationChargeUseCase implements IAddReservationChargeUseCase
       // Don't throw - email failure shouldn't block charge creation
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_CHARGE_ADD,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      after: charge,
+      metadata: { chargeId },
+    });
+
     logger.info(
       `Admin added charge to reservation: ${reservationId}, charge: ${chargeId}, amount: ${amount} ${currency}`
     );
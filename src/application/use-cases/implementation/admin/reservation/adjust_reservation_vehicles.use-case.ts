@@ -4,26 +4,34 @@ import { IReservationRepository } from '../../../../../domain/repositories/reser
 import { IReservationModificationRepository } from '../../../../../domain/repositories/reservation_modification_repository.interface';
 import { IReservationChargeRepository } from '../../../../../domain/repositories/reservation_charge_repository.interface';
 import { IReservationItineraryRepository } from '../../../../../domain/repositories/reservation_itinerary_repository.interface';
+import { IQuoteRepository } from '../../../../../domain/repositories/quote_repository.interface';
 import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
 import { IAmenityRepository } from '../../../../../domain/repositories/amenity_repository.interface';
 import { IPricingConfigRepository } from '../../../../../domain/repositories/pricing_config_repository.interface';
 import { IPricingCalculationService } from '../../../../../domain/services/pricing_calculation_service.interface';
+import { IExchangeRateService } from '../../../../../domain/services/exchange_rate_service.interface';
+import { IPromoCodeService } from '../../../../../domain/services/promo_code_service.interface';
 import { IDriverRepository } from '../../../../../domain/repositories/driver_repository.interface';
 import { IUserRepository } from '../../../../../domain/repositories/user_repository.interface';
-import { ICreateNotificationUseCase } from '../../../interface/notification/create_notification_use_case.interface';
+import { INotificationService } from '../../../../../domain/services/notification_service.interface';
 import { IEmailService } from '../../../../../domain/services/email_service.interface';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { IVehicleAvailabilityService } from '../../../../../domain/services/vehicle_availability_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { EmailType, PaymentRequiredEmailData } from '../../../../../shared/types/email.types';
 import { FRONTEND_CONFIG } from '../../../../../shared/config';
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
 import { ReservationCharge } from '../../../../../domain/entities/reservation_charge.entity';
-import { NotificationType, ERROR_MESSAGES, ReservationStatus, TripType } from '../../../../../shared/constants';
+import { NotificationType, ERROR_MESSAGES, ERROR_CODES, ReservationStatus, TripType, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../../shared/utils/currency.util';
 import { logger } from '../../../../../shared/logger';
 import { ISocketEventService } from '../../../../../domain/services/socket_event_service.interface';
 import { randomUUID } from 'crypto';
 import { QuoteItinerary } from '../../../../../domain/entities/quote_itinerary.entity';
+import { describeVehicleHoldConflicts } from '../../../../../shared/utils/vehicle_hold.util';
+import { deriveTripWindow } from '../../../../mapper/driver_dashboard.mapper';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for adjusting reservation vehicles
@@ -50,14 +58,24 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
     private readonly driverRepository: IDriverRepository,
     @inject(SERVICE_TOKENS.IPricingCalculationService)
     private readonly pricingCalculationService: IPricingCalculationService,
-    @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
-    private readonly createNotificationUseCase: ICreateNotificationUseCase,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
     @inject(REPOSITORY_TOKENS.IUserRepository)
     private readonly userRepository: IUserRepository,
     @inject(SERVICE_TOKENS.IEmailService)
     private readonly emailService: IEmailService,
     @inject(SERVICE_TOKENS.ISocketEventService)
-    private readonly socketEventService: ISocketEventService
+    private readonly socketEventService: ISocketEventService,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService,
+    @inject(SERVICE_TOKENS.IExchangeRateService)
+    private readonly exchangeRateService: IExchangeRateService,
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(SERVICE_TOKENS.IPromoCodeService)
+    private readonly promoCodeService: IPromoCodeService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
@@ -93,14 +111,36 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
     // Store previous vehicles
     const previousVehicles = reservation.selectedVehicles || [];
 
+    const itineraryStops = await this.itineraryRepository.findByReservationIdOrdered(reservationId);
+
+    // Book the new vehicles for the trip before switching, so they can't clash with another booking
+    if (itineraryStops.length > 0) {
+      const { tripStartAt, tripEndAt } = deriveTripWindow(itineraryStops);
+      const holdResult = await this.vehicleAvailabilityService.replaceReservationHolds(
+        reservation.quoteId,
+        reservationId,
+        vehicles.map((v) => v.vehicleId),
+        { startAt: tripStartAt, endAt: tripEndAt }
+      );
+      if (!holdResult.acquired) {
+        throw new AppError(
+          describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts),
+          ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+          409
+        );
+      }
+    }
+
+    // Charges are raised in the currency the reservation was paid in
+    const currency = normalizeCurrency(reservation.originalPricing?.currency);
+
     // Calculate additional charge if vehicles changed
     let additionalChargeAmount = 0;
     let chargeDescription = '';
     
     try {
       // Fetch required data for pricing calculation
-      const [itineraryStops, pricingConfig, driver] = await Promise.all([
-        this.itineraryRepository.findByReservationIdOrdered(reservationId),
+      const [pricingConfig, driver] = await Promise.all([
         this.pricingConfigRepository.findActive(),
         reservation.assignedDriverId
           ? this.driverRepository.findById(reservation.assignedDriverId)
@@ -163,14 +203,14 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
               }))
           : undefined;
 
-        // Calculate driver charge
-        const totalDuration = (reservation.routeData.outbound?.totalDuration ?? 0) +
-          (reservation.routeData.return?.totalDuration ?? 0);
-        const driverRate = driver?.salary ?? pricingConfig.averageDriverPerHourRate;
-        const driverCharge = this.pricingCalculationService.calculateDriverCharge(
-          totalDuration,
-          driverRate
-        );
+        const exchangeRate = await this.exchangeRateService.getSnapshot(pricingConfig.currency, currency);
+        if (!exchangeRate) {
+          throw new AppError(ERROR_MESSAGES.UNSUPPORTED_CURRENCY, ERROR_CODES.UNSUPPORTED_CURRENCY, 400);
+        }
+
+        // Keep the promo code discount the reservation was paid with
+        const quote = await this.quoteRepository.findById(reservation.quoteId);
+        const promoCode = quote ? await this.promoCodeService.findAppliedToQuote(quote) : undefined;
 
         // Calculate new pricing with new vehicles
         const pricingBreakdown = this.pricingCalculationService.calculatePricing({
@@ -183,17 +223,12 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
           pricingConfig,
           tripType: reservation.tripType,
           routeData: reservation.routeData,
+          exchangeRate,
+          driverRatePerHour: driver?.salary,
+          promoCode,
         });
 
-        const newSubtotal =
-          (pricingBreakdown.baseFare ?? 0) +
-          (pricingBreakdown.distanceFare ?? 0) +
-          driverCharge +
-          (pricingBreakdown.nightCharge ?? 0) +
-          (pricingBreakdown.amenitiesTotal ?? 0);
-
-        const newTax = this.pricingCalculationService.calculateTax(newSubtotal, pricingConfig.taxPercentage);
-        const newTotal = newSubtotal + newTax;
+        const newTotal = pricingBreakdown.total ?? 0;
 
         // Compare with original pricing
         const originalTotal = reservation.originalPricing?.total ?? 0;
@@ -234,13 +269,13 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
         'vehicle_upgrade',
         chargeDescription,
         additionalChargeAmount,
-        reservation.originalPricing?.currency || 'INR',
+        currency,
         adminUserId,
         false // Not paid yet
       );
       await this.chargeRepository.create(charge);
       logger.info(
-        `Created additional charge of ${additionalChargeAmount} ${reservation.originalPricing?.currency || 'INR'} for vehicle adjustment on reservation: ${reservationId}`
+        `Created additional charge of ${additionalChargeAmount} ${currency} for vehicle adjustment on reservation: ${reservationId}`
       );
 
       // Send payment required email to user
@@ -257,7 +292,7 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
             chargeId,
             chargeDescription,
             amount: additionalChargeAmount,
-            currency: reservation.originalPricing?.currency || 'INR',
+            currency: currency,
             chargeType: 'vehicle_upgrade',
             tripName: reservation.tripName,
             tripType: reservation.tripType,
@@ -296,10 +331,10 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
     // Send notification to user
     try {
       const notificationMessage = additionalChargeAmount > 0
-        ? `The vehicles for your reservation have been adjusted. An additional charge of ${additionalChargeAmount} ${reservation.originalPricing?.currency || 'INR'} has been added.`
+        ? `The vehicles for your reservation have been adjusted. An additional charge of ${additionalChargeAmount} ${currency} has been added.`
         : `The vehicles for your reservation have been adjusted`;
 
-      await this.createNotificationUseCase.execute({
+      await this.notificationService.sendNotification({
         userId: reservation.userId,
         type: NotificationType.RESERVATION_VEHICLES_ADJUSTED,
         title: 'Vehicles Adjusted for Your Reservation',
@@ -322,6 +357,14 @@ export class AdjustReservationVehiclesUseCase implements IAdjustReservationVehic
       throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_VEHICLES_ADJUST,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      before: reservation,
+      after: updatedReservation,
+    });
+
     // Emit vehicle changed event for real-time updates
     try {
       await this.socketEventService.emitVehicleChanged({
@@ -0,0 +1,238 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { CancelReservationUseCase } from './cancel_reservation.use-case';
+import { MockPaymentRepository } from '../../../../../shared/test/mocks/repositories/payment_repository.mock';
+import { MockReservationRepository } from '../../../../../shared/test/mocks/repositories/reservation_repository.mock';
+import { MockReservationModificationRepository } from '../../../../../shared/test/mocks/repositories/reservation_modification_repository.mock';
+import { MockUserRepository } from '../../../../../shared/test/mocks/repositories/user_repository.mock';
+import { MockPaymentGateway } from '../../../../../shared/test/mocks/services/payment_gateway.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../../di/tokens';
+import { clearContainer } from '../../../../../shared/test/helpers/test_setup';
+import { createSucceededPaymentFixture } from '../../../../../shared/test/fixtures/payment.fixture';
+import { createConfirmedReservationFixture } from '../../../../../shared/test/fixtures/reservation.fixture';
+import { createCorporateBookingFixture } from '../../../../../shared/test/fixtures/corporate.fixture';
+import { Payment, PaymentStatus } from '../../../../../domain/entities/payment.entity';
+import { Reservation } from '../../../../../domain/entities/reservation.entity';
+import { ReservationStatus } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('CancelReservationUseCase', () => {
+  let useCase: CancelReservationUseCase;
+  let mockPaymentRepository: MockPaymentRepository;
+  let mockReservationRepository: MockReservationRepository;
+  let mockPaymentGateway: MockPaymentGateway;
+  let previewCancellation: ReturnType<typeof vi.fn>;
+  let issueCreditNote: ReturnType<typeof vi.fn>;
+  let findCorporateBookingByReservationId: ReturnType<typeof vi.fn>;
+  let updateCorporateBookingById: ReturnType<typeof vi.fn>;
+
+  const depositPayment = createSucceededPaymentFixture({
+    paymentId: 'payment-deposit',
+    paymentIntentId: 'pi_deposit',
+    amount: 300,
+    currency: 'USD',
+  });
+  const balancePayment = createSucceededPaymentFixture({
+    paymentId: 'payment-balance',
+    paymentIntentId: 'pi_balance',
+    amount: 700,
+    currency: 'USD',
+  });
+
+  const createDepositReservation = (balancePaid: boolean, refundedAmount?: number): Reservation =>
+    createConfirmedReservationFixture({
+      reservationId: 'reservation-123',
+      paymentId: 'payment-deposit',
+      refundedAmount,
+      paymentSchedule: {
+        totalAmount: 1000,
+        currency: 'USD',
+        depositPercentage: 30,
+        installments: [
+          { kind: 'deposit', amount: 300, dueAt: new Date(), status: 'paid', paymentId: 'payment-deposit' },
+          balancePaid
+            ? { kind: 'balance', amount: 700, dueAt: new Date(), status: 'paid', paymentId: 'payment-balance' }
+            : { kind: 'balance', amount: 700, dueAt: new Date(), status: 'pending' },
+        ],
+      },
+    });
+
+  const cancel = () => useCase.execute('reservation-123', 'Change of plans', 'admin-1');
+  const refundedPaymentIntents = () =>
+    mockPaymentGateway.createRefund.mock.calls.map(([params]) => [params.paymentIntentId, params.amount]);
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockPaymentRepository = new MockPaymentRepository();
+    mockReservationRepository = new MockReservationRepository();
+    mockPaymentGateway = new MockPaymentGateway();
+    previewCancellation = vi.fn().mockResolvedValue({ refundAmount: 1000, chargeRefunds: [], currency: 'USD' });
+    issueCreditNote = vi.fn().mockResolvedValue(undefined);
+    findCorporateBookingByReservationId = vi.fn().mockResolvedValue(null);
+    updateCorporateBookingById = vi.fn().mockResolvedValue(undefined);
+
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, mockReservationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IReservationModificationRepository, new MockReservationModificationRepository());
+    container.registerInstance(REPOSITORY_TOKENS.IPaymentRepository, mockPaymentRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, new MockUserRepository());
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateBookingRepository, {
+      findByReservationId: findCorporateBookingByReservationId,
+      updateById: updateCorporateBookingById,
+    });
+    container.registerInstance(SERVICE_TOKENS.INotificationService, { sendNotification: vi.fn() });
+    container.registerInstance(SERVICE_TOKENS.IEmailService, { sendEmail: vi.fn() });
+    container.registerInstance(SERVICE_TOKENS.IPaymentGateway, mockPaymentGateway);
+    container.registerInstance(SERVICE_TOKENS.IVehicleAvailabilityService, {
+      releaseHoldsForReservation: vi.fn().mockResolvedValue(undefined),
+    });
+    container.registerInstance(SERVICE_TOKENS.IReservationInvoiceService, { issueCreditNote });
+    container.registerInstance(SERVICE_TOKENS.IAuditLogService, { record: vi.fn() });
+    container.registerInstance(USE_CASE_TOKENS.PreviewReservationCancellationUseCase, { execute: previewCancellation });
+
+    const payments: Record<string, Payment> = {
+      'payment-deposit': depositPayment,
+      'payment-balance': balancePayment,
+    };
+    mockPaymentRepository.findById.mockImplementation((paymentId) => Promise.resolve(payments[paymentId] ?? null));
+    mockPaymentGateway.createRefund.mockImplementation((params) =>
+      Promise.resolve({
+        id: `re_${params.paymentIntentId}`,
+        paymentIntentId: params.paymentIntentId,
+        amount: params.amount,
+        currency: params.currency ?? 'USD',
+        status: 'succeeded',
+      })
+    );
+
+    useCase = container.resolve(CancelReservationUseCase);
+  });
+
+  it('should refund the deposit and the balance through their own payments once the balance is paid', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(true));
+
+    await cancel();
+
+    expect(refundedPaymentIntents()).toEqual([
+      ['pi_deposit', 300],
+      ['pi_balance', 700],
+    ]);
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledWith('payment-deposit', { status: PaymentStatus.REFUNDED });
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledWith('payment-balance', { status: PaymentStatus.REFUNDED });
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({ refundedAmount: 1000, refundStatus: 'full' })
+    );
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({ status: ReservationStatus.REFUNDED })
+    );
+    expect(issueCreditNote).toHaveBeenCalledWith(
+      expect.anything(),
+      balancePayment,
+      expect.objectContaining({ refundId: 're_pi_balance', amount: 700 })
+    );
+  });
+
+  it('should take a partial policy refund from the deposit first', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(true));
+    previewCancellation.mockResolvedValue({ refundAmount: 500, chargeRefunds: [], currency: 'USD' });
+
+    await cancel();
+
+    expect(refundedPaymentIntents()).toEqual([
+      ['pi_deposit', 300],
+      ['pi_balance', 200],
+    ]);
+    expect(mockPaymentRepository.updateById).not.toHaveBeenCalledWith('payment-balance', expect.anything());
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({ refundedAmount: 500, refundStatus: 'partial' })
+    );
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({ status: ReservationStatus.CANCELLED })
+    );
+  });
+
+  it('should only refund the deposit while the balance is unpaid', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(false));
+
+    await cancel();
+
+    expect(refundedPaymentIntents()).toEqual([['pi_deposit', 300]]);
+    expect(mockPaymentRepository.findById).not.toHaveBeenCalledWith('payment-balance');
+  });
+
+  it('should refund what is left of every payment when no cancellation policy applies', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(true, 100));
+    previewCancellation.mockRejectedValue(
+      new AppError('No active cancellation policy found', 'CANCELLATION_POLICY_NOT_FOUND', 404)
+    );
+
+    await cancel();
+
+    expect(refundedPaymentIntents()).toEqual([
+      ['pi_deposit', 200],
+      ['pi_balance', 700],
+    ]);
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({ refundedAmount: 1000, refundStatus: 'full' })
+    );
+  });
+
+  it('should not let admins without the refund permission cancel a reservation that would be refunded', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(true));
+
+    await expect(
+      useCase.execute('reservation-123', 'Change of plans', 'dispatcher-1', 'admin', false)
+    ).rejects.toMatchObject({ errorCode: 'REFUND_PERMISSION_REQUIRED', statusCode: 403 });
+    expect(mockPaymentGateway.createRefund).not.toHaveBeenCalled();
+    expect(mockReservationRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should let admins without the refund permission cancel when nothing would be refunded', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(true));
+    previewCancellation.mockResolvedValue({ refundAmount: 0, chargeRefunds: [], chargesRefundTotal: 0, currency: 'USD' });
+
+    await useCase.execute('reservation-123', 'Change of plans', 'dispatcher-1', 'admin', false);
+
+    expect(mockPaymentGateway.createRefund).not.toHaveBeenCalled();
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({ status: ReservationStatus.CANCELLED })
+    );
+  });
+
+  it('should void the booking on account of a reservation that has not been invoiced yet', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(true));
+    findCorporateBookingByReservationId.mockResolvedValue(
+      createCorporateBookingFixture({ corporateBookingId: 'booking-1', status: 'booked' })
+    );
+
+    await cancel();
+
+    expect(updateCorporateBookingById).toHaveBeenCalledWith('booking-1', { status: 'void' });
+  });
+
+  it('should keep the booking on account of a reservation that is already invoiced', async () => {
+    mockReservationRepository.findById.mockResolvedValue(createDepositReservation(true));
+    findCorporateBookingByReservationId.mockResolvedValue(
+      createCorporateBookingFixture({ corporateBookingId: 'booking-1', status: 'booked', invoiceId: 'invoice-1' })
+    );
+
+    await cancel();
+
+    expect(updateCorporateBookingById).not.toHaveBeenCalled();
+  });
+});
@@ -1,26 +1,53 @@
 import { injectable, inject } from 'tsyringe';
-import { ICancelReservationUseCase } from '../../../interface/admin/reservation/cancel_reservation_use_case.interface';
+import {
+  ICancelReservationUseCase,
+  CancellationInitiator,
+} from '../../../interface/admin/reservation/cancel_reservation_use_case.interface';
 import { IReservationRepository } from '../../../../../domain/repositories/reservation_repository.interface';
 import { IReservationModificationRepository } from '../../../../../domain/repositories/reservation_modification_repository.interface';
 import { IPaymentRepository } from '../../../../../domain/repositories/payment_repository.interface';
 import { IUserRepository } from '../../../../../domain/repositories/user_repository.interface';
+import { ICorporateBookingRepository } from '../../../../../domain/repositories/corporate_booking_repository.interface';
 import { INotificationService } from '../../../../../domain/services/notification_service.interface';
 import { IEmailService } from '../../../../../domain/services/email_service.interface';
-import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { IPaymentGateway } from '../../../../../domain/services/payment_gateway.interface';
+import { IVehicleAvailabilityService } from '../../../../../domain/services/vehicle_availability_service.interface';
+import {
+  ICreditNoteRefund,
+  IReservationInvoiceService,
+} from '../../../../../domain/services/reservation_invoice_service.interface';
+import { IPreviewReservationCancellationUseCase } from '../../../interface/admin/reservation/preview_reservation_cancellation_use_case.interface';
+import { CancellationPreviewResponse } from '../../../../dtos/cancellation_policy.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../../di/tokens';
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
-import { ReservationStatus, NotificationType, ERROR_MESSAGES, TripType } from '../../../../../shared/constants';
-import { PaymentStatus } from '../../../../../domain/entities/payment.entity';
+import {
+  ReservationStatus,
+  NotificationType,
+  ERROR_MESSAGES,
+  ERROR_CODES,
+  TripType,
+  AuditAction,
+  AuditTargetType,
+} from '../../../../../shared/constants';
+import { Payment, PaymentStatus } from '../../../../../domain/entities/payment.entity';
 import { AppError } from '../../../../../shared/utils/app_error.util';
+import { normalizeCurrency, roundCurrencyAmount } from '../../../../../shared/utils/currency.util';
+import {
+  PaymentRefundShare,
+  findTripPayments,
+  splitRefundAcrossPayments,
+} from '../../../../../shared/utils/payment_plan.util';
 import { logger } from '../../../../../shared/logger';
 import { randomUUID } from 'crypto';
-import { getStripeInstance } from '../../../../../infrastructure/service/stripe.service';
 import { EmailType, CancellationWithRefundEmailData } from '../../../../../shared/types/email.types';
 import { FRONTEND_CONFIG } from '../../../../../shared/config';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for cancelling reservation
- * Admin can cancel reservation and notify user
+ * Admin can cancel reservation and notify user; users cancelling their own reservation go through the same path
+ * The refund follows the cancellation policy the reservation was paid under
  */
 @injectable()
 export class CancelReservationUseCase implements ICancelReservationUseCase {
@@ -36,13 +63,27 @@ export class CancelReservationUseCase implements ICancelReservationUseCase {
     @inject(SERVICE_TOKENS.INotificationService)
     private readonly notificationService: INotificationService,
     @inject(SERVICE_TOKENS.IEmailService)
-    private readonly emailService: IEmailService
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IPaymentGateway)
+    private readonly paymentGateway: IPaymentGateway,
+    @inject(USE_CASE_TOKENS.PreviewReservationCancellationUseCase)
+    private readonly previewReservationCancellationUseCase: IPreviewReservationCancellationUseCase,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(SERVICE_TOKENS.IReservationInvoiceService)
+    private readonly reservationInvoiceService: IReservationInvoiceService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
     reservationId: string,
     reason: string,
-    adminUserId: string
+    cancelledBy: string,
+    initiatedBy: CancellationInitiator = 'admin',
+    canIssueRefund: boolean = true
   ): Promise<Reservation> {
     // Input validation
     if (!reservationId || typeof reservationId !== 'string' || reservationId.trim().length === 0) {
@@ -82,68 +123,110 @@ export class CancelReservationUseCase implements ICancelReservationUseCase {
     let refundAmount: number | undefined;
     let currency: string | undefined;
     let isFullyRefunded = false;
+    let refundBreakdown: CancellationPreviewResponse | undefined;
+    const refundIds: string[] = [];
+    const chargeRefundIds: string[] = [];
+    let chargesRefundedAmount = 0;
 
-    // Check if payment exists and process refund if applicable
+    // Work out what the cancellation policy the reservation was paid under allows to be refunded
     try {
-      const payment = await this.paymentRepository.findById(reservation.paymentId);
-      if (payment && payment.canBeRefunded()) {
-        // Calculate refundable amount
-        const maxRefundAmount = payment.amount - (reservation.refundedAmount || 0);
-        
-        if (maxRefundAmount > 0) {
-          // Process refund via Stripe
-          try {
-            if (!payment.paymentIntentId) {
-              logger.warn(`Payment intent ID not found for reservation ${reservationId}, skipping refund`);
-            } else {
-              const stripe = getStripeInstance();
-              const refund = await stripe.refunds.create({
-                payment_intent: payment.paymentIntentId,
-                amount: Math.round(maxRefundAmount * 100), // Convert to cents
-                reason: 'requested_by_customer',
-                metadata: {
-                  reservationId,
-                  reason,
-                  refundedBy: adminUserId,
-                },
-              });
-
-              refundId = refund.id;
-              refundAmount = maxRefundAmount;
-              currency = payment.currency;
-              const newRefundedAmount = (reservation.refundedAmount || 0) + maxRefundAmount;
-              isFullyRefunded = newRefundedAmount >= payment.amount;
-
-              logger.info(`Stripe refund successful: ID=${refundId}, Amount=${refundAmount}, Reservation=${reservationId}`);
-
-              // Update payment status if fully refunded
-              if (isFullyRefunded) {
-                await this.paymentRepository.updateById(payment.paymentId, {
-                  status: PaymentStatus.REFUNDED,
-                } as Partial<import('../../../../../infrastructure/database/mongodb/models/payment.model').IPaymentModel>);
-              }
-
-              // Update reservation refund fields
-              await this.reservationRepository.updateById(reservationId, {
-                refundedAmount: newRefundedAmount,
-                refundedAt: now,
-                refundStatus: isFullyRefunded ? 'full' : 'partial',
-              } as Partial<import('../../../../../infrastructure/database/mongodb/models/reservation.model').IReservationModel>);
-            }
-          } catch (stripeError) {
-            logger.error(
-              `Stripe refund failed for reservation ${reservationId}: ${stripeError instanceof Error ? stripeError.message : 'Unknown error'}`
-            );
-            // Continue with cancellation even if refund fails
-          }
-        }
+      refundBreakdown = await this.previewReservationCancellationUseCase.execute(reservationId, now);
+    } catch (previewError) {
+      if (!(previewError instanceof AppError) || previewError.errorCode !== 'CANCELLATION_POLICY_NOT_FOUND') {
+        throw previewError;
       }
+      // No policy has ever been configured: keep refunding the remaining balance in full
+      logger.warn(`No cancellation policy applies to reservation ${reservationId}, refunding remaining balance`);
+    }
+
+    // Work out how much of the trip price is refunded; deposit bookings whose balance was paid
+    // were collected through more than one payment
+    let payments: Payment[] = [];
+    try {
+      payments = await findTripPayments(reservation, this.paymentRepository);
     } catch (paymentError) {
       logger.warn(
         `Error checking payment for refund: ${paymentError instanceof Error ? paymentError.message : 'Unknown error'}`
       );
       // Continue with cancellation even if payment check fails
     }
+    const paymentCurrency = payments[0]?.currency;
+    const paidAmount = roundCurrencyAmount(
+      payments.reduce((sum, payment) => sum + payment.amount, 0),
+      normalizeCurrency(paymentCurrency)
+    );
+    const alreadyRefundedAmount = reservation.refundedAmount || 0;
+
+    // Calculate refundable amount
+    const maxRefundAmount = paidAmount - alreadyRefundedAmount;
+    const policyRefundAmount = refundBreakdown
+      ? Math.min(refundBreakdown.refundAmount, maxRefundAmount)
+      : maxRefundAmount;
+
+    // Cancelling sends money back, which takes the refund permission on top of managing reservations
+    const refundsPayments = !!paymentCurrency && policyRefundAmount > 0;
+    if (!canIssueRefund && (refundsPayments || (refundBreakdown?.chargesRefundTotal ?? 0) > 0)) {
+      throw new AppError(ERROR_MESSAGES.REFUND_PERMISSION_REQUIRED, ERROR_CODES.REFUND_PERMISSION_REQUIRED, 403);
+    }
+
+    // Refund the trip price per payment
+    if (paymentCurrency && refundsPayments) {
+      try {
+        const shares = splitRefundAcrossPayments(payments, alreadyRefundedAmount, policyRefundAmount, paymentCurrency);
+        let refundedNow = 0;
+
+        for (const share of shares) {
+          const paymentRefundId = await this.refundTripPayment(reservation, share, reason, cancelledBy, initiatedBy);
+          if (paymentRefundId) {
+            refundIds.push(paymentRefundId);
+            refundedNow += share.amount;
+          }
+        }
+
+        if (refundIds.length > 0) {
+          refundId = refundIds[0];
+          refundAmount = roundCurrencyAmount(refundedNow, paymentCurrency);
+          currency = paymentCurrency;
+          const newRefundedAmount = roundCurrencyAmount(alreadyRefundedAmount + refundedNow, paymentCurrency);
+          isFullyRefunded = newRefundedAmount >= paidAmount;
+
+          // Update reservation refund fields
+          await this.reservationRepository.updateById(reservationId, {
+            refundedAmount: newRefundedAmount,
+            refundedAt: now,
+            refundStatus: isFullyRefunded ? 'full' : 'partial',
+          } as Partial<import('../../../../../infrastructure/database/mongodb/models/reservation.model').IReservationModel>);
+        }
+      } catch (refundError) {
+        logger.warn(
+          `Error recording refund for reservation ${reservationId}: ${refundError instanceof Error ? refundError.message : 'Unknown error'}`
+        );
+        // Continue with cancellation even if recording the refund fails
+      }
+    }
+
+    // Paid charges were collected through their own payments, so they are refunded separately
+    for (const chargeRefund of refundBreakdown?.chargeRefunds ?? []) {
+      if (chargeRefund.refundAmount <= 0) {
+        continue;
+      }
+
+      const chargeRefundId = await this.refundChargePayment(
+        reservation,
+        chargeRefund.chargeId,
+        chargeRefund.refundAmount,
+        reason,
+        cancelledBy
+      );
+      if (chargeRefundId) {
+        chargeRefundIds.push(chargeRefundId);
+        chargesRefundedAmount += chargeRefund.refundAmount;
+      }
+    }
+
+    const totalRefunded = (refundAmount || 0) + chargesRefundedAmount;
+    const primaryRefundId = refundId ?? chargeRefundIds[0];
+    currency = currency ?? refundBreakdown?.currency;
 
     // Update reservation - cancel and free up driver/vehicles
     const finalStatus = isFullyRefunded ? ReservationStatus.REFUNDED : ReservationStatus.CANCELLED;
@@ -154,30 +237,62 @@ export class CancelReservationUseCase implements ICancelReservationUseCase {
       assignedDriverId: undefined, // Free up driver
     } as Partial<import('../../../../../infrastructure/database/mongodb/models/reservation.model').IReservationModel>);
 
+    try {
+      await this.vehicleAvailabilityService.releaseHoldsForReservation(reservationId);
+    } catch (releaseError) {
+      logger.error(
+        `Failed to release vehicle holds for reservation ${reservationId}: ${releaseError instanceof Error ? releaseError.message : 'Unknown error'}`
+      );
+      // Don't fail cancellation if releasing holds fails
+    }
+
+    // Bookings on account that haven't been invoiced yet are dropped from the next invoice
+    try {
+      const corporateBooking = await this.corporateBookingRepository.findByReservationId(reservationId);
+      if (corporateBooking?.isUninvoiced()) {
+        await this.corporateBookingRepository.updateById(corporateBooking.corporateBookingId, {
+          status: 'void',
+        });
+        logger.info(`Corporate booking ${corporateBooking.corporateBookingId} voided for reservation ${reservationId}`);
+      }
+    } catch (corporateError) {
+      logger.error(
+        `Failed to void corporate booking for reservation ${reservationId}: ${corporateError instanceof Error ? corporateError.message : 'Unknown error'}`
+      );
+      // Don't fail cancellation if the corporate booking can't be updated
+    }
+
     // Create modification record
     const modificationId = randomUUID();
-    const modificationMessage = refundId
-      ? `Reservation cancelled and refunded: ${reason}. Refund: ${refundAmount} ${currency}`
+    const modificationMessage = primaryRefundId
+      ? `Reservation cancelled and refunded: ${reason}. Refund: ${totalRefunded} ${currency}`
       : `Reservation cancelled: ${reason}`;
     const modification = new ReservationModification(
       modificationId,
       reservationId,
-      adminUserId,
+      cancelledBy,
       'status_change',
       modificationMessage,
       reservation.status,
       finalStatus,
       {
         reason,
+        initiatedBy,
         refundId,
+        refundIds,
         refundAmount,
+        chargeRefundIds,
+        chargesRefundedAmount,
         isFullyRefunded,
+        cancellationPolicyId: refundBreakdown?.cancellationPolicyId,
+        cancellationPolicyVersion: refundBreakdown?.cancellationPolicyVersion,
+        refundBreakdown,
       }
     );
     await this.modificationRepository.create(modification);
 
     // Send email if refund was processed
-    if (refundId && refundAmount && currency) {
+    if (primaryRefundId && totalRefunded > 0 && currency) {
       try {
         const user = await this.userRepository.findById(reservation.userId);
         if (user && user.email) {
@@ -189,8 +304,8 @@ export class CancelReservationUseCase implements ICancelReservationUseCase {
             fullName: user.fullName,
             reservationNumber: reservation.reservationNumber,
             cancellationReason: reason,
-            refundAmount,
-            refundId,
+            refundAmount: totalRefunded,
+            refundId: primaryRefundId,
             refundDate: now,
             cancelledAt: now,
             currency,
@@ -213,8 +328,8 @@ export class CancelReservationUseCase implements ICancelReservationUseCase {
 
     // Send notification to user
     try {
-      const notificationMessage = refundId
-        ? `Your reservation has been cancelled and ${refundAmount} ${currency} has been refunded. Refund ID: ${refundId}`
+      const notificationMessage = primaryRefundId
+        ? `Your reservation has been cancelled and ${totalRefunded} ${currency} has been refunded. Refund ID: ${primaryRefundId}`
         : `Your reservation has been cancelled. Reason: ${reason}`;
 
       await this.notificationService.sendNotification({
@@ -225,8 +340,8 @@ export class CancelReservationUseCase implements ICancelReservationUseCase {
         data: {
           reservationId,
           reason,
-          refundId,
-          refundAmount,
+          refundId: primaryRefundId,
+          refundAmount: totalRefunded,
           isFullRefund: isFullyRefunded,
         },
       });
@@ -242,9 +357,147 @@ export class CancelReservationUseCase implements ICancelReservationUseCase {
       throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
     }
 
-    logger.info(`Admin cancelled reservation: ${reservationId}, reason: ${reason}`);
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_CANCEL,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      before: reservation,
+      after: updatedReservation,
+      metadata: { reason, initiatedBy, refundId, refundIds, refundAmount, currency, chargeRefundIds },
+    });
+
+    logger.info(`Reservation cancelled by ${initiatedBy} ${cancelledBy}: ${reservationId}, reason: ${reason}`);
 
     return updatedReservation;
   }
-}
 
+  /**
+   * Refunds the share of the trip price collected through one payment
+   * Returns the refund ID, or undefined when the payment could not be refunded
+   */
+  private async refundTripPayment(
+    reservation: Reservation,
+    share: PaymentRefundShare<Payment>,
+    reason: string,
+    cancelledBy: string,
+    initiatedBy: CancellationInitiator
+  ): Promise<string | undefined> {
+    const reservationId = reservation.reservationId;
+    const payment = share.payment;
+
+    if (!payment.canBeRefunded() || !payment.paymentIntentId) {
+      logger.warn(`Payment ${payment.paymentId} of reservation ${reservationId} cannot be refunded, skipping refund`);
+      return undefined;
+    }
+
+    try {
+      const refund = await this.paymentGateway.createRefund({
+        paymentIntentId: payment.paymentIntentId,
+        amount: share.amount,
+        currency: payment.currency,
+        reason: 'requested_by_customer',
+        metadata: {
+          reservationId,
+          reason,
+          refundedBy: cancelledBy,
+          initiatedBy,
+        },
+      });
+
+      logger.info(
+        `Refund successful: ID=${refund.id}, Amount=${share.amount}, Payment=${payment.paymentId}, Reservation=${reservationId}`
+      );
+
+      // Update payment status if fully refunded
+      if (share.fullyRefunded) {
+        await this.paymentRepository.updateById(payment.paymentId, {
+          status: PaymentStatus.REFUNDED,
+        } as Partial<import('../../../../../infrastructure/database/mongodb/models/payment.model').IPaymentModel>);
+      }
+
+      await this.issueCreditNote(reservation, payment, { refundId: refund.id, amount: share.amount, reason });
+      return refund.id;
+    } catch (gatewayError) {
+      logger.error(
+        `Refund failed for payment ${payment.paymentId} of reservation ${reservationId}: ${gatewayError instanceof Error ? gatewayError.message : 'Unknown error'}`
+      );
+      // Continue with cancellation even if refund fails
+      return undefined;
+    }
+  }
+
+  /**
+   * Refunds the payment collected for a reservation charge
+   * Returns the refund ID, or undefined when the charge was not paid through the gateway
+   */
+  private async refundChargePayment(
+    reservation: Reservation,
+    chargeId: string,
+    amount: number,
+    reason: string,
+    cancelledBy: string
+  ): Promise<string | undefined> {
+    const reservationId = reservation.reservationId;
+    try {
+      // Charge payments are stored against the reservation ID
+      const payments = await this.paymentRepository.findByQuoteId(reservationId);
+      const chargePayment = payments.find(
+        (payment) => payment.metadata?.chargeId === chargeId && payment.canBeRefunded()
+      );
+
+      if (!chargePayment || !chargePayment.paymentIntentId) {
+        logger.warn(`No refundable payment found for charge ${chargeId} on reservation ${reservationId}`);
+        return undefined;
+      }
+
+      const refundAmount = Math.min(amount, chargePayment.amount);
+      const refund = await this.paymentGateway.createRefund({
+        paymentIntentId: chargePayment.paymentIntentId,
+        amount: refundAmount,
+        currency: chargePayment.currency,
+        reason: 'requested_by_customer',
+        metadata: {
+          reservationId,
+          chargeId,
+          reason,
+          refundedBy: cancelledBy,
+        },
+      });
+
+      if (refundAmount >= chargePayment.amount) {
+        await this.paymentRepository.updateById(chargePayment.paymentId, {
+          status: PaymentStatus.REFUNDED,
+        } as Partial<import('../../../../../infrastructure/database/mongodb/models/payment.model').IPaymentModel>);
+      }
+
+      logger.info(`Charge refund successful: ID=${refund.id}, Amount=${refundAmount}, Charge=${chargeId}`);
+
+      await this.issueCreditNote(reservation, chargePayment, { refundId: refund.id, amount: refundAmount, reason });
+      return refund.id;
+    } catch (error) {
+      logger.error(
+        `Refund failed for charge ${chargeId} on reservation ${reservationId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Continue with cancellation even if a charge refund fails
+      return undefined;
+    }
+  }
+
+  /**
+   * Issues the credit note for a refund
+   * The refund has already gone through, so a failure is logged rather than thrown
+   */
+  private async issueCreditNote(
+    reservation: Reservation,
+    payment: Payment,
+    refund: ICreditNoteRefund
+  ): Promise<void> {
+    try {
+      await this.reservationInvoiceService.issueCreditNote(reservation, payment, refund);
+    } catch (creditNoteError) {
+      logger.error(
+        `Failed to issue credit note for refund ${refund.refundId} on reservation ${reservation.reservationId}: ${creditNoteError instanceof Error ? creditNoteError.message : 'Unknown error'}`
+      );
+    }
+  }
+}
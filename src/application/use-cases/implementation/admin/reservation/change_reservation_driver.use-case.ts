@@ -4,17 +4,18 @@ import { IReservationRepository } from '../../../../../domain/repositories/reser
 import { IDriverRepository } from '../../../../../domain/repositories/driver_repository.interface';
 import { IReservationModificationRepository } from '../../../../../domain/repositories/reservation_modification_repository.interface';
 import { IReservationItineraryRepository } from '../../../../../domain/repositories/reservation_itinerary_repository.interface';
-import { ICreateNotificationUseCase } from '../../../interface/notification/create_notification_use_case.interface';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { INotificationService } from '../../../../../domain/services/notification_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
-import { NotificationType, ERROR_MESSAGES, ReservationStatus } from '../../../../../shared/constants';
+import { NotificationType, ERROR_MESSAGES, ReservationStatus, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
 import { logger } from '../../../../../shared/logger';
 import { canAssignDriverToReservation } from '../../../../../shared/utils/driver_assignment.util';
 import { ISocketEventService } from '../../../../../domain/services/socket_event_service.interface';
 import { deriveTripWindow, deriveTripState } from '../../../../mapper/driver_dashboard.mapper';
 import { randomUUID } from 'crypto';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for changing reservation driver
@@ -31,10 +32,12 @@ export class ChangeReservationDriverUseCase implements IChangeReservationDriverU
     private readonly modificationRepository: IReservationModificationRepository,
     @inject(REPOSITORY_TOKENS.IReservationItineraryRepository)
     private readonly itineraryRepository: IReservationItineraryRepository,
-    @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
-    private readonly createNotificationUseCase: ICreateNotificationUseCase,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
     @inject(SERVICE_TOKENS.ISocketEventService)
-    private readonly socketEventService: ISocketEventService
+    private readonly socketEventService: ISocketEventService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
@@ -160,7 +163,7 @@ export class ChangeReservationDriverUseCase implements IChangeReservationDriverU
 
     // Send notification to user
     try {
-      await this.createNotificationUseCase.execute({
+      await this.notificationService.sendNotification({
         userId: reservation.userId,
         type: NotificationType.RESERVATION_DRIVER_CHANGED,
         title: 'Driver Changed for Your Reservation',
@@ -185,6 +188,14 @@ export class ChangeReservationDriverUseCase implements IChangeReservationDriverU
       throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_DRIVER_CHANGE,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      before: reservation,
+      after: updatedReservation,
+    });
+
     // Emit driver assigned notification (for backward compatibility)
     try {
       this.socketEventService.emitDriverAssigned({
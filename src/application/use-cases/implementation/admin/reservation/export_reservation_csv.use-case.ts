@@ -4,6 +4,7 @@ import { IGetAdminReservationUseCase } from '../../../interface/admin/reservatio
 import { USE_CASE_TOKENS } from '../../../../di/tokens';
 import { ERROR_MESSAGES, TripType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../../shared/utils/currency.util';
 import { logger } from '../../../../../shared/logger';
 
 /**
@@ -88,14 +89,14 @@ export class ExportReservationCSVUseCase implements IExportReservationCSVUseCase
       rows.push('Payment Information');
       rows.push('Field,Value');
       rows.push(
-        `Total Amount,${escapeCSV(reservationDetails.originalPricing.total || 0)} ${reservationDetails.originalPricing.currency || 'INR'}`
+        `Total Amount,${escapeCSV(reservationDetails.originalPricing.total || 0)} ${normalizeCurrency(reservationDetails.originalPricing.currency)}`
       );
       if (reservationDetails.originalPricing.paidAt) {
         rows.push(`Paid Date,${escapeCSV(formatDate(reservationDetails.originalPricing.paidAt))}`);
       }
       if (reservationDetails.refundedAmount && reservationDetails.refundedAmount > 0) {
         rows.push(
-          `Refunded Amount,${escapeCSV(reservationDetails.refundedAmount)} ${reservationDetails.originalPricing.currency || 'INR'}`
+          `Refunded Amount,${escapeCSV(reservationDetails.refundedAmount)} ${normalizeCurrency(reservationDetails.originalPricing.currency)}`
         );
       }
       rows.push('');
@@ -107,7 +108,7 @@ export class ExportReservationCSVUseCase implements IExportReservationCSVUseCase
       rows.push('Description,Amount,Currency,Type,Status,Paid Date');
       reservationDetails.charges.forEach((charge) => {
         rows.push(
-          `${escapeCSV(charge.description)},${escapeCSV(charge.amount)},${escapeCSV(charge.currency)},${escapeCSV(charge.chargeType)},${escapeCSV(charge.isPaid ? 'Paid' : 'Unpaid')},${escapeCSV(formatDate(charge.paidAt))}`
+          `${escapeCSV(charge.description)},${escapeCSV(charge.amount)},${escapeCSV(normalizeCurrency(charge.currency))},${escapeCSV(charge.chargeType)},${escapeCSV(charge.isPaid ? 'Paid' : 'Unpaid')},${escapeCSV(formatDate(charge.paidAt))}`
         );
       });
       rows.push('');
@@ -5,6 +5,7 @@ import { IPDFGenerationService } from '../../../../../domain/services/pdf_genera
 import { USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { ERROR_MESSAGES, TripType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
+import { formatCurrency as formatCurrencyAmount } from '../../../../../shared/utils/currency.util';
 import { logger } from '../../../../../shared/logger';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const PDFDocument = require('pdfkit') as typeof import('pdfkit');
@@ -42,11 +43,8 @@ export class ExportReservationPDFUseCase implements IExportReservationPDFUseCase
         doc.on('error', (error: Error) => reject(error));
 
         // Format currency helper
-        const formatCurrency = (amount: number, currency: string = 'INR'): string => {
-          return new Intl.NumberFormat('en-IN', {
-            style: 'currency',
-            currency: currency,
-          }).format(amount);
+        const formatCurrency = (amount: number, currency?: string): string => {
+          return formatCurrencyAmount(amount, currency);
         };
 
         // Format date helper
@@ -138,7 +136,7 @@ export class ExportReservationPDFUseCase implements IExportReservationPDFUseCase
 
           doc.fontSize(12).fillColor('#6b7280').text('Total Amount:', 50, yPosition);
           doc.fillColor('#1a1a1a').text(
-            formatCurrency(reservationDetails.originalPricing.total || 0, reservationDetails.originalPricing.currency || 'INR'),
+            formatCurrency(reservationDetails.originalPricing.total || 0, reservationDetails.originalPricing.currency),
             200,
             yPosition
           );
@@ -153,7 +151,7 @@ export class ExportReservationPDFUseCase implements IExportReservationPDFUseCase
           if (reservationDetails.refundedAmount && reservationDetails.refundedAmount > 0) {
             doc.fillColor('#6b7280').text('Refunded Amount:', 50, yPosition);
             doc.fillColor('#1a1a1a').text(
-              formatCurrency(reservationDetails.refundedAmount, reservationDetails.originalPricing.currency || 'INR'),
+              formatCurrency(reservationDetails.refundedAmount, reservationDetails.originalPricing.currency),
               200,
               yPosition
             );
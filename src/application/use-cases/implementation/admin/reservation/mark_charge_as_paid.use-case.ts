@@ -1,11 +1,12 @@
 import { injectable, inject } from 'tsyringe';
 import { IMarkChargeAsPaidUseCase } from '../../../interface/admin/reservation/mark_charge_as_paid_use_case.interface';
 import { IReservationChargeRepository } from '../../../../../domain/repositories/reservation_charge_repository.interface';
-import { REPOSITORY_TOKENS } from '../../../../di/tokens';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { ReservationCharge } from '../../../../../domain/entities/reservation_charge.entity';
 import { AppError } from '../../../../../shared/utils/app_error.util';
-import { ERROR_MESSAGES } from '../../../../../shared/constants';
+import { ERROR_MESSAGES, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { logger } from '../../../../../shared/logger';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for marking a reservation charge as paid
@@ -15,7 +16,9 @@ import { logger } from '../../../../../shared/logger';
 export class MarkChargeAsPaidUseCase implements IMarkChargeAsPaidUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IReservationChargeRepository)
-    private readonly chargeRepository: IReservationChargeRepository
+    private readonly chargeRepository: IReservationChargeRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(chargeId: string, adminUserId: string): Promise<ReservationCharge> {
@@ -54,6 +57,15 @@ export class MarkChargeAsPaidUseCase implements IMarkChargeAsPaidUseCase {
       throw new AppError(ERROR_MESSAGES.SERVER_ERROR, 'FAILED_TO_UPDATE_CHARGE', 500);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_CHARGE_MARK_PAID,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: charge.reservationId,
+      before: charge,
+      after: updatedCharge,
+      metadata: { chargeId, amount: charge.amount, currency: charge.currency },
+    });
+
     logger.info(`Charge ${chargeId} marked as paid by admin ${adminUserId}`);
 
     return updatedCharge;
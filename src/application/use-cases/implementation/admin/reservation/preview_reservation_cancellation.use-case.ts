@@ -0,0 +1,137 @@
+import { injectable, inject } from 'tsyringe';
+import { IPreviewReservationCancellationUseCase } from '../../../interface/admin/reservation/preview_reservation_cancellation_use_case.interface';
+import { IReservationRepository } from '../../../../../domain/repositories/reservation_repository.interface';
+import { IReservationItineraryRepository } from '../../../../../domain/repositories/reservation_itinerary_repository.interface';
+import { IReservationChargeRepository } from '../../../../../domain/repositories/reservation_charge_repository.interface';
+import { IPaymentRepository } from '../../../../../domain/repositories/payment_repository.interface';
+import { IQuoteRepository } from '../../../../../domain/repositories/quote_repository.interface';
+import { ICancellationPolicyRepository } from '../../../../../domain/repositories/cancellation_policy_repository.interface';
+import { ICancellationRefundCalculatorService } from '../../../../../domain/services/cancellation_refund_calculator_service.interface';
+import { CancellationPolicy } from '../../../../../domain/entities/cancellation_policy.entity';
+import { Reservation } from '../../../../../domain/entities/reservation.entity';
+import { CancellationPreviewResponse } from '../../../../dtos/cancellation_policy.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { deriveTripWindow } from '../../../../mapper/driver_dashboard.mapper';
+import { ReservationStatus, ERROR_MESSAGES } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { normalizeCurrency, roundCurrencyAmount } from '../../../../../shared/utils/currency.util';
+import { findTripPayments } from '../../../../../shared/utils/payment_plan.util';
+import { logger } from '../../../../../shared/logger';
+
+/**
+ * Use case for previewing the refund of a reservation cancellation
+ * Applies the cancellation policy the reservation was paid under without changing anything
+ */
+@injectable()
+export class PreviewReservationCancellationUseCase implements IPreviewReservationCancellationUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IReservationItineraryRepository)
+    private readonly itineraryRepository: IReservationItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IReservationChargeRepository)
+    private readonly chargeRepository: IReservationChargeRepository,
+    @inject(REPOSITORY_TOKENS.IPaymentRepository as never)
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.ICancellationPolicyRepository)
+    private readonly cancellationPolicyRepository: ICancellationPolicyRepository,
+    @inject(SERVICE_TOKENS.ICancellationRefundCalculatorService)
+    private readonly refundCalculator: ICancellationRefundCalculatorService
+  ) {}
+
+  async execute(reservationId: string, cancelledAt: Date = new Date()): Promise<CancellationPreviewResponse> {
+    // Input validation
+    if (!reservationId || typeof reservationId !== 'string' || reservationId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_RESERVATION_ID', 400);
+    }
+
+    const reservation = await this.reservationRepository.findById(reservationId);
+
+    if (!reservation) {
+      throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
+    }
+
+    if (reservation.isCancelled() || reservation.isRefunded()) {
+      throw new AppError(
+        'Reservation is already cancelled',
+        'RESERVATION_ALREADY_CANCELLED',
+        400
+      );
+    }
+
+    if (reservation.status === ReservationStatus.COMPLETED) {
+      throw new AppError(
+        'Cannot cancel a completed reservation',
+        'RESERVATION_COMPLETED',
+        400
+      );
+    }
+
+    const policy = await this.resolvePolicy(reservation);
+
+    const [payments, quote, charges, stops] = await Promise.all([
+      findTripPayments(reservation, this.paymentRepository),
+      this.quoteRepository.findById(reservation.quoteId),
+      this.chargeRepository.findByReservationId(reservationId),
+      this.itineraryRepository.findByReservationIdOrdered(reservationId),
+    ]);
+
+    const departureAt = stops.length > 0 ? deriveTripWindow(stops).tripStartAt : undefined;
+
+    const breakdown = this.refundCalculator.calculateRefund({
+      policy,
+      // Deposit bookings whose balance was paid were collected through more than one payment
+      paidAmount: roundCurrencyAmount(
+        payments.reduce((sum, payment) => sum + payment.amount, 0),
+        normalizeCurrency(payments[0]?.currency)
+      ),
+      alreadyRefundedAmount: reservation.refundedAmount || 0,
+      amenitiesAmount: quote?.pricing?.amenitiesTotal || 0,
+      paidCharges: charges
+        .filter((charge) => charge.isPaidCharge())
+        .map((charge) => ({ chargeId: charge.chargeId, amount: charge.amount })),
+      departureAt,
+      cancelledAt,
+    });
+
+    logger.info(
+      `Cancellation preview for reservation ${reservationId}: policy v${policy.version}, refund ${breakdown.totalRefund}`
+    );
+
+    return {
+      reservationId,
+      currency: normalizeCurrency(payments[0]?.currency || reservation.originalPricing?.currency),
+      departureAt: departureAt ?? null,
+      ...breakdown,
+    };
+  }
+
+  /**
+   * Resolves the policy the reservation was paid under
+   * Reservations created before policies were versioned fall back to the active policy
+   */
+  private async resolvePolicy(reservation: Reservation): Promise<CancellationPolicy> {
+    if (reservation.cancellationPolicyId) {
+      const pinnedPolicy = await this.cancellationPolicyRepository.findById(reservation.cancellationPolicyId);
+      if (pinnedPolicy) {
+        return pinnedPolicy;
+      }
+      logger.warn(
+        `Cancellation policy ${reservation.cancellationPolicyId} for reservation ${reservation.reservationId} not found, using active policy`
+      );
+    }
+
+    const activePolicy = await this.cancellationPolicyRepository.findActive();
+    if (!activePolicy) {
+      throw new AppError(
+        'No active cancellation policy found',
+        'CANCELLATION_POLICY_NOT_FOUND',
+        404
+      );
+    }
+
+    return activePolicy;
+  }
+}
@@ -81,6 +81,7 @@ describe('ProcessReservationRefundUseCase - Integration Tests', () => {
     const emailService = container.resolve(EmailServiceImpl);
     container.registerInstance(USE_CASE_TOKENS.CreateNotificationUseCase, createNotificationUseCase);
     container.registerInstance(SERVICE_TOKENS.IEmailService, emailService);
+    container.registerInstance(SERVICE_TOKENS.IAuditLogService, { record: vi.fn().mockResolvedValue(undefined) });
 
     // Mock Stripe
     mockStripe = {
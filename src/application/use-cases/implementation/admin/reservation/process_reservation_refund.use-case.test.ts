@@ -5,6 +5,7 @@ import { MockReservationRepository } from '../../../../../shared/test/mocks/repo
 import { MockPaymentRepository } from '../../../../../shared/test/mocks/repositories/payment_repository.mock';
 import { MockReservationModificationRepository } from '../../../../../shared/test/mocks/repositories/reservation_modification_repository.mock';
 import { MockUserRepository } from '../../../../../shared/test/mocks/repositories/user_repository.mock';
+import { MockPaymentGateway } from '../../../../../shared/test/mocks/services/payment_gateway.mock';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../../di/tokens';
 import { clearContainer } from '../../../../../shared/test/helpers/test_setup';
 import { createConfirmedReservationFixture, createReservationFixture } from '../../../../../shared/test/fixtures/reservation.fixture';
@@ -12,15 +13,9 @@ import { createSucceededPaymentFixture } from '../../../../../shared/test/fixtur
 import { createUserFixture } from '../../../../../shared/test/fixtures/user.fixture';
 import { ReservationStatus } from '../../../../../shared/constants';
 import { PaymentStatus } from '../../../../../domain/entities/payment.entity';
-import * as stripeService from '../../../../../infrastructure/service/stripe.service';
 import { ICreateNotificationUseCase } from '../../../interface/notification/create_notification_use_case.interface';
 import { IEmailService } from '../../../../../domain/services/email_service.interface';
-import Stripe from 'stripe';
-
-// Mock the Stripe service
-vi.mock('../../../../../infrastructure/services/stripe.service', () => ({
-  getStripeInstance: vi.fn(),
-}));
+import { IGatewayRefund } from '../../../../../domain/services/payment_gateway.interface';
 
 // Mock logger to avoid console output in tests
 vi.mock('../../../../../shared/logger', () => ({
@@ -41,11 +36,7 @@ describe('ProcessReservationRefundUseCase', () => {
   let mockEmailService: IEmailService;
   let mockNotificationExecute: ReturnType<typeof vi.fn>;
   let mockEmailSendEmail: ReturnType<typeof vi.fn>;
-  let mockStripe: {
-    refunds: {
-      create: ReturnType<typeof vi.fn<[Stripe.RefundCreateParams], Promise<Stripe.Refund>>>;
-    };
-  };
+  let mockPaymentGateway: MockPaymentGateway;
 
   beforeEach(() => {
     clearContainer();
@@ -75,14 +66,13 @@ describe('ProcessReservationRefundUseCase', () => {
     container.registerInstance(USE_CASE_TOKENS.CreateNotificationUseCase, mockCreateNotificationUseCase);
     container.registerInstance(SERVICE_TOKENS.IEmailService, mockEmailService);
 
-    // Create mock Stripe instance
-    mockStripe = {
-      refunds: {
-        create: vi.fn<[Stripe.RefundCreateParams], Promise<Stripe.Refund>>(),
-      },
-    };
-
-    vi.mocked(stripeService.getStripeInstance).mockReturnValue(mockStripe as unknown as Stripe);
+    // Create mock payment gateway
+    mockPaymentGateway = new MockPaymentGateway();
+    container.registerInstance(SERVICE_TOKENS.IPaymentGateway, mockPaymentGateway);
+    container.registerInstance(SERVICE_TOKENS.IReservationInvoiceService, {
+      issueCreditNote: vi.fn().mockResolvedValue(undefined),
+    });
+    container.registerInstance(SERVICE_TOKENS.IAuditLogService, { record: vi.fn().mockResolvedValue(undefined) });
 
     // Create use case instance
     useCase = container.resolve(ProcessReservationRefundUseCase);
@@ -122,9 +112,9 @@ describe('ProcessReservationRefundUseCase', () => {
       mockReservationRepository.findById.mockResolvedValue(reservation);
       mockPaymentRepository.findById.mockResolvedValue(payment);
       mockUserRepository.findById.mockResolvedValue(user);
-      mockStripe.refunds.create.mockResolvedValue({
+      mockPaymentGateway.createRefund.mockResolvedValue({
         id: refundId,
-      } as Stripe.Refund);
+      } as IGatewayRefund);
 
       // Act
       const result = await useCase.execute(reservationId, amount, adminUserId);
@@ -134,9 +124,9 @@ describe('ProcessReservationRefundUseCase', () => {
         reservation: expect.any(Object),
         refundId,
       });
-      expect(mockStripe.refunds.create).toHaveBeenCalledWith({
-        payment_intent: paymentIntentId,
-        amount: amount * 100, // Converted to cents
+      expect(mockPaymentGateway.createRefund).toHaveBeenCalledWith({
+        paymentIntentId,
+        amount,
         reason: undefined,
         metadata: {
           reservationId,
@@ -183,18 +173,18 @@ describe('ProcessReservationRefundUseCase', () => {
       mockReservationRepository.findById.mockResolvedValue(reservation);
       mockPaymentRepository.findById.mockResolvedValue(payment);
       mockUserRepository.findById.mockResolvedValue(user);
-      mockStripe.refunds.create.mockResolvedValue({
+      mockPaymentGateway.createRefund.mockResolvedValue({
         id: refundId,
-      } as Stripe.Refund);
+      } as IGatewayRefund);
 
       // Act
       const result = await useCase.execute(reservationId, partialRefundAmount, adminUserId);
 
       // Assert
       expect(result.refundId).toBe(refundId);
-      expect(mockStripe.refunds.create).toHaveBeenCalledWith({
-        payment_intent: paymentIntentId,
-        amount: partialRefundAmount * 100,
+      expect(mockPaymentGateway.createRefund).toHaveBeenCalledWith({
+        paymentIntentId,
+        amount: partialRefundAmount,
         reason: undefined,
         metadata: expect.any(Object),
       });
@@ -297,13 +287,13 @@ describe('ProcessReservationRefundUseCase', () => {
       mockReservationRepository.findById.mockResolvedValue(reservation);
       mockPaymentRepository.findById.mockResolvedValue(payment);
       mockUserRepository.findById.mockResolvedValue(user);
-      mockStripe.refunds.create.mockResolvedValue({ id: 're_test_123' } as Stripe.Refund);
+      mockPaymentGateway.createRefund.mockResolvedValue({ id: 're_test_123' } as IGatewayRefund);
 
       // Act
       await useCase.execute(reservationId, 5000, 'admin-123', reason);
 
       // Assert
-      expect(mockStripe.refunds.create).toHaveBeenCalledWith(
+      expect(mockPaymentGateway.createRefund).toHaveBeenCalledWith(
         expect.objectContaining({
           reason: 'requested_by_customer',
           metadata: expect.objectContaining({
@@ -338,7 +328,7 @@ describe('ProcessReservationRefundUseCase', () => {
       mockReservationRepository.findById.mockResolvedValue(reservation);
       mockPaymentRepository.findById.mockResolvedValue(payment);
       mockUserRepository.findById.mockResolvedValue(user);
-      mockStripe.refunds.create.mockResolvedValue({ id: 're_test_123' } as Stripe.Refund);
+      mockPaymentGateway.createRefund.mockResolvedValue({ id: 're_test_123' } as IGatewayRefund);
 
       // Act
       await useCase.execute(reservationId, amount, 'admin-123');
@@ -379,7 +369,7 @@ describe('ProcessReservationRefundUseCase', () => {
       mockReservationRepository.findById.mockResolvedValue(reservation);
       mockPaymentRepository.findById.mockResolvedValue(payment);
       mockUserRepository.findById.mockResolvedValue(user);
-      mockStripe.refunds.create.mockResolvedValue({ id: 're_test_123' } as Stripe.Refund);
+      mockPaymentGateway.createRefund.mockResolvedValue({ id: 're_test_123' } as IGatewayRefund);
 
       // Act
       await useCase.execute(reservationId, amount, 'admin-123', reason);
@@ -430,7 +420,7 @@ describe('ProcessReservationRefundUseCase', () => {
       mockReservationRepository.findById.mockResolvedValue(reservation);
       mockPaymentRepository.findById.mockResolvedValue(payment);
       mockUserRepository.findById.mockResolvedValue(user);
-      mockStripe.refunds.create.mockResolvedValue({ id: 're_test_123' } as Stripe.Refund);
+      mockPaymentGateway.createRefund.mockResolvedValue({ id: 're_test_123' } as IGatewayRefund);
 
       // Act
       await useCase.execute(reservationId, amount, 'admin-123');
@@ -450,7 +440,7 @@ describe('ProcessReservationRefundUseCase', () => {
       );
     });
 
-    it('should handle Stripe refund failure gracefully', async () => {
+    it('should handle payment gateway refund failure gracefully', async () => {
       // Arrange
       const reservationId = 'reservation-123';
       const paymentId = 'payment-123';
@@ -467,7 +457,7 @@ describe('ProcessReservationRefundUseCase', () => {
 
       mockReservationRepository.findById.mockResolvedValue(reservation);
       mockPaymentRepository.findById.mockResolvedValue(payment);
-      mockStripe.refunds.create.mockRejectedValue(new Error('Stripe API error'));
+      mockPaymentGateway.createRefund.mockRejectedValue(new Error('Gateway API error'));
 
       // Act & Assert
       await expect(useCase.execute(reservationId, 5000, 'admin-123')).rejects.toThrow(
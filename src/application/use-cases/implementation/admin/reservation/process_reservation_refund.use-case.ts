@@ -7,21 +7,23 @@ import { IReservationModificationRepository } from '../../../../../domain/reposi
 import { IUserRepository } from '../../../../../domain/repositories/user_repository.interface';
 import { INotificationService } from '../../../../../domain/services/notification_service.interface';
 import { IEmailService } from '../../../../../domain/services/email_service.interface';
+import { IPaymentGateway } from '../../../../../domain/services/payment_gateway.interface';
+import { IReservationInvoiceService } from '../../../../../domain/services/reservation_invoice_service.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
-import { ReservationStatus, NotificationType, ERROR_MESSAGES, TripType } from '../../../../../shared/constants';
+import { ReservationStatus, NotificationType, ERROR_MESSAGES, TripType, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { PaymentStatus } from '../../../../../domain/entities/payment.entity';
 import { AppError } from '../../../../../shared/utils/app_error.util';
 import { logger } from '../../../../../shared/logger';
 import { randomUUID } from 'crypto';
-import { getStripeInstance } from '../../../../../infrastructure/service/stripe.service';
 import { EmailType, RefundConfirmationEmailData } from '../../../../../shared/types/email.types';
 import { FRONTEND_CONFIG } from '../../../../../shared/config';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for processing reservation refund
- * Admin can process refunds via Stripe and notify user
+ * Admin can process refunds via the payment gateway and notify user
  */
 @injectable()
 export class ProcessReservationRefundUseCase implements IProcessReservationRefundUseCase {
@@ -37,7 +39,13 @@ export class ProcessReservationRefundUseCase implements IProcessReservationRefun
     @inject(SERVICE_TOKENS.INotificationService)
     private readonly notificationService: INotificationService,
     @inject(SERVICE_TOKENS.IEmailService)
-    private readonly emailService: IEmailService
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IPaymentGateway)
+    private readonly paymentGateway: IPaymentGateway,
+    @inject(SERVICE_TOKENS.IReservationInvoiceService)
+    private readonly reservationInvoiceService: IReservationInvoiceService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
@@ -96,7 +104,7 @@ export class ProcessReservationRefundUseCase implements IProcessReservationRefun
       );
     }
 
-    // Process refund via Stripe
+    // Process refund via payment gateway
     let refundId: string;
     try {
       if (!payment.paymentIntentId) {
@@ -107,10 +115,10 @@ export class ProcessReservationRefundUseCase implements IProcessReservationRefun
         );
       }
 
-      const stripe = getStripeInstance();
-      const refund = await stripe.refunds.create({
-        payment_intent: payment.paymentIntentId,
-        amount: Math.round(amount * 100), // Convert to cents
+      const refund = await this.paymentGateway.createRefund({
+        paymentIntentId: payment.paymentIntentId,
+        amount,
+        currency: payment.currency,
         reason: reason ? 'requested_by_customer' : undefined,
         metadata: {
           reservationId,
@@ -120,7 +128,7 @@ export class ProcessReservationRefundUseCase implements IProcessReservationRefun
       });
 
       refundId = refund.id;
-      logger.info(`Stripe refund successful: ID=${refundId}, Amount=${amount}, Reservation=${reservationId}`);
+      logger.info(`Refund successful: ID=${refundId}, Amount=${amount}, Reservation=${reservationId}`);
     } catch (stripeError) {
       logger.error(
         `Stripe refund failed: ${stripeError instanceof Error ? stripeError.message : 'Unknown error'}`
@@ -195,6 +203,15 @@ export class ProcessReservationRefundUseCase implements IProcessReservationRefun
       }
     }
 
+    // Issue the credit note for the refund
+    try {
+      await this.reservationInvoiceService.issueCreditNote(reservation, payment, { refundId, amount, reason });
+    } catch (creditNoteError) {
+      logger.error(
+        `Failed to issue credit note for refund ${refundId}: ${creditNoteError instanceof Error ? creditNoteError.message : 'Unknown error'}`
+      );
+    }
+
     // Send notification to user
     try {
       await this.notificationService.sendNotification({
@@ -253,6 +270,15 @@ export class ProcessReservationRefundUseCase implements IProcessReservationRefun
       throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_REFUND,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      before: reservation,
+      after: updatedReservation,
+      metadata: { refundId, amount, currency: payment.currency, reason },
+    });
+
     logger.info(
       `Admin processed refund for reservation: ${reservationId}, amount: ${amount} ${payment.currency}`
     );
@@ -3,15 +3,16 @@ import { IUpdateReservationItineraryUseCase, ItineraryStopUpdateData } from '../
 import { IReservationRepository } from '../../../../../domain/repositories/reservation_repository.interface';
 import { IReservationItineraryRepository } from '../../../../../domain/repositories/reservation_itinerary_repository.interface';
 import { IReservationModificationRepository } from '../../../../../domain/repositories/reservation_modification_repository.interface';
-import { ICreateNotificationUseCase } from '../../../interface/notification/create_notification_use_case.interface';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../../di/tokens';
+import { INotificationService } from '../../../../../domain/services/notification_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
 import { ReservationItinerary } from '../../../../../domain/entities/reservation_itinerary.entity';
-import { NotificationType, ERROR_MESSAGES, ReservationStatus, StopType } from '../../../../../shared/constants';
+import { NotificationType, ERROR_MESSAGES, ReservationStatus, StopType, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
 import { logger } from '../../../../../shared/logger';
 import { randomUUID } from 'crypto';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating reservation itinerary
@@ -26,8 +27,10 @@ export class UpdateReservationItineraryUseCase implements IUpdateReservationItin
     private readonly itineraryRepository: IReservationItineraryRepository,
     @inject(REPOSITORY_TOKENS.IReservationModificationRepository)
     private readonly modificationRepository: IReservationModificationRepository,
-    @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
-    private readonly createNotificationUseCase: ICreateNotificationUseCase
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
@@ -122,7 +125,7 @@ export class UpdateReservationItineraryUseCase implements IUpdateReservationItin
 
     // Send notification to user
     try {
-      await this.createNotificationUseCase.execute({
+      await this.notificationService.sendNotification({
         userId: reservation.userId,
         type: NotificationType.ITINERARY_UPDATED,
         title: 'Itinerary Updated for Your Reservation',
@@ -144,6 +147,14 @@ export class UpdateReservationItineraryUseCase implements IUpdateReservationItin
       throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_ITINERARY_UPDATE,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      before: { status: reservation.status, itinerary: existingStops },
+      after: { status: updatedReservation.status, itinerary: newStops },
+    });
+
     logger.info(`Admin updated itinerary for reservation: ${reservationId}`);
 
     return updatedReservation;
@@ -3,16 +3,18 @@ import { IUpdateReservationStatusUseCase } from '../../../interface/admin/reserv
 import { IReservationRepository } from '../../../../../domain/repositories/reservation_repository.interface';
 import { IReservationModificationRepository } from '../../../../../domain/repositories/reservation_modification_repository.interface';
 import { IReservationChargeRepository } from '../../../../../domain/repositories/reservation_charge_repository.interface';
-import { ICreateNotificationUseCase } from '../../../interface/notification/create_notification_use_case.interface';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { INotificationService } from '../../../../../domain/services/notification_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 import { ReservationModification } from '../../../../../domain/entities/reservation_modification.entity';
-import { ReservationStatus, NotificationType, ERROR_MESSAGES } from '../../../../../shared/constants';
+import { ReservationStatus, NotificationType, ERROR_MESSAGES, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../../shared/utils/currency.util';
 import { logger } from '../../../../../shared/logger';
 import { randomUUID } from 'crypto';
 import { ISocketEventService } from '../../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating reservation status
@@ -27,8 +29,10 @@ export class UpdateReservationStatusUseCase implements IUpdateReservationStatusU
     private readonly modificationRepository: IReservationModificationRepository,
     @inject(REPOSITORY_TOKENS.IReservationChargeRepository)
     private readonly chargeRepository: IReservationChargeRepository,
-    @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
-    private readonly createNotificationUseCase: ICreateNotificationUseCase
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(
@@ -81,7 +85,7 @@ export class UpdateReservationStatusUseCase implements IUpdateReservationStatusU
       if (unpaidCharges.length > 0) {
         const totalUnpaid = unpaidCharges.reduce((sum, charge) => sum + charge.amount, 0);
         throw new AppError(
-          `Cannot complete reservation with unpaid balance of ${totalUnpaid} ${unpaidCharges[0]?.currency || 'INR'}. Please ensure all charges are paid before completing the reservation.`,
+          `Cannot complete reservation with unpaid balance of ${totalUnpaid} ${normalizeCurrency(unpaidCharges[0]?.currency)}. Please ensure all charges are paid before completing the reservation.`,
           'UNPAID_CHARGES_BLOCK_COMPLETION',
           400
         );
@@ -118,7 +122,7 @@ export class UpdateReservationStatusUseCase implements IUpdateReservationStatusU
 
     // Send notification to user
     try {
-      await this.createNotificationUseCase.execute({
+      await this.notificationService.sendNotification({
         userId: reservation.userId,
         type: NotificationType.RESERVATION_STATUS_CHANGED,
         title: 'Reservation Status Updated',
@@ -143,6 +147,15 @@ export class UpdateReservationStatusUseCase implements IUpdateReservationStatusU
       throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.RESERVATION_STATUS_CHANGE,
+      targetType: AuditTargetType.RESERVATION,
+      targetId: reservationId,
+      before: reservation,
+      after: updatedReservation,
+      metadata: { reason },
+    });
+
     // Emit socket event for admin dashboard
     try {
       const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
@@ -0,0 +1,323 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetFleetScheduleUseCase } from '../../../interface/admin/schedule/get_fleet_schedule_use_case.interface';
+import { IReservationRepository } from '../../../../../domain/repositories/reservation_repository.interface';
+import { IReservationItineraryRepository } from '../../../../../domain/repositories/reservation_itinerary_repository.interface';
+import { IQuoteRepository } from '../../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../../domain/repositories/quote_itinerary_repository.interface';
+import { IVehicleRepository } from '../../../../../domain/repositories/vehicle_repository.interface';
+import { IDriverRepository } from '../../../../../domain/repositories/driver_repository.interface';
+import { IMaintenanceWindowRepository } from '../../../../../domain/repositories/maintenance_window_repository.interface';
+import {
+  FleetScheduleResponse,
+  ResourceTimelineResponse,
+  ScheduleResource,
+} from '../../../../dtos/schedule.dto';
+import { REPOSITORY_TOKENS } from '../../../../di/tokens';
+import { deriveTripWindow } from '../../../../mapper/driver_dashboard.mapper';
+import {
+  ScheduleEntryInput,
+  buildResourceTimeline,
+  countTimelineConflicts,
+} from '../../../../mapper/schedule.mapper';
+import {
+  DRIVER_ASSIGNMENT_CONFIG,
+  ERROR_CODES,
+  ERROR_MESSAGES,
+  FLEET_SCHEDULE_CONFIG,
+  QuoteStatus,
+  ReservationStatus,
+  VehicleStatus,
+} from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { logger } from '../../../../../shared/logger';
+
+/**
+ * Reservation statuses that no longer occupy vehicles or drivers
+ */
+const RELEASED_STATUSES = new Set<ReservationStatus>([
+  ReservationStatus.CANCELLED,
+  ReservationStatus.REFUNDED,
+]);
+
+/**
+ * Trip placed on the schedule, with the resources it occupies
+ */
+interface ScheduledTrip {
+  entry: ScheduleEntryInput;
+  vehicleIds: string[];
+  driverId?: string;
+  cooldownStartAt: Date;
+}
+
+/**
+ * Use case for getting the fleet schedule
+ * Builds per-vehicle or per-driver timelines of soft holds, bookings, maintenance and driver cooldowns
+ * from itinerary arrival/departure times, and flags entries that clash
+ */
+@injectable()
+export class GetFleetScheduleUseCase implements IGetFleetScheduleUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IReservationItineraryRepository)
+    private readonly reservationItineraryRepository: IReservationItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly quoteItineraryRepository: IQuoteItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IDriverRepository)
+    private readonly driverRepository: IDriverRepository,
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository
+  ) {}
+
+  async execute(from?: string, to?: string, resource: string = 'vehicle'): Promise<FleetScheduleResponse> {
+    if (resource !== 'vehicle' && resource !== 'driver') {
+      throw new AppError(ERROR_MESSAGES.INVALID_SCHEDULE_RESOURCE, ERROR_CODES.INVALID_SCHEDULE_RESOURCE, 400);
+    }
+
+    const { rangeStart, rangeEnd } = this.parseRange(from, to);
+
+    logger.info(
+      `Fleet schedule request: resource=${resource}, from=${rangeStart.toISOString()}, to=${rangeEnd.toISOString()}`
+    );
+
+    // Trips that ended shortly before the range still put their driver in cooldown inside it
+    const lookbackStart =
+      resource === 'driver'
+        ? new Date(rangeStart.getTime() - DRIVER_ASSIGNMENT_CONFIG.COOLDOWN_PERIOD_MS)
+        : rangeStart;
+
+    const [bookings, softHolds] = await Promise.all([
+      this.findBookings(lookbackStart, rangeEnd),
+      this.findSoftHolds(lookbackStart, rangeEnd),
+    ]);
+    const trips = [...bookings, ...softHolds];
+
+    const timelines =
+      resource === 'vehicle'
+        ? await this.buildVehicleTimelines(trips, rangeStart, rangeEnd)
+        : await this.buildDriverTimelines(trips, rangeStart, rangeEnd);
+
+    const conflictCount = timelines.reduce((sum, timeline) => sum + countTimelineConflicts(timeline), 0);
+
+    logger.info(
+      `Fleet schedule built: ${timelines.length} ${resource} timeline(s), ${bookings.length} booking(s), ${softHolds.length} soft hold(s), ${conflictCount} conflict(s)`
+    );
+
+    return {
+      resource: resource as ScheduleResource,
+      from: rangeStart,
+      to: rangeEnd,
+      timelines,
+      conflictCount,
+    };
+  }
+
+  private parseRange(from?: string, to?: string): { rangeStart: Date; rangeEnd: Date } {
+    const rangeStart = from ? new Date(from) : new Date();
+    const rangeEnd = to
+      ? new Date(to)
+      : new Date(rangeStart.getTime() + FLEET_SCHEDULE_CONFIG.DEFAULT_RANGE_MS);
+
+    if (
+      isNaN(rangeStart.getTime()) ||
+      isNaN(rangeEnd.getTime()) ||
+      rangeStart >= rangeEnd ||
+      rangeEnd.getTime() - rangeStart.getTime() > FLEET_SCHEDULE_CONFIG.MAX_RANGE_MS
+    ) {
+      throw new AppError(ERROR_MESSAGES.INVALID_SCHEDULE_RANGE, ERROR_CODES.INVALID_SCHEDULE_RANGE, 400);
+    }
+
+    return { rangeStart, rangeEnd };
+  }
+
+  /**
+   * Hard bookings: reservations whose itinerary overlaps the range
+   */
+  private async findBookings(rangeStart: Date, rangeEnd: Date): Promise<ScheduledTrip[]> {
+    const tripWindows = await this.reservationItineraryRepository.findTripWindowsInRange(rangeStart, rangeEnd);
+    const reservations = await this.reservationRepository.findByIds(Array.from(tripWindows.keys()));
+
+    const trips: ScheduledTrip[] = [];
+    for (const reservation of reservations) {
+      const tripWindow = tripWindows.get(reservation.reservationId);
+      if (!tripWindow || RELEASED_STATUSES.has(reservation.status)) {
+        continue;
+      }
+
+      trips.push({
+        entry: {
+          entryId: `booking:${reservation.reservationId}`,
+          type: 'booking',
+          startAt: tripWindow.tripStartAt,
+          endAt: tripWindow.tripEndAt,
+          quoteId: reservation.quoteId,
+          reservationId: reservation.reservationId,
+          referenceNumber: reservation.reservationNumber,
+          tripName: reservation.tripName,
+          status: reservation.status,
+        },
+        vehicleIds: (reservation.selectedVehicles ?? []).map((vehicle) => vehicle.vehicleId),
+        driverId: reservation.assignedDriverId,
+        cooldownStartAt: reservation.completedAt ?? tripWindow.tripEndAt,
+      });
+    }
+
+    return trips;
+  }
+
+  /**
+   * Soft holds: QUOTED quotes still inside their payment window whose itinerary overlaps the range
+   */
+  private async findSoftHolds(rangeStart: Date, rangeEnd: Date): Promise<ScheduledTrip[]> {
+    const quotes = (await this.quoteRepository.findByStatus(QuoteStatus.QUOTED)).filter((quote) =>
+      quote.isWithinPaymentWindow()
+    );
+    const itineraries = await this.quoteItineraryRepository.findByQuoteIdsOrdered(
+      quotes.map((quote) => quote.quoteId)
+    );
+
+    const trips: ScheduledTrip[] = [];
+    for (const quote of quotes) {
+      const stops = itineraries.get(quote.quoteId);
+      if (!stops || stops.length === 0) {
+        continue;
+      }
+
+      const { tripStartAt, tripEndAt } = deriveTripWindow(stops);
+      if (tripStartAt > rangeEnd || tripEndAt < rangeStart) {
+        continue;
+      }
+
+      trips.push({
+        entry: {
+          entryId: `soft_hold:${quote.quoteId}`,
+          type: 'soft_hold',
+          startAt: tripStartAt,
+          endAt: tripEndAt,
+          quoteId: quote.quoteId,
+          referenceNumber: quote.quoteNumber,
+          tripName: quote.tripName,
+          status: quote.status,
+        },
+        vehicleIds: (quote.selectedVehicles ?? []).map((vehicle) => vehicle.vehicleId),
+        driverId: quote.assignedDriverId,
+        cooldownStartAt: tripEndAt,
+      });
+    }
+
+    return trips;
+  }
+
+  private async buildVehicleTimelines(
+    trips: ScheduledTrip[],
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Promise<ResourceTimelineResponse[]> {
+    const entriesByVehicle = new Map<string, ScheduleEntryInput[]>();
+    for (const trip of trips) {
+      for (const vehicleId of new Set(trip.vehicleIds)) {
+        this.addEntry(entriesByVehicle, vehicleId, trip.entry);
+      }
+    }
+
+    const maintenanceWindows = await this.maintenanceWindowRepository.findBlockingInDateRange(rangeStart, rangeEnd);
+    const vehiclesInWorkshop = new Set<string>();
+    for (const window of maintenanceWindows) {
+      if (window.status === 'in_progress') {
+        vehiclesInWorkshop.add(window.vehicleId);
+      }
+
+      this.addEntry(entriesByVehicle, window.vehicleId, {
+        entryId: `maintenance:${window.windowId}`,
+        type: 'maintenance',
+        startAt: window.startAt,
+        endAt: window.endAt,
+        tripName: window.reason,
+        status: window.status,
+      });
+    }
+
+    const vehicles = (await this.vehicleRepository.findAll())
+      .filter((vehicle) => vehicle.status !== VehicleStatus.RETIRED || entriesByVehicle.has(vehicle.vehicleId))
+      .sort((a, b) => a.plateNumber.localeCompare(b.plateNumber));
+
+    return vehicles.map((vehicle) => {
+      const entries = entriesByVehicle.get(vehicle.vehicleId) ?? [];
+
+      // Vehicles flagged as in maintenance without a running window are out of service for the whole range
+      if (vehicle.status === VehicleStatus.MAINTENANCE && !vehiclesInWorkshop.has(vehicle.vehicleId)) {
+        entries.push({
+          entryId: `maintenance:${vehicle.vehicleId}`,
+          type: 'maintenance',
+          startAt: rangeStart,
+          endAt: rangeEnd,
+          status: vehicle.status,
+        });
+      }
+
+      return buildResourceTimeline(
+        vehicle.vehicleId,
+        `${vehicle.vehicleModel} (${vehicle.plateNumber})`,
+        vehicle.status,
+        this.clipToRange(entries, rangeStart, rangeEnd)
+      );
+    });
+  }
+
+  private async buildDriverTimelines(
+    trips: ScheduledTrip[],
+    rangeStart: Date,
+    rangeEnd: Date
+  ): Promise<ResourceTimelineResponse[]> {
+    const entriesByDriver = new Map<string, ScheduleEntryInput[]>();
+    for (const trip of trips) {
+      if (!trip.driverId) {
+        continue;
+      }
+
+      this.addEntry(entriesByDriver, trip.driverId, trip.entry);
+      this.addEntry(entriesByDriver, trip.driverId, {
+        entryId: `cooldown:${trip.entry.reservationId ?? trip.entry.quoteId}`,
+        type: 'cooldown',
+        startAt: trip.cooldownStartAt,
+        endAt: new Date(trip.cooldownStartAt.getTime() + DRIVER_ASSIGNMENT_CONFIG.COOLDOWN_PERIOD_MS),
+        quoteId: trip.entry.quoteId,
+        reservationId: trip.entry.reservationId,
+        referenceNumber: trip.entry.referenceNumber,
+        tripName: trip.entry.tripName,
+        status: trip.entry.status,
+      });
+    }
+
+    const { drivers } = await this.driverRepository.findDriversWithFilters({ sortBy: 'fullName' });
+
+    return drivers.map((driver) =>
+      buildResourceTimeline(
+        driver.driverId,
+        driver.fullName,
+        driver.status,
+        this.clipToRange(entriesByDriver.get(driver.driverId) ?? [], rangeStart, rangeEnd)
+      )
+    );
+  }
+
+  private addEntry(map: Map<string, ScheduleEntryInput[]>, resourceId: string, entry: ScheduleEntryInput): void {
+    const existing = map.get(resourceId);
+    if (existing) {
+      existing.push(entry);
+    } else {
+      map.set(resourceId, [entry]);
+    }
+  }
+
+  /**
+   * Drops entries that only fell into the cooldown lookback and do not reach the requested range
+   */
+  private clipToRange(entries: ScheduleEntryInput[], rangeStart: Date, rangeEnd: Date): ScheduleEntryInput[] {
+    return entries.filter((entry) => entry.startAt <= rangeEnd && entry.endAt >= rangeStart);
+  }
+}
@@ -2,13 +2,14 @@ import { injectable, inject } from 'tsyringe';
 import { ICreateAmenityUseCase } from '../../interface/amenity/create_amenity_use_case.interface';
 import { IAmenityRepository } from '../../../../domain/repositories/amenity_repository.interface';
 import { CreateAmenityRequest, CreateAmenityResponse } from '../../../dtos/amenity.dto';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { AmenityMapper } from '../../../mapper/amenity.mapper';
 import { Amenity } from '../../../../domain/entities/amenity.entity';
 import { logger } from '../../../../shared/logger';
 import { randomUUID } from 'crypto';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for creating amenity
@@ -19,6 +20,8 @@ export class CreateAmenityUseCase implements ICreateAmenityUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IAmenityRepository)
     private readonly amenityRepository: IAmenityRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(request: CreateAmenityRequest): Promise<CreateAmenityResponse> {
@@ -58,6 +61,13 @@ export class CreateAmenityUseCase implements ICreateAmenityUseCase {
     // Save to repository
     await this.amenityRepository.create(amenity);
 
+    await this.auditLogService.record({
+      action: AuditAction.AMENITY_CREATE,
+      targetType: AuditTargetType.AMENITY,
+      targetId: amenityId,
+      after: amenity,
+    });
+
     logger.info(`Amenity created: ${amenity.name} (${amenityId})`);
 
     return AmenityMapper.toCreateAmenityResponse(amenity);
@@ -2,10 +2,11 @@ import { injectable, inject } from 'tsyringe';
 import { IDeleteAmenityUseCase } from '../../interface/amenity/delete_amenity_use_case.interface';
 import { IAmenityRepository } from '../../../../domain/repositories/amenity_repository.interface';
 import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for deleting amenity
@@ -18,6 +19,8 @@ export class DeleteAmenityUseCase implements IDeleteAmenityUseCase {
     private readonly amenityRepository: IAmenityRepository,
     @inject(REPOSITORY_TOKENS.IVehicleRepository)
     private readonly vehicleRepository: IVehicleRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(id: string): Promise<void> {
@@ -45,6 +48,13 @@ export class DeleteAmenityUseCase implements IDeleteAmenityUseCase {
     // Delete amenity
     await this.amenityRepository.deleteById(id);
 
+    await this.auditLogService.record({
+      action: AuditAction.AMENITY_DELETE,
+      targetType: AuditTargetType.AMENITY,
+      targetId: id,
+      before: amenity,
+    });
+
     logger.info(`Amenity deleted: ${amenity.name} (${id})`);
   }
 }
@@ -2,11 +2,12 @@ import { injectable, inject } from 'tsyringe';
 import { IUpdateAmenityUseCase } from '../../interface/amenity/update_amenity_use_case.interface';
 import { IAmenityRepository } from '../../../../domain/repositories/amenity_repository.interface';
 import { UpdateAmenityRequest, UpdateAmenityResponse } from '../../../dtos/amenity.dto';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { AmenityMapper } from '../../../mapper/amenity.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 type AmenityUpdateData = {
   name?: string;
@@ -22,6 +23,8 @@ export class UpdateAmenityUseCase implements IUpdateAmenityUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IAmenityRepository)
     private readonly amenityRepository: IAmenityRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(id: string, request: UpdateAmenityRequest): Promise<UpdateAmenityResponse> {
@@ -69,6 +72,14 @@ export class UpdateAmenityUseCase implements IUpdateAmenityUseCase {
       throw new AppError(ERROR_MESSAGES.AMENITY_NOT_FOUND, ERROR_CODES.AMENITY_NOT_FOUND, 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.AMENITY_UPDATE,
+      targetType: AuditTargetType.AMENITY,
+      targetId: id,
+      before: existingAmenity,
+      after: updatedAmenity,
+    });
+
     logger.info(`Amenity updated: ${updatedAmenity.name} (${id})`);
 
     return AmenityMapper.toUpdateAmenityResponse(updatedAmenity);
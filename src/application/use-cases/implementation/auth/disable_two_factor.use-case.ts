@@ -0,0 +1,68 @@
+import { injectable, inject } from 'tsyringe';
+import { IDisableTwoFactorUseCase } from '../../interface/auth/disable_two_factor_use_case.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ITwoFactorAuthRepository } from '../../../../domain/repositories/two_factor_auth_repository.interface';
+import { ITwoFactorService } from '../../../../domain/services/two_factor_service.interface';
+import { TwoFactorCodeRequest, TwoFactorStatusResponse } from '../../../dtos/two_factor.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { isTwoFactorRequired } from '../../../../shared/utils/two_factor.util';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for turning two-factor authentication off
+ * Needs a current code so a stolen session alone cannot remove the second factor
+ */
+@injectable()
+export class DisableTwoFactorUseCase implements IDisableTwoFactorUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository,
+    @inject(SERVICE_TOKENS.ITwoFactorService)
+    private readonly twoFactorService: ITwoFactorService,
+  ) {}
+
+  async execute(userId: string, request: TwoFactorCodeRequest): Promise<TwoFactorStatusResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    if (!request || (!request.code && !request.recoveryCode)) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_REQUIRED, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError(ERROR_MESSAGES.USER_NOT_FOUND, ERROR_CODES.USER_NOT_FOUND, 404);
+    }
+
+    if (isTwoFactorRequired(user.role)) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_REQUIRED_FOR_ROLE, ERROR_CODES.TWO_FACTOR_REQUIRED, 403);
+    }
+
+    const twoFactorAuth = await this.twoFactorAuthRepository.findByUserId(userId);
+    if (!twoFactorAuth?.enabled) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_NOT_ENABLED, ERROR_CODES.TWO_FACTOR_NOT_ENABLED, 400);
+    }
+
+    const isValidCode = await this.twoFactorService.verifyCode(twoFactorAuth, request);
+    if (!isValidCode) {
+      logger.warn(`Invalid code disabling two-factor authentication for user: ${user.email}`);
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID, ERROR_CODES.AUTH_TWO_FACTOR_CODE_INVALID, 401);
+    }
+
+    await this.twoFactorAuthRepository.deleteById(twoFactorAuth.userId);
+
+    logger.info(`Two-factor authentication disabled for user: ${user.email}`);
+
+    return {
+      enabled: false,
+      required: false,
+      recoveryCodesRemaining: 0,
+    };
+  }
+}
@@ -0,0 +1,58 @@
+import { injectable, inject } from 'tsyringe';
+import { IEnableTwoFactorUseCase } from '../../interface/auth/enable_two_factor_use_case.interface';
+import { ITwoFactorAuthRepository } from '../../../../domain/repositories/two_factor_auth_repository.interface';
+import { EnableTwoFactorRequest, TwoFactorRecoveryCodesResponse } from '../../../dtos/two_factor.dto';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, HTTP_STATUS, TWO_FACTOR_CONFIG } from '../../../../shared/constants';
+import { generateRecoveryCodes, hashRecoveryCode } from '../../../../shared/utils/totp.util';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for confirming two-factor setup with the first code from the authenticator app
+ * Returns the recovery codes, which are only stored hashed and cannot be shown again
+ */
+@injectable()
+export class EnableTwoFactorUseCase implements IEnableTwoFactorUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository,
+  ) {}
+
+  async execute(userId: string, request: EnableTwoFactorRequest): Promise<TwoFactorRecoveryCodesResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    if (!request || !request.code) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_REQUIRED, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    const twoFactorAuth = await this.twoFactorAuthRepository.findByUserId(userId);
+    if (!twoFactorAuth) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_SETUP_NOT_STARTED, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    if (twoFactorAuth.enabled) {
+      throw new AppError(
+        ERROR_MESSAGES.TWO_FACTOR_ALREADY_ENABLED,
+        ERROR_CODES.TWO_FACTOR_ALREADY_ENABLED,
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    const step = twoFactorAuth.matchCode(request.code);
+    if (step === null) {
+      logger.warn(`Invalid code confirming two-factor setup for user: ${userId}`);
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID, ERROR_CODES.AUTH_TWO_FACTOR_CODE_INVALID, 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes(TWO_FACTOR_CONFIG.RECOVERY_CODE_COUNT);
+    await this.twoFactorAuthRepository.save(twoFactorAuth.enable(step, recoveryCodes.map(hashRecoveryCode)));
+
+    logger.info(`Two-factor authentication enabled for user: ${userId}`);
+
+    return { recoveryCodes };
+  }
+}
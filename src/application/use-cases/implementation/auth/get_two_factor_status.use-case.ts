@@ -0,0 +1,42 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetTwoFactorStatusUseCase } from '../../interface/auth/get_two_factor_status_use_case.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ITwoFactorAuthRepository } from '../../../../domain/repositories/two_factor_auth_repository.interface';
+import { TwoFactorStatusResponse } from '../../../dtos/two_factor.dto';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { isTwoFactorRequired } from '../../../../shared/utils/two_factor.util';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+@injectable()
+export class GetTwoFactorStatusUseCase implements IGetTwoFactorStatusUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository,
+  ) {}
+
+  async execute(userId: string): Promise<TwoFactorStatusResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError(ERROR_MESSAGES.USER_NOT_FOUND, ERROR_CODES.USER_NOT_FOUND, 404);
+    }
+
+    const twoFactorAuth = await this.twoFactorAuthRepository.findByUserId(userId);
+    // An unfinished setup counts as not enabled
+    const enabledAuth = twoFactorAuth?.enabled ? twoFactorAuth : null;
+
+    return {
+      enabled: enabledAuth !== null,
+      required: isTwoFactorRequired(user.role),
+      recoveryCodesRemaining: enabledAuth?.recoveryCodeHashes.length ?? 0,
+      enabledAt: enabledAuth?.enabledAt,
+    };
+  }
+}
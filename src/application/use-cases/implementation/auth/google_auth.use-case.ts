@@ -1,14 +1,16 @@
 import { injectable, inject } from 'tsyringe';
 import { v4 as uuidv4 } from 'uuid';
 import { IGoogleAuthUseCase } from '../../interface/auth/google_auth_use_case.interface';
+import { IStartTwoFactorChallengeUseCase } from '../../interface/auth/start_two_factor_challenge_use_case.interface';
 import { GoogleAuthRequest, GoogleAuthResponse } from '../../../dtos/user.dto';
+import { TwoFactorChallengeResponse } from '../../../dtos/two_factor.dto';
 import { IGoogleAuthService } from '../../../../domain/services/google_auth_service.interface';
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
-import { IJWTService } from '../../../../domain/services/jwt_service.interface';
+import { ISessionService, SessionClientInfo } from '../../../../domain/services/session_service.interface';
 import { User } from '../../../../domain/entities/user.entity';
 import { UserRole, UserStatus, ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
 import { UserMapper } from '../../../mapper/user.mapper';
-import { SERVICE_TOKENS, REPOSITORY_TOKENS } from '../../../di/tokens';
+import { SERVICE_TOKENS, REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 
@@ -19,11 +21,13 @@ export class GoogleAuthUseCase implements IGoogleAuthUseCase {
     private readonly googleAuthService: IGoogleAuthService,
     @inject(REPOSITORY_TOKENS.IUserRepository)
     private readonly userRepository: IUserRepository,
-    @inject(SERVICE_TOKENS.IJWTService)
-    private readonly jwtService: IJWTService,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
+    @inject(USE_CASE_TOKENS.StartTwoFactorChallengeUseCase)
+    private readonly startTwoFactorChallengeUseCase: IStartTwoFactorChallengeUseCase,
   ) {}
 
-  async execute(request: GoogleAuthRequest): Promise<GoogleAuthResponse> {
+  async execute(request: GoogleAuthRequest, client?: SessionClientInfo): Promise<GoogleAuthResponse | TwoFactorChallengeResponse> {
     // Input validation
     if (!request) {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
@@ -46,8 +50,14 @@ export class GoogleAuthUseCase implements IGoogleAuthUseCase {
         throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
       }
 
-      const payload = { userId: user.userId, email: user.email, role: user.role };
-      const { accessToken, refreshToken } = await this.jwtService.generateTokens(payload);
+      // Tokens are only issued once the second factor is verified
+      const twoFactorChallenge = await this.startTwoFactorChallengeUseCase.execute(user);
+      if (twoFactorChallenge) {
+        return twoFactorChallenge;
+      }
+
+      const payload = { userId: user.userId, email: user.email, role: user.role, permissions: user.getPermissions() };
+      const { accessToken, refreshToken } = await this.sessionService.startSession(payload, client);
 
       logger.info(`User logged in with Google: ${user.email}`);
       return UserMapper.toLoginResponse(user, accessToken, refreshToken);
@@ -80,8 +90,8 @@ export class GoogleAuthUseCase implements IGoogleAuthUseCase {
 
     await this.userRepository.createUser(user);
 
-    const payload = { userId: user.userId, email: user.email, role: user.role };
-    const { accessToken, refreshToken } = await this.jwtService.generateTokens(payload);
+    const payload = { userId: user.userId, email: user.email, role: user.role, permissions: user.getPermissions() };
+    const { accessToken, refreshToken } = await this.sessionService.startSession(payload, client);
 
     logger.info(`New user registered with Google: ${user.email}`);
 
@@ -0,0 +1,136 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { LoginUserUseCase } from './login_user.use-case';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { hashPassword } from '../../../../shared/utils/password.util';
+import { ERROR_CODES, HTTP_STATUS } from '../../../../shared/constants';
+import { EmailType } from '../../../../shared/types/email.types';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('LoginUserUseCase', () => {
+  let useCase: LoginUserUseCase;
+  let mockUserRepository: MockUserRepository;
+  let passwordHash: string;
+  let sendEmail: ReturnType<typeof vi.fn>;
+  let lockoutService: {
+    getLockout: ReturnType<typeof vi.fn>;
+    recordFailure: ReturnType<typeof vi.fn>;
+    recordSuccess: ReturnType<typeof vi.fn>;
+  };
+  let startTwoFactorChallenge: ReturnType<typeof vi.fn>;
+  let startSession: ReturnType<typeof vi.fn>;
+  let otpService: {
+    setOTP: ReturnType<typeof vi.fn>;
+    getResendCooldown: ReturnType<typeof vi.fn>;
+  };
+
+  const lockedUntil = new Date('2030-01-01T10:15:00Z');
+  const login = (password = 'correct-password') => useCase.execute({ email: 'customer@example.com', password });
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword('correct-password');
+  });
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockUserRepository = new MockUserRepository();
+    mockUserRepository.findByEmail.mockResolvedValue(
+      createUserFixture({ userId: 'user-1', email: 'customer@example.com', fullName: 'Casey Customer' })
+    );
+    mockUserRepository.getPasswordHash.mockResolvedValue(passwordHash);
+    sendEmail = vi.fn().mockResolvedValue(undefined);
+    lockoutService = {
+      getLockout: vi.fn().mockResolvedValue(null),
+      recordFailure: vi.fn().mockResolvedValue(null),
+      recordSuccess: vi.fn().mockResolvedValue(undefined),
+    };
+    startTwoFactorChallenge = vi.fn().mockResolvedValue(null);
+    startSession = vi.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+    otpService = {
+      setOTP: vi.fn().mockResolvedValue(undefined),
+      getResendCooldown: vi.fn().mockResolvedValue(0),
+    };
+
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(SERVICE_TOKENS.ISessionService, { startSession });
+    container.registerInstance(SERVICE_TOKENS.IOTPService, otpService);
+    container.registerInstance(SERVICE_TOKENS.IEmailService, { sendEmail });
+    container.registerInstance(SERVICE_TOKENS.IAccountLockoutService, lockoutService);
+    container.registerInstance(USE_CASE_TOKENS.StartTwoFactorChallengeUseCase, { execute: startTwoFactorChallenge });
+
+    useCase = container.resolve(LoginUserUseCase);
+  });
+
+  it('should reject a locked account before checking the password', async () => {
+    lockoutService.getLockout.mockResolvedValue({ lockedUntil, level: 1 });
+
+    await expect(login()).rejects.toMatchObject({
+      errorCode: ERROR_CODES.AUTH_ACCOUNT_LOCKED,
+      statusCode: HTTP_STATUS.TOO_MANY_REQUESTS,
+    });
+    expect(mockUserRepository.getPasswordHash).not.toHaveBeenCalled();
+  });
+
+  it('should email the owner when a wrong password locks the account', async () => {
+    lockoutService.recordFailure.mockResolvedValue({ lockedUntil, level: 1 });
+
+    await expect(login('wrong-password')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.AUTH_ACCOUNT_LOCKED,
+      statusCode: HTTP_STATUS.TOO_MANY_REQUESTS,
+    });
+    expect(sendEmail).toHaveBeenCalledWith(EmailType.ACCOUNT_LOCKED, {
+      email: 'customer@example.com',
+      fullName: 'Casey Customer',
+      lockedUntil,
+    });
+  });
+
+  it('should count failures for unknown emails without sending email', async () => {
+    mockUserRepository.findByEmail.mockResolvedValue(null);
+    lockoutService.recordFailure.mockResolvedValue({ lockedUntil, level: 1 });
+
+    await expect(login()).rejects.toMatchObject({ errorCode: ERROR_CODES.AUTH_ACCOUNT_LOCKED });
+    expect(lockoutService.recordFailure).toHaveBeenCalledWith('user', 'customer@example.com');
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should clear failed logins after a successful login', async () => {
+    await login();
+
+    expect(lockoutService.recordSuccess).toHaveBeenCalledWith('user', 'customer@example.com');
+    expect(lockoutService.recordFailure).not.toHaveBeenCalled();
+  });
+
+  it('should return a two-factor challenge instead of tokens when the user has it enabled', async () => {
+    const challenge = { twoFactorRequired: true, challengeToken: 'challenge-token', expiresIn: 300 };
+    startTwoFactorChallenge.mockResolvedValue(challenge);
+
+    await expect(login()).resolves.toEqual(challenge);
+    expect(startSession).not.toHaveBeenCalled();
+    // Failed logins are only cleared once the second factor is verified
+    expect(lockoutService.recordSuccess).not.toHaveBeenCalled();
+  });
+
+  it('should not send another code to an unverified user during the resend cooldown', async () => {
+    mockUserRepository.findByEmail.mockResolvedValue(
+      createUserFixture({ userId: 'user-1', email: 'customer@example.com', isEmailVerified: false })
+    );
+    otpService.getResendCooldown.mockResolvedValue(42);
+
+    await expect(login()).rejects.toMatchObject({ statusCode: 403 });
+    expect(otpService.setOTP).not.toHaveBeenCalled();
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+});
@@ -1,17 +1,21 @@
 import { injectable, inject } from 'tsyringe';
-import { IJWTService } from '../../../../domain/services/jwt_service.interface';
+import { ISessionService, SessionClientInfo } from '../../../../domain/services/session_service.interface';
+import { User } from '../../../../domain/entities/user.entity';
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
 import { IOTPService } from '../../../../domain/services/otp_service.interface';
 import { LoginUserRequest, LoginUserResponse } from '../../../dtos/user.dto';
+import { TwoFactorChallengeResponse } from '../../../dtos/two_factor.dto';
 import { comparePassword } from '../../../../shared/utils/password.util';
 import { UserMapper } from '../../../mapper/user.mapper';
-import { SERVICE_TOKENS, REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES, OTP_CONFIG } from '../../../../shared/constants';
+import { SERVICE_TOKENS, REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, OTP_CONFIG, HTTP_STATUS } from '../../../../shared/constants';
 import { generateOTP } from '../../../../shared/utils/otp.util';
 import { IEmailService } from '../../../../domain/services/email_service.interface';
-import { EmailType, OTPEmailData } from '../../../../shared/types/email.types';
+import { AccountLockedEmailData, EmailType, OTPEmailData } from '../../../../shared/types/email.types';
+import { IAccountLockoutService } from '../../../../domain/services/account_lockout_service.interface';
 import { logger } from '../../../../shared/logger';
 import { ILoginUserUseCase } from '../../interface/auth/login_user_use_case.interface';
+import { IStartTwoFactorChallengeUseCase } from '../../interface/auth/start_two_factor_challenge_use_case.interface';
 import { AppError } from '../../../../shared/utils/app_error.util';
 
 @injectable()
@@ -19,15 +23,19 @@ export class LoginUserUseCase implements ILoginUserUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IUserRepository)
     private readonly userRepository: IUserRepository,
-    @inject(SERVICE_TOKENS.IJWTService)
-    private readonly jwtService: IJWTService,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
     @inject(SERVICE_TOKENS.IOTPService)
     private readonly otpService: IOTPService,
     @inject(SERVICE_TOKENS.IEmailService)
     private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IAccountLockoutService)
+    private readonly accountLockoutService: IAccountLockoutService,
+    @inject(USE_CASE_TOKENS.StartTwoFactorChallengeUseCase)
+    private readonly startTwoFactorChallengeUseCase: IStartTwoFactorChallengeUseCase,
   ) {}
 
-  async execute(request: LoginUserRequest): Promise<LoginUserResponse> {
+  async execute(request: LoginUserRequest, client?: SessionClientInfo): Promise<LoginUserResponse | TwoFactorChallengeResponse> {
     // Input validation
     if (!request) {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
@@ -41,24 +49,34 @@ export class LoginUserUseCase implements ILoginUserUseCase {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_PASSWORD, 400);
     }
 
+    // Checked before the lookup so unknown emails are locked the same way as real accounts
+    if (await this.accountLockoutService.getLockout('user', request.email)) {
+      logger.warn(`Login attempt on locked account: ${request.email}`);
+      throw new AppError(ERROR_MESSAGES.ACCOUNT_LOCKED, ERROR_CODES.AUTH_ACCOUNT_LOCKED, HTTP_STATUS.TOO_MANY_REQUESTS);
+    }
+
     const user = await this.userRepository.findByEmail(request.email);
     if (!user) {
       logger.warn(`Login attempt with non-existent email: ${request.email}`);
+      await this.recordFailedLogin(request.email);
       throw new AppError(ERROR_MESSAGES.INVALID_CREDENTIALS, ERROR_CODES.USER_NOT_FOUND, 401);
     }
 
     if (!user.isVerified) {
-      const otp = generateOTP();
-      await this.otpService.setOTP(request.email, otp);
-      
-      const emailData: OTPEmailData = {
-        email: request.email,
-        otp,
-        fullName: user.fullName,
-        expiryMinutes: OTP_CONFIG.EXPIRY_TIME / 60000,
-      };
-      await this.emailService.sendEmail(EmailType.OTP, emailData);
-      
+      // Only send a new code once the previous one's resend cooldown has passed
+      if ((await this.otpService.getResendCooldown(request.email)) === 0) {
+        const otp = generateOTP();
+        await this.otpService.setOTP(request.email, otp);
+
+        const emailData: OTPEmailData = {
+          email: request.email,
+          otp,
+          fullName: user.fullName,
+          expiryMinutes: OTP_CONFIG.EXPIRY_TIME / 60000,
+        };
+        await this.emailService.sendEmail(EmailType.OTP, emailData);
+      }
+
       logger.warn(`Login attempt by unverified user: ${user.email}`);
       throw new AppError(ERROR_MESSAGES.ACCOUNT_NOT_VERIFIED, ERROR_CODES.AUTH_ACCOUNT_BLOCKED, 403);
     }
@@ -72,15 +90,45 @@ export class LoginUserUseCase implements ILoginUserUseCase {
     const isValidPassword = await comparePassword(request.password, passwordHash);
     if (!isValidPassword) {
       logger.warn(`Invalid password attempt for user: ${user.email}`);
+      await this.recordFailedLogin(request.email, user);
       throw new AppError(ERROR_MESSAGES.INVALID_CREDENTIALS, ERROR_CODES.INVALID_PASSWORD, 401);
     }
 
-    const payload = { userId: user.userId, email: user.email, role: user.role };
-    const { accessToken, refreshToken } = await this.jwtService.generateTokens(payload);
+    // Tokens are only issued once the second factor is verified; failed logins are cleared then too,
+    // so logging in again for a fresh challenge doesn't reset the lockout count of wrong codes
+    const twoFactorChallenge = await this.startTwoFactorChallengeUseCase.execute(user);
+    if (twoFactorChallenge) {
+      return twoFactorChallenge;
+    }
+
+    await this.accountLockoutService.recordSuccess('user', request.email);
+
+    const payload = { userId: user.userId, email: user.email, role: user.role, permissions: user.getPermissions() };
+    const { accessToken, refreshToken } = await this.sessionService.startSession(payload, client);
 
     logger.info(`User logged in successfully: ${user.email}`);
 
     return UserMapper.toLoginResponse(user, accessToken, refreshToken);
   }
-}
 
+  /**
+   * Counts a failed login and, when it locks the account, notifies the owner if there is one
+   */
+  private async recordFailedLogin(email: string, user?: User): Promise<void> {
+    const lockout = await this.accountLockoutService.recordFailure('user', email);
+    if (!lockout) {
+      return;
+    }
+
+    if (user) {
+      try {
+        const emailData: AccountLockedEmailData = { email: user.email, fullName: user.fullName, lockedUntil: lockout.lockedUntil };
+        await this.emailService.sendEmail(EmailType.ACCOUNT_LOCKED, emailData);
+      } catch (error) {
+        logger.error(`Error sending account locked email to ${email}:`, error);
+      }
+    }
+
+    throw new AppError(ERROR_MESSAGES.ACCOUNT_LOCKED, ERROR_CODES.AUTH_ACCOUNT_LOCKED, HTTP_STATUS.TOO_MANY_REQUESTS);
+  }
+}
@@ -2,17 +2,23 @@ import { injectable, inject } from 'tsyringe';
 import { ILogoutUserUseCase } from '../../interface/auth/logout_user_use_case.interface';
 import { LogoutUserRequest, LogoutUserResponse } from '../../../dtos/user.dto';
 import { IJWTService } from '../../../../domain/services/jwt_service.interface';
-import { SERVICE_TOKENS } from '../../../di/tokens';
+import { ISessionService } from '../../../../domain/services/session_service.interface';
+import { ISessionRepository } from '../../../../domain/repositories/session_repository.interface';
+import { SERVICE_TOKENS, REPOSITORY_TOKENS } from '../../../di/tokens';
 import { logger } from '../../../../shared/logger';
 import { UserMapper } from '../../../mapper/user.mapper';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, SessionRevokeReason } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
 
 @injectable()
 export class LogoutUserUseCase implements ILogoutUserUseCase {
   constructor(
     @inject(SERVICE_TOKENS.IJWTService)
-    private readonly jwtService: IJWTService
+    private readonly jwtService: IJWTService,
+    @inject(REPOSITORY_TOKENS.ISessionRepository)
+    private readonly sessionRepository: ISessionRepository,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService
   ) {}
 
   async execute(request: LogoutUserRequest): Promise<LogoutUserResponse> {
@@ -31,6 +37,18 @@ export class LogoutUserUseCase implements ILogoutUserUseCase {
       }
     }
 
+    if (request.sessionId) {
+      try {
+        const session = await this.sessionRepository.findById(request.sessionId);
+        if (session?.isActive()) {
+          await this.sessionService.revokeSession(session, SessionRevokeReason.LOGOUT);
+          logger.info(`Session ${session.sessionId} ended during logout`);
+        }
+      } catch (error) {
+        logger.warn(`Failed to end session ${request.sessionId} during logout, proceeding anyway:`, error);
+      }
+    }
+
     return UserMapper.toLogoutResponse();
   }
 }
@@ -0,0 +1,133 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { RefreshTokenUseCase } from './refresh_token.use-case';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { Session } from '../../../../domain/entities/session.entity';
+import { ERROR_CODES, SessionRevokeReason } from '../../../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('RefreshTokenUseCase', () => {
+  let useCase: RefreshTokenUseCase;
+  let mockUserRepository: MockUserRepository;
+  let jwtService: {
+    verifyRefreshToken: ReturnType<typeof vi.fn>;
+    revokeRefreshToken: ReturnType<typeof vi.fn>;
+  };
+  let sessionRepository: { findById: ReturnType<typeof vi.fn> };
+  let sessionService: {
+    startSession: ReturnType<typeof vi.fn>;
+    rotateSession: ReturnType<typeof vi.fn>;
+    revokeSession: ReturnType<typeof vi.fn>;
+  };
+
+  const rotatedTokens = { accessToken: 'new-access', refreshToken: 'new-refresh' };
+  const createSession = (refreshTokenId: string): Session => {
+    const now = new Date();
+    return new Session(
+      'session-1',
+      'user-1',
+      'user',
+      refreshTokenId,
+      'Chrome on Windows',
+      '203.0.113.7',
+      null,
+      now,
+      now,
+      new Date(now.getTime() + 60 * 60 * 1000)
+    );
+  };
+  const refresh = () => useCase.execute({ refreshToken: 'refresh-token' }, { ipAddress: '203.0.113.8' });
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockUserRepository = new MockUserRepository();
+    mockUserRepository.findById.mockResolvedValue(createUserFixture({ userId: 'user-1', email: 'customer@example.com' }));
+    jwtService = {
+      verifyRefreshToken: vi.fn().mockResolvedValue({
+        userId: 'user-1',
+        email: 'customer@example.com',
+        role: 'user',
+        sessionId: 'session-1',
+        tokenId: 'token-1',
+      }),
+      revokeRefreshToken: vi.fn().mockResolvedValue(undefined),
+    };
+    sessionRepository = { findById: vi.fn().mockResolvedValue(createSession('token-1')) };
+    sessionService = {
+      startSession: vi.fn().mockResolvedValue(rotatedTokens),
+      rotateSession: vi.fn().mockResolvedValue(rotatedTokens),
+      revokeSession: vi.fn().mockResolvedValue(undefined),
+    };
+
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IDriverRepository, { findById: vi.fn() });
+    container.registerInstance(REPOSITORY_TOKENS.ISessionRepository, sessionRepository);
+    container.registerInstance(SERVICE_TOKENS.IJWTService, jwtService);
+    container.registerInstance(SERVICE_TOKENS.ISessionService, sessionService);
+
+    useCase = container.resolve(RefreshTokenUseCase);
+  });
+
+  it('should rotate the refresh token of the session', async () => {
+    await expect(refresh()).resolves.toEqual(rotatedTokens);
+
+    expect(sessionService.rotateSession).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'session-1' }),
+      'token-1',
+      expect.objectContaining({ userId: 'user-1', role: 'user' }),
+      { ipAddress: '203.0.113.8' }
+    );
+    expect(sessionService.revokeSession).not.toHaveBeenCalled();
+  });
+
+  it('should revoke the session when an already rotated refresh token is used again', async () => {
+    sessionRepository.findById.mockResolvedValue(createSession('token-2'));
+
+    await expect(refresh()).rejects.toMatchObject({ errorCode: ERROR_CODES.AUTH_SESSION_REVOKED, statusCode: 401 });
+    expect(sessionService.rotateSession).not.toHaveBeenCalled();
+    expect(sessionService.revokeSession).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'session-1' }),
+      SessionRevokeReason.TOKEN_REUSE
+    );
+  });
+
+  it('should revoke the session when another request rotated the same token first', async () => {
+    sessionService.rotateSession.mockResolvedValue(null);
+
+    await expect(refresh()).rejects.toMatchObject({ errorCode: ERROR_CODES.AUTH_SESSION_REVOKED });
+    expect(sessionService.revokeSession).toHaveBeenCalledWith(
+      expect.objectContaining({ sessionId: 'session-1' }),
+      SessionRevokeReason.TOKEN_REUSE
+    );
+  });
+
+  it('should reject refresh tokens of ended sessions', async () => {
+    sessionRepository.findById.mockResolvedValue(null);
+
+    await expect(refresh()).rejects.toMatchObject({ errorCode: ERROR_CODES.AUTH_SESSION_REVOKED });
+    expect(sessionService.rotateSession).not.toHaveBeenCalled();
+  });
+
+  it('should start a session for refresh tokens issued before sessions were tracked', async () => {
+    jwtService.verifyRefreshToken.mockResolvedValue({ userId: 'user-1', email: 'customer@example.com', role: 'user' });
+
+    await expect(refresh()).resolves.toEqual(rotatedTokens);
+    expect(jwtService.revokeRefreshToken).toHaveBeenCalledWith('refresh-token');
+    expect(sessionService.startSession).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-1' }),
+      { ipAddress: '203.0.113.8' }
+    );
+  });
+});
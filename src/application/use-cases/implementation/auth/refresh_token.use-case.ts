@@ -1,14 +1,21 @@
 import { injectable, inject } from 'tsyringe';
 import { IRefreshTokenUseCase } from '../../interface/auth/refresh_token_use_case.interface';
 import { RefreshTokenRequest, RefreshTokenResponse } from '../../../dtos/user.dto';
-import { IJWTService } from '../../../../domain/services/jwt_service.interface';
+import { IJWTService, JWTPayload, RefreshTokenPayload } from '../../../../domain/services/jwt_service.interface';
+import { ISessionService, SessionClientInfo } from '../../../../domain/services/session_service.interface';
+import { ISessionRepository } from '../../../../domain/repositories/session_repository.interface';
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
 import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
 import { SERVICE_TOKENS, REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, SessionRevokeReason } from '../../../../shared/constants';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 
+/**
+ * Use case for exchanging a refresh token for new tokens
+ * Every refresh rotates the refresh token; presenting one that was already exchanged means
+ * it was copied, so the whole session is revoked
+ */
 @injectable()
 export class RefreshTokenUseCase implements IRefreshTokenUseCase {
   constructor(
@@ -18,9 +25,13 @@ export class RefreshTokenUseCase implements IRefreshTokenUseCase {
     private readonly userRepository: IUserRepository,
     @inject(REPOSITORY_TOKENS.IDriverRepository)
     private readonly driverRepository: IDriverRepository,
+    @inject(REPOSITORY_TOKENS.ISessionRepository)
+    private readonly sessionRepository: ISessionRepository,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
   ) {}
 
-  async execute(request: RefreshTokenRequest): Promise<RefreshTokenResponse> {
+  async execute(request: RefreshTokenRequest, client?: SessionClientInfo): Promise<RefreshTokenResponse> {
     // Input validation
     if (!request) {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
@@ -30,8 +41,8 @@ export class RefreshTokenUseCase implements IRefreshTokenUseCase {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_TOKEN, 400);
     }
 
-    // Verify refresh token (checks blacklist, signature, expiry)
-    let payload;
+    // Verify refresh token (checks blacklist, revoked session, signature, expiry)
+    let payload: RefreshTokenPayload;
     try {
       payload = await this.jwtService.verifyRefreshToken(request.refreshToken);
     } catch (error) {
@@ -45,7 +56,8 @@ export class RefreshTokenUseCase implements IRefreshTokenUseCase {
 
     // Check role and use appropriate repository
     const isDriver = payload.role === 'driver';
-    
+    let claims: Pick<JWTPayload, 'role' | 'permissions'> = { role: payload.role };
+
     if (isDriver) {
       // Check if driver is still active/not blocked
       const driver = await this.driverRepository.findById(payload.userId);
@@ -60,18 +72,54 @@ export class RefreshTokenUseCase implements IRefreshTokenUseCase {
         logger.warn(`Refresh token request for inactive/blocked user: ${payload.userId}`);
         throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
       }
+      // Pick up role changes made since login
+      claims = { role: user.role, permissions: user.getPermissions() };
+    }
+
+    const nextPayload: JWTPayload = { userId: payload.userId, email: payload.email, ...claims };
+
+    // Tokens issued before sessions were tracked start a session on their first refresh
+    if (!payload.sessionId || !payload.tokenId) {
+      await this.jwtService.revokeRefreshToken(request.refreshToken);
+      logger.info(`Started session for pre-session refresh token of ${payload.role || 'user'}: ${payload.userId}`);
+      return await this.sessionService.startSession(nextPayload, client);
     }
 
-    // Generate new access token
-    const accessToken = await this.jwtService.refreshAccessToken(request.refreshToken);
+    const tokens = await this.rotateSession(payload.sessionId, payload.tokenId, payload.userId, nextPayload, client);
+
+    logger.info(`Tokens rotated successfully for ${payload.role || 'user'}: ${payload.userId}`);
 
-    logger.info(`Access token refreshed successfully for ${payload.role || 'user'}: ${payload.userId}`);
+    return tokens;
+  }
+
+  /**
+   * Exchanges the session's current refresh token for new tokens
+   * A token that is no longer the current one was already exchanged, so the session is revoked as compromised
+   */
+  private async rotateSession(
+    sessionId: string,
+    tokenId: string,
+    userId: string,
+    payload: JWTPayload,
+    client?: SessionClientInfo
+  ): Promise<RefreshTokenResponse> {
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.userId !== userId || !session.isActive()) {
+      logger.warn(`Refresh token request for ended session ${sessionId} of: ${userId}`);
+      throw new AppError(ERROR_MESSAGES.SESSION_REVOKED, ERROR_CODES.AUTH_SESSION_REVOKED, 401);
+    }
+
+    const tokens = session.refreshTokenId === tokenId
+      ? await this.sessionService.rotateSession(session, tokenId, payload, client)
+      : null;
+
+    if (!tokens) {
+      await this.sessionService.revokeSession(session, SessionRevokeReason.TOKEN_REUSE);
+      logger.warn(`Reused refresh token detected, revoked session ${sessionId} of: ${userId}`);
+      throw new AppError(ERROR_MESSAGES.SESSION_REVOKED, ERROR_CODES.AUTH_SESSION_REVOKED, 401);
+    }
 
-    // Return both access token and refresh token (refresh token remains the same)
-    return {
-      accessToken,
-      refreshToken: request.refreshToken, // Return the same refresh token
-    };
+    return tokens;
   }
 }
 
@@ -0,0 +1,55 @@
+import { injectable, inject } from 'tsyringe';
+import { IRegenerateRecoveryCodesUseCase } from '../../interface/auth/regenerate_recovery_codes_use_case.interface';
+import { ITwoFactorAuthRepository } from '../../../../domain/repositories/two_factor_auth_repository.interface';
+import { ITwoFactorService } from '../../../../domain/services/two_factor_service.interface';
+import { TwoFactorCodeRequest, TwoFactorRecoveryCodesResponse } from '../../../dtos/two_factor.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, TWO_FACTOR_CONFIG } from '../../../../shared/constants';
+import { generateRecoveryCodes, hashRecoveryCode } from '../../../../shared/utils/totp.util';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for replacing all recovery codes
+ * The previous codes stop working, including any that were not used yet
+ */
+@injectable()
+export class RegenerateRecoveryCodesUseCase implements IRegenerateRecoveryCodesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository,
+    @inject(SERVICE_TOKENS.ITwoFactorService)
+    private readonly twoFactorService: ITwoFactorService,
+  ) {}
+
+  async execute(userId: string, request: TwoFactorCodeRequest): Promise<TwoFactorRecoveryCodesResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    if (!request || (!request.code && !request.recoveryCode)) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_REQUIRED, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    const twoFactorAuth = await this.twoFactorAuthRepository.findByUserId(userId);
+    if (!twoFactorAuth?.enabled) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_NOT_ENABLED, ERROR_CODES.TWO_FACTOR_NOT_ENABLED, 400);
+    }
+
+    const isValidCode = await this.twoFactorService.verifyCode(twoFactorAuth, request);
+    if (!isValidCode) {
+      logger.warn(`Invalid code regenerating recovery codes for user: ${userId}`);
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID, ERROR_CODES.AUTH_TWO_FACTOR_CODE_INVALID, 401);
+    }
+
+    // Reload so a recovery code consumed by the check above is not written back
+    const current = (await this.twoFactorAuthRepository.findByUserId(userId)) ?? twoFactorAuth;
+    const recoveryCodes = generateRecoveryCodes(TWO_FACTOR_CONFIG.RECOVERY_CODE_COUNT);
+    await this.twoFactorAuthRepository.save(current.withRecoveryCodes(recoveryCodes.map(hashRecoveryCode)));
+
+    logger.info(`Recovery codes regenerated for user: ${userId}`);
+
+    return { recoveryCodes };
+  }
+}
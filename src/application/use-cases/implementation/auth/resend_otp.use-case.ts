@@ -4,7 +4,7 @@ import { IUserRepository } from '../../../../domain/repositories/user_repository
 import { ResendOtpRequest, ResendOtpResponse } from '../../../dtos/user.dto';
 import { generateOTP } from '../../../../shared/utils/otp.util';
 import { SERVICE_TOKENS, REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES, OTP_CONFIG } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, OTP_CONFIG, HTTP_STATUS } from '../../../../shared/constants';
 import { UserMapper } from '../../../mapper/user.mapper';
 import { IEmailService } from '../../../../domain/services/email_service.interface';
 import { EmailType, OTPEmailData } from '../../../../shared/types/email.types';
@@ -40,9 +40,13 @@ export class ResendOtpUseCase implements IResendOtpUseCase {
       return UserMapper.toVerifyOtpResponse(user);
     }
 
+    if ((await this.otpService.getResendCooldown(request.email)) > 0) {
+      throw new AppError(ERROR_MESSAGES.OTP_RESEND_COOLDOWN, ERROR_CODES.AUTH_OTP_RESEND_COOLDOWN, HTTP_STATUS.TOO_MANY_REQUESTS);
+    }
+
     const otp = generateOTP();
     await this.otpService.setOTP(request.email, otp);
-    
+
     const emailData: OTPEmailData = {
       email: request.email,
       otp,
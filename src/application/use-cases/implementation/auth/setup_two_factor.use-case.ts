@@ -0,0 +1,58 @@
+import { injectable, inject } from 'tsyringe';
+import { ISetupTwoFactorUseCase } from '../../interface/auth/setup_two_factor_use_case.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ITwoFactorAuthRepository } from '../../../../domain/repositories/two_factor_auth_repository.interface';
+import { TwoFactorAuth } from '../../../../domain/entities/two_factor_auth.entity';
+import { TwoFactorSetupResponse } from '../../../dtos/two_factor.dto';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, HTTP_STATUS } from '../../../../shared/constants';
+import { TWO_FACTOR_AUTH_CONFIG } from '../../../../shared/config';
+import { buildOtpauthUri, generateTotpSecret } from '../../../../shared/utils/totp.util';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for starting two-factor enrollment
+ * Creates a new secret that stays inactive until a code from it is confirmed
+ * Starting again replaces a previous unfinished setup
+ */
+@injectable()
+export class SetupTwoFactorUseCase implements ISetupTwoFactorUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository,
+  ) {}
+
+  async execute(userId: string): Promise<TwoFactorSetupResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      throw new AppError(ERROR_MESSAGES.USER_NOT_FOUND, ERROR_CODES.USER_NOT_FOUND, 404);
+    }
+
+    const existing = await this.twoFactorAuthRepository.findByUserId(userId);
+    if (existing?.enabled) {
+      throw new AppError(
+        ERROR_MESSAGES.TWO_FACTOR_ALREADY_ENABLED,
+        ERROR_CODES.TWO_FACTOR_ALREADY_ENABLED,
+        HTTP_STATUS.CONFLICT
+      );
+    }
+
+    const pending = TwoFactorAuth.createPending(userId, generateTotpSecret());
+    await this.twoFactorAuthRepository.save(pending);
+
+    logger.info(`Two-factor setup started for user: ${user.email}`);
+
+    return {
+      secret: pending.secret,
+      otpauthUri: buildOtpauthUri(pending.secret, user.email, TWO_FACTOR_AUTH_CONFIG.ISSUER),
+    };
+  }
+}
@@ -0,0 +1,62 @@
+import { injectable, inject } from 'tsyringe';
+import { IStartTwoFactorChallengeUseCase } from '../../interface/auth/start_two_factor_challenge_use_case.interface';
+import { ITwoFactorAuthRepository } from '../../../../domain/repositories/two_factor_auth_repository.interface';
+import { ITwoFactorService } from '../../../../domain/services/two_factor_service.interface';
+import { TwoFactorAuth } from '../../../../domain/entities/two_factor_auth.entity';
+import { User } from '../../../../domain/entities/user.entity';
+import { TwoFactorChallengeResponse } from '../../../dtos/two_factor.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { TWO_FACTOR_CONFIG } from '../../../../shared/constants';
+import { TWO_FACTOR_AUTH_CONFIG } from '../../../../shared/config';
+import { buildOtpauthUri, generateTotpSecret } from '../../../../shared/utils/totp.util';
+import { isTwoFactorRequired } from '../../../../shared/utils/two_factor.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for starting the second login step
+ * Called once the first factor (password or Google) was accepted, before any tokens are issued
+ * Users whose role requires two-factor authentication but who never enrolled set it up as part of the challenge
+ */
+@injectable()
+export class StartTwoFactorChallengeUseCase implements IStartTwoFactorChallengeUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository,
+    @inject(SERVICE_TOKENS.ITwoFactorService)
+    private readonly twoFactorService: ITwoFactorService,
+  ) {}
+
+  async execute(user: User): Promise<TwoFactorChallengeResponse | null> {
+    const twoFactorAuth = await this.twoFactorAuthRepository.findByUserId(user.userId);
+
+    if (twoFactorAuth?.enabled) {
+      const challengeToken = await this.twoFactorService.createChallenge(user.userId, 'verify');
+      logger.info(`Two-factor challenge issued for user: ${user.email}`);
+      return {
+        twoFactorRequired: true,
+        challengeToken,
+        expiresIn: TWO_FACTOR_CONFIG.CHALLENGE_EXPIRY_SECONDS,
+      };
+    }
+
+    if (!isTwoFactorRequired(user.role)) {
+      return null;
+    }
+
+    const pending = TwoFactorAuth.createPending(user.userId, generateTotpSecret());
+    await this.twoFactorAuthRepository.save(pending);
+    const challengeToken = await this.twoFactorService.createChallenge(user.userId, 'enroll');
+
+    logger.info(`Two-factor enrollment required before login for user: ${user.email}`);
+
+    return {
+      twoFactorRequired: true,
+      challengeToken,
+      expiresIn: TWO_FACTOR_CONFIG.CHALLENGE_EXPIRY_SECONDS,
+      setup: {
+        secret: pending.secret,
+        otpauthUri: buildOtpauthUri(pending.secret, user.email, TWO_FACTOR_AUTH_CONFIG.ISSUER),
+      },
+    };
+  }
+}
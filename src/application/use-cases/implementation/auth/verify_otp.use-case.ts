@@ -4,7 +4,7 @@ import { IUserRepository } from '../../../../domain/repositories/user_repository
 import { VerifyOtpRequest, VerifyOtpResponse } from '../../../dtos/user.dto';
 import { UserMapper } from '../../../mapper/user.mapper';
 import { SERVICE_TOKENS, REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, HTTP_STATUS, OTP_CONFIG } from '../../../../shared/constants';
 import { logger } from '../../../../shared/logger';
 import { IVerifyOtpUseCase } from '../../interface/auth/verify_otp_use_case.interface';
 import { AppError } from '../../../../shared/utils/app_error.util';
@@ -40,7 +40,18 @@ export class VerifyOtpUseCase implements IVerifyOtpUseCase {
     }
 
     const stored = await this.otpService.getOTP(request.email);
-    if (!stored || stored !== request.otp) {
+    if (!stored) {
+      throw new AppError(ERROR_MESSAGES.OTP_INVALID_OR_EXPIRED, ERROR_CODES.AUTH_INVALID_OTP, 400);
+    }
+
+    if (stored !== request.otp) {
+      // Too many wrong guesses burn the code so it cannot be brute forced
+      const attempts = await this.otpService.recordFailedAttempt(request.email);
+      if (attempts >= OTP_CONFIG.MAX_VERIFY_ATTEMPTS) {
+        await this.otpService.deleteOTP(request.email);
+        logger.warn(`Too many incorrect OTP attempts for user: ${user.email}`);
+        throw new AppError(ERROR_MESSAGES.OTP_TOO_MANY_ATTEMPTS, ERROR_CODES.AUTH_OTP_TOO_MANY_ATTEMPTS, HTTP_STATUS.TOO_MANY_REQUESTS);
+      }
       throw new AppError(ERROR_MESSAGES.OTP_INVALID_OR_EXPIRED, ERROR_CODES.AUTH_INVALID_OTP, 400);
     }
 
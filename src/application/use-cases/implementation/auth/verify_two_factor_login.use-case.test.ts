@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeAll, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { VerifyTwoFactorLoginUseCase } from './verify_two_factor_login.use-case';
+import { LoginUserUseCase } from './login_user.use-case';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { hashPassword } from '../../../../shared/utils/password.util';
+import { TwoFactorAuth } from '../../../../domain/entities/two_factor_auth.entity';
+import { IAccountLockout } from '../../../../domain/services/account_lockout_service.interface';
+import { ITwoFactorChallenge } from '../../../../domain/services/two_factor_service.interface';
+import { TwoFactorChallengeResponse } from '../../../dtos/two_factor.dto';
+import { ERROR_CODES, HTTP_STATUS } from '../../../../shared/constants';
+import { EmailType } from '../../../../shared/types/email.types';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const MAX_FAILURES = 5;
+
+describe('VerifyTwoFactorLoginUseCase', () => {
+  let useCase: VerifyTwoFactorLoginUseCase;
+  let loginUseCase: LoginUserUseCase;
+  let mockUserRepository: MockUserRepository;
+  let passwordHash: string;
+  let challenges: Map<string, ITwoFactorChallenge & { attempts: number }>;
+  let failures: number;
+  let lockout: IAccountLockout | null;
+  let verifyCode: ReturnType<typeof vi.fn>;
+  let sendEmail: ReturnType<typeof vi.fn>;
+  let startSession: ReturnType<typeof vi.fn>;
+  let lockoutService: {
+    getLockout: ReturnType<typeof vi.fn>;
+    recordFailure: ReturnType<typeof vi.fn>;
+    recordSuccess: ReturnType<typeof vi.fn>;
+  };
+
+  const user = createUserFixture({ userId: 'user-1', email: 'customer@example.com', fullName: 'Casey Customer' });
+  const login = () =>
+    loginUseCase.execute({ email: 'customer@example.com', password: 'correct-password' }) as Promise<TwoFactorChallengeResponse>;
+  const verify = (challengeToken: string, code = '123456') => useCase.execute({ challengeToken, code });
+
+  beforeAll(async () => {
+    passwordHash = await hashPassword('correct-password');
+  });
+
+  beforeEach(() => {
+    clearContainer();
+
+    challenges = new Map();
+    failures = 0;
+    lockout = null;
+
+    mockUserRepository = new MockUserRepository();
+    mockUserRepository.findByEmail.mockResolvedValue(user);
+    mockUserRepository.findById.mockResolvedValue(user);
+    mockUserRepository.getPasswordHash.mockResolvedValue(passwordHash);
+    verifyCode = vi.fn().mockResolvedValue(false);
+    sendEmail = vi.fn().mockResolvedValue(undefined);
+    startSession = vi.fn().mockResolvedValue({ accessToken: 'access', refreshToken: 'refresh' });
+
+    // Counts failures per account like the real lockout service, locking at the limit
+    lockoutService = {
+      getLockout: vi.fn().mockImplementation(() => Promise.resolve(lockout)),
+      recordFailure: vi.fn().mockImplementation(() => {
+        failures++;
+        if (failures >= MAX_FAILURES) {
+          failures = 0;
+          lockout = { lockedUntil: new Date('2030-01-01T10:15:00Z'), level: 1 };
+          return Promise.resolve(lockout);
+        }
+        return Promise.resolve(null);
+      }),
+      recordSuccess: vi.fn().mockImplementation(() => {
+        failures = 0;
+        return Promise.resolve();
+      }),
+    };
+
+    const twoFactorService = {
+      getChallenge: vi.fn().mockImplementation((token: string) => Promise.resolve(challenges.get(token) ?? null)),
+      recordFailedChallengeAttempt: vi.fn().mockImplementation((token: string) => {
+        const challenge = challenges.get(token)!;
+        challenge.attempts++;
+        return Promise.resolve(challenge.attempts);
+      }),
+      deleteChallenge: vi.fn().mockImplementation((token: string) => {
+        challenges.delete(token);
+        return Promise.resolve();
+      }),
+      verifyCode,
+    };
+    const startTwoFactorChallenge = vi.fn().mockImplementation(() => {
+      const challengeToken = `challenge-${challenges.size + 1}-${Math.random()}`;
+      challenges.set(challengeToken, { userId: 'user-1', purpose: 'verify', attempts: 0 });
+      return Promise.resolve({ twoFactorRequired: true, challengeToken, expiresIn: 300 });
+    });
+
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(REPOSITORY_TOKENS.ITwoFactorAuthRepository, {
+      findByUserId: vi.fn().mockResolvedValue({ userId: 'user-1', enabled: true } as unknown as TwoFactorAuth),
+    });
+    container.registerInstance(SERVICE_TOKENS.ITwoFactorService, twoFactorService);
+    container.registerInstance(SERVICE_TOKENS.ISessionService, { startSession });
+    container.registerInstance(SERVICE_TOKENS.IAccountLockoutService, lockoutService);
+    container.registerInstance(SERVICE_TOKENS.IEmailService, { sendEmail });
+    container.registerInstance(SERVICE_TOKENS.IOTPService, {
+      setOTP: vi.fn(),
+      getResendCooldown: vi.fn().mockResolvedValue(0),
+    });
+    container.registerInstance(USE_CASE_TOKENS.StartTwoFactorChallengeUseCase, { execute: startTwoFactorChallenge });
+
+    useCase = container.resolve(VerifyTwoFactorLoginUseCase);
+    loginUseCase = container.resolve(LoginUserUseCase);
+  });
+
+  it('should only clear failed logins once the second factor is verified', async () => {
+    const { challengeToken } = await login();
+    expect(lockoutService.recordSuccess).not.toHaveBeenCalled();
+
+    verifyCode.mockResolvedValue(true);
+    await verify(challengeToken);
+
+    expect(lockoutService.recordSuccess).toHaveBeenCalledWith('user', 'customer@example.com');
+    expect(startSession).toHaveBeenCalled();
+  });
+
+  it('should count wrong codes as failed logins', async () => {
+    const { challengeToken } = await login();
+
+    await expect(verify(challengeToken)).rejects.toMatchObject({
+      errorCode: ERROR_CODES.AUTH_TWO_FACTOR_CODE_INVALID,
+      statusCode: 401,
+    });
+    expect(lockoutService.recordFailure).toHaveBeenCalledWith('user', 'customer@example.com');
+  });
+
+  it('should lock the account when wrong codes keep coming across fresh challenges', async () => {
+    let error: unknown;
+
+    // Two wrong codes per challenge stay well under the per-challenge limit
+    for (let round = 0; round < MAX_FAILURES && !error; round++) {
+      const { challengeToken } = await login();
+      for (let attempt = 0; attempt < 2 && !error; attempt++) {
+        error = await verify(challengeToken).catch((e: unknown) => e);
+        if ((error as { errorCode?: string }).errorCode === ERROR_CODES.AUTH_TWO_FACTOR_CODE_INVALID) {
+          error = undefined;
+        }
+      }
+    }
+
+    expect(error).toMatchObject({
+      errorCode: ERROR_CODES.AUTH_ACCOUNT_LOCKED,
+      statusCode: HTTP_STATUS.TOO_MANY_REQUESTS,
+    });
+    expect(sendEmail).toHaveBeenCalledWith(EmailType.ACCOUNT_LOCKED, expect.objectContaining({ email: 'customer@example.com' }));
+    await expect(login()).rejects.toMatchObject({ errorCode: ERROR_CODES.AUTH_ACCOUNT_LOCKED });
+    expect(startSession).not.toHaveBeenCalled();
+  });
+
+  it('should not accept codes for a challenge once the account is locked', async () => {
+    const { challengeToken } = await login();
+    lockout = { lockedUntil: new Date('2030-01-01T10:15:00Z'), level: 1 };
+    verifyCode.mockResolvedValue(true);
+
+    await expect(verify(challengeToken)).rejects.toMatchObject({ errorCode: ERROR_CODES.AUTH_ACCOUNT_LOCKED });
+    expect(verifyCode).not.toHaveBeenCalled();
+    expect(challenges.has(challengeToken)).toBe(false);
+  });
+});
@@ -0,0 +1,159 @@
+import { injectable, inject } from 'tsyringe';
+import { IVerifyTwoFactorLoginUseCase } from '../../interface/auth/verify_two_factor_login_use_case.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ITwoFactorAuthRepository } from '../../../../domain/repositories/two_factor_auth_repository.interface';
+import { ITwoFactorChallenge, ITwoFactorService } from '../../../../domain/services/two_factor_service.interface';
+import { ISessionService, SessionClientInfo } from '../../../../domain/services/session_service.interface';
+import { IAccountLockoutService } from '../../../../domain/services/account_lockout_service.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { TwoFactorAuth } from '../../../../domain/entities/two_factor_auth.entity';
+import { User } from '../../../../domain/entities/user.entity';
+import { VerifyTwoFactorLoginRequest, VerifyTwoFactorLoginResponse } from '../../../dtos/two_factor.dto';
+import { UserMapper } from '../../../mapper/user.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, HTTP_STATUS, TWO_FACTOR_CONFIG } from '../../../../shared/constants';
+import { AccountLockedEmailData, EmailType } from '../../../../shared/types/email.types';
+import { generateRecoveryCodes, hashRecoveryCode } from '../../../../shared/utils/totp.util';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for finishing a login with the second factor
+ * Accepts an authenticator or recovery code for the challenge issued at login and then issues the tokens
+ * For enrollment challenges the first authenticator code also turns two-factor authentication on
+ * Wrong codes count as failed logins, so the account lockout covers both factors
+ */
+@injectable()
+export class VerifyTwoFactorLoginUseCase implements IVerifyTwoFactorLoginUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository,
+    @inject(SERVICE_TOKENS.ITwoFactorService)
+    private readonly twoFactorService: ITwoFactorService,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
+    @inject(SERVICE_TOKENS.IAccountLockoutService)
+    private readonly accountLockoutService: IAccountLockoutService,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService,
+  ) {}
+
+  async execute(request: VerifyTwoFactorLoginRequest, client?: SessionClientInfo): Promise<VerifyTwoFactorLoginResponse> {
+    // Input validation
+    if (!request || !request.challengeToken) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    if (!request.code && !request.recoveryCode) {
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_REQUIRED, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    const challenge = await this.twoFactorService.getChallenge(request.challengeToken);
+    if (!challenge) {
+      throw new AppError(
+        ERROR_MESSAGES.TWO_FACTOR_CHALLENGE_INVALID,
+        ERROR_CODES.AUTH_TWO_FACTOR_CHALLENGE_INVALID,
+        HTTP_STATUS.UNAUTHORIZED
+      );
+    }
+
+    const user = await this.userRepository.findById(challenge.userId);
+    if (!user || !user.canLogin()) {
+      await this.twoFactorService.deleteChallenge(request.challengeToken);
+      logger.warn(`Two-factor login attempt by missing or blocked user: ${challenge.userId}`);
+      throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
+    }
+
+    // Challenges issued before the account was locked can't be used to keep guessing codes
+    if (await this.accountLockoutService.getLockout('user', user.email)) {
+      await this.twoFactorService.deleteChallenge(request.challengeToken);
+      logger.warn(`Two-factor login attempt on locked account: ${user.email}`);
+      throw new AppError(ERROR_MESSAGES.ACCOUNT_LOCKED, ERROR_CODES.AUTH_ACCOUNT_LOCKED, HTTP_STATUS.TOO_MANY_REQUESTS);
+    }
+
+    const twoFactorAuth = await this.twoFactorAuthRepository.findByUserId(user.userId);
+    let recoveryCodes: string[] | undefined;
+
+    if (challenge.purpose === 'enroll') {
+      recoveryCodes = await this.completeEnrollment(user, request.challengeToken, twoFactorAuth, request.code);
+    } else if (!twoFactorAuth || !(await this.twoFactorService.verifyCode(twoFactorAuth, request))) {
+      await this.rejectCode(user, request.challengeToken, challenge);
+    }
+
+    await this.twoFactorService.deleteChallenge(request.challengeToken);
+    await this.accountLockoutService.recordSuccess('user', user.email);
+
+    const payload = { userId: user.userId, email: user.email, role: user.role, permissions: user.getPermissions() };
+    const { accessToken, refreshToken } = await this.sessionService.startSession(payload, client);
+
+    logger.info(`User logged in with two-factor authentication: ${user.email}`);
+
+    return { ...UserMapper.toLoginResponse(user, accessToken, refreshToken), recoveryCodes };
+  }
+
+  /**
+   * Turns two-factor authentication on with the first code from the newly set up authenticator app
+   * @returns The recovery codes to show the user
+   */
+  private async completeEnrollment(
+    user: User,
+    challengeToken: string,
+    twoFactorAuth: TwoFactorAuth | null,
+    code?: string
+  ): Promise<string[]> {
+    const step = twoFactorAuth && !twoFactorAuth.enabled && code ? twoFactorAuth.matchCode(code) : null;
+    if (!twoFactorAuth || step === null) {
+      await this.recordFailedLogin(user, challengeToken);
+      throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID, ERROR_CODES.AUTH_TWO_FACTOR_CODE_INVALID, 400);
+    }
+
+    const recoveryCodes = generateRecoveryCodes(TWO_FACTOR_CONFIG.RECOVERY_CODE_COUNT);
+    await this.twoFactorAuthRepository.save(twoFactorAuth.enable(step, recoveryCodes.map(hashRecoveryCode)));
+    logger.info(`Two-factor authentication enabled at login for user: ${twoFactorAuth.userId}`);
+    return recoveryCodes;
+  }
+
+  /**
+   * Counts a wrong code against the account and the challenge; too many end the login attempt
+   */
+  private async rejectCode(user: User, challengeToken: string, challenge: ITwoFactorChallenge): Promise<never> {
+    await this.recordFailedLogin(user, challengeToken);
+
+    const attempts = await this.twoFactorService.recordFailedChallengeAttempt(challengeToken);
+    if (attempts >= TWO_FACTOR_CONFIG.MAX_CHALLENGE_ATTEMPTS) {
+      await this.twoFactorService.deleteChallenge(challengeToken);
+      logger.warn(`Too many invalid two-factor codes for user: ${challenge.userId}`);
+      throw new AppError(
+        ERROR_MESSAGES.TWO_FACTOR_TOO_MANY_ATTEMPTS,
+        ERROR_CODES.AUTH_TWO_FACTOR_TOO_MANY_ATTEMPTS,
+        HTTP_STATUS.TOO_MANY_REQUESTS
+      );
+    }
+
+    logger.warn(`Invalid two-factor code for user: ${challenge.userId}`);
+    throw new AppError(ERROR_MESSAGES.TWO_FACTOR_CODE_INVALID, ERROR_CODES.AUTH_TWO_FACTOR_CODE_INVALID, 401);
+  }
+
+  /**
+   * Counts a wrong code as a failed login and, when it locks the account, ends the challenge and notifies the owner
+   */
+  private async recordFailedLogin(user: User, challengeToken: string): Promise<void> {
+    const lockout = await this.accountLockoutService.recordFailure('user', user.email);
+    if (!lockout) {
+      return;
+    }
+
+    await this.twoFactorService.deleteChallenge(challengeToken);
+
+    try {
+      const emailData: AccountLockedEmailData = { email: user.email, fullName: user.fullName, lockedUntil: lockout.lockedUntil };
+      await this.emailService.sendEmail(EmailType.ACCOUNT_LOCKED, emailData);
+    } catch (error) {
+      logger.error(`Error sending account locked email to ${user.email}:`, error);
+    }
+
+    throw new AppError(ERROR_MESSAGES.ACCOUNT_LOCKED, ERROR_CODES.AUTH_ACCOUNT_LOCKED, HTTP_STATUS.TOO_MANY_REQUESTS);
+  }
+}
@@ -0,0 +1,88 @@
+import { injectable, inject } from 'tsyringe';
+import { IActivateCancellationPolicyUseCase } from '../../interface/cancellation_policy/activate_cancellation_policy_use_case.interface';
+import { ICancellationPolicyRepository } from '../../../../domain/repositories/cancellation_policy_repository.interface';
+import { CancellationPolicyResponse } from '../../../dtos/cancellation_policy.dto';
+import { CancellationPolicyMapper } from '../../../mapper/cancellation_policy.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for activating a cancellation policy
+ * Deactivates all existing policies and activates the specified one.
+ * Reservations keep the policy they were paid under, so this only affects new bookings.
+ */
+@injectable()
+export class ActivateCancellationPolicyUseCase implements IActivateCancellationPolicyUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICancellationPolicyRepository)
+    private readonly cancellationPolicyRepository: ICancellationPolicyRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(cancellationPolicyId: string): Promise<CancellationPolicyResponse> {
+    try {
+      // Input validation
+      if (!cancellationPolicyId || typeof cancellationPolicyId !== 'string' || cancellationPolicyId.trim().length === 0) {
+        throw new AppError('Invalid cancellation policy ID', 'INVALID_CANCELLATION_POLICY_ID', 400);
+      }
+
+      logger.info(`Activating cancellation policy: ${cancellationPolicyId}`);
+
+      const cancellationPolicy = await this.cancellationPolicyRepository.findById(cancellationPolicyId);
+
+      if (!cancellationPolicy) {
+        logger.warn(`Attempt to activate non-existent cancellation policy: ${cancellationPolicyId}`);
+        throw new AppError('Cancellation policy not found', 'CANCELLATION_POLICY_NOT_FOUND', 404);
+      }
+
+      // Remember which version was live so the audit log shows what was replaced
+      const previouslyActive = await this.cancellationPolicyRepository.findActive();
+
+      // Activate the policy (this deactivates all others first)
+      await this.cancellationPolicyRepository.activate(cancellationPolicyId);
+
+      const activatedPolicy = await this.cancellationPolicyRepository.findById(cancellationPolicyId);
+
+      if (!activatedPolicy) {
+        throw new AppError(
+          'Failed to fetch activated cancellation policy',
+          'CANCELLATION_POLICY_FETCH_ERROR',
+          500
+        );
+      }
+
+      await this.auditLogService.record({
+        action: AuditAction.CANCELLATION_POLICY_ACTIVATE,
+        targetType: AuditTargetType.CANCELLATION_POLICY,
+        targetId: cancellationPolicyId,
+        before: cancellationPolicy,
+        after: activatedPolicy,
+        metadata: {
+          version: activatedPolicy.version,
+          previousCancellationPolicyId: previouslyActive?.cancellationPolicyId,
+          previousVersion: previouslyActive?.version,
+        },
+      });
+
+      logger.info(
+        `Cancellation policy activated successfully: ${cancellationPolicyId}, version: ${activatedPolicy.version}`
+      );
+
+      return CancellationPolicyMapper.toCancellationPolicyResponse(activatedPolicy);
+    } catch (error) {
+      logger.error(
+        `Error activating cancellation policy ${cancellationPolicyId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to activate cancellation policy', 'CANCELLATION_POLICY_ACTIVATE_ERROR', 500);
+    }
+  }
+}
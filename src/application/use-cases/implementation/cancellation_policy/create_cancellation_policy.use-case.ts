@@ -0,0 +1,104 @@
+import { injectable, inject } from 'tsyringe';
+import { ICreateCancellationPolicyUseCase } from '../../interface/cancellation_policy/create_cancellation_policy_use_case.interface';
+import { ICancellationPolicyRepository } from '../../../../domain/repositories/cancellation_policy_repository.interface';
+import { CreateCancellationPolicyRequest, CancellationPolicyResponse } from '../../../dtos/cancellation_policy.dto';
+import { CancellationPolicyMapper } from '../../../mapper/cancellation_policy.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { CancellationPolicy } from '../../../../domain/entities/cancellation_policy.entity';
+import { randomUUID } from 'crypto';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for creating a new cancellation policy
+ * Creates a new version of the policy with auto-incremented version number
+ */
+@injectable()
+export class CreateCancellationPolicyUseCase implements ICreateCancellationPolicyUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICancellationPolicyRepository)
+    private readonly cancellationPolicyRepository: ICancellationPolicyRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(request: CreateCancellationPolicyRequest, createdBy: string): Promise<CancellationPolicyResponse> {
+    try {
+      // Input validation
+      if (!request || !Array.isArray(request.tiers)) {
+        throw new AppError('Invalid request', 'INVALID_REQUEST', 400);
+      }
+
+      if (!createdBy || typeof createdBy !== 'string' || createdBy.trim().length === 0) {
+        throw new AppError('Invalid createdBy user ID', 'INVALID_USER_ID', 400);
+      }
+
+      logger.info(`Creating new cancellation policy version by user: ${createdBy}`);
+
+      // Get latest version number
+      const latestVersion = await this.cancellationPolicyRepository.findLatestVersion();
+      const newVersion = latestVersion + 1;
+
+      const cancellationPolicyId = randomUUID();
+      const now = new Date();
+
+      const cancellationPolicy = new CancellationPolicy(
+        cancellationPolicyId,
+        newVersion,
+        request.tiers.map((tier) => ({
+          minHoursBeforeDeparture: tier.minHoursBeforeDeparture,
+          refundPercentage: tier.refundPercentage,
+        })),
+        request.nonRefundableDepositPercentage,
+        request.amenityRefundMode,
+        request.chargeRefundMode,
+        false, // isActive - must be activated separately
+        createdBy.trim(),
+        now,
+        now
+      );
+
+      // Validate entity
+      if (!cancellationPolicy.hasValidTiers()) {
+        throw new AppError(
+          'Refund tiers must have unique thresholds and percentages between 0 and 100',
+          'INVALID_CANCELLATION_TIERS',
+          400
+        );
+      }
+
+      if (!cancellationPolicy.hasValidDepositPercentage()) {
+        throw new AppError(
+          'Non-refundable deposit percentage must be between 0 and 100',
+          'INVALID_DEPOSIT_PERCENTAGE',
+          400
+        );
+      }
+
+      await this.cancellationPolicyRepository.create(cancellationPolicy);
+
+      await this.auditLogService.record({
+        action: AuditAction.CANCELLATION_POLICY_CREATE,
+        targetType: AuditTargetType.CANCELLATION_POLICY,
+        targetId: cancellationPolicyId,
+        after: cancellationPolicy,
+      });
+
+      logger.info(`Cancellation policy created: ${cancellationPolicyId}, version: ${newVersion}`);
+
+      return CancellationPolicyMapper.toCancellationPolicyResponse(cancellationPolicy);
+    } catch (error) {
+      logger.error(
+        `Error creating cancellation policy: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to create cancellation policy', 'CANCELLATION_POLICY_CREATE_ERROR', 500);
+    }
+  }
+}
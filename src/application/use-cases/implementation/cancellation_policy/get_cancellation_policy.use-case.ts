@@ -0,0 +1,56 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetCancellationPolicyUseCase } from '../../interface/cancellation_policy/get_cancellation_policy_use_case.interface';
+import { ICancellationPolicyRepository } from '../../../../domain/repositories/cancellation_policy_repository.interface';
+import { CancellationPolicyResponse } from '../../../dtos/cancellation_policy.dto';
+import { CancellationPolicyMapper } from '../../../mapper/cancellation_policy.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for getting the active cancellation policy
+ * Returns the currently active policy or throws an error if none exists
+ */
+@injectable()
+export class GetCancellationPolicyUseCase implements IGetCancellationPolicyUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICancellationPolicyRepository)
+    private readonly cancellationPolicyRepository: ICancellationPolicyRepository
+  ) {}
+
+  async execute(): Promise<CancellationPolicyResponse> {
+    try {
+      logger.info('Fetching active cancellation policy');
+
+      const cancellationPolicy = await this.cancellationPolicyRepository.findActive();
+
+      if (!cancellationPolicy) {
+        logger.warn('No active cancellation policy found');
+        throw new AppError(
+          'No active cancellation policy found',
+          'CANCELLATION_POLICY_NOT_FOUND',
+          404
+        );
+      }
+
+      logger.info(
+        `Active cancellation policy fetched: ${cancellationPolicy.cancellationPolicyId}, version: ${cancellationPolicy.version}`
+      );
+      return CancellationPolicyMapper.toCancellationPolicyResponse(cancellationPolicy);
+    } catch (error) {
+      logger.error(
+        `Error fetching active cancellation policy: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError(
+        'Failed to fetch active cancellation policy',
+        'CANCELLATION_POLICY_FETCH_ERROR',
+        500
+      );
+    }
+  }
+}
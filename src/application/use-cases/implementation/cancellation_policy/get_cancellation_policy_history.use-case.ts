@@ -0,0 +1,46 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetCancellationPolicyHistoryUseCase } from '../../interface/cancellation_policy/get_cancellation_policy_history_use_case.interface';
+import { ICancellationPolicyRepository } from '../../../../domain/repositories/cancellation_policy_repository.interface';
+import { CancellationPolicyHistoryResponse } from '../../../dtos/cancellation_policy.dto';
+import { CancellationPolicyMapper } from '../../../mapper/cancellation_policy.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for getting cancellation policy history
+ * Returns all policy versions ordered by version (newest first)
+ */
+@injectable()
+export class GetCancellationPolicyHistoryUseCase implements IGetCancellationPolicyHistoryUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICancellationPolicyRepository)
+    private readonly cancellationPolicyRepository: ICancellationPolicyRepository
+  ) {}
+
+  async execute(): Promise<CancellationPolicyHistoryResponse> {
+    try {
+      logger.info('Fetching cancellation policy history');
+
+      const cancellationPolicies = await this.cancellationPolicyRepository.findAllOrderedByVersion();
+
+      logger.info(`Cancellation policy history fetched: ${cancellationPolicies.length} versions`);
+
+      return {
+        cancellationPolicies: cancellationPolicies.map((policy) =>
+          CancellationPolicyMapper.toCancellationPolicyResponse(policy)
+        ),
+      };
+    } catch (error) {
+      logger.error(
+        `Error fetching cancellation policy history: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to fetch cancellation policy history', 'CANCELLATION_POLICY_HISTORY_ERROR', 500);
+    }
+  }
+}
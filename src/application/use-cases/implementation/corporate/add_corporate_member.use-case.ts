@@ -0,0 +1,64 @@
+import { injectable, inject } from 'tsyringe';
+import { IAddCorporateMemberUseCase } from '../../interface/corporate/add_corporate_member_use_case.interface';
+import { IGetCorporateAccountUseCase } from '../../interface/corporate/get_corporate_account_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { AddCorporateMemberRequest, CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccount } from '../../../../domain/entities/corporate_account.entity';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for adding a registered user to a corporate account
+ * A user can only book for one company, so members of another account are refused
+ */
+@injectable()
+export class AddCorporateMemberUseCase implements IAddCorporateMemberUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(USE_CASE_TOKENS.GetCorporateAccountUseCase)
+    private readonly getCorporateAccountUseCase: IGetCorporateAccountUseCase,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(corporateAccountId: string, request: AddCorporateMemberRequest): Promise<CorporateAccountResponse> {
+    const account = await this.corporateAccountRepository.findById(corporateAccountId);
+    if (!account) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_NOT_FOUND, ERROR_CODES.CORPORATE_ACCOUNT_NOT_FOUND, 404);
+    }
+
+    const user = await this.userRepository.findByEmail(request.email.trim().toLowerCase());
+    if (!user) {
+      throw new AppError(ERROR_MESSAGES.USER_NOT_FOUND, ERROR_CODES.USER_NOT_FOUND, 404);
+    }
+
+    const existingAccount = await this.corporateAccountRepository.findByMemberUserId(user.userId);
+    if (existingAccount) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_MEMBER_EXISTS, ERROR_CODES.CORPORATE_MEMBER_EXISTS, 409);
+    }
+
+    const members = [...account.members, { userId: user.userId, role: request.role, addedAt: new Date() }];
+    await this.corporateAccountRepository.updateById(corporateAccountId, {
+      members,
+    } as Partial<CorporateAccount>);
+
+    await this.auditLogService.record({
+      action: AuditAction.CORPORATE_MEMBER_ADD,
+      targetType: AuditTargetType.CORPORATE_ACCOUNT,
+      targetId: corporateAccountId,
+      before: { members: account.members },
+      after: { members },
+      metadata: { userId: user.userId, role: request.role },
+    });
+
+    logger.info(`User ${user.userId} added to corporate account ${corporateAccountId} as ${request.role}`);
+    return this.getCorporateAccountUseCase.execute(corporateAccountId);
+  }
+}
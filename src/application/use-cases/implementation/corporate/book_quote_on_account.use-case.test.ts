@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { BookQuoteOnAccountUseCase } from './book_quote_on_account.use-case';
+import { MockQuoteRepository } from '../../../../shared/test/mocks/repositories/quote_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createQuotedQuoteFixture } from '../../../../shared/test/fixtures/quote.fixture';
+import {
+  createCorporateAccountFixture,
+  createCorporateBookingFixture,
+} from '../../../../shared/test/fixtures/corporate.fixture';
+import { CorporateBooking } from '../../../../domain/entities/corporate_booking.entity';
+import { ERROR_CODES, NotificationType } from '../../../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('BookQuoteOnAccountUseCase', () => {
+  let useCase: BookQuoteOnAccountUseCase;
+  let mockQuoteRepository: MockQuoteRepository;
+  let findByMemberUserId: ReturnType<typeof vi.fn>;
+  let findOpenByQuoteId: ReturnType<typeof vi.fn>;
+  let createBookingWithinCredit: ReturnType<typeof vi.fn>;
+  let completeBooking: ReturnType<typeof vi.fn>;
+  let sendNotification: ReturnType<typeof vi.fn>;
+
+  const quote = createQuotedQuoteFixture({
+    quoteId: 'quote-1',
+    userId: 'booker-1',
+    pricing: { total: 20000, currency: 'INR' },
+  });
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockQuoteRepository = new MockQuoteRepository();
+    mockQuoteRepository.findById.mockResolvedValue(quote);
+    findByMemberUserId = vi.fn().mockResolvedValue(createCorporateAccountFixture({ approvalThreshold: 50000 }));
+    findOpenByQuoteId = vi.fn().mockResolvedValue(null);
+    createBookingWithinCredit = vi.fn().mockResolvedValue('created');
+    completeBooking = vi
+      .fn()
+      .mockImplementation((corporateBookingId: string) =>
+        Promise.resolve(createCorporateBookingFixture({ corporateBookingId, status: 'booked' }))
+      );
+    sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    container.registerInstance(REPOSITORY_TOKENS.IQuoteRepository, mockQuoteRepository);
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateAccountRepository, { findByMemberUserId });
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateBookingRepository, { findOpenByQuoteId });
+    container.registerInstance(SERVICE_TOKENS.ICorporateCreditService, { createBookingWithinCredit });
+    container.registerInstance(USE_CASE_TOKENS.CompleteCorporateBookingUseCase, { execute: completeBooking });
+    container.registerInstance(SERVICE_TOKENS.INotificationService, { sendNotification });
+
+    useCase = container.resolve(BookQuoteOnAccountUseCase);
+  });
+
+  it('should reserve credit and book straight away when the booking is under the approval threshold', async () => {
+    const result = await useCase.execute('quote-1', 'booker-1');
+
+    const booking = createBookingWithinCredit.mock.calls[0][1] as CorporateBooking;
+    expect(booking.amount).toBe(20000);
+    expect(booking.status).toBe('pending_approval');
+    expect(completeBooking).toHaveBeenCalledWith(booking.corporateBookingId);
+    expect(result.status).toBe('booked');
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should leave a booking over the threshold for the account admins to approve', async () => {
+    findByMemberUserId.mockResolvedValue(createCorporateAccountFixture({ approvalThreshold: 10000 }));
+
+    const result = await useCase.execute('quote-1', 'booker-1');
+
+    expect(result.status).toBe('pending_approval');
+    expect(completeBooking).not.toHaveBeenCalled();
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'account-admin-1',
+        type: NotificationType.CORPORATE_BOOKING_APPROVAL_REQUIRED,
+      })
+    );
+  });
+
+  it('should refuse a booking that does not fit into the available credit', async () => {
+    createBookingWithinCredit.mockResolvedValue('credit_limit_exceeded');
+
+    await expect(useCase.execute('quote-1', 'booker-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.CORPORATE_CREDIT_LIMIT_EXCEEDED,
+      statusCode: 400,
+    });
+    expect(completeBooking).not.toHaveBeenCalled();
+  });
+
+  it('should ask to retry when other bookings on the account keep claiming the credit', async () => {
+    createBookingWithinCredit.mockResolvedValue('busy');
+
+    await expect(useCase.execute('quote-1', 'booker-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.CORPORATE_CREDIT_BUSY,
+      statusCode: 409,
+    });
+    expect(completeBooking).not.toHaveBeenCalled();
+  });
+
+  it('should return the open booking of a quote instead of booking it twice', async () => {
+    findOpenByQuoteId.mockResolvedValue(
+      createCorporateBookingFixture({ corporateBookingId: 'booking-1', quoteId: 'quote-1', status: 'booked' })
+    );
+
+    const result = await useCase.execute('quote-1', 'booker-1');
+
+    expect(result.corporateBookingId).toBe('booking-1');
+    expect(createBookingWithinCredit).not.toHaveBeenCalled();
+  });
+
+  it('should not let users outside a corporate account book on account', async () => {
+    findByMemberUserId.mockResolvedValue(null);
+
+    await expect(useCase.execute('quote-1', 'booker-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.NOT_CORPORATE_MEMBER,
+      statusCode: 403,
+    });
+  });
+});
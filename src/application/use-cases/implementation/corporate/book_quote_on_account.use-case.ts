@@ -0,0 +1,165 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { IBookQuoteOnAccountUseCase } from '../../interface/corporate/book_quote_on_account_use_case.interface';
+import { ICompleteCorporateBookingUseCase } from '../../interface/corporate/complete_corporate_booking_use_case.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateBookingRepository } from '../../../../domain/repositories/corporate_booking_repository.interface';
+import { ICorporateCreditService } from '../../../../domain/services/corporate_credit_service.interface';
+import { CorporateBookingResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { CorporateAccount } from '../../../../domain/entities/corporate_account.entity';
+import { CorporateBooking } from '../../../../domain/entities/corporate_booking.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { QuoteStatus, NotificationType, ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for booking a quote on the member's corporate account instead of paying by card
+ * Bookings over the account's approval threshold wait for an account admin; the rest are reserved straight away
+ * The booking is saved before the reservation is created, so a failed reservation can be retried by approving it
+ */
+@injectable()
+export class BookQuoteOnAccountUseCase implements IBookQuoteOnAccountUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(SERVICE_TOKENS.ICorporateCreditService)
+    private readonly corporateCreditService: ICorporateCreditService,
+    @inject(USE_CASE_TOKENS.CompleteCorporateBookingUseCase)
+    private readonly completeCorporateBookingUseCase: ICompleteCorporateBookingUseCase,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async execute(quoteId: string, userId: string): Promise<CorporateBookingResponse> {
+    if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const account = await this.corporateAccountRepository.findByMemberUserId(userId);
+    if (!account) {
+      throw new AppError(ERROR_MESSAGES.NOT_CORPORATE_MEMBER, ERROR_CODES.NOT_CORPORATE_MEMBER, 403);
+    }
+
+    if (!account.isActive()) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_INACTIVE, ERROR_CODES.CORPORATE_ACCOUNT_INACTIVE, 400);
+    }
+
+    const quote = await this.quoteRepository.findById(quoteId);
+    if (!quote || quote.userId !== userId) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    // A quote already booked on account is returned as is, so a retried request doesn't book twice
+    const existingBooking = await this.corporateBookingRepository.findOpenByQuoteId(quoteId);
+    if (existingBooking) {
+      return CorporateAccountMapper.toCorporateBookingResponse(existingBooking);
+    }
+
+    if (quote.status !== QuoteStatus.QUOTED) {
+      if (quote.status === QuoteStatus.EXPIRED) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_PAYMENT_WINDOW_EXPIRED, ERROR_CODES.QUOTE_EXPIRED, 400);
+      }
+      if (quote.status === QuoteStatus.NEGOTIATING) {
+        throw new AppError(ERROR_MESSAGES.COUNTER_OFFER_PENDING, ERROR_CODES.COUNTER_OFFER_PENDING, 400);
+      }
+      throw new AppError('Quote must be in QUOTED status to proceed with payment', 'INVALID_QUOTE_STATUS', 400);
+    }
+
+    if (quote.isPaymentWindowExpired()) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_PAYMENT_WINDOW_EXPIRED, ERROR_CODES.QUOTE_EXPIRED, 400);
+    }
+
+    if (!quote.pricing || !quote.pricing.total || quote.pricing.total <= 0) {
+      throw new AppError('Quote does not have valid pricing', 'INVALID_QUOTE_PRICING', 400);
+    }
+
+    // Invoices are issued in the account's billing currency, so quotes priced in another currency can't be billed
+    const currency = normalizeCurrency(quote.pricing.currency ?? quote.currency);
+    if (currency !== account.currency) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_CURRENCY_MISMATCH, ERROR_CODES.CORPORATE_CURRENCY_MISMATCH, 400);
+    }
+
+    const amount = quote.pricing.total;
+    const now = new Date();
+    const needsApproval = account.requiresApproval(amount) && !account.canApprove(userId);
+    const booking = new CorporateBooking(
+      randomUUID(),
+      account.corporateAccountId,
+      quoteId,
+      userId,
+      amount,
+      currency,
+      'pending_approval',
+      now,
+      now
+    );
+
+    // Checks the credit and saves the booking in one step, so parallel bookings can't overrun the limit
+    const outcome = await this.corporateCreditService.createBookingWithinCredit(account, booking);
+    if (outcome === 'credit_limit_exceeded') {
+      throw new AppError(
+        ERROR_MESSAGES.CORPORATE_CREDIT_LIMIT_EXCEEDED,
+        ERROR_CODES.CORPORATE_CREDIT_LIMIT_EXCEEDED,
+        400
+      );
+    }
+    if (outcome === 'busy') {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_CREDIT_BUSY, ERROR_CODES.CORPORATE_CREDIT_BUSY, 409);
+    }
+
+    if (needsApproval) {
+      logger.info(
+        `Corporate booking ${booking.corporateBookingId} for quote ${quoteId} waits for approval on account ${account.corporateAccountId}`
+      );
+      await this.notifyApprovers(account, booking, quote.tripName);
+      return CorporateAccountMapper.toCorporateBookingResponse(booking);
+    }
+
+    const completed = await this.completeCorporateBookingUseCase.execute(booking.corporateBookingId);
+    return CorporateAccountMapper.toCorporateBookingResponse(completed);
+  }
+
+  private async notifyApprovers(
+    account: CorporateAccount,
+    booking: CorporateBooking,
+    tripName?: string
+  ): Promise<void> {
+    const approvers = account.members.filter((member) => member.role === 'admin');
+
+    for (const approver of approvers) {
+      try {
+        await this.notificationService.sendNotification({
+          userId: approver.userId,
+          type: NotificationType.CORPORATE_BOOKING_APPROVAL_REQUIRED,
+          title: 'Booking Needs Approval',
+          message: `A booking for "${tripName || 'Trip'}" on the ${account.name} account is over the approval threshold and needs your review.`,
+          data: {
+            corporateBookingId: booking.corporateBookingId,
+            corporateAccountId: account.corporateAccountId,
+            quoteId: booking.quoteId,
+            amount: booking.amount,
+            currency: booking.currency,
+          },
+        });
+      } catch (notificationError) {
+        logger.error(
+          `Failed to notify approver ${approver.userId} of corporate booking ${booking.corporateBookingId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+        );
+        // Don't fail the booking if a notification fails
+      }
+    }
+  }
+}
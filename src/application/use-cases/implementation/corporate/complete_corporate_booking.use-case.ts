@@ -0,0 +1,123 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { ICompleteCorporateBookingUseCase } from '../../interface/corporate/complete_corporate_booking_use_case.interface';
+import { ICreateReservationUseCase } from '../../interface/reservation/create_reservation_use_case.interface';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
+import { ICorporateBookingRepository } from '../../../../domain/repositories/corporate_booking_repository.interface';
+import { CorporateBooking } from '../../../../domain/entities/corporate_booking.entity';
+import { Payment, PaymentMethod, PaymentStatus } from '../../../../domain/entities/payment.entity';
+import { Quote } from '../../../../domain/entities/quote.entity';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for turning a booking on account into a reservation
+ * The reservation is created against a pending invoice payment, which is settled when the monthly invoice is paid
+ */
+@injectable()
+export class CompleteCorporateBookingUseCase implements ICompleteCorporateBookingUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IPaymentRepository)
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(USE_CASE_TOKENS.CreateReservationUseCase)
+    private readonly createReservationUseCase: ICreateReservationUseCase
+  ) {}
+
+  async execute(corporateBookingId: string): Promise<CorporateBooking> {
+    const booking = await this.corporateBookingRepository.findById(corporateBookingId);
+    if (!booking) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_BOOKING_NOT_FOUND, ERROR_CODES.CORPORATE_BOOKING_NOT_FOUND, 404);
+    }
+
+    if (!booking.isPendingApproval()) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_BOOKING_NOT_PENDING, ERROR_CODES.CORPORATE_BOOKING_NOT_PENDING, 400);
+    }
+
+    const quote = await this.quoteRepository.findById(booking.quoteId);
+    if (!quote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    // A quote already marked PAID belongs to an earlier attempt that failed before the booking was updated
+    if (quote.status !== QuoteStatus.PAID) {
+      // The quote may have expired while the booking waited for approval
+      if (quote.status === QuoteStatus.EXPIRED || quote.isPaymentWindowExpired()) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_PAYMENT_WINDOW_EXPIRED, ERROR_CODES.QUOTE_EXPIRED, 400);
+      }
+      if (quote.status !== QuoteStatus.QUOTED) {
+        throw new AppError('Quote must be in QUOTED status to proceed with payment', 'INVALID_QUOTE_STATUS', 400);
+      }
+    }
+
+    const now = new Date();
+    const payment = await this.findOrCreateInvoicePayment(booking, now);
+
+    await this.quoteRepository.updateById(booking.quoteId, {
+      status: QuoteStatus.PAID,
+    } as Partial<Quote>);
+
+    const reservation = await this.createReservationUseCase.execute(booking.quoteId, payment.paymentId);
+
+    await this.corporateBookingRepository.updateById(corporateBookingId, {
+      status: 'booked',
+      reservationId: reservation.reservationId,
+      paymentId: payment.paymentId,
+      bookedAt: now,
+    });
+
+    logger.info(
+      `Corporate booking ${corporateBookingId} booked as reservation ${reservation.reservationId} on account ${booking.corporateAccountId}`
+    );
+
+    const updated = await this.corporateBookingRepository.findById(corporateBookingId);
+    if (!updated) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_BOOKING_NOT_FOUND, ERROR_CODES.CORPORATE_BOOKING_NOT_FOUND, 404);
+    }
+    return updated;
+  }
+
+  /**
+   * Reuses the invoice payment of an earlier attempt that failed before the booking was updated
+   */
+  private async findOrCreateInvoicePayment(booking: CorporateBooking, now: Date): Promise<Payment> {
+    const existingPayments = await this.paymentRepository.findByQuoteId(booking.quoteId);
+    const existing = existingPayments.find(
+      (payment) =>
+        payment.paymentMethod === PaymentMethod.INVOICE &&
+        payment.metadata?.corporateBookingId === booking.corporateBookingId
+    );
+    if (existing) {
+      return existing;
+    }
+
+    const payment = new Payment(
+      randomUUID(),
+      booking.quoteId,
+      booking.requestedBy,
+      booking.amount,
+      booking.currency.toLowerCase(),
+      PaymentMethod.INVOICE,
+      PaymentStatus.PENDING,
+      now,
+      now,
+      undefined,
+      undefined,
+      undefined,
+      {
+        paymentType: 'invoice',
+        corporateAccountId: booking.corporateAccountId,
+        corporateBookingId: booking.corporateBookingId,
+      }
+    );
+
+    await this.paymentRepository.create(payment);
+    return payment;
+  }
+}
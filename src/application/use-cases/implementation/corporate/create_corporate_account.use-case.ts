@@ -0,0 +1,68 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { ICreateCorporateAccountUseCase } from '../../interface/corporate/create_corporate_account_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { CreateCorporateAccountRequest, CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { CorporateAccount } from '../../../../domain/entities/corporate_account.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { CORPORATE_CONFIG } from '../../../../shared/config';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for creating a corporate account
+ * Accounts start without members, users are added once the account exists
+ */
+@injectable()
+export class CreateCorporateAccountUseCase implements ICreateCorporateAccountUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(request: CreateCorporateAccountRequest, createdBy: string): Promise<CorporateAccountResponse> {
+    if (!createdBy || typeof createdBy !== 'string' || createdBy.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const now = new Date();
+    const account = new CorporateAccount(
+      randomUUID(),
+      request.name.trim(),
+      {
+        name: request.billingContact.name.trim(),
+        email: request.billingContact.email.trim().toLowerCase(),
+        phoneNumber: request.billingContact.phoneNumber,
+      },
+      request.creditLimit,
+      normalizeCurrency(request.currency),
+      request.paymentTermsDays ?? CORPORATE_CONFIG.DEFAULT_PAYMENT_TERMS_DAYS,
+      [],
+      'active',
+      createdBy,
+      now,
+      now,
+      request.approvalThreshold,
+      request.billingAddress,
+      request.taxId
+    );
+
+    await this.corporateAccountRepository.create(account);
+
+    await this.auditLogService.record({
+      action: AuditAction.CORPORATE_ACCOUNT_CREATE,
+      targetType: AuditTargetType.CORPORATE_ACCOUNT,
+      targetId: account.corporateAccountId,
+      after: account,
+    });
+
+    logger.info(`Corporate account ${account.corporateAccountId} (${account.name}) created by ${createdBy}`);
+    return CorporateAccountMapper.toCorporateAccountResponse(account);
+  }
+}
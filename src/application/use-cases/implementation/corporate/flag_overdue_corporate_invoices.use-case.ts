@@ -0,0 +1,71 @@
+import { injectable, inject } from 'tsyringe';
+import { IFlagOverdueCorporateInvoicesUseCase } from '../../interface/corporate/flag_overdue_corporate_invoices_use_case.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateInvoiceRepository } from '../../../../domain/repositories/corporate_invoice_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { NotificationType, UserRole } from '../../../../shared/constants';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for flagging corporate invoices that are unpaid past their due date
+ * Account admins and platform admins are notified once, when the invoice turns overdue
+ */
+@injectable()
+export class FlagOverdueCorporateInvoicesUseCase implements IFlagOverdueCorporateInvoicesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateInvoiceRepository)
+    private readonly corporateInvoiceRepository: ICorporateInvoiceRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async execute(now: Date = new Date()): Promise<number> {
+    const invoices = await this.corporateInvoiceRepository.findIssuedDueBefore(now);
+    if (invoices.length === 0) {
+      return 0;
+    }
+
+    const platformAdmins = await this.userRepository.findByRole(UserRole.ADMIN);
+
+    for (const invoice of invoices) {
+      await this.corporateInvoiceRepository.updateById(invoice.invoiceId, { status: 'overdue' });
+      logger.warn(`Corporate invoice ${invoice.invoiceNumber} is overdue (due ${invoice.dueAt.toISOString()})`);
+
+      const account = await this.corporateAccountRepository.findById(invoice.corporateAccountId);
+      const recipients = [
+        ...(account?.members.filter((member) => member.role === 'admin').map((member) => member.userId) ?? []),
+        ...platformAdmins.map((admin) => admin.userId),
+      ];
+
+      for (const userId of recipients) {
+        try {
+          await this.notificationService.sendNotification({
+            userId,
+            type: NotificationType.CORPORATE_INVOICE_OVERDUE,
+            title: 'Invoice Overdue',
+            message: `Invoice ${invoice.invoiceNumber}${account ? ` for ${account.name}` : ''} is past its due date and has not been paid.`,
+            data: {
+              invoiceId: invoice.invoiceId,
+              corporateAccountId: invoice.corporateAccountId,
+              totalAmount: invoice.totalAmount,
+              currency: invoice.currency,
+              dueAt: invoice.dueAt,
+            },
+          });
+        } catch (notificationError) {
+          logger.error(
+            `Failed to notify ${userId} of overdue corporate invoice ${invoice.invoiceNumber}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+          );
+        }
+      }
+    }
+
+    return invoices.length;
+  }
+}
@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { GenerateCorporateInvoicesUseCase } from './generate_corporate_invoices.use-case';
+import { MockReservationRepository } from '../../../../shared/test/mocks/repositories/reservation_repository.mock';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import {
+  createCorporateAccountFixture,
+  createCorporateBookingFixture,
+  createCorporateInvoiceFixture,
+} from '../../../../shared/test/fixtures/corporate.fixture';
+import { createReservationFixture } from '../../../../shared/test/fixtures/reservation.fixture';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { CorporateInvoice } from '../../../../domain/entities/corporate_invoice.entity';
+import { NotificationType } from '../../../../shared/constants';
+import { EmailType } from '../../../../shared/types/email.types';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('GenerateCorporateInvoicesUseCase', () => {
+  let useCase: GenerateCorporateInvoicesUseCase;
+  let mockReservationRepository: MockReservationRepository;
+  let mockUserRepository: MockUserRepository;
+  let findAllAccounts: ReturnType<typeof vi.fn>;
+  let findUninvoiced: ReturnType<typeof vi.fn>;
+  let markInvoiced: ReturnType<typeof vi.fn>;
+  let findByAccountAndPeriod: ReturnType<typeof vi.fn>;
+  let createInvoice: ReturnType<typeof vi.fn>;
+  let sendEmail: ReturnType<typeof vi.fn>;
+  let sendNotification: ReturnType<typeof vi.fn>;
+
+  const now = new Date('2030-02-01T02:00:00Z');
+  const bookings = [
+    createCorporateBookingFixture({ corporateBookingId: 'booking-1', amount: 12000.5, status: 'booked' }),
+    createCorporateBookingFixture({ corporateBookingId: 'booking-2', amount: 8000, status: 'booked' }),
+  ];
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockReservationRepository = new MockReservationRepository();
+    mockReservationRepository.findByIds.mockResolvedValue([
+      createReservationFixture({
+        reservationId: 'reservation-booking-1',
+        reservationNumber: 'RES-0001',
+        tripName: 'Science Fair',
+      }),
+    ]);
+    mockUserRepository = new MockUserRepository();
+    mockUserRepository.findByIds.mockResolvedValue(
+      new Map([['booker-1', createUserFixture({ userId: 'booker-1', fullName: 'Jane Booker' })]])
+    );
+    findAllAccounts = vi.fn().mockResolvedValue([createCorporateAccountFixture({ paymentTermsDays: 30 })]);
+    findUninvoiced = vi.fn().mockResolvedValue(bookings);
+    markInvoiced = vi.fn().mockResolvedValue(undefined);
+    findByAccountAndPeriod = vi.fn().mockResolvedValue(null);
+    createInvoice = vi.fn().mockImplementation((invoice: CorporateInvoice) => Promise.resolve(invoice));
+    sendEmail = vi.fn().mockResolvedValue(undefined);
+    sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateAccountRepository, { findAll: findAllAccounts });
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateBookingRepository, { findUninvoiced, markInvoiced });
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateInvoiceRepository, {
+      findByAccountAndPeriod,
+      create: createInvoice,
+    });
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, mockReservationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(SERVICE_TOKENS.IPDFGenerationService, {
+      generateCorporateInvoicePDF: vi.fn().mockResolvedValue(Buffer.from('pdf')),
+    });
+    container.registerInstance(SERVICE_TOKENS.IEmailService, { sendEmail });
+    container.registerInstance(SERVICE_TOKENS.INotificationService, { sendNotification });
+
+    useCase = container.resolve(GenerateCorporateInvoicesUseCase);
+  });
+
+  it('should invoice the bookings of the previous month and send the invoice', async () => {
+    const issued = await useCase.execute(now);
+
+    expect(issued).toBe(1);
+    expect(findUninvoiced).toHaveBeenCalledWith('account-1', new Date('2030-02-01T00:00:00Z'));
+
+    const invoice = createInvoice.mock.calls[0][0] as CorporateInvoice;
+    expect(invoice.periodStart).toEqual(new Date('2030-01-01T00:00:00Z'));
+    expect(invoice.periodEnd).toEqual(new Date('2030-01-31T23:59:59.999Z'));
+    expect(invoice.totalAmount).toBe(20000.5);
+    expect(invoice.dueAt).toEqual(new Date('2030-03-03T02:00:00Z'));
+    expect(invoice.lineItems[0]).toMatchObject({
+      corporateBookingId: 'booking-1',
+      reservationNumber: 'RES-0001',
+      description: 'Science Fair',
+      bookedBy: 'Jane Booker',
+    });
+    // Reservations that can't be found are still billed under their id
+    expect(invoice.lineItems[1]).toMatchObject({
+      reservationNumber: 'reservation-booking-2',
+      description: 'Charter trip',
+    });
+
+    expect(markInvoiced).toHaveBeenCalledWith(['booking-1', 'booking-2'], invoice.invoiceId);
+    expect(sendEmail).toHaveBeenCalledWith(
+      EmailType.CORPORATE_INVOICE,
+      expect.objectContaining({ email: 'finance@acme.test', reservationCount: 2 }),
+      [expect.objectContaining({ filename: `${invoice.invoiceNumber}.pdf` })]
+    );
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'account-admin-1', type: NotificationType.CORPORATE_INVOICE_ISSUED })
+    );
+  });
+
+  it('should not invoice a period twice', async () => {
+    findByAccountAndPeriod.mockResolvedValue(createCorporateInvoiceFixture());
+
+    const issued = await useCase.execute(now);
+
+    expect(issued).toBe(0);
+    expect(findUninvoiced).not.toHaveBeenCalled();
+    expect(createInvoice).not.toHaveBeenCalled();
+  });
+
+  it('should skip accounts without bookings to bill', async () => {
+    findUninvoiced.mockResolvedValue([]);
+
+    const issued = await useCase.execute(now);
+
+    expect(issued).toBe(0);
+    expect(createInvoice).not.toHaveBeenCalled();
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should keep the invoice issued when sending it fails', async () => {
+    sendEmail.mockRejectedValue(new Error('SMTP down'));
+
+    const issued = await useCase.execute(now);
+
+    expect(issued).toBe(1);
+    expect(markInvoiced).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,209 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { IGenerateCorporateInvoicesUseCase } from '../../interface/corporate/generate_corporate_invoices_use_case.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateBookingRepository } from '../../../../domain/repositories/corporate_booking_repository.interface';
+import { ICorporateInvoiceRepository } from '../../../../domain/repositories/corporate_invoice_repository.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IPDFGenerationService } from '../../../../domain/services/pdf_generation_service.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { CorporateAccount } from '../../../../domain/entities/corporate_account.entity';
+import { CorporateInvoice, ICorporateInvoiceLineItem } from '../../../../domain/entities/corporate_invoice.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { NotificationType } from '../../../../shared/constants';
+import { EmailType, CorporateInvoiceEmailData } from '../../../../shared/types/email.types';
+import { generateReferenceNumber } from '../../../../shared/utils/reference_number.util';
+import { roundCurrencyAmount } from '../../../../shared/utils/currency.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for issuing the monthly consolidated invoices of corporate accounts
+ * Bills every booking made before the start of the current month that isn't on an invoice yet,
+ * so bookings missed by an earlier run are picked up by the next one
+ */
+@injectable()
+export class GenerateCorporateInvoicesUseCase implements IGenerateCorporateInvoicesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateInvoiceRepository)
+    private readonly corporateInvoiceRepository: ICorporateInvoiceRepository,
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IPDFGenerationService)
+    private readonly pdfGenerationService: IPDFGenerationService,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async execute(now: Date = new Date()): Promise<number> {
+    // Billing period is the previous calendar month (UTC)
+    const periodEndExclusive = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    const periodStart = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth() - 1, 1));
+    const periodEnd = new Date(periodEndExclusive.getTime() - 1);
+
+    // Suspended accounts still get invoiced for what they booked
+    const accounts = await this.corporateAccountRepository.findAll();
+    let issued = 0;
+
+    for (const account of accounts) {
+      try {
+        const invoice = await this.invoiceAccount(account, periodStart, periodEnd, periodEndExclusive, now);
+        if (invoice) {
+          issued++;
+        }
+      } catch (error) {
+        logger.error(
+          `Failed to invoice corporate account ${account.corporateAccountId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        // Keep invoicing the other accounts
+      }
+    }
+
+    logger.info(`Issued ${issued} corporate invoice(s) for period ending ${periodEnd.toISOString()}`);
+    return issued;
+  }
+
+  private async invoiceAccount(
+    account: CorporateAccount,
+    periodStart: Date,
+    periodEnd: Date,
+    periodEndExclusive: Date,
+    now: Date
+  ): Promise<CorporateInvoice | null> {
+    const existing = await this.corporateInvoiceRepository.findByAccountAndPeriod(
+      account.corporateAccountId,
+      periodEnd
+    );
+    if (existing) {
+      return null;
+    }
+
+    const bookings = await this.corporateBookingRepository.findUninvoiced(
+      account.corporateAccountId,
+      periodEndExclusive
+    );
+    if (bookings.length === 0) {
+      return null;
+    }
+
+    const [reservations, users] = await Promise.all([
+      this.reservationRepository.findByIds(bookings.map((booking) => booking.reservationId as string)),
+      this.userRepository.findByIds([...new Set(bookings.map((booking) => booking.requestedBy))]),
+    ]);
+
+    const lineItems: ICorporateInvoiceLineItem[] = bookings.map((booking) => {
+      const reservation = reservations.find((r) => r.reservationId === booking.reservationId);
+      return {
+        corporateBookingId: booking.corporateBookingId,
+        reservationId: booking.reservationId as string,
+        reservationNumber: reservation?.reservationNumber ?? (booking.reservationId as string),
+        description: reservation?.tripName || 'Charter trip',
+        bookedBy: users.get(booking.requestedBy)?.fullName ?? booking.requestedBy,
+        bookedAt: booking.bookedAt ?? booking.createdAt,
+        amount: booking.amount,
+      };
+    });
+
+    const totalAmount = roundCurrencyAmount(
+      lineItems.reduce((total, item) => total + item.amount, 0),
+      account.currency
+    );
+    const dueAt = new Date(now.getTime() + account.paymentTermsDays * 24 * 60 * 60 * 1000);
+    const invoice = new CorporateInvoice(
+      randomUUID(),
+      generateReferenceNumber('INV'),
+      account.corporateAccountId,
+      periodStart,
+      periodEnd,
+      lineItems,
+      totalAmount,
+      account.currency,
+      'issued',
+      now,
+      dueAt,
+      now,
+      now
+    );
+
+    await this.corporateInvoiceRepository.create(invoice);
+    await this.corporateBookingRepository.markInvoiced(
+      bookings.map((booking) => booking.corporateBookingId),
+      invoice.invoiceId
+    );
+
+    logger.info(
+      `Corporate invoice ${invoice.invoiceNumber} issued to account ${account.corporateAccountId} for ${totalAmount} ${account.currency}`
+    );
+
+    await this.sendInvoice(account, invoice);
+    await this.notifyAccountAdmins(account, invoice);
+
+    return invoice;
+  }
+
+  private async sendInvoice(account: CorporateAccount, invoice: CorporateInvoice): Promise<void> {
+    try {
+      const pdfBuffer = await this.pdfGenerationService.generateCorporateInvoicePDF({ invoice, account });
+
+      const emailData: CorporateInvoiceEmailData = {
+        email: account.billingContact.email,
+        fullName: account.billingContact.name,
+        accountName: account.name,
+        invoiceNumber: invoice.invoiceNumber,
+        periodStart: invoice.periodStart,
+        periodEnd: invoice.periodEnd,
+        reservationCount: invoice.lineItems.length,
+        totalAmount: invoice.totalAmount,
+        currency: invoice.currency,
+        dueDate: invoice.dueAt,
+        paymentTermsDays: account.paymentTermsDays,
+      };
+
+      await this.emailService.sendEmail(EmailType.CORPORATE_INVOICE, emailData, [
+        {
+          filename: `${invoice.invoiceNumber}.pdf`,
+          content: pdfBuffer,
+          contentType: 'application/pdf',
+        },
+      ]);
+    } catch (emailError) {
+      logger.error(
+        `Failed to send corporate invoice ${invoice.invoiceNumber}: ${emailError instanceof Error ? emailError.message : 'Unknown error'}`
+      );
+      // The invoice stays issued, account admins can download it from the statement
+    }
+  }
+
+  private async notifyAccountAdmins(account: CorporateAccount, invoice: CorporateInvoice): Promise<void> {
+    for (const member of account.members.filter((m) => m.role === 'admin')) {
+      try {
+        await this.notificationService.sendNotification({
+          userId: member.userId,
+          type: NotificationType.CORPORATE_INVOICE_ISSUED,
+          title: 'Monthly Invoice Issued',
+          message: `Invoice ${invoice.invoiceNumber} for ${invoice.lineItems.length} reservation(s) on the ${account.name} account has been issued.`,
+          data: {
+            invoiceId: invoice.invoiceId,
+            corporateAccountId: account.corporateAccountId,
+            totalAmount: invoice.totalAmount,
+            currency: invoice.currency,
+            dueAt: invoice.dueAt,
+          },
+        });
+      } catch (notificationError) {
+        logger.error(
+          `Failed to notify ${member.userId} of corporate invoice ${invoice.invoiceNumber}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+        );
+      }
+    }
+  }
+}
@@ -0,0 +1,43 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetCorporateAccountUseCase } from '../../interface/corporate/get_corporate_account_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ICorporateCreditService } from '../../../../domain/services/corporate_credit_service.interface';
+import { CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for getting a corporate account with its members and credit position
+ */
+@injectable()
+export class GetCorporateAccountUseCase implements IGetCorporateAccountUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.ICorporateCreditService)
+    private readonly corporateCreditService: ICorporateCreditService
+  ) {}
+
+  async execute(corporateAccountId: string): Promise<CorporateAccountResponse> {
+    if (!corporateAccountId || typeof corporateAccountId !== 'string' || corporateAccountId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_CORPORATE_ACCOUNT_ID', 400);
+    }
+
+    const account = await this.corporateAccountRepository.findById(corporateAccountId);
+    if (!account) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_NOT_FOUND, ERROR_CODES.CORPORATE_ACCOUNT_NOT_FOUND, 404);
+    }
+
+    const [credit, users] = await Promise.all([
+      this.corporateCreditService.getCreditSummary(account),
+      this.userRepository.findByIds(account.members.map((member) => member.userId)),
+    ]);
+
+    return CorporateAccountMapper.toCorporateAccountResponse(account, credit, Array.from(users.values()));
+  }
+}
@@ -0,0 +1,33 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetCorporateAccountsUseCase } from '../../interface/corporate/get_corporate_accounts_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateCreditService } from '../../../../domain/services/corporate_credit_service.interface';
+import { CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+
+/**
+ * Use case for listing corporate accounts with their credit position
+ */
+@injectable()
+export class GetCorporateAccountsUseCase implements IGetCorporateAccountsUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(SERVICE_TOKENS.ICorporateCreditService)
+    private readonly corporateCreditService: ICorporateCreditService
+  ) {}
+
+  async execute(): Promise<CorporateAccountResponse[]> {
+    const accounts = await this.corporateAccountRepository.findAll();
+
+    return Promise.all(
+      accounts.map(async (account) =>
+        CorporateAccountMapper.toCorporateAccountResponse(
+          account,
+          await this.corporateCreditService.getCreditSummary(account)
+        )
+      )
+    );
+  }
+}
@@ -0,0 +1,38 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetCorporateBookingsUseCase } from '../../interface/corporate/get_corporate_bookings_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateBookingRepository } from '../../../../domain/repositories/corporate_booking_repository.interface';
+import { CorporateBookingStatus } from '../../../../domain/entities/corporate_booking.entity';
+import { CorporateBookingResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for listing bookings on the member's corporate account
+ * Account admins see every booking, bookers only their own
+ */
+@injectable()
+export class GetCorporateBookingsUseCase implements IGetCorporateBookingsUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository
+  ) {}
+
+  async execute(userId: string, status?: CorporateBookingStatus): Promise<CorporateBookingResponse[]> {
+    const account = await this.corporateAccountRepository.findByMemberUserId(userId);
+    if (!account) {
+      throw new AppError(ERROR_MESSAGES.NOT_CORPORATE_MEMBER, ERROR_CODES.NOT_CORPORATE_MEMBER, 404);
+    }
+
+    const bookings = await this.corporateBookingRepository.findByAccountId(account.corporateAccountId, status);
+    const visible = account.canApprove(userId)
+      ? bookings
+      : bookings.filter((booking) => booking.requestedBy === userId);
+
+    return visible.map((booking) => CorporateAccountMapper.toCorporateBookingResponse(booking));
+  }
+}
@@ -0,0 +1,37 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetCorporateInvoicePdfUseCase } from '../../interface/corporate/get_corporate_invoice_pdf_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateInvoiceRepository } from '../../../../domain/repositories/corporate_invoice_repository.interface';
+import { IPDFGenerationService } from '../../../../domain/services/pdf_generation_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for downloading a corporate invoice as PDF
+ * The PDF is rendered on demand from the stored invoice, so it always matches what was billed
+ */
+@injectable()
+export class GetCorporateInvoicePdfUseCase implements IGetCorporateInvoicePdfUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateInvoiceRepository)
+    private readonly corporateInvoiceRepository: ICorporateInvoiceRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(SERVICE_TOKENS.IPDFGenerationService)
+    private readonly pdfGenerationService: IPDFGenerationService
+  ) {}
+
+  async execute(invoiceId: string, requestedBy?: string): Promise<{ invoiceNumber: string; pdf: Buffer }> {
+    const invoice = await this.corporateInvoiceRepository.findById(invoiceId);
+    const account = invoice ? await this.corporateAccountRepository.findById(invoice.corporateAccountId) : null;
+
+    // Members of other accounts get the same answer as for an unknown invoice
+    if (!invoice || !account || (requestedBy !== undefined && !account.canApprove(requestedBy))) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_INVOICE_NOT_FOUND, ERROR_CODES.CORPORATE_INVOICE_NOT_FOUND, 404);
+    }
+
+    const pdf = await this.pdfGenerationService.generateCorporateInvoicePDF({ invoice, account });
+    return { invoiceNumber: invoice.invoiceNumber, pdf };
+  }
+}
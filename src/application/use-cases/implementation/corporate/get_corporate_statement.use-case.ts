@@ -0,0 +1,90 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetCorporateStatementUseCase } from '../../interface/corporate/get_corporate_statement_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateBookingRepository } from '../../../../domain/repositories/corporate_booking_repository.interface';
+import { ICorporateInvoiceRepository } from '../../../../domain/repositories/corporate_invoice_repository.interface';
+import { ICorporateCreditService } from '../../../../domain/services/corporate_credit_service.interface';
+import { CorporateStatementResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { CorporateInvoice } from '../../../../domain/entities/corporate_invoice.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { roundCurrencyAmount } from '../../../../shared/utils/currency.util';
+
+/**
+ * Use case for building a corporate account statement
+ * Lists the invoices issued in the period with their payment status and the bookings still to be invoiced
+ */
+@injectable()
+export class GetCorporateStatementUseCase implements IGetCorporateStatementUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateInvoiceRepository)
+    private readonly corporateInvoiceRepository: ICorporateInvoiceRepository,
+    @inject(SERVICE_TOKENS.ICorporateCreditService)
+    private readonly corporateCreditService: ICorporateCreditService
+  ) {}
+
+  async execute(
+    corporateAccountId: string,
+    from?: string,
+    to?: string,
+    requestedBy?: string
+  ): Promise<CorporateStatementResponse> {
+    const issuedFrom = from ? new Date(from) : undefined;
+    const issuedTo = to ? new Date(to) : undefined;
+    if (
+      (issuedFrom && isNaN(issuedFrom.getTime())) ||
+      (issuedTo && isNaN(issuedTo.getTime())) ||
+      (issuedFrom && issuedTo && issuedFrom >= issuedTo)
+    ) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_STATEMENT_RANGE', 400);
+    }
+
+    const account = await this.corporateAccountRepository.findById(corporateAccountId);
+    if (!account) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_NOT_FOUND, ERROR_CODES.CORPORATE_ACCOUNT_NOT_FOUND, 404);
+    }
+
+    if (requestedBy !== undefined && !account.canApprove(requestedBy)) {
+      throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
+    }
+
+    const now = new Date();
+    const [invoices, bookedBookings, credit] = await Promise.all([
+      this.corporateInvoiceRepository.findByAccountId(corporateAccountId, issuedFrom, issuedTo),
+      this.corporateBookingRepository.findByAccountId(corporateAccountId, 'booked'),
+      this.corporateCreditService.getCreditSummary(account),
+    ]);
+
+    const sum = (items: CorporateInvoice[]): number =>
+      roundCurrencyAmount(
+        items.reduce((total, invoice) => total + invoice.totalAmount, 0),
+        account.currency
+      );
+
+    return {
+      corporateAccountId,
+      accountName: account.name,
+      currency: account.currency,
+      from: issuedFrom,
+      to: issuedTo,
+      generatedAt: now,
+      invoices: invoices.map((invoice) => CorporateAccountMapper.toCorporateInvoiceResponse(invoice)),
+      uninvoicedBookings: bookedBookings
+        .filter((booking) => booking.isUninvoiced())
+        .map((booking) => CorporateAccountMapper.toCorporateBookingResponse(booking)),
+      totals: {
+        invoiced: sum(invoices),
+        paid: sum(invoices.filter((invoice) => invoice.isPaid())),
+        unpaid: sum(invoices.filter((invoice) => !invoice.isPaid())),
+        overdue: sum(invoices.filter((invoice) => invoice.isPastDue(now))),
+      },
+      credit,
+    };
+  }
+}
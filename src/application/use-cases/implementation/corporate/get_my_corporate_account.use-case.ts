@@ -0,0 +1,49 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetMyCorporateAccountUseCase } from '../../interface/corporate/get_my_corporate_account_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ICorporateCreditService } from '../../../../domain/services/corporate_credit_service.interface';
+import { User } from '../../../../domain/entities/user.entity';
+import { MyCorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for getting the corporate account of the signed-in member
+ * Only account admins see who else is on the account
+ */
+@injectable()
+export class GetMyCorporateAccountUseCase implements IGetMyCorporateAccountUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.ICorporateCreditService)
+    private readonly corporateCreditService: ICorporateCreditService
+  ) {}
+
+  async execute(userId: string): Promise<MyCorporateAccountResponse> {
+    const account = await this.corporateAccountRepository.findByMemberUserId(userId);
+    const member = account?.findMember(userId);
+    if (!account || !member) {
+      throw new AppError(ERROR_MESSAGES.NOT_CORPORATE_MEMBER, ERROR_CODES.NOT_CORPORATE_MEMBER, 404);
+    }
+
+    const isAdmin = member.role === 'admin';
+    const [credit, users] = await Promise.all([
+      this.corporateCreditService.getCreditSummary(account),
+      isAdmin
+        ? this.userRepository.findByIds(account.members.map((m) => m.userId))
+        : Promise.resolve(new Map<string, User>()),
+    ]);
+    const response = CorporateAccountMapper.toCorporateAccountResponse(account, credit, Array.from(users.values()));
+
+    return {
+      account: isAdmin ? response : { ...response, members: [] },
+      role: member.role,
+    };
+  }
+}
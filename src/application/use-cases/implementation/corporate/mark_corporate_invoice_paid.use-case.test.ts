@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { MarkCorporateInvoicePaidUseCase } from './mark_corporate_invoice_paid.use-case';
+import { MockPaymentRepository } from '../../../../shared/test/mocks/repositories/payment_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import {
+  createCorporateBookingFixture,
+  createCorporateInvoiceFixture,
+} from '../../../../shared/test/fixtures/corporate.fixture';
+import { PaymentStatus } from '../../../../domain/entities/payment.entity';
+import { AuditAction, ERROR_CODES } from '../../../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('MarkCorporateInvoicePaidUseCase', () => {
+  let useCase: MarkCorporateInvoicePaidUseCase;
+  let mockPaymentRepository: MockPaymentRepository;
+  let findInvoiceById: ReturnType<typeof vi.fn>;
+  let updateInvoiceById: ReturnType<typeof vi.fn>;
+  let recordAudit: ReturnType<typeof vi.fn>;
+
+  const lineItem = (corporateBookingId: string) => ({
+    corporateBookingId,
+    reservationId: `reservation-${corporateBookingId}`,
+    reservationNumber: `RES-${corporateBookingId}`,
+    description: 'Charter trip',
+    bookedBy: 'Jane Booker',
+    bookedAt: new Date('2030-01-10T00:00:00Z'),
+    amount: 5000,
+  });
+  const issuedInvoice = createCorporateInvoiceFixture({
+    invoiceId: 'invoice-1',
+    invoiceNumber: 'INV-0001',
+    lineItems: [lineItem('booking-1'), lineItem('booking-2')],
+  });
+  const paidInvoice = createCorporateInvoiceFixture({
+    invoiceId: 'invoice-1',
+    invoiceNumber: 'INV-0001',
+    status: 'paid',
+  });
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockPaymentRepository = new MockPaymentRepository();
+    findInvoiceById = vi.fn().mockResolvedValueOnce(issuedInvoice).mockResolvedValue(paidInvoice);
+    updateInvoiceById = vi.fn().mockResolvedValue(undefined);
+    recordAudit = vi.fn().mockResolvedValue(undefined);
+
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateInvoiceRepository, {
+      findById: findInvoiceById,
+      updateById: updateInvoiceById,
+    });
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateBookingRepository, {
+      findById: vi
+        .fn()
+        .mockImplementation((corporateBookingId: string) =>
+          Promise.resolve(createCorporateBookingFixture({ corporateBookingId, status: 'booked' }))
+        ),
+    });
+    container.registerInstance(REPOSITORY_TOKENS.IPaymentRepository, mockPaymentRepository);
+    container.registerInstance(SERVICE_TOKENS.IAuditLogService, { record: recordAudit });
+
+    useCase = container.resolve(MarkCorporateInvoicePaidUseCase);
+  });
+
+  it('should mark the invoice paid and settle the payment of every billed booking', async () => {
+    const result = await useCase.execute('invoice-1', { paymentReference: '  NEFT-123  ' }, 'admin-1');
+
+    expect(updateInvoiceById).toHaveBeenCalledWith(
+      'invoice-1',
+      expect.objectContaining({ status: 'paid', paymentReference: 'NEFT-123' })
+    );
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledTimes(2);
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledWith(
+      'payment-booking-1',
+      expect.objectContaining({ status: PaymentStatus.SUCCEEDED, transactionId: 'INV-0001' })
+    );
+    expect(recordAudit).toHaveBeenCalledWith(
+      expect.objectContaining({ action: AuditAction.CORPORATE_INVOICE_MARK_PAID, targetId: 'invoice-1' })
+    );
+    expect(result.status).toBe('paid');
+  });
+
+  it('should still mark the invoice paid when a payment cannot be settled', async () => {
+    mockPaymentRepository.updateById.mockRejectedValueOnce(new Error('Database error'));
+
+    await useCase.execute('invoice-1', { paymentReference: 'NEFT-123' }, 'admin-1');
+
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledTimes(2);
+    expect(recordAudit).toHaveBeenCalled();
+  });
+
+  it('should not mark an invoice paid twice', async () => {
+    findInvoiceById.mockReset().mockResolvedValue(paidInvoice);
+
+    await expect(useCase.execute('invoice-1', { paymentReference: 'NEFT-123' }, 'admin-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.CORPORATE_INVOICE_ALREADY_PAID,
+      statusCode: 400,
+    });
+    expect(updateInvoiceById).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown invoices', async () => {
+    findInvoiceById.mockReset().mockResolvedValue(null);
+
+    await expect(useCase.execute('invoice-1', { paymentReference: 'NEFT-123' }, 'admin-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.CORPORATE_INVOICE_NOT_FOUND,
+      statusCode: 404,
+    });
+  });
+});
@@ -0,0 +1,93 @@
+import { injectable, inject } from 'tsyringe';
+import { IMarkCorporateInvoicePaidUseCase } from '../../interface/corporate/mark_corporate_invoice_paid_use_case.interface';
+import { ICorporateInvoiceRepository } from '../../../../domain/repositories/corporate_invoice_repository.interface';
+import { ICorporateBookingRepository } from '../../../../domain/repositories/corporate_booking_repository.interface';
+import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
+import { MarkCorporateInvoicePaidRequest, CorporateInvoiceResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { Payment, PaymentStatus } from '../../../../domain/entities/payment.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for recording the payment of a corporate invoice, e.g. a bank transfer
+ * Settles the invoice payments of every reservation billed on it, which frees the account's credit
+ */
+@injectable()
+export class MarkCorporateInvoicePaidUseCase implements IMarkCorporateInvoicePaidUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateInvoiceRepository)
+    private readonly corporateInvoiceRepository: ICorporateInvoiceRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(REPOSITORY_TOKENS.IPaymentRepository)
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(
+    invoiceId: string,
+    request: MarkCorporateInvoicePaidRequest,
+    adminId: string
+  ): Promise<CorporateInvoiceResponse> {
+    const invoice = await this.corporateInvoiceRepository.findById(invoiceId);
+    if (!invoice) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_INVOICE_NOT_FOUND, ERROR_CODES.CORPORATE_INVOICE_NOT_FOUND, 404);
+    }
+
+    if (invoice.isPaid()) {
+      throw new AppError(
+        ERROR_MESSAGES.CORPORATE_INVOICE_ALREADY_PAID,
+        ERROR_CODES.CORPORATE_INVOICE_ALREADY_PAID,
+        400
+      );
+    }
+
+    const paidAt = new Date();
+    await this.corporateInvoiceRepository.updateById(invoiceId, {
+      status: 'paid',
+      paidAt,
+      paymentReference: request.paymentReference.trim(),
+    });
+
+    for (const item of invoice.lineItems) {
+      try {
+        const booking = await this.corporateBookingRepository.findById(item.corporateBookingId);
+        if (booking?.paymentId) {
+          await this.paymentRepository.updateById(booking.paymentId, {
+            status: PaymentStatus.SUCCEEDED,
+            transactionId: invoice.invoiceNumber,
+            paidAt,
+          } as Partial<Payment>);
+        }
+      } catch (paymentError) {
+        logger.error(
+          `Failed to settle payment of corporate booking ${item.corporateBookingId}: ${paymentError instanceof Error ? paymentError.message : 'Unknown error'}`
+        );
+        // The invoice is paid, a payment left pending doesn't count against credit
+      }
+    }
+
+    logger.info(`Corporate invoice ${invoice.invoiceNumber} marked as paid by ${adminId}`);
+
+    const updated = await this.corporateInvoiceRepository.findById(invoiceId);
+    if (!updated) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_INVOICE_NOT_FOUND, ERROR_CODES.CORPORATE_INVOICE_NOT_FOUND, 404);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.CORPORATE_INVOICE_MARK_PAID,
+      targetType: AuditTargetType.CORPORATE_INVOICE,
+      targetId: invoiceId,
+      before: invoice,
+      after: updated,
+      metadata: { invoiceNumber: invoice.invoiceNumber, totalAmount: invoice.totalAmount, currency: invoice.currency },
+    });
+
+    return CorporateAccountMapper.toCorporateInvoiceResponse(updated);
+  }
+}
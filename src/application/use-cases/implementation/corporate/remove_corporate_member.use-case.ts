@@ -0,0 +1,55 @@
+import { injectable, inject } from 'tsyringe';
+import { IRemoveCorporateMemberUseCase } from '../../interface/corporate/remove_corporate_member_use_case.interface';
+import { IGetCorporateAccountUseCase } from '../../interface/corporate/get_corporate_account_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccount } from '../../../../domain/entities/corporate_account.entity';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for removing a user from a corporate account
+ * Bookings the user already made stay on the account and are still invoiced
+ */
+@injectable()
+export class RemoveCorporateMemberUseCase implements IRemoveCorporateMemberUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(USE_CASE_TOKENS.GetCorporateAccountUseCase)
+    private readonly getCorporateAccountUseCase: IGetCorporateAccountUseCase,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(corporateAccountId: string, userId: string): Promise<CorporateAccountResponse> {
+    const account = await this.corporateAccountRepository.findById(corporateAccountId);
+    if (!account) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_NOT_FOUND, ERROR_CODES.CORPORATE_ACCOUNT_NOT_FOUND, 404);
+    }
+
+    if (!account.findMember(userId)) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_MEMBER_NOT_FOUND, ERROR_CODES.CORPORATE_MEMBER_NOT_FOUND, 404);
+    }
+
+    const members = account.members.filter((member) => member.userId !== userId);
+    await this.corporateAccountRepository.updateById(corporateAccountId, {
+      members,
+    } as Partial<CorporateAccount>);
+
+    await this.auditLogService.record({
+      action: AuditAction.CORPORATE_MEMBER_REMOVE,
+      targetType: AuditTargetType.CORPORATE_ACCOUNT,
+      targetId: corporateAccountId,
+      before: { members: account.members },
+      after: { members },
+      metadata: { userId },
+    });
+
+    logger.info(`User ${userId} removed from corporate account ${corporateAccountId}`);
+    return this.getCorporateAccountUseCase.execute(corporateAccountId);
+  }
+}
@@ -0,0 +1,107 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { ReviewCorporateBookingUseCase } from './review_corporate_booking.use-case';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import {
+  createCorporateAccountFixture,
+  createCorporateBookingFixture,
+} from '../../../../shared/test/fixtures/corporate.fixture';
+import { ERROR_CODES, NotificationType } from '../../../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('ReviewCorporateBookingUseCase', () => {
+  let useCase: ReviewCorporateBookingUseCase;
+  let findBookingById: ReturnType<typeof vi.fn>;
+  let updateBookingById: ReturnType<typeof vi.fn>;
+  let getCreditSummary: ReturnType<typeof vi.fn>;
+  let completeBooking: ReturnType<typeof vi.fn>;
+  let sendNotification: ReturnType<typeof vi.fn>;
+
+  const pendingBooking = createCorporateBookingFixture({ corporateBookingId: 'booking-1', amount: 60000 });
+
+  beforeEach(() => {
+    clearContainer();
+
+    findBookingById = vi.fn().mockResolvedValue(pendingBooking);
+    updateBookingById = vi.fn().mockResolvedValue(undefined);
+    getCreditSummary = vi.fn().mockResolvedValue({ availableCredit: 100000 });
+    completeBooking = vi
+      .fn()
+      .mockResolvedValue(createCorporateBookingFixture({ corporateBookingId: 'booking-1', status: 'booked' }));
+    sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateAccountRepository, {
+      findById: vi.fn().mockResolvedValue(createCorporateAccountFixture({ approvalThreshold: 50000 })),
+    });
+    container.registerInstance(REPOSITORY_TOKENS.ICorporateBookingRepository, {
+      findById: findBookingById,
+      updateById: updateBookingById,
+    });
+    container.registerInstance(SERVICE_TOKENS.ICorporateCreditService, { getCreditSummary });
+    container.registerInstance(USE_CASE_TOKENS.CompleteCorporateBookingUseCase, { execute: completeBooking });
+    container.registerInstance(SERVICE_TOKENS.INotificationService, { sendNotification });
+
+    useCase = container.resolve(ReviewCorporateBookingUseCase);
+  });
+
+  it('should book an approved booking and tell the requester', async () => {
+    const result = await useCase.execute('booking-1', 'account-admin-1', { decision: 'approve' });
+
+    expect(getCreditSummary).toHaveBeenCalledWith(expect.anything(), 'booking-1');
+    expect(updateBookingById).toHaveBeenCalledWith(
+      'booking-1',
+      expect.objectContaining({ reviewedBy: 'account-admin-1' })
+    );
+    expect(completeBooking).toHaveBeenCalledWith('booking-1');
+    expect(result.status).toBe('booked');
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'booker-1', type: NotificationType.CORPORATE_BOOKING_APPROVED })
+    );
+  });
+
+  it('should reject a booking with the reason and tell the requester', async () => {
+    await useCase.execute('booking-1', 'account-admin-1', { decision: 'reject', reason: 'Over budget' });
+
+    expect(updateBookingById).toHaveBeenCalledWith(
+      'booking-1',
+      expect.objectContaining({ status: 'rejected', rejectionReason: 'Over budget' })
+    );
+    expect(completeBooking).not.toHaveBeenCalled();
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'booker-1', type: NotificationType.CORPORATE_BOOKING_REJECTED })
+    );
+  });
+
+  it('should not approve a booking the account no longer has credit for', async () => {
+    getCreditSummary.mockResolvedValue({ availableCredit: 50000 });
+
+    await expect(useCase.execute('booking-1', 'account-admin-1', { decision: 'approve' })).rejects.toMatchObject({
+      errorCode: ERROR_CODES.CORPORATE_CREDIT_LIMIT_EXCEEDED,
+    });
+    expect(completeBooking).not.toHaveBeenCalled();
+  });
+
+  it('should only let account admins review bookings', async () => {
+    await expect(useCase.execute('booking-1', 'booker-1', { decision: 'approve' })).rejects.toMatchObject({
+      errorCode: ERROR_CODES.CORPORATE_APPROVAL_FORBIDDEN,
+      statusCode: 403,
+    });
+  });
+
+  it('should not review a booking that was already decided', async () => {
+    findBookingById.mockResolvedValue(createCorporateBookingFixture({ corporateBookingId: 'booking-1', status: 'booked' }));
+
+    await expect(useCase.execute('booking-1', 'account-admin-1', { decision: 'reject' })).rejects.toMatchObject({
+      errorCode: ERROR_CODES.CORPORATE_BOOKING_NOT_PENDING,
+    });
+  });
+});
@@ -0,0 +1,122 @@
+import { injectable, inject } from 'tsyringe';
+import { IReviewCorporateBookingUseCase } from '../../interface/corporate/review_corporate_booking_use_case.interface';
+import { ICompleteCorporateBookingUseCase } from '../../interface/corporate/complete_corporate_booking_use_case.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateBookingRepository } from '../../../../domain/repositories/corporate_booking_repository.interface';
+import { ICorporateCreditService } from '../../../../domain/services/corporate_credit_service.interface';
+import { ReviewCorporateBookingRequest, CorporateBookingResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { CorporateBooking } from '../../../../domain/entities/corporate_booking.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { NotificationType, ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for an account admin approving or rejecting a booking over the approval threshold
+ * Credit is checked again on approval since other bookings may have used it in the meantime
+ */
+@injectable()
+export class ReviewCorporateBookingUseCase implements IReviewCorporateBookingUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(SERVICE_TOKENS.ICorporateCreditService)
+    private readonly corporateCreditService: ICorporateCreditService,
+    @inject(USE_CASE_TOKENS.CompleteCorporateBookingUseCase)
+    private readonly completeCorporateBookingUseCase: ICompleteCorporateBookingUseCase,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async execute(
+    corporateBookingId: string,
+    userId: string,
+    request: ReviewCorporateBookingRequest
+  ): Promise<CorporateBookingResponse> {
+    const booking = await this.corporateBookingRepository.findById(corporateBookingId);
+    if (!booking) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_BOOKING_NOT_FOUND, ERROR_CODES.CORPORATE_BOOKING_NOT_FOUND, 404);
+    }
+
+    const account = await this.corporateAccountRepository.findById(booking.corporateAccountId);
+    if (!account || !account.findMember(userId)) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_BOOKING_NOT_FOUND, ERROR_CODES.CORPORATE_BOOKING_NOT_FOUND, 404);
+    }
+
+    if (!account.canApprove(userId)) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_APPROVAL_FORBIDDEN, ERROR_CODES.CORPORATE_APPROVAL_FORBIDDEN, 403);
+    }
+
+    if (!booking.isPendingApproval()) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_BOOKING_NOT_PENDING, ERROR_CODES.CORPORATE_BOOKING_NOT_PENDING, 400);
+    }
+
+    const now = new Date();
+    let reviewed: CorporateBooking;
+
+    if (request.decision === 'reject') {
+      await this.corporateBookingRepository.updateById(corporateBookingId, {
+        status: 'rejected',
+        reviewedBy: userId,
+        reviewedAt: now,
+        rejectionReason: request.reason,
+      });
+      reviewed = (await this.corporateBookingRepository.findById(corporateBookingId)) ?? booking;
+      logger.info(`Corporate booking ${corporateBookingId} rejected by ${userId}`);
+    } else {
+      if (!account.isActive()) {
+        throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_INACTIVE, ERROR_CODES.CORPORATE_ACCOUNT_INACTIVE, 400);
+      }
+
+      const credit = await this.corporateCreditService.getCreditSummary(account, corporateBookingId);
+      if (booking.amount > credit.availableCredit) {
+        throw new AppError(
+          ERROR_MESSAGES.CORPORATE_CREDIT_LIMIT_EXCEEDED,
+          ERROR_CODES.CORPORATE_CREDIT_LIMIT_EXCEEDED,
+          400
+        );
+      }
+
+      await this.corporateBookingRepository.updateById(corporateBookingId, {
+        reviewedBy: userId,
+        reviewedAt: now,
+      });
+      reviewed = await this.completeCorporateBookingUseCase.execute(corporateBookingId);
+      logger.info(`Corporate booking ${corporateBookingId} approved by ${userId}`);
+    }
+
+    await this.notifyRequester(reviewed, request.decision);
+    return CorporateAccountMapper.toCorporateBookingResponse(reviewed);
+  }
+
+  private async notifyRequester(booking: CorporateBooking, decision: 'approve' | 'reject'): Promise<void> {
+    try {
+      await this.notificationService.sendNotification({
+        userId: booking.requestedBy,
+        type:
+          decision === 'approve'
+            ? NotificationType.CORPORATE_BOOKING_APPROVED
+            : NotificationType.CORPORATE_BOOKING_REJECTED,
+        title: decision === 'approve' ? 'Booking Approved' : 'Booking Rejected',
+        message:
+          decision === 'approve'
+            ? 'Your booking on account has been approved and your reservation is confirmed.'
+            : `Your booking on account has been rejected${booking.rejectionReason ? `: ${booking.rejectionReason}` : '.'}`,
+        data: {
+          corporateBookingId: booking.corporateBookingId,
+          quoteId: booking.quoteId,
+          reservationId: booking.reservationId,
+        },
+      });
+    } catch (notificationError) {
+      logger.error(
+        `Failed to notify requester of corporate booking ${booking.corporateBookingId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+      // Don't fail the review if the notification fails
+    }
+  }
+}
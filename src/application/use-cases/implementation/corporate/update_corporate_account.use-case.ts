@@ -0,0 +1,105 @@
+import { injectable, inject } from 'tsyringe';
+import { IUpdateCorporateAccountUseCase } from '../../interface/corporate/update_corporate_account_use_case.interface';
+import { ICorporateAccountRepository } from '../../../../domain/repositories/corporate_account_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ICorporateCreditService } from '../../../../domain/services/corporate_credit_service.interface';
+import { UpdateCorporateAccountRequest, CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+import { CorporateAccountMapper } from '../../../mapper/corporate_account.mapper';
+import { CorporateAccount } from '../../../../domain/entities/corporate_account.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for updating a corporate account
+ * Lowering the credit limit doesn't affect bookings already made, only new ones are checked against it
+ */
+@injectable()
+export class UpdateCorporateAccountUseCase implements IUpdateCorporateAccountUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.ICorporateCreditService)
+    private readonly corporateCreditService: ICorporateCreditService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(corporateAccountId: string, request: UpdateCorporateAccountRequest): Promise<CorporateAccountResponse> {
+    if (!corporateAccountId || typeof corporateAccountId !== 'string' || corporateAccountId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_CORPORATE_ACCOUNT_ID', 400);
+    }
+
+    const account = await this.corporateAccountRepository.findById(corporateAccountId);
+    if (!account) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_NOT_FOUND, ERROR_CODES.CORPORATE_ACCOUNT_NOT_FOUND, 404);
+    }
+
+    // Build update object (plain object for MongoDB update)
+    const update: Record<string, unknown> = {};
+
+    if (request.name !== undefined) {
+      update.name = request.name.trim();
+    }
+
+    if (request.billingContact !== undefined) {
+      update.billingContact = {
+        name: request.billingContact.name.trim(),
+        email: request.billingContact.email.trim().toLowerCase(),
+        phoneNumber: request.billingContact.phoneNumber,
+      };
+    }
+
+    if (request.billingAddress !== undefined) {
+      update.billingAddress = request.billingAddress;
+    }
+
+    if (request.taxId !== undefined) {
+      update.taxId = request.taxId;
+    }
+
+    if (request.creditLimit !== undefined) {
+      update.creditLimit = request.creditLimit;
+    }
+
+    if (request.paymentTermsDays !== undefined) {
+      update.paymentTermsDays = request.paymentTermsDays;
+    }
+
+    // null clears the threshold so no booking needs approval
+    if (request.approvalThreshold !== undefined) {
+      update.approvalThreshold = request.approvalThreshold;
+    }
+
+    if (request.status !== undefined) {
+      update.status = request.status;
+    }
+
+    await this.corporateAccountRepository.updateById(corporateAccountId, update as Partial<CorporateAccount>);
+
+    const updated = await this.corporateAccountRepository.findById(corporateAccountId);
+    if (!updated) {
+      throw new AppError(ERROR_MESSAGES.CORPORATE_ACCOUNT_NOT_FOUND, ERROR_CODES.CORPORATE_ACCOUNT_NOT_FOUND, 404);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.CORPORATE_ACCOUNT_UPDATE,
+      targetType: AuditTargetType.CORPORATE_ACCOUNT,
+      targetId: corporateAccountId,
+      before: account,
+      after: updated,
+    });
+
+    const [credit, users] = await Promise.all([
+      this.corporateCreditService.getCreditSummary(updated),
+      this.userRepository.findByIds(updated.members.map((member) => member.userId)),
+    ]);
+
+    logger.info(`Corporate account ${corporateAccountId} updated`);
+    return CorporateAccountMapper.toCorporateAccountResponse(updated, credit, Array.from(users.values()));
+  }
+}
@@ -4,7 +4,7 @@ import { ICreateDriverUseCase } from '../../interface/driver/create_driver_use_c
 import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
 import { CreateDriverRequest, CreateDriverResponse } from '../../../dtos/driver.dto';
 import { Driver } from '../../../../domain/entities/driver.entity';
-import { DriverStatus, ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { DriverStatus, ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { hashPassword } from '../../../../shared/utils/password.util';
 import { DriverMapper } from '../../../mapper/driver.mapper';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
@@ -12,6 +12,7 @@ import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for creating a driver
@@ -22,6 +23,8 @@ export class CreateDriverUseCase implements ICreateDriverUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IDriverRepository)
     private readonly driverRepository: IDriverRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(request: CreateDriverRequest): Promise<CreateDriverResponse> {
@@ -101,6 +104,13 @@ export class CreateDriverUseCase implements ICreateDriverUseCase {
     // Save to repository
     await this.driverRepository.createDriver(driver, passwordHash);
 
+    await this.auditLogService.record({
+      action: AuditAction.DRIVER_CREATE,
+      targetType: AuditTargetType.DRIVER,
+      targetId: driverId,
+      after: driver,
+    });
+
     // Emit socket event for admin dashboard
     try {
       const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
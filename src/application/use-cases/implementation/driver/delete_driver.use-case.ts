@@ -2,11 +2,12 @@ import { injectable, inject } from 'tsyringe';
 import { IDeleteDriverUseCase } from '../../interface/driver/delete_driver_use_case.interface';
 import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES, SUCCESS_MESSAGES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, SUCCESS_MESSAGES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for deleting a driver (admin)
@@ -17,6 +18,8 @@ export class DeleteDriverUseCase implements IDeleteDriverUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IDriverRepository)
     private readonly driverRepository: IDriverRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(driverId: string): Promise<{ message: string }> {
@@ -35,6 +38,13 @@ export class DeleteDriverUseCase implements IDeleteDriverUseCase {
     // Soft delete driver
     await this.driverRepository.softDelete(driverId);
 
+    await this.auditLogService.record({
+      action: AuditAction.DRIVER_DELETE,
+      targetType: AuditTargetType.DRIVER,
+      targetId: driverId,
+      before: existingDriver,
+    });
+
     // Emit socket event for admin dashboard
     try {
       const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
@@ -3,9 +3,21 @@ import { IEndTripUseCase } from '../../interface/driver/end_trip_use_case.interf
 import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
 import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
 import { IReservationChargeRepository } from '../../../../domain/repositories/reservation_charge_repository.interface';
+import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
+import { IVehicleTripLogRepository } from '../../../../domain/repositories/vehicle_trip_log_repository.interface';
 import { Reservation } from '../../../../domain/entities/reservation.entity';
-import { ReservationStatus, ERROR_MESSAGES, DRIVER_ASSIGNMENT_CONFIG } from '../../../../shared/constants';
+import { Vehicle } from '../../../../domain/entities/vehicle.entity';
+import { IFuelFill, VehicleTripLog } from '../../../../domain/entities/vehicle_trip_log.entity';
+import { EndTripRequest } from '../../../dtos/trip_log.dto';
+import {
+  ReservationStatus,
+  ERROR_MESSAGES,
+  ERROR_CODES,
+  DRIVER_ASSIGNMENT_CONFIG,
+  FUEL_LOG_CONFIG,
+} from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
 import { logger } from '../../../../shared/logger';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { IRedisConnection } from '../../../../domain/services/redis_connection.interface';
@@ -15,9 +27,20 @@ import { tripAutoCompleteQueue } from '../../../../infrastructure/queue/trip_aut
 import { container } from 'tsyringe';
 import { CalculateDriverEarningsUseCase } from './calculate_driver_earnings.use-case';
 
+/**
+ * End odometer reading and fuel fills for one vehicle trip log
+ */
+interface EndReading {
+  log: VehicleTripLog;
+  endOdometer?: number;
+  fuelFills?: IFuelFill[];
+}
+
 /**
  * Use case for ending a trip
  * Driver explicitly ends a trip, setting completedAt timestamp
+ * Optional end odometer readings and fuel fills close the vehicle trip logs and
+ * refresh each vehicle's rolling-average fuel consumption
  */
 @injectable()
 export class EndTripUseCase implements IEndTripUseCase {
@@ -27,10 +50,14 @@ export class EndTripUseCase implements IEndTripUseCase {
     @inject(REPOSITORY_TOKENS.IReservationChargeRepository)
     private readonly chargeRepository: IReservationChargeRepository,
     @inject(USE_CASE_TOKENS.CalculateDriverEarningsUseCase)
-    private readonly calculateDriverEarningsUseCase: CalculateDriverEarningsUseCase
+    private readonly calculateDriverEarningsUseCase: CalculateDriverEarningsUseCase,
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleTripLogRepository)
+    private readonly vehicleTripLogRepository: IVehicleTripLogRepository
   ) {}
 
-  async execute(driverId: string, reservationId: string): Promise<Reservation> {
+  async execute(driverId: string, reservationId: string, request?: EndTripRequest): Promise<Reservation> {
     // Input validation
     if (!driverId || typeof driverId !== 'string' || driverId.trim().length === 0) {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_DRIVER_ID', 400);
@@ -62,6 +89,9 @@ export class EndTripUseCase implements IEndTripUseCase {
       throw new AppError('Trip has already been completed', 'TRIP_ALREADY_COMPLETED', 400);
     }
 
+    // Validate odometer readings and fuel fills before anything is written
+    const endReadings = await this.validateEndReadings(reservation, request);
+
     // Cancel auto-complete job if it exists (driver is ending trip manually)
     try {
       const jobs = await tripAutoCompleteQueue.getJobs(['delayed', 'waiting', 'active']);
@@ -84,14 +114,20 @@ export class EndTripUseCase implements IEndTripUseCase {
     if (unpaidCharges.length > 0) {
       const totalUnpaid = unpaidCharges.reduce((sum, charge) => sum + charge.amount, 0);
       throw new AppError(
-        `Cannot complete trip with unpaid balance of ${totalUnpaid} ${unpaidCharges[0]?.currency || 'INR'}. Please ensure all charges are paid before completing the trip.`,
+        `Cannot complete trip with unpaid balance of ${totalUnpaid} ${normalizeCurrency(unpaidCharges[0]?.currency)}. Please ensure all charges are paid before completing the trip.`,
         'UNPAID_CHARGES_BLOCK_COMPLETION',
         400
       );
     }
 
-    // Update reservation with completedAt and optionally status to COMPLETED
     const now = new Date();
+
+    // Close trip logs before the trip is marked completed so a failed end can simply be retried
+    if (endReadings.length > 0) {
+      await this.recordEndReadings(endReadings, now);
+    }
+
+    // Update reservation with completedAt and optionally status to COMPLETED
     const update: Partial<import('../../../../infrastructure/database/mongodb/models/reservation.model').IReservationModel> = {
       completedAt: now,
       // Optionally update status to COMPLETED if not already terminal
@@ -167,9 +203,127 @@ export class EndTripUseCase implements IEndTripUseCase {
       );
     }
 
+    // Advance odometers and refresh measured consumption (non-blocking - don't fail trip end if this fails)
+    if (endReadings.length > 0) {
+      try {
+        await this.updateVehicles(endReadings);
+      } catch (vehicleError) {
+        logger.error(
+          `Error updating vehicle odometer/fuel consumption for reservation ${reservationId}: ${vehicleError instanceof Error ? vehicleError.message : 'Unknown error'}`
+        );
+      }
+    }
+
     logger.info(`Driver ${driverId} ended trip: ${reservationId}. Cooldown period started (24 hours)`);
 
     return updatedReservation;
   }
+
+  /**
+   * Matches readings and fuel fills to the trip logs opened on start
+   * Each end reading must not be below the start reading of its log
+   */
+  private async validateEndReadings(reservation: Reservation, request?: EndTripRequest): Promise<EndReading[]> {
+    const readings = request?.odometerReadings ?? [];
+    const fuelFills = request?.fuelFills ?? [];
+    if (readings.length === 0 && fuelFills.length === 0) {
+      return [];
+    }
+
+    const assignedVehicleIds = new Set((reservation.selectedVehicles ?? []).map((v) => v.vehicleId));
+    const logsByVehicle = new Map(
+      (await this.vehicleTripLogRepository.findByReservationId(reservation.reservationId)).map((log) => [
+        log.vehicleId,
+        log,
+      ])
+    );
+    const endReadings = new Map<string, EndReading>();
+
+    const getEndReading = (vehicleId: string): EndReading => {
+      if (!assignedVehicleIds.has(vehicleId)) {
+        throw new AppError(ERROR_MESSAGES.TRIP_VEHICLE_NOT_ASSIGNED, ERROR_CODES.TRIP_VEHICLE_NOT_ASSIGNED, 400);
+      }
+      const log = logsByVehicle.get(vehicleId);
+      if (!log) {
+        throw new AppError(ERROR_MESSAGES.TRIP_LOG_NOT_STARTED, ERROR_CODES.TRIP_LOG_NOT_STARTED, 400);
+      }
+      const existing = endReadings.get(vehicleId) ?? { log };
+      endReadings.set(vehicleId, existing);
+      return existing;
+    };
+
+    for (const reading of readings) {
+      const endReading = getEndReading(reading.vehicleId);
+      if (endReading.endOdometer !== undefined || reading.odometerReading < endReading.log.startOdometer) {
+        throw new AppError(
+          `${ERROR_MESSAGES.INVALID_ODOMETER_READING}. Start reading was ${endReading.log.startOdometer} km`,
+          ERROR_CODES.INVALID_ODOMETER_READING,
+          400
+        );
+      }
+      endReading.endOdometer = reading.odometerReading;
+    }
+
+    for (const fill of fuelFills) {
+      const endReading = getEndReading(fill.vehicleId);
+      endReading.fuelFills = [
+        ...(endReading.fuelFills ?? []),
+        { litres: fill.litres, cost: fill.cost, filledAt: fill.filledAt ? new Date(fill.filledAt) : new Date() },
+      ];
+    }
+
+    return Array.from(endReadings.values());
+  }
+
+  /**
+   * Closes the trip logs
+   * Fuel fills replace any sent by an earlier failed attempt, so retries do not double-count fuel
+   */
+  private async recordEndReadings(endReadings: EndReading[], completedAt: Date): Promise<void> {
+    for (const { log, endOdometer, fuelFills } of endReadings) {
+      await this.vehicleTripLogRepository.updateById(log.logId, {
+        ...(endOdometer !== undefined ? { endOdometer, completedAt } : {}),
+        ...(fuelFills ? { fuelFills } : {}),
+      } as Partial<VehicleTripLog>);
+    }
+  }
+
+  /**
+   * Advances vehicle odometers and recomputes the rolling-average consumption
+   * The average is total distance over total litres across the latest completed trips with fuel fills
+   */
+  private async updateVehicles(endReadings: EndReading[]): Promise<void> {
+    const vehicles = await this.vehicleRepository.findByIds(endReadings.map(({ log }) => log.vehicleId));
+
+    for (const { log, endOdometer } of endReadings) {
+      const vehicle = vehicles.get(log.vehicleId);
+      if (!vehicle || endOdometer === undefined) {
+        continue;
+      }
+
+      const measuredLogs = (
+        await this.vehicleTripLogRepository.findCompletedByVehicleId(vehicle.vehicleId, FUEL_LOG_CONFIG.ROLLING_WINDOW_TRIPS)
+      ).filter((completedLog) => completedLog.getActualKmPerLitre() !== undefined);
+
+      const updateData: Record<string, unknown> = {};
+      if (endOdometer > vehicle.odometerReading) {
+        updateData.odometerReading = endOdometer;
+      }
+      let averageFuelConsumption = vehicle.averageFuelConsumption;
+      if (measuredLogs.length >= FUEL_LOG_CONFIG.MIN_TRIPS_FOR_AVERAGE) {
+        const totalDistance = measuredLogs.reduce((sum, l) => sum + (l.getActualDistanceKm() ?? 0), 0);
+        const totalLitres = measuredLogs.reduce((sum, l) => sum + l.getFuelLitres(), 0);
+        averageFuelConsumption = Math.round((totalDistance / totalLitres) * 100) / 100;
+        updateData.averageFuelConsumption = averageFuelConsumption;
+      }
+
+      if (Object.keys(updateData).length > 0) {
+        await this.vehicleRepository.updateById(vehicle.vehicleId, updateData as Partial<Vehicle>);
+        logger.info(
+          `Vehicle ${vehicle.plateNumber} updated after trip ${log.reservationId}: odometer=${endOdometer}, averageFuelConsumption=${averageFuelConsumption ?? 'n/a'}`
+        );
+      }
+    }
+  }
 }
 
@@ -1,30 +1,39 @@
 import { injectable, inject } from 'tsyringe';
+import { Driver } from '../../../../domain/entities/driver.entity';
 import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
 import { LoginDriverRequest, LoginDriverResponse } from '../../../dtos/driver.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, HTTP_STATUS } from '../../../../shared/constants';
 import { comparePassword } from '../../../../shared/utils/password.util';
 import { DriverMapper } from '../../../mapper/driver.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ILoginDriverUseCase } from '../../interface/driver/login_driver_use_case.interface';
-import { IJWTService } from '../../../../domain/services/jwt_service.interface';
+import { ISessionService, SessionClientInfo } from '../../../../domain/services/session_service.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { IAccountLockoutService } from '../../../../domain/services/account_lockout_service.interface';
+import { AccountLockedEmailData, EmailType } from '../../../../shared/types/email.types';
 
 /**
  * Use case for driver login (mobile app)
  * Validates credentials and generates JWT tokens
  * Drivers can login even if not onboarded, but cannot login if BLOCKED
+ * Repeated failed logins lock the account for a while
  */
 @injectable()
 export class LoginDriverUseCase implements ILoginDriverUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IDriverRepository)
     private readonly driverRepository: IDriverRepository,
-    @inject(SERVICE_TOKENS.IJWTService)
-    private readonly jwtService: IJWTService,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IAccountLockoutService)
+    private readonly accountLockoutService: IAccountLockoutService,
   ) {}
 
-  async execute(request: LoginDriverRequest): Promise<LoginDriverResponse> {
+  async execute(request: LoginDriverRequest, client?: SessionClientInfo): Promise<LoginDriverResponse> {
     // Input validation
     if (!request) {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
@@ -38,10 +47,17 @@ export class LoginDriverUseCase implements ILoginDriverUseCase {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_PASSWORD, 400);
     }
 
+    // Checked before the lookup so unknown emails are locked the same way as real accounts
+    if (await this.accountLockoutService.getLockout('driver', request.email)) {
+      logger.warn(`Login attempt on locked driver account: ${request.email}`);
+      throw new AppError(ERROR_MESSAGES.ACCOUNT_LOCKED, ERROR_CODES.AUTH_ACCOUNT_LOCKED, HTTP_STATUS.TOO_MANY_REQUESTS);
+    }
+
     // Find driver by email
     const driver = await this.driverRepository.findByEmail(request.email);
     if (!driver) {
       logger.warn(`Driver login attempt with non-existent email: ${request.email}`);
+      await this.recordFailedLogin(request.email);
       throw new AppError(ERROR_MESSAGES.INVALID_CREDENTIALS, ERROR_CODES.DRIVER_NOT_FOUND, 401);
     }
 
@@ -56,21 +72,44 @@ export class LoginDriverUseCase implements ILoginDriverUseCase {
     const isValidPassword = await comparePassword(request.password, passwordHash);
     if (!isValidPassword) {
       logger.warn(`Invalid password attempt for driver: ${driver.email}`);
+      await this.recordFailedLogin(request.email, driver);
       throw new AppError(ERROR_MESSAGES.INVALID_CREDENTIALS, ERROR_CODES.INVALID_PASSWORD, 401);
     }
 
-    // Generate JWT tokens
+    await this.accountLockoutService.recordSuccess('driver', request.email);
+
+    // Start a session and generate its JWT tokens
     // Use userId field for consistency with JWTPayload interface (stores driverId)
     const payload = { 
       userId: driver.driverId, 
       email: driver.email, 
       role: 'driver' 
     };
-    const { accessToken, refreshToken } = await this.jwtService.generateTokens(payload);
+    const { accessToken, refreshToken } = await this.sessionService.startSession(payload, client);
 
     logger.info(`Driver logged in successfully: ${driver.email}`);
 
     return DriverMapper.toLoginDriverResponse(driver, accessToken, refreshToken);
   }
-}
 
+  /**
+   * Counts a failed login and, when it locks the account, notifies the driver if there is one
+   */
+  private async recordFailedLogin(email: string, driver?: Driver): Promise<void> {
+    const lockout = await this.accountLockoutService.recordFailure('driver', email);
+    if (!lockout) {
+      return;
+    }
+
+    if (driver) {
+      try {
+        const emailData: AccountLockedEmailData = { email: driver.email, fullName: driver.fullName, lockedUntil: lockout.lockedUntil };
+        await this.emailService.sendEmail(EmailType.ACCOUNT_LOCKED, emailData);
+      } catch (error) {
+        logger.error(`Error sending account locked email to driver ${email}:`, error);
+      }
+    }
+
+    throw new AppError(ERROR_MESSAGES.ACCOUNT_LOCKED, ERROR_CODES.AUTH_ACCOUNT_LOCKED, HTTP_STATUS.TOO_MANY_REQUESTS);
+  }
+}
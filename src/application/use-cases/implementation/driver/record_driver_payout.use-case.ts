@@ -1,10 +1,11 @@
 import { injectable, inject } from 'tsyringe';
 import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { IRecordDriverPayoutUseCase } from '../../interface/driver/record_driver_payout_use_case.interface';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for recording a driver payout
@@ -14,7 +15,9 @@ import { IRecordDriverPayoutUseCase } from '../../interface/driver/record_driver
 export class RecordDriverPayoutUseCase implements IRecordDriverPayoutUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IDriverRepository)
-    private readonly driverRepository: IDriverRepository
+    private readonly driverRepository: IDriverRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(driverId: string, paymentDate: Date): Promise<void> {
@@ -38,6 +41,15 @@ export class RecordDriverPayoutUseCase implements IRecordDriverPayoutUseCase {
     // Record payout: reset totalEarnings to 0 and update lastPaymentDate
     await this.driverRepository.updateLastPaymentDate(driverId, paymentDate);
 
+    await this.auditLogService.record({
+      action: AuditAction.DRIVER_PAYOUT,
+      targetType: AuditTargetType.DRIVER,
+      targetId: driverId,
+      before: { totalEarnings: driver.totalEarnings, lastPaymentDate: driver.lastPaymentDate },
+      after: { totalEarnings: 0, lastPaymentDate: paymentDate },
+      metadata: { paidAmount: driver.totalEarnings },
+    });
+
     logger.info(`Payout recorded for driver ${driverId}. Total earnings reset to 0.`);
   }
 }
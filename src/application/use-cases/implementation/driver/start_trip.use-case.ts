@@ -4,8 +4,13 @@ import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
 import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
 import { IReservationItineraryRepository } from '../../../../domain/repositories/reservation_itinerary_repository.interface';
+import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
+import { IVehicleTripLogRepository } from '../../../../domain/repositories/vehicle_trip_log_repository.interface';
 import { Reservation } from '../../../../domain/entities/reservation.entity';
-import { ReservationStatus, ERROR_MESSAGES, DriverStatus } from '../../../../shared/constants';
+import { Vehicle } from '../../../../domain/entities/vehicle.entity';
+import { VehicleTripLog } from '../../../../domain/entities/vehicle_trip_log.entity';
+import { StartTripRequest, TripOdometerReadingDto } from '../../../dtos/trip_log.dto';
+import { ReservationStatus, ERROR_MESSAGES, ERROR_CODES, DriverStatus } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { logger } from '../../../../shared/logger';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
@@ -13,6 +18,7 @@ import { driverCooldownQueue } from '../../../../infrastructure/queue/driver_coo
 import { tripAutoCompleteQueue } from '../../../../infrastructure/queue/trip_auto_complete.queue';
 import { deriveTripWindow } from '../../../mapper/driver_dashboard.mapper';
 import { container } from 'tsyringe';
+import { randomUUID } from 'crypto';
 
 const ONE_DAY_MS = 24 * 60 * 60 * 1000;
 
@@ -22,9 +28,18 @@ const TERMINAL_STATUSES = new Set<ReservationStatus>([
   ReservationStatus.REFUNDED,
 ]);
 
+/**
+ * Start odometer reading validated against its vehicle
+ */
+interface StartReading {
+  vehicle: Vehicle;
+  odometerReading: number;
+}
+
 /**
  * Use case for starting a trip
  * Driver explicitly starts a trip, setting startedAt timestamp
+ * Optional start odometer readings open a trip log per vehicle for fuel tracking
  */
 @injectable()
 export class StartTripUseCase implements IStartTripUseCase {
@@ -34,10 +49,14 @@ export class StartTripUseCase implements IStartTripUseCase {
     @inject(REPOSITORY_TOKENS.IDriverRepository)
     private readonly driverRepository: IDriverRepository,
     @inject(REPOSITORY_TOKENS.IReservationItineraryRepository)
-    private readonly itineraryRepository: IReservationItineraryRepository
+    private readonly itineraryRepository: IReservationItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleTripLogRepository)
+    private readonly vehicleTripLogRepository: IVehicleTripLogRepository
   ) {}
 
-  async execute(driverId: string, reservationId: string): Promise<Reservation> {
+  async execute(driverId: string, reservationId: string, request?: StartTripRequest): Promise<Reservation> {
     // Input validation
     if (!driverId || typeof driverId !== 'string' || driverId.trim().length === 0) {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_DRIVER_ID', 400);
@@ -73,6 +92,11 @@ export class StartTripUseCase implements IStartTripUseCase {
       throw new AppError('Trip has already been started', 'TRIP_ALREADY_STARTED', 400);
     }
 
+    // Deposit bookings cannot depart until the balance is paid
+    if (reservation.hasOutstandingBalance()) {
+      throw new AppError(ERROR_MESSAGES.BALANCE_OUTSTANDING, ERROR_CODES.BALANCE_OUTSTANDING, 400);
+    }
+
     // Validate driver doesn't have another active trip
     const driverReservations = await this.reservationRepository.findByAssignedDriverId(driverId);
     const activeTrip = driverReservations.find(
@@ -87,8 +111,17 @@ export class StartTripUseCase implements IStartTripUseCase {
       );
     }
 
-    // Update reservation with startedAt
+    // Validate odometer readings before anything is written
+    const startReadings = await this.validateStartReadings(reservation, request?.odometerReadings ?? []);
+
     const now = new Date();
+
+    // Open trip logs before the trip is marked started so a failed start can simply be retried
+    if (startReadings.length > 0) {
+      await this.recordStartReadings(reservation, driverId, startReadings, now);
+    }
+
+    // Update reservation with startedAt
     const update: Partial<import('../../../../infrastructure/database/mongodb/models/reservation.model').IReservationModel> = {
       startedAt: now,
     };
@@ -194,5 +227,101 @@ export class StartTripUseCase implements IStartTripUseCase {
 
     return updatedReservation;
   }
+
+  /**
+   * Checks that each reading belongs to a vehicle on the reservation and does not roll its odometer back
+   */
+  private async validateStartReadings(
+    reservation: Reservation,
+    readings: TripOdometerReadingDto[]
+  ): Promise<StartReading[]> {
+    if (readings.length === 0) {
+      return [];
+    }
+
+    const assignedVehicleIds = new Set((reservation.selectedVehicles ?? []).map((v) => v.vehicleId));
+    const seenVehicleIds = new Set<string>();
+    for (const reading of readings) {
+      if (!assignedVehicleIds.has(reading.vehicleId)) {
+        throw new AppError(ERROR_MESSAGES.TRIP_VEHICLE_NOT_ASSIGNED, ERROR_CODES.TRIP_VEHICLE_NOT_ASSIGNED, 400);
+      }
+      if (seenVehicleIds.has(reading.vehicleId)) {
+        throw new AppError(ERROR_MESSAGES.INVALID_ODOMETER_READING, ERROR_CODES.INVALID_ODOMETER_READING, 400);
+      }
+      seenVehicleIds.add(reading.vehicleId);
+    }
+
+    const vehicles = await this.vehicleRepository.findByIds(Array.from(seenVehicleIds));
+
+    return readings.map((reading) => {
+      const vehicle = vehicles.get(reading.vehicleId);
+      if (!vehicle) {
+        throw new AppError(ERROR_MESSAGES.VEHICLE_NOT_FOUND, ERROR_CODES.VEHICLE_NOT_FOUND, 404);
+      }
+      if (reading.odometerReading < vehicle.odometerReading) {
+        throw new AppError(
+          `${ERROR_MESSAGES.INVALID_ODOMETER_READING}. Last recorded reading for ${vehicle.plateNumber} is ${vehicle.odometerReading} km`,
+          ERROR_CODES.INVALID_ODOMETER_READING,
+          400
+        );
+      }
+      return { vehicle, odometerReading: reading.odometerReading };
+    });
+  }
+
+  /**
+   * Opens (or reopens) a trip log per vehicle, snapshotting the route distance and rated consumption,
+   * and advances each vehicle's odometer
+   */
+  private async recordStartReadings(
+    reservation: Reservation,
+    driverId: string,
+    readings: StartReading[],
+    startedAt: Date
+  ): Promise<void> {
+    const estimatedDistanceKm =
+      (reservation.routeData?.outbound?.totalDistance ?? 0) + (reservation.routeData?.return?.totalDistance ?? 0);
+    const existingLogs = new Map(
+      (await this.vehicleTripLogRepository.findByReservationId(reservation.reservationId)).map((log) => [
+        log.vehicleId,
+        log,
+      ])
+    );
+
+    for (const { vehicle, odometerReading } of readings) {
+      const existingLog = existingLogs.get(vehicle.vehicleId);
+      if (existingLog) {
+        await this.vehicleTripLogRepository.updateById(existingLog.logId, {
+          driverId,
+          startOdometer: odometerReading,
+          estimatedDistanceKm,
+          estimatedKmPerLitre: vehicle.fuelConsumption,
+          startedAt,
+        } as Partial<VehicleTripLog>);
+      } else {
+        await this.vehicleTripLogRepository.create(
+          new VehicleTripLog(
+            randomUUID(),
+            reservation.reservationId,
+            vehicle.vehicleId,
+            driverId,
+            odometerReading,
+            estimatedDistanceKm,
+            vehicle.fuelConsumption,
+            [],
+            startedAt,
+            startedAt,
+            startedAt
+          )
+        );
+      }
+
+      if (odometerReading > vehicle.odometerReading) {
+        await this.vehicleRepository.updateById(vehicle.vehicleId, { odometerReading } as Partial<Vehicle>);
+      }
+    }
+
+    logger.info(`Recorded start odometer readings for ${readings.length} vehicle(s) on reservation ${reservation.reservationId}`);
+  }
 }
 
@@ -0,0 +1,52 @@
+import { injectable, inject } from 'tsyringe';
+import { IUnlockDriverUseCase } from '../../interface/driver/unlock_driver_use_case.interface';
+import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
+import { IAccountLockoutService } from '../../../../domain/services/account_lockout_service.interface';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+import { UnlockDriverResponse } from '../../../dtos/driver.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for unlocking a driver account (admin)
+ * Lifts a lockout from repeated failed logins and forgets the failures that led to it
+ */
+@injectable()
+export class UnlockDriverUseCase implements IUnlockDriverUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IDriverRepository)
+    private readonly driverRepository: IDriverRepository,
+    @inject(SERVICE_TOKENS.IAccountLockoutService)
+    private readonly accountLockoutService: IAccountLockoutService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(driverId: string): Promise<UnlockDriverResponse> {
+    // Input validation
+    if (!driverId || typeof driverId !== 'string' || driverId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    const driver = await this.driverRepository.findById(driverId);
+    if (!driver) {
+      logger.warn(`Admin attempt to unlock non-existent driver: ${driverId}`);
+      throw new AppError(ERROR_MESSAGES.DRIVER_NOT_FOUND, ERROR_CODES.DRIVER_NOT_FOUND, 404);
+    }
+
+    const wasLocked = await this.accountLockoutService.unlock('driver', driver.email);
+
+    await this.auditLogService.record({
+      action: AuditAction.DRIVER_UNLOCK,
+      targetType: AuditTargetType.DRIVER,
+      targetId: driverId,
+      metadata: { wasLocked },
+    });
+
+    logger.info(`Admin unlocked driver: ${driver.email} (${driverId})${wasLocked ? '' : ' - was not locked'}`);
+
+    return { driverId, email: driver.email, wasLocked };
+  }
+}
@@ -3,12 +3,13 @@ import { IUpdateDriverUseCase } from '../../interface/driver/update_driver_use_c
 import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
 import { UpdateDriverRequest, UpdateDriverResponse } from '../../../dtos/driver.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { DriverMapper } from '../../../mapper/driver.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating driver details (admin)
@@ -20,6 +21,8 @@ export class UpdateDriverUseCase implements IUpdateDriverUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IDriverRepository)
     private readonly driverRepository: IDriverRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(driverId: string, request: UpdateDriverRequest): Promise<UpdateDriverResponse> {
@@ -98,6 +101,14 @@ export class UpdateDriverUseCase implements IUpdateDriverUseCase {
     // Update driver profile
     const updatedDriver = await this.driverRepository.updateDriverProfile(driverId, updates);
 
+    await this.auditLogService.record({
+      action: AuditAction.DRIVER_UPDATE,
+      targetType: AuditTargetType.DRIVER,
+      targetId: driverId,
+      before: existingDriver,
+      after: updatedDriver,
+    });
+
     // Emit socket event for admin dashboard
     try {
       const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
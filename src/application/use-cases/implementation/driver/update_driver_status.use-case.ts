@@ -4,12 +4,13 @@ import { IDriverRepository } from '../../../../domain/repositories/driver_reposi
 import { IQueueService } from '../../../../domain/services/queue_service.interface';
 import { UpdateDriverStatusRequest, UpdateDriverStatusResponse } from '../../../dtos/driver.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES, DriverStatus } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, DriverStatus, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { DriverMapper } from '../../../mapper/driver.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating driver status (admin)
@@ -21,7 +22,9 @@ export class UpdateDriverStatusUseCase implements IUpdateDriverStatusUseCase {
     @inject(REPOSITORY_TOKENS.IDriverRepository)
     private readonly driverRepository: IDriverRepository,
     @inject(SERVICE_TOKENS.IQueueService)
-    private readonly queueService: IQueueService
+    private readonly queueService: IQueueService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(driverId: string, request: UpdateDriverStatusRequest): Promise<UpdateDriverStatusResponse> {
@@ -52,6 +55,14 @@ export class UpdateDriverStatusUseCase implements IUpdateDriverStatusUseCase {
     // Update driver status
     const updatedDriver = await this.driverRepository.updateDriverStatus(driverId, request.status);
 
+    await this.auditLogService.record({
+      action: AuditAction.DRIVER_STATUS_CHANGE,
+      targetType: AuditTargetType.DRIVER,
+      targetId: driverId,
+      before: existingDriver,
+      after: updatedDriver,
+    });
+
     // Emit socket event for admin dashboard
     try {
       const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
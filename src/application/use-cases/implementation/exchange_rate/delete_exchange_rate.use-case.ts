@@ -0,0 +1,44 @@
+import { injectable, inject } from 'tsyringe';
+import { IDeleteExchangeRateUseCase } from '../../interface/exchange_rate/delete_exchange_rate_use_case.interface';
+import { IExchangeRateRepository } from '../../../../domain/repositories/exchange_rate_repository.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for deleting an exchange rate
+ * New quotes can no longer be priced in that currency; existing quotes are unaffected
+ */
+@injectable()
+export class DeleteExchangeRateUseCase implements IDeleteExchangeRateUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IExchangeRateRepository)
+    private readonly exchangeRateRepository: IExchangeRateRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(exchangeRateId: string): Promise<void> {
+    if (!exchangeRateId || typeof exchangeRateId !== 'string' || exchangeRateId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_EXCHANGE_RATE_ID', 400);
+    }
+
+    const exchangeRate = await this.exchangeRateRepository.findById(exchangeRateId);
+    if (!exchangeRate) {
+      throw new AppError(ERROR_MESSAGES.EXCHANGE_RATE_NOT_FOUND, ERROR_CODES.EXCHANGE_RATE_NOT_FOUND, 404);
+    }
+
+    await this.exchangeRateRepository.deleteById(exchangeRateId);
+
+    await this.auditLogService.record({
+      action: AuditAction.EXCHANGE_RATE_DELETE,
+      targetType: AuditTargetType.EXCHANGE_RATE,
+      targetId: exchangeRateId,
+      before: exchangeRate,
+    });
+
+    logger.info(`Exchange rate ${exchangeRate.baseCurrency}->${exchangeRate.currency} deleted`);
+  }
+}
@@ -0,0 +1,37 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetExchangeRatesUseCase } from '../../interface/exchange_rate/get_exchange_rates_use_case.interface';
+import { IExchangeRateRepository } from '../../../../domain/repositories/exchange_rate_repository.interface';
+import { IExchangeRateService } from '../../../../domain/services/exchange_rate_service.interface';
+import { ExchangeRateListResponse } from '../../../dtos/exchange_rate.dto';
+import { ExchangeRateMapper } from '../../../mapper/exchange_rate.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for listing exchange rates
+ * Also returns the currencies quotes can currently be priced in
+ */
+@injectable()
+export class GetExchangeRatesUseCase implements IGetExchangeRatesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IExchangeRateRepository)
+    private readonly exchangeRateRepository: IExchangeRateRepository,
+    @inject(SERVICE_TOKENS.IExchangeRateService)
+    private readonly exchangeRateService: IExchangeRateService
+  ) {}
+
+  async execute(): Promise<ExchangeRateListResponse> {
+    logger.info('Fetching exchange rates');
+
+    const [exchangeRates, supportedCurrencies] = await Promise.all([
+      this.exchangeRateRepository.findAll(),
+      this.exchangeRateService.getSupportedCurrencies(),
+    ]);
+
+    return {
+      baseCurrency: supportedCurrencies[0],
+      supportedCurrencies,
+      exchangeRates: exchangeRates.map((exchangeRate) => ExchangeRateMapper.toExchangeRateResponse(exchangeRate)),
+    };
+  }
+}
@@ -0,0 +1,88 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { IUpsertExchangeRateUseCase } from '../../interface/exchange_rate/upsert_exchange_rate_use_case.interface';
+import { IExchangeRateRepository } from '../../../../domain/repositories/exchange_rate_repository.interface';
+import { IPricingConfigRepository } from '../../../../domain/repositories/pricing_config_repository.interface';
+import { ExchangeRateResponse, UpsertExchangeRateRequest } from '../../../dtos/exchange_rate.dto';
+import { ExchangeRateMapper } from '../../../mapper/exchange_rate.mapper';
+import { ExchangeRate } from '../../../../domain/entities/exchange_rate.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for creating or updating an exchange rate
+ * Quotes priced earlier keep the rate they were snapshotted with
+ */
+@injectable()
+export class UpsertExchangeRateUseCase implements IUpsertExchangeRateUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IExchangeRateRepository)
+    private readonly exchangeRateRepository: IExchangeRateRepository,
+    @inject(REPOSITORY_TOKENS.IPricingConfigRepository)
+    private readonly pricingConfigRepository: IPricingConfigRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(request: UpsertExchangeRateRequest, updatedBy: string): Promise<ExchangeRateResponse> {
+    if (!updatedBy || typeof updatedBy !== 'string' || updatedBy.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    let baseCurrency = request.baseCurrency;
+    if (!baseCurrency) {
+      const pricingConfig = await this.pricingConfigRepository.findActive();
+      baseCurrency = pricingConfig?.currency;
+    }
+
+    const base = normalizeCurrency(baseCurrency);
+    const currency = normalizeCurrency(request.currency);
+
+    if (base === currency || !Number.isFinite(request.rate) || request.rate <= 0) {
+      throw new AppError(ERROR_MESSAGES.INVALID_EXCHANGE_RATE, ERROR_CODES.INVALID_EXCHANGE_RATE, 400);
+    }
+
+    const existing = await this.exchangeRateRepository.findByCurrencyPair(base, currency);
+
+    if (existing) {
+      await this.exchangeRateRepository.updateById(existing.exchangeRateId, {
+        rate: request.rate,
+        updatedBy,
+      } as Partial<ExchangeRate>);
+
+      const updated = await this.exchangeRateRepository.findById(existing.exchangeRateId);
+      if (!updated) {
+        throw new AppError(ERROR_MESSAGES.EXCHANGE_RATE_NOT_FOUND, ERROR_CODES.EXCHANGE_RATE_NOT_FOUND, 404);
+      }
+
+      await this.auditLogService.record({
+        action: AuditAction.EXCHANGE_RATE_UPDATE,
+        targetType: AuditTargetType.EXCHANGE_RATE,
+        targetId: existing.exchangeRateId,
+        before: existing,
+        after: updated,
+      });
+
+      logger.info(`Exchange rate ${base}->${currency} updated to ${request.rate} by ${updatedBy}`);
+      return ExchangeRateMapper.toExchangeRateResponse(updated);
+    }
+
+    const now = new Date();
+    const exchangeRate = new ExchangeRate(randomUUID(), base, currency, request.rate, updatedBy, now, now);
+    await this.exchangeRateRepository.create(exchangeRate);
+
+    await this.auditLogService.record({
+      action: AuditAction.EXCHANGE_RATE_UPDATE,
+      targetType: AuditTargetType.EXCHANGE_RATE,
+      targetId: exchangeRate.exchangeRateId,
+      after: exchangeRate,
+    });
+
+    logger.info(`Exchange rate ${base}->${currency} created at ${request.rate} by ${updatedBy}`);
+    return ExchangeRateMapper.toExchangeRateResponse(exchangeRate);
+  }
+}
@@ -0,0 +1,91 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { CreateNotificationUseCase } from './create_notification.use-case';
+import { Notification } from '../../../../domain/entities/notification.entity';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { NotificationType } from '../../../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('CreateNotificationUseCase', () => {
+  let useCase: CreateNotificationUseCase;
+  let mockNotificationRepository: {
+    create: ReturnType<typeof vi.fn>;
+    rollUpGroup: ReturnType<typeof vi.fn>;
+  };
+
+  const chatMessage = {
+    userId: 'user-1',
+    type: NotificationType.CHAT_MESSAGE,
+    title: 'New message from Driver Dan',
+    message: 'I am outside',
+    data: { chatId: 'chat-1', messageId: 'message-2' },
+    groupKey: 'chat:chat-1',
+  };
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockNotificationRepository = {
+      create: vi.fn().mockResolvedValue(undefined),
+      rollUpGroup: vi.fn().mockResolvedValue(null),
+    };
+    container.registerInstance(REPOSITORY_TOKENS.INotificationRepository, mockNotificationRepository);
+
+    useCase = container.resolve(CreateNotificationUseCase);
+  });
+
+  it('should roll a chat message into the unread notification of its chat', async () => {
+    mockNotificationRepository.rollUpGroup.mockResolvedValue(
+      new Notification(
+        'notification-1',
+        'user-1',
+        NotificationType.CHAT_MESSAGE,
+        chatMessage.title,
+        chatMessage.message,
+        false,
+        new Date('2030-01-01T10:00:00Z'),
+        chatMessage.data,
+        [],
+        'chat:chat-1',
+        3
+      )
+    );
+
+    const response = await useCase.execute(chatMessage);
+
+    expect(mockNotificationRepository.rollUpGroup).toHaveBeenCalledWith('user-1', 'chat:chat-1', {
+      title: chatMessage.title,
+      message: chatMessage.message,
+      data: chatMessage.data,
+    });
+    expect(mockNotificationRepository.create).not.toHaveBeenCalled();
+    expect(response).toMatchObject({ notificationId: 'notification-1', message: 'I am outside', count: 3 });
+  });
+
+  it('should start a new group once the previous one was read', async () => {
+    const response = await useCase.execute(chatMessage);
+
+    const created = mockNotificationRepository.create.mock.calls[0][0] as Notification;
+    expect(created.groupKey).toBe('chat:chat-1');
+    expect(created.count).toBe(1);
+    expect(response.count).toBe(1);
+  });
+
+  it('should not group notifications without a group key', async () => {
+    const { groupKey: _groupKey, ...reservationUpdate } = { ...chatMessage, type: NotificationType.RESERVATION_CONFIRMED };
+
+    await useCase.execute(reservationUpdate);
+
+    expect(mockNotificationRepository.rollUpGroup).not.toHaveBeenCalled();
+    expect(mockNotificationRepository.create).toHaveBeenCalledTimes(1);
+  });
+});
@@ -11,7 +11,8 @@ import { logger } from '../../../../shared/logger';
 
 /**
  * Use case for creating a notification
- * Creates and stores a notification in the database
+ * Creates and stores a notification in the database; a grouped notification is rolled into
+ * the user's unread notification of the same group instead
  */
 @injectable()
 export class CreateNotificationUseCase implements ICreateNotificationUseCase {
@@ -26,6 +27,21 @@ export class CreateNotificationUseCase implements ICreateNotificationUseCase {
       throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_REQUEST', 400);
     }
 
+    if (request.groupKey) {
+      const rolledUp = await this.notificationRepository.rollUpGroup(request.userId, request.groupKey, {
+        title: request.title,
+        message: request.message,
+        data: request.data,
+      });
+
+      if (rolledUp) {
+        logger.info(
+          `Notification rolled up: ${rolledUp.notificationId} for user: ${request.userId} (count: ${rolledUp.count})`
+        );
+        return this.toResponse(rolledUp);
+      }
+    }
+
     // Create notification entity
     const notificationId = randomUUID();
     const now = new Date();
@@ -38,14 +54,21 @@ export class CreateNotificationUseCase implements ICreateNotificationUseCase {
       request.message,
       false, // isRead - default to unread
       now,
-      request.data
+      request.data,
+      [],
+      request.groupKey,
+      1,
+      now
     );
 
     await this.notificationRepository.create(notification);
 
     logger.info(`Notification created: ${notificationId} for user: ${request.userId}`);
 
-    // Convert to response
+    return this.toResponse(notification);
+  }
+
+  private toResponse(notification: Notification): NotificationResponse {
     return {
       notificationId: notification.notificationId,
       userId: notification.userId,
@@ -54,7 +77,9 @@ export class CreateNotificationUseCase implements ICreateNotificationUseCase {
       message: notification.message,
       data: notification.data,
       isRead: notification.isRead,
+      count: notification.count,
       createdAt: notification.createdAt,
+      lastNotifiedAt: notification.getLastNotifiedAt(),
     };
   }
 }
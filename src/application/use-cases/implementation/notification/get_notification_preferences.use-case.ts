@@ -0,0 +1,33 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetNotificationPreferencesUseCase } from '../../interface/notification/get_notification_preferences_use_case.interface';
+import { INotificationPreferenceRepository } from '../../../../domain/repositories/notification_preference_repository.interface';
+import { NotificationPreference } from '../../../../domain/entities/notification_preference.entity';
+import { NotificationPreferencesResponse } from '../../../dtos/notification.dto';
+import { NotificationPreferenceMapper } from '../../../mapper/notification_preference.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for getting a user's notification preferences
+ * Users who never changed their settings get the default channels
+ */
+@injectable()
+export class GetNotificationPreferencesUseCase implements IGetNotificationPreferencesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.INotificationPreferenceRepository)
+    private readonly preferenceRepository: INotificationPreferenceRepository
+  ) {}
+
+  async execute(userId: string): Promise<NotificationPreferencesResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const preference =
+      (await this.preferenceRepository.findByUserId(userId)) ?? NotificationPreference.createDefault(userId);
+
+    return NotificationPreferenceMapper.toNotificationPreferencesResponse(preference);
+  }
+}
@@ -56,7 +56,10 @@ export class GetUserNotificationsUseCase implements IGetUserNotificationsUseCase
       message: notification.message,
       data: notification.data,
       isRead: notification.isRead,
+      count: notification.count,
+      deliveries: notification.deliveries,
       createdAt: notification.createdAt,
+      lastNotifiedAt: notification.getLastNotifiedAt(),
     }));
 
     return {
@@ -0,0 +1,26 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetWebPushPublicKeyUseCase } from '../../interface/notification/get_web_push_public_key_use_case.interface';
+import { IWebPushService } from '../../../../domain/services/web_push_service.interface';
+import { WebPushPublicKeyResponse } from '../../../dtos/notification.dto';
+import { SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for getting the VAPID public key browsers subscribe with
+ */
+@injectable()
+export class GetWebPushPublicKeyUseCase implements IGetWebPushPublicKeyUseCase {
+  constructor(
+    @inject(SERVICE_TOKENS.IWebPushService)
+    private readonly webPushService: IWebPushService
+  ) {}
+
+  execute(): WebPushPublicKeyResponse {
+    if (!this.webPushService.isConfigured()) {
+      throw new AppError(ERROR_MESSAGES.WEB_PUSH_NOT_CONFIGURED, ERROR_CODES.WEB_PUSH_NOT_CONFIGURED, 503);
+    }
+
+    return { publicKey: this.webPushService.getPublicKey() };
+  }
+}
@@ -70,7 +70,9 @@ export class MarkNotificationAsReadUseCase implements IMarkNotificationAsReadUse
         message: updatedNotification.message,
         data: updatedNotification.data,
         isRead: updatedNotification.isRead,
+        count: updatedNotification.count,
         createdAt: updatedNotification.createdAt,
+        lastNotifiedAt: updatedNotification.getLastNotifiedAt(),
       },
     };
   }
@@ -0,0 +1,76 @@
+import { injectable, inject } from 'tsyringe';
+import { v4 as uuidv4 } from 'uuid';
+import { IRegisterPushSubscriptionUseCase } from '../../interface/notification/register_push_subscription_use_case.interface';
+import { IWebPushSubscriptionRepository } from '../../../../domain/repositories/web_push_subscription_repository.interface';
+import { IWebPushService } from '../../../../domain/services/web_push_service.interface';
+import { WebPushSubscription } from '../../../../domain/entities/web_push_subscription.entity';
+import { PushSubscriptionResponse, RegisterPushSubscriptionRequest } from '../../../dtos/notification.dto';
+import { WebPushSubscriptionMapper } from '../../../mapper/web_push_subscription.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { isAllowedPushEndpoint } from '../../../../shared/utils/web_push.util';
+import { WEB_PUSH_CONFIG } from '../../../../shared/config';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for registering a browser for push notifications
+ * Each browser has one subscription; registering it again moves it to the signed-in user
+ */
+@injectable()
+export class RegisterPushSubscriptionUseCase implements IRegisterPushSubscriptionUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebPushSubscriptionRepository)
+    private readonly subscriptionRepository: IWebPushSubscriptionRepository,
+    @inject(SERVICE_TOKENS.IWebPushService)
+    private readonly webPushService: IWebPushService
+  ) {}
+
+  async execute(
+    userId: string,
+    request: RegisterPushSubscriptionRequest,
+    userAgent?: string
+  ): Promise<PushSubscriptionResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    if (!this.webPushService.isConfigured()) {
+      throw new AppError(ERROR_MESSAGES.WEB_PUSH_NOT_CONFIGURED, ERROR_CODES.WEB_PUSH_NOT_CONFIGURED, 503);
+    }
+
+    if (!isAllowedPushEndpoint(request.endpoint, WEB_PUSH_CONFIG.ALLOWED_ENDPOINT_HOSTS)) {
+      throw new AppError(
+        ERROR_MESSAGES.WEB_PUSH_ENDPOINT_NOT_ALLOWED,
+        ERROR_CODES.WEB_PUSH_ENDPOINT_NOT_ALLOWED,
+        400
+      );
+    }
+
+    const existing = await this.subscriptionRepository.findByEndpoint(request.endpoint);
+
+    if (existing) {
+      const renewed = existing.renew(userId, request.keys.p256dh, request.keys.auth, userAgent || null);
+      await this.subscriptionRepository.updateById(existing.subscriptionId, renewed);
+      logger.info(`[WebPush] Renewed subscription ${existing.subscriptionId} for user: ${userId}`);
+      return WebPushSubscriptionMapper.toPushSubscriptionResponse(renewed);
+    }
+
+    const subscription = new WebPushSubscription(
+      uuidv4(),
+      userId,
+      request.endpoint,
+      request.keys.p256dh,
+      request.keys.auth,
+      userAgent || null,
+      new Date(),
+      new Date()
+    );
+
+    await this.subscriptionRepository.create(subscription);
+    logger.info(`[WebPush] Registered subscription ${subscription.subscriptionId} for user: ${userId}`);
+
+    return WebPushSubscriptionMapper.toPushSubscriptionResponse(subscription);
+  }
+}
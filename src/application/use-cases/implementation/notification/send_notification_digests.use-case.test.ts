@@ -0,0 +1,115 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { SendNotificationDigestsUseCase } from './send_notification_digests.use-case';
+import { Notification } from '../../../../domain/entities/notification.entity';
+import { NotificationPreference } from '../../../../domain/entities/notification_preference.entity';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { NotificationType } from '../../../../shared/constants';
+import { EmailType } from '../../../../shared/types/email.types';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const NOW = new Date('2030-01-02T08:00:00Z');
+
+const unreadNotification = (
+  notificationId: string,
+  createdAt: string,
+  count = 1,
+  lastNotifiedAt?: string
+): Notification =>
+  new Notification(
+    notificationId,
+    'user-1',
+    NotificationType.CHAT_MESSAGE,
+    'New message from Driver Dan',
+    'I am outside',
+    false,
+    new Date(createdAt),
+    undefined,
+    [],
+    'chat:chat-1',
+    count,
+    lastNotifiedAt ? new Date(lastNotifiedAt) : undefined
+  );
+
+describe('SendNotificationDigestsUseCase', () => {
+  let useCase: SendNotificationDigestsUseCase;
+  let mockUserRepository: MockUserRepository;
+  let findUnreadByUserId: ReturnType<typeof vi.fn>;
+  let sendEmail: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockUserRepository = new MockUserRepository();
+    mockUserRepository.findById.mockResolvedValue(createUserFixture({ userId: 'user-1', email: 'customer@example.com' }));
+    findUnreadByUserId = vi.fn().mockResolvedValue([]);
+    sendEmail = vi.fn().mockResolvedValue(undefined);
+
+    const subscriber = new NotificationPreference('user-1', [], NOW, NOW, undefined, true);
+
+    container.registerInstance(REPOSITORY_TOKENS.INotificationPreferenceRepository, {
+      findDailyDigestSubscribers: vi.fn().mockResolvedValue([subscriber]),
+    });
+    container.registerInstance(REPOSITORY_TOKENS.INotificationRepository, { findUnreadByUserId });
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IDriverRepository, { findById: vi.fn().mockResolvedValue(null) });
+    container.registerInstance(SERVICE_TOKENS.IEmailService, { sendEmail });
+
+    useCase = container.resolve(SendNotificationDigestsUseCase);
+  });
+
+  it('should email the unread notifications of the last day with the total unread count', async () => {
+    findUnreadByUserId.mockResolvedValue([
+      unreadNotification('notification-2', '2030-01-02T07:00:00Z', 4),
+      unreadNotification('notification-1', '2029-12-30T07:00:00Z'),
+    ]);
+
+    const sent = await useCase.execute(NOW);
+
+    expect(sent).toBe(1);
+    expect(sendEmail).toHaveBeenCalledWith(
+      EmailType.NOTIFICATION_DIGEST,
+      expect.objectContaining({
+        email: 'customer@example.com',
+        unreadCount: 2,
+        notifications: [expect.objectContaining({ count: 4 })],
+      })
+    );
+  });
+
+  it('should not email users with nothing new since the last digest', async () => {
+    findUnreadByUserId.mockResolvedValue([unreadNotification('notification-1', '2029-12-30T07:00:00Z')]);
+
+    const sent = await useCase.execute(NOW);
+
+    expect(sent).toBe(0);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should include a grouped notification that was rolled up during the last day', async () => {
+    findUnreadByUserId.mockResolvedValue([
+      unreadNotification('notification-1', '2029-12-30T07:00:00Z', 3, '2030-01-02T06:00:00Z'),
+    ]);
+
+    const sent = await useCase.execute(NOW);
+
+    expect(sent).toBe(1);
+    expect(sendEmail).toHaveBeenCalledWith(
+      EmailType.NOTIFICATION_DIGEST,
+      expect.objectContaining({
+        notifications: [expect.objectContaining({ count: 3, notifiedAt: new Date('2030-01-02T06:00:00Z') })],
+      })
+    );
+  });
+});
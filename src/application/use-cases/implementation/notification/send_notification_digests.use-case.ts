@@ -0,0 +1,87 @@
+import { injectable, inject } from 'tsyringe';
+import { ISendNotificationDigestsUseCase } from '../../interface/notification/send_notification_digests_use_case.interface';
+import { INotificationPreferenceRepository } from '../../../../domain/repositories/notification_preference_repository.interface';
+import { INotificationRepository } from '../../../../domain/repositories/notification_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IDriverRepository } from '../../../../domain/repositories/driver_repository.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { EmailType, NotificationDigestEmailData } from '../../../../shared/types/email.types';
+import { FRONTEND_CONFIG, NOTIFICATION_DIGEST_CONFIG } from '../../../../shared/config';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for sending the daily notification digest emails
+ * Each user who opted in gets their unread notifications of the last day; users with nothing new get no email
+ */
+@injectable()
+export class SendNotificationDigestsUseCase implements ISendNotificationDigestsUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.INotificationPreferenceRepository)
+    private readonly preferenceRepository: INotificationPreferenceRepository,
+    @inject(REPOSITORY_TOKENS.INotificationRepository)
+    private readonly notificationRepository: INotificationRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(REPOSITORY_TOKENS.IDriverRepository)
+    private readonly driverRepository: IDriverRepository,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService
+  ) {}
+
+  async execute(now: Date = new Date()): Promise<number> {
+    const subscribers = await this.preferenceRepository.findDailyDigestSubscribers();
+    const since = new Date(now.getTime() - NOTIFICATION_DIGEST_CONFIG.LOOKBACK_HOURS * 60 * 60 * 1000);
+    let sent = 0;
+
+    for (const subscriber of subscribers) {
+      try {
+        if (await this.sendDigest(subscriber.userId, since)) {
+          sent += 1;
+        }
+      } catch (error) {
+        // Keep going - a retry of the whole job would email everyone again
+        logger.error(
+          `Error sending notification digest to user ${subscriber.userId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    logger.info(`Notification digests sent: ${sent} of ${subscribers.length} subscribed users`);
+    return sent;
+  }
+
+  private async sendDigest(userId: string, since: Date): Promise<boolean> {
+    // Sorted newest first
+    const unread = await this.notificationRepository.findUnreadByUserId(userId);
+    // A grouped notification counts as new when it was last rolled up within the lookback
+    const recent = unread.filter((notification) => notification.getLastNotifiedAt() >= since);
+    if (recent.length === 0) {
+      return false;
+    }
+
+    // Notifications go to customers and drivers alike
+    const recipient =
+      (await this.userRepository.findById(userId)) ?? (await this.driverRepository.findById(userId));
+    if (!recipient?.email) {
+      logger.warn(`No email address for user ${userId}, skipping notification digest`);
+      return false;
+    }
+
+    const emailData: NotificationDigestEmailData = {
+      email: recipient.email,
+      fullName: recipient.fullName,
+      unreadCount: unread.length,
+      notifications: recent.slice(0, NOTIFICATION_DIGEST_CONFIG.MAX_ITEMS).map((notification) => ({
+        title: notification.title,
+        message: notification.message,
+        count: notification.count,
+        notifiedAt: notification.getLastNotifiedAt(),
+      })),
+      viewLink: `${FRONTEND_CONFIG.URL}/notifications`,
+    };
+
+    await this.emailService.sendEmail(EmailType.NOTIFICATION_DIGEST, emailData);
+    return true;
+  }
+}
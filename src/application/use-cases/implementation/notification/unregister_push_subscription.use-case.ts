@@ -0,0 +1,38 @@
+import { injectable, inject } from 'tsyringe';
+import { IUnregisterPushSubscriptionUseCase } from '../../interface/notification/unregister_push_subscription_use_case.interface';
+import { IWebPushSubscriptionRepository } from '../../../../domain/repositories/web_push_subscription_repository.interface';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for unregistering a browser from push notifications
+ * Called when the user turns off notifications in the browser or signs out
+ */
+@injectable()
+export class UnregisterPushSubscriptionUseCase implements IUnregisterPushSubscriptionUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebPushSubscriptionRepository)
+    private readonly subscriptionRepository: IWebPushSubscriptionRepository
+  ) {}
+
+  async execute(userId: string, endpoint: string): Promise<void> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const subscription = await this.subscriptionRepository.findByEndpoint(endpoint);
+    if (!subscription || subscription.userId !== userId) {
+      throw new AppError(
+        ERROR_MESSAGES.WEB_PUSH_SUBSCRIPTION_NOT_FOUND,
+        ERROR_CODES.WEB_PUSH_SUBSCRIPTION_NOT_FOUND,
+        404
+      );
+    }
+
+    await this.subscriptionRepository.deleteByEndpoint(endpoint);
+    logger.info(`[WebPush] Removed subscription ${subscription.subscriptionId} for user: ${userId}`);
+  }
+}
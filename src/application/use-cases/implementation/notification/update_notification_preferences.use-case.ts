@@ -0,0 +1,85 @@
+import { injectable, inject } from 'tsyringe';
+import { IUpdateNotificationPreferencesUseCase } from '../../interface/notification/update_notification_preferences_use_case.interface';
+import { INotificationPreferenceRepository } from '../../../../domain/repositories/notification_preference_repository.interface';
+import {
+  NotificationPreference,
+  INotificationTypePreference,
+} from '../../../../domain/entities/notification_preference.entity';
+import { NotificationPreferencesResponse, UpdateNotificationPreferencesRequest } from '../../../dtos/notification.dto';
+import { NotificationPreferenceMapper } from '../../../mapper/notification_preference.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for updating a user's notification preferences
+ * Merges the submitted notification types into the saved settings
+ */
+@injectable()
+export class UpdateNotificationPreferencesUseCase implements IUpdateNotificationPreferencesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.INotificationPreferenceRepository)
+    private readonly preferenceRepository: INotificationPreferenceRepository
+  ) {}
+
+  async execute(
+    userId: string,
+    request: UpdateNotificationPreferencesRequest
+  ): Promise<NotificationPreferencesResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    if (request.quietHours && !this.isValidTimezone(request.quietHours.timezone)) {
+      throw new AppError(ERROR_MESSAGES.INVALID_TIMEZONE, ERROR_CODES.INVALID_TIMEZONE, 400);
+    }
+
+    const current =
+      (await this.preferenceRepository.findByUserId(userId)) ?? NotificationPreference.createDefault(userId);
+
+    const channels = new Map<string, INotificationTypePreference>(
+      current.channels.map((channel) => [channel.type, channel])
+    );
+    for (const channel of request.channels ?? []) {
+      channels.set(channel.type, {
+        type: channel.type,
+        inApp: channel.inApp,
+        email: channel.email,
+        push: channel.push,
+      });
+    }
+
+    const saved = await this.preferenceRepository.save(
+      new NotificationPreference(
+        userId,
+        Array.from(channels.values()),
+        current.createdAt,
+        new Date(),
+        request.quietHours
+          ? {
+              enabled: request.quietHours.enabled,
+              start: request.quietHours.start,
+              end: request.quietHours.end,
+              timezone: request.quietHours.timezone,
+            }
+          : current.quietHours,
+        request.dailyDigest ?? current.dailyDigest
+      )
+    );
+
+    logger.info(`Notification preferences updated for user: ${userId}`);
+
+    return NotificationPreferenceMapper.toNotificationPreferencesResponse(saved);
+  }
+
+  private isValidTimezone(timezone: string): boolean {
+    try {
+      new Intl.DateTimeFormat('en-GB', { timeZone: timezone });
+      return true;
+    } catch {
+      return false;
+    }
+  }
+}
@@ -2,9 +2,11 @@ import { injectable, inject } from 'tsyringe';
 import { IActivatePricingConfigUseCase } from '../../interface/pricing_config/activate_pricing_config_use_case.interface';
 import { IPricingConfigRepository } from '../../../../domain/repositories/pricing_config_repository.interface';
 import { PricingConfigResponse } from '../../../dtos/pricing_config.dto';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { logger } from '../../../../shared/logger';
+import { AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for activating a pricing configuration
@@ -14,7 +16,9 @@ import { logger } from '../../../../shared/logger';
 export class ActivatePricingConfigUseCase implements IActivatePricingConfigUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IPricingConfigRepository)
-    private readonly pricingConfigRepository: IPricingConfigRepository
+    private readonly pricingConfigRepository: IPricingConfigRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(pricingConfigId: string): Promise<PricingConfigResponse> {
@@ -34,6 +38,9 @@ export class ActivatePricingConfigUseCase implements IActivatePricingConfigUseCa
         throw new AppError('Pricing config not found', 'PRICING_CONFIG_NOT_FOUND', 404);
       }
 
+      // Remember which version was live so the audit log shows what was replaced
+      const previouslyActive = await this.pricingConfigRepository.findActive();
+
       // Activate the pricing config (this deactivates all others first)
       await this.pricingConfigRepository.activate(pricingConfigId);
 
@@ -44,6 +51,19 @@ export class ActivatePricingConfigUseCase implements IActivatePricingConfigUseCa
         throw new AppError('Failed to fetch activated pricing config', 'PRICING_CONFIG_FETCH_ERROR', 500);
       }
 
+      await this.auditLogService.record({
+        action: AuditAction.PRICING_CONFIG_ACTIVATE,
+        targetType: AuditTargetType.PRICING_CONFIG,
+        targetId: pricingConfigId,
+        before: pricingConfig,
+        after: activatedConfig,
+        metadata: {
+          version: activatedConfig.version,
+          previousPricingConfigId: previouslyActive?.pricingConfigId,
+          previousVersion: previouslyActive?.version,
+        },
+      });
+
       logger.info(`Pricing config activated successfully: ${pricingConfigId}, version: ${activatedConfig.version}`);
 
       // Map to response DTO
@@ -54,6 +74,8 @@ export class ActivatePricingConfigUseCase implements IActivatePricingConfigUseCa
         averageDriverPerHourRate: activatedConfig.averageDriverPerHourRate,
         taxPercentage: activatedConfig.taxPercentage,
         nightChargePerNight: activatedConfig.nightChargePerNight,
+        useActualFuelConsumption: activatedConfig.useActualFuelConsumption,
+        currency: activatedConfig.currency,
         isActive: activatedConfig.isActive,
         createdBy: activatedConfig.createdBy,
         createdAt: activatedConfig.createdAt,
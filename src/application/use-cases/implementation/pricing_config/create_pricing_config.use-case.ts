@@ -2,11 +2,14 @@ import { injectable, inject } from 'tsyringe';
 import { ICreatePricingConfigUseCase } from '../../interface/pricing_config/create_pricing_config_use_case.interface';
 import { IPricingConfigRepository } from '../../../../domain/repositories/pricing_config_repository.interface';
 import { CreatePricingConfigRequest, PricingConfigResponse } from '../../../dtos/pricing_config.dto';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { PricingConfig } from '../../../../domain/entities/pricing_config.entity';
 import { randomUUID } from 'crypto';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { logger } from '../../../../shared/logger';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
+import { AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for creating a new pricing configuration
@@ -16,7 +19,9 @@ import { logger } from '../../../../shared/logger';
 export class CreatePricingConfigUseCase implements ICreatePricingConfigUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IPricingConfigRepository)
-    private readonly pricingConfigRepository: IPricingConfigRepository
+    private readonly pricingConfigRepository: IPricingConfigRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(request: CreatePricingConfigRequest, createdBy: string): Promise<PricingConfigResponse> {
@@ -68,7 +73,9 @@ export class CreatePricingConfigUseCase implements ICreatePricingConfigUseCase {
         false, // isActive - must be activated separately
         createdBy.trim(),
         now,
-        now
+        now,
+        request.useActualFuelConsumption ?? false,
+        normalizeCurrency(request.currency)
       );
 
       // Validate entity
@@ -83,6 +90,13 @@ export class CreatePricingConfigUseCase implements ICreatePricingConfigUseCase {
       // Save to repository
       await this.pricingConfigRepository.create(pricingConfig);
 
+      await this.auditLogService.record({
+        action: AuditAction.PRICING_CONFIG_CREATE,
+        targetType: AuditTargetType.PRICING_CONFIG,
+        targetId: pricingConfigId,
+        after: pricingConfig,
+      });
+
       logger.info(`Pricing config created: ${pricingConfigId}, version: ${newVersion}`);
 
       // Map to response DTO
@@ -93,6 +107,8 @@ export class CreatePricingConfigUseCase implements ICreatePricingConfigUseCase {
         averageDriverPerHourRate: pricingConfig.averageDriverPerHourRate,
         taxPercentage: pricingConfig.taxPercentage,
         nightChargePerNight: pricingConfig.nightChargePerNight,
+        useActualFuelConsumption: pricingConfig.useActualFuelConsumption,
+        currency: pricingConfig.currency,
         isActive: pricingConfig.isActive,
         createdBy: pricingConfig.createdBy,
         createdAt: pricingConfig.createdAt,
@@ -39,6 +39,8 @@ export class GetPricingConfigUseCase implements IGetPricingConfigUseCase {
         averageDriverPerHourRate: pricingConfig.averageDriverPerHourRate,
         taxPercentage: pricingConfig.taxPercentage,
         nightChargePerNight: pricingConfig.nightChargePerNight,
+        useActualFuelConsumption: pricingConfig.useActualFuelConsumption,
+        currency: pricingConfig.currency,
         isActive: pricingConfig.isActive,
         createdBy: pricingConfig.createdBy,
         createdAt: pricingConfig.createdAt,
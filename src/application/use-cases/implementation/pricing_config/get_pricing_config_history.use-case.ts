@@ -32,6 +32,8 @@ export class GetPricingConfigHistoryUseCase implements IGetPricingConfigHistoryU
         averageDriverPerHourRate: config.averageDriverPerHourRate,
         taxPercentage: config.taxPercentage,
         nightChargePerNight: config.nightChargePerNight,
+        useActualFuelConsumption: config.useActualFuelConsumption,
+        currency: config.currency,
         isActive: config.isActive,
         createdBy: config.createdBy,
         createdAt: config.createdAt,
@@ -0,0 +1,80 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { ICreatePromoCodeUseCase } from '../../interface/promo_code/create_promo_code_use_case.interface';
+import { IPromoCodeRepository } from '../../../../domain/repositories/promo_code_repository.interface';
+import { CreatePromoCodeRequest, PromoCodeResponse } from '../../../dtos/promo_code.dto';
+import { PromoCodeMapper } from '../../../mapper/promo_code.mapper';
+import { PromoCode } from '../../../../domain/entities/promo_code.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for creating a promo code
+ * Codes are stored uppercase and matched case-insensitively
+ */
+@injectable()
+export class CreatePromoCodeUseCase implements ICreatePromoCodeUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IPromoCodeRepository)
+    private readonly promoCodeRepository: IPromoCodeRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(request: CreatePromoCodeRequest, createdBy: string): Promise<PromoCodeResponse> {
+    if (!createdBy || typeof createdBy !== 'string' || createdBy.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const code = request.code.trim().toUpperCase();
+    const validFrom = new Date(request.validFrom);
+    const validUntil = new Date(request.validUntil);
+
+    if (
+      validUntil.getTime() <= validFrom.getTime() ||
+      (request.discountType === 'percentage' && request.discountValue > 100)
+    ) {
+      throw new AppError(ERROR_MESSAGES.INVALID_PROMO_CODE, ERROR_CODES.INVALID_PROMO_CODE, 400);
+    }
+
+    const existing = await this.promoCodeRepository.findByCode(code);
+    if (existing) {
+      throw new AppError(ERROR_MESSAGES.PROMO_CODE_ALREADY_EXISTS, ERROR_CODES.PROMO_CODE_ALREADY_EXISTS, 409);
+    }
+
+    const now = new Date();
+    const promoCode = new PromoCode(
+      randomUUID(),
+      code,
+      request.discountType,
+      request.discountValue,
+      validFrom,
+      validUntil,
+      0,
+      request.eventTypes ?? [],
+      request.isActive ?? true,
+      createdBy,
+      now,
+      now,
+      request.description,
+      request.maxUses,
+      request.perUserLimit,
+      request.minTripValue
+    );
+
+    await this.promoCodeRepository.create(promoCode);
+
+    await this.auditLogService.record({
+      action: AuditAction.PROMO_CODE_CREATE,
+      targetType: AuditTargetType.PROMO_CODE,
+      targetId: promoCode.promoCodeId,
+      after: promoCode,
+    });
+
+    logger.info(`Promo code ${code} created by ${createdBy}`);
+    return PromoCodeMapper.toPromoCodeResponse(promoCode);
+  }
+}
@@ -0,0 +1,22 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetPromoCodesUseCase } from '../../interface/promo_code/get_promo_codes_use_case.interface';
+import { IPromoCodeRepository } from '../../../../domain/repositories/promo_code_repository.interface';
+import { PromoCodeResponse } from '../../../dtos/promo_code.dto';
+import { PromoCodeMapper } from '../../../mapper/promo_code.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+
+/**
+ * Use case for listing promo codes, newest first
+ */
+@injectable()
+export class GetPromoCodesUseCase implements IGetPromoCodesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IPromoCodeRepository)
+    private readonly promoCodeRepository: IPromoCodeRepository
+  ) {}
+
+  async execute(): Promise<PromoCodeResponse[]> {
+    const promoCodes = await this.promoCodeRepository.findAll();
+    return promoCodes.map((promoCode) => PromoCodeMapper.toPromoCodeResponse(promoCode));
+  }
+}
@@ -0,0 +1,95 @@
+import { injectable, inject } from 'tsyringe';
+import { IUpdatePromoCodeUseCase } from '../../interface/promo_code/update_promo_code_use_case.interface';
+import { IPromoCodeRepository } from '../../../../domain/repositories/promo_code_repository.interface';
+import { UpdatePromoCodeRequest, PromoCodeResponse } from '../../../dtos/promo_code.dto';
+import { PromoCodeMapper } from '../../../mapper/promo_code.mapper';
+import { PromoCode } from '../../../../domain/entities/promo_code.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for updating a promo code, including activating and deactivating it
+ * Quotes that were already submitted with the code keep their discount
+ */
+@injectable()
+export class UpdatePromoCodeUseCase implements IUpdatePromoCodeUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IPromoCodeRepository)
+    private readonly promoCodeRepository: IPromoCodeRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(promoCodeId: string, request: UpdatePromoCodeRequest): Promise<PromoCodeResponse> {
+    if (!promoCodeId || typeof promoCodeId !== 'string' || promoCodeId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_PROMO_CODE_ID', 400);
+    }
+
+    const existing = await this.promoCodeRepository.findById(promoCodeId);
+    if (!existing) {
+      throw new AppError(ERROR_MESSAGES.PROMO_CODE_NOT_FOUND, ERROR_CODES.PROMO_CODE_NOT_FOUND, 404);
+    }
+
+    const validFrom = request.validFrom !== undefined ? new Date(request.validFrom) : existing.validFrom;
+    const validUntil = request.validUntil !== undefined ? new Date(request.validUntil) : existing.validUntil;
+    const discountType = request.discountType ?? existing.discountType;
+    const discountValue = request.discountValue ?? existing.discountValue;
+
+    if (validUntil.getTime() <= validFrom.getTime() || (discountType === 'percentage' && discountValue > 100)) {
+      throw new AppError(ERROR_MESSAGES.INVALID_PROMO_CODE, ERROR_CODES.INVALID_PROMO_CODE, 400);
+    }
+
+    // Build update object (plain object for MongoDB update)
+    const update: Record<string, unknown> = {
+      discountType,
+      discountValue,
+      validFrom,
+      validUntil,
+    };
+
+    if (request.description !== undefined) {
+      update.description = request.description;
+    }
+
+    if (request.maxUses !== undefined) {
+      update.maxUses = request.maxUses;
+    }
+
+    if (request.perUserLimit !== undefined) {
+      update.perUserLimit = request.perUserLimit;
+    }
+
+    if (request.minTripValue !== undefined) {
+      update.minTripValue = request.minTripValue;
+    }
+
+    if (request.eventTypes !== undefined) {
+      update.eventTypes = request.eventTypes;
+    }
+
+    if (request.isActive !== undefined) {
+      update.isActive = request.isActive;
+    }
+
+    await this.promoCodeRepository.updateById(promoCodeId, update as Partial<PromoCode>);
+
+    const updated = await this.promoCodeRepository.findById(promoCodeId);
+    if (!updated) {
+      throw new AppError(ERROR_MESSAGES.PROMO_CODE_NOT_FOUND, ERROR_CODES.PROMO_CODE_NOT_FOUND, 404);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.PROMO_CODE_UPDATE,
+      targetType: AuditTargetType.PROMO_CODE,
+      targetId: promoCodeId,
+      before: existing,
+      after: updated,
+    });
+
+    logger.info(`Promo code ${updated.code} updated`);
+    return PromoCodeMapper.toPromoCodeResponse(updated);
+  }
+}
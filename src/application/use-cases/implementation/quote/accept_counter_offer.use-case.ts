@@ -0,0 +1,132 @@
+import { inject, injectable } from 'tsyringe';
+import { container } from 'tsyringe';
+import { IAcceptCounterOfferUseCase } from '../../interface/quote/accept_counter_offer_use_case.interface';
+import { QuoteResponse } from '../../../dtos/quote.dto';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
+import { IPassengerRepository } from '../../../../domain/repositories/passenger_repository.interface';
+import { IVehicleAvailabilityService } from '../../../../domain/services/vehicle_availability_service.interface';
+import { IQueueService } from '../../../../domain/services/queue_service.interface';
+import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
+import { Quote } from '../../../../domain/entities/quote.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { QuoteMapper } from '../../../mapper/quote.mapper';
+import { deriveTripWindow } from '../../../mapper/driver_dashboard.mapper';
+import { ERROR_MESSAGES, ERROR_CODES, QuoteStatus } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { describeVehicleHoldConflicts } from '../../../../shared/utils/vehicle_hold.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for accepting a quote counter-offer
+ * The accepted version becomes the quote's pricing and the quote goes back to QUOTED
+ * with a fresh payment window and vehicle holds
+ */
+@injectable()
+export class AcceptCounterOfferUseCase implements IAcceptCounterOfferUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IPassengerRepository)
+    private readonly passengerRepository: IPassengerRepository,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService
+  ) {}
+
+  async execute(quoteId: string, userId: string): Promise<QuoteResponse> {
+    // Input validation
+    if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const quote = await this.quoteRepository.findById(quoteId);
+
+    if (!quote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    if (quote.userId !== userId) {
+      logger.warn(`User ${userId} attempted to accept a counter-offer on quote ${quoteId} owned by ${quote.userId}`);
+      throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
+    }
+
+    const counterOffer = quote.getPendingCounterOffer();
+    if (quote.status !== QuoteStatus.NEGOTIATING || !counterOffer) {
+      throw new AppError(ERROR_MESSAGES.COUNTER_OFFER_NOT_FOUND, ERROR_CODES.COUNTER_OFFER_NOT_FOUND, 400);
+    }
+
+    // Holds may have lapsed while negotiating, so take them again for the new payment window
+    const quotedAt = new Date();
+    const itinerary = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+    if (itinerary.length === 0) {
+      throw new AppError(ERROR_MESSAGES.ITINERARY_REQUIRED, 'ITINERARY_NOT_FOUND', 404);
+    }
+    const vehicleIds = (quote.selectedVehicles ?? []).map((sv) => sv.vehicleId);
+    const { tripStartAt, tripEndAt } = deriveTripWindow(itinerary);
+    const holdResult = await this.vehicleAvailabilityService.holdVehiclesForQuote(
+      quoteId,
+      vehicleIds,
+      { startAt: tripStartAt, endAt: tripEndAt },
+      quotedAt
+    );
+    if (!holdResult.acquired) {
+      throw new AppError(
+        describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts),
+        ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+        409
+      );
+    }
+
+    await this.quoteRepository.updateById(quoteId, {
+      status: QuoteStatus.QUOTED,
+      pricing: counterOffer.pricing,
+      pricingVersions: (quote.pricingVersions ?? []).map((version) =>
+        version.version === counterOffer.version
+          ? { ...version, status: 'accepted' as const, respondedAt: quotedAt }
+          : version
+      ),
+      pricingLastUpdatedAt: quotedAt,
+      quotedAt, // Restart the payment window at the negotiated price
+    } as Partial<Quote>);
+
+    logger.info(
+      `Counter-offer v${counterOffer.version} accepted on quote ${quoteId} by user ${userId}, total: ${counterOffer.pricing.total}`
+    );
+
+    // Schedule expiry job for the new payment window
+    try {
+      const queueService = container.resolve<IQueueService>(SERVICE_TOKENS.IQueueService);
+      await queueService.addQuoteExpiryJob(quoteId, quotedAt);
+      await queueService.addQuoteReminderJob(quoteId, quotedAt);
+    } catch (expiryJobError) {
+      // Log error but don't fail the acceptance
+      logger.error(
+        `Failed to schedule expiry job for quote ${quoteId}: ${expiryJobError instanceof Error ? expiryJobError.message : 'Unknown error'}`
+      );
+    }
+
+    const updatedQuote = await this.quoteRepository.findById(quoteId);
+    if (!updatedQuote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    try {
+      const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
+      socketEventService.emitQuoteStatusChanged(updatedQuote, quote.status);
+    } catch (socketError) {
+      logger.error(
+        `Error emitting quote status changed event: ${socketError instanceof Error ? socketError.message : 'Unknown error'}`
+      );
+    }
+
+    const passengers = await this.passengerRepository.findByQuoteId(quoteId);
+
+    return QuoteMapper.toQuoteResponse(updatedQuote, itinerary, passengers);
+  }
+}
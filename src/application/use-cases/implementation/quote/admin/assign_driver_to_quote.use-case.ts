@@ -14,7 +14,7 @@ import { IPDFGenerationService } from '../../../../../domain/services/pdf_genera
 import { IEmailService } from '../../../../../domain/services/email_service.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { QuoteMapper } from '../../../../mapper/quote.mapper';
-import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES, TripType } from '../../../../../shared/constants';
+import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES, TripType, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
 import { logger } from '../../../../../shared/logger';
 import { Quote } from '../../../../../domain/entities/quote.entity';
@@ -24,8 +24,13 @@ import { Vehicle } from '../../../../../domain/entities/vehicle.entity';
 import { Amenity } from '../../../../../domain/entities/amenity.entity';
 import { ISocketEventService } from '../../../../../domain/services/socket_event_service.interface';
 import { IQueueService } from '../../../../../domain/services/queue_service.interface';
+import { IVehicleAvailabilityService } from '../../../../../domain/services/vehicle_availability_service.interface';
+import { IPromoCodeService } from '../../../../../domain/services/promo_code_service.interface';
 import { canAssignDriverToQuote } from '../../../../../shared/utils/driver_assignment.util';
+import { describeVehicleHoldConflicts } from '../../../../../shared/utils/vehicle_hold.util';
+import { deriveTripWindow } from '../../../../mapper/driver_dashboard.mapper';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for assigning driver to quote
@@ -55,7 +60,13 @@ export class AssignDriverToQuoteUseCase implements IAssignDriverToQuoteUseCase {
     @inject(SERVICE_TOKENS.IPDFGenerationService)
     private readonly pdfGenerationService: IPDFGenerationService,
     @inject(SERVICE_TOKENS.IEmailService)
-    private readonly emailService: IEmailService
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService,
+    @inject(SERVICE_TOKENS.IPromoCodeService)
+    private readonly promoCodeService: IPromoCodeService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(quoteId: string, request: AssignDriverToQuoteRequest): Promise<QuoteResponse> {
@@ -194,15 +205,11 @@ export class AssignDriverToQuoteUseCase implements IAssignDriverToQuoteUseCase {
         );
       }
 
-      // Calculate pricing with actual driver rate (driver.salary is per hour)
-      const totalDuration = (quote.routeData.outbound?.totalDuration ?? 0) +
-        (quote.routeData.return?.totalDuration ?? 0);
-      const driverCharge = this.pricingCalculationService.calculateDriverCharge(
-        totalDuration,
-        driver.salary
-      );
+      // Keep the promo code discount the quote was submitted with
+      const promoCode = await this.promoCodeService.findAppliedToQuote(quote);
 
-      // Calculate other pricing components
+      // Calculate pricing with actual driver rate (driver.salary is per hour)
+      // The exchange rate the quote was submitted with is kept
       const pricingBreakdown = this.pricingCalculationService.calculatePricing({
         selectedVehicles: vehiclesWithQuantity,
         selectedAmenities,
@@ -213,21 +220,34 @@ export class AssignDriverToQuoteUseCase implements IAssignDriverToQuoteUseCase {
         pricingConfig,
         tripType: quote.tripType,
         routeData: quote.routeData,
+        exchangeRate: quote.getPricingExchangeRate(),
+        driverRatePerHour: driver.salary,
+        promoCode,
       });
 
-      // Override driver charge with actual driver rate
-      const subtotal =
-        (pricingBreakdown.baseFare ?? 0) +
-        (pricingBreakdown.distanceFare ?? 0) +
-        driverCharge +
-        (pricingBreakdown.nightCharge ?? 0) +
-        (pricingBreakdown.amenitiesTotal ?? 0);
+      const driverCharge = pricingBreakdown.driverCharge ?? 0;
+      const subtotal = pricingBreakdown.subtotal ?? 0;
+      const tax = pricingBreakdown.tax ?? 0;
+      const total = pricingBreakdown.total ?? 0;
 
-      const tax = this.pricingCalculationService.calculateTax(subtotal, pricingConfig.taxPercentage);
-      const total = subtotal + tax;
+      // Hold the vehicles for the payment window before quoting
+      const quotedAt = new Date();
+      const { tripStartAt, tripEndAt } = deriveTripWindow(itinerary);
+      const holdResult = await this.vehicleAvailabilityService.holdVehiclesForQuote(
+        quoteId,
+        vehicleIds,
+        { startAt: tripStartAt, endAt: tripEndAt },
+        quotedAt
+      );
+      if (!holdResult.acquired) {
+        throw new AppError(
+          describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts),
+          ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+          409
+        );
+      }
 
       // Update quote with driver assignment and new pricing
-      const quotedAt = new Date();
       await this.quoteRepository.updateById(quoteId, {
         status: QuoteStatus.QUOTED,
         assignedDriverId: request.driverId,
@@ -243,9 +263,16 @@ export class AssignDriverToQuoteUseCase implements IAssignDriverToQuoteUseCase {
           nightCharge: pricingBreakdown.nightCharge ?? 0,
           amenitiesTotal: pricingBreakdown.amenitiesTotal ?? 0,
           subtotal,
+          discount: pricingBreakdown.discount,
+          promoCode: pricingBreakdown.promoCode,
           tax,
           total,
+          currency: pricingBreakdown.currency,
+          baseCurrency: pricingBreakdown.baseCurrency,
+          exchangeRateAtTime: pricingBreakdown.exchangeRateAtTime,
         },
+        // Repricing replaces any negotiated price
+        pricingVersions: quote.getSupersededPricingVersions(),
         pricingLastUpdatedAt: quotedAt,
         quotedAt,
       } as Partial<Quote>);
@@ -254,6 +281,7 @@ export class AssignDriverToQuoteUseCase implements IAssignDriverToQuoteUseCase {
       try {
         const queueService = container.resolve<IQueueService>(SERVICE_TOKENS.IQueueService);
         await queueService.addQuoteExpiryJob(quoteId, quotedAt);
+        await queueService.addQuoteReminderJob(quoteId, quotedAt);
         logger.info(`Quote expiry job scheduled for quote: ${quoteId}`);
       } catch (expiryJobError) {
         // Log error but don't fail driver assignment
@@ -278,6 +306,14 @@ export class AssignDriverToQuoteUseCase implements IAssignDriverToQuoteUseCase {
         throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
       }
 
+      await this.auditLogService.record({
+        action: AuditAction.QUOTE_DRIVER_ASSIGN,
+        targetType: AuditTargetType.QUOTE,
+        targetId: quoteId,
+        before: quote,
+        after: updatedQuote,
+      });
+
       // Get user for email
       const user = await this.userRepository.findById(quote.userId);
       if (!user) {
@@ -303,6 +339,7 @@ export class AssignDriverToQuoteUseCase implements IAssignDriverToQuoteUseCase {
         tripName: updatedQuote.tripName,
         tripType: updatedQuote.tripType === TripType.ONE_WAY ? 'one_way' : 'two_way',
         totalPrice: total,
+        currency: pricingBreakdown.currency,
         quoteDate: quotedAt,
         viewQuoteLink: quoteDetailsLink,
         paymentLink: quoteDetailsLink, // Points to quote details page where Pay Now button is available
@@ -0,0 +1,168 @@
+import { inject, injectable } from 'tsyringe';
+import { container } from 'tsyringe';
+import { IProposeCounterOfferUseCase } from '../../../interface/quote/admin/propose_counter_offer_use_case.interface';
+import { INotificationService } from '../../../../../domain/services/notification_service.interface';
+import { ProposeCounterOfferRequest, QuoteResponse } from '../../../../dtos/quote.dto';
+import { IQuoteRepository } from '../../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../../domain/repositories/quote_itinerary_repository.interface';
+import { IPassengerRepository } from '../../../../../domain/repositories/passenger_repository.interface';
+import { ISocketEventService } from '../../../../../domain/services/socket_event_service.interface';
+import {
+  IPricingOverride,
+  IQuotePricingVersion,
+  Quote,
+} from '../../../../../domain/entities/quote.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
+import { QuoteMapper } from '../../../../mapper/quote.mapper';
+import { ERROR_MESSAGES, ERROR_CODES, NotificationType, QuoteStatus, AuditAction, AuditTargetType } from '../../../../../shared/constants';
+import { AppError } from '../../../../../shared/utils/app_error.util';
+import { formatCurrency } from '../../../../../shared/utils/currency.util';
+import { logger } from '../../../../../shared/logger';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for sending a counter-offer on a quote
+ * Applies the admin's component overrides and line items to the current pricing,
+ * records the result as a new pricing version, and moves the quote into negotiation
+ */
+@injectable()
+export class ProposeCounterOfferUseCase implements IProposeCounterOfferUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IPassengerRepository)
+    private readonly passengerRepository: IPassengerRepository,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(
+    quoteId: string,
+    adminUserId: string,
+    request: ProposeCounterOfferRequest
+  ): Promise<QuoteResponse> {
+    // Input validation
+    if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
+    }
+
+    const quote = await this.quoteRepository.findById(quoteId);
+    if (!quote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    if (!quote.canBeNegotiated() || !quote.pricing) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_NEGOTIABLE, ERROR_CODES.QUOTE_NOT_NEGOTIABLE, 400);
+    }
+
+    const requestedOverrides = request.overrides ?? [];
+    const lineItems = (request.lineItems ?? []).map((item) => ({
+      description: item.description.trim(),
+      amount: item.amount,
+      reason: item.reason.trim(),
+    }));
+
+    const components = new Set(requestedOverrides.map((override) => override.component));
+    if (
+      (requestedOverrides.length === 0 && lineItems.length === 0) ||
+      components.size !== requestedOverrides.length
+    ) {
+      throw new AppError(ERROR_MESSAGES.INVALID_COUNTER_OFFER, ERROR_CODES.INVALID_COUNTER_OFFER, 400);
+    }
+
+    // Keep what each component was before the override so the history reads on its own
+    const pricing = quote.pricing;
+    const overrides: IPricingOverride[] = requestedOverrides.map((override) => ({
+      component: override.component,
+      originalAmount: pricing[override.component] ?? 0,
+      amount: override.amount,
+      reason: override.reason.trim(),
+    }));
+
+    const negotiatedPricing = quote.buildNegotiatedPricing(overrides, lineItems);
+    if ((negotiatedPricing.total ?? 0) <= 0) {
+      throw new AppError(ERROR_MESSAGES.INVALID_COUNTER_OFFER, ERROR_CODES.INVALID_COUNTER_OFFER, 400);
+    }
+
+    // A new counter-offer replaces the one the user hasn't answered yet
+    const history = quote.pricingVersions ?? [];
+    const version: IQuotePricingVersion = {
+      version: history.length + 1,
+      pricing: negotiatedPricing,
+      overrides,
+      lineItems,
+      status: 'proposed',
+      proposedBy: adminUserId,
+      proposedAt: new Date(),
+      note: request.note?.trim() || undefined,
+    };
+    const pricingVersions: IQuotePricingVersion[] = [
+      ...history.map((existing) =>
+        existing.status === 'proposed' ? { ...existing, status: 'superseded' as const } : existing
+      ),
+      version,
+    ];
+
+    await this.quoteRepository.updateById(quoteId, {
+      status: QuoteStatus.NEGOTIATING,
+      pricingVersions,
+    } as Partial<Quote>);
+
+    logger.info(
+      `Counter-offer v${version.version} sent on quote ${quoteId} by admin ${adminUserId}: total ${pricing.total} -> ${negotiatedPricing.total}`
+    );
+
+    const updatedQuote = await this.quoteRepository.findById(quoteId);
+    if (!updatedQuote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.QUOTE_COUNTER_OFFER,
+      targetType: AuditTargetType.QUOTE,
+      targetId: quoteId,
+      before: quote,
+      after: updatedQuote,
+      metadata: { version: version.version },
+    });
+
+    if (quote.status !== QuoteStatus.NEGOTIATING) {
+      try {
+        const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
+        socketEventService.emitQuoteStatusChanged(updatedQuote, quote.status);
+      } catch (socketError) {
+        logger.error(
+          `Error emitting quote status changed event: ${socketError instanceof Error ? socketError.message : 'Unknown error'}`
+        );
+      }
+    }
+
+    try {
+      await this.notificationService.sendNotification({
+        userId: quote.userId,
+        type: NotificationType.QUOTE_COUNTER_OFFER,
+        title: 'New Price Offer',
+        message: `We've sent a revised price of ${formatCurrency(negotiatedPricing.total ?? 0, negotiatedPricing.currency ?? quote.currency)} for ${quote.tripName || 'your trip'}. Review it on your quote page.`,
+        data: {
+          quoteId,
+          version: version.version,
+          total: negotiatedPricing.total,
+          currency: negotiatedPricing.currency,
+        },
+      });
+    } catch (notificationError) {
+      logger.error(
+        `Failed to send counter-offer notification for quote ${quoteId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+    }
+
+    const itineraryStops = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+    const passengers = await this.passengerRepository.findByQuoteId(quoteId);
+
+    return QuoteMapper.toQuoteResponse(updatedQuote, itineraryStops, passengers);
+  }
+}
@@ -12,9 +12,13 @@ import { IPricingConfigRepository } from '../../../../../domain/repositories/pri
 import { IPricingCalculationService } from '../../../../../domain/services/pricing_calculation_service.interface';
 import { IPDFGenerationService } from '../../../../../domain/services/pdf_generation_service.interface';
 import { IEmailService } from '../../../../../domain/services/email_service.interface';
+import { IVehicleAvailabilityService } from '../../../../../domain/services/vehicle_availability_service.interface';
+import { IMaintenanceWindowRepository } from '../../../../../domain/repositories/maintenance_window_repository.interface';
+import { IExchangeRateService } from '../../../../../domain/services/exchange_rate_service.interface';
+import { IPromoCodeService } from '../../../../../domain/services/promo_code_service.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { QuoteMapper } from '../../../../mapper/quote.mapper';
-import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES, TripType } from '../../../../../shared/constants';
+import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES, TripType, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { AppError } from '../../../../../shared/utils/app_error.util';
 import { logger } from '../../../../../shared/logger';
 import { Quote } from '../../../../../domain/entities/quote.entity';
@@ -24,8 +28,11 @@ import { Vehicle } from '../../../../../domain/entities/vehicle.entity';
 import { Amenity } from '../../../../../domain/entities/amenity.entity';
 import { Driver } from '../../../../../domain/entities/driver.entity';
 import { canAssignDriverToQuote } from '../../../../../shared/utils/driver_assignment.util';
+import { describeVehicleHoldConflicts } from '../../../../../shared/utils/vehicle_hold.util';
+import { deriveTripWindow } from '../../../../mapper/driver_dashboard.mapper';
 import { ISocketEventService } from '../../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for recalculating quote pricing
@@ -55,7 +62,17 @@ export class RecalculateQuoteUseCase implements IRecalculateQuoteUseCase {
     @inject(SERVICE_TOKENS.IPDFGenerationService)
     private readonly pdfGenerationService: IPDFGenerationService,
     @inject(SERVICE_TOKENS.IEmailService)
-    private readonly emailService: IEmailService
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService,
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository,
+    @inject(SERVICE_TOKENS.IExchangeRateService)
+    private readonly exchangeRateService: IExchangeRateService,
+    @inject(SERVICE_TOKENS.IPromoCodeService)
+    private readonly promoCodeService: IPromoCodeService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(quoteId: string): Promise<RecalculateQuoteResponse> {
@@ -103,11 +120,16 @@ export class RecalculateQuoteUseCase implements IRecalculateQuoteUseCase {
         maxDate,
         quoteId // Exclude current quote
       );
+      const maintenanceVehicleIds =
+        await this.maintenanceWindowRepository.findVehicleIdsUnderMaintenanceInDateRange(minDate, maxDate);
 
       // Check if any selected vehicles are no longer available
       const unavailableVehicles: string[] = [];
       for (const selectedVehicle of quote.selectedVehicles) {
-        if (bookedVehicleIds.has(selectedVehicle.vehicleId)) {
+        if (
+          bookedVehicleIds.has(selectedVehicle.vehicleId) ||
+          maintenanceVehicleIds.has(selectedVehicle.vehicleId)
+        ) {
           unavailableVehicles.push(selectedVehicle.vehicleId);
         }
       }
@@ -281,15 +303,19 @@ export class RecalculateQuoteUseCase implements IRecalculateQuoteUseCase {
         );
       }
 
-      // Calculate pricing with actual driver rate
-      const totalDuration = (quote.routeData.outbound?.totalDuration ?? 0) +
-        (quote.routeData.return?.totalDuration ?? 0);
-      const driverCharge = this.pricingCalculationService.calculateDriverCharge(
-        totalDuration,
-        driverToUse.salary
+      // Recalculation picks up the current exchange rate along with the current pricing config
+      const exchangeRate = await this.exchangeRateService.getSnapshot(
+        pricingConfig.currency,
+        quote.currency ?? quote.pricing?.currency ?? pricingConfig.currency
       );
+      if (!exchangeRate) {
+        throw new AppError(ERROR_MESSAGES.UNSUPPORTED_CURRENCY, ERROR_CODES.UNSUPPORTED_CURRENCY, 400);
+      }
+
+      // Keep the promo code discount the quote was submitted with
+      const promoCode = await this.promoCodeService.findAppliedToQuote(quote);
 
-      // Calculate other pricing components
+      // Calculate pricing with actual driver rate
       const pricingBreakdown = this.pricingCalculationService.calculatePricing({
         selectedVehicles: vehiclesWithQuantity,
         selectedAmenities,
@@ -300,24 +326,41 @@ export class RecalculateQuoteUseCase implements IRecalculateQuoteUseCase {
         pricingConfig,
         tripType: quote.tripType,
         routeData: quote.routeData,
+        exchangeRate,
+        driverRatePerHour: driverToUse.salary,
+        promoCode,
       });
 
-      // Override driver charge with actual driver rate
-      const subtotal =
-        (pricingBreakdown.baseFare ?? 0) +
-        (pricingBreakdown.distanceFare ?? 0) +
-        driverCharge +
-        (pricingBreakdown.nightCharge ?? 0) +
-        (pricingBreakdown.amenitiesTotal ?? 0);
-
-      const tax = this.pricingCalculationService.calculateTax(subtotal, pricingConfig.taxPercentage);
-      const total = subtotal + tax;
+      const driverCharge = pricingBreakdown.driverCharge ?? 0;
+      const subtotal = pricingBreakdown.subtotal ?? 0;
+      const tax = pricingBreakdown.tax ?? 0;
+      const total = pricingBreakdown.total ?? 0;
 
       // Check if driver changed (new assignment)
       const driverChanged = quote.assignedDriverId !== driverIdToAssign;
 
-      // Update quote with new pricing and driver (if changed)
+      // Renew the vehicle holds along with the payment window
       const quotedAt = new Date();
+      const { tripStartAt, tripEndAt } = deriveTripWindow(itinerary);
+      const holdResult = await this.vehicleAvailabilityService.holdVehiclesForQuote(
+        quoteId,
+        vehicleIds,
+        { startAt: tripStartAt, endAt: tripEndAt },
+        quotedAt
+      );
+      if (!holdResult.acquired) {
+        logger.warn(
+          `Quote ${quoteId} recalculation failed: ${describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts)}`
+        );
+
+        return {
+          success: false,
+          message: ERROR_MESSAGES.VEHICLES_NOT_AVAILABLE,
+          requiresVehicleReselection: true,
+        };
+      }
+
+      // Update quote with new pricing and driver (if changed)
       await this.quoteRepository.updateById(quoteId, {
         assignedDriverId: driverIdToAssign,
         actualDriverRate: driverToUse.salary,
@@ -332,9 +375,16 @@ export class RecalculateQuoteUseCase implements IRecalculateQuoteUseCase {
           nightCharge: pricingBreakdown.nightCharge ?? 0,
           amenitiesTotal: pricingBreakdown.amenitiesTotal ?? 0,
           subtotal,
+          discount: pricingBreakdown.discount,
+          promoCode: pricingBreakdown.promoCode,
           tax,
           total,
+          currency: pricingBreakdown.currency,
+          baseCurrency: pricingBreakdown.baseCurrency,
+          exchangeRateAtTime: pricingBreakdown.exchangeRateAtTime,
         },
+        // Repricing replaces any negotiated price
+        pricingVersions: quote.getSupersededPricingVersions(),
         pricingLastUpdatedAt: quotedAt,
         quotedAt, // Reset quotedAt to extend payment window
       } as Partial<Quote>);
@@ -357,6 +407,14 @@ export class RecalculateQuoteUseCase implements IRecalculateQuoteUseCase {
         throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
       }
 
+      await this.auditLogService.record({
+        action: AuditAction.QUOTE_RECALCULATE,
+        targetType: AuditTargetType.QUOTE,
+        targetId: quoteId,
+        before: quote,
+        after: updatedQuote,
+      });
+
       // Get user for email
       const user = await this.userRepository.findById(quote.userId);
       if (!user) {
@@ -382,6 +440,7 @@ export class RecalculateQuoteUseCase implements IRecalculateQuoteUseCase {
         tripName: updatedQuote.tripName,
         tripType: updatedQuote.tripType === TripType.ONE_WAY ? 'one_way' : 'two_way',
         totalPrice: total,
+        currency: pricingBreakdown.currency,
         quoteDate: quotedAt,
         viewQuoteLink,
         paymentLink,
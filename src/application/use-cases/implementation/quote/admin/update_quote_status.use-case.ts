@@ -6,12 +6,13 @@ import { IPassengerRepository } from '../../../../../domain/repositories/passeng
 import { UpdateQuoteStatusRequest, QuoteResponse } from '../../../../dtos/quote.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../../di/tokens';
 import { QuoteMapper } from '../../../../mapper/quote.mapper';
-import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES } from '../../../../../shared/constants';
+import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../../shared/constants';
 import { logger } from '../../../../../shared/logger';
 import { AppError } from '../../../../../shared/utils/app_error.util';
 import { Quote } from '../../../../../domain/entities/quote.entity';
 import { ISocketEventService } from '../../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating quote status
@@ -25,7 +26,9 @@ export class UpdateQuoteStatusUseCase implements IUpdateQuoteStatusUseCase {
     @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
     private readonly itineraryRepository: IQuoteItineraryRepository,
     @inject(REPOSITORY_TOKENS.IPassengerRepository)
-    private readonly passengerRepository: IPassengerRepository
+    private readonly passengerRepository: IPassengerRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
   ) {}
 
   async execute(quoteId: string, request: UpdateQuoteStatusRequest): Promise<QuoteResponse> {
@@ -84,6 +87,14 @@ export class UpdateQuoteStatusUseCase implements IUpdateQuoteStatusUseCase {
       throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.QUOTE_STATUS_CHANGE,
+      targetType: AuditTargetType.QUOTE,
+      targetId: quoteId,
+      before: quote,
+      after: updatedQuote,
+    });
+
     // Fetch itinerary and passengers
     const itineraryStops = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
     const passengers = await this.passengerRepository.findByQuoteId(quoteId);
@@ -0,0 +1,111 @@
+import { injectable, inject } from 'tsyringe';
+import { IApplyPromoCodeUseCase } from '../../interface/quote/apply_promo_code_use_case.interface';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
+import { IPassengerRepository } from '../../../../domain/repositories/passenger_repository.interface';
+import { IPromoCodeRepository } from '../../../../domain/repositories/promo_code_repository.interface';
+import { IPromoCodeService } from '../../../../domain/services/promo_code_service.interface';
+import { PromoCodeIneligibilityReason } from '../../../../domain/entities/promo_code.entity';
+import { Quote } from '../../../../domain/entities/quote.entity';
+import { ApplyPromoCodeRequest, QuoteResponse } from '../../../dtos/quote.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { QuoteMapper } from '../../../mapper/quote.mapper';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for applying a promo code to a quote draft
+ * The discount itself is calculated whenever the quote is priced
+ */
+@injectable()
+export class ApplyPromoCodeUseCase implements IApplyPromoCodeUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IPassengerRepository)
+    private readonly passengerRepository: IPassengerRepository,
+    @inject(REPOSITORY_TOKENS.IPromoCodeRepository)
+    private readonly promoCodeRepository: IPromoCodeRepository,
+    @inject(SERVICE_TOKENS.IPromoCodeService)
+    private readonly promoCodeService: IPromoCodeService
+  ) {}
+
+  async execute(quoteId: string, request: ApplyPromoCodeRequest, userId: string): Promise<QuoteResponse> {
+    // Input validation
+    if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    if (!request?.code || request.code.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_REQUEST', 400);
+    }
+
+    const quote = await this.quoteRepository.findById(quoteId);
+
+    if (!quote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    if (quote.userId !== userId) {
+      logger.warn(`User ${userId} attempted to apply a promo code to quote ${quoteId} owned by ${quote.userId}`);
+      throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
+    }
+
+    if (!quote.isDraft()) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_ALREADY_SUBMITTED, ERROR_CODES.QUOTE_ALREADY_SUBMITTED, 400);
+    }
+
+    const promoCode = await this.promoCodeRepository.findByCode(request.code);
+
+    if (!promoCode) {
+      throw new AppError(ERROR_MESSAGES.PROMO_CODE_NOT_FOUND, ERROR_CODES.PROMO_CODE_NOT_FOUND, 404);
+    }
+
+    const reason = await this.promoCodeService.checkEligibility(promoCode, quote);
+    if (reason) {
+      throw this.toIneligibilityError(reason);
+    }
+
+    await this.quoteRepository.updateById(quoteId, { promoCode: promoCode.code } as Partial<Quote>);
+
+    logger.info(`Promo code ${promoCode.code} applied to quote: ${quoteId}`);
+
+    const updatedQuote = await this.quoteRepository.findById(quoteId);
+    if (!updatedQuote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    const itineraryStops = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+    const passengers = await this.passengerRepository.findByQuoteId(quoteId);
+
+    return QuoteMapper.toQuoteResponse(updatedQuote, itineraryStops, passengers);
+  }
+
+  private toIneligibilityError(reason: PromoCodeIneligibilityReason): AppError {
+    switch (reason) {
+      case 'usage_limit_reached':
+        return new AppError(
+          ERROR_MESSAGES.PROMO_CODE_USAGE_LIMIT_REACHED,
+          ERROR_CODES.PROMO_CODE_USAGE_LIMIT_REACHED,
+          400
+        );
+      case 'user_limit_reached':
+        return new AppError(
+          ERROR_MESSAGES.PROMO_CODE_USER_LIMIT_REACHED,
+          ERROR_CODES.PROMO_CODE_USER_LIMIT_REACHED,
+          400
+        );
+      case 'event_type_not_eligible':
+        return new AppError(ERROR_MESSAGES.PROMO_CODE_NOT_APPLICABLE, ERROR_CODES.PROMO_CODE_NOT_APPLICABLE, 400);
+      default:
+        return new AppError(ERROR_MESSAGES.PROMO_CODE_NOT_ACTIVE, ERROR_CODES.PROMO_CODE_NOT_ACTIVE, 400);
+    }
+  }
+}
@@ -7,6 +7,8 @@ import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repo
 import { IAmenityRepository } from '../../../../domain/repositories/amenity_repository.interface';
 import { IPricingConfigRepository } from '../../../../domain/repositories/pricing_config_repository.interface';
 import { IPricingCalculationService } from '../../../../domain/services/pricing_calculation_service.interface';
+import { IExchangeRateService } from '../../../../domain/services/exchange_rate_service.interface';
+import { IPromoCodeService } from '../../../../domain/services/promo_code_service.interface';
 import { Amenity } from '../../../../domain/entities/amenity.entity';
 import { Vehicle } from '../../../../domain/entities/vehicle.entity';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
@@ -32,7 +34,11 @@ export class CalculateQuotePricingUseCase implements ICalculateQuotePricingUseCa
     @inject(REPOSITORY_TOKENS.IPricingConfigRepository)
     private readonly pricingConfigRepository: IPricingConfigRepository,
     @inject(SERVICE_TOKENS.IPricingCalculationService)
-    private readonly pricingCalculationService: IPricingCalculationService
+    private readonly pricingCalculationService: IPricingCalculationService,
+    @inject(SERVICE_TOKENS.IExchangeRateService)
+    private readonly exchangeRateService: IExchangeRateService,
+    @inject(SERVICE_TOKENS.IPromoCodeService)
+    private readonly promoCodeService: IPromoCodeService
   ) {}
 
   async execute(quoteId: string, userId: string): Promise<PricingBreakdownResponse> {
@@ -114,6 +120,19 @@ export class CalculateQuotePricingUseCase implements ICalculateQuotePricingUseCa
         );
       }
 
+      // Resolve the rate for the quote's currency
+      const exchangeRate = await this.exchangeRateService.getSnapshot(
+        pricingConfig.currency,
+        quote.currency ?? pricingConfig.currency
+      );
+
+      if (!exchangeRate) {
+        throw new AppError(ERROR_MESSAGES.UNSUPPORTED_CURRENCY, ERROR_CODES.UNSUPPORTED_CURRENCY, 400);
+      }
+
+      // Drafts only keep a promo code discount while the code is still eligible
+      const promoCode = await this.promoCodeService.findEligibleForQuote(quote);
+
       // Calculate pricing
       const pricingBreakdown = this.pricingCalculationService.calculatePricing({
         selectedVehicles: vehiclesWithQuantity,
@@ -125,6 +144,8 @@ export class CalculateQuotePricingUseCase implements ICalculateQuotePricingUseCa
         pricingConfig,
         tripType: quote.tripType,
         routeData: quote.routeData, // Pass route data for accurate distance/duration calculation
+        exchangeRate,
+        promoCode,
       });
 
       // Map to response DTO
@@ -139,8 +160,13 @@ export class CalculateQuotePricingUseCase implements ICalculateQuotePricingUseCa
         nightCharge: pricingBreakdown.nightCharge ?? 0,
         amenitiesTotal: pricingBreakdown.amenitiesTotal ?? 0,
         subtotal: pricingBreakdown.subtotal ?? 0,
+        discount: pricingBreakdown.discount,
+        promoCode: pricingBreakdown.promoCode,
         tax: pricingBreakdown.tax ?? 0,
         total: pricingBreakdown.total ?? 0,
+        currency: exchangeRate.currency,
+        baseCurrency: pricingBreakdown.baseCurrency,
+        exchangeRateAtTime: pricingBreakdown.exchangeRateAtTime,
       };
 
       logger.info(`Pricing calculated successfully for quote: ${quoteId}, total: ${response.total}`);
@@ -3,18 +3,13 @@ import { container } from 'tsyringe';
 import { CreatePaymentIntentUseCase } from './create_payment_intent.use-case';
 import { MockQuoteRepository } from '../../../../shared/test/mocks/repositories/quote_repository.mock';
 import { MockPaymentRepository } from '../../../../shared/test/mocks/repositories/payment_repository.mock';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { MockPaymentGateway } from '../../../../shared/test/mocks/services/payment_gateway.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { clearContainer } from '../../../../shared/test/helpers/test_setup';
 import { createQuotedQuoteFixture, createQuoteWithPricingFixture, createQuoteFixture } from '../../../../shared/test/fixtures/quote.fixture';
 import { createPendingPaymentFixture } from '../../../../shared/test/fixtures/payment.fixture';
-import { QuoteStatus } from '../../../../shared/constants';
-import * as stripeService from '../../../../infrastructure/service/stripe.service';
-import Stripe from 'stripe';
-
-// Mock the Stripe service
-vi.mock('../../../../infrastructure/services/stripe.service', () => ({
-  getStripeInstance: vi.fn(),
-}));
+import { QuoteStatus, ERROR_CODES } from '../../../../shared/constants';
+import { IGatewayPaymentIntent } from '../../../../domain/services/payment_gateway.interface';
 
 // Mock logger to avoid console output in tests
 vi.mock('../../../../shared/logger', () => ({
@@ -29,11 +24,15 @@ describe('CreatePaymentIntentUseCase', () => {
   let useCase: CreatePaymentIntentUseCase;
   let mockQuoteRepository: MockQuoteRepository;
   let mockPaymentRepository: MockPaymentRepository;
-  let mockStripe: {
-    paymentIntents: {
-      create: ReturnType<typeof vi.fn<[Stripe.PaymentIntentCreateParams], Promise<Stripe.PaymentIntent>>>;
-      retrieve: ReturnType<typeof vi.fn<[string], Promise<Stripe.PaymentIntent>>>;
-    };
+  let mockPaymentGateway: MockPaymentGateway;
+  let mockItineraryRepository: {
+    findByQuoteIdOrdered: ReturnType<typeof vi.fn>;
+  };
+  let mockPromoCodeService: {
+    checkRedemptionLimits: ReturnType<typeof vi.fn>;
+  };
+  let mockVehicleAvailabilityService: {
+    holdVehiclesForQuote: ReturnType<typeof vi.fn>;
   };
 
   beforeEach(() => {
@@ -47,15 +46,29 @@ describe('CreatePaymentIntentUseCase', () => {
     container.registerInstance(REPOSITORY_TOKENS.IQuoteRepository, mockQuoteRepository);
     container.registerInstance(REPOSITORY_TOKENS.IPaymentRepository, mockPaymentRepository);
 
-    // Create mock Stripe instance
-    mockStripe = {
-      paymentIntents: {
-        create: vi.fn<[Stripe.PaymentIntentCreateParams], Promise<Stripe.PaymentIntent>>(),
-        retrieve: vi.fn<[string], Promise<Stripe.PaymentIntent>>(),
-      },
+    mockItineraryRepository = {
+      findByQuoteIdOrdered: vi.fn().mockResolvedValue([]),
     };
+    container.registerInstance(REPOSITORY_TOKENS.IQuoteItineraryRepository, mockItineraryRepository);
 
-    vi.mocked(stripeService.getStripeInstance).mockReturnValue(mockStripe as unknown as Stripe);
+    // Create mock payment gateway
+    mockPaymentGateway = new MockPaymentGateway();
+    container.registerInstance(SERVICE_TOKENS.IPaymentGateway, mockPaymentGateway);
+
+    mockPromoCodeService = {
+      checkRedemptionLimits: vi.fn().mockResolvedValue(null),
+    };
+    container.registerInstance(SERVICE_TOKENS.IPromoCodeService, mockPromoCodeService);
+
+    mockVehicleAvailabilityService = {
+      holdVehiclesForQuote: vi.fn().mockResolvedValue({
+        acquired: true,
+        holds: [],
+        conflicts: [],
+        maintenanceConflicts: [],
+      }),
+    };
+    container.registerInstance(SERVICE_TOKENS.IVehicleAvailabilityService, mockVehicleAvailabilityService);
 
     // Create use case instance
     useCase = container.resolve(CreatePaymentIntentUseCase);
@@ -77,10 +90,11 @@ describe('CreatePaymentIntentUseCase', () => {
 
       mockQuoteRepository.findById.mockResolvedValue(quote);
       mockPaymentRepository.findByQuoteId.mockResolvedValue([]);
-      mockStripe.paymentIntents.create.mockResolvedValue({
+      mockPaymentGateway.createPaymentIntent.mockResolvedValue({
         id: paymentIntentId,
-        client_secret: clientSecret,
-      } as Stripe.PaymentIntent);
+        clientSecret,
+        status: 'requires_payment_method',
+      } as IGatewayPaymentIntent);
 
       // Act
       const result = await useCase.execute(quoteId, userId);
@@ -93,16 +107,13 @@ describe('CreatePaymentIntentUseCase', () => {
       });
       expect(mockQuoteRepository.findById).toHaveBeenCalledWith(quoteId);
       expect(mockPaymentRepository.findByQuoteId).toHaveBeenCalledWith(quoteId);
-      expect(mockStripe.paymentIntents.create).toHaveBeenCalledWith({
-        amount: 1000000, // 10000 * 100 (converted to cents)
+      expect(mockPaymentGateway.createPaymentIntent).toHaveBeenCalledWith({
+        amount: 10000,
         currency: 'inr',
         metadata: {
           quoteId,
           userId,
         },
-        automatic_payment_methods: {
-          enabled: true,
-        },
       });
       expect(mockPaymentRepository.create).toHaveBeenCalled();
     });
@@ -128,10 +139,11 @@ describe('CreatePaymentIntentUseCase', () => {
 
       mockQuoteRepository.findById.mockResolvedValue(quote);
       mockPaymentRepository.findByQuoteId.mockResolvedValue([existingPayment]);
-      mockStripe.paymentIntents.retrieve.mockResolvedValue({
+      mockPaymentGateway.retrievePaymentIntent.mockResolvedValue({
         id: existingPaymentIntentId,
-        client_secret: clientSecret,
-      } as Stripe.PaymentIntent);
+        clientSecret,
+        status: 'requires_payment_method',
+      } as IGatewayPaymentIntent);
 
       // Act
       const result = await useCase.execute(quoteId, userId);
@@ -142,8 +154,45 @@ describe('CreatePaymentIntentUseCase', () => {
         paymentIntentId: existingPaymentIntentId,
         paymentId: existingPayment.paymentId,
       });
-      expect(mockStripe.paymentIntents.create).not.toHaveBeenCalled();
-      expect(mockStripe.paymentIntents.retrieve).toHaveBeenCalledWith(existingPaymentIntentId);
+      expect(mockPaymentGateway.createPaymentIntent).not.toHaveBeenCalled();
+      expect(mockPaymentGateway.retrievePaymentIntent).toHaveBeenCalledWith(existingPaymentIntentId);
+    });
+
+    it('should replace a pending payment intent created for an earlier price', async () => {
+      // Arrange
+      const quoteId = 'quote-123';
+      const userId = 'user-123';
+      const quote = createQuotedQuoteFixture({
+        quoteId,
+        userId,
+        pricing: { total: 8500 },
+      });
+
+      const stalePayment = createPendingPaymentFixture({
+        quoteId,
+        userId,
+        amount: 10000,
+        paymentIntentId: 'pi_stale_123',
+      });
+
+      mockQuoteRepository.findById.mockResolvedValue(quote);
+      mockPaymentRepository.findByQuoteId.mockResolvedValue([stalePayment]);
+      mockPaymentGateway.createPaymentIntent.mockResolvedValue({
+        id: 'pi_new_123',
+        clientSecret: 'pi_new_123_secret',
+        status: 'requires_payment_method',
+      } as IGatewayPaymentIntent);
+
+      // Act
+      const result = await useCase.execute(quoteId, userId);
+
+      // Assert
+      expect(result.paymentIntentId).toBe('pi_new_123');
+      expect(mockPaymentGateway.cancelPaymentIntent).toHaveBeenCalledWith('pi_stale_123');
+      expect(mockPaymentGateway.retrievePaymentIntent).not.toHaveBeenCalled();
+      expect(mockPaymentGateway.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 8500 })
+      );
     });
 
     it('should throw error if quoteId is invalid', async () => {
@@ -244,6 +293,133 @@ describe('CreatePaymentIntentUseCase', () => {
       // Act & Assert
       await expect(useCase.execute(quoteId, userId)).rejects.toThrow();
     });
+
+    it('should charge only the deposit for an eligible group booking', async () => {
+      // Arrange
+      const quoteId = 'quote-123';
+      const userId = 'user-123';
+      const quote = createQuotedQuoteFixture({
+        quoteId,
+        userId,
+        passengerCount: 40,
+        pricing: { total: 10000 },
+      });
+      const tripStartAt = new Date(Date.now() + 60 * 24 * 60 * 60 * 1000);
+
+      mockQuoteRepository.findById.mockResolvedValue(quote);
+      mockPaymentRepository.findByQuoteId.mockResolvedValue([]);
+      mockItineraryRepository.findByQuoteIdOrdered.mockResolvedValue([{ arrivalTime: tripStartAt }]);
+      mockPaymentGateway.createPaymentIntent.mockResolvedValue({
+        id: 'pi_deposit_123',
+        clientSecret: 'pi_deposit_123_secret',
+        status: 'requires_payment_method',
+      } as IGatewayPaymentIntent);
+
+      // Act
+      const result = await useCase.execute(quoteId, userId, 'deposit');
+
+      // Assert
+      expect(mockPaymentGateway.createPaymentIntent).toHaveBeenCalledWith(
+        expect.objectContaining({ amount: 3000 })
+      );
+      expect(result.depositPlan).toEqual(
+        expect.objectContaining({ depositPercentage: 30, depositAmount: 3000, balanceAmount: 7000 })
+      );
+      const savedPayment = mockPaymentRepository.create.mock.calls[0][0];
+      expect(savedPayment.amount).toBe(3000);
+      expect(savedPayment.metadata).toEqual(
+        expect.objectContaining({ paymentType: 'deposit', totalAmount: 10000, balanceAmount: 7000 })
+      );
+    });
+
+    it('should reject a deposit for a group below the minimum size', async () => {
+      // Arrange
+      const quoteId = 'quote-123';
+      const userId = 'user-123';
+      const quote = createQuotedQuoteFixture({
+        quoteId,
+        userId,
+        passengerCount: 10,
+        pricing: { total: 10000 },
+      });
+
+      mockQuoteRepository.findById.mockResolvedValue(quote);
+      mockPaymentRepository.findByQuoteId.mockResolvedValue([]);
+      mockItineraryRepository.findByQuoteIdOrdered.mockResolvedValue([
+        { arrivalTime: new Date(Date.now() + 60 * 24 * 60 * 60 * 1000) },
+      ]);
+
+      // Act & Assert
+      await expect(useCase.execute(quoteId, userId, 'deposit')).rejects.toMatchObject({
+        errorCode: ERROR_CODES.DEPOSIT_NOT_AVAILABLE,
+      });
+      expect(mockPaymentGateway.createPaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to charge a discount whose promo code has since been used up', async () => {
+      // Arrange
+      const quoteId = 'quote-123';
+      const userId = 'user-123';
+      const quote = createQuotedQuoteFixture({
+        quoteId,
+        userId,
+        pricing: { total: 9000, promoCode: 'SUMMER10', discount: 1000 },
+      });
+
+      mockQuoteRepository.findById.mockResolvedValue(quote);
+      mockPaymentRepository.findByQuoteId.mockResolvedValue([]);
+      mockPromoCodeService.checkRedemptionLimits.mockResolvedValue('usage_limit_reached');
+
+      // Act & Assert
+      await expect(useCase.execute(quoteId, userId)).rejects.toMatchObject({
+        errorCode: ERROR_CODES.PROMO_CODE_USAGE_LIMIT_REACHED,
+        statusCode: 409,
+      });
+      expect(mockPaymentGateway.createPaymentIntent).not.toHaveBeenCalled();
+    });
+
+    it('should refuse to charge when the quote\'s vehicles have been booked by someone else', async () => {
+      // Arrange
+      const quoteId = 'quote-123';
+      const userId = 'user-123';
+      const quote = createQuotedQuoteFixture({
+        quoteId,
+        userId,
+        pricing: { total: 10000 },
+        selectedVehicles: [{ vehicleId: 'vehicle-1', quantity: 1 }],
+      });
+      const pendingPayment = createPendingPaymentFixture({
+        quoteId,
+        userId,
+        amount: 10000,
+        paymentIntentId: 'pi_existing_123',
+      });
+
+      mockQuoteRepository.findById.mockResolvedValue(quote);
+      mockPaymentRepository.findByQuoteId.mockResolvedValue([pendingPayment]);
+      mockItineraryRepository.findByQuoteIdOrdered.mockResolvedValue([
+        { arrivalTime: new Date(Date.now() + 7 * 24 * 60 * 60 * 1000) },
+      ]);
+      mockVehicleAvailabilityService.holdVehiclesForQuote.mockResolvedValue({
+        acquired: false,
+        holds: [],
+        conflicts: [],
+        maintenanceConflicts: [],
+      });
+
+      // Act & Assert
+      await expect(useCase.execute(quoteId, userId)).rejects.toMatchObject({
+        errorCode: ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+        statusCode: 409,
+      });
+      expect(mockVehicleAvailabilityService.holdVehiclesForQuote).toHaveBeenCalledWith(
+        quoteId,
+        ['vehicle-1'],
+        expect.any(Object),
+        quote.quotedAt
+      );
+      expect(mockPaymentGateway.retrievePaymentIntent).not.toHaveBeenCalled();
+      expect(mockPaymentGateway.createPaymentIntent).not.toHaveBeenCalled();
+    });
   });
 });
-
@@ -1,21 +1,28 @@
 import { inject, injectable } from 'tsyringe';
 import { ICreatePaymentIntentUseCase } from '../../interface/quote/create_payment_intent_use_case.interface';
-import { CreatePaymentIntentResponse } from '../../../dtos/payment.dto';
+import { CreatePaymentIntentResponse, DepositPlanResponse, PaymentPlanType } from '../../../dtos/payment.dto';
 import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
 import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { IPaymentGateway, IGatewayPaymentIntent, GatewayPaymentIntentStatus } from '../../../../domain/services/payment_gateway.interface';
+import { IPromoCodeService } from '../../../../domain/services/promo_code_service.interface';
+import { IVehicleAvailabilityService } from '../../../../domain/services/vehicle_availability_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
+import { buildDepositPlan, DepositPlan } from '../../../../shared/utils/payment_plan.util';
+import { deriveTripWindow } from '../../../mapper/driver_dashboard.mapper';
+import { describeVehicleHoldConflicts } from '../../../../shared/utils/vehicle_hold.util';
 import { logger } from '../../../../shared/logger';
 import { Payment } from '../../../../domain/entities/payment.entity';
-import { PaymentStatus, PaymentMethod } from '../../../../domain/entities/payment.entity';
-import { getStripeInstance } from '../../../../infrastructure/service/stripe.service';
+import { PaymentStatus } from '../../../../domain/entities/payment.entity';
 import { v4 as uuidv4 } from 'uuid';
-import Stripe from 'stripe';
 
 /**
  * Use case for creating a payment intent
- * Validates quote, creates Stripe Payment Intent, and saves payment record
+ * Validates quote, creates a payment intent through the payment gateway, and saves payment record
+ * Large group bookings can pay a deposit now, the payment carries the plan terms for the reservation
  */
 @injectable()
 export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
@@ -23,10 +30,22 @@ export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
     @inject(REPOSITORY_TOKENS.IQuoteRepository)
     private readonly quoteRepository: IQuoteRepository,
     @inject(REPOSITORY_TOKENS.IPaymentRepository)
-    private readonly paymentRepository: IPaymentRepository
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
+    @inject(SERVICE_TOKENS.IPaymentGateway)
+    private readonly paymentGateway: IPaymentGateway,
+    @inject(SERVICE_TOKENS.IPromoCodeService)
+    private readonly promoCodeService: IPromoCodeService,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService
   ) {}
 
-  async execute(quoteId: string, userId: string): Promise<CreatePaymentIntentResponse> {
+  async execute(
+    quoteId: string,
+    userId: string,
+    paymentPlan: PaymentPlanType = 'full'
+  ): Promise<CreatePaymentIntentResponse> {
     try {
       // Input validation
       if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
@@ -37,6 +56,10 @@ export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
         throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
       }
 
+      if (paymentPlan !== 'full' && paymentPlan !== 'deposit') {
+        throw new AppError(ERROR_MESSAGES.INVALID_PAYMENT_PLAN, ERROR_CODES.INVALID_PAYMENT_PLAN, 400);
+      }
+
       logger.info(`Creating payment intent for quote: ${quoteId} by user: ${userId}`);
 
       // Get quote and verify ownership
@@ -60,6 +83,9 @@ export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
             400
           );
         }
+        if (quote.status === QuoteStatus.NEGOTIATING) {
+          throw new AppError(ERROR_MESSAGES.COUNTER_OFFER_PENDING, ERROR_CODES.COUNTER_OFFER_PENDING, 400);
+        }
         throw new AppError(
           'Quote must be in QUOTED status to proceed with payment',
           'INVALID_QUOTE_STATUS',
@@ -85,23 +111,98 @@ export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
         );
       }
 
+      // Other bookings may have used up the promo code since the quote was priced
+      const promoCodeLimit = await this.promoCodeService.checkRedemptionLimits(quote);
+      if (promoCodeLimit === 'usage_limit_reached') {
+        throw new AppError(
+          ERROR_MESSAGES.PROMO_CODE_USAGE_LIMIT_REACHED,
+          ERROR_CODES.PROMO_CODE_USAGE_LIMIT_REACHED,
+          409
+        );
+      }
+      if (promoCodeLimit === 'user_limit_reached') {
+        throw new AppError(
+          ERROR_MESSAGES.PROMO_CODE_USER_LIMIT_REACHED,
+          ERROR_CODES.PROMO_CODE_USER_LIMIT_REACHED,
+          409
+        );
+      }
+
+      // Charge in the currency the quote was priced in, using the gateway's lower-case code
+      const currency = normalizeCurrency(quote.pricing.currency ?? quote.currency).toLowerCase();
+
+      const itinerary = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+
+      // The quote's vehicle holds lapse and can be taken by another booking, so claim them again
+      // before charging; this also refreshes the holds of a quote whose earlier holds were released
+      if (itinerary.length > 0 && quote.selectedVehicles && quote.selectedVehicles.length > 0) {
+        const { tripStartAt, tripEndAt } = deriveTripWindow(itinerary);
+        const holdResult = await this.vehicleAvailabilityService.holdVehiclesForQuote(
+          quoteId,
+          quote.selectedVehicles.map((sv) => sv.vehicleId),
+          { startAt: tripStartAt, endAt: tripEndAt },
+          quote.quotedAt ?? new Date()
+        );
+        if (!holdResult.acquired) {
+          throw new AppError(
+            describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts),
+            ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+            409
+          );
+        }
+      }
+
+      // Deposits are only offered to large groups while the balance due date is still ahead
+      let depositPlan: DepositPlan | null = null;
+      if (paymentPlan === 'deposit') {
+        depositPlan = buildDepositPlan(
+          quote.pricing.total,
+          currency,
+          quote.passengerCount,
+          deriveTripWindow(itinerary).tripStartAt
+        );
+        if (!depositPlan) {
+          throw new AppError(ERROR_MESSAGES.DEPOSIT_NOT_AVAILABLE, ERROR_CODES.DEPOSIT_NOT_AVAILABLE, 400);
+        }
+      }
+      const chargeAmount = depositPlan ? depositPlan.depositAmount : quote.pricing.total;
+
       // Check if payment already exists and is pending
       const existingPayments = await this.paymentRepository.findByQuoteId(quoteId);
       const pendingPayment = existingPayments.find((p) => p.isPending());
 
-      if (pendingPayment && pendingPayment.paymentIntentId) {
-        // Retrieve PaymentIntent from Stripe to check its status
-        const stripe = getStripeInstance();
-        let paymentIntent: Stripe.PaymentIntent | null = null;
+      // A pending intent for an earlier price (e.g. before a counter-offer was accepted)
+      // or for the other payment plan can't be reused
+      if (
+        pendingPayment &&
+        pendingPayment.paymentIntentId &&
+        (pendingPayment.amount !== chargeAmount || pendingPayment.currency !== currency)
+      ) {
+        logger.warn(
+          `PaymentIntent ${pendingPayment.paymentIntentId} was created for ${pendingPayment.amount} ${pendingPayment.currency}, but quote ${quoteId} now needs ${chargeAmount} ${currency}. Cancelling it and creating a new PaymentIntent.`
+        );
+        try {
+          await this.paymentGateway.cancelPaymentIntent(pendingPayment.paymentIntentId);
+        } catch (error) {
+          logger.warn(
+            `Failed to cancel stale PaymentIntent ${pendingPayment.paymentIntentId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+          );
+        }
+        await this.paymentRepository.updateById(pendingPayment.paymentId, {
+          status: PaymentStatus.FAILED,
+        } as Partial<Payment>);
+      } else if (pendingPayment && pendingPayment.paymentIntentId) {
+        // Retrieve PaymentIntent from the gateway to check its status
+        let paymentIntent: IGatewayPaymentIntent | null = null;
         let isTerminal = false;
 
         try {
-          paymentIntent = await stripe.paymentIntents.retrieve(pendingPayment.paymentIntentId);
+          paymentIntent = await this.paymentGateway.retrievePaymentIntent(pendingPayment.paymentIntentId);
           isTerminal = this.isPaymentIntentTerminal(paymentIntent.status);
         } catch (error) {
           // If retrieve fails (network error, invalid ID, etc.), treat as terminal
           logger.warn(
-            `Failed to retrieve PaymentIntent ${pendingPayment.paymentIntentId} from Stripe: ${error instanceof Error ? error.message : 'Unknown error'}. Treating as terminal and creating new PaymentIntent.`
+            `Failed to retrieve PaymentIntent ${pendingPayment.paymentIntentId} from payment gateway: ${error instanceof Error ? error.message : 'Unknown error'}. Treating as terminal and creating new PaymentIntent.`
           );
           isTerminal = true;
         }
@@ -119,47 +220,58 @@ export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
           // PaymentIntent is still usable, return it immediately
           logger.info(`Returning existing payment intent: ${pendingPayment.paymentIntentId}`);
           return {
-            clientSecret: paymentIntent.client_secret as string,
+            clientSecret: paymentIntent.clientSecret as string,
             paymentIntentId: paymentIntent.id,
             paymentId: pendingPayment.paymentId,
+            depositPlan: depositPlan ? this.toDepositPlanResponse(depositPlan, currency) : undefined,
           };
         }
       }
 
-      // Create Stripe Payment Intent
-      const stripe = getStripeInstance();
-      const amountInCents = Math.round(quote.pricing.total * 100); // Convert to cents
-
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: amountInCents,
-        currency: 'inr',
+      // Create payment intent through the gateway
+      const paymentIntent = await this.paymentGateway.createPaymentIntent({
+        amount: chargeAmount,
+        currency,
         metadata: {
           quoteId,
           userId,
-        },
-        automatic_payment_methods: {
-          enabled: true,
+          ...(depositPlan ? { paymentType: 'deposit' } : {}),
         },
       });
 
-      logger.info(`Created Stripe payment intent: ${paymentIntent.id} for quote: ${quoteId}`);
+      logger.info(`Created payment intent: ${paymentIntent.id} for quote: ${quoteId}`);
 
       // Create Payment entity
       const paymentId = uuidv4();
+      const acceptedVersion = quote.pricingVersions?.find((version) => version.status === 'accepted');
       const payment = new Payment(
         paymentId,
         quoteId,
         userId,
-        quote.pricing.total,
-        'inr',
-        PaymentMethod.STRIPE,
+        chargeAmount,
+        currency,
+        this.paymentGateway.paymentMethod,
         PaymentStatus.PENDING,
         new Date(),
         new Date(),
         paymentIntent.id,
         undefined,
         undefined,
-        { stripePaymentIntentId: paymentIntent.id }
+        {
+          stripePaymentIntentId: paymentIntent.id,
+          // Negotiated quotes record which counter-offer version was charged
+          ...(acceptedVersion ? { pricingVersion: acceptedVersion.version } : {}),
+          // Deposit terms are fixed when the customer pays, the reservation's schedule is built from them
+          ...(depositPlan
+            ? {
+                paymentType: 'deposit',
+                totalAmount: quote.pricing.total,
+                depositPercentage: depositPlan.depositPercentage,
+                balanceAmount: depositPlan.balanceAmount,
+                balanceDueAt: depositPlan.balanceDueAt.toISOString(),
+              }
+            : {}),
+        }
       );
 
       // Save payment to database
@@ -168,9 +280,10 @@ export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
       logger.info(`Created payment record: ${paymentId} for quote: ${quoteId}`);
 
       return {
-        clientSecret: paymentIntent.client_secret as string,
+        clientSecret: paymentIntent.clientSecret as string,
         paymentIntentId: paymentIntent.id,
         paymentId,
+        depositPlan: depositPlan ? this.toDepositPlanResponse(depositPlan, currency) : undefined,
       };
     } catch (error) {
       logger.error(
@@ -180,13 +293,17 @@ export class CreatePaymentIntentUseCase implements ICreatePaymentIntentUseCase {
     }
   }
 
+  private toDepositPlanResponse(depositPlan: DepositPlan, currency: string): DepositPlanResponse {
+    return { ...depositPlan, currency: normalizeCurrency(currency) };
+  }
+
   /**
-   * Checks if a Stripe PaymentIntent status is terminal (cannot be reused)
+   * Checks if a PaymentIntent status is terminal (cannot be reused)
    * Terminal states: succeeded, canceled
    * Note: When payment fails, Stripe typically sets status to 'canceled'
    */
-  private isPaymentIntentTerminal(status: Stripe.PaymentIntent.Status): boolean {
-    const terminalStates: Stripe.PaymentIntent.Status[] = [
+  private isPaymentIntentTerminal(status: GatewayPaymentIntentStatus): boolean {
+    const terminalStates: GatewayPaymentIntentStatus[] = [
       'succeeded',
       'canceled',
     ];
@@ -8,6 +8,7 @@ import { QuoteStatus, ERROR_MESSAGES } from '../../../../shared/constants';
 import { randomUUID } from 'crypto';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
+import { IQueueService } from '../../../../domain/services/queue_service.interface';
 import { container } from 'tsyringe';
 import { generateReferenceNumber } from '../../../../shared/utils/reference_number.util';
 
@@ -71,6 +72,15 @@ export class CreateQuoteDraftUseCase implements ICreateQuoteDraftUseCase {
       console.error('Error emitting quote created event:', error);
     }
 
+    // Nudge the customer if they abandon the draft
+    try {
+      const queueService = container.resolve<IQueueService>(SERVICE_TOKENS.IQueueService);
+      await queueService.addDraftReminderJob(quoteId, now);
+    } catch (error) {
+      // Don't fail quote creation if the reminder can't be scheduled
+      console.error('Error scheduling draft quote reminder:', error);
+    }
+
     return {
       quoteId,
       status: QuoteStatus.DRAFT,
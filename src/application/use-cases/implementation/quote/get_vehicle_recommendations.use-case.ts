@@ -5,6 +5,8 @@ import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repo
 import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
 import { IVehicleRecommendationService } from '../../../../domain/services/vehicle_recommendation_service.interface';
 import { IAmenityRepository } from '../../../../domain/repositories/amenity_repository.interface';
+import { IVehicleAvailabilityService } from '../../../../domain/services/vehicle_availability_service.interface';
+import { IMaintenanceWindowRepository } from '../../../../domain/repositories/maintenance_window_repository.interface';
 import { Vehicle } from '../../../../domain/entities/vehicle.entity';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { VehicleStatus } from '../../../../shared/constants';
@@ -14,7 +16,7 @@ import { AppError } from '../../../../shared/utils/app_error.util';
 /**
  * Use case for getting vehicle recommendations
  * Provides vehicle recommendations based on passenger count and trip dates
- * Filters out vehicles that are already booked or reserved during the requested dates
+ * Filters out vehicles that are already booked, reserved or in maintenance during the requested dates
  */
 @injectable()
 export class GetVehicleRecommendationsUseCase implements IGetVehicleRecommendationsUseCase {
@@ -26,7 +28,11 @@ export class GetVehicleRecommendationsUseCase implements IGetVehicleRecommendati
     @inject(SERVICE_TOKENS.IVehicleRecommendationService)
     private readonly vehicleRecommendationService: IVehicleRecommendationService,
     @inject(REPOSITORY_TOKENS.IAmenityRepository)
-    private readonly amenityRepository: IAmenityRepository
+    private readonly amenityRepository: IAmenityRepository,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService,
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository
   ) {}
 
   async execute(request: GetRecommendationsRequest): Promise<VehicleRecommendationResponse> {
@@ -63,35 +69,47 @@ export class GetVehicleRecommendationsUseCase implements IGetVehicleRecommendati
         endDate
       );
 
-      // 4. Combine booked and reserved vehicles
+      // 4. Find vehicles held for quotes or booked for reservations (covers reassigned vehicles)
+      const heldVehicleIds = await this.vehicleAvailabilityService.findHeldVehicleIds({
+        startAt: startDate,
+        endAt: endDate,
+      });
+
+      // 5. Find vehicles with a maintenance window during these dates
+      const maintenanceVehicleIds =
+        await this.maintenanceWindowRepository.findVehicleIdsUnderMaintenanceInDateRange(startDate, endDate);
+
+      // 6. Combine booked, reserved, held and maintenance vehicles
       const unavailableVehicleIds = new Set([
         ...bookedVehicleIds,
         ...reservedVehicleIds,
+        ...heldVehicleIds,
+        ...maintenanceVehicleIds,
       ]);
 
-      // 5. Filter out unavailable vehicles
+      // 7. Filter out unavailable vehicles
       const trulyAvailableVehicles = allAvailableVehicles.filter(
         (vehicle) => !unavailableVehicleIds.has(vehicle.vehicleId)
       );
 
       logger.info(
-        `Found ${allAvailableVehicles.length} available vehicles, ${bookedVehicleIds.size} booked, ${reservedVehicleIds.size} reserved, ${trulyAvailableVehicles.length} truly available`
+        `Found ${allAvailableVehicles.length} available vehicles, ${bookedVehicleIds.size} booked, ${reservedVehicleIds.size} reserved, ${heldVehicleIds.size} held, ${maintenanceVehicleIds.size} in maintenance, ${trulyAvailableVehicles.length} truly available`
       );
 
-      // 6. Get recommendations from truly available vehicles
+      // 8. Get recommendations from truly available vehicles
       const recommendations = this.vehicleRecommendationService.getRecommendations(
         request.passengerCount,
         trulyAvailableVehicles
       );
 
-      // 7. Filter duplicates from available vehicles for response (case-insensitive by name)
+      // 9. Filter duplicates from available vehicles for response (case-insensitive by name)
       const uniqueAvailableVehicles = this.filterDuplicateVehiclesByName(trulyAvailableVehicles);
 
-      // 8. Get all amenities for mapping
+      // 10. Get all amenities for mapping
       const allAmenities = await this.amenityRepository.findAll();
       const amenityMap = new Map(allAmenities.map((a) => [a.amenityId, a]));
 
-      // 9. Map recommendations to response format
+      // 11. Map recommendations to response format
       const recommendationOptions = recommendations.map((rec) => ({
         optionId: rec.optionId,
         vehicles: rec.vehicles.map((v) => ({
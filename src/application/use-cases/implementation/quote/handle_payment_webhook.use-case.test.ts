@@ -3,6 +3,7 @@ import { container } from 'tsyringe';
 import { HandlePaymentWebhookUseCase } from './handle_payment_webhook.use-case';
 import { MockQuoteRepository } from '../../../../shared/test/mocks/repositories/quote_repository.mock';
 import { MockPaymentRepository } from '../../../../shared/test/mocks/repositories/payment_repository.mock';
+import { MockReservationRepository } from '../../../../shared/test/mocks/repositories/reservation_repository.mock';
 import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
 import { clearContainer } from '../../../../shared/test/helpers/test_setup';
 import { createPendingPaymentFixture } from '../../../../shared/test/fixtures/payment.fixture';
@@ -43,6 +44,7 @@ describe('HandlePaymentWebhookUseCase', () => {
     // Register mocks in container
     container.registerInstance(REPOSITORY_TOKENS.IQuoteRepository, mockQuoteRepository);
     container.registerInstance(REPOSITORY_TOKENS.IPaymentRepository, mockPaymentRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, new MockReservationRepository());
     container.registerInstance(USE_CASE_TOKENS.CreateReservationUseCase, mockCreateReservationUseCase);
 
     // Create use case instance
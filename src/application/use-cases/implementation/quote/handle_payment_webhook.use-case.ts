@@ -3,18 +3,24 @@ import { IHandlePaymentWebhookUseCase } from '../../interface/quote/handle_payme
 import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
 import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
 import { IReservationChargeRepository } from '../../../../domain/repositories/reservation_charge_repository.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
 import { ICreateReservationUseCase } from '../../interface/reservation/create_reservation_use_case.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
 import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { QuoteStatus } from '../../../../shared/constants';
+import { NotificationType, QuoteStatus } from '../../../../shared/constants';
 import { logger } from '../../../../shared/logger';
 import { PaymentStatus } from '../../../../domain/entities/payment.entity';
-import Stripe from 'stripe';
+import { IWebhookPaymentIntentObject } from '../../../../domain/services/payment_gateway.interface';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
+import { IQueueService } from '../../../../domain/services/queue_service.interface';
+import { IReservationInvoiceService } from '../../../../domain/services/reservation_invoice_service.interface';
+import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { formatCurrency } from '../../../../shared/utils/currency.util';
 import { container } from 'tsyringe';
 
 /**
  * Use case for handling payment webhooks
- * Processes Stripe webhook events and updates payment and quote status
+ * Processes payment gateway webhook events and updates payment and quote status
  */
 @injectable()
 export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase {
@@ -25,12 +31,14 @@ export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase
     private readonly paymentRepository: IPaymentRepository,
     @inject(REPOSITORY_TOKENS.IReservationChargeRepository)
     private readonly chargeRepository: IReservationChargeRepository,
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
     @inject(USE_CASE_TOKENS.CreateReservationUseCase)
     private readonly createReservationUseCase: ICreateReservationUseCase
   ) {}
 
   async execute(event: { type: string; data: { object: unknown } }): Promise<void> {
-    const paymentIntent = event.data.object as Stripe.PaymentIntent;
+    const paymentIntent = event.data.object as IWebhookPaymentIntentObject;
 
     logger.info(`Processing webhook event: ${event.type} for payment intent: ${paymentIntent.id}`);
 
@@ -70,14 +78,17 @@ export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase
 
   private async handlePaymentSucceeded(
     payment: import('../../../../domain/entities/payment.entity').Payment,
-    paymentIntent: Stripe.PaymentIntent
+    paymentIntent: IWebhookPaymentIntentObject
   ): Promise<void> {
     logger.info(`Payment succeeded for payment intent: ${paymentIntent.id}`);
 
     // Update payment status
     await this.paymentRepository.updateById(payment.paymentId, {
       status: PaymentStatus.SUCCEEDED,
-      transactionId: paymentIntent.latest_charge as string | undefined,
+      transactionId:
+        paymentIntent.latest_charge && typeof paymentIntent.latest_charge === 'object'
+          ? paymentIntent.latest_charge.id
+          : paymentIntent.latest_charge,
       paidAt: new Date(),
     } as Partial<import('../../../../domain/entities/payment.entity').Payment>);
 
@@ -99,6 +110,10 @@ export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase
         );
         // Don't fail payment processing if charge update fails
       }
+
+      await this.issueChargeReceipt(payment, chargeId);
+    } else if (paymentType === 'balance') {
+      await this.markBalancePaid(payment);
     } else {
       // This is a quote payment - handle quote flow
       // Get quote before update to track old status
@@ -124,6 +139,8 @@ export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase
       }
 
       // Create reservation from quote
+      // Failures propagate so the stored webhook event is retried - creation returns the
+      // existing reservation for the quote, so a retry never books twice
       try {
         await this.createReservationUseCase.execute(payment.quoteId, payment.paymentId);
         logger.info(`Reservation created for quote ${payment.quoteId}`);
@@ -131,8 +148,7 @@ export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase
         logger.error(
           `Failed to create reservation for quote ${payment.quoteId}: ${reservationError instanceof Error ? reservationError.message : 'Unknown error'}`
         );
-        // Don't fail payment processing if reservation creation fails
-        // Payment and quote status are already updated
+        throw reservationError;
       }
 
       logger.info(
@@ -141,9 +157,110 @@ export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase
     }
   }
 
+  /**
+   * Marks the balance installment of a deposit booking as paid
+   * and drops the reminder and due date jobs scheduled for it
+   */
+  private async markBalancePaid(
+    payment: import('../../../../domain/entities/payment.entity').Payment
+  ): Promise<void> {
+    const reservationId = (payment.metadata?.reservationId as string | undefined) ?? payment.quoteId;
+    const reservation = await this.reservationRepository.findById(reservationId);
+
+    if (!reservation || !reservation.paymentSchedule) {
+      logger.warn(`Reservation ${reservationId} with a payment schedule not found for balance payment ${payment.paymentId}`);
+      return;
+    }
+
+    const balance = reservation.getOutstandingInstallment();
+    if (!balance) {
+      logger.info(`Balance of reservation ${reservationId} is already paid`);
+      return;
+    }
+
+    const paidAt = new Date();
+    await this.reservationRepository.updateById(reservationId, {
+      paymentSchedule: {
+        ...reservation.paymentSchedule,
+        installments: reservation.paymentSchedule.installments.map((installment) =>
+          installment === balance
+            ? { ...installment, status: 'paid' as const, paymentId: payment.paymentId, paidAt }
+            : installment
+        ),
+      },
+    } as Partial<Reservation>);
+    logger.info(`Balance of reservation ${reservationId} marked as paid via payment ${payment.paymentId}`);
+
+    try {
+      const reservationInvoiceService = container.resolve<IReservationInvoiceService>(
+        SERVICE_TOKENS.IReservationInvoiceService
+      );
+      await reservationInvoiceService.issueReceipt(reservation, payment);
+    } catch (receiptError) {
+      logger.error(
+        `Failed to issue receipt for balance payment ${payment.paymentId}: ${receiptError instanceof Error ? receiptError.message : 'Unknown error'}`
+      );
+    }
+
+    try {
+      const queueService = container.resolve<IQueueService>(SERVICE_TOKENS.IQueueService);
+      await queueService.removeBalancePaymentJobs(reservationId);
+    } catch (queueError) {
+      // Jobs left behind skip reservations whose balance is paid
+      logger.error(
+        `Failed to remove balance payment jobs for reservation ${reservationId}: ${queueError instanceof Error ? queueError.message : 'Unknown error'}`
+      );
+    }
+
+    try {
+      const notificationService = container.resolve<INotificationService>(SERVICE_TOKENS.INotificationService);
+      await notificationService.sendNotification({
+        userId: reservation.userId,
+        type: NotificationType.RESERVATION_BALANCE_PAID,
+        title: 'Balance Paid',
+        message: `We received your balance payment of ${formatCurrency(balance.amount, reservation.paymentSchedule.currency)}. Your trip is fully paid.`,
+        data: {
+          reservationId,
+          paymentId: payment.paymentId,
+        },
+      });
+    } catch (notificationError) {
+      logger.error(
+        `Failed to send balance paid notification for reservation ${reservationId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  /**
+   * Issues the receipt for an additional charge payment
+   */
+  private async issueChargeReceipt(
+    payment: import('../../../../domain/entities/payment.entity').Payment,
+    chargeId: string
+  ): Promise<void> {
+    try {
+      const charge = await this.chargeRepository.findById(chargeId);
+      const reservation = charge ? await this.reservationRepository.findById(charge.reservationId) : null;
+      if (!charge || !reservation) {
+        logger.warn(`Charge ${chargeId} or its reservation not found, no receipt issued for payment ${payment.paymentId}`);
+        return;
+      }
+
+      const reservationInvoiceService = container.resolve<IReservationInvoiceService>(
+        SERVICE_TOKENS.IReservationInvoiceService
+      );
+      await reservationInvoiceService.issueReceipt(reservation, payment, charge);
+    } catch (receiptError) {
+      // Don't fail payment processing if the receipt can't be issued
+      logger.error(
+        `Failed to issue receipt for charge payment ${payment.paymentId}: ${receiptError instanceof Error ? receiptError.message : 'Unknown error'}`
+      );
+    }
+  }
+
   private async handlePaymentFailed(
     payment: import('../../../../domain/entities/payment.entity').Payment,
-    paymentIntent: Stripe.PaymentIntent
+    paymentIntent: IWebhookPaymentIntentObject
   ): Promise<void> {
     logger.warn(`Payment failed for payment intent: ${paymentIntent.id}`);
 
@@ -157,7 +274,7 @@ export class HandlePaymentWebhookUseCase implements IHandlePaymentWebhookUseCase
 
   private async handlePaymentCanceled(
     payment: import('../../../../domain/entities/payment.entity').Payment,
-    paymentIntent: Stripe.PaymentIntent
+    paymentIntent: IWebhookPaymentIntentObject
   ): Promise<void> {
     logger.info(`Payment canceled for payment intent: ${paymentIntent.id}`);
 
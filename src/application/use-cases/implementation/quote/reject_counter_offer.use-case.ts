@@ -0,0 +1,92 @@
+import { inject, injectable } from 'tsyringe';
+import { container } from 'tsyringe';
+import { IRejectCounterOfferUseCase } from '../../interface/quote/reject_counter_offer_use_case.interface';
+import { QuoteResponse, RejectCounterOfferRequest } from '../../../dtos/quote.dto';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
+import { IPassengerRepository } from '../../../../domain/repositories/passenger_repository.interface';
+import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
+import { Quote } from '../../../../domain/entities/quote.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { QuoteMapper } from '../../../mapper/quote.mapper';
+import { ERROR_MESSAGES, ERROR_CODES, QuoteStatus } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for rejecting a quote counter-offer
+ * The quote stays in negotiation so the admin can send another offer
+ */
+@injectable()
+export class RejectCounterOfferUseCase implements IRejectCounterOfferUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IPassengerRepository)
+    private readonly passengerRepository: IPassengerRepository
+  ) {}
+
+  async execute(quoteId: string, userId: string, request: RejectCounterOfferRequest): Promise<QuoteResponse> {
+    // Input validation
+    if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const quote = await this.quoteRepository.findById(quoteId);
+
+    if (!quote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    if (quote.userId !== userId) {
+      logger.warn(`User ${userId} attempted to reject a counter-offer on quote ${quoteId} owned by ${quote.userId}`);
+      throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
+    }
+
+    const counterOffer = quote.getPendingCounterOffer();
+    if (quote.status !== QuoteStatus.NEGOTIATING || !counterOffer) {
+      throw new AppError(ERROR_MESSAGES.COUNTER_OFFER_NOT_FOUND, ERROR_CODES.COUNTER_OFFER_NOT_FOUND, 400);
+    }
+
+    await this.quoteRepository.updateById(quoteId, {
+      pricingVersions: (quote.pricingVersions ?? []).map((version) =>
+        version.version === counterOffer.version
+          ? {
+              ...version,
+              status: 'rejected' as const,
+              respondedAt: new Date(),
+              responseReason: request.reason?.trim() || undefined,
+            }
+          : version
+      ),
+    } as Partial<Quote>);
+
+    logger.info(`Counter-offer v${counterOffer.version} rejected on quote ${quoteId} by user ${userId}`);
+
+    const updatedQuote = await this.quoteRepository.findById(quoteId);
+    if (!updatedQuote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    // Let the admin dashboard know the offer needs another look
+    try {
+      const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
+      socketEventService.emitQuoteUpdated(updatedQuote);
+    } catch (socketError) {
+      logger.error(
+        `Error emitting quote updated event: ${socketError instanceof Error ? socketError.message : 'Unknown error'}`
+      );
+    }
+
+    const itineraryStops = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+    const passengers = await this.passengerRepository.findByQuoteId(quoteId);
+
+    return QuoteMapper.toQuoteResponse(updatedQuote, itineraryStops, passengers);
+  }
+}
@@ -0,0 +1,67 @@
+import { injectable, inject } from 'tsyringe';
+import { IRemovePromoCodeUseCase } from '../../interface/quote/remove_promo_code_use_case.interface';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
+import { IPassengerRepository } from '../../../../domain/repositories/passenger_repository.interface';
+import { QuoteResponse } from '../../../dtos/quote.dto';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { QuoteMapper } from '../../../mapper/quote.mapper';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for removing the promo code from a quote draft
+ */
+@injectable()
+export class RemovePromoCodeUseCase implements IRemovePromoCodeUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IPassengerRepository)
+    private readonly passengerRepository: IPassengerRepository
+  ) {}
+
+  async execute(quoteId: string, userId: string): Promise<QuoteResponse> {
+    // Input validation
+    if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const quote = await this.quoteRepository.findById(quoteId);
+
+    if (!quote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    if (quote.userId !== userId) {
+      logger.warn(`User ${userId} attempted to remove the promo code from quote ${quoteId} owned by ${quote.userId}`);
+      throw new AppError(ERROR_MESSAGES.FORBIDDEN, ERROR_CODES.FORBIDDEN, 403);
+    }
+
+    if (!quote.isDraft()) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_ALREADY_SUBMITTED, ERROR_CODES.QUOTE_ALREADY_SUBMITTED, 400);
+    }
+
+    if (quote.promoCode) {
+      await this.quoteRepository.clearPromoCode(quoteId);
+      logger.info(`Promo code ${quote.promoCode} removed from quote: ${quoteId}`);
+    }
+
+    const updatedQuote = await this.quoteRepository.findById(quoteId);
+    if (!updatedQuote) {
+      throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+    }
+
+    const itineraryStops = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+    const passengers = await this.passengerRepository.findByQuoteId(quoteId);
+
+    return QuoteMapper.toQuoteResponse(updatedQuote, itineraryStops, passengers);
+  }
+}
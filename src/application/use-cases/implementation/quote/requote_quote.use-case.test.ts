@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { RequoteQuoteUseCase } from './requote_quote.use-case';
+import { MockQuoteRepository } from '../../../../shared/test/mocks/repositories/quote_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createQuoteFixture } from '../../../../shared/test/fixtures/quote.fixture';
+import { QuoteItinerary } from '../../../../domain/entities/quote_itinerary.entity';
+import { Quote } from '../../../../domain/entities/quote.entity';
+import { ERROR_CODES, QuoteStatus, StopType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('RequoteQuoteUseCase', () => {
+  let useCase: RequoteQuoteUseCase;
+  let mockQuoteRepository: MockQuoteRepository;
+  let mockItineraryRepository: {
+    findByQuoteIdOrdered: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    deleteByQuoteId: ReturnType<typeof vi.fn>;
+  };
+  let mockPassengerRepository: {
+    findByQuoteId: ReturnType<typeof vi.fn>;
+    create: ReturnType<typeof vi.fn>;
+    deleteByQuoteId: ReturnType<typeof vi.fn>;
+  };
+  let mockRouteCalculationService: { calculateRoutes: ReturnType<typeof vi.fn> };
+  let mockSubmitQuoteUseCase: { execute: ReturnType<typeof vi.fn> };
+
+  const createStop = (quoteId: string, arrivalTime: Date, stopOrder = 1): QuoteItinerary =>
+    new QuoteItinerary(
+      `stop-${stopOrder}`,
+      quoteId,
+      'outbound',
+      stopOrder,
+      `Stop ${stopOrder}`,
+      9.93,
+      76.26,
+      arrivalTime,
+      stopOrder === 1 ? StopType.PICKUP : StopType.DROPOFF,
+      new Date(),
+      new Date()
+    );
+
+  const createExpiredQuote = (): Quote =>
+    createQuoteFixture({
+      quoteId: 'expired-quote',
+      userId: 'user-1',
+      status: QuoteStatus.EXPIRED,
+      currentStep: 5,
+      selectedVehicles: [{ vehicleId: 'vehicle-1', quantity: 1 }],
+      currency: 'INR',
+      pricing: {
+        baseFare: 1000,
+        distanceFare: 2000,
+        driverCharge: 500,
+        fuelMaintenance: 300,
+        nightCharge: 0,
+        amenitiesTotal: 200,
+        subtotal: 4000,
+        tax: 720,
+        total: 4720,
+        currency: 'INR',
+      },
+    });
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockQuoteRepository = new MockQuoteRepository();
+    mockItineraryRepository = {
+      findByQuoteIdOrdered: vi.fn(),
+      create: vi.fn().mockImplementation((stop: QuoteItinerary) => Promise.resolve(stop)),
+      deleteByQuoteId: vi.fn().mockResolvedValue(undefined),
+    };
+    mockPassengerRepository = {
+      findByQuoteId: vi.fn().mockResolvedValue([]),
+      create: vi.fn(),
+      deleteByQuoteId: vi.fn().mockResolvedValue(undefined),
+    };
+    mockRouteCalculationService = {
+      calculateRoutes: vi.fn().mockResolvedValue({
+        outbound: { totalDistance: 120, totalDuration: 3, routeGeometry: 'geometry', segments: [] },
+      }),
+    };
+    mockSubmitQuoteUseCase = { execute: vi.fn().mockResolvedValue({}) };
+
+    container.registerInstance(REPOSITORY_TOKENS.IQuoteRepository, mockQuoteRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IQuoteItineraryRepository, mockItineraryRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IPassengerRepository, mockPassengerRepository);
+    container.registerInstance(SERVICE_TOKENS.IRouteCalculationService, mockRouteCalculationService);
+    container.registerInstance(USE_CASE_TOKENS.SubmitQuoteUseCase, mockSubmitQuoteUseCase);
+
+    useCase = container.resolve(RequoteQuoteUseCase);
+  });
+
+  it('should clone the expired quote, resubmit it and diff the pricing', async () => {
+    const expiredQuote = createExpiredQuote();
+    const futureStops = [
+      createStop(expiredQuote.quoteId, new Date(Date.now() + 2 * DAY_MS), 1),
+      createStop(expiredQuote.quoteId, new Date(Date.now() + 3 * DAY_MS), 2),
+    ];
+    mockQuoteRepository.findById.mockImplementation((id: string) => {
+      if (id === expiredQuote.quoteId) {
+        return Promise.resolve(expiredQuote);
+      }
+      // The clone as SubmitQuoteUseCase leaves it: priced at the new rates
+      const created = mockQuoteRepository.createRequote.mock.calls[0][0];
+      return Promise.resolve(
+        createQuoteFixture({
+          quoteId: id,
+          userId: created.userId,
+          status: QuoteStatus.QUOTED,
+          currency: 'INR',
+          requotedFromQuoteId: created.requotedFromQuoteId,
+          pricing: { ...expiredQuote.pricing!, distanceFare: 2500, subtotal: 4500, tax: 810, total: 5310 },
+        })
+      );
+    });
+    mockQuoteRepository.findByRequotedFromQuoteId.mockResolvedValue(null);
+    mockItineraryRepository.findByQuoteIdOrdered.mockResolvedValue(futureStops);
+
+    const result = await useCase.execute(expiredQuote.quoteId, 'user-1');
+
+    const created = mockQuoteRepository.createRequote.mock.calls[0][0];
+    expect(created.quoteId).not.toBe(expiredQuote.quoteId);
+    expect(created.status).toBe(QuoteStatus.DRAFT);
+    expect(created.currentStep).toBe(5);
+    expect(created.pricing).toBeUndefined();
+    expect(created.routeData?.outbound?.totalDistance).toBe(120);
+    expect(created.requotedFromQuoteId).toBe(expiredQuote.quoteId);
+    expect(mockItineraryRepository.create).toHaveBeenCalledTimes(2);
+    expect(mockItineraryRepository.create.mock.calls[0][0]).toMatchObject({ quoteId: created.quoteId });
+    expect(mockSubmitQuoteUseCase.execute).toHaveBeenCalledWith(created.quoteId, 'user-1');
+
+    expect(result.requotedFromQuoteId).toBe(expiredQuote.quoteId);
+    expect(result.quote.status).toBe(QuoteStatus.QUOTED);
+    expect(result.priceDiff.totalDifference).toBe(590);
+    expect(result.priceDiff.lines).toContainEqual({
+      key: 'distanceFare',
+      label: 'Distance fare',
+      previous: 2000,
+      current: 2500,
+      difference: 500,
+    });
+    expect(result.priceDiff.lines.find((line) => line.key === 'baseFare')?.difference).toBe(0);
+  });
+
+  it('should reject quotes that have not expired', async () => {
+    mockQuoteRepository.findById.mockResolvedValue(
+      createQuoteFixture({ quoteId: 'quote-1', userId: 'user-1', status: QuoteStatus.QUOTED })
+    );
+
+    await expect(useCase.execute('quote-1', 'user-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.QUOTE_NOT_REQUOTABLE,
+      statusCode: 400,
+    });
+    expect(mockQuoteRepository.createRequote).not.toHaveBeenCalled();
+  });
+
+  it('should reject a quote that was already requoted', async () => {
+    const expiredQuote = createExpiredQuote();
+    mockQuoteRepository.findById.mockResolvedValue(expiredQuote);
+    mockQuoteRepository.findByRequotedFromQuoteId.mockResolvedValue(
+      createQuoteFixture({ requotedFromQuoteId: expiredQuote.quoteId })
+    );
+
+    await expect(useCase.execute(expiredQuote.quoteId, 'user-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.QUOTE_ALREADY_REQUOTED,
+      statusCode: 409,
+    });
+    expect(mockQuoteRepository.createRequote).not.toHaveBeenCalled();
+  });
+
+  it('should reject a trip whose dates have passed', async () => {
+    const expiredQuote = createExpiredQuote();
+    mockQuoteRepository.findById.mockResolvedValue(expiredQuote);
+    mockQuoteRepository.findByRequotedFromQuoteId.mockResolvedValue(null);
+    mockItineraryRepository.findByQuoteIdOrdered.mockResolvedValue([
+      createStop(expiredQuote.quoteId, new Date(Date.now() - DAY_MS), 1),
+      createStop(expiredQuote.quoteId, new Date(Date.now() + DAY_MS), 2),
+    ]);
+
+    await expect(useCase.execute(expiredQuote.quoteId, 'user-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.QUOTE_DATES_IN_PAST,
+      statusCode: 400,
+    });
+    expect(mockQuoteRepository.createRequote).not.toHaveBeenCalled();
+    expect(mockSubmitQuoteUseCase.execute).not.toHaveBeenCalled();
+  });
+
+  it('should remove the clone when it cannot be submitted so the requote can be retried', async () => {
+    const expiredQuote = createExpiredQuote();
+    mockQuoteRepository.findById.mockResolvedValue(expiredQuote);
+    mockQuoteRepository.findByRequotedFromQuoteId.mockResolvedValue(null);
+    mockItineraryRepository.findByQuoteIdOrdered.mockResolvedValue([
+      createStop(expiredQuote.quoteId, new Date(Date.now() + 2 * DAY_MS), 1),
+    ]);
+    mockSubmitQuoteUseCase.execute.mockRejectedValue(
+      new AppError('Vehicles already booked', ERROR_CODES.VEHICLES_ALREADY_BOOKED, 409)
+    );
+
+    await expect(useCase.execute(expiredQuote.quoteId, 'user-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+      statusCode: 409,
+    });
+
+    const created = mockQuoteRepository.createRequote.mock.calls[0][0];
+    expect(mockQuoteRepository.deleteById).toHaveBeenCalledWith(created.quoteId);
+    expect(mockItineraryRepository.deleteByQuoteId).toHaveBeenCalledWith(created.quoteId);
+    expect(mockPassengerRepository.deleteByQuoteId).toHaveBeenCalledWith(created.quoteId);
+  });
+
+  it('should reject the requote that loses a race for the same expired quote', async () => {
+    const expiredQuote = createExpiredQuote();
+    mockQuoteRepository.findById.mockResolvedValue(expiredQuote);
+    mockQuoteRepository.findByRequotedFromQuoteId.mockResolvedValue(null);
+    mockQuoteRepository.createRequote.mockResolvedValue(false);
+    mockItineraryRepository.findByQuoteIdOrdered.mockResolvedValue([
+      createStop(expiredQuote.quoteId, new Date(Date.now() + 2 * DAY_MS), 1),
+    ]);
+
+    await expect(useCase.execute(expiredQuote.quoteId, 'user-1')).rejects.toMatchObject({
+      errorCode: ERROR_CODES.QUOTE_ALREADY_REQUOTED,
+      statusCode: 409,
+    });
+    expect(mockItineraryRepository.create).not.toHaveBeenCalled();
+    expect(mockSubmitQuoteUseCase.execute).not.toHaveBeenCalled();
+  });
+});
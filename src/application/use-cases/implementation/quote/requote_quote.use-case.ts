@@ -0,0 +1,241 @@
+import { inject, injectable } from 'tsyringe';
+import { IRequoteQuoteUseCase } from '../../interface/quote/requote_quote_use_case.interface';
+import { ISubmitQuoteUseCase } from '../../interface/quote/submit_quote_use_case.interface';
+import { RequoteResponse } from '../../../dtos/quote.dto';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
+import { IPassengerRepository } from '../../../../domain/repositories/passenger_repository.interface';
+import { IRouteCalculationService } from '../../../../domain/services/route_calculation_service.interface';
+import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
+import { Quote, IRouteData } from '../../../../domain/entities/quote.entity';
+import { QuoteItinerary } from '../../../../domain/entities/quote_itinerary.entity';
+import { Passenger } from '../../../../domain/entities/passenger.entity';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { generateReferenceNumber } from '../../../../shared/utils/reference_number.util';
+import { QuoteMapper } from '../../../mapper/quote.mapper';
+import { logger } from '../../../../shared/logger';
+import { randomUUID } from 'crypto';
+import { v4 as uuidv4 } from 'uuid';
+import { container } from 'tsyringe';
+
+/**
+ * Use case for requoting an expired quote in one click
+ * Clones the trip into a new quote, prices it against the active pricing config and
+ * sends it back through driver auto-assignment. The expired quote is left untouched.
+ * A clone that can't be submitted is removed again, so the user can retry the requote.
+ */
+@injectable()
+export class RequoteQuoteUseCase implements IRequoteQuoteUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IPassengerRepository)
+    private readonly passengerRepository: IPassengerRepository,
+    @inject(SERVICE_TOKENS.IRouteCalculationService)
+    private readonly routeCalculationService: IRouteCalculationService,
+    @inject(USE_CASE_TOKENS.SubmitQuoteUseCase)
+    private readonly submitQuoteUseCase: ISubmitQuoteUseCase
+  ) {}
+
+  async execute(quoteId: string, userId: string): Promise<RequoteResponse> {
+    try {
+      // Input validation
+      if (!quoteId || typeof quoteId !== 'string' || quoteId.trim().length === 0) {
+        throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
+      }
+
+      if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+        throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+      }
+
+      logger.info(`Requoting quote: ${quoteId} by user: ${userId}`);
+
+      // Get quote and verify ownership
+      const expiredQuote = await this.quoteRepository.findById(quoteId);
+
+      if (!expiredQuote || expiredQuote.userId !== userId) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+      }
+
+      if (!expiredQuote.canBeRequoted()) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_NOT_REQUOTABLE, ERROR_CODES.QUOTE_NOT_REQUOTABLE, 400);
+      }
+
+      // One requote per expired quote; the unique index on requotedFromQuoteId settles concurrent requests
+      const existingRequote = await this.quoteRepository.findByRequotedFromQuoteId(quoteId);
+      if (existingRequote) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_ALREADY_REQUOTED, ERROR_CODES.QUOTE_ALREADY_REQUOTED, 409);
+      }
+
+      const itinerary = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+      if (itinerary.length === 0) {
+        throw new AppError(ERROR_MESSAGES.ITINERARY_REQUIRED, 'ITINERARY_REQUIRED', 400);
+      }
+
+      // Every stop must still be ahead of us - past trips need a new quote with new dates
+      const now = new Date();
+      const hasPastStop = itinerary.some(
+        (stop) =>
+          stop.arrivalTime.getTime() <= now.getTime() ||
+          (stop.departureTime !== undefined && stop.departureTime.getTime() <= now.getTime())
+      );
+      if (hasPastStop) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_DATES_IN_PAST, ERROR_CODES.QUOTE_DATES_IN_PAST, 400);
+      }
+
+      const newQuoteId = randomUUID();
+      const clonedItinerary = itinerary.map(
+        (stop) =>
+          new QuoteItinerary(
+            uuidv4(),
+            newQuoteId,
+            stop.tripType,
+            stop.stopOrder,
+            stop.locationName,
+            stop.latitude,
+            stop.longitude,
+            stop.arrivalTime,
+            stop.stopType,
+            now,
+            now,
+            stop.departureTime,
+            stop.isDriverStaying,
+            stop.stayingDuration
+          )
+      );
+
+      // Routes are recalculated rather than copied so road changes are picked up
+      const routeData = await this.calculateRouteData(clonedItinerary);
+
+      const requote = new Quote(
+        newQuoteId,
+        userId,
+        generateReferenceNumber('QOT'),
+        expiredQuote.tripType,
+        QuoteStatus.DRAFT,
+        now,
+        now,
+        expiredQuote.tripName,
+        expiredQuote.eventType,
+        expiredQuote.customEventType,
+        expiredQuote.passengerCount,
+        5, // currentStep - the cloned trip is complete
+        expiredQuote.selectedVehicles,
+        expiredQuote.selectedAmenities,
+        undefined, // pricing - recalculated on submit
+        routeData,
+        undefined, // assignedDriverId
+        undefined, // actualDriverRate
+        undefined, // pricingLastUpdatedAt
+        undefined, // quotedAt
+        false, // isDeleted
+        expiredQuote.currency,
+        expiredQuote.promoCode,
+        undefined, // pricingVersions
+        quoteId // requotedFromQuoteId
+      );
+
+      if (!(await this.quoteRepository.createRequote(requote))) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_ALREADY_REQUOTED, ERROR_CODES.QUOTE_ALREADY_REQUOTED, 409);
+      }
+
+      try {
+        for (const stop of clonedItinerary) {
+          await this.itineraryRepository.create(stop);
+        }
+
+        const passengers = await this.passengerRepository.findByQuoteId(quoteId);
+        for (const passenger of passengers) {
+          await this.passengerRepository.create(
+            new Passenger(uuidv4(), passenger.fullName, passenger.phoneNumber, passenger.age, now, now, newQuoteId)
+          );
+        }
+
+        // Prices against the active pricing config and reruns driver auto-assignment
+        await this.submitQuoteUseCase.execute(newQuoteId, userId);
+      } catch (submitError) {
+        // e.g. the vehicles were booked by someone else in the meantime
+        await this.discardRequote(newQuoteId);
+        throw submitError;
+      }
+
+      // Emit socket event for admin dashboard
+      try {
+        const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
+        socketEventService.emitQuoteCreated(requote);
+      } catch (error) {
+        // Don't fail the requote if socket emission fails
+        logger.error('Error emitting quote created event:', error);
+      }
+
+      const submittedQuote = await this.quoteRepository.findById(newQuoteId);
+      if (!submittedQuote) {
+        throw new AppError(ERROR_MESSAGES.QUOTE_NOT_FOUND, ERROR_CODES.QUOTE_NOT_FOUND, 404);
+      }
+
+      const [itineraryStops, clonedPassengers] = await Promise.all([
+        this.itineraryRepository.findByQuoteIdOrdered(newQuoteId),
+        this.passengerRepository.findByQuoteId(newQuoteId),
+      ]);
+
+      logger.info(`Quote ${quoteId} requoted as ${newQuoteId} (status: ${submittedQuote.status})`);
+
+      return {
+        requotedFromQuoteId: quoteId,
+        quote: QuoteMapper.toQuoteResponse(submittedQuote, itineraryStops, clonedPassengers),
+        priceDiff: QuoteMapper.toPricingDiffResponse(expiredQuote, submittedQuote),
+      };
+    } catch (error) {
+      logger.error(`Error requoting quote ${quoteId}:`, error);
+
+      if (error instanceof AppError) {
+        throw error;
+      }
+
+      throw new AppError('Failed to requote quote', 'QUOTE_REQUOTE_ERROR', 500);
+    }
+  }
+
+  /**
+   * Removes a clone that couldn't be submitted, freeing the expired quote for another requote
+   */
+  private async discardRequote(newQuoteId: string): Promise<void> {
+    try {
+      await this.passengerRepository.deleteByQuoteId(newQuoteId);
+      await this.itineraryRepository.deleteByQuoteId(newQuoteId);
+      await this.quoteRepository.deleteById(newQuoteId);
+      logger.info(`Discarded requote ${newQuoteId} after it failed to submit`);
+    } catch (cleanupError) {
+      logger.error(`Error discarding requote ${newQuoteId}:`, cleanupError);
+    }
+  }
+
+  private async calculateRouteData(itinerary: QuoteItinerary[]): Promise<IRouteData> {
+    const outbound = itinerary.filter((stop) => stop.tripType === 'outbound');
+    const returnStops = itinerary.filter((stop) => stop.tripType === 'return');
+
+    const routeResults = await this.routeCalculationService.calculateRoutes(
+      outbound,
+      returnStops.length > 0 ? returnStops : undefined
+    );
+
+    return {
+      outbound: {
+        totalDistance: routeResults.outbound.totalDistance,
+        totalDuration: routeResults.outbound.totalDuration,
+        routeGeometry: routeResults.outbound.routeGeometry,
+      },
+      return: routeResults.return
+        ? {
+            totalDistance: routeResults.return.totalDistance,
+            totalDuration: routeResults.return.totalDuration,
+            routeGeometry: routeResults.return.routeGeometry,
+          }
+        : undefined,
+    };
+  }
+}
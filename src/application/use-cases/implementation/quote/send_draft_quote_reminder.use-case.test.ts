@@ -0,0 +1,104 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { SendDraftQuoteReminderUseCase } from './send_draft_quote_reminder.use-case';
+import { MockQuoteRepository } from '../../../../shared/test/mocks/repositories/quote_repository.mock';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createQuoteFixture } from '../../../../shared/test/fixtures/quote.fixture';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { QuoteStatus } from '../../../../shared/constants';
+import { EmailType } from '../../../../shared/types/email.types';
+import { QUOTE_FOLLOW_UP_CONFIG } from '../../../../shared/config';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('SendDraftQuoteReminderUseCase', () => {
+  let useCase: SendDraftQuoteReminderUseCase;
+  let mockQuoteRepository: MockQuoteRepository;
+  let mockUserRepository: MockUserRepository;
+  let mockEmailService: { sendEmail: ReturnType<typeof vi.fn> };
+  let mockQueueService: { addDraftReminderJob: ReturnType<typeof vi.fn> };
+
+  const idleSince = (hours: number): Date => new Date(Date.now() - hours * HOUR_MS);
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockQuoteRepository = new MockQuoteRepository();
+    mockUserRepository = new MockUserRepository();
+    mockEmailService = { sendEmail: vi.fn().mockResolvedValue(undefined) };
+    mockQueueService = { addDraftReminderJob: vi.fn().mockResolvedValue(undefined) };
+
+    container.registerInstance(REPOSITORY_TOKENS.IQuoteRepository, mockQuoteRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(SERVICE_TOKENS.IEmailService, mockEmailService);
+    container.registerInstance(SERVICE_TOKENS.IQueueService, mockQueueService);
+
+    useCase = container.resolve(SendDraftQuoteReminderUseCase);
+  });
+
+  it('should email the customer about a draft left idle on a step', async () => {
+    const quote = createQuoteFixture({
+      quoteId: 'quote-1',
+      userId: 'user-1',
+      currentStep: 3,
+      updatedAt: idleSince(QUOTE_FOLLOW_UP_CONFIG.DRAFT_NUDGE_HOURS + 1),
+    });
+    mockQuoteRepository.findById.mockResolvedValue(quote);
+    mockUserRepository.findById.mockResolvedValue(createUserFixture({ userId: 'user-1' }));
+
+    const result = await useCase.execute('quote-1');
+
+    expect(result).toBe(true);
+    expect(mockEmailService.sendEmail).toHaveBeenCalledWith(
+      EmailType.QUOTE_DRAFT_REMINDER,
+      expect.objectContaining({ quoteNumber: quote.quoteNumber, currentStep: 3, totalSteps: 5 })
+    );
+    expect(mockQueueService.addDraftReminderJob).not.toHaveBeenCalled();
+  });
+
+  it('should wait for a full idle period when the draft was saved since the job was scheduled', async () => {
+    const updatedAt = idleSince(2);
+    mockQuoteRepository.findById.mockResolvedValue(createQuoteFixture({ quoteId: 'quote-1', updatedAt }));
+
+    const result = await useCase.execute('quote-1');
+
+    expect(result).toBe(false);
+    expect(mockQueueService.addDraftReminderJob).toHaveBeenCalledWith('quote-1', updatedAt);
+    expect(mockEmailService.sendEmail).not.toHaveBeenCalled();
+  });
+
+  it('should skip quotes that are no longer drafts', async () => {
+    mockQuoteRepository.findById.mockResolvedValue(
+      createQuoteFixture({ status: QuoteStatus.SUBMITTED, updatedAt: idleSince(48) })
+    );
+
+    const result = await useCase.execute('quote-1');
+
+    expect(result).toBe(false);
+    expect(mockEmailService.sendEmail).not.toHaveBeenCalled();
+    expect(mockQueueService.addDraftReminderJob).not.toHaveBeenCalled();
+  });
+
+  it('should skip customers who opted out of quote follow-ups', async () => {
+    mockQuoteRepository.findById.mockResolvedValue(
+      createQuoteFixture({ userId: 'user-1', updatedAt: idleSince(48) })
+    );
+    mockUserRepository.findById.mockResolvedValue(createUserFixture({ userId: 'user-1', quoteFollowUpEmails: false }));
+
+    const result = await useCase.execute('quote-1');
+
+    expect(result).toBe(false);
+    expect(mockEmailService.sendEmail).not.toHaveBeenCalled();
+  });
+});
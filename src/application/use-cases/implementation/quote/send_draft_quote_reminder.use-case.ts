@@ -0,0 +1,73 @@
+import { injectable, inject } from 'tsyringe';
+import { ISendDraftQuoteReminderUseCase } from '../../interface/quote/send_draft_quote_reminder_use_case.interface';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { IQueueService } from '../../../../domain/services/queue_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { EmailType, QuoteDraftReminderEmailData } from '../../../../shared/types/email.types';
+import { FRONTEND_CONFIG, QUOTE_FOLLOW_UP_CONFIG } from '../../../../shared/config';
+import { logger } from '../../../../shared/logger';
+
+const QUOTE_TOTAL_STEPS = 5;
+
+/**
+ * Use case for nudging a customer to finish a draft quote they stopped working on
+ * A draft that was saved since the job was scheduled is checked again after another idle period,
+ * so every draft gets at most one nudge
+ */
+@injectable()
+export class SendDraftQuoteReminderUseCase implements ISendDraftQuoteReminderUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IQueueService)
+    private readonly queueService: IQueueService
+  ) {}
+
+  async execute(quoteId: string): Promise<boolean> {
+    const quote = await this.quoteRepository.findById(quoteId);
+    if (!quote || quote.isDeleted) {
+      logger.info(`Draft quote ${quoteId} no longer exists, skipping draft reminder`);
+      return false;
+    }
+
+    if (!quote.isDraft()) {
+      logger.info(`Quote ${quoteId} is no longer a draft (status: ${quote.status}), skipping draft reminder`);
+      return false;
+    }
+
+    // The customer came back to the draft - wait for a full idle period after their last save
+    const idleMs = QUOTE_FOLLOW_UP_CONFIG.DRAFT_NUDGE_HOURS * 60 * 60 * 1000;
+    if (Date.now() - quote.updatedAt.getTime() < idleMs) {
+      await this.queueService.addDraftReminderJob(quoteId, quote.updatedAt);
+      return false;
+    }
+
+    const user = await this.userRepository.findById(quote.userId);
+    if (!user || !user.acceptsQuoteFollowUps()) {
+      logger.info(`User ${quote.userId} does not receive quote follow-ups, skipping draft reminder for quote ${quoteId}`);
+      return false;
+    }
+
+    const emailData: QuoteDraftReminderEmailData = {
+      email: user.email,
+      fullName: user.fullName,
+      quoteNumber: quote.quoteNumber,
+      tripName: quote.tripName,
+      currentStep: quote.currentStep ?? 1,
+      totalSteps: QUOTE_TOTAL_STEPS,
+      continueLink: `${FRONTEND_CONFIG.URL}/quotes/${quoteId}?step=${quote.currentStep ?? 1}`,
+    };
+
+    // Email failures are retried by the queue
+    await this.emailService.sendEmail(EmailType.QUOTE_DRAFT_REMINDER, emailData);
+    logger.info(`Draft quote reminder sent to ${user.email} for quote ${quoteId} (step ${emailData.currentStep})`);
+
+    return true;
+  }
+}
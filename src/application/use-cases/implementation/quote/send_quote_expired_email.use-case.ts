@@ -0,0 +1,62 @@
+import { injectable, inject } from 'tsyringe';
+import { ISendQuoteExpiredEmailUseCase } from '../../interface/quote/send_quote_expired_email_use_case.interface';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { EmailType, QuoteExpiredEmailData } from '../../../../shared/types/email.types';
+import { FRONTEND_CONFIG } from '../../../../shared/config';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for telling a customer their quote expired unpaid
+ * The email links to a one-click requote of the same trip
+ */
+@injectable()
+export class SendQuoteExpiredEmailUseCase implements ISendQuoteExpiredEmailUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService
+  ) {}
+
+  async execute(quoteId: string): Promise<boolean> {
+    const quote = await this.quoteRepository.findById(quoteId);
+    if (!quote || quote.isDeleted) {
+      logger.warn(`Quote not found for quote expired email: ${quoteId}`);
+      return false;
+    }
+
+    // The customer may already have requoted or the admin reopened the quote
+    if (!quote.isExpired()) {
+      logger.info(`Quote ${quoteId} is no longer expired (status: ${quote.status}), skipping expired email`);
+      return false;
+    }
+
+    const user = await this.userRepository.findById(quote.userId);
+    if (!user || !user.acceptsQuoteFollowUps()) {
+      logger.info(`User ${quote.userId} does not receive quote follow-ups, skipping expired email for quote ${quoteId}`);
+      return false;
+    }
+
+    const emailData: QuoteExpiredEmailData = {
+      email: user.email,
+      fullName: user.fullName,
+      quoteNumber: quote.quoteNumber,
+      tripName: quote.tripName,
+      tripType: quote.tripType,
+      expiredAt: quote.updatedAt,
+      requoteLink: `${FRONTEND_CONFIG.URL}/quotes/${quoteId}?requote=true`,
+      viewQuoteLink: `${FRONTEND_CONFIG.URL}/quotes/${quoteId}`,
+    };
+
+    // Email failures are retried by the queue
+    await this.emailService.sendEmail(EmailType.QUOTE_EXPIRED, emailData);
+    logger.info(`Quote expired email sent to ${user.email} for quote ${quoteId}`);
+
+    return true;
+  }
+}
@@ -0,0 +1,75 @@
+import { injectable, inject } from 'tsyringe';
+import { ISendQuoteReminderUseCase } from '../../interface/quote/send_quote_reminder_use_case.interface';
+import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { EmailType, QuoteReminderEmailData } from '../../../../shared/types/email.types';
+import { FRONTEND_CONFIG, QUOTE_FOLLOW_UP_CONFIG } from '../../../../shared/config';
+import { QuoteStatus } from '../../../../shared/constants';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for reminding a customer to pay for their quote before the payment window closes
+ * Skips customers who opted out of quote follow-up emails
+ */
+@injectable()
+export class SendQuoteReminderUseCase implements ISendQuoteReminderUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IQuoteRepository)
+    private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService
+  ) {}
+
+  async execute(quoteId: string): Promise<boolean> {
+    const quote = await this.quoteRepository.findById(quoteId);
+    if (!quote || quote.isDeleted) {
+      logger.warn(`Quote not found for quote reminder: ${quoteId}`);
+      return false;
+    }
+
+    // Idempotent: nothing to remind about once the quote is paid, expired or back with the admin
+    if (quote.status !== QuoteStatus.QUOTED || !quote.quotedAt || quote.isPaymentWindowExpired() || !quote.pricing?.total) {
+      logger.info(`Quote ${quoteId} is not awaiting payment (status: ${quote.status}), skipping reminder`);
+      return false;
+    }
+
+    const expiresAt = new Date(quote.quotedAt.getTime() + QUOTE_FOLLOW_UP_CONFIG.PAYMENT_WINDOW_HOURS * 60 * 60 * 1000);
+    const hoursLeft = Math.ceil((expiresAt.getTime() - Date.now()) / (60 * 60 * 1000));
+
+    // A reminder from an earlier quoting round fires too early for the current one
+    if (hoursLeft > QUOTE_FOLLOW_UP_CONFIG.REMINDER_HOURS_BEFORE_EXPIRY) {
+      logger.info(`Quote ${quoteId} was quoted again since the reminder was scheduled, skipping reminder`);
+      return false;
+    }
+
+    const user = await this.userRepository.findById(quote.userId);
+    if (!user || !user.acceptsQuoteFollowUps()) {
+      logger.info(`User ${quote.userId} does not receive quote follow-ups, skipping reminder for quote ${quoteId}`);
+      return false;
+    }
+
+    const emailData: QuoteReminderEmailData = {
+      email: user.email,
+      fullName: user.fullName,
+      quoteNumber: quote.quoteNumber,
+      tripName: quote.tripName,
+      tripType: quote.tripType,
+      totalPrice: quote.pricing.total,
+      currency: quote.pricing.currency || quote.currency,
+      expiresAt,
+      hoursLeft,
+      viewQuoteLink: `${FRONTEND_CONFIG.URL}/quotes/${quoteId}`,
+      paymentLink: `${FRONTEND_CONFIG.URL}/payment/${quoteId}`,
+    };
+
+    // Email failures are retried by the queue
+    await this.emailService.sendEmail(EmailType.QUOTE_REMINDER, emailData);
+    logger.info(`Quote reminder email sent to ${user.email} for quote ${quoteId}`);
+
+    return true;
+  }
+}
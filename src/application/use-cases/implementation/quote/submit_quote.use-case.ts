@@ -8,11 +8,13 @@ import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote
 import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
 import { IAmenityRepository } from '../../../../domain/repositories/amenity_repository.interface';
 import { IPricingConfigRepository } from '../../../../domain/repositories/pricing_config_repository.interface';
+import { IPromoCodeRepository } from '../../../../domain/repositories/promo_code_repository.interface';
 import { ICalculateQuotePricingUseCase } from '../../interface/quote/calculate_quote_pricing_use_case.interface';
 import { IPricingCalculationService } from '../../../../domain/services/pricing_calculation_service.interface';
 import { IPDFGenerationService } from '../../../../domain/services/pdf_generation_service.interface';
 import { IEmailService } from '../../../../domain/services/email_service.interface';
 import { IQueueService } from '../../../../domain/services/queue_service.interface';
+import { IVehicleAvailabilityService } from '../../../../domain/services/vehicle_availability_service.interface';
 import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { QuoteStatus, ERROR_MESSAGES, ERROR_CODES, TripType } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
@@ -24,6 +26,8 @@ import { Vehicle } from '../../../../domain/entities/vehicle.entity';
 import { Amenity } from '../../../../domain/entities/amenity.entity';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { canAssignDriverToQuote } from '../../../../shared/utils/driver_assignment.util';
+import { describeVehicleHoldConflicts } from '../../../../shared/utils/vehicle_hold.util';
+import { deriveTripWindow } from '../../../mapper/driver_dashboard.mapper';
 import { container } from 'tsyringe';
 
 /**
@@ -48,6 +52,8 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
     private readonly amenityRepository: IAmenityRepository,
     @inject(REPOSITORY_TOKENS.IPricingConfigRepository)
     private readonly pricingConfigRepository: IPricingConfigRepository,
+    @inject(REPOSITORY_TOKENS.IPromoCodeRepository)
+    private readonly promoCodeRepository: IPromoCodeRepository,
     @inject(USE_CASE_TOKENS.CalculateQuotePricingUseCase)
     private readonly calculateQuotePricingUseCase: ICalculateQuotePricingUseCase,
     @inject(SERVICE_TOKENS.IPricingCalculationService)
@@ -57,7 +63,9 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
     @inject(SERVICE_TOKENS.IEmailService)
     private readonly emailService: IEmailService,
     @inject(SERVICE_TOKENS.IQueueService)
-    private readonly queueService: IQueueService
+    private readonly queueService: IQueueService,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService
   ) {}
 
   async execute(quoteId: string, userId: string): Promise<SubmitQuoteResponse> {
@@ -172,15 +180,12 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
             // Get active pricing config
             const pricingConfig = await this.pricingConfigRepository.findActive();
             if (pricingConfig) {
-              // Calculate pricing with actual driver rate
-              const totalDuration = (quote.routeData.outbound?.totalDuration ?? 0) +
-                (quote.routeData.return?.totalDuration ?? 0);
-              const driverCharge = this.pricingCalculationService.calculateDriverCharge(
-                totalDuration,
-                driver.salary
-              );
+              // Keep the promo code the quote was just priced with
+              const promoCode = pricing.promoCode
+                ? await this.promoCodeRepository.findByCode(pricing.promoCode)
+                : null;
 
-              // Calculate other pricing components
+              // Calculate pricing with actual driver rate, in the currency the quote was just priced in
               const pricingBreakdown = this.pricingCalculationService.calculatePricing({
                 selectedVehicles: vehiclesWithQuantity,
                 selectedAmenities,
@@ -191,27 +196,46 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
                 pricingConfig,
                 tripType: quote.tripType,
                 routeData: quote.routeData,
+                exchangeRate: {
+                  baseCurrency: pricing.baseCurrency ?? pricingConfig.currency,
+                  currency: pricing.currency,
+                  rate: pricing.exchangeRateAtTime ?? 1,
+                },
+                driverRatePerHour: driver.salary,
+                promoCode: promoCode ?? undefined,
               });
 
-              // Override driver charge with actual driver rate
-              const subtotal =
-                (pricingBreakdown.baseFare ?? 0) +
-                (pricingBreakdown.distanceFare ?? 0) +
-                driverCharge +
-                (pricingBreakdown.nightCharge ?? 0) +
-                (pricingBreakdown.amenitiesTotal ?? 0);
-
-              const tax = this.pricingCalculationService.calculateTax(subtotal, pricingConfig.taxPercentage);
-              const total = subtotal + tax;
+              const driverCharge = pricingBreakdown.driverCharge ?? 0;
+              const subtotal = pricingBreakdown.subtotal ?? 0;
+              const discount = pricingBreakdown.discount;
+              const tax = pricingBreakdown.tax ?? 0;
+              const total = pricingBreakdown.total ?? 0;
 
               // Update pricing with actual driver rate
               pricing.driverCharge = driverCharge;
               pricing.subtotal = subtotal;
+              pricing.discount = discount;
               pricing.tax = tax;
               pricing.total = total;
 
-              // Update quote with driver assignment and new pricing
+              // Hold the vehicles before quoting so they can't be quoted to anyone else meanwhile
               const quotedAt = new Date();
+              const { tripStartAt, tripEndAt } = deriveTripWindow(itinerary);
+              const holdResult = await this.vehicleAvailabilityService.holdVehiclesForQuote(
+                quoteId,
+                vehicleIds,
+                { startAt: tripStartAt, endAt: tripEndAt },
+                quotedAt
+              );
+              if (!holdResult.acquired) {
+                throw new AppError(
+                  describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts),
+                  ERROR_CODES.VEHICLES_ALREADY_BOOKED,
+                  409
+                );
+              }
+
+              // Update quote with driver assignment and new pricing
               await this.quoteRepository.updateById(quoteId, {
                 status: QuoteStatus.QUOTED,
                 assignedDriverId: driver.driverId,
@@ -227,8 +251,13 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
                   nightCharge: pricingBreakdown.nightCharge ?? 0,
                   amenitiesTotal: pricingBreakdown.amenitiesTotal ?? 0,
                   subtotal,
+                  discount,
+                  promoCode: pricingBreakdown.promoCode,
                   tax,
                   total,
+                  currency: pricingBreakdown.currency,
+                  baseCurrency: pricingBreakdown.baseCurrency,
+                  exchangeRateAtTime: pricingBreakdown.exchangeRateAtTime,
                 },
                 pricingLastUpdatedAt: quotedAt,
                 quotedAt,
@@ -250,6 +279,7 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
               // Schedule expiry job for 24 hours from now
               try {
                 await this.queueService.addQuoteExpiryJob(quoteId, quotedAt);
+                await this.queueService.addQuoteReminderJob(quoteId, quotedAt);
                 logger.info(`Quote expiry job scheduled for quote: ${quoteId}`);
               } catch (expiryJobError) {
                 // Log error but don't fail quote submission
@@ -283,6 +313,7 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
                     tripName: updatedQuote.tripName,
                     tripType: updatedQuote.tripType === TripType.ONE_WAY ? 'one_way' : 'two_way',
                     totalPrice: total,
+                    currency: pricing.currency,
                     quoteDate: quotedAt,
                     viewQuoteLink,
                     paymentLink,
@@ -349,8 +380,13 @@ export class SubmitQuoteUseCase implements ISubmitQuoteUseCase {
             nightCharge: pricing.nightCharge,
             amenitiesTotal: pricing.amenitiesTotal,
             subtotal: pricing.subtotal,
+            discount: pricing.discount,
+            promoCode: pricing.promoCode,
             tax: pricing.tax,
             total: pricing.total,
+            currency: pricing.currency,
+            baseCurrency: pricing.baseCurrency,
+            exchangeRateAtTime: pricing.exchangeRateAtTime,
           },
         } as Partial<Quote>);
 
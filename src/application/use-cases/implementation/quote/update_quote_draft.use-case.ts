@@ -3,6 +3,7 @@ import { IUpdateQuoteDraftUseCase } from '../../interface/quote/update_quote_dra
 import { IQuoteRepository } from '../../../../domain/repositories/quote_repository.interface';
 import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
 import { IPassengerRepository } from '../../../../domain/repositories/passenger_repository.interface';
+import { IExchangeRateService } from '../../../../domain/services/exchange_rate_service.interface';
 import { UpdateQuoteDraftRequest, QuoteResponse } from '../../../dtos/quote.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { QuoteMapper } from '../../../mapper/quote.mapper';
@@ -12,6 +13,7 @@ import { Quote } from '../../../../domain/entities/quote.entity';
 import { QuoteItinerary } from '../../../../domain/entities/quote_itinerary.entity';
 import { Passenger } from '../../../../domain/entities/passenger.entity';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
 import { v4 as uuidv4 } from 'uuid';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
@@ -28,7 +30,9 @@ export class UpdateQuoteDraftUseCase implements IUpdateQuoteDraftUseCase {
     @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
     private readonly itineraryRepository: IQuoteItineraryRepository,
     @inject(REPOSITORY_TOKENS.IPassengerRepository)
-    private readonly passengerRepository: IPassengerRepository
+    private readonly passengerRepository: IPassengerRepository,
+    @inject(SERVICE_TOKENS.IExchangeRateService)
+    private readonly exchangeRateService: IExchangeRateService
   ) {}
 
   async execute(
@@ -104,6 +108,14 @@ export class UpdateQuoteDraftUseCase implements IUpdateQuoteDraftUseCase {
       update.selectedAmenities = request.selectedAmenities;
     }
 
+    if (request.currency !== undefined) {
+      const currency = normalizeCurrency(request.currency);
+      if (!(await this.exchangeRateService.isSupportedCurrency(currency))) {
+        throw new AppError(ERROR_MESSAGES.UNSUPPORTED_CURRENCY, ERROR_CODES.UNSUPPORTED_CURRENCY, 400);
+      }
+      update.currency = currency;
+    }
+
     // Update quote (cast to Partial<Quote> for type compatibility)
     await this.quoteRepository.updateById(quoteId, update as Partial<Quote>);
 
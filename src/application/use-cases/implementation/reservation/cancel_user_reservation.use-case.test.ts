@@ -0,0 +1,84 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { CancelUserReservationUseCase } from './cancel_user_reservation.use-case';
+import { USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createCancelledReservationFixture } from '../../../../shared/test/fixtures/reservation.fixture';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('CancelUserReservationUseCase', () => {
+  let useCase: CancelUserReservationUseCase;
+  let getPreview: ReturnType<typeof vi.fn>;
+  let cancelReservation: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    clearContainer();
+
+    getPreview = vi.fn().mockResolvedValue({ canCancel: true, totalRefund: 500, currency: 'USD' });
+    cancelReservation = vi
+      .fn()
+      .mockResolvedValue(createCancelledReservationFixture({ reservationId: 'reservation-123', userId: 'user-1' }));
+
+    container.registerInstance(USE_CASE_TOKENS.GetUserCancellationPreviewUseCase, { execute: getPreview });
+    container.registerInstance(USE_CASE_TOKENS.CancelReservationUseCase, { execute: cancelReservation });
+
+    useCase = container.resolve(CancelUserReservationUseCase);
+  });
+
+  it('should cancel the reservation as the user once they confirmed the previewed refund', async () => {
+    const result = await useCase.execute('reservation-123', 'user-1', {
+      reason: '  Trip postponed  ',
+      expectedRefundAmount: 500,
+    });
+
+    expect(getPreview).toHaveBeenCalledWith('reservation-123', 'user-1');
+    expect(cancelReservation).toHaveBeenCalledWith('reservation-123', 'Trip postponed', 'user-1', 'user');
+    expect(result.reservationId).toBe('reservation-123');
+  });
+
+  it("should not cancel other users' reservations", async () => {
+    getPreview.mockRejectedValue(new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404));
+
+    await expect(useCase.execute('reservation-123', 'user-2', { reason: 'Trip postponed' })).rejects.toMatchObject({
+      errorCode: 'RESERVATION_NOT_FOUND',
+      statusCode: 404,
+    });
+    expect(cancelReservation).not.toHaveBeenCalled();
+  });
+
+  it('should send users to support once the self-service cutoff has passed', async () => {
+    getPreview.mockResolvedValue({ canCancel: false, totalRefund: 0, currency: 'USD' });
+
+    await expect(useCase.execute('reservation-123', 'user-1', { reason: 'Trip postponed' })).rejects.toMatchObject({
+      errorCode: 'CANCELLATION_CUTOFF_PASSED',
+      statusCode: 400,
+    });
+    expect(cancelReservation).not.toHaveBeenCalled();
+  });
+
+  it('should not cancel when the refund changed since the user confirmed it', async () => {
+    getPreview.mockResolvedValue({ canCancel: true, totalRefund: 250, currency: 'USD' });
+
+    await expect(
+      useCase.execute('reservation-123', 'user-1', { reason: 'Trip postponed', expectedRefundAmount: 500 })
+    ).rejects.toMatchObject({ errorCode: 'REFUND_AMOUNT_CHANGED', statusCode: 409 });
+    expect(cancelReservation).not.toHaveBeenCalled();
+  });
+
+  it('should require a reason', async () => {
+    await expect(useCase.execute('reservation-123', 'user-1', { reason: '  ' })).rejects.toMatchObject({
+      errorCode: 'CANCELLATION_REASON_REQUIRED',
+      statusCode: 400,
+    });
+    expect(getPreview).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,69 @@
+import { injectable, inject } from 'tsyringe';
+import { ICancelUserReservationUseCase } from '../../interface/reservation/cancel_user_reservation_use_case.interface';
+import { IGetUserCancellationPreviewUseCase } from '../../interface/reservation/get_user_cancellation_preview_use_case.interface';
+import { ICancelReservationUseCase } from '../../interface/admin/reservation/cancel_reservation_use_case.interface';
+import { CancelUserReservationRequest, ReservationResponse } from '../../../dtos/reservation.dto';
+import { ReservationMapper } from '../../../mapper/reservation.mapper';
+import { USE_CASE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, RESERVATION_CANCELLATION_CONFIG } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for a user cancelling their own reservation
+ * Enforces the self-service cutoff, then reuses the admin cancellation path
+ * so refunds, notifications and emails behave the same
+ */
+@injectable()
+export class CancelUserReservationUseCase implements ICancelUserReservationUseCase {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetUserCancellationPreviewUseCase)
+    private readonly getUserCancellationPreviewUseCase: IGetUserCancellationPreviewUseCase,
+    @inject(USE_CASE_TOKENS.CancelReservationUseCase)
+    private readonly cancelReservationUseCase: ICancelReservationUseCase
+  ) {}
+
+  async execute(
+    reservationId: string,
+    userId: string,
+    request: CancelUserReservationRequest
+  ): Promise<ReservationResponse> {
+    if (!request || !request.reason || request.reason.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'CANCELLATION_REASON_REQUIRED', 400);
+    }
+
+    const preview = await this.getUserCancellationPreviewUseCase.execute(reservationId, userId);
+
+    if (!preview.canCancel) {
+      const cutoffHours = RESERVATION_CANCELLATION_CONFIG.SELF_SERVICE_CUTOFF_MS / (60 * 60 * 1000);
+      throw new AppError(
+        `Reservations can only be cancelled online up to ${cutoffHours} hours before departure. Please contact support.`,
+        'CANCELLATION_CUTOFF_PASSED',
+        400
+      );
+    }
+
+    // The user confirmed a specific refund; don't silently give them a different one
+    if (
+      request.expectedRefundAmount !== undefined &&
+      Math.abs(request.expectedRefundAmount - preview.totalRefund) >= 0.01
+    ) {
+      throw new AppError(
+        `The refund for this cancellation has changed to ${preview.totalRefund} ${preview.currency}. Please review it and confirm again.`,
+        'REFUND_AMOUNT_CHANGED',
+        409
+      );
+    }
+
+    logger.info(`User ${userId} cancelling reservation ${reservationId}, expected refund: ${preview.totalRefund}`);
+
+    const reservation = await this.cancelReservationUseCase.execute(
+      reservationId,
+      request.reason.trim(),
+      userId,
+      'user'
+    );
+
+    return ReservationMapper.toReservationResponse(reservation);
+  }
+}
@@ -0,0 +1,184 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { CreateBalancePaymentIntentUseCase } from './create_balance_payment_intent.use-case';
+import { MockPaymentRepository } from '../../../../shared/test/mocks/repositories/payment_repository.mock';
+import { MockReservationRepository } from '../../../../shared/test/mocks/repositories/reservation_repository.mock';
+import { MockPaymentGateway } from '../../../../shared/test/mocks/services/payment_gateway.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createPendingPaymentFixture } from '../../../../shared/test/fixtures/payment.fixture';
+import {
+  createCancelledReservationFixture,
+  createConfirmedReservationFixture,
+} from '../../../../shared/test/fixtures/reservation.fixture';
+import { IPaymentSchedule } from '../../../../domain/entities/reservation.entity';
+import { PaymentStatus } from '../../../../domain/entities/payment.entity';
+import { ERROR_CODES } from '../../../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('CreateBalancePaymentIntentUseCase', () => {
+  let useCase: CreateBalancePaymentIntentUseCase;
+  let mockPaymentRepository: MockPaymentRepository;
+  let mockReservationRepository: MockReservationRepository;
+  let mockPaymentGateway: MockPaymentGateway;
+
+  const paymentSchedule = (balanceStatus: 'pending' | 'overdue' | 'paid'): IPaymentSchedule => ({
+    totalAmount: 1000,
+    currency: 'USD',
+    depositPercentage: 30,
+    installments: [
+      { kind: 'deposit', amount: 300, dueAt: new Date(), status: 'paid', paymentId: 'payment-deposit' },
+      { kind: 'balance', amount: 700, dueAt: new Date(), status: balanceStatus },
+    ],
+  });
+  const pendingBalancePayment = createPendingPaymentFixture({
+    paymentId: 'payment-balance',
+    quoteId: 'reservation-123',
+    paymentIntentId: 'pi_balance_existing',
+    amount: 700,
+    metadata: { paymentType: 'balance' },
+  });
+
+  const createBalanceIntent = () => useCase.execute('reservation-123', 'user-123');
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockPaymentRepository = new MockPaymentRepository();
+    mockReservationRepository = new MockReservationRepository();
+    mockPaymentGateway = new MockPaymentGateway();
+
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, mockReservationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IPaymentRepository, mockPaymentRepository);
+    container.registerInstance(SERVICE_TOKENS.IPaymentGateway, mockPaymentGateway);
+
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({
+        reservationId: 'reservation-123',
+        userId: 'user-123',
+        paymentSchedule: paymentSchedule('pending'),
+      })
+    );
+    mockPaymentGateway.createPaymentIntent.mockResolvedValue({
+      id: 'pi_balance_new',
+      clientSecret: 'secret_new',
+      status: 'requires_payment_method',
+      amount: 700,
+      currency: 'usd',
+      metadata: {},
+    });
+
+    useCase = container.resolve(CreateBalancePaymentIntentUseCase);
+  });
+
+  it('should create a payment intent for the outstanding balance', async () => {
+    const response = await createBalanceIntent();
+
+    expect(mockPaymentGateway.createPaymentIntent).toHaveBeenCalledWith({
+      amount: 700,
+      currency: 'usd',
+      metadata: { reservationId: 'reservation-123', userId: 'user-123', paymentType: 'balance' },
+    });
+    expect(mockPaymentRepository.create).toHaveBeenCalledWith(
+      expect.objectContaining({
+        quoteId: 'reservation-123',
+        amount: 700,
+        status: PaymentStatus.PENDING,
+        metadata: expect.objectContaining({ paymentType: 'balance' }),
+      })
+    );
+    expect(response).toMatchObject({ clientSecret: 'secret_new', paymentIntentId: 'pi_balance_new' });
+  });
+
+  it('should let an overdue balance still be paid', async () => {
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({
+        reservationId: 'reservation-123',
+        userId: 'user-123',
+        paymentSchedule: paymentSchedule('overdue'),
+      })
+    );
+
+    await createBalanceIntent();
+
+    expect(mockPaymentGateway.createPaymentIntent).toHaveBeenCalledWith(expect.objectContaining({ amount: 700 }));
+  });
+
+  it('should reuse a pending balance payment intent that can still be paid', async () => {
+    mockPaymentRepository.findByQuoteId.mockResolvedValue([pendingBalancePayment]);
+    mockPaymentGateway.retrievePaymentIntent.mockResolvedValue({
+      id: 'pi_balance_existing',
+      clientSecret: 'secret_existing',
+      status: 'requires_payment_method',
+      amount: 700,
+      currency: 'usd',
+      metadata: {},
+    });
+
+    const response = await createBalanceIntent();
+
+    expect(response).toEqual({
+      clientSecret: 'secret_existing',
+      paymentIntentId: 'pi_balance_existing',
+      paymentId: 'payment-balance',
+    });
+    expect(mockPaymentGateway.createPaymentIntent).not.toHaveBeenCalled();
+  });
+
+  it('should fail a pending balance payment whose intent is terminal and start a new one', async () => {
+    mockPaymentRepository.findByQuoteId.mockResolvedValue([pendingBalancePayment]);
+    mockPaymentGateway.retrievePaymentIntent.mockResolvedValue({
+      id: 'pi_balance_existing',
+      clientSecret: null,
+      status: 'canceled',
+      amount: 700,
+      currency: 'usd',
+      metadata: {},
+    });
+
+    await createBalanceIntent();
+
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledWith('payment-balance', { status: PaymentStatus.FAILED });
+    expect(mockPaymentGateway.createPaymentIntent).toHaveBeenCalled();
+  });
+
+  it('should not reveal reservations of other users', async () => {
+    await expect(useCase.execute('reservation-123', 'someone-else')).rejects.toMatchObject({
+      errorCode: 'RESERVATION_NOT_FOUND',
+      statusCode: 404,
+    });
+  });
+
+  it('should reject reservations without an outstanding balance', async () => {
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({
+        reservationId: 'reservation-123',
+        userId: 'user-123',
+        paymentSchedule: paymentSchedule('paid'),
+      })
+    );
+
+    await expect(createBalanceIntent()).rejects.toMatchObject({ errorCode: ERROR_CODES.NO_OUTSTANDING_BALANCE });
+    expect(mockPaymentGateway.createPaymentIntent).not.toHaveBeenCalled();
+  });
+
+  it('should reject cancelled reservations', async () => {
+    mockReservationRepository.findById.mockResolvedValue(
+      createCancelledReservationFixture({
+        reservationId: 'reservation-123',
+        userId: 'user-123',
+        paymentSchedule: paymentSchedule('pending'),
+      })
+    );
+
+    await expect(createBalanceIntent()).rejects.toMatchObject({ errorCode: 'RESERVATION_TERMINAL' });
+  });
+});
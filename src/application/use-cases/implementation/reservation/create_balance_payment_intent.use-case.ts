@@ -0,0 +1,166 @@
+import { injectable, inject } from 'tsyringe';
+import { ICreateBalancePaymentIntentUseCase } from '../../interface/reservation/create_balance_payment_intent_use_case.interface';
+import { CreatePaymentIntentResponse } from '../../../dtos/payment.dto';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
+import { IPaymentGateway, IGatewayPaymentIntent, GatewayPaymentIntentStatus } from '../../../../domain/services/payment_gateway.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { Payment } from '../../../../domain/entities/payment.entity';
+import { PaymentStatus } from '../../../../domain/entities/payment.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Use case for creating a payment intent for the balance of a deposit booking
+ * Overdue balances can still be paid as long as the reservation was not cancelled
+ */
+@injectable()
+export class CreateBalancePaymentIntentUseCase implements ICreateBalancePaymentIntentUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IPaymentRepository)
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(SERVICE_TOKENS.IPaymentGateway)
+    private readonly paymentGateway: IPaymentGateway
+  ) {}
+
+  async execute(reservationId: string, userId: string): Promise<CreatePaymentIntentResponse> {
+    try {
+      // Input validation
+      if (!reservationId || typeof reservationId !== 'string' || reservationId.trim().length === 0) {
+        throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_RESERVATION_ID', 400);
+      }
+
+      if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+        throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+      }
+
+      logger.info(`Creating balance payment intent for reservation: ${reservationId} by user: ${userId}`);
+
+      // Get reservation and verify ownership
+      const reservation = await this.reservationRepository.findById(reservationId);
+
+      if (!reservation || reservation.userId !== userId) {
+        throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
+      }
+
+      if (!reservation.canBeModified()) {
+        throw new AppError(
+          `Cannot pay the balance. Reservation is ${reservation.status}`,
+          'RESERVATION_TERMINAL',
+          400
+        );
+      }
+
+      const balance = reservation.getOutstandingInstallment();
+      if (!balance || !reservation.paymentSchedule) {
+        throw new AppError(ERROR_MESSAGES.NO_OUTSTANDING_BALANCE, ERROR_CODES.NO_OUTSTANDING_BALANCE, 400);
+      }
+
+      const currency = reservation.paymentSchedule.currency.toLowerCase();
+
+      // Check if payment already exists and is pending
+      // Like charge payments, balance payments use reservationId as quoteId in the Payment entity
+      const existingPayments = await this.paymentRepository.findByQuoteId(reservationId);
+      const pendingPayment = existingPayments.find(
+        (p) => p.isPending() && p.metadata?.paymentType === 'balance'
+      );
+
+      if (pendingPayment && pendingPayment.paymentIntentId) {
+        // Retrieve PaymentIntent from the gateway to check its status
+        let paymentIntent: IGatewayPaymentIntent | null = null;
+        let isTerminal = false;
+
+        try {
+          paymentIntent = await this.paymentGateway.retrievePaymentIntent(pendingPayment.paymentIntentId);
+          isTerminal = this.isPaymentIntentTerminal(paymentIntent.status);
+        } catch (error) {
+          // If retrieve fails (network error, invalid ID, etc.), treat as terminal
+          logger.warn(
+            `Failed to retrieve PaymentIntent ${pendingPayment.paymentIntentId} from payment gateway: ${error instanceof Error ? error.message : 'Unknown error'}. Treating as terminal and creating new PaymentIntent.`
+          );
+          isTerminal = true;
+        }
+
+        if (isTerminal) {
+          logger.warn(
+            `PaymentIntent ${pendingPayment.paymentIntentId} is terminal or unreachable, but DB payment is PENDING. Marking payment as FAILED and creating new PaymentIntent.`
+          );
+          await this.paymentRepository.updateById(pendingPayment.paymentId, {
+            status: PaymentStatus.FAILED,
+          } as Partial<Payment>);
+        } else if (paymentIntent) {
+          // PaymentIntent is still usable, return it immediately
+          logger.info(`Returning existing payment intent: ${pendingPayment.paymentIntentId}`);
+          return {
+            clientSecret: paymentIntent.clientSecret as string,
+            paymentIntentId: paymentIntent.id,
+            paymentId: pendingPayment.paymentId,
+          };
+        }
+      }
+
+      // Create payment intent through the gateway
+      const paymentIntent = await this.paymentGateway.createPaymentIntent({
+        amount: balance.amount,
+        currency,
+        metadata: {
+          reservationId,
+          userId,
+          paymentType: 'balance',
+        },
+      });
+
+      logger.info(`Created payment intent: ${paymentIntent.id} for balance of reservation: ${reservationId}`);
+
+      // Create Payment entity
+      const paymentId = uuidv4();
+      const payment = new Payment(
+        paymentId,
+        reservationId,
+        userId,
+        balance.amount,
+        currency,
+        this.paymentGateway.paymentMethod,
+        PaymentStatus.PENDING,
+        new Date(),
+        new Date(),
+        paymentIntent.id,
+        undefined,
+        undefined,
+        { stripePaymentIntentId: paymentIntent.id, reservationId, paymentType: 'balance' }
+      );
+
+      // Save payment to database
+      await this.paymentRepository.create(payment);
+
+      logger.info(`Created payment record: ${paymentId} for balance of reservation: ${reservationId}`);
+
+      return {
+        clientSecret: paymentIntent.clientSecret as string,
+        paymentIntentId: paymentIntent.id,
+        paymentId,
+      };
+    } catch (error) {
+      logger.error(
+        `Error creating balance payment intent: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error;
+    }
+  }
+
+  /**
+   * Checks if a PaymentIntent status is terminal (cannot be reused)
+   * Terminal states: succeeded, canceled
+   */
+  private isPaymentIntentTerminal(status: GatewayPaymentIntentStatus): boolean {
+    const terminalStates: GatewayPaymentIntentStatus[] = [
+      'succeeded',
+      'canceled',
+    ];
+    return terminalStates.includes(status);
+  }
+}
@@ -4,19 +4,18 @@ import { CreatePaymentIntentResponse } from '../../../dtos/payment.dto';
 import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
 import { IReservationChargeRepository } from '../../../../domain/repositories/reservation_charge_repository.interface';
 import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { IPaymentGateway, IGatewayPaymentIntent, GatewayPaymentIntentStatus } from '../../../../domain/services/payment_gateway.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { ERROR_MESSAGES } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { logger } from '../../../../shared/logger';
 import { Payment } from '../../../../domain/entities/payment.entity';
-import { PaymentStatus, PaymentMethod } from '../../../../domain/entities/payment.entity';
-import { getStripeInstance } from '../../../../infrastructure/service/stripe.service';
+import { PaymentStatus } from '../../../../domain/entities/payment.entity';
 import { v4 as uuidv4 } from 'uuid';
-import Stripe from 'stripe';
 
 /**
  * Use case for creating a payment intent for a reservation charge
- * Validates charge, creates Stripe Payment Intent, and saves payment record
+ * Validates charge, creates a payment intent through the payment gateway, and saves payment record
  */
 @injectable()
 export class CreateChargePaymentIntentUseCase implements ICreateChargePaymentIntentUseCase {
@@ -26,7 +25,9 @@ export class CreateChargePaymentIntentUseCase implements ICreateChargePaymentInt
     @inject(REPOSITORY_TOKENS.IReservationChargeRepository)
     private readonly chargeRepository: IReservationChargeRepository,
     @inject(REPOSITORY_TOKENS.IPaymentRepository)
-    private readonly paymentRepository: IPaymentRepository
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(SERVICE_TOKENS.IPaymentGateway)
+    private readonly paymentGateway: IPaymentGateway
   ) {}
 
   async execute(reservationId: string, chargeId: string, userId: string): Promise<CreatePaymentIntentResponse> {
@@ -87,18 +88,17 @@ export class CreateChargePaymentIntentUseCase implements ICreateChargePaymentInt
       );
 
       if (pendingPayment && pendingPayment.paymentIntentId) {
-        // Retrieve PaymentIntent from Stripe to check its status
-        const stripe = getStripeInstance();
-        let paymentIntent: Stripe.PaymentIntent | null = null;
+        // Retrieve PaymentIntent from the gateway to check its status
+        let paymentIntent: IGatewayPaymentIntent | null = null;
         let isTerminal = false;
 
         try {
-          paymentIntent = await stripe.paymentIntents.retrieve(pendingPayment.paymentIntentId);
+          paymentIntent = await this.paymentGateway.retrievePaymentIntent(pendingPayment.paymentIntentId);
           isTerminal = this.isPaymentIntentTerminal(paymentIntent.status);
         } catch (error) {
           // If retrieve fails (network error, invalid ID, etc.), treat as terminal
           logger.warn(
-            `Failed to retrieve PaymentIntent ${pendingPayment.paymentIntentId} from Stripe: ${error instanceof Error ? error.message : 'Unknown error'}. Treating as terminal and creating new PaymentIntent.`
+            `Failed to retrieve PaymentIntent ${pendingPayment.paymentIntentId} from payment gateway: ${error instanceof Error ? error.message : 'Unknown error'}. Treating as terminal and creating new PaymentIntent.`
           );
           isTerminal = true;
         }
@@ -116,32 +116,26 @@ export class CreateChargePaymentIntentUseCase implements ICreateChargePaymentInt
           // PaymentIntent is still usable, return it immediately
           logger.info(`Returning existing payment intent: ${pendingPayment.paymentIntentId}`);
           return {
-            clientSecret: paymentIntent.client_secret as string,
+            clientSecret: paymentIntent.clientSecret as string,
             paymentIntentId: paymentIntent.id,
             paymentId: pendingPayment.paymentId,
           };
         }
       }
 
-      // Create Stripe Payment Intent
-      const stripe = getStripeInstance();
-      const amountInCents = Math.round(charge.amount * 100); // Convert to cents
-
-      const paymentIntent = await stripe.paymentIntents.create({
-        amount: amountInCents,
-        currency: charge.currency.toLowerCase(),
+      // Create payment intent through the gateway
+      const paymentIntent = await this.paymentGateway.createPaymentIntent({
+        amount: charge.amount,
+        currency: charge.currency,
         metadata: {
           reservationId,
           chargeId,
           userId,
           paymentType: 'charge',
         },
-        automatic_payment_methods: {
-          enabled: true,
-        },
       });
 
-      logger.info(`Created Stripe payment intent: ${paymentIntent.id} for charge: ${chargeId}`);
+      logger.info(`Created payment intent: ${paymentIntent.id} for charge: ${chargeId}`);
 
       // Create Payment entity
       const paymentId = uuidv4();
@@ -151,7 +145,7 @@ export class CreateChargePaymentIntentUseCase implements ICreateChargePaymentInt
         userId,
         charge.amount,
         charge.currency,
-        PaymentMethod.STRIPE,
+        this.paymentGateway.paymentMethod,
         PaymentStatus.PENDING,
         new Date(),
         new Date(),
@@ -167,7 +161,7 @@ export class CreateChargePaymentIntentUseCase implements ICreateChargePaymentInt
       logger.info(`Created payment record: ${paymentId} for charge: ${chargeId}`);
 
       return {
-        clientSecret: paymentIntent.client_secret as string,
+        clientSecret: paymentIntent.clientSecret as string,
         paymentIntentId: paymentIntent.id,
         paymentId,
       };
@@ -180,12 +174,12 @@ export class CreateChargePaymentIntentUseCase implements ICreateChargePaymentInt
   }
 
   /**
-   * Checks if a Stripe PaymentIntent status is terminal (cannot be reused)
+   * Checks if a PaymentIntent status is terminal (cannot be reused)
    * Terminal states: succeeded, canceled
    * Note: When payment fails, Stripe typically sets status to 'canceled'
    */
-  private isPaymentIntentTerminal(status: Stripe.PaymentIntent.Status): boolean {
-    const terminalStates: Stripe.PaymentIntent.Status[] = [
+  private isPaymentIntentTerminal(status: GatewayPaymentIntentStatus): boolean {
+    const terminalStates: GatewayPaymentIntentStatus[] = [
       'succeeded',
       'canceled',
     ];
@@ -7,14 +7,23 @@ import { IUserRepository } from '../../../../domain/repositories/user_repository
 import { IQuoteItineraryRepository } from '../../../../domain/repositories/quote_itinerary_repository.interface';
 import { IReservationItineraryRepository } from '../../../../domain/repositories/reservation_itinerary_repository.interface';
 import { IPassengerRepository } from '../../../../domain/repositories/passenger_repository.interface';
+import { ICancellationPolicyRepository } from '../../../../domain/repositories/cancellation_policy_repository.interface';
+import { IPromoCodeRepository } from '../../../../domain/repositories/promo_code_repository.interface';
+import { IPromoCodeRedemptionRepository } from '../../../../domain/repositories/promo_code_redemption_repository.interface';
 import { IPDFGenerationService } from '../../../../domain/services/pdf_generation_service.interface';
 import { IEmailService } from '../../../../domain/services/email_service.interface';
-import { ICreateNotificationUseCase } from '../../interface/notification/create_notification_use_case.interface';
-import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
-import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { IVehicleAvailabilityService } from '../../../../domain/services/vehicle_availability_service.interface';
+import { IReservationInvoiceService } from '../../../../domain/services/reservation_invoice_service.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { IPaymentSchedule, Reservation } from '../../../../domain/entities/reservation.entity';
+import { Payment, PaymentMethod } from '../../../../domain/entities/payment.entity';
+import { IQueueService } from '../../../../domain/services/queue_service.interface';
 import { ReservationItinerary } from '../../../../domain/entities/reservation_itinerary.entity';
-import { ReservationStatus, TripType, ERROR_MESSAGES, NotificationType, QuoteStatus } from '../../../../shared/constants';
+import { PromoCodeRedemption } from '../../../../domain/entities/promo_code_redemption.entity';
+import { ReservationStatus, TripType, ERROR_MESSAGES, NotificationType, QuoteStatus, UserRole } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency } from '../../../../shared/utils/currency.util';
 import { logger } from '../../../../shared/logger';
 import { randomUUID } from 'crypto';
 import { EmailType, InvoiceEmailData } from '../../../../shared/types/email.types';
@@ -22,6 +31,8 @@ import { FRONTEND_CONFIG } from '../../../../shared/config';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
 import { generateReferenceNumber } from '../../../../shared/utils/reference_number.util';
+import { describeVehicleHoldConflicts } from '../../../../shared/utils/vehicle_hold.util';
+import { deriveTripWindow } from '../../../mapper/driver_dashboard.mapper';
 
 /**
  * Use case for creating a reservation
@@ -48,8 +59,18 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
     private readonly pdfGenerationService: IPDFGenerationService,
     @inject(SERVICE_TOKENS.IEmailService)
     private readonly emailService: IEmailService,
-    @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
-    private readonly createNotificationUseCase: ICreateNotificationUseCase
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
+    @inject(REPOSITORY_TOKENS.ICancellationPolicyRepository)
+    private readonly cancellationPolicyRepository: ICancellationPolicyRepository,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService,
+    @inject(REPOSITORY_TOKENS.IPromoCodeRepository)
+    private readonly promoCodeRepository: IPromoCodeRepository,
+    @inject(REPOSITORY_TOKENS.IPromoCodeRedemptionRepository)
+    private readonly promoCodeRedemptionRepository: IPromoCodeRedemptionRepository,
+    @inject(SERVICE_TOKENS.IReservationInvoiceService)
+    private readonly reservationInvoiceService: IReservationInvoiceService
   ) {}
 
   async execute(quoteId: string, paymentId: string): Promise<Reservation> {
@@ -102,7 +123,19 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
       const reservationId = randomUUID();
       const now = new Date();
       const referenceNumber = generateReferenceNumber('RSV');
-      
+
+      // Pin the cancellation policy in force at payment time so later policy changes don't apply retroactively
+      const cancellationPolicy = await this.cancellationPolicyRepository.findActive();
+      if (!cancellationPolicy) {
+        logger.warn(`No active cancellation policy found while creating reservation for quote: ${quoteId}`);
+      }
+
+      // Deposit bookings carry the balance due before departure
+      const paymentSchedule = this.buildPaymentSchedule(payment, now);
+
+      // Corporate bookings on account are paid later through the monthly invoice
+      const billedOnAccount = payment.paymentMethod === PaymentMethod.INVOICE;
+
       // Create reservation entity from quote data
       const reservation = new Reservation(
         reservationId,
@@ -125,9 +158,9 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
         quote.assignedDriverId,
         quote.assignedDriverId, // originalDriverId (same as assigned initially)
         {
-          total: payment.amount,
-          currency: payment.currency,
-          paidAt: payment.paidAt || now,
+          total: paymentSchedule ? paymentSchedule.totalAmount : payment.amount, // Trip price, not just the deposit
+          currency: normalizeCurrency(payment.currency),
+          paidAt: billedOnAccount ? undefined : payment.paidAt || now,
         },
         now, // confirmedAt
         undefined, // driverChangedAt
@@ -135,13 +168,33 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
         undefined, // refundedAmount
         undefined, // refundedAt
         undefined, // cancellationReason
-        undefined // cancelledAt
+        undefined, // cancelledAt
+        undefined, // startedAt
+        undefined, // completedAt
+        undefined, // driverReport
+        cancellationPolicy?.cancellationPolicyId,
+        cancellationPolicy?.version,
+        paymentSchedule
       );
 
       // Save reservation
       await this.reservationRepository.create(reservation);
       logger.info(`Reservation created: ${reservationId}`);
 
+      // Schedule balance reminders and the due date check
+      const balance = reservation.getOutstandingInstallment();
+      if (balance) {
+        try {
+          const queueService = container.resolve<IQueueService>(SERVICE_TOKENS.IQueueService);
+          await queueService.addBalancePaymentJobs(reservationId, balance.dueAt);
+        } catch (balanceJobError) {
+          logger.error(
+            `Failed to schedule balance payment jobs for reservation ${reservationId}: ${balanceJobError instanceof Error ? balanceJobError.message : 'Unknown error'}`
+          );
+          // Don't fail reservation creation if job scheduling fails
+        }
+      }
+
       // Copy itinerary from quote to reservation
       try {
         const quoteItinerary = await this.quoteItineraryRepository.findByQuoteId(quoteId);
@@ -179,6 +232,70 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
         // Don't fail reservation creation if itinerary copy fails
       }
 
+      // Turn the quote's vehicle holds into bookings for the reservation
+      try {
+        const quoteItinerary = await this.quoteItineraryRepository.findByQuoteId(quoteId);
+        if (quoteItinerary.length > 0 && quote.selectedVehicles && quote.selectedVehicles.length > 0) {
+          const { tripStartAt, tripEndAt } = deriveTripWindow(quoteItinerary);
+          const holdResult = await this.vehicleAvailabilityService.confirmHoldsForReservation(
+            quoteId,
+            reservationId,
+            quote.selectedVehicles.map((sv) => sv.vehicleId),
+            { startAt: tripStartAt, endAt: tripEndAt }
+          );
+          if (!holdResult.acquired) {
+            // Payment has already been taken, so keep the reservation and let an admin reassign vehicles
+            const conflictDescription = describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts);
+            logger.error(
+              `Reservation ${reservationId} is double-booked and needs vehicle reassignment: ${conflictDescription}`
+            );
+            await this.notifyAdminsOfVehicleConflict(reservationId, referenceNumber, conflictDescription);
+          }
+        }
+      } catch (holdError) {
+        logger.error(
+          `Failed to confirm vehicle holds for reservation ${reservationId}: ${holdError instanceof Error ? holdError.message : 'Unknown error'}`
+        );
+        // Don't fail reservation creation if hold confirmation fails
+      }
+
+      // Count the promo code redemption now that the discounted quote has been paid
+      if (quote.pricing?.promoCode) {
+        try {
+          const promoCode = await this.promoCodeRepository.findByCode(quote.pricing.promoCode);
+          const existingRedemption = await this.promoCodeRedemptionRepository.findByQuoteId(quoteId);
+          if (promoCode && !existingRedemption) {
+            await this.promoCodeRedemptionRepository.create(
+              new PromoCodeRedemption(
+                randomUUID(),
+                promoCode.promoCodeId,
+                promoCode.code,
+                quote.userId,
+                quoteId,
+                quote.pricing.discount ?? 0,
+                normalizeCurrency(quote.pricing.currency ?? payment.currency),
+                now,
+                reservationId
+              )
+            );
+            const counted = await this.promoCodeRepository.incrementUsedCount(promoCode.promoCodeId);
+            if (counted) {
+              logger.info(`Promo code ${promoCode.code} redeemed on reservation: ${reservationId}`);
+            } else {
+              // Payments started together can both pass the check at intent creation; the discount has been charged already
+              logger.error(
+                `Promo code ${promoCode.code} was redeemed on reservation ${reservationId} after reaching its usage limit`
+              );
+            }
+          }
+        } catch (promoCodeError) {
+          logger.error(
+            `Failed to record promo code redemption for reservation ${reservationId}: ${promoCodeError instanceof Error ? promoCodeError.message : 'Unknown error'}`
+          );
+          // Don't fail reservation creation if the redemption can't be recorded
+        }
+      }
+
       // Copy passengers from quote to reservation
       try {
         const passengers = await this.passengerRepository.findByQuoteId(quoteId);
@@ -200,16 +317,29 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
       }
 
       // Get user for email
-      const user = await this.userRepository.findById(quote.userId);
+      // Bookings on account are billed on the monthly corporate invoice instead
+      const user = billedOnAccount ? null : await this.userRepository.findById(quote.userId);
       if (user) {
+        // Issue the numbered invoice, the invoice history issues it later if this fails
+        let invoiceNumber = reservation.reservationNumber;
+        try {
+          const invoice = await this.reservationInvoiceService.issueInvoice(reservation, payment);
+          invoiceNumber = invoice.invoiceNumber;
+        } catch (invoiceError) {
+          logger.error(
+            `Failed to issue invoice for reservation ${reservationId}: ${invoiceError instanceof Error ? invoiceError.message : 'Unknown error'}`
+          );
+        }
+
         // Generate invoice PDF
         const pdfBuffer = await this.pdfGenerationService.generateInvoicePDF({
           reservation,
           user,
-          invoiceNumber: reservationId, // Use reservationId as invoice number
+          invoiceNumber,
           paymentAmount: payment.amount,
           paymentDate: payment.paidAt || now,
           paymentMethod: payment.paymentMethod,
+          currency: normalizeCurrency(payment.currency),
         });
 
         // Prepare email data
@@ -219,8 +349,9 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
           email: user.email,
           fullName: user.fullName,
           reservationNumber: reservation.reservationNumber,
-          invoiceNumber: reservation.reservationNumber,
+          invoiceNumber,
           paymentAmount: payment.amount,
+          currency: normalizeCurrency(payment.currency),
           paymentDate: payment.paidAt || now,
           paymentMethod: payment.paymentMethod,
           tripName: quote.tripName,
@@ -232,7 +363,7 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
         try {
           await this.emailService.sendEmail(EmailType.INVOICE, emailData, [
             {
-              filename: `invoice-${reservationId}.pdf`,
+              filename: `invoice-${invoiceNumber}.pdf`,
               content: pdfBuffer,
               contentType: 'application/pdf',
             },
@@ -254,11 +385,13 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
 
       // Send notification to user about reservation confirmation
       try {
-        await this.createNotificationUseCase.execute({
+        await this.notificationService.sendNotification({
           userId: quote.userId,
           type: NotificationType.RESERVATION_CONFIRMED,
           title: 'Reservation Confirmed',
-          message: `Your reservation for "${quote.tripName || 'Trip'}" has been confirmed. Invoice has been sent to your email.`,
+          message: billedOnAccount
+            ? `Your reservation for "${quote.tripName || 'Trip'}" has been confirmed and will be billed to your company account.`
+            : `Your reservation for "${quote.tripName || 'Trip'}" has been confirmed. Invoice has been sent to your email.`,
           data: {
             reservationId,
             quoteId,
@@ -298,5 +431,64 @@ export class CreateReservationUseCase implements ICreateReservationUseCase {
       throw new AppError('Failed to create reservation', 'RESERVATION_CREATION_ERROR', 500);
     }
   }
-}
 
+  /**
+   * Builds the payment schedule of a deposit booking from the terms stored on its deposit payment
+   * Returns undefined for bookings paid in full
+   */
+  private buildPaymentSchedule(payment: Payment, now: Date): IPaymentSchedule | undefined {
+    const metadata = payment.metadata;
+    if (metadata?.paymentType !== 'deposit') {
+      return undefined;
+    }
+
+    return {
+      totalAmount: Number(metadata.totalAmount),
+      currency: normalizeCurrency(payment.currency),
+      depositPercentage: Number(metadata.depositPercentage),
+      installments: [
+        {
+          kind: 'deposit',
+          amount: payment.amount,
+          dueAt: payment.createdAt,
+          status: 'paid',
+          paymentId: payment.paymentId,
+          paidAt: payment.paidAt || now,
+        },
+        {
+          kind: 'balance',
+          amount: Number(metadata.balanceAmount),
+          dueAt: new Date(String(metadata.balanceDueAt)),
+          status: 'pending',
+        },
+      ],
+    };
+  }
+
+  /**
+   * Tells admins a paid reservation could not get its vehicles, so someone reassigns them before the trip
+   * Failures are logged; the reservation is kept either way
+   */
+  private async notifyAdminsOfVehicleConflict(
+    reservationId: string,
+    referenceNumber: string,
+    conflictDescription: string
+  ): Promise<void> {
+    try {
+      const admins = await this.userRepository.findByRole(UserRole.ADMIN);
+      for (const admin of admins) {
+        await this.notificationService.sendNotification({
+          userId: admin.userId,
+          type: NotificationType.RESERVATION_VEHICLES_CONFLICT,
+          title: 'Reservation Needs Vehicle Reassignment',
+          message: `Reservation ${referenceNumber} was paid but its vehicles are no longer free. ${conflictDescription}`,
+          data: { reservationId, referenceNumber },
+        });
+      }
+    } catch (notificationError) {
+      logger.error(
+        `Failed to notify admins about vehicle conflict on reservation ${reservationId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+    }
+  }
+}
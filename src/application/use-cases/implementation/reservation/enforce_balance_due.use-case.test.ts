@@ -0,0 +1,121 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { EnforceBalanceDueUseCase } from './enforce_balance_due.use-case';
+import { MockReservationRepository } from '../../../../shared/test/mocks/repositories/reservation_repository.mock';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createConfirmedReservationFixture } from '../../../../shared/test/fixtures/reservation.fixture';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { IPaymentSchedule } from '../../../../domain/entities/reservation.entity';
+import { NotificationType, UserRole } from '../../../../shared/constants';
+
+// The overdue action is read from the environment at startup
+const paymentPlanConfig = vi.hoisted(() => ({ OVERDUE_ACTION: 'cancel' as 'cancel' | 'overdue' }));
+vi.mock('../../../../shared/config', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('../../../../shared/config')>();
+  return { ...actual, PAYMENT_PLAN_CONFIG: Object.assign(paymentPlanConfig, { ...actual.PAYMENT_PLAN_CONFIG }) };
+});
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('EnforceBalanceDueUseCase', () => {
+  let useCase: EnforceBalanceDueUseCase;
+  let mockReservationRepository: MockReservationRepository;
+  let mockUserRepository: MockUserRepository;
+  let cancelReservation: ReturnType<typeof vi.fn>;
+  let sendNotification: ReturnType<typeof vi.fn>;
+
+  const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+  const paymentSchedule = (balanceDueAt: Date, balanceStatus: 'pending' | 'overdue' | 'paid' = 'pending'): IPaymentSchedule => ({
+    totalAmount: 1000,
+    currency: 'USD',
+    depositPercentage: 30,
+    installments: [
+      { kind: 'deposit', amount: 300, dueAt: new Date(), status: 'paid', paymentId: 'payment-deposit' },
+      { kind: 'balance', amount: 700, dueAt: balanceDueAt, status: balanceStatus },
+    ],
+  });
+  const givenReservation = (schedule: IPaymentSchedule) =>
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({
+        reservationId: 'reservation-123',
+        reservationNumber: 'GL-123',
+        userId: 'user-123',
+        paymentSchedule: schedule,
+      })
+    );
+
+  beforeEach(() => {
+    clearContainer();
+    paymentPlanConfig.OVERDUE_ACTION = 'cancel';
+
+    mockReservationRepository = new MockReservationRepository();
+    mockUserRepository = new MockUserRepository();
+    cancelReservation = vi.fn().mockResolvedValue(undefined);
+    sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, mockReservationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(USE_CASE_TOKENS.CancelReservationUseCase, { execute: cancelReservation });
+    container.registerInstance(SERVICE_TOKENS.INotificationService, { sendNotification });
+
+    mockUserRepository.findByRole.mockResolvedValue([createUserFixture({ userId: 'admin-1', role: UserRole.ADMIN })]);
+    givenReservation(paymentSchedule(new Date(Date.now() - ONE_DAY_MS)));
+
+    useCase = container.resolve(EnforceBalanceDueUseCase);
+  });
+
+  it('should cancel the reservation under its policy when the balance was missed', async () => {
+    await expect(useCase.execute('reservation-123')).resolves.toBe(true);
+
+    expect(cancelReservation).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.stringContaining('was not paid by the due date'),
+      'system',
+      'system'
+    );
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', title: 'Reservation Cancelled For Missed Balance' })
+    );
+    expect(mockReservationRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should mark the balance overdue and keep the reservation when configured to', async () => {
+    paymentPlanConfig.OVERDUE_ACTION = 'overdue';
+
+    await expect(useCase.execute('reservation-123')).resolves.toBe(true);
+
+    expect(cancelReservation).not.toHaveBeenCalled();
+    const update = mockReservationRepository.updateById.mock.calls[0][1];
+    expect(update.paymentSchedule?.installments.map((installment) => installment.status)).toEqual(['paid', 'overdue']);
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'user-123', type: NotificationType.RESERVATION_BALANCE_OVERDUE })
+    );
+  });
+
+  it('should do nothing before the due date', async () => {
+    givenReservation(paymentSchedule(new Date(Date.now() + ONE_DAY_MS)));
+
+    await expect(useCase.execute('reservation-123')).resolves.toBe(false);
+    expect(cancelReservation).not.toHaveBeenCalled();
+  });
+
+  it('should do nothing once the balance is paid or already marked overdue', async () => {
+    givenReservation(paymentSchedule(new Date(Date.now() - ONE_DAY_MS), 'paid'));
+    await expect(useCase.execute('reservation-123')).resolves.toBe(false);
+
+    givenReservation(paymentSchedule(new Date(Date.now() - ONE_DAY_MS), 'overdue'));
+    await expect(useCase.execute('reservation-123')).resolves.toBe(false);
+
+    expect(cancelReservation).not.toHaveBeenCalled();
+    expect(mockReservationRepository.updateById).not.toHaveBeenCalled();
+  });
+});
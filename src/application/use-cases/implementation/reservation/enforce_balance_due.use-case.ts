@@ -0,0 +1,129 @@
+import { injectable, inject } from 'tsyringe';
+import { IEnforceBalanceDueUseCase } from '../../interface/reservation/enforce_balance_due_use_case.interface';
+import { ICancelReservationUseCase } from '../../interface/admin/reservation/cancel_reservation_use_case.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { PAYMENT_PLAN_CONFIG } from '../../../../shared/config';
+import { NotificationType, UserRole } from '../../../../shared/constants';
+import { formatCurrency } from '../../../../shared/utils/currency.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Recorded as the canceller of reservations cancelled for a missed balance
+ */
+const SYSTEM_ACTOR = 'system';
+
+/**
+ * Use case for a deposit booking whose balance was not paid by its due date
+ * Depending on configuration the reservation is cancelled under its cancellation policy,
+ * or the balance is marked overdue and the trip stays blocked until it is paid
+ */
+@injectable()
+export class EnforceBalanceDueUseCase implements IEnforceBalanceDueUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(USE_CASE_TOKENS.CancelReservationUseCase)
+    private readonly cancelReservationUseCase: ICancelReservationUseCase,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async execute(reservationId: string): Promise<boolean> {
+    const reservation = await this.reservationRepository.findById(reservationId);
+    if (!reservation) {
+      logger.warn(`Reservation not found for balance due check: ${reservationId}`);
+      return false;
+    }
+
+    // Idempotent: the balance may have been paid, or the reservation closed, since the job was scheduled
+    const balance = reservation.getOutstandingInstallment();
+    if (!balance || balance.status !== 'pending' || !reservation.canBeModified() || !reservation.paymentSchedule) {
+      logger.info(`Reservation ${reservationId} has no pending balance, skipping due date check`);
+      return false;
+    }
+
+    if (balance.dueAt.getTime() > Date.now()) {
+      logger.info(`Balance of reservation ${reservationId} is not due until ${balance.dueAt.toISOString()}`);
+      return false;
+    }
+
+    const amountLabel = formatCurrency(balance.amount, reservation.paymentSchedule.currency);
+
+    if (PAYMENT_PLAN_CONFIG.OVERDUE_ACTION === 'cancel') {
+      await this.cancelReservationUseCase.execute(
+        reservationId,
+        `Balance of ${amountLabel} was not paid by the due date`,
+        SYSTEM_ACTOR,
+        'system'
+      );
+      logger.info(`Reservation ${reservationId} cancelled for a missed balance payment`);
+      await this.notifyAdmins(
+        reservation,
+        'Reservation Cancelled For Missed Balance',
+        `Reservation ${reservation.reservationNumber} was cancelled because its balance of ${amountLabel} was not paid.`
+      );
+      return true;
+    }
+
+    await this.reservationRepository.updateById(reservationId, {
+      paymentSchedule: {
+        ...reservation.paymentSchedule,
+        installments: reservation.paymentSchedule.installments.map((installment) =>
+          installment === balance ? { ...installment, status: 'overdue' as const } : installment
+        ),
+      },
+    } as Partial<Reservation>);
+    logger.info(`Balance of reservation ${reservationId} marked overdue`);
+
+    try {
+      await this.notificationService.sendNotification({
+        userId: reservation.userId,
+        type: NotificationType.RESERVATION_BALANCE_OVERDUE,
+        title: 'Balance Overdue',
+        message: `The balance of ${amountLabel} for "${reservation.tripName || 'your trip'}" is overdue. Please pay it before departure.`,
+        data: {
+          reservationId,
+          amount: balance.amount,
+          currency: reservation.paymentSchedule.currency,
+          dueAt: balance.dueAt,
+        },
+      });
+    } catch (notificationError) {
+      logger.error(
+        `Failed to send balance overdue notification for reservation ${reservationId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+    }
+
+    await this.notifyAdmins(
+      reservation,
+      'Balance Overdue',
+      `The balance of ${amountLabel} on reservation ${reservation.reservationNumber} is overdue. The trip cannot start until it is paid.`
+    );
+    return true;
+  }
+
+  private async notifyAdmins(reservation: Reservation, title: string, message: string): Promise<void> {
+    try {
+      const admins = await this.userRepository.findByRole(UserRole.ADMIN);
+      for (const admin of admins) {
+        await this.notificationService.sendNotification({
+          userId: admin.userId,
+          type: NotificationType.RESERVATION_BALANCE_OVERDUE,
+          title,
+          message,
+          data: { reservationId: reservation.reservationId },
+        });
+      }
+    } catch (notificationError) {
+      logger.error(
+        `Failed to notify admins about the balance of reservation ${reservation.reservationId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+    }
+  }
+}
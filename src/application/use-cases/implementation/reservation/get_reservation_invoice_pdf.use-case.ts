@@ -0,0 +1,70 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetReservationInvoicePdfUseCase } from '../../interface/reservation/get_reservation_invoice_pdf_use_case.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IReservationInvoiceRepository } from '../../../../domain/repositories/reservation_invoice_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IPDFGenerationService } from '../../../../domain/services/pdf_generation_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for downloading a reservation invoice, receipt or credit note as PDF
+ * The PDF is rendered on demand from the stored document, so re-downloads always match what was issued
+ */
+@injectable()
+export class GetReservationInvoicePdfUseCase implements IGetReservationInvoicePdfUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IReservationInvoiceRepository)
+    private readonly reservationInvoiceRepository: IReservationInvoiceRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IPDFGenerationService)
+    private readonly pdfGenerationService: IPDFGenerationService
+  ) {}
+
+  async execute(
+    reservationId: string,
+    invoiceId: string,
+    userId: string
+  ): Promise<{ invoiceNumber: string; pdf: Buffer }> {
+    const reservation = await this.reservationRepository.findById(reservationId);
+
+    // Verify ownership
+    if (!reservation || reservation.userId !== userId) {
+      throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
+    }
+
+    const invoice = await this.reservationInvoiceRepository.findById(invoiceId);
+    if (!invoice || invoice.reservationId !== reservationId) {
+      throw new AppError(ERROR_MESSAGES.RESERVATION_INVOICE_NOT_FOUND, ERROR_CODES.RESERVATION_INVOICE_NOT_FOUND, 404);
+    }
+
+    const user = await this.userRepository.findById(reservation.userId);
+    if (!user) {
+      throw new AppError(ERROR_MESSAGES.USER_NOT_FOUND, ERROR_CODES.USER_NOT_FOUND, 404);
+    }
+
+    const relatedInvoice = invoice.relatedInvoiceId
+      ? await this.reservationInvoiceRepository.findById(invoice.relatedInvoiceId)
+      : null;
+
+    const pdf = await this.pdfGenerationService.generateInvoicePDF({
+      reservation,
+      user,
+      invoiceNumber: invoice.invoiceNumber,
+      paymentAmount: invoice.amount,
+      paymentDate: invoice.issuedAt,
+      paymentMethod: invoice.paymentMethod,
+      documentType: invoice.documentType,
+      description: invoice.description,
+      currency: invoice.currency,
+      relatedInvoiceNumber: relatedInvoice?.invoiceNumber,
+      reason: invoice.reason,
+    });
+
+    return { invoiceNumber: invoice.invoiceNumber, pdf };
+  }
+}
@@ -0,0 +1,80 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetReservationInvoicesUseCase } from '../../interface/reservation/get_reservation_invoices_use_case.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IReservationInvoiceRepository } from '../../../../domain/repositories/reservation_invoice_repository.interface';
+import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
+import { IReservationInvoiceService } from '../../../../domain/services/reservation_invoice_service.interface';
+import { ReservationInvoice } from '../../../../domain/entities/reservation_invoice.entity';
+import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { PaymentMethod } from '../../../../domain/entities/payment.entity';
+import { ReservationInvoiceResponse } from '../../../dtos/reservation.dto';
+import { ReservationMapper } from '../../../mapper/reservation.mapper';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for getting the invoice history of a reservation
+ * Verifies user ownership and issues the booking invoice if it is missing,
+ * e.g. for reservations booked before invoices were numbered
+ */
+@injectable()
+export class GetReservationInvoicesUseCase implements IGetReservationInvoicesUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IReservationInvoiceRepository)
+    private readonly reservationInvoiceRepository: IReservationInvoiceRepository,
+    @inject(REPOSITORY_TOKENS.IPaymentRepository as never)
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(SERVICE_TOKENS.IReservationInvoiceService)
+    private readonly reservationInvoiceService: IReservationInvoiceService
+  ) {}
+
+  async execute(reservationId: string, userId: string): Promise<ReservationInvoiceResponse[]> {
+    if (!reservationId || typeof reservationId !== 'string' || reservationId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_RESERVATION_ID', 400);
+    }
+
+    const reservation = await this.reservationRepository.findById(reservationId);
+
+    // Verify ownership
+    if (!reservation || reservation.userId !== userId) {
+      throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
+    }
+
+    const invoices = await this.reservationInvoiceRepository.findByReservationId(reservationId);
+
+    if (!invoices.some((invoice) => invoice.paymentId === reservation.paymentId)) {
+      const bookingInvoice = await this.issueMissingBookingInvoice(reservation);
+      if (bookingInvoice) {
+        invoices.unshift(bookingInvoice);
+      }
+    }
+
+    return invoices.map((invoice) => ReservationMapper.toReservationInvoiceResponse(invoice));
+  }
+
+  private async issueMissingBookingInvoice(reservation: Reservation): Promise<ReservationInvoice | null> {
+    const payment = await this.paymentRepository.findById(reservation.paymentId);
+
+    // Bookings on account are billed on the monthly corporate invoice
+    if (
+      !payment ||
+      payment.paymentMethod === PaymentMethod.INVOICE ||
+      (!payment.isSucceeded() && !payment.isRefunded())
+    ) {
+      return null;
+    }
+
+    try {
+      return await this.reservationInvoiceService.issueInvoice(reservation, payment);
+    } catch (error) {
+      logger.error(
+        `Failed to issue missing invoice for reservation ${reservation.reservationId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return null;
+    }
+  }
+}
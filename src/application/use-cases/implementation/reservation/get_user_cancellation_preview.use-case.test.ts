@@ -0,0 +1,155 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { GetUserCancellationPreviewUseCase } from './get_user_cancellation_preview.use-case';
+import { MockPaymentRepository } from '../../../../shared/test/mocks/repositories/payment_repository.mock';
+import { MockReservationRepository } from '../../../../shared/test/mocks/repositories/reservation_repository.mock';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createSucceededPaymentFixture } from '../../../../shared/test/fixtures/payment.fixture';
+import { createConfirmedReservationFixture } from '../../../../shared/test/fixtures/reservation.fixture';
+import { ReservationItinerary } from '../../../../domain/entities/reservation_itinerary.entity';
+import { StopType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const HOUR_MS = 60 * 60 * 1000;
+
+describe('GetUserCancellationPreviewUseCase', () => {
+  let useCase: GetUserCancellationPreviewUseCase;
+  let mockReservationRepository: MockReservationRepository;
+  let mockPaymentRepository: MockPaymentRepository;
+  let previewCancellation: ReturnType<typeof vi.fn>;
+  let findStops: ReturnType<typeof vi.fn>;
+
+  const pickupAt = (departureAt: Date): ReservationItinerary =>
+    new ReservationItinerary(
+      'stop-1',
+      'reservation-123',
+      'outbound',
+      1,
+      'School',
+      0,
+      0,
+      departureAt,
+      StopType.PICKUP,
+      new Date(),
+      new Date()
+    );
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockReservationRepository = new MockReservationRepository();
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({
+        reservationId: 'reservation-123',
+        userId: 'user-1',
+        paymentId: 'payment-1',
+        refundedAmount: 100,
+      })
+    );
+    mockPaymentRepository = new MockPaymentRepository();
+    mockPaymentRepository.findById.mockResolvedValue(
+      createSucceededPaymentFixture({ paymentId: 'payment-1', amount: 1000, currency: 'USD' })
+    );
+    previewCancellation = vi.fn().mockImplementation(() =>
+      Promise.resolve({
+        reservationId: 'reservation-123',
+        currency: 'USD',
+        departureAt: new Date(Date.now() + 72 * HOUR_MS),
+        totalRefund: 500,
+      })
+    );
+    findStops = vi.fn().mockResolvedValue([pickupAt(new Date(Date.now() + 72 * HOUR_MS))]);
+
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, mockReservationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IPaymentRepository, mockPaymentRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IReservationItineraryRepository, {
+      findByReservationIdOrdered: findStops,
+    });
+    container.registerInstance(USE_CASE_TOKENS.PreviewReservationCancellationUseCase, {
+      execute: previewCancellation,
+    });
+
+    useCase = container.resolve(GetUserCancellationPreviewUseCase);
+  });
+
+  it('should let users cancel their reservation before the self-service cutoff', async () => {
+    const preview = await useCase.execute('reservation-123', 'user-1');
+
+    expect(preview.canCancel).toBe(true);
+    expect(preview.totalRefund).toBe(500);
+    expect(preview.selfServiceCutoffAt?.getTime()).toBe(preview.departureAt!.getTime() - 24 * HOUR_MS);
+  });
+
+  it('should not let users cancel online once the self-service cutoff has passed', async () => {
+    previewCancellation.mockResolvedValue({
+      reservationId: 'reservation-123',
+      currency: 'USD',
+      departureAt: new Date(Date.now() + 12 * HOUR_MS),
+      totalRefund: 0,
+    });
+
+    const preview = await useCase.execute('reservation-123', 'user-1');
+
+    expect(preview.canCancel).toBe(false);
+  });
+
+  it("should not reveal other users' reservations", async () => {
+    await expect(useCase.execute('reservation-123', 'user-2')).rejects.toMatchObject({
+      errorCode: 'RESERVATION_NOT_FOUND',
+      statusCode: 404,
+    });
+    expect(previewCancellation).not.toHaveBeenCalled();
+  });
+
+  it('should preview a full refund of what is left when no cancellation policy applies', async () => {
+    previewCancellation.mockRejectedValue(
+      new AppError('No active cancellation policy found', 'CANCELLATION_POLICY_NOT_FOUND', 404)
+    );
+
+    const preview = await useCase.execute('reservation-123', 'user-1');
+
+    expect(preview).toMatchObject({
+      cancellationPolicyId: null,
+      refundPercentage: 100,
+      paidAmount: 1000,
+      alreadyRefundedAmount: 100,
+      refundAmount: 900,
+      chargesRefundTotal: 0,
+      totalRefund: 900,
+      currency: 'USD',
+      canCancel: true,
+    });
+    expect(findStops).toHaveBeenCalledWith('reservation-123');
+  });
+
+  it('should still apply the self-service cutoff when no cancellation policy applies', async () => {
+    previewCancellation.mockRejectedValue(
+      new AppError('No active cancellation policy found', 'CANCELLATION_POLICY_NOT_FOUND', 404)
+    );
+    findStops.mockResolvedValue([pickupAt(new Date(Date.now() + 12 * HOUR_MS))]);
+
+    const preview = await useCase.execute('reservation-123', 'user-1');
+
+    expect(preview.canCancel).toBe(false);
+  });
+
+  it('should pass on other preview errors', async () => {
+    previewCancellation.mockRejectedValue(
+      new AppError('Reservation is already cancelled', 'RESERVATION_ALREADY_CANCELLED', 400)
+    );
+
+    await expect(useCase.execute('reservation-123', 'user-1')).rejects.toMatchObject({
+      errorCode: 'RESERVATION_ALREADY_CANCELLED',
+    });
+  });
+});
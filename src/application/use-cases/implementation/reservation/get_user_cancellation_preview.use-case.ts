@@ -0,0 +1,126 @@
+import { injectable, inject } from 'tsyringe';
+import { IGetUserCancellationPreviewUseCase } from '../../interface/reservation/get_user_cancellation_preview_use_case.interface';
+import { IPreviewReservationCancellationUseCase } from '../../interface/admin/reservation/preview_reservation_cancellation_use_case.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IReservationItineraryRepository } from '../../../../domain/repositories/reservation_itinerary_repository.interface';
+import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
+import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { UserCancellationPreviewResponse } from '../../../dtos/reservation.dto';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { deriveTripWindow } from '../../../mapper/driver_dashboard.mapper';
+import { ERROR_MESSAGES, RESERVATION_CANCELLATION_CONFIG } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { normalizeCurrency, roundCurrencyAmount } from '../../../../shared/utils/currency.util';
+import { findTripPayments } from '../../../../shared/utils/payment_plan.util';
+import { logger } from '../../../../shared/logger';
+
+type RefundPreview = Omit<UserCancellationPreviewResponse, 'canCancel' | 'selfServiceCutoffAt'>;
+
+/**
+ * Use case for previewing the refund of cancelling the user's own reservation
+ * Verifies ownership and reports whether the self-service cutoff has passed
+ * Without a cancellation policy the remaining balance is refunded in full, as CancelReservationUseCase does
+ */
+@injectable()
+export class GetUserCancellationPreviewUseCase implements IGetUserCancellationPreviewUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(USE_CASE_TOKENS.PreviewReservationCancellationUseCase)
+    private readonly previewReservationCancellationUseCase: IPreviewReservationCancellationUseCase,
+    @inject(REPOSITORY_TOKENS.IReservationItineraryRepository)
+    private readonly itineraryRepository: IReservationItineraryRepository,
+    @inject(REPOSITORY_TOKENS.IPaymentRepository as never)
+    private readonly paymentRepository: IPaymentRepository
+  ) {}
+
+  async execute(reservationId: string, userId: string): Promise<UserCancellationPreviewResponse> {
+    // Input validation
+    if (!reservationId || typeof reservationId !== 'string' || reservationId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_RESERVATION_ID', 400);
+    }
+
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_USER_ID', 400);
+    }
+
+    const reservation = await this.reservationRepository.findById(reservationId);
+
+    // Don't reveal reservations owned by other users
+    if (!reservation || reservation.userId !== userId) {
+      throw new AppError('Reservation not found', 'RESERVATION_NOT_FOUND', 404);
+    }
+
+    const now = new Date();
+    let preview: RefundPreview;
+    try {
+      preview = await this.previewReservationCancellationUseCase.execute(reservationId, now);
+    } catch (previewError) {
+      if (!(previewError instanceof AppError) || previewError.errorCode !== 'CANCELLATION_POLICY_NOT_FOUND') {
+        throw previewError;
+      }
+      // No policy has ever been configured: the cancellation refunds the remaining balance in full
+      preview = await this.previewFullRefund(reservation, now);
+    }
+
+    const selfServiceCutoffAt = preview.departureAt
+      ? new Date(preview.departureAt.getTime() - RESERVATION_CANCELLATION_CONFIG.SELF_SERVICE_CUTOFF_MS)
+      : null;
+    const canCancel =
+      !reservation.startedAt && (!selfServiceCutoffAt || now.getTime() < selfServiceCutoffAt.getTime());
+
+    logger.info(
+      `User cancellation preview for reservation ${reservationId} by user ${userId}: canCancel=${canCancel}, refund=${preview.totalRefund}`
+    );
+
+    return {
+      ...preview,
+      canCancel,
+      selfServiceCutoffAt,
+    };
+  }
+
+  /**
+   * Previews the refund of a cancellation without a policy
+   * Mirrors CancelReservationUseCase: what is left of the trip payments is refunded, charges are not
+   */
+  private async previewFullRefund(reservation: Reservation, now: Date): Promise<RefundPreview> {
+    const [payments, stops] = await Promise.all([
+      findTripPayments(reservation, this.paymentRepository),
+      this.itineraryRepository.findByReservationIdOrdered(reservation.reservationId),
+    ]);
+
+    const currency = normalizeCurrency(payments[0]?.currency || reservation.originalPricing?.currency);
+    const paidAmount = roundCurrencyAmount(
+      payments.reduce((sum, payment) => sum + payment.amount, 0),
+      currency
+    );
+    const alreadyRefundedAmount = reservation.refundedAmount || 0;
+    const refundAmount = Math.max(0, roundCurrencyAmount(paidAmount - alreadyRefundedAmount, currency));
+    const departureAt = stops.length > 0 ? deriveTripWindow(stops).tripStartAt : null;
+
+    return {
+      reservationId: reservation.reservationId,
+      currency,
+      departureAt,
+      cancellationPolicyId: null,
+      cancellationPolicyVersion: null,
+      hoursBeforeDeparture: departureAt
+        ? Math.round(((departureAt.getTime() - now.getTime()) / (60 * 60 * 1000)) * 100) / 100
+        : null,
+      appliedTier: null,
+      refundPercentage: 100,
+      paidAmount,
+      fareAmount: paidAmount,
+      nonRefundableDeposit: 0,
+      fareRefund: refundAmount,
+      amenitiesAmount: 0,
+      amenitiesRefund: 0,
+      alreadyRefundedAmount,
+      refundAmount,
+      chargeRefunds: [],
+      chargesRefundTotal: 0,
+      totalRefund: refundAmount,
+    };
+  }
+}
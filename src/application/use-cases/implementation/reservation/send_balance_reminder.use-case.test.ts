@@ -0,0 +1,112 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { SendBalanceReminderUseCase } from './send_balance_reminder.use-case';
+import { MockReservationRepository } from '../../../../shared/test/mocks/repositories/reservation_repository.mock';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import {
+  createCancelledReservationFixture,
+  createConfirmedReservationFixture,
+} from '../../../../shared/test/fixtures/reservation.fixture';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { IPaymentSchedule } from '../../../../domain/entities/reservation.entity';
+import { NotificationType } from '../../../../shared/constants';
+import { EmailType } from '../../../../shared/types/email.types';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('SendBalanceReminderUseCase', () => {
+  let useCase: SendBalanceReminderUseCase;
+  let mockReservationRepository: MockReservationRepository;
+  let mockUserRepository: MockUserRepository;
+  let sendEmail: ReturnType<typeof vi.fn>;
+  let sendNotification: ReturnType<typeof vi.fn>;
+
+  const balanceDueAt = new Date('2030-03-01T00:00:00Z');
+  const paymentSchedule = (balanceStatus: 'pending' | 'paid'): IPaymentSchedule => ({
+    totalAmount: 1000,
+    currency: 'USD',
+    depositPercentage: 30,
+    installments: [
+      { kind: 'deposit', amount: 300, dueAt: new Date(), status: 'paid', paymentId: 'payment-deposit' },
+      { kind: 'balance', amount: 700, dueAt: balanceDueAt, status: balanceStatus },
+    ],
+  });
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockReservationRepository = new MockReservationRepository();
+    mockUserRepository = new MockUserRepository();
+    sendEmail = vi.fn().mockResolvedValue(undefined);
+    sendNotification = vi.fn().mockResolvedValue(undefined);
+
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, mockReservationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(SERVICE_TOKENS.IEmailService, { sendEmail });
+    container.registerInstance(SERVICE_TOKENS.INotificationService, { sendNotification });
+
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({
+        reservationId: 'reservation-123',
+        userId: 'user-123',
+        paymentSchedule: paymentSchedule('pending'),
+      })
+    );
+    mockUserRepository.findById.mockResolvedValue(
+      createUserFixture({ userId: 'user-123', email: 'customer@example.com' })
+    );
+
+    useCase = container.resolve(SendBalanceReminderUseCase);
+  });
+
+  it('should email a payment link for the balance and notify the customer', async () => {
+    await expect(useCase.execute('reservation-123')).resolves.toBe(true);
+
+    expect(sendEmail).toHaveBeenCalledWith(
+      EmailType.PAYMENT_REQUIRED,
+      expect.objectContaining({
+        email: 'customer@example.com',
+        amount: 700,
+        currency: 'USD',
+        chargeType: 'balance_due',
+        dueDate: balanceDueAt,
+        paymentLink: expect.stringContaining('/reservations/reservation-123/balance/pay'),
+      })
+    );
+    expect(sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({
+        userId: 'user-123',
+        type: NotificationType.RESERVATION_BALANCE_DUE,
+        data: expect.objectContaining({ reservationId: 'reservation-123', amount: 700 }),
+      })
+    );
+  });
+
+  it('should skip reservations whose balance is already paid', async () => {
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({ reservationId: 'reservation-123', paymentSchedule: paymentSchedule('paid') })
+    );
+
+    await expect(useCase.execute('reservation-123')).resolves.toBe(false);
+    expect(sendEmail).not.toHaveBeenCalled();
+    expect(sendNotification).not.toHaveBeenCalled();
+  });
+
+  it('should skip cancelled reservations', async () => {
+    mockReservationRepository.findById.mockResolvedValue(
+      createCancelledReservationFixture({ reservationId: 'reservation-123', paymentSchedule: paymentSchedule('pending') })
+    );
+
+    await expect(useCase.execute('reservation-123')).resolves.toBe(false);
+    expect(sendEmail).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,93 @@
+import { injectable, inject } from 'tsyringe';
+import { ISendBalanceReminderUseCase } from '../../interface/reservation/send_balance_reminder_use_case.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IEmailService } from '../../../../domain/services/email_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { EmailType, PaymentRequiredEmailData } from '../../../../shared/types/email.types';
+import { FRONTEND_CONFIG } from '../../../../shared/config';
+import { NotificationType } from '../../../../shared/constants';
+import { formatCurrency } from '../../../../shared/utils/currency.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for reminding a customer that the balance of their deposit booking is due
+ * Sends a payment required email with a link to pay and an in-app notification
+ */
+@injectable()
+export class SendBalanceReminderUseCase implements ISendBalanceReminderUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService
+  ) {}
+
+  async execute(reservationId: string): Promise<boolean> {
+    const reservation = await this.reservationRepository.findById(reservationId);
+    if (!reservation) {
+      logger.warn(`Reservation not found for balance reminder: ${reservationId}`);
+      return false;
+    }
+
+    // Idempotent: nothing to remind about once the balance is paid or the reservation is closed
+    const balance = reservation.getOutstandingInstallment();
+    if (!balance || balance.status !== 'pending' || !reservation.canBeModified() || !reservation.paymentSchedule) {
+      logger.info(`Reservation ${reservationId} has no pending balance, skipping reminder`);
+      return false;
+    }
+
+    const { currency, totalAmount } = reservation.paymentSchedule;
+    const amountLabel = formatCurrency(balance.amount, currency);
+    const dueDateLabel = balance.dueAt.toDateString();
+
+    const user = await this.userRepository.findById(reservation.userId);
+    if (user) {
+      const emailData: PaymentRequiredEmailData = {
+        email: user.email,
+        fullName: user.fullName,
+        reservationNumber: reservation.reservationNumber,
+        chargeDescription: `Remaining balance of the ${formatCurrency(totalAmount, currency)} trip price`,
+        amount: balance.amount,
+        currency,
+        chargeType: 'balance_due',
+        tripName: reservation.tripName,
+        tripType: reservation.tripType,
+        paymentLink: `${FRONTEND_CONFIG.URL}/reservations/${reservationId}/balance/pay`,
+        viewReservationLink: `${FRONTEND_CONFIG.URL}/reservations/${reservationId}`,
+        dueDate: balance.dueAt,
+        message: `The balance for your booking is due on ${dueDateLabel}. Please complete the payment to keep your reservation.`,
+      };
+
+      // Email failures are retried by the queue
+      await this.emailService.sendEmail(EmailType.PAYMENT_REQUIRED, emailData);
+      logger.info(`Balance reminder email sent to ${user.email} for reservation ${reservationId}`);
+    }
+
+    try {
+      await this.notificationService.sendNotification({
+        userId: reservation.userId,
+        type: NotificationType.RESERVATION_BALANCE_DUE,
+        title: 'Balance Due',
+        message: `The balance of ${amountLabel} for "${reservation.tripName || 'your trip'}" is due on ${dueDateLabel}.`,
+        data: {
+          reservationId,
+          amount: balance.amount,
+          currency,
+          dueAt: balance.dueAt,
+        },
+      });
+    } catch (notificationError) {
+      logger.error(
+        `Failed to send balance reminder notification for reservation ${reservationId}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+    }
+
+    return true;
+  }
+}
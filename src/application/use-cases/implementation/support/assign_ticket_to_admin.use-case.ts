@@ -4,13 +4,14 @@ import { IQuoteRepository } from '../../../../domain/repositories/quote_reposito
 import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { Ticket } from '../../../../domain/entities/ticket.entity';
-import { UserRole, ERROR_MESSAGES, ERROR_CODES, TicketStatus, NotificationType, ActorType, LinkedEntityType } from '../../../../shared/constants';
+import { UserRole, ERROR_MESSAGES, ERROR_CODES, TicketStatus, NotificationType, ActorType, LinkedEntityType, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { logger } from '../../../../shared/logger';
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
 import { GetTicketByIdResponse } from '../../../dtos/ticket.dto';
 import { IAssignTicketToAdminUseCase, AssignTicketToAdminRequest } from '../../interface/support/assign_ticket_to_admin_use_case.interface';
 import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for assigning ticket to admin
@@ -29,6 +30,8 @@ export class AssignTicketToAdminUseCase implements IAssignTicketToAdminUseCase {
     private readonly quoteRepository: IQuoteRepository,
     @inject(REPOSITORY_TOKENS.IReservationRepository)
     private readonly reservationRepository: IReservationRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(
@@ -98,6 +101,14 @@ export class AssignTicketToAdminUseCase implements IAssignTicketToAdminUseCase {
       throw new AppError('Ticket not found', 'TICKET_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.SUPPORT_TICKET_ASSIGN,
+      targetType: AuditTargetType.SUPPORT_TICKET,
+      targetId: ticketId,
+      before: ticket,
+      after: updatedTicket,
+    });
+
     logger.info(`Ticket assigned to admin: ${ticketId} -> ${request.adminId} by admin: ${requesterId}`);
 
     // Ticket assigned to admin notification  
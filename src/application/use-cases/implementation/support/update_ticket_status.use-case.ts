@@ -4,13 +4,14 @@ import { IQuoteRepository } from '../../../../domain/repositories/quote_reposito
 import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
 import { Ticket } from '../../../../domain/entities/ticket.entity';
-import { TicketStatus, UserRole, ERROR_MESSAGES, ERROR_CODES, NotificationType, ActorType, LinkedEntityType } from '../../../../shared/constants';
+import { TicketStatus, UserRole, ERROR_MESSAGES, ERROR_CODES, NotificationType, ActorType, LinkedEntityType, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { logger } from '../../../../shared/logger';
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
 import { GetTicketByIdResponse } from '../../../dtos/ticket.dto';
 import { IUpdateTicketStatusUseCase, UpdateTicketStatusRequest } from '../../interface/support/update_ticket_status_use_case.interface';
 import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating ticket status
@@ -29,6 +30,8 @@ export class UpdateTicketStatusUseCase implements IUpdateTicketStatusUseCase {
     private readonly quoteRepository: IQuoteRepository,
     @inject(REPOSITORY_TOKENS.IReservationRepository)
     private readonly reservationRepository: IReservationRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(
@@ -83,6 +86,14 @@ export class UpdateTicketStatusUseCase implements IUpdateTicketStatusUseCase {
       throw new AppError('Ticket not found', 'TICKET_NOT_FOUND', 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.SUPPORT_TICKET_STATUS_CHANGE,
+      targetType: AuditTargetType.SUPPORT_TICKET,
+      targetId: ticketId,
+      before: ticket,
+      after: updatedTicket,
+    });
+
     logger.info(`Ticket status updated: ${ticketId} from ${ticket.status} to ${request.status} by admin: ${requesterId}`);
 
     // Send notification to user if status changed to RESOLVED or REJECTED
@@ -0,0 +1,59 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { ChangeUserRoleUseCase } from './change_user_role.use-case';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { AdminRole, ERROR_CODES, Permission, UserRole } from '../../../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('ChangeUserRoleUseCase', () => {
+  let useCase: ChangeUserRoleUseCase;
+  let mockUserRepository: MockUserRepository;
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockUserRepository = new MockUserRepository();
+    mockUserRepository.findById.mockResolvedValue(createUserFixture({ userId: 'user-1' }));
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(SERVICE_TOKENS.IAuditLogService, { record: vi.fn().mockResolvedValue(undefined) });
+
+    useCase = container.resolve(ChangeUserRoleUseCase);
+  });
+
+  it('should promote a user to a staff role with its permissions', async () => {
+    mockUserRepository.updateUserRole.mockResolvedValue(
+      createUserFixture({ userId: 'user-1', role: UserRole.ADMIN, adminRole: AdminRole.FINANCE })
+    );
+
+    const response = await useCase.execute('user-1', { role: UserRole.ADMIN, adminRole: AdminRole.FINANCE });
+
+    expect(mockUserRepository.updateUserRole).toHaveBeenCalledWith('user-1', UserRole.ADMIN, AdminRole.FINANCE);
+    expect(response.user.adminRole).toBe(AdminRole.FINANCE);
+    expect(response.user.permissions).toContain(Permission.REFUND_CREATE);
+    expect(response.user.permissions).not.toContain(Permission.USER_ROLE_ASSIGN);
+  });
+
+  it('should require a staff role when promoting to admin', async () => {
+    await expect(useCase.execute('user-1', { role: UserRole.ADMIN })).rejects.toMatchObject({
+      errorCode: ERROR_CODES.INVALID_ADMIN_ROLE,
+    });
+    expect(mockUserRepository.updateUserRole).not.toHaveBeenCalled();
+  });
+
+  it('should reject a staff role for regular users', async () => {
+    await expect(
+      useCase.execute('user-1', { role: UserRole.USER, adminRole: AdminRole.SUPPORT })
+    ).rejects.toMatchObject({ errorCode: ERROR_CODES.INVALID_ADMIN_ROLE });
+  });
+});
@@ -3,16 +3,17 @@ import { IChangeUserRoleUseCase } from '../../interface/user/change_user_role_us
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
 import { ChangeUserRoleRequest, ChangeUserRoleResponse } from '../../../dtos/user.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES, UserRole } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, UserRole, AdminRole, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { UserMapper } from '../../../mapper/user.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for changing user role (admin)
- * Updates user role (USER, ADMIN)
+ * Updates user role (USER, ADMIN) and the staff role that decides an admin's permissions
  * Prevents demoting admin users to regular users
  */
 @injectable()
@@ -20,6 +21,8 @@ export class ChangeUserRoleUseCase implements IChangeUserRoleUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IUserRepository)
     private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(userId: string, request: ChangeUserRoleRequest): Promise<ChangeUserRoleResponse> {
@@ -37,6 +40,15 @@ export class ChangeUserRoleUseCase implements IChangeUserRoleUseCase {
       throw new AppError(ERROR_MESSAGES.INVALID_USER_ROLE, ERROR_CODES.INVALID_USER_ROLE, 400);
     }
 
+    // Validate staff role: required for admins, not allowed for regular users
+    if (request.role === UserRole.ADMIN) {
+      if (!request.adminRole || !Object.values(AdminRole).includes(request.adminRole)) {
+        throw new AppError(ERROR_MESSAGES.ADMIN_ROLE_REQUIRED, ERROR_CODES.INVALID_ADMIN_ROLE, 400);
+      }
+    } else if (request.adminRole) {
+      throw new AppError(ERROR_MESSAGES.ADMIN_ROLE_NOT_ALLOWED, ERROR_CODES.INVALID_ADMIN_ROLE, 400);
+    }
+
     // Find existing user
     const existingUser = await this.userRepository.findById(userId);
     
@@ -55,7 +67,15 @@ export class ChangeUserRoleUseCase implements IChangeUserRoleUseCase {
     const oldRole = existingUser.role;
 
     // Update role
-    const updatedUser = await this.userRepository.updateUserRole(userId, request.role);
+    const updatedUser = await this.userRepository.updateUserRole(userId, request.role, request.adminRole);
+
+    await this.auditLogService.record({
+      action: AuditAction.USER_ROLE_CHANGE,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      before: existingUser,
+      after: updatedUser,
+    });
 
     // Emit socket event for admin dashboard
     try {
@@ -66,7 +86,9 @@ export class ChangeUserRoleUseCase implements IChangeUserRoleUseCase {
       logger.error('Error emitting user role changed event:', error);
     }
 
-    logger.info(`Admin changed user role: ${updatedUser.email} to ${request.role} (${userId})`);
+    logger.info(
+      `Admin changed user role: ${updatedUser.email} to ${request.role}${request.adminRole ? `/${request.adminRole}` : ''} (${userId})`
+    );
 
     return UserMapper.toChangeUserRoleResponse(updatedUser);
   }
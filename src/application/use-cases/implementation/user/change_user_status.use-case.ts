@@ -3,24 +3,31 @@ import { IChangeUserStatusUseCase } from '../../interface/user/change_user_statu
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
 import { ChangeUserStatusRequest, ChangeUserStatusResponse } from '../../../dtos/user.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES, UserStatus } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, UserStatus, AuditAction, AuditTargetType, SessionRevokeReason } from '../../../../shared/constants';
 import { UserMapper } from '../../../mapper/user.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { ISocketEventService } from '../../../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+import { ISessionService } from '../../../../domain/services/session_service.interface';
 
 /**
  * Use case for changing user status (admin)
  * Updates user status (ACTIVE, BLOCKED, DELETED)
  * Admin cannot set status to INACTIVE (only users can self-delete to INACTIVE)
  * Only allows changing status for regular users (not admins)
+ * Blocking or deleting a user ends all their sessions right away
  */
 @injectable()
 export class ChangeUserStatusUseCase implements IChangeUserStatusUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IUserRepository)
     private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
   ) {}
 
   async execute(userId: string, request: ChangeUserStatusRequest): Promise<ChangeUserStatusResponse> {
@@ -66,6 +73,20 @@ export class ChangeUserStatusUseCase implements IChangeUserStatusUseCase {
     // Update status
     const updatedUser = await this.userRepository.updateUserStatus(userId, request.status);
 
+    // Log the user out everywhere; tokens they already hold stop working immediately
+    const sessionsRevoked = request.status === UserStatus.ACTIVE
+      ? 0
+      : await this.sessionService.revokeAllSessions(userId, SessionRevokeReason.ACCOUNT_BLOCKED);
+
+    await this.auditLogService.record({
+      action: AuditAction.USER_STATUS_CHANGE,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      before: existingUser,
+      after: updatedUser,
+      metadata: sessionsRevoked > 0 ? { sessionsRevoked } : undefined,
+    });
+
     // Emit socket event for admin dashboard
     try {
       const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
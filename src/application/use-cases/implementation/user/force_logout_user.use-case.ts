@@ -0,0 +1,52 @@
+import { injectable, inject } from 'tsyringe';
+import { IForceLogoutUserUseCase } from '../../interface/user/force_logout_user_use_case.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { ISessionService } from '../../../../domain/services/session_service.interface';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+import { RevokeSessionsResponse } from '../../../dtos/session.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType, SessionRevokeReason } from '../../../../shared/constants';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for logging a user out on all devices (admin)
+ * E.g. when their account may be compromised; unlike blocking, they can log in again
+ */
+@injectable()
+export class ForceLogoutUserUseCase implements IForceLogoutUserUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
+  ) {}
+
+  async execute(userId: string): Promise<RevokeSessionsResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      logger.warn(`Admin attempt to log out non-existent user: ${userId}`);
+      throw new AppError(ERROR_MESSAGES.USER_NOT_FOUND, ERROR_CODES.USER_NOT_FOUND, 404);
+    }
+
+    const revokedCount = await this.sessionService.revokeAllSessions(userId, SessionRevokeReason.REVOKED_BY_ADMIN);
+
+    await this.auditLogService.record({
+      action: AuditAction.USER_SESSIONS_REVOKE,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      metadata: { revokedCount },
+    });
+
+    logger.info(`Admin logged out user everywhere: ${user.email} (${userId}), ${revokedCount} sessions`);
+
+    return { revokedCount };
+  }
+}
@@ -0,0 +1,33 @@
+import { injectable, inject } from 'tsyringe';
+import { IListUserSessionsUseCase } from '../../interface/user/list_user_sessions_use_case.interface';
+import { ISessionRepository } from '../../../../domain/repositories/session_repository.interface';
+import { SessionListResponse } from '../../../dtos/session.dto';
+import { SessionMapper } from '../../../mapper/session.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for listing the devices a user is logged in on
+ * Used by users for their own sessions and by admins for any user's
+ */
+@injectable()
+export class ListUserSessionsUseCase implements IListUserSessionsUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ISessionRepository)
+    private readonly sessionRepository: ISessionRepository,
+  ) {}
+
+  async execute(userId: string, currentSessionId?: string): Promise<SessionListResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    const sessions = await this.sessionRepository.findActiveByUserId(userId);
+
+    return {
+      sessions: sessions.map((session) => SessionMapper.toSessionResponse(session, currentSessionId)),
+    };
+  }
+}
@@ -0,0 +1,32 @@
+import { injectable, inject } from 'tsyringe';
+import { IRevokeAllUserSessionsUseCase } from '../../interface/user/revoke_all_user_sessions_use_case.interface';
+import { ISessionService } from '../../../../domain/services/session_service.interface';
+import { RevokeSessionsResponse } from '../../../dtos/session.dto';
+import { SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, SessionRevokeReason } from '../../../../shared/constants';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for logging a user out everywhere, including the device making the request
+ */
+@injectable()
+export class RevokeAllUserSessionsUseCase implements IRevokeAllUserSessionsUseCase {
+  constructor(
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
+  ) {}
+
+  async execute(userId: string): Promise<RevokeSessionsResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    const revokedCount = await this.sessionService.revokeAllSessions(userId, SessionRevokeReason.LOGOUT_ALL);
+
+    logger.info(`User ${userId} logged out everywhere (${revokedCount} sessions)`);
+
+    return { revokedCount };
+  }
+}
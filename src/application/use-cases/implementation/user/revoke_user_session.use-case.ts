@@ -0,0 +1,45 @@
+import { injectable, inject } from 'tsyringe';
+import { IRevokeUserSessionUseCase } from '../../interface/user/revoke_user_session_use_case.interface';
+import { ISessionRepository } from '../../../../domain/repositories/session_repository.interface';
+import { ISessionService } from '../../../../domain/services/session_service.interface';
+import { RevokeSessionsResponse } from '../../../dtos/session.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, SessionRevokeReason } from '../../../../shared/constants';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for logging a user out on one of their devices
+ */
+@injectable()
+export class RevokeUserSessionUseCase implements IRevokeUserSessionUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ISessionRepository)
+    private readonly sessionRepository: ISessionRepository,
+    @inject(SERVICE_TOKENS.ISessionService)
+    private readonly sessionService: ISessionService,
+  ) {}
+
+  async execute(userId: string, sessionId: string): Promise<RevokeSessionsResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    if (!sessionId || typeof sessionId !== 'string' || sessionId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_REQUEST, 400);
+    }
+
+    // Other users' sessions are reported as missing rather than forbidden so their ids cannot be probed
+    const session = await this.sessionRepository.findById(sessionId);
+    if (!session || session.userId !== userId || !session.isActive()) {
+      throw new AppError(ERROR_MESSAGES.SESSION_NOT_FOUND, ERROR_CODES.SESSION_NOT_FOUND, 404);
+    }
+
+    await this.sessionService.revokeSession(session, SessionRevokeReason.REVOKED_BY_USER);
+
+    logger.info(`User ${userId} ended session ${sessionId}`);
+
+    return { revokedCount: 1 };
+  }
+}
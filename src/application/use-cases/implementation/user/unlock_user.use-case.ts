@@ -0,0 +1,52 @@
+import { injectable, inject } from 'tsyringe';
+import { IUnlockUserUseCase } from '../../interface/user/unlock_user_use_case.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { IAccountLockoutService } from '../../../../domain/services/account_lockout_service.interface';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+import { UnlockUserResponse } from '../../../dtos/user.dto';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { logger } from '../../../../shared/logger';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for unlocking a user account (admin)
+ * Lifts a lockout from repeated failed logins and forgets the failures that led to it
+ */
+@injectable()
+export class UnlockUserUseCase implements IUnlockUserUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.IAccountLockoutService)
+    private readonly accountLockoutService: IAccountLockoutService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
+  ) {}
+
+  async execute(userId: string): Promise<UnlockUserResponse> {
+    // Input validation
+    if (!userId || typeof userId !== 'string' || userId.trim().length === 0) {
+      throw new AppError(ERROR_MESSAGES.BAD_REQUEST, ERROR_CODES.INVALID_USER_ID, 400);
+    }
+
+    const user = await this.userRepository.findById(userId);
+    if (!user) {
+      logger.warn(`Admin attempt to unlock non-existent user: ${userId}`);
+      throw new AppError(ERROR_MESSAGES.USER_NOT_FOUND, ERROR_CODES.USER_NOT_FOUND, 404);
+    }
+
+    const wasLocked = await this.accountLockoutService.unlock('user', user.email);
+
+    await this.auditLogService.record({
+      action: AuditAction.USER_UNLOCK,
+      targetType: AuditTargetType.USER,
+      targetId: userId,
+      metadata: { wasLocked },
+    });
+
+    logger.info(`Admin unlocked user: ${user.email} (${userId})${wasLocked ? '' : ' - was not locked'}`);
+
+    return { userId, email: user.email, wasLocked };
+  }
+}
@@ -14,7 +14,7 @@ import { container } from 'tsyringe';
 
 /**
  * Use case for updating user profile
- * Updates user profile fields (name, phone, profile picture)
+ * Updates user profile fields (name, phone, profile picture, quote follow-up email opt-out)
  */
 @injectable()
 export class UpdateUserProfileUseCase implements IUpdateUserProfileUseCase {
@@ -43,7 +43,7 @@ export class UpdateUserProfileUseCase implements IUpdateUserProfileUseCase {
     }
 
     // Build update object (only include defined fields)
-    const updates: { fullName?: string; phoneNumber?: string; profilePicture?: string } = {};
+    const updates: { fullName?: string; phoneNumber?: string; profilePicture?: string; quoteFollowUpEmails?: boolean } = {};
     
     if (request.fullName !== undefined) {
       updates.fullName = request.fullName;
@@ -99,6 +99,9 @@ export class UpdateUserProfileUseCase implements IUpdateUserProfileUseCase {
 
       updates.profilePicture = request.profilePicture;
     }
+    if (request.quoteFollowUpEmails !== undefined) {
+      updates.quoteFollowUpEmails = request.quoteFollowUpEmails;
+    }
 
     // Check if there are any updates to make
     if (Object.keys(updates).length === 0) {
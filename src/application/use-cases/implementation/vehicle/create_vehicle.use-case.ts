@@ -6,13 +6,14 @@ import { IAmenityRepository } from '../../../../domain/repositories/amenity_repo
 import { ICloudinaryService } from '../../../../domain/services/cloudinary_service.interface';
 import { CreateVehicleRequest, CreateVehicleResponse } from '../../../dtos/vehicle.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { VehicleMapper } from '../../../mapper/vehicle.mapper';
 import { Vehicle } from '../../../../domain/entities/vehicle.entity';
 import { VehicleStatus } from '../../../../shared/constants';
 import { AppError } from '../../../../shared/utils/app_error.util';
 import { logger } from '../../../../shared/logger';
 import { randomUUID } from 'crypto';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for creating vehicle
@@ -29,6 +30,8 @@ export class CreateVehicleUseCase implements ICreateVehicleUseCase {
     private readonly amenityRepository: IAmenityRepository,
     @inject(SERVICE_TOKENS.ICloudinaryService)
     private readonly cloudinaryService: ICloudinaryService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(request: CreateVehicleRequest): Promise<CreateVehicleResponse> {
@@ -98,6 +101,13 @@ export class CreateVehicleUseCase implements ICreateVehicleUseCase {
       // Save to repository
       await this.vehicleRepository.create(vehicle);
 
+      await this.auditLogService.record({
+        action: AuditAction.VEHICLE_CREATE,
+        targetType: AuditTargetType.VEHICLE,
+        targetId: vehicleId,
+        after: vehicle,
+      });
+
       logger.info(`Vehicle created: ${vehicle.plateNumber} (${vehicleId})`);
 
       return VehicleMapper.toCreateVehicleResponse(vehicle, vehicleType);
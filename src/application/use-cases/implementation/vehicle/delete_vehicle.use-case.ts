@@ -3,10 +3,11 @@ import { IDeleteVehicleUseCase } from '../../interface/vehicle/delete_vehicle_us
 import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
 import { ICloudinaryService } from '../../../../domain/services/cloudinary_service.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { VehicleStatus } from '../../../../shared/constants';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for deleting vehicle
@@ -19,6 +20,8 @@ export class DeleteVehicleUseCase implements IDeleteVehicleUseCase {
     private readonly vehicleRepository: IVehicleRepository,
     @inject(SERVICE_TOKENS.ICloudinaryService)
     private readonly cloudinaryService: ICloudinaryService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(vehicleId: string): Promise<void> {
@@ -55,6 +58,13 @@ export class DeleteVehicleUseCase implements IDeleteVehicleUseCase {
     // Delete vehicle
     await this.vehicleRepository.deleteById(vehicleId);
 
+    await this.auditLogService.record({
+      action: AuditAction.VEHICLE_DELETE,
+      targetType: AuditTargetType.VEHICLE,
+      targetId: vehicleId,
+      before: vehicle,
+    });
+
     logger.info(`Vehicle deleted: ${vehicle.plateNumber} (${vehicleId})`);
   }
 }
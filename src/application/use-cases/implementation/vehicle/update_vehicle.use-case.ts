@@ -6,11 +6,12 @@ import { IAmenityRepository } from '../../../../domain/repositories/amenity_repo
 import { ICloudinaryService } from '../../../../domain/services/cloudinary_service.interface';
 import { UpdateVehicleRequest, UpdateVehicleResponse } from '../../../dtos/vehicle.dto';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { VehicleMapper } from '../../../mapper/vehicle.mapper';
 import { Vehicle } from '../../../../domain/entities/vehicle.entity';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating vehicle
@@ -27,6 +28,8 @@ export class UpdateVehicleUseCase implements IUpdateVehicleUseCase {
     private readonly amenityRepository: IAmenityRepository,
     @inject(SERVICE_TOKENS.ICloudinaryService)
     private readonly cloudinaryService: ICloudinaryService,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(vehicleId: string, request: UpdateVehicleRequest): Promise<UpdateVehicleResponse> {
@@ -150,6 +153,14 @@ export class UpdateVehicleUseCase implements IUpdateVehicleUseCase {
         }
       }
 
+      await this.auditLogService.record({
+        action: AuditAction.VEHICLE_UPDATE,
+        targetType: AuditTargetType.VEHICLE,
+        targetId: vehicleId,
+        before: existingVehicle,
+        after: updatedVehicle,
+      });
+
       logger.info(`Vehicle updated: ${updatedVehicle.plateNumber} (${vehicleId})`);
 
       return VehicleMapper.toUpdateVehicleResponse(updatedVehicle, finalVehicleType);
@@ -3,11 +3,12 @@ import { IUpdateVehicleStatusUseCase } from '../../interface/vehicle/update_vehi
 import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
 import { IVehicleTypeRepository } from '../../../../domain/repositories/vehicle_type_repository.interface';
 import { UpdateVehicleStatusRequest, UpdateVehicleStatusResponse } from '../../../dtos/vehicle.dto';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { VehicleMapper } from '../../../mapper/vehicle.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for updating vehicle status
@@ -20,6 +21,8 @@ export class UpdateVehicleStatusUseCase implements IUpdateVehicleStatusUseCase {
     private readonly vehicleRepository: IVehicleRepository,
     @inject(REPOSITORY_TOKENS.IVehicleTypeRepository)
     private readonly vehicleTypeRepository: IVehicleTypeRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(vehicleId: string, request: UpdateVehicleStatusRequest): Promise<UpdateVehicleStatusResponse> {
@@ -56,6 +59,14 @@ export class UpdateVehicleStatusUseCase implements IUpdateVehicleStatusUseCase {
       throw new AppError(ERROR_MESSAGES.VEHICLE_TYPE_NOT_FOUND, ERROR_CODES.VEHICLE_TYPE_NOT_FOUND, 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.VEHICLE_STATUS_CHANGE,
+      targetType: AuditTargetType.VEHICLE,
+      targetId: vehicleId,
+      before: existingVehicle,
+      after: updatedVehicle,
+    });
+
     logger.info(`Vehicle status updated: ${updatedVehicle.plateNumber} to ${request.status} (${vehicleId})`);
 
     return VehicleMapper.toUpdateVehicleStatusResponse(updatedVehicle, vehicleType);
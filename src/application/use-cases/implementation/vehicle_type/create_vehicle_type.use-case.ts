@@ -2,13 +2,14 @@ import { injectable, inject } from 'tsyringe';
 import { ICreateVehicleTypeUseCase } from '../../interface/vehicle_type/create_vehicle_type_use_case.interface';
 import { IVehicleTypeRepository } from '../../../../domain/repositories/vehicle_type_repository.interface';
 import { CreateVehicleTypeRequest, CreateVehicleTypeResponse } from '../../../dtos/vehicle.dto';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { VehicleMapper } from '../../../mapper/vehicle.mapper';
 import { VehicleType } from '../../../../domain/entities/vehicle_type.entity';
 import { logger } from '../../../../shared/logger';
 import { randomUUID } from 'crypto';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for creating vehicle type
@@ -19,6 +20,8 @@ export class CreateVehicleTypeUseCase implements ICreateVehicleTypeUseCase {
   constructor(
     @inject(REPOSITORY_TOKENS.IVehicleTypeRepository)
     private readonly vehicleTypeRepository: IVehicleTypeRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(request: CreateVehicleTypeRequest): Promise<CreateVehicleTypeResponse> {
@@ -55,6 +58,13 @@ export class CreateVehicleTypeUseCase implements ICreateVehicleTypeUseCase {
     // Save to repository
     await this.vehicleTypeRepository.create(vehicleType);
 
+    await this.auditLogService.record({
+      action: AuditAction.VEHICLE_TYPE_CREATE,
+      targetType: AuditTargetType.VEHICLE_TYPE,
+      targetId: vehicleTypeId,
+      after: vehicleType,
+    });
+
     logger.info(`Vehicle type created: ${vehicleType.name} (${vehicleTypeId})`);
 
     return VehicleMapper.toCreateVehicleTypeResponse(vehicleType);
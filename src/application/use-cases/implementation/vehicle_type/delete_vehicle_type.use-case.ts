@@ -2,10 +2,11 @@ import { injectable, inject } from 'tsyringe';
 import { IDeleteVehicleTypeUseCase } from '../../interface/vehicle_type/delete_vehicle_type_use_case.interface';
 import { IVehicleTypeRepository } from '../../../../domain/repositories/vehicle_type_repository.interface';
 import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 /**
  * Use case for deleting vehicle type
@@ -18,6 +19,8 @@ export class DeleteVehicleTypeUseCase implements IDeleteVehicleTypeUseCase {
     private readonly vehicleTypeRepository: IVehicleTypeRepository,
     @inject(REPOSITORY_TOKENS.IVehicleRepository)
     private readonly vehicleRepository: IVehicleRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(vehicleTypeId: string): Promise<void> {
@@ -45,6 +48,13 @@ export class DeleteVehicleTypeUseCase implements IDeleteVehicleTypeUseCase {
     // Delete vehicle type
     await this.vehicleTypeRepository.deleteById(vehicleTypeId);
 
+    await this.auditLogService.record({
+      action: AuditAction.VEHICLE_TYPE_DELETE,
+      targetType: AuditTargetType.VEHICLE_TYPE,
+      targetId: vehicleTypeId,
+      before: vehicleType,
+    });
+
     logger.info(`Vehicle type deleted: ${vehicleType.name} (${vehicleTypeId})`);
   }
 }
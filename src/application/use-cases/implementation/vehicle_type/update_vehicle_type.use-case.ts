@@ -3,11 +3,12 @@ import { IUpdateVehicleTypeUseCase } from '../../interface/vehicle_type/update_v
 import { IVehicleTypeRepository } from '../../../../domain/repositories/vehicle_type_repository.interface';
 import { IVehicleRepository } from '../../../../domain/repositories/vehicle_repository.interface';
 import { UpdateVehicleTypeRequest, VehicleTypeResponse } from '../../../dtos/vehicle.dto';
-import { REPOSITORY_TOKENS } from '../../../di/tokens';
-import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
 import { VehicleMapper } from '../../../mapper/vehicle.mapper';
 import { logger } from '../../../../shared/logger';
 import { AppError } from '../../../../shared/utils/app_error.util';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
 
 type VehicleTypeUpdateData = {
   name?: string;
@@ -25,6 +26,8 @@ export class UpdateVehicleTypeUseCase implements IUpdateVehicleTypeUseCase {
     private readonly vehicleTypeRepository: IVehicleTypeRepository,
     @inject(REPOSITORY_TOKENS.IVehicleRepository)
     private readonly vehicleRepository: IVehicleRepository,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService,
   ) {}
 
   async execute(vehicleTypeId: string, request: UpdateVehicleTypeRequest): Promise<VehicleTypeResponse> {
@@ -72,6 +75,14 @@ export class UpdateVehicleTypeUseCase implements IUpdateVehicleTypeUseCase {
       throw new AppError(ERROR_MESSAGES.VEHICLE_TYPE_NOT_FOUND, ERROR_CODES.VEHICLE_TYPE_NOT_FOUND, 404);
     }
 
+    await this.auditLogService.record({
+      action: AuditAction.VEHICLE_TYPE_UPDATE,
+      targetType: AuditTargetType.VEHICLE_TYPE,
+      targetId: vehicleTypeId,
+      before: existingVehicleType,
+      after: updatedVehicleType,
+    });
+
     logger.info(`Vehicle type updated: ${updatedVehicleType.name} (${vehicleTypeId})`);
 
     // Get vehicles count for this type
@@ -0,0 +1,28 @@
+import { inject, injectable } from 'tsyringe';
+import { IGetWebhookEventUseCase } from '../../interface/webhook/get_webhook_event_use_case.interface';
+import { IWebhookEventRepository } from '../../../../domain/repositories/webhook_event_repository.interface';
+import { WebhookEventDetailResponse } from '../../../dtos/webhook_event.dto';
+import { WebhookEventMapper } from '../../../mapper/webhook_event.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+
+/**
+ * Use case for getting a stored webhook event with its payload
+ */
+@injectable()
+export class GetWebhookEventUseCase implements IGetWebhookEventUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebhookEventRepository)
+    private readonly webhookEventRepository: IWebhookEventRepository
+  ) {}
+
+  async execute(eventId: string): Promise<WebhookEventDetailResponse> {
+    const event = await this.webhookEventRepository.findById(eventId);
+    if (!event) {
+      throw new AppError(ERROR_MESSAGES.WEBHOOK_EVENT_NOT_FOUND, ERROR_CODES.WEBHOOK_EVENT_NOT_FOUND, 404);
+    }
+
+    return WebhookEventMapper.toWebhookEventDetailResponse(event);
+  }
+}
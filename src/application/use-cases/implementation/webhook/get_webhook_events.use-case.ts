@@ -0,0 +1,60 @@
+import { inject, injectable } from 'tsyringe';
+import { IGetWebhookEventsUseCase } from '../../interface/webhook/get_webhook_events_use_case.interface';
+import { IWebhookEventRepository } from '../../../../domain/repositories/webhook_event_repository.interface';
+import { WebhookEventStatus } from '../../../../domain/entities/webhook_event.entity';
+import { WebhookEventListResponse } from '../../../dtos/webhook_event.dto';
+import { WebhookEventMapper } from '../../../mapper/webhook_event.mapper';
+import { REPOSITORY_TOKENS } from '../../../di/tokens';
+import { logger } from '../../../../shared/logger';
+
+const WEBHOOK_EVENT_STATUSES: readonly WebhookEventStatus[] = ['received', 'processing', 'processed', 'failed'];
+
+/**
+ * Use case for listing stored webhook events, newest first
+ */
+@injectable()
+export class GetWebhookEventsUseCase implements IGetWebhookEventsUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebhookEventRepository)
+    private readonly webhookEventRepository: IWebhookEventRepository
+  ) {}
+
+  async execute(
+    page: number = 1,
+    limit: number = 20,
+    status?: WebhookEventStatus,
+    type?: string
+  ): Promise<WebhookEventListResponse> {
+    // Normalize pagination parameters
+    const normalizedPage = Math.max(1, Math.floor(page) || 1);
+    const normalizedLimit = Math.max(1, Math.min(100, Math.floor(limit) || 20));
+
+    // Unknown statuses are ignored rather than returning nothing
+    const normalizedStatus = status && WEBHOOK_EVENT_STATUSES.includes(status) ? status : undefined;
+    const normalizedType = type && type.trim().length > 0 ? type.trim() : undefined;
+
+    const events = await this.webhookEventRepository.findAll({
+      status: normalizedStatus,
+      type: normalizedType,
+    });
+
+    const total = events.length;
+    const totalPages = Math.ceil(total / normalizedLimit);
+    const startIndex = (normalizedPage - 1) * normalizedLimit;
+    const paginatedEvents = events.slice(startIndex, startIndex + normalizedLimit);
+
+    logger.info(
+      `Admin webhook events list: status=${normalizedStatus || 'all'}, type=${normalizedType || 'all'}, total=${total}`
+    );
+
+    return {
+      events: paginatedEvents.map((event) => WebhookEventMapper.toWebhookEventResponse(event)),
+      pagination: {
+        page: normalizedPage,
+        limit: normalizedLimit,
+        total,
+        totalPages,
+      },
+    };
+  }
+}
@@ -0,0 +1,343 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { HandleChargeWebhookUseCase } from './handle_charge_webhook.use-case';
+import { MockPaymentRepository } from '../../../../shared/test/mocks/repositories/payment_repository.mock';
+import { MockReservationRepository } from '../../../../shared/test/mocks/repositories/reservation_repository.mock';
+import { MockReservationModificationRepository } from '../../../../shared/test/mocks/repositories/reservation_modification_repository.mock';
+import { MockUserRepository } from '../../../../shared/test/mocks/repositories/user_repository.mock';
+import { MockPaymentGateway } from '../../../../shared/test/mocks/services/payment_gateway.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { createPaymentFixture, createSucceededPaymentFixture } from '../../../../shared/test/fixtures/payment.fixture';
+import {
+  createConfirmedReservationFixture,
+  createRefundedReservationFixture,
+} from '../../../../shared/test/fixtures/reservation.fixture';
+import { createUserFixture } from '../../../../shared/test/fixtures/user.fixture';
+import { NotificationType, ReservationStatus, UserRole } from '../../../../shared/constants';
+import { PaymentStatus } from '../../../../domain/entities/payment.entity';
+import { ReservationModification } from '../../../../domain/entities/reservation_modification.entity';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('HandleChargeWebhookUseCase', () => {
+  let useCase: HandleChargeWebhookUseCase;
+  let mockPaymentRepository: MockPaymentRepository;
+  let mockReservationRepository: MockReservationRepository;
+  let mockModificationRepository: MockReservationModificationRepository;
+  let mockUserRepository: MockUserRepository;
+  let mockPaymentGateway: MockPaymentGateway;
+  let mockNotificationService: {
+    sendNotification: ReturnType<typeof vi.fn>;
+  };
+  let mockReservationInvoiceService: {
+    issueCreditNote: ReturnType<typeof vi.fn>;
+  };
+
+  const payment = createSucceededPaymentFixture({
+    paymentId: 'payment-123',
+    paymentIntentId: 'pi_test_123',
+    amount: 10000,
+    currency: 'INR',
+  });
+  const reservation = createConfirmedReservationFixture({
+    reservationId: 'reservation-123',
+    paymentId: 'payment-123',
+    refundedAmount: 1000,
+    refundStatus: 'partial',
+  });
+
+  const chargeRefundedEvent = (amountRefunded: number, refunded = false) => ({
+    type: 'charge.refunded',
+    data: {
+      object: {
+        id: 'ch_test_123',
+        payment_intent: 'pi_test_123',
+        amount: 1000000,
+        amount_refunded: amountRefunded,
+        currency: 'inr',
+        refunded,
+      },
+    },
+  });
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockPaymentRepository = new MockPaymentRepository();
+    mockReservationRepository = new MockReservationRepository();
+    mockModificationRepository = new MockReservationModificationRepository();
+    mockUserRepository = new MockUserRepository();
+    mockPaymentGateway = new MockPaymentGateway();
+    mockNotificationService = {
+      sendNotification: vi.fn().mockResolvedValue(undefined),
+    };
+    mockReservationInvoiceService = {
+      issueCreditNote: vi.fn().mockResolvedValue(undefined),
+    };
+
+    container.registerInstance(REPOSITORY_TOKENS.IPaymentRepository, mockPaymentRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IReservationRepository, mockReservationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IReservationModificationRepository, mockModificationRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IUserRepository, mockUserRepository);
+    container.registerInstance(SERVICE_TOKENS.IPaymentGateway, mockPaymentGateway);
+    container.registerInstance(SERVICE_TOKENS.INotificationService, mockNotificationService);
+    container.registerInstance(SERVICE_TOKENS.IReservationInvoiceService, mockReservationInvoiceService);
+
+    mockPaymentRepository.findByPaymentIntentId.mockResolvedValue(payment);
+    mockReservationRepository.findByPaymentId.mockResolvedValue(reservation);
+    mockUserRepository.findByRole.mockResolvedValue([createUserFixture({ userId: 'admin-1', role: UserRole.ADMIN })]);
+
+    useCase = container.resolve(HandleChargeWebhookUseCase);
+  });
+
+  it('should not count refunds the app issued itself', async () => {
+    mockPaymentGateway.listRefunds.mockResolvedValue([
+      {
+        id: 're_app',
+        paymentIntentId: 'pi_test_123',
+        amount: 1000,
+        currency: 'inr',
+        status: 'succeeded',
+        metadata: { reservationId: 'reservation-123', refundedBy: 'admin-1' },
+      },
+    ]);
+
+    await useCase.execute(chargeRefundedEvent(100000));
+
+    expect(mockReservationRepository.updateById).not.toHaveBeenCalled();
+    expect(mockModificationRepository.create).not.toHaveBeenCalled();
+    expect(mockNotificationService.sendNotification).not.toHaveBeenCalled();
+    expect(mockReservationInvoiceService.issueCreditNote).not.toHaveBeenCalled();
+  });
+
+  it('should add refunds issued in the gateway dashboard to the reservation once', async () => {
+    mockPaymentGateway.listRefunds.mockResolvedValue([
+      {
+        id: 're_app',
+        paymentIntentId: 'pi_test_123',
+        amount: 1000,
+        currency: 'inr',
+        status: 'succeeded',
+        metadata: { refundedBy: 'admin-1' },
+      },
+      { id: 're_dashboard', paymentIntentId: 'pi_test_123', amount: 9000, currency: 'inr', status: 'succeeded' },
+    ]);
+
+    await useCase.execute(chargeRefundedEvent(1000000, true));
+
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({
+        refundedAmount: 10000,
+        refundStatus: 'full',
+        status: ReservationStatus.REFUNDED,
+      })
+    );
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledWith('payment-123', {
+      status: PaymentStatus.REFUNDED,
+    });
+    expect(mockModificationRepository.create).toHaveBeenCalledTimes(1);
+    expect(mockModificationRepository.create.mock.calls[0][0].metadata).toMatchObject({
+      refundId: 're_dashboard',
+      refundAmount: 9000,
+    });
+    expect(mockNotificationService.sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ userId: 'admin-1', type: NotificationType.PAYMENT_REFUND_RECONCILED })
+    );
+    expect(mockReservationInvoiceService.issueCreditNote).toHaveBeenCalledTimes(1);
+    expect(mockReservationInvoiceService.issueCreditNote).toHaveBeenCalledWith(
+      reservation,
+      payment,
+      expect.objectContaining({ refundId: 're_dashboard', amount: 9000 })
+    );
+
+    // A later event for the same charge finds the refund already recorded
+    mockModificationRepository.findByReservationId.mockResolvedValue([
+      mockModificationRepository.create.mock.calls[0][0],
+    ]);
+    mockReservationRepository.updateById.mockClear();
+
+    await useCase.execute(chargeRefundedEvent(1000000, true));
+
+    expect(mockReservationRepository.updateById).not.toHaveBeenCalled();
+  });
+
+  it('should add dashboard refunds of a balance payment to the reservation without marking it refunded', async () => {
+    const depositPayment = createSucceededPaymentFixture({ paymentId: 'payment-deposit', amount: 3000, currency: 'INR' });
+    const balancePayment = createSucceededPaymentFixture({
+      paymentId: 'payment-balance',
+      paymentIntentId: 'pi_test_123',
+      amount: 7000,
+      currency: 'INR',
+      metadata: { reservationId: 'reservation-456', paymentType: 'balance' },
+    });
+    mockPaymentRepository.findByPaymentIntentId.mockResolvedValue(balancePayment);
+    mockPaymentRepository.findById.mockResolvedValue(depositPayment);
+    mockReservationRepository.findByPaymentId.mockResolvedValue(null);
+    mockReservationRepository.findById.mockResolvedValue(
+      createConfirmedReservationFixture({
+        reservationId: 'reservation-456',
+        paymentId: 'payment-deposit',
+        paymentSchedule: {
+          totalAmount: 10000,
+          currency: 'INR',
+          depositPercentage: 30,
+          installments: [
+            { kind: 'deposit', amount: 3000, dueAt: new Date(), status: 'paid', paymentId: 'payment-deposit' },
+            { kind: 'balance', amount: 7000, dueAt: new Date(), status: 'paid', paymentId: 'payment-balance' },
+          ],
+        },
+      })
+    );
+    mockPaymentGateway.listRefunds.mockResolvedValue([
+      { id: 're_dashboard', paymentIntentId: 'pi_test_123', amount: 7000, currency: 'inr', status: 'succeeded' },
+    ]);
+
+    await useCase.execute(chargeRefundedEvent(700000, true));
+
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledWith('payment-balance', {
+      status: PaymentStatus.REFUNDED,
+    });
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-456',
+      expect.objectContaining({ refundedAmount: 7000, refundStatus: 'partial', status: ReservationStatus.CONFIRMED })
+    );
+  });
+
+  it('should count a lost chargeback as refunded and record the dispute on the payment', async () => {
+    await useCase.execute({
+      type: 'charge.dispute.closed',
+      data: {
+        object: {
+          id: 'dp_test_123',
+          charge: 'ch_test_123',
+          payment_intent: 'pi_test_123',
+          amount: 500000,
+          currency: 'inr',
+          reason: 'fraudulent',
+          status: 'lost',
+        },
+      },
+    });
+
+    expect(mockPaymentRepository.updateById).toHaveBeenCalledWith(
+      'payment-123',
+      expect.objectContaining({
+        dispute: expect.objectContaining({ disputeId: 'dp_test_123', amount: 5000, status: 'lost' }),
+      })
+    );
+    expect(mockReservationRepository.updateById).toHaveBeenCalledWith(
+      'reservation-123',
+      expect.objectContaining({ refundedAmount: 6000, refundStatus: 'partial' })
+    );
+    expect(mockNotificationService.sendNotification).toHaveBeenCalledWith(
+      expect.objectContaining({ type: NotificationType.PAYMENT_DISPUTE_CLOSED, title: 'Chargeback lost' })
+    );
+    expect(mockReservationInvoiceService.issueCreditNote).toHaveBeenCalledWith(
+      reservation,
+      payment,
+      expect.objectContaining({ refundId: 'dp_test_123', amount: 5000 })
+    );
+  });
+
+  describe('failed refunds', () => {
+    const refundUpdatedEvent = (status: string) => ({
+      type: 'charge.refund.updated',
+      data: {
+        object: {
+          id: 're_app',
+          charge: 'ch_test_123',
+          payment_intent: 'pi_test_123',
+          amount: 1000000,
+          currency: 'inr',
+          status,
+          metadata: { refundedBy: 'admin-1' },
+        },
+      },
+    });
+    const cancellation = new ReservationModification(
+      'modification-1',
+      'reservation-123',
+      'admin-1',
+      'status_change',
+      'Reservation cancelled and refunded: Trip postponed. Refund: 10000 INR',
+      ReservationStatus.CONFIRMED,
+      ReservationStatus.REFUNDED,
+      { refundId: 're_app', refundIds: ['re_app'], refundAmount: 10000 }
+    );
+
+    beforeEach(() => {
+      mockPaymentRepository.findByPaymentIntentId.mockResolvedValue(
+        createPaymentFixture({
+          paymentId: 'payment-123',
+          paymentIntentId: 'pi_test_123',
+          amount: 10000,
+          currency: 'INR',
+          status: PaymentStatus.REFUNDED,
+        })
+      );
+      mockReservationRepository.findByPaymentId.mockResolvedValue(
+        createRefundedReservationFixture({
+          reservationId: 'reservation-123',
+          paymentId: 'payment-123',
+          cancelledAt: new Date('2030-01-01T00:00:00Z'),
+          refundedAmount: 10000,
+          refundStatus: 'full',
+        })
+      );
+      mockModificationRepository.findByReservationId.mockResolvedValue([cancellation]);
+    });
+
+    it('should undo a recorded refund that failed in the gateway', async () => {
+      await useCase.execute(refundUpdatedEvent('failed'));
+
+      expect(mockReservationRepository.updateById).toHaveBeenCalledWith('reservation-123', {
+        refundedAmount: 0,
+        refundStatus: 'none',
+        status: ReservationStatus.CANCELLED,
+      });
+      expect(mockPaymentRepository.updateById).toHaveBeenCalledWith('payment-123', {
+        status: PaymentStatus.SUCCEEDED,
+      });
+      expect(mockModificationRepository.create.mock.calls[0][0].metadata).toMatchObject({
+        reversedRefundId: 're_app',
+        refundAmount: 10000,
+        refundStatus: 'failed',
+      });
+      expect(mockNotificationService.sendNotification).toHaveBeenCalledWith(
+        expect.objectContaining({ userId: 'admin-1', type: NotificationType.PAYMENT_REFUND_REVERSED })
+      );
+
+      // A repeated event finds the refund already reversed
+      mockModificationRepository.findByReservationId.mockResolvedValue([
+        cancellation,
+        mockModificationRepository.create.mock.calls[0][0],
+      ]);
+      mockReservationRepository.updateById.mockClear();
+
+      await useCase.execute(refundUpdatedEvent('failed'));
+
+      expect(mockReservationRepository.updateById).not.toHaveBeenCalled();
+    });
+
+    it('should ignore refunds that were never recorded or still go through', async () => {
+      mockModificationRepository.findByReservationId.mockResolvedValue([]);
+      await useCase.execute(refundUpdatedEvent('canceled'));
+
+      mockModificationRepository.findByReservationId.mockResolvedValue([cancellation]);
+      await useCase.execute(refundUpdatedEvent('succeeded'));
+
+      expect(mockReservationRepository.updateById).not.toHaveBeenCalled();
+      expect(mockPaymentRepository.updateById).not.toHaveBeenCalled();
+      expect(mockModificationRepository.create).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,586 @@
+import { inject, injectable } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { IHandleChargeWebhookUseCase } from '../../interface/webhook/handle_charge_webhook_use_case.interface';
+import { IPaymentRepository } from '../../../../domain/repositories/payment_repository.interface';
+import { IReservationRepository } from '../../../../domain/repositories/reservation_repository.interface';
+import { IReservationModificationRepository } from '../../../../domain/repositories/reservation_modification_repository.interface';
+import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
+import { INotificationService } from '../../../../domain/services/notification_service.interface';
+import {
+  ICreditNoteRefund,
+  IReservationInvoiceService,
+} from '../../../../domain/services/reservation_invoice_service.interface';
+import {
+  IGatewayRefund,
+  IPaymentGateway,
+  IWebhookChargeObject,
+  IWebhookDisputeObject,
+  IWebhookRefundObject,
+} from '../../../../domain/services/payment_gateway.interface';
+import { Payment, PaymentStatus } from '../../../../domain/entities/payment.entity';
+import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { ReservationModification } from '../../../../domain/entities/reservation_modification.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { NotificationType, ReservationStatus, UserRole } from '../../../../shared/constants';
+import { roundCurrencyAmount, toMajorUnits } from '../../../../shared/utils/currency.util';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Recorded as the author of modifications the gateway caused
+ */
+const PAYMENT_GATEWAY_ACTOR = 'payment_gateway';
+
+/**
+ * Refund states that move money back to the customer
+ */
+const COUNTED_REFUND_STATUSES: ReadonlyArray<IGatewayRefund['status']> = ['pending', 'succeeded'];
+
+/**
+ * Refund states in which the money never reaches the customer
+ */
+const REVERSED_REFUND_STATUSES: ReadonlyArray<IGatewayRefund['status']> = ['failed', 'canceled'];
+
+/**
+ * Use case for handling charge refund and dispute webhooks
+ * Reconciles refunds issued in the gateway dashboard, refunds that later failed and chargebacks
+ * into the payment and reservation records, writes a reservation modification and notifies admins
+ */
+@injectable()
+export class HandleChargeWebhookUseCase implements IHandleChargeWebhookUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IPaymentRepository as never)
+    private readonly paymentRepository: IPaymentRepository,
+    @inject(REPOSITORY_TOKENS.IReservationRepository)
+    private readonly reservationRepository: IReservationRepository,
+    @inject(REPOSITORY_TOKENS.IReservationModificationRepository)
+    private readonly modificationRepository: IReservationModificationRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(SERVICE_TOKENS.INotificationService)
+    private readonly notificationService: INotificationService,
+    @inject(SERVICE_TOKENS.IPaymentGateway)
+    private readonly paymentGateway: IPaymentGateway,
+    @inject(SERVICE_TOKENS.IReservationInvoiceService)
+    private readonly reservationInvoiceService: IReservationInvoiceService
+  ) {}
+
+  async execute(event: { type: string; data: { object: unknown } }): Promise<void> {
+    logger.info(`Processing charge webhook event: ${event.type}`);
+
+    switch (event.type) {
+      case 'charge.refunded':
+        await this.handleChargeRefunded(event.data.object as IWebhookChargeObject);
+        break;
+
+      case 'charge.refund.updated':
+        await this.handleRefundUpdated(event.data.object as IWebhookRefundObject);
+        break;
+
+      case 'charge.dispute.created':
+        await this.handleDisputeCreated(event.data.object as IWebhookDisputeObject);
+        break;
+
+      case 'charge.dispute.closed':
+        await this.handleDisputeClosed(event.data.object as IWebhookDisputeObject);
+        break;
+
+      default:
+        logger.info(`Unhandled charge webhook event type: ${event.type}`);
+    }
+  }
+
+  private async handleChargeRefunded(charge: IWebhookChargeObject): Promise<void> {
+    const payment = await this.findPayment(charge.payment_intent, charge.id);
+    if (!payment?.paymentIntentId) {
+      return;
+    }
+
+    const reservation = await this.findReservation(payment);
+
+    // Refunds the app issued carry refundedBy and are recorded by the use case that issued them,
+    // which may still be running when this event arrives
+    const recordedRefundIds = reservation
+      ? await this.getRecordedRefundIds(reservation.reservationId)
+      : new Set<string>();
+    const refunds = await this.paymentGateway.listRefunds(payment.paymentIntentId);
+    const externalRefunds = refunds.filter(
+      (refund) =>
+        !refund.metadata?.refundedBy &&
+        COUNTED_REFUND_STATUSES.includes(refund.status) &&
+        !recordedRefundIds.has(refund.id)
+    );
+
+    // The charge says whether the gateway considers the payment fully refunded
+    if (charge.refunded && !payment.isRefunded()) {
+      await this.paymentRepository.updateById(payment.paymentId, {
+        status: PaymentStatus.REFUNDED,
+      } as Partial<Payment>);
+    }
+
+    if (externalRefunds.length === 0) {
+      logger.info(`No refunds issued outside the app for payment ${payment.paymentId}`);
+      return;
+    }
+
+    const externalAmount = roundCurrencyAmount(
+      externalRefunds.reduce((sum, refund) => sum + refund.amount, 0),
+      payment.currency
+    );
+    logger.info(
+      `Reconciling ${externalRefunds.length} external refund(s) of ${externalAmount} ${payment.currency} for payment ${payment.paymentId}`
+    );
+
+    if (!reservation) {
+      logger.warn(`No reservation found for refunded payment ${payment.paymentId}, only the payment was updated`);
+      await this.notifyAdmins(
+        NotificationType.PAYMENT_REFUND_RECONCILED,
+        'Refund issued outside the app',
+        `A refund of ${externalAmount} ${payment.currency} was issued in the payment gateway for payment ${payment.paymentId}, which has no reservation.`,
+        { paymentId: payment.paymentId, refundIds: externalRefunds.map((refund) => refund.id) }
+      );
+      return;
+    }
+
+    let refundedAmount = reservation.refundedAmount || 0;
+    for (const refund of externalRefunds) {
+      const previousAmount = refundedAmount;
+      if (this.isReservationPayment(reservation, payment)) {
+        refundedAmount = roundCurrencyAmount(refundedAmount + refund.amount, payment.currency);
+      }
+
+      await this.modificationRepository.create(
+        new ReservationModification(
+          randomUUID(),
+          reservation.reservationId,
+          PAYMENT_GATEWAY_ACTOR,
+          'other',
+          `Refund issued outside the app: ${refund.amount} ${payment.currency}`,
+          previousAmount.toString(),
+          refundedAmount.toString(),
+          {
+            source: 'payment_gateway',
+            refundId: refund.id,
+            refundAmount: refund.amount,
+            paymentId: payment.paymentId,
+          }
+        )
+      );
+
+      await this.issueCreditNote(reservation, payment, {
+        refundId: refund.id,
+        amount: refund.amount,
+        reason: 'Refund issued in the payment gateway',
+      });
+    }
+
+    if (this.isReservationPayment(reservation, payment)) {
+      await this.applyRefundedAmount(reservation, payment, refundedAmount);
+    }
+
+    await this.notifyAdmins(
+      NotificationType.PAYMENT_REFUND_RECONCILED,
+      'Refund issued outside the app',
+      `A refund of ${externalAmount} ${payment.currency} was issued in the payment gateway for reservation ${reservation.reservationNumber}. The reservation has been updated.`,
+      {
+        reservationId: reservation.reservationId,
+        paymentId: payment.paymentId,
+        refundIds: externalRefunds.map((refund) => refund.id),
+        refundAmount: externalAmount,
+      }
+    );
+  }
+
+  private async handleRefundUpdated(refund: IWebhookRefundObject): Promise<void> {
+    if (!REVERSED_REFUND_STATUSES.includes(refund.status)) {
+      logger.info(`Refund ${refund.id} is ${refund.status}, nothing to reverse`);
+      return;
+    }
+
+    const payment = await this.findPayment(refund.payment_intent, refund.charge);
+    if (!payment) {
+      return;
+    }
+
+    const reservation = await this.findReservation(payment);
+    if (!reservation) {
+      logger.warn(`No reservation found for ${refund.status} refund ${refund.id} on payment ${payment.paymentId}`);
+      return;
+    }
+
+    const modifications = await this.modificationRepository.findByReservationId(reservation.reservationId);
+    if (modifications.some((modification) => modification.metadata?.reversedRefundId === refund.id)) {
+      logger.info(`Refund ${refund.id} is already reversed on reservation ${reservation.reservationId}`);
+      return;
+    }
+
+    // Only refunds that were counted need undoing; the one that issued it may still be running
+    if (!this.collectRefundIds(modifications).has(refund.id)) {
+      logger.info(`Refund ${refund.id} was never recorded on reservation ${reservation.reservationId}, nothing to reverse`);
+      return;
+    }
+
+    const amount = toMajorUnits(refund.amount, refund.currency);
+    const previousAmount = reservation.refundedAmount || 0;
+    const isReservationPayment = this.isReservationPayment(reservation, payment);
+    const refundedAmount = isReservationPayment
+      ? Math.max(0, roundCurrencyAmount(previousAmount - amount, payment.currency))
+      : previousAmount;
+
+    logger.warn(`Refund ${refund.id} of ${amount} ${payment.currency} on payment ${payment.paymentId} ${refund.status}, reversing it`);
+
+    if (isReservationPayment) {
+      // A cancelled reservation stays cancelled, it just no longer counts as refunded
+      const status =
+        reservation.status === ReservationStatus.REFUNDED
+          ? reservation.cancelledAt
+            ? ReservationStatus.CANCELLED
+            : ReservationStatus.CONFIRMED
+          : reservation.status;
+      await this.reservationRepository.updateById(reservation.reservationId, {
+        refundedAmount,
+        refundStatus: refundedAmount > 0 ? 'partial' : 'none',
+        status,
+      } as Partial<Reservation>);
+    }
+
+    // The money is still held on the payment
+    if (payment.isRefunded()) {
+      await this.paymentRepository.updateById(payment.paymentId, {
+        status: PaymentStatus.SUCCEEDED,
+      } as Partial<Payment>);
+    }
+
+    await this.modificationRepository.create(
+      new ReservationModification(
+        randomUUID(),
+        reservation.reservationId,
+        PAYMENT_GATEWAY_ACTOR,
+        'other',
+        `Refund ${refund.status} in the payment gateway: ${amount} ${payment.currency}`,
+        previousAmount.toString(),
+        refundedAmount.toString(),
+        {
+          source: 'payment_gateway',
+          reversedRefundId: refund.id,
+          refundAmount: amount,
+          refundStatus: refund.status,
+          paymentId: payment.paymentId,
+        }
+      )
+    );
+
+    await this.notifyAdmins(
+      NotificationType.PAYMENT_REFUND_REVERSED,
+      'Refund did not go through',
+      `The refund of ${amount} ${payment.currency} for reservation ${reservation.reservationNumber} ${refund.status} in the payment gateway. The reservation has been updated; the customer has not been refunded.`,
+      {
+        reservationId: reservation.reservationId,
+        paymentId: payment.paymentId,
+        refundId: refund.id,
+        refundAmount: amount,
+        status: refund.status,
+      }
+    );
+  }
+
+  private async handleDisputeCreated(dispute: IWebhookDisputeObject): Promise<void> {
+    const payment = await this.findPayment(dispute.payment_intent, dispute.charge);
+    if (!payment) {
+      return;
+    }
+
+    if (payment.dispute?.disputeId === dispute.id) {
+      logger.info(`Dispute ${dispute.id} is already recorded on payment ${payment.paymentId}`);
+      return;
+    }
+
+    const amount = toMajorUnits(dispute.amount, dispute.currency);
+    await this.paymentRepository.updateById(payment.paymentId, {
+      dispute: {
+        disputeId: dispute.id,
+        amount,
+        currency: payment.currency,
+        reason: dispute.reason,
+        status: dispute.status,
+        openedAt: new Date(),
+      },
+    } as Partial<Payment>);
+
+    logger.warn(`Dispute ${dispute.id} opened on payment ${payment.paymentId}: ${amount} ${payment.currency} (${dispute.reason})`);
+
+    const reservation = await this.findReservation(payment);
+    if (reservation) {
+      await this.modificationRepository.create(
+        new ReservationModification(
+          randomUUID(),
+          reservation.reservationId,
+          PAYMENT_GATEWAY_ACTOR,
+          'other',
+          `Chargeback opened: ${amount} ${payment.currency} (${dispute.reason})`,
+          undefined,
+          dispute.status,
+          {
+            source: 'payment_gateway',
+            disputeId: dispute.id,
+            disputeAmount: amount,
+            reason: dispute.reason,
+            paymentId: payment.paymentId,
+          }
+        )
+      );
+    }
+
+    await this.notifyAdmins(
+      NotificationType.PAYMENT_DISPUTE_OPENED,
+      'Chargeback opened',
+      `A chargeback of ${amount} ${payment.currency} was opened${reservation ? ` for reservation ${reservation.reservationNumber}` : ` on payment ${payment.paymentId}`} (${dispute.reason}). Respond in the payment gateway before the deadline.`,
+      {
+        reservationId: reservation?.reservationId,
+        paymentId: payment.paymentId,
+        disputeId: dispute.id,
+        amount,
+        reason: dispute.reason,
+      }
+    );
+  }
+
+  private async handleDisputeClosed(dispute: IWebhookDisputeObject): Promise<void> {
+    const payment = await this.findPayment(dispute.payment_intent, dispute.charge);
+    if (!payment) {
+      return;
+    }
+
+    if (payment.dispute?.disputeId === dispute.id && payment.dispute.closedAt) {
+      logger.info(`Dispute ${dispute.id} is already closed on payment ${payment.paymentId}`);
+      return;
+    }
+
+    const amount = toMajorUnits(dispute.amount, dispute.currency);
+    const closedAt = new Date();
+    await this.paymentRepository.updateById(payment.paymentId, {
+      dispute: {
+        disputeId: dispute.id,
+        amount,
+        currency: payment.currency,
+        reason: dispute.reason,
+        openedAt: payment.dispute?.disputeId === dispute.id ? payment.dispute.openedAt : closedAt,
+        status: dispute.status,
+        closedAt,
+      },
+    } as Partial<Payment>);
+
+    const lost = dispute.status === 'lost';
+    logger.warn(`Dispute ${dispute.id} on payment ${payment.paymentId} closed as ${dispute.status}`);
+
+    const reservation = await this.findReservation(payment);
+    if (reservation) {
+      // A lost chargeback returns the money to the cardholder just like a refund
+      const previousAmount = reservation.refundedAmount || 0;
+      const refundedAmount =
+        lost && this.isReservationPayment(reservation, payment)
+          ? roundCurrencyAmount(previousAmount + amount, payment.currency)
+          : previousAmount;
+
+      await this.modificationRepository.create(
+        new ReservationModification(
+          randomUUID(),
+          reservation.reservationId,
+          PAYMENT_GATEWAY_ACTOR,
+          'other',
+          `Chargeback ${lost ? 'lost' : 'closed'}: ${amount} ${payment.currency} (${dispute.status})`,
+          previousAmount.toString(),
+          refundedAmount.toString(),
+          {
+            source: 'payment_gateway',
+            disputeId: dispute.id,
+            disputeAmount: amount,
+            disputeStatus: dispute.status,
+            paymentId: payment.paymentId,
+          }
+        )
+      );
+
+      const isFullyRefunded =
+        refundedAmount !== previousAmount && (await this.applyRefundedAmount(reservation, payment, refundedAmount));
+
+      // The reservation may have been paid through other payments that still hold money
+      if (lost && !isFullyRefunded && amount >= payment.amount && !payment.isRefunded()) {
+        await this.paymentRepository.updateById(payment.paymentId, {
+          status: PaymentStatus.REFUNDED,
+        } as Partial<Payment>);
+      }
+
+      if (lost) {
+        await this.issueCreditNote(reservation, payment, {
+          refundId: dispute.id,
+          amount,
+          reason: `Chargeback lost (${dispute.reason})`,
+        });
+      }
+    }
+
+    await this.notifyAdmins(
+      NotificationType.PAYMENT_DISPUTE_CLOSED,
+      lost ? 'Chargeback lost' : 'Chargeback closed',
+      `The chargeback of ${amount} ${payment.currency}${reservation ? ` for reservation ${reservation.reservationNumber}` : ` on payment ${payment.paymentId}`} was closed as ${dispute.status}.`,
+      {
+        reservationId: reservation?.reservationId,
+        paymentId: payment.paymentId,
+        disputeId: dispute.id,
+        amount,
+        status: dispute.status,
+      }
+    );
+  }
+
+  /**
+   * Finds the payment an event refers to by its payment intent
+   */
+  private async findPayment(
+    paymentIntentId: string | null | undefined,
+    chargeId: string
+  ): Promise<Payment | null> {
+    if (!paymentIntentId) {
+      logger.warn(`Charge ${chargeId} has no payment intent, skipping`);
+      return null;
+    }
+
+    const payment = await this.paymentRepository.findByPaymentIntentId(paymentIntentId);
+    if (!payment) {
+      logger.warn(`Payment not found for payment intent: ${paymentIntentId}`);
+    }
+    return payment;
+  }
+
+  /**
+   * Finds the reservation a payment belongs to
+   * Additional charge payments point at their reservation through metadata
+   */
+  private async findReservation(payment: Payment): Promise<Reservation | null> {
+    const reservation = await this.reservationRepository.findByPaymentId(payment.paymentId);
+    if (reservation) {
+      return reservation;
+    }
+
+    const reservationId = payment.metadata?.reservationId;
+    return typeof reservationId === 'string' ? this.reservationRepository.findById(reservationId) : null;
+  }
+
+  /**
+   * Checks if the payment collected the trip price: the one the reservation was booked with,
+   * or a paid installment such as the balance of a deposit booking
+   * Reservation refund totals only cover those payments, charges are refunded separately
+   */
+  private isReservationPayment(reservation: Reservation, payment: Payment): boolean {
+    return reservation.getTripPaymentIds().includes(payment.paymentId);
+  }
+
+  /**
+   * Sums what was collected for the trip price across its payments
+   */
+  private async getTripPaidAmount(reservation: Reservation, payment: Payment): Promise<number> {
+    const payments = await Promise.all(
+      reservation
+        .getTripPaymentIds()
+        .map((paymentId) =>
+          paymentId === payment.paymentId ? Promise.resolve(payment) : this.paymentRepository.findById(paymentId)
+        )
+    );
+    return roundCurrencyAmount(
+      payments.reduce((sum, tripPayment) => sum + (tripPayment?.amount ?? 0), 0),
+      payment.currency
+    );
+  }
+
+  private async getRecordedRefundIds(reservationId: string): Promise<Set<string>> {
+    return this.collectRefundIds(await this.modificationRepository.findByReservationId(reservationId));
+  }
+
+  /**
+   * Collects the refunds recorded on modifications
+   * Cancellations record every refund they issued, one per payment
+   */
+  private collectRefundIds(modifications: ReservationModification[]): Set<string> {
+    return new Set(
+      modifications
+        .flatMap((modification) => {
+          const { refundId, refundIds, chargeRefundIds } = modification.metadata ?? {};
+          return [
+            refundId,
+            ...(Array.isArray(refundIds) ? (refundIds as unknown[]) : []),
+            ...(Array.isArray(chargeRefundIds) ? (chargeRefundIds as unknown[]) : []),
+          ];
+        })
+        .filter((refundId): refundId is string => typeof refundId === 'string')
+    );
+  }
+
+  /**
+   * Records the reservation's new refunded total
+   * Returns whether the whole trip price has now been refunded
+   */
+  private async applyRefundedAmount(
+    reservation: Reservation,
+    payment: Payment,
+    refundedAmount: number
+  ): Promise<boolean> {
+    const isFullyRefunded = refundedAmount >= (await this.getTripPaidAmount(reservation, payment));
+
+    await this.reservationRepository.updateById(reservation.reservationId, {
+      refundedAmount,
+      refundedAt: new Date(),
+      refundStatus: isFullyRefunded ? 'full' : 'partial',
+      status: isFullyRefunded ? ReservationStatus.REFUNDED : reservation.status,
+    } as Partial<Reservation>);
+
+    if (isFullyRefunded && !payment.isRefunded()) {
+      await this.paymentRepository.updateById(payment.paymentId, {
+        status: PaymentStatus.REFUNDED,
+      } as Partial<Payment>);
+    }
+    return isFullyRefunded;
+  }
+
+  /**
+   * Issues the credit note for money returned outside the app
+   * Reconciliation has already been recorded, so a failure is logged rather than thrown
+   */
+  private async issueCreditNote(
+    reservation: Reservation,
+    payment: Payment,
+    refund: ICreditNoteRefund
+  ): Promise<void> {
+    try {
+      await this.reservationInvoiceService.issueCreditNote(reservation, payment, refund);
+    } catch (creditNoteError) {
+      logger.error(
+        `Failed to issue credit note for ${refund.refundId} on reservation ${reservation.reservationId}: ${creditNoteError instanceof Error ? creditNoteError.message : 'Unknown error'}`
+      );
+    }
+  }
+
+  private async notifyAdmins(
+    type: NotificationType,
+    title: string,
+    message: string,
+    data: Record<string, unknown>
+  ): Promise<void> {
+    try {
+      const admins = await this.userRepository.findByRole(UserRole.ADMIN);
+      for (const admin of admins) {
+        await this.notificationService.sendNotification({
+          userId: admin.userId,
+          type,
+          title,
+          message,
+          data,
+        });
+      }
+    } catch (notificationError) {
+      // Don't fail reconciliation if notifications fail
+      logger.error(
+        `Failed to notify admins about ${type}: ${notificationError instanceof Error ? notificationError.message : 'Unknown error'}`
+      );
+    }
+  }
+}
@@ -0,0 +1,109 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { container } from 'tsyringe';
+import { ProcessWebhookEventUseCase } from './process_webhook_event.use-case';
+import { MockWebhookEventRepository } from '../../../../shared/test/mocks/repositories/webhook_event_repository.mock';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { clearContainer } from '../../../../shared/test/helpers/test_setup';
+import { WebhookEvent } from '../../../../domain/entities/webhook_event.entity';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('ProcessWebhookEventUseCase', () => {
+  let useCase: ProcessWebhookEventUseCase;
+  let mockWebhookEventRepository: MockWebhookEventRepository;
+  let mockHandlePaymentWebhookUseCase: {
+    execute: ReturnType<typeof vi.fn>;
+  };
+  let mockHandleChargeWebhookUseCase: {
+    execute: ReturnType<typeof vi.fn>;
+  };
+
+  const eventId = 'evt_test_123';
+  const payload = {
+    id: eventId,
+    type: 'payment_intent.succeeded',
+    data: { object: { id: 'pi_test_123', status: 'succeeded' } },
+  };
+  const storedEvent = new WebhookEvent(
+    eventId,
+    'stripe',
+    payload.type,
+    JSON.stringify(payload),
+    'processing',
+    1,
+    new Date(),
+    new Date(),
+    new Date(),
+    new Date()
+  );
+
+  beforeEach(() => {
+    clearContainer();
+
+    mockWebhookEventRepository = new MockWebhookEventRepository();
+    mockHandlePaymentWebhookUseCase = {
+      execute: vi.fn().mockResolvedValue(undefined),
+    };
+    mockHandleChargeWebhookUseCase = {
+      execute: vi.fn().mockResolvedValue(undefined),
+    };
+
+    container.registerInstance(REPOSITORY_TOKENS.IWebhookEventRepository, mockWebhookEventRepository);
+    container.registerInstance(
+      USE_CASE_TOKENS.HandlePaymentWebhookUseCase as never,
+      mockHandlePaymentWebhookUseCase
+    );
+    container.registerInstance(USE_CASE_TOKENS.HandleChargeWebhookUseCase, mockHandleChargeWebhookUseCase);
+
+    useCase = container.resolve(ProcessWebhookEventUseCase);
+  });
+
+  it('should run the handler with the stored payload and mark the event processed', async () => {
+    mockWebhookEventRepository.findById.mockResolvedValue(storedEvent);
+
+    await useCase.execute(eventId);
+
+    expect(mockWebhookEventRepository.claimForProcessing).toHaveBeenCalledWith(
+      eventId,
+      ['received', 'failed'],
+      expect.any(Date)
+    );
+    expect(mockHandlePaymentWebhookUseCase.execute).toHaveBeenCalledWith({
+      type: payload.type,
+      data: payload.data,
+    });
+    expect(mockHandleChargeWebhookUseCase.execute).not.toHaveBeenCalled();
+    expect(mockWebhookEventRepository.markProcessed).toHaveBeenCalledWith(eventId, expect.any(Date));
+  });
+
+  it('should skip events that cannot be claimed', async () => {
+    mockWebhookEventRepository.claimForProcessing.mockResolvedValue(false);
+
+    const result = await useCase.execute(eventId);
+
+    expect(result).toBeNull();
+    expect(mockHandlePaymentWebhookUseCase.execute).not.toHaveBeenCalled();
+  });
+
+  it('should mark the event failed and rethrow when the handler fails', async () => {
+    mockWebhookEventRepository.findById.mockResolvedValue(storedEvent);
+    mockHandlePaymentWebhookUseCase.execute.mockRejectedValue(new Error('Database unavailable'));
+
+    await expect(useCase.execute(eventId, { replay: true })).rejects.toThrow('Database unavailable');
+
+    expect(mockWebhookEventRepository.claimForProcessing).toHaveBeenCalledWith(
+      eventId,
+      ['received', 'failed', 'processed'],
+      expect.any(Date)
+    );
+    expect(mockWebhookEventRepository.markFailed).toHaveBeenCalledWith(eventId, 'Database unavailable');
+    expect(mockWebhookEventRepository.markProcessed).not.toHaveBeenCalled();
+  });
+});
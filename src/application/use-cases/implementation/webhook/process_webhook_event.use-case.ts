@@ -0,0 +1,65 @@
+import { inject, injectable } from 'tsyringe';
+import { IProcessWebhookEventUseCase } from '../../interface/webhook/process_webhook_event_use_case.interface';
+import { IHandlePaymentWebhookUseCase } from '../../interface/quote/handle_payment_webhook_use_case.interface';
+import { IHandleChargeWebhookUseCase } from '../../interface/webhook/handle_charge_webhook_use_case.interface';
+import { IWebhookEventRepository } from '../../../../domain/repositories/webhook_event_repository.interface';
+import { IPaymentWebhookEvent } from '../../../../domain/services/payment_gateway.interface';
+import { WebhookEvent, WebhookEventStatus } from '../../../../domain/entities/webhook_event.entity';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for processing a stored webhook event
+ * Claims the event so concurrent deliveries, retries and replays never run the handler twice at once
+ */
+@injectable()
+export class ProcessWebhookEventUseCase implements IProcessWebhookEventUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebhookEventRepository)
+    private readonly webhookEventRepository: IWebhookEventRepository,
+    @inject(USE_CASE_TOKENS.HandlePaymentWebhookUseCase as never)
+    private readonly handlePaymentWebhookUseCase: IHandlePaymentWebhookUseCase,
+    @inject(USE_CASE_TOKENS.HandleChargeWebhookUseCase)
+    private readonly handleChargeWebhookUseCase: IHandleChargeWebhookUseCase
+  ) {}
+
+  async execute(eventId: string, options: { replay?: boolean } = {}): Promise<WebhookEvent | null> {
+    const claimableStatuses: WebhookEventStatus[] = options.replay
+      ? ['received', 'failed', 'processed']
+      : ['received', 'failed'];
+
+    const claimed = await this.webhookEventRepository.claimForProcessing(eventId, claimableStatuses, new Date());
+    if (!claimed) {
+      logger.info(`Webhook event ${eventId} is already processed or in progress, skipping`);
+      return null;
+    }
+
+    try {
+      const event = await this.webhookEventRepository.findById(eventId);
+      if (!event) {
+        return null;
+      }
+
+      // The stored payload is the gateway's event as it arrived
+      const parsed = JSON.parse(event.payload) as IPaymentWebhookEvent;
+      const handler = parsed.type.startsWith('charge.')
+        ? this.handleChargeWebhookUseCase
+        : this.handlePaymentWebhookUseCase;
+      await handler.execute({
+        type: parsed.type,
+        data: parsed.data,
+      });
+
+      await this.webhookEventRepository.markProcessed(eventId, new Date());
+      logger.info(`Webhook event ${eventId} (${event.type}) processed on attempt ${event.attempts}`);
+    } catch (error) {
+      await this.webhookEventRepository.markFailed(
+        eventId,
+        error instanceof Error ? error.message : 'Unknown error'
+      );
+      throw error;
+    }
+
+    return this.webhookEventRepository.findById(eventId);
+  }
+}
@@ -0,0 +1,60 @@
+import { inject, injectable } from 'tsyringe';
+import { IRecordWebhookEventUseCase } from '../../interface/webhook/record_webhook_event_use_case.interface';
+import { IProcessWebhookEventUseCase } from '../../interface/webhook/process_webhook_event_use_case.interface';
+import { IWebhookEventRepository } from '../../../../domain/repositories/webhook_event_repository.interface';
+import { IQueueService } from '../../../../domain/services/queue_service.interface';
+import { IPaymentWebhookEvent } from '../../../../domain/services/payment_gateway.interface';
+import { WebhookEvent } from '../../../../domain/entities/webhook_event.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../di/tokens';
+import { PAYMENT_GATEWAY_CONFIG } from '../../../../shared/config';
+import { logger } from '../../../../shared/logger';
+
+/**
+ * Use case for recording an inbound payment webhook
+ * Every event is stored before it is handled so redeliveries are skipped
+ * and failures can be retried or replayed from the stored payload
+ */
+@injectable()
+export class RecordWebhookEventUseCase implements IRecordWebhookEventUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebhookEventRepository)
+    private readonly webhookEventRepository: IWebhookEventRepository,
+    @inject(USE_CASE_TOKENS.ProcessWebhookEventUseCase)
+    private readonly processWebhookEventUseCase: IProcessWebhookEventUseCase,
+    @inject(SERVICE_TOKENS.IQueueService)
+    private readonly queueService: IQueueService
+  ) {}
+
+  async execute(event: IPaymentWebhookEvent, payload: string): Promise<boolean> {
+    const now = new Date();
+    const webhookEvent = new WebhookEvent(
+      event.id,
+      PAYMENT_GATEWAY_CONFIG.PROVIDER,
+      event.type,
+      payload,
+      'received',
+      0,
+      now,
+      now,
+      now
+    );
+
+    const recorded = await this.webhookEventRepository.createIfAbsent(webhookEvent);
+    if (!recorded) {
+      logger.info(`Skipping duplicate webhook event ${event.id} (${event.type})`);
+      return false;
+    }
+
+    try {
+      await this.processWebhookEventUseCase.execute(event.id);
+    } catch (error) {
+      // The event is stored and marked failed, so acknowledge it and retry on our side
+      logger.error(
+        `Webhook event ${event.id} (${event.type}) failed, scheduling retry: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      await this.queueService.addWebhookRetryJob(event.id);
+    }
+
+    return true;
+  }
+}
@@ -0,0 +1,71 @@
+import { inject, injectable } from 'tsyringe';
+import { IReplayWebhookEventUseCase } from '../../interface/webhook/replay_webhook_event_use_case.interface';
+import { IProcessWebhookEventUseCase } from '../../interface/webhook/process_webhook_event_use_case.interface';
+import { IWebhookEventRepository } from '../../../../domain/repositories/webhook_event_repository.interface';
+import { WebhookEventDetailResponse } from '../../../dtos/webhook_event.dto';
+import { WebhookEventMapper } from '../../../mapper/webhook_event.mapper';
+import { REPOSITORY_TOKENS, USE_CASE_TOKENS, SERVICE_TOKENS } from '../../../di/tokens';
+import { ERROR_MESSAGES, ERROR_CODES, AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AppError } from '../../../../shared/utils/app_error.util';
+import { logger } from '../../../../shared/logger';
+import { IAuditLogService } from '../../../../domain/services/audit_log_service.interface';
+
+/**
+ * Use case for replaying a stored webhook event
+ * Runs the handler again from the stored payload, including for events that already succeeded
+ */
+@injectable()
+export class ReplayWebhookEventUseCase implements IReplayWebhookEventUseCase {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebhookEventRepository)
+    private readonly webhookEventRepository: IWebhookEventRepository,
+    @inject(USE_CASE_TOKENS.ProcessWebhookEventUseCase)
+    private readonly processWebhookEventUseCase: IProcessWebhookEventUseCase,
+    @inject(SERVICE_TOKENS.IAuditLogService)
+    private readonly auditLogService: IAuditLogService
+  ) {}
+
+  async execute(eventId: string, adminUserId: string): Promise<WebhookEventDetailResponse> {
+    const event = await this.webhookEventRepository.findById(eventId);
+    if (!event) {
+      throw new AppError(ERROR_MESSAGES.WEBHOOK_EVENT_NOT_FOUND, ERROR_CODES.WEBHOOK_EVENT_NOT_FOUND, 404);
+    }
+
+    if (event.isBeingProcessed()) {
+      throw new AppError(ERROR_MESSAGES.WEBHOOK_EVENT_IN_PROGRESS, ERROR_CODES.WEBHOOK_EVENT_IN_PROGRESS, 409);
+    }
+
+    logger.info(`Admin ${adminUserId} replaying webhook event ${eventId} (${event.type}, status: ${event.status})`);
+
+    let claimed = true;
+    try {
+      claimed = (await this.processWebhookEventUseCase.execute(eventId, { replay: true })) !== null;
+    } catch (error) {
+      // The failure is recorded on the event, which is what the admin needs to see
+      logger.warn(
+        `Replay of webhook event ${eventId} failed: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    if (!claimed) {
+      // A delivery or retry claimed it between the check and the replay
+      throw new AppError(ERROR_MESSAGES.WEBHOOK_EVENT_IN_PROGRESS, ERROR_CODES.WEBHOOK_EVENT_IN_PROGRESS, 409);
+    }
+
+    const updatedEvent = await this.webhookEventRepository.findById(eventId);
+    if (!updatedEvent) {
+      throw new AppError(ERROR_MESSAGES.WEBHOOK_EVENT_NOT_FOUND, ERROR_CODES.WEBHOOK_EVENT_NOT_FOUND, 404);
+    }
+
+    await this.auditLogService.record({
+      action: AuditAction.WEBHOOK_EVENT_REPLAY,
+      targetType: AuditTargetType.WEBHOOK_EVENT,
+      targetId: eventId,
+      before: event,
+      after: updatedEvent,
+      metadata: { type: event.type },
+    });
+
+    return WebhookEventMapper.toWebhookEventDetailResponse(updatedEvent);
+  }
+}
@@ -0,0 +1,13 @@
+import { AuditLogQuery } from '../../../../dtos/audit_log.dto';
+
+/**
+ * Interface for exporting the audit log to CSV use case
+ */
+export interface IExportAuditLogsCSVUseCase {
+  /**
+   * Executes the use case to export the entries matching the filters, newest first
+   * @param query Optional filters (actor, action, target, date range)
+   * @returns CSV with one row per changed field
+   */
+  execute(query?: AuditLogQuery): Promise<string>;
+}
@@ -0,0 +1,14 @@
+import { AuditLogListResponse, AuditLogQuery } from '../../../../dtos/audit_log.dto';
+
+/**
+ * Interface for listing the audit log use case
+ */
+export interface IGetAuditLogsUseCase {
+  /**
+   * Executes the use case to get one page of audit log entries, newest first
+   * @param query Optional filters (actor, action, target, date range)
+   * @param page Page number (default: 1)
+   * @param limit Items per page (default: 20)
+   */
+  execute(query?: AuditLogQuery, page?: number, limit?: number): Promise<AuditLogListResponse>;
+}
@@ -0,0 +1,14 @@
+import { TripFuelReportResponse } from '../../../../dtos/trip_log.dto';
+
+/**
+ * Interface for getting the estimated vs actual trip fuel report use case
+ */
+export interface IGetTripFuelReportUseCase {
+  /**
+   * Executes the use case to compare estimated and actual distance and fuel per reservation
+   * @param from Optional ISO start of the range (default: 30 days before to)
+   * @param to Optional ISO end of the range (default: now)
+   * @returns Report of trips whose vehicle logs were completed within the range
+   */
+  execute(from?: string, to?: string): Promise<TripFuelReportResponse>;
+}
@@ -0,0 +1,8 @@
+import { VehicleFuelHistoryResponse } from '../../../../dtos/trip_log.dto';
+
+/**
+ * Interface for getting a vehicle's measured fuel consumption history use case
+ */
+export interface IGetVehicleFuelHistoryUseCase {
+  execute(vehicleId: string): Promise<VehicleFuelHistoryResponse>;
+}
@@ -0,0 +1,8 @@
+import { MaintenanceWindowResponse } from '../../../../dtos/maintenance.dto';
+
+/**
+ * Interface for cancelling a vehicle maintenance window use case
+ */
+export interface ICancelMaintenanceWindowUseCase {
+  execute(windowId: string): Promise<MaintenanceWindowResponse>;
+}
@@ -0,0 +1,8 @@
+import { VehicleMaintenanceResponse } from '../../../../dtos/maintenance.dto';
+
+/**
+ * Interface for getting a vehicle's maintenance overview use case
+ */
+export interface IGetVehicleMaintenanceUseCase {
+  execute(vehicleId: string): Promise<VehicleMaintenanceResponse>;
+}
@@ -0,0 +1,8 @@
+import { RecordVehicleServiceRequest, ServiceRecordResponse } from '../../../../dtos/maintenance.dto';
+
+/**
+ * Interface for recording a completed vehicle service use case
+ */
+export interface IRecordVehicleServiceUseCase {
+  execute(vehicleId: string, request: RecordVehicleServiceRequest): Promise<ServiceRecordResponse>;
+}
@@ -0,0 +1,8 @@
+import { MaintenanceWindowResponse, ScheduleMaintenanceWindowRequest } from '../../../../dtos/maintenance.dto';
+
+/**
+ * Interface for scheduling a vehicle maintenance window use case
+ */
+export interface IScheduleMaintenanceWindowUseCase {
+  execute(vehicleId: string, request: ScheduleMaintenanceWindowRequest): Promise<MaintenanceWindowResponse>;
+}
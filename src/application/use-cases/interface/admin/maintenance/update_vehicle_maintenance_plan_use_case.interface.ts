@@ -0,0 +1,11 @@
+import {
+  UpdateVehicleMaintenancePlanRequest,
+  VehicleMaintenancePlanResponse,
+} from '../../../../dtos/maintenance.dto';
+
+/**
+ * Interface for updating a vehicle's service intervals use case
+ */
+export interface IUpdateVehicleMaintenancePlanUseCase {
+  execute(vehicleId: string, request: UpdateVehicleMaintenancePlanRequest): Promise<VehicleMaintenancePlanResponse>;
+}
@@ -2,6 +2,7 @@ import { ReservationCharge } from '../../../../../domain/entities/reservation_ch
 
 /**
  * Interface for adding charge to reservation use case
+ * The charge is raised in the reservation's currency; a different requested currency is rejected
  */
 export interface IAddReservationChargeUseCase {
   execute(
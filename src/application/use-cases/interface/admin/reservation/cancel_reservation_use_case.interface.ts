@@ -1,13 +1,21 @@
 import { Reservation } from '../../../../../domain/entities/reservation.entity';
 
+/**
+ * Who initiated a reservation cancellation
+ * System cancellations come from background jobs, e.g. a missed balance payment
+ */
+export type CancellationInitiator = 'admin' | 'user' | 'system';
+
 /**
  * Interface for cancelling reservation use case
+ * Cancellations that would refund money are rejected unless `canIssueRefund` is set
  */
 export interface ICancelReservationUseCase {
   execute(
     reservationId: string,
     reason: string,
-    adminUserId: string
+    cancelledBy: string,
+    initiatedBy?: CancellationInitiator,
+    canIssueRefund?: boolean
   ): Promise<Reservation>;
 }
-
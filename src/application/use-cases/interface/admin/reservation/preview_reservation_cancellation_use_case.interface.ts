@@ -0,0 +1,8 @@
+import { CancellationPreviewResponse } from '../../../../dtos/cancellation_policy.dto';
+
+/**
+ * Interface for previewing the refund of a reservation cancellation
+ */
+export interface IPreviewReservationCancellationUseCase {
+  execute(reservationId: string, cancelledAt?: Date): Promise<CancellationPreviewResponse>;
+}
@@ -0,0 +1,15 @@
+import { FleetScheduleResponse } from '../../../../dtos/schedule.dto';
+
+/**
+ * Interface for getting the fleet schedule use case
+ */
+export interface IGetFleetScheduleUseCase {
+  /**
+   * Executes the use case to build per-resource timelines for dispatch
+   * @param from Optional ISO start of the range (default: now)
+   * @param to Optional ISO end of the range (default: 7 days after from)
+   * @param resource Resource kind to build timelines for (vehicle or driver, default: vehicle)
+   * @returns Fleet schedule response with conflicts flagged
+   */
+  execute(from?: string, to?: string, resource?: string): Promise<FleetScheduleResponse>;
+}
@@ -0,0 +1,5 @@
+import { TwoFactorCodeRequest, TwoFactorStatusResponse } from '../../../dtos/two_factor.dto';
+
+export interface IDisableTwoFactorUseCase {
+  execute(userId: string, request: TwoFactorCodeRequest): Promise<TwoFactorStatusResponse>;
+}
@@ -0,0 +1,5 @@
+import { EnableTwoFactorRequest, TwoFactorRecoveryCodesResponse } from '../../../dtos/two_factor.dto';
+
+export interface IEnableTwoFactorUseCase {
+  execute(userId: string, request: EnableTwoFactorRequest): Promise<TwoFactorRecoveryCodesResponse>;
+}
@@ -0,0 +1,5 @@
+import { TwoFactorStatusResponse } from '../../../dtos/two_factor.dto';
+
+export interface IGetTwoFactorStatusUseCase {
+  execute(userId: string): Promise<TwoFactorStatusResponse>;
+}
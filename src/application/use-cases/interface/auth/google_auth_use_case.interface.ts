@@ -1,6 +1,8 @@
 import { GoogleAuthRequest, GoogleAuthResponse } from '../../../dtos/user.dto';
+import { TwoFactorChallengeResponse } from '../../../dtos/two_factor.dto';
+import { SessionClientInfo } from '../../../../domain/services/session_service.interface';
 
 export interface IGoogleAuthUseCase {
-  execute(request: GoogleAuthRequest): Promise<GoogleAuthResponse>;
+  execute(request: GoogleAuthRequest, client?: SessionClientInfo): Promise<GoogleAuthResponse | TwoFactorChallengeResponse>;
 }
 
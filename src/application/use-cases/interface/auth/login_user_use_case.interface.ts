@@ -1,5 +1,7 @@
 import { LoginUserRequest, LoginUserResponse } from '../../../dtos/user.dto';
+import { TwoFactorChallengeResponse } from '../../../dtos/two_factor.dto';
+import { SessionClientInfo } from '../../../../domain/services/session_service.interface';
 
 export interface ILoginUserUseCase {
-  execute(request: LoginUserRequest): Promise<LoginUserResponse>;
+  execute(request: LoginUserRequest, client?: SessionClientInfo): Promise<LoginUserResponse | TwoFactorChallengeResponse>;
 } 
\ No newline at end of file
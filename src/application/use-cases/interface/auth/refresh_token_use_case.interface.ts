@@ -1,6 +1,7 @@
 import { RefreshTokenRequest, RefreshTokenResponse } from '../../../dtos/user.dto';
+import { SessionClientInfo } from '../../../../domain/services/session_service.interface';
 
 export interface IRefreshTokenUseCase {
-  execute(request: RefreshTokenRequest): Promise<RefreshTokenResponse>;
+  execute(request: RefreshTokenRequest, client?: SessionClientInfo): Promise<RefreshTokenResponse>;
 }
 
@@ -0,0 +1,5 @@
+import { TwoFactorCodeRequest, TwoFactorRecoveryCodesResponse } from '../../../dtos/two_factor.dto';
+
+export interface IRegenerateRecoveryCodesUseCase {
+  execute(userId: string, request: TwoFactorCodeRequest): Promise<TwoFactorRecoveryCodesResponse>;
+}
@@ -0,0 +1,5 @@
+import { TwoFactorSetupResponse } from '../../../dtos/two_factor.dto';
+
+export interface ISetupTwoFactorUseCase {
+  execute(userId: string): Promise<TwoFactorSetupResponse>;
+}
@@ -0,0 +1,9 @@
+import { User } from '../../../../domain/entities/user.entity';
+import { TwoFactorChallengeResponse } from '../../../dtos/two_factor.dto';
+
+export interface IStartTwoFactorChallengeUseCase {
+  /**
+   * @returns The challenge to finish logging in with, or null when the user logs in with one factor
+   */
+  execute(user: User): Promise<TwoFactorChallengeResponse | null>;
+}
@@ -0,0 +1,6 @@
+import { VerifyTwoFactorLoginRequest, VerifyTwoFactorLoginResponse } from '../../../dtos/two_factor.dto';
+import { SessionClientInfo } from '../../../../domain/services/session_service.interface';
+
+export interface IVerifyTwoFactorLoginUseCase {
+  execute(request: VerifyTwoFactorLoginRequest, client?: SessionClientInfo): Promise<VerifyTwoFactorLoginResponse>;
+}
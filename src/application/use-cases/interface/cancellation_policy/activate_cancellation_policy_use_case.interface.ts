@@ -0,0 +1,8 @@
+import { CancellationPolicyResponse } from '../../../dtos/cancellation_policy.dto';
+
+/**
+ * Use case interface for activating a cancellation policy
+ */
+export interface IActivateCancellationPolicyUseCase {
+  execute(cancellationPolicyId: string): Promise<CancellationPolicyResponse>;
+}
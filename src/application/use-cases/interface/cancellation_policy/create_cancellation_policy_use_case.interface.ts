@@ -0,0 +1,8 @@
+import { CreateCancellationPolicyRequest, CancellationPolicyResponse } from '../../../dtos/cancellation_policy.dto';
+
+/**
+ * Use case interface for creating a new cancellation policy
+ */
+export interface ICreateCancellationPolicyUseCase {
+  execute(request: CreateCancellationPolicyRequest, createdBy: string): Promise<CancellationPolicyResponse>;
+}
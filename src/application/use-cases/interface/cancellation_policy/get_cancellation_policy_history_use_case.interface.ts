@@ -0,0 +1,8 @@
+import { CancellationPolicyHistoryResponse } from '../../../dtos/cancellation_policy.dto';
+
+/**
+ * Use case interface for getting cancellation policy history
+ */
+export interface IGetCancellationPolicyHistoryUseCase {
+  execute(): Promise<CancellationPolicyHistoryResponse>;
+}
@@ -0,0 +1,8 @@
+import { CancellationPolicyResponse } from '../../../dtos/cancellation_policy.dto';
+
+/**
+ * Use case interface for getting the active cancellation policy
+ */
+export interface IGetCancellationPolicyUseCase {
+  execute(): Promise<CancellationPolicyResponse>;
+}
@@ -0,0 +1,8 @@
+import { AddCorporateMemberRequest, CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for adding a user to a corporate account
+ */
+export interface IAddCorporateMemberUseCase {
+  execute(corporateAccountId: string, request: AddCorporateMemberRequest): Promise<CorporateAccountResponse>;
+}
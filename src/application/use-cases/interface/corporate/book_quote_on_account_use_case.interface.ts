@@ -0,0 +1,8 @@
+import { CorporateBookingResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for booking a quote on the member's corporate account
+ */
+export interface IBookQuoteOnAccountUseCase {
+  execute(quoteId: string, userId: string): Promise<CorporateBookingResponse>;
+}
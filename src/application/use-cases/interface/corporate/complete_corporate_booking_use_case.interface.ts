@@ -0,0 +1,8 @@
+import { CorporateBooking } from '../../../../domain/entities/corporate_booking.entity';
+
+/**
+ * Use case interface for turning an approved booking on account into a reservation
+ */
+export interface ICompleteCorporateBookingUseCase {
+  execute(corporateBookingId: string): Promise<CorporateBooking>;
+}
@@ -0,0 +1,8 @@
+import { CreateCorporateAccountRequest, CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for creating a corporate account
+ */
+export interface ICreateCorporateAccountUseCase {
+  execute(request: CreateCorporateAccountRequest, createdBy: string): Promise<CorporateAccountResponse>;
+}
@@ -0,0 +1,6 @@
+/**
+ * Use case interface for flagging corporate invoices unpaid past their due date
+ */
+export interface IFlagOverdueCorporateInvoicesUseCase {
+  execute(now?: Date): Promise<number>;
+}
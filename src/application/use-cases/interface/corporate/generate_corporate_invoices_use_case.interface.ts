@@ -0,0 +1,6 @@
+/**
+ * Use case interface for issuing the monthly invoices of corporate accounts
+ */
+export interface IGenerateCorporateInvoicesUseCase {
+  execute(now?: Date): Promise<number>;
+}
@@ -0,0 +1,8 @@
+import { CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for getting a corporate account with its members and credit position
+ */
+export interface IGetCorporateAccountUseCase {
+  execute(corporateAccountId: string): Promise<CorporateAccountResponse>;
+}
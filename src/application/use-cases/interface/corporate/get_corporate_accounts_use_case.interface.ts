@@ -0,0 +1,8 @@
+import { CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for listing corporate accounts
+ */
+export interface IGetCorporateAccountsUseCase {
+  execute(): Promise<CorporateAccountResponse[]>;
+}
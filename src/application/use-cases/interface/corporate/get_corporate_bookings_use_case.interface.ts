@@ -0,0 +1,9 @@
+import { CorporateBookingStatus } from '../../../../domain/entities/corporate_booking.entity';
+import { CorporateBookingResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for listing bookings on the member's corporate account
+ */
+export interface IGetCorporateBookingsUseCase {
+  execute(userId: string, status?: CorporateBookingStatus): Promise<CorporateBookingResponse[]>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Use case interface for downloading a corporate invoice as PDF
+ * When requestedBy is given the invoice is only returned to administrators of the billed account
+ */
+export interface IGetCorporateInvoicePdfUseCase {
+  execute(invoiceId: string, requestedBy?: string): Promise<{ invoiceNumber: string; pdf: Buffer }>;
+}
@@ -0,0 +1,9 @@
+import { CorporateStatementResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for building a corporate account statement
+ * When requestedBy is given the statement is only returned to administrators of the account
+ */
+export interface IGetCorporateStatementUseCase {
+  execute(corporateAccountId: string, from?: string, to?: string, requestedBy?: string): Promise<CorporateStatementResponse>;
+}
@@ -0,0 +1,8 @@
+import { MyCorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for getting the corporate account of the signed-in member
+ */
+export interface IGetMyCorporateAccountUseCase {
+  execute(userId: string): Promise<MyCorporateAccountResponse>;
+}
@@ -0,0 +1,12 @@
+import { MarkCorporateInvoicePaidRequest, CorporateInvoiceResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for recording the payment of a corporate invoice
+ */
+export interface IMarkCorporateInvoicePaidUseCase {
+  execute(
+    invoiceId: string,
+    request: MarkCorporateInvoicePaidRequest,
+    adminId: string
+  ): Promise<CorporateInvoiceResponse>;
+}
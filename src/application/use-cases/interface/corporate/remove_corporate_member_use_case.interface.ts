@@ -0,0 +1,8 @@
+import { CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for removing a user from a corporate account
+ */
+export interface IRemoveCorporateMemberUseCase {
+  execute(corporateAccountId: string, userId: string): Promise<CorporateAccountResponse>;
+}
@@ -0,0 +1,12 @@
+import { ReviewCorporateBookingRequest, CorporateBookingResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for approving or rejecting a booking on account
+ */
+export interface IReviewCorporateBookingUseCase {
+  execute(
+    corporateBookingId: string,
+    userId: string,
+    request: ReviewCorporateBookingRequest
+  ): Promise<CorporateBookingResponse>;
+}
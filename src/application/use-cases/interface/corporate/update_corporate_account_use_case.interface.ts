@@ -0,0 +1,8 @@
+import { UpdateCorporateAccountRequest, CorporateAccountResponse } from '../../../dtos/corporate_account.dto';
+
+/**
+ * Use case interface for updating a corporate account
+ */
+export interface IUpdateCorporateAccountUseCase {
+  execute(corporateAccountId: string, request: UpdateCorporateAccountRequest): Promise<CorporateAccountResponse>;
+}
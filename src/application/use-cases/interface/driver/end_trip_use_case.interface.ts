@@ -1,6 +1,7 @@
 import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { EndTripRequest } from '../../../dtos/trip_log.dto';
 
 export interface IEndTripUseCase {
-  execute(driverId: string, reservationId: string): Promise<Reservation>;
+  execute(driverId: string, reservationId: string, request?: EndTripRequest): Promise<Reservation>;
 }
 
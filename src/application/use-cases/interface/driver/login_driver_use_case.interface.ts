@@ -1,6 +1,7 @@
 import { LoginDriverRequest, LoginDriverResponse } from '../../../dtos/driver.dto';
+import { SessionClientInfo } from '../../../../domain/services/session_service.interface';
 
 export interface ILoginDriverUseCase {
-  execute(request: LoginDriverRequest): Promise<LoginDriverResponse>;
+  execute(request: LoginDriverRequest, client?: SessionClientInfo): Promise<LoginDriverResponse>;
 }
 
@@ -1,6 +1,7 @@
 import { Reservation } from '../../../../domain/entities/reservation.entity';
+import { StartTripRequest } from '../../../dtos/trip_log.dto';
 
 export interface IStartTripUseCase {
-  execute(driverId: string, reservationId: string): Promise<Reservation>;
+  execute(driverId: string, reservationId: string, request?: StartTripRequest): Promise<Reservation>;
 }
 
@@ -0,0 +1,5 @@
+import { UnlockDriverResponse } from '../../../dtos/driver.dto';
+
+export interface IUnlockDriverUseCase {
+  execute(driverId: string): Promise<UnlockDriverResponse>;
+}
@@ -0,0 +1,6 @@
+/**
+ * Use case interface for deleting an exchange rate
+ */
+export interface IDeleteExchangeRateUseCase {
+  execute(exchangeRateId: string): Promise<void>;
+}
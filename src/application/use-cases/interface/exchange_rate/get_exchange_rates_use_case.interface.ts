@@ -0,0 +1,8 @@
+import { ExchangeRateListResponse } from '../../../dtos/exchange_rate.dto';
+
+/**
+ * Use case interface for listing exchange rates
+ */
+export interface IGetExchangeRatesUseCase {
+  execute(): Promise<ExchangeRateListResponse>;
+}
@@ -0,0 +1,8 @@
+import { ExchangeRateResponse, UpsertExchangeRateRequest } from '../../../dtos/exchange_rate.dto';
+
+/**
+ * Use case interface for creating or updating an exchange rate
+ */
+export interface IUpsertExchangeRateUseCase {
+  execute(request: UpsertExchangeRateRequest, updatedBy: string): Promise<ExchangeRateResponse>;
+}
@@ -0,0 +1,8 @@
+import { NotificationPreferencesResponse } from '../../../dtos/notification.dto';
+
+/**
+ * Use case interface for getting a user's notification preferences
+ */
+export interface IGetNotificationPreferencesUseCase {
+  execute(userId: string): Promise<NotificationPreferencesResponse>;
+}
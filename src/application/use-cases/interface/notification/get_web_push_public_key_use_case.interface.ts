@@ -0,0 +1,8 @@
+import { WebPushPublicKeyResponse } from '../../../dtos/notification.dto';
+
+/**
+ * Use case interface for getting the VAPID public key browsers subscribe with
+ */
+export interface IGetWebPushPublicKeyUseCase {
+  execute(): WebPushPublicKeyResponse;
+}
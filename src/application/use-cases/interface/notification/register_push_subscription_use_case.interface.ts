@@ -0,0 +1,12 @@
+import { PushSubscriptionResponse, RegisterPushSubscriptionRequest } from '../../../dtos/notification.dto';
+
+/**
+ * Use case interface for registering a browser for push notifications
+ */
+export interface IRegisterPushSubscriptionUseCase {
+  execute(
+    userId: string,
+    request: RegisterPushSubscriptionRequest,
+    userAgent?: string
+  ): Promise<PushSubscriptionResponse>;
+}
@@ -0,0 +1,9 @@
+/**
+ * Use case interface for sending the daily notification digest emails
+ */
+export interface ISendNotificationDigestsUseCase {
+  /**
+   * @returns Number of digest emails sent
+   */
+  execute(now?: Date): Promise<number>;
+}
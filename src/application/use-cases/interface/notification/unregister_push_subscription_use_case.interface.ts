@@ -0,0 +1,6 @@
+/**
+ * Use case interface for unregistering a browser from push notifications
+ */
+export interface IUnregisterPushSubscriptionUseCase {
+  execute(userId: string, endpoint: string): Promise<void>;
+}
@@ -0,0 +1,8 @@
+import { NotificationPreferencesResponse, UpdateNotificationPreferencesRequest } from '../../../dtos/notification.dto';
+
+/**
+ * Use case interface for updating a user's notification preferences
+ */
+export interface IUpdateNotificationPreferencesUseCase {
+  execute(userId: string, request: UpdateNotificationPreferencesRequest): Promise<NotificationPreferencesResponse>;
+}
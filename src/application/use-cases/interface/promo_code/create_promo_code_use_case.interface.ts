@@ -0,0 +1,8 @@
+import { CreatePromoCodeRequest, PromoCodeResponse } from '../../../dtos/promo_code.dto';
+
+/**
+ * Use case interface for creating a promo code
+ */
+export interface ICreatePromoCodeUseCase {
+  execute(request: CreatePromoCodeRequest, createdBy: string): Promise<PromoCodeResponse>;
+}
@@ -0,0 +1,8 @@
+import { PromoCodeResponse } from '../../../dtos/promo_code.dto';
+
+/**
+ * Use case interface for listing promo codes
+ */
+export interface IGetPromoCodesUseCase {
+  execute(): Promise<PromoCodeResponse[]>;
+}
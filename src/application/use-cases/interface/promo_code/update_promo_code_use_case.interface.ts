@@ -0,0 +1,8 @@
+import { UpdatePromoCodeRequest, PromoCodeResponse } from '../../../dtos/promo_code.dto';
+
+/**
+ * Use case interface for updating a promo code
+ */
+export interface IUpdatePromoCodeUseCase {
+  execute(promoCodeId: string, request: UpdatePromoCodeRequest): Promise<PromoCodeResponse>;
+}
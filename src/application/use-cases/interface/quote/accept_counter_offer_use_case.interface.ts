@@ -0,0 +1,8 @@
+import { QuoteResponse } from '../../../dtos/quote.dto';
+
+/**
+ * Use case interface for accepting a quote counter-offer
+ */
+export interface IAcceptCounterOfferUseCase {
+  execute(quoteId: string, userId: string): Promise<QuoteResponse>;
+}
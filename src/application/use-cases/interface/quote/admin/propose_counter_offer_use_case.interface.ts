@@ -0,0 +1,8 @@
+import { ProposeCounterOfferRequest, QuoteResponse } from '../../../../dtos/quote.dto';
+
+/**
+ * Use case interface for sending a counter-offer on a quote
+ */
+export interface IProposeCounterOfferUseCase {
+  execute(quoteId: string, adminUserId: string, request: ProposeCounterOfferRequest): Promise<QuoteResponse>;
+}
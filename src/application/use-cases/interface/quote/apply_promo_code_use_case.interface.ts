@@ -0,0 +1,8 @@
+import { ApplyPromoCodeRequest, QuoteResponse } from '../../../dtos/quote.dto';
+
+/**
+ * Use case interface for applying a promo code to a quote draft
+ */
+export interface IApplyPromoCodeUseCase {
+  execute(quoteId: string, request: ApplyPromoCodeRequest, userId: string): Promise<QuoteResponse>;
+}
@@ -1,8 +1,8 @@
-import { CreatePaymentIntentResponse } from '../../../dtos/payment.dto';
+import { CreatePaymentIntentResponse, PaymentPlanType } from '../../../dtos/payment.dto';
 
 /**
  * Use case interface for creating a payment intent
  */
 export interface ICreatePaymentIntentUseCase {
-  execute(quoteId: string, userId: string): Promise<CreatePaymentIntentResponse>;
+  execute(quoteId: string, userId: string, paymentPlan?: PaymentPlanType): Promise<CreatePaymentIntentResponse>;
 }
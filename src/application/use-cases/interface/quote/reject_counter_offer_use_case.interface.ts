@@ -0,0 +1,8 @@
+import { QuoteResponse, RejectCounterOfferRequest } from '../../../dtos/quote.dto';
+
+/**
+ * Use case interface for rejecting a quote counter-offer
+ */
+export interface IRejectCounterOfferUseCase {
+  execute(quoteId: string, userId: string, request: RejectCounterOfferRequest): Promise<QuoteResponse>;
+}
@@ -0,0 +1,8 @@
+import { QuoteResponse } from '../../../dtos/quote.dto';
+
+/**
+ * Use case interface for removing the promo code from a quote draft
+ */
+export interface IRemovePromoCodeUseCase {
+  execute(quoteId: string, userId: string): Promise<QuoteResponse>;
+}
@@ -0,0 +1,8 @@
+import { RequoteResponse } from '../../../dtos/quote.dto';
+
+/**
+ * Use case interface for requoting an expired quote
+ */
+export interface IRequoteQuoteUseCase {
+  execute(quoteId: string, userId: string): Promise<RequoteResponse>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Interface for nudging a customer to finish a draft quote they stopped working on
+ * Resolves to false when no email was sent
+ */
+export interface ISendDraftQuoteReminderUseCase {
+  execute(quoteId: string): Promise<boolean>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Interface for telling a customer their quote expired and offering a requote
+ * Resolves to false when no email was sent
+ */
+export interface ISendQuoteExpiredEmailUseCase {
+  execute(quoteId: string): Promise<boolean>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Interface for reminding a customer that the payment window of their quote is closing
+ * Resolves to false when the quote no longer needs a reminder
+ */
+export interface ISendQuoteReminderUseCase {
+  execute(quoteId: string): Promise<boolean>;
+}
@@ -0,0 +1,12 @@
+import { CancelUserReservationRequest, ReservationResponse } from '../../../dtos/reservation.dto';
+
+/**
+ * Use case interface for a user cancelling their own reservation
+ */
+export interface ICancelUserReservationUseCase {
+  execute(
+    reservationId: string,
+    userId: string,
+    request: CancelUserReservationRequest
+  ): Promise<ReservationResponse>;
+}
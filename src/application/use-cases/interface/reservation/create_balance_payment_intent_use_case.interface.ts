@@ -0,0 +1,8 @@
+import { CreatePaymentIntentResponse } from '../../../dtos/payment.dto';
+
+/**
+ * Interface for creating payment intent for the balance of a deposit booking
+ */
+export interface ICreateBalancePaymentIntentUseCase {
+  execute(reservationId: string, userId: string): Promise<CreatePaymentIntentResponse>;
+}
@@ -0,0 +1,7 @@
+/**
+ * Interface for handling a deposit booking whose balance was not paid by its due date
+ * Resolves to false when the balance was settled or the reservation is already closed
+ */
+export interface IEnforceBalanceDueUseCase {
+  execute(reservationId: string): Promise<boolean>;
+}
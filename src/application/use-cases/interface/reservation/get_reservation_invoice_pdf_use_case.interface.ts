@@ -0,0 +1,6 @@
+/**
+ * Interface for downloading a reservation invoice, receipt or credit note as PDF
+ */
+export interface IGetReservationInvoicePdfUseCase {
+  execute(reservationId: string, invoiceId: string, userId: string): Promise<{ invoiceNumber: string; pdf: Buffer }>;
+}
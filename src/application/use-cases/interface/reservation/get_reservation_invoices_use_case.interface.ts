@@ -0,0 +1,8 @@
+import { ReservationInvoiceResponse } from '../../../dtos/reservation.dto';
+
+/**
+ * Interface for getting the invoices, receipts and credit notes of a reservation
+ */
+export interface IGetReservationInvoicesUseCase {
+  execute(reservationId: string, userId: string): Promise<ReservationInvoiceResponse[]>;
+}
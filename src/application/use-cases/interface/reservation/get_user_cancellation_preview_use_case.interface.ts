@@ -0,0 +1,8 @@
+import { UserCancellationPreviewResponse } from '../../../dtos/reservation.dto';
+
+/**
+ * Use case interface for previewing the refund of cancelling the user's own reservation
+ */
+export interface IGetUserCancellationPreviewUseCase {
+  execute(reservationId: string, userId: string): Promise<UserCancellationPreviewResponse>;
+}
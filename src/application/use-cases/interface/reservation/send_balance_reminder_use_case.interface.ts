@@ -0,0 +1,7 @@
+/**
+ * Interface for reminding a customer that the balance of their deposit booking is due
+ * Resolves to false when there is nothing left to remind about
+ */
+export interface ISendBalanceReminderUseCase {
+  execute(reservationId: string): Promise<boolean>;
+}
@@ -0,0 +1,5 @@
+import { SessionListResponse } from '../../../dtos/session.dto';
+
+export interface IListUserSessionsUseCase {
+  execute(userId: string, currentSessionId?: string): Promise<SessionListResponse>;
+}
@@ -0,0 +1,5 @@
+import { RevokeSessionsResponse } from '../../../dtos/session.dto';
+
+export interface IRevokeAllUserSessionsUseCase {
+  execute(userId: string): Promise<RevokeSessionsResponse>;
+}
@@ -0,0 +1,5 @@
+import { RevokeSessionsResponse } from '../../../dtos/session.dto';
+
+export interface IRevokeUserSessionUseCase {
+  execute(userId: string, sessionId: string): Promise<RevokeSessionsResponse>;
+}
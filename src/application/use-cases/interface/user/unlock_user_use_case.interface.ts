@@ -0,0 +1,5 @@
+import { UnlockUserResponse } from '../../../dtos/user.dto';
+
+export interface IUnlockUserUseCase {
+  execute(userId: string): Promise<UnlockUserResponse>;
+}
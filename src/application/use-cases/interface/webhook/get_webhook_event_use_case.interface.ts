@@ -0,0 +1,8 @@
+import { WebhookEventDetailResponse } from '../../../dtos/webhook_event.dto';
+
+/**
+ * Use case interface for getting a stored webhook event with its payload
+ */
+export interface IGetWebhookEventUseCase {
+  execute(eventId: string): Promise<WebhookEventDetailResponse>;
+}
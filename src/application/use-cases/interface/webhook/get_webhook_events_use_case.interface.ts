@@ -0,0 +1,20 @@
+import { WebhookEventStatus } from '../../../../domain/entities/webhook_event.entity';
+import { WebhookEventListResponse } from '../../../dtos/webhook_event.dto';
+
+/**
+ * Use case interface for listing stored webhook events
+ */
+export interface IGetWebhookEventsUseCase {
+  /**
+   * @param page Page number (default: 1)
+   * @param limit Items per page (default: 20)
+   * @param status Optional processing status filter
+   * @param type Optional event type filter (e.g. payment_intent.succeeded)
+   */
+  execute(
+    page?: number,
+    limit?: number,
+    status?: WebhookEventStatus,
+    type?: string
+  ): Promise<WebhookEventListResponse>;
+}
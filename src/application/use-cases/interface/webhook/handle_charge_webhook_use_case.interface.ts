@@ -0,0 +1,6 @@
+/**
+ * Use case interface for handling charge refund and dispute webhooks
+ */
+export interface IHandleChargeWebhookUseCase {
+  execute(event: { type: string; data: { object: unknown } }): Promise<void>;
+}
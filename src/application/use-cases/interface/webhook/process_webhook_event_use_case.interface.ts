@@ -0,0 +1,15 @@
+import { WebhookEvent } from '../../../../domain/entities/webhook_event.entity';
+
+/**
+ * Use case interface for processing a stored webhook event
+ */
+export interface IProcessWebhookEventUseCase {
+  /**
+   * Runs the payment webhook handler for the stored event
+   * @param eventId - The payment gateway event ID
+   * @param options.replay - Also re-run events that were already processed
+   * @returns The updated event, or null when it could not be claimed
+   * @throws The handler error after the event is marked failed
+   */
+  execute(eventId: string, options?: { replay?: boolean }): Promise<WebhookEvent | null>;
+}
@@ -0,0 +1,14 @@
+import { IPaymentWebhookEvent } from '../../../../domain/services/payment_gateway.interface';
+
+/**
+ * Use case interface for recording an inbound payment webhook
+ */
+export interface IRecordWebhookEventUseCase {
+  /**
+   * Stores the event and processes it unless it was received before
+   * @param event - The verified webhook event
+   * @param payload - The raw payload as received, kept for replays
+   * @returns false when the event is a duplicate and was skipped
+   */
+  execute(event: IPaymentWebhookEvent, payload: string): Promise<boolean>;
+}
@@ -0,0 +1,12 @@
+import { WebhookEventDetailResponse } from '../../../dtos/webhook_event.dto';
+
+/**
+ * Use case interface for replaying a stored webhook event
+ */
+export interface IReplayWebhookEventUseCase {
+  /**
+   * Processes the event again, whatever its previous outcome
+   * @returns The event after the attempt, with lastError set if it failed again
+   */
+  execute(eventId: string, adminUserId: string): Promise<WebhookEventDetailResponse>;
+}
@@ -0,0 +1,44 @@
+import { AuditAction, AuditTargetType } from '../../shared/constants';
+
+/**
+ * Actor recorded for audited changes made outside an authenticated request
+ */
+export const AUDIT_SYSTEM_ACTOR = 'system';
+
+/**
+ * A single field changed by an audited action
+ * Values are JSON-compatible snapshots (dates as ISO strings)
+ */
+export interface AuditChange {
+  field: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * AuditLog domain entity recording who changed what through an admin action
+ * Entries are append-only; the actor is 'system' when no authenticated request is involved
+ */
+export class AuditLog {
+  constructor(
+    public readonly auditLogId: string,
+    public readonly actorId: string,
+    public readonly action: AuditAction,
+    public readonly targetType: AuditTargetType,
+    public readonly targetId: string,
+    public readonly changes: AuditChange[],
+    public readonly createdAt: Date,
+    public readonly actorEmail?: string,
+    public readonly actorRole?: string,
+    public readonly ipAddress?: string,
+    public readonly userAgent?: string,
+    public readonly metadata?: Record<string, unknown>
+  ) {}
+
+  /**
+   * Checks if the action was taken by a background job rather than a person
+   */
+  isSystemAction(): boolean {
+    return this.actorId === AUDIT_SYSTEM_ACTOR;
+  }
+}
@@ -0,0 +1,80 @@
+/**
+ * Refund tier applied when a reservation is cancelled at least
+ * `minHoursBeforeDeparture` hours before the first itinerary stop
+ */
+export interface ICancellationPolicyTier {
+  minHoursBeforeDeparture: number;
+  refundPercentage: number;
+}
+
+/**
+ * How a refundable component (amenities, paid charges) is treated on cancellation
+ * - tiered: follows the refund percentage of the applicable tier
+ * - full: always refunded in full
+ * - none: never refunded
+ */
+export type CancellationRefundMode = 'tiered' | 'full' | 'none';
+
+/**
+ * CancellationPolicy domain entity representing a cancellation policy version
+ * Contains core business logic and validation rules
+ */
+export class CancellationPolicy {
+  constructor(
+    public readonly cancellationPolicyId: string,
+    public readonly version: number,
+    public readonly tiers: ICancellationPolicyTier[],
+    public readonly nonRefundableDepositPercentage: number,
+    public readonly amenityRefundMode: CancellationRefundMode,
+    public readonly chargeRefundMode: CancellationRefundMode,
+    public readonly isActive: boolean,
+    public readonly createdBy: string,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Checks if this cancellation policy is active
+   */
+  isActivePolicy(): boolean {
+    return this.isActive;
+  }
+
+  /**
+   * Checks if the non-refundable deposit percentage is valid (0-100)
+   */
+  hasValidDepositPercentage(): boolean {
+    return this.nonRefundableDepositPercentage >= 0 && this.nonRefundableDepositPercentage <= 100;
+  }
+
+  /**
+   * Checks if tiers are non-empty, within range and have unique thresholds
+   */
+  hasValidTiers(): boolean {
+    if (this.tiers.length === 0) {
+      return false;
+    }
+
+    const thresholds = new Set(this.tiers.map((tier) => tier.minHoursBeforeDeparture));
+    if (thresholds.size !== this.tiers.length) {
+      return false;
+    }
+
+    return this.tiers.every(
+      (tier) =>
+        tier.minHoursBeforeDeparture >= 0 &&
+        tier.refundPercentage >= 0 &&
+        tier.refundPercentage <= 100
+    );
+  }
+
+  /**
+   * Finds the tier that applies when cancelling the given number of hours before departure
+   * Returns the tier with the highest threshold that has been met, or undefined if none has
+   */
+  getApplicableTier(hoursBeforeDeparture: number): ICancellationPolicyTier | undefined {
+    return this.tiers
+      .filter((tier) => hoursBeforeDeparture >= tier.minHoursBeforeDeparture)
+      .sort((a, b) => b.minHoursBeforeDeparture - a.minHoursBeforeDeparture)[0];
+  }
+}
@@ -0,0 +1,47 @@
+import { describe, it, expect } from 'vitest';
+import { CorporateAccount } from './corporate_account.entity';
+
+describe('CorporateAccount Entity', () => {
+  const createAccount = (approvalThreshold?: number): CorporateAccount =>
+    new CorporateAccount(
+      'account-1',
+      'Acme School',
+      { name: 'Finance Office', email: 'finance@acme.test' },
+      100000,
+      'INR',
+      30,
+      [
+        { userId: 'admin-1', role: 'admin', addedAt: new Date() },
+        { userId: 'booker-1', role: 'booker', addedAt: new Date() },
+      ],
+      'active',
+      'platform-admin',
+      new Date(),
+      new Date(),
+      approvalThreshold
+    );
+
+  it('should only let account admins approve bookings', () => {
+    const account = createAccount(20000);
+
+    expect(account.canApprove('admin-1')).toBe(true);
+    expect(account.canApprove('booker-1')).toBe(false);
+    expect(account.canApprove('someone-else')).toBe(false);
+  });
+
+  it('should require approval only above the threshold', () => {
+    expect(createAccount(20000).requiresApproval(20000)).toBe(false);
+    expect(createAccount(20000).requiresApproval(20000.01)).toBe(true);
+    expect(createAccount(0).requiresApproval(1)).toBe(true);
+    // Accounts without a threshold never need approval
+    expect(createAccount().requiresApproval(1000000)).toBe(false);
+  });
+
+  it('should never report negative available credit', () => {
+    const account = createAccount();
+
+    expect(account.getAvailableCredit(0)).toBe(100000);
+    expect(account.getAvailableCredit(64000)).toBe(36000);
+    expect(account.getAvailableCredit(120000)).toBe(0);
+  });
+});
@@ -0,0 +1,90 @@
+/**
+ * Role of a user within a corporate account
+ * admin: can book and approve bookings over the approval threshold
+ * booker: can book, bookings over the threshold wait for an account admin
+ */
+export type CorporateMemberRole = 'admin' | 'booker';
+
+/**
+ * Status of a corporate account
+ * Suspended accounts keep their invoices but cannot book on account
+ */
+export type CorporateAccountStatus = 'active' | 'suspended';
+
+/**
+ * User allowed to book on a corporate account
+ */
+export interface ICorporateAccountMember {
+  userId: string;
+  role: CorporateMemberRole;
+  addedAt: Date;
+}
+
+/**
+ * Person at the company who receives invoices and statements
+ */
+export interface ICorporateBillingContact {
+  name: string;
+  email: string;
+  phoneNumber?: string;
+}
+
+/**
+ * CorporateAccount domain entity for companies and schools booking on credit
+ * Bookings on account are collected on a monthly invoice payable within the payment terms
+ */
+export class CorporateAccount {
+  constructor(
+    public readonly corporateAccountId: string,
+    public readonly name: string,
+    public readonly billingContact: ICorporateBillingContact,
+    public readonly creditLimit: number,
+    public readonly currency: string,
+    public readonly paymentTermsDays: number,
+    public readonly members: ICorporateAccountMember[],
+    public readonly status: CorporateAccountStatus,
+    public readonly createdBy: string,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly approvalThreshold?: number,
+    public readonly billingAddress?: string,
+    public readonly taxId?: string,
+    public readonly creditVersion: number = 0 // Bumped by every booking on account, see ICorporateCreditService
+  ) {}
+
+  /**
+   * Checks if bookings can be made on the account
+   */
+  isActive(): boolean {
+    return this.status === 'active';
+  }
+
+  /**
+   * Finds the membership of a user
+   */
+  findMember(userId: string): ICorporateAccountMember | undefined {
+    return this.members.find((member) => member.userId === userId);
+  }
+
+  /**
+   * Checks if the user can approve bookings on the account
+   */
+  canApprove(userId: string): boolean {
+    return this.findMember(userId)?.role === 'admin';
+  }
+
+  /**
+   * Checks if a booking of the given amount needs an account admin's approval
+   * Accounts without a threshold never require approval
+   */
+  requiresApproval(amount: number): boolean {
+    return this.approvalThreshold !== undefined && amount > this.approvalThreshold;
+  }
+
+  /**
+   * Credit left once the outstanding amount is taken into account
+   */
+  getAvailableCredit(outstandingAmount: number): number {
+    return Math.max(0, this.creditLimit - outstandingAmount);
+  }
+}
@@ -0,0 +1,47 @@
+/**
+ * Lifecycle of a booking made on a corporate account
+ * pending_approval: over the approval threshold, waiting for an account admin
+ * rejected: declined by an account admin
+ * booked: reservation created, billed on the next monthly invoice
+ * void: reservation was cancelled before it was invoiced
+ */
+export type CorporateBookingStatus = 'pending_approval' | 'rejected' | 'booked' | 'void';
+
+/**
+ * CorporateBooking domain entity linking a quote booked on account to its reservation and invoice
+ * Booked amounts count against the account's credit until the invoice they are billed on is paid
+ */
+export class CorporateBooking {
+  constructor(
+    public readonly corporateBookingId: string,
+    public readonly corporateAccountId: string,
+    public readonly quoteId: string,
+    public readonly requestedBy: string,
+    public readonly amount: number,
+    public readonly currency: string,
+    public readonly status: CorporateBookingStatus,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly reservationId?: string,
+    public readonly paymentId?: string,
+    public readonly bookedAt?: Date,
+    public readonly invoiceId?: string,
+    public readonly reviewedBy?: string,
+    public readonly reviewedAt?: Date,
+    public readonly rejectionReason?: string
+  ) {}
+
+  /**
+   * Checks if the booking waits for an account admin
+   */
+  isPendingApproval(): boolean {
+    return this.status === 'pending_approval';
+  }
+
+  /**
+   * Checks if the booking still has to be billed on an invoice
+   */
+  isUninvoiced(): boolean {
+    return this.status === 'booked' && !this.invoiceId;
+  }
+}
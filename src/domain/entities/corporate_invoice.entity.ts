@@ -0,0 +1,55 @@
+/**
+ * Payment status of a monthly corporate invoice
+ */
+export type CorporateInvoiceStatus = 'issued' | 'paid' | 'overdue';
+
+/**
+ * Reservation billed on a corporate invoice
+ */
+export interface ICorporateInvoiceLineItem {
+  corporateBookingId: string;
+  reservationId: string;
+  reservationNumber: string;
+  description: string;
+  bookedBy: string;
+  bookedAt: Date;
+  amount: number;
+}
+
+/**
+ * CorporateInvoice domain entity consolidating a month of bookings on account
+ * Due a number of days after issue given by the account's payment terms
+ */
+export class CorporateInvoice {
+  constructor(
+    public readonly invoiceId: string,
+    public readonly invoiceNumber: string,
+    public readonly corporateAccountId: string,
+    public readonly periodStart: Date,
+    public readonly periodEnd: Date,
+    public readonly lineItems: ICorporateInvoiceLineItem[],
+    public readonly totalAmount: number,
+    public readonly currency: string,
+    public readonly status: CorporateInvoiceStatus,
+    public readonly issuedAt: Date,
+    public readonly dueAt: Date,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly paidAt?: Date,
+    public readonly paymentReference?: string
+  ) {}
+
+  /**
+   * Checks if the invoice has been settled
+   */
+  isPaid(): boolean {
+    return this.status === 'paid';
+  }
+
+  /**
+   * Checks if the invoice is unpaid past its due date
+   */
+  isPastDue(now: Date = new Date()): boolean {
+    return !this.isPaid() && this.dueAt.getTime() < now.getTime();
+  }
+}
@@ -0,0 +1,33 @@
+/**
+ * Exchange rate captured when a price is calculated
+ * rate converts one unit of baseCurrency into currency
+ */
+export interface IExchangeRateSnapshot {
+  baseCurrency: string;
+  currency: string;
+  rate: number;
+}
+
+/**
+ * ExchangeRate domain entity maintained by admins
+ * One unit of baseCurrency buys `rate` units of currency
+ * Quotes snapshot the rate when they are priced, so later edits never change an existing quote
+ */
+export class ExchangeRate {
+  constructor(
+    public readonly exchangeRateId: string,
+    public readonly baseCurrency: string,
+    public readonly currency: string,
+    public readonly rate: number,
+    public readonly updatedBy: string,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Converts an amount in the base currency to this rate's currency
+   */
+  convert(amount: number): number {
+    return amount * this.rate;
+  }
+}
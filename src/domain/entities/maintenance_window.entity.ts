@@ -0,0 +1,44 @@
+/**
+ * Lifecycle of a maintenance window
+ * scheduled: planned, vehicle still in normal use until startAt
+ * in_progress: vehicle switched to MAINTENANCE when the window started
+ * completed: service finished, vehicle released back to the fleet
+ * cancelled: window withdrawn, no longer blocks the vehicle
+ */
+export type MaintenanceWindowStatus = 'scheduled' | 'in_progress' | 'completed' | 'cancelled';
+
+/**
+ * MaintenanceWindow domain entity representing a planned service slot for a vehicle
+ * The vehicle is unavailable for trips that overlap a scheduled or in-progress window
+ */
+export class MaintenanceWindow {
+  constructor(
+    public readonly windowId: string,
+    public readonly vehicleId: string,
+    public readonly startAt: Date,
+    public readonly endAt: Date,
+    public readonly reason: string,
+    public readonly status: MaintenanceWindowStatus,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly notes?: string,
+    public readonly startedAt?: Date,
+    public readonly completedAt?: Date,
+    public readonly cancelledAt?: Date,
+    public readonly serviceRecordId?: string
+  ) {}
+
+  /**
+   * Checks if the window still blocks the vehicle
+   */
+  isBlocking(): boolean {
+    return this.status === 'scheduled' || this.status === 'in_progress';
+  }
+
+  /**
+   * Checks if the window's time range overlaps the given range
+   */
+  overlaps(startAt: Date, endAt: Date): boolean {
+    return this.startAt.getTime() < endAt.getTime() && startAt.getTime() < this.endAt.getTime();
+  }
+}
@@ -1,4 +1,20 @@
-import { NotificationType } from '../../shared/constants';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationSkipReason,
+  NotificationType,
+} from '../../shared/constants';
+
+/**
+ * Outcome of delivering a notification on one channel
+ */
+export interface INotificationDelivery {
+  channel: NotificationChannel;
+  status: NotificationDeliveryStatus;
+  reason?: NotificationSkipReason;
+  error?: string;
+  attemptedAt: Date;
+}
 
 /**
  * Notification domain entity representing a notification in the system
@@ -13,7 +29,11 @@ export class Notification {
     public readonly message: string,
     public readonly isRead: boolean,
     public readonly createdAt: Date,
-    public readonly data?: Record<string, unknown>
+    public readonly data?: Record<string, unknown>,
+    public readonly deliveries: INotificationDelivery[] = [],
+    public readonly groupKey?: string,
+    public readonly count: number = 1,
+    public readonly lastNotifiedAt?: Date
   ) {}
 
   /**
@@ -35,7 +55,11 @@ export class Notification {
       this.message,
       true,
       this.createdAt,
-      this.data
+      this.data,
+      this.deliveries,
+      this.groupKey,
+      this.count,
+      this.lastNotifiedAt
     );
   }
 
@@ -45,5 +69,27 @@ export class Notification {
   isChatNotification(): boolean {
     return this.type === NotificationType.CHAT_MESSAGE;
   }
+
+  /**
+   * Checks if later notifications with the same group key are rolled into this one
+   */
+  isGrouped(): boolean {
+    return Boolean(this.groupKey);
+  }
+
+  /**
+   * Gets when the notification last fired: its latest roll-up, or its creation
+   * Lists and the digest order by this so a chat with a new message moves back to the top
+   */
+  getLastNotifiedAt(): Date {
+    return this.lastNotifiedAt ?? this.createdAt;
+  }
+
+  /**
+   * Gets the delivery outcome on a channel, if the channel was dispatched
+   */
+  getDelivery(channel: NotificationChannel): INotificationDelivery | undefined {
+    return this.deliveries.find((delivery) => delivery.channel === channel);
+  }
 }
 
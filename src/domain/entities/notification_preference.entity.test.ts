@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { NotificationPreference, DEFAULT_NOTIFICATION_CHANNELS } from './notification_preference.entity';
+import { NotificationType } from '../../shared/constants';
+
+describe('NotificationPreference Entity', () => {
+  const createPreference = (quietHours?: NotificationPreference['quietHours']): NotificationPreference =>
+    new NotificationPreference(
+      'user-1',
+      [{ type: NotificationType.CHAT_MESSAGE, inApp: true, email: true, push: false }],
+      new Date(),
+      new Date(),
+      quietHours
+    );
+
+  it('should use the saved channels and fall back to the defaults for other types', () => {
+    const preference = createPreference();
+
+    expect(preference.channelsFor(NotificationType.CHAT_MESSAGE)).toEqual({ inApp: true, email: true, push: false });
+    expect(preference.channelsFor(NotificationType.RESERVATION_CONFIRMED)).toEqual(DEFAULT_NOTIFICATION_CHANNELS);
+  });
+
+  it('should handle quiet hours that wrap past midnight in the user timezone', () => {
+    // 22:00-07:00 in India (UTC+5:30)
+    const preference = createPreference({ enabled: true, start: '22:00', end: '07:00', timezone: 'Asia/Kolkata' });
+
+    expect(preference.isInQuietHours(new Date('2030-01-01T17:00:00Z'))).toBe(true); // 22:30 local
+    expect(preference.isInQuietHours(new Date('2030-01-01T01:00:00Z'))).toBe(true); // 06:30 local
+    expect(preference.isInQuietHours(new Date('2030-01-01T01:30:00Z'))).toBe(false); // 07:00 local
+    expect(preference.isInQuietHours(new Date('2030-01-01T08:00:00Z'))).toBe(false); // 13:30 local
+  });
+
+  it('should handle quiet hours within a single day', () => {
+    const preference = createPreference({ enabled: true, start: '13:00', end: '15:00', timezone: 'UTC' });
+
+    expect(preference.isInQuietHours(new Date('2030-01-01T14:00:00Z'))).toBe(true);
+    expect(preference.isInQuietHours(new Date('2030-01-01T15:00:00Z'))).toBe(false);
+  });
+
+  it('should ignore disabled quiet hours', () => {
+    const preference = createPreference({ enabled: false, start: '00:00', end: '23:59', timezone: 'UTC' });
+
+    expect(preference.isInQuietHours(new Date('2030-01-01T12:00:00Z'))).toBe(false);
+  });
+});
@@ -0,0 +1,103 @@
+import { NotificationType } from '../../shared/constants';
+
+/**
+ * Channels a notification type is delivered on
+ */
+export interface INotificationChannelSettings {
+  inApp: boolean;
+  email: boolean;
+  push: boolean;
+}
+
+/**
+ * Channel settings the user chose for one notification type
+ */
+export interface INotificationTypePreference extends INotificationChannelSettings {
+  type: NotificationType;
+}
+
+/**
+ * Daily window in which push notifications are held back
+ * Times are HH:mm in the user's timezone; a window may wrap past midnight (e.g. 22:00-07:00)
+ */
+export interface IQuietHours {
+  enabled: boolean;
+  start: string;
+  end: string;
+  timezone: string;
+}
+
+/**
+ * Channels used for notification types the user has not configured
+ * Email is opt-in because bookings, payments and quotes already send their own emails
+ */
+export const DEFAULT_NOTIFICATION_CHANNELS: INotificationChannelSettings = {
+  inApp: true,
+  email: false,
+  push: true,
+};
+
+/**
+ * NotificationPreference domain entity holding a user's notification channel choices
+ * Contains core business logic for resolving channels and quiet hours
+ */
+export class NotificationPreference {
+  constructor(
+    public readonly userId: string,
+    public readonly channels: INotificationTypePreference[],
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly quietHours?: IQuietHours,
+    public readonly dailyDigest: boolean = false // Daily email summarising unread notifications
+  ) {}
+
+  /**
+   * Creates the preferences of a user who has not changed any settings
+   */
+  static createDefault(userId: string): NotificationPreference {
+    const now = new Date();
+    return new NotificationPreference(userId, [], now, now);
+  }
+
+  /**
+   * Gets the channels a notification type is delivered on
+   */
+  channelsFor(type: NotificationType): INotificationChannelSettings {
+    const preference = this.channels.find((channel) => channel.type === type);
+    if (!preference) {
+      return { ...DEFAULT_NOTIFICATION_CHANNELS };
+    }
+    return { inApp: preference.inApp, email: preference.email, push: preference.push };
+  }
+
+  /**
+   * Checks if the given moment falls inside the user's quiet hours
+   */
+  isInQuietHours(at: Date = new Date()): boolean {
+    if (!this.quietHours?.enabled) {
+      return false;
+    }
+
+    const start = NotificationPreference.toMinutes(this.quietHours.start);
+    const end = NotificationPreference.toMinutes(this.quietHours.end);
+    if (start === end) {
+      return false;
+    }
+
+    const localTime = new Intl.DateTimeFormat('en-GB', {
+      timeZone: this.quietHours.timezone,
+      hour: '2-digit',
+      minute: '2-digit',
+      hourCycle: 'h23',
+    }).format(at);
+    const now = NotificationPreference.toMinutes(localTime);
+
+    // Windows that wrap past midnight cover the end of one day and the start of the next
+    return start < end ? now >= start && now < end : now >= start || now < end;
+  }
+
+  private static toMinutes(time: string): number {
+    const [hours, minutes] = time.split(':').map(Number);
+    return hours * 60 + minutes;
+  }
+}
@@ -14,6 +14,21 @@ export enum PaymentStatus {
 export enum PaymentMethod {
   STRIPE = 'stripe',
   PAYPAL = 'paypal',
+  INVOICE = 'invoice', // Corporate bookings billed on the monthly invoice
+}
+
+/**
+ * Chargeback raised by the cardholder's bank against a payment
+ * Status follows the gateway's dispute lifecycle (e.g. needs_response, under_review, won, lost)
+ */
+export interface IPaymentDispute {
+  disputeId: string;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: string;
+  openedAt: Date;
+  closedAt?: Date;
 }
 
 /**
@@ -34,7 +49,8 @@ export class Payment {
     public readonly paymentIntentId?: string,
     public readonly transactionId?: string,
     public readonly paidAt?: Date,
-    public readonly metadata?: Record<string, unknown>
+    public readonly metadata?: Record<string, unknown>,
+    public readonly dispute?: IPaymentDispute
   ) {}
 
   /**
@@ -71,4 +87,11 @@ export class Payment {
   isRefunded(): boolean {
     return this.status === PaymentStatus.REFUNDED;
   }
+
+  /**
+   * Checks if a chargeback on the payment is still being decided
+   */
+  hasOpenDispute(): boolean {
+    return !!this.dispute && !this.dispute.closedAt;
+  }
 }
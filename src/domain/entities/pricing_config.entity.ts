@@ -1,3 +1,5 @@
+import { CURRENCY_CONFIG } from '../../shared/constants';
+
 /**
  * PricingConfig domain entity representing a pricing configuration version
  * Contains core business logic and validation rules
@@ -13,7 +15,9 @@ export class PricingConfig {
     public readonly isActive: boolean,
     public readonly createdBy: string,
     public readonly createdAt: Date,
-    public readonly updatedAt: Date
+    public readonly updatedAt: Date,
+    public readonly useActualFuelConsumption: boolean = false,
+    public readonly currency: string = CURRENCY_CONFIG.DEFAULT_CURRENCY
   ) {}
 
   /**
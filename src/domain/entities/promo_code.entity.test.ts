@@ -0,0 +1,55 @@
+import { describe, it, expect } from 'vitest';
+import { PromoCode, PromoDiscountType } from './promo_code.entity';
+
+describe('PromoCode Entity', () => {
+  const createPromoCode = (
+    discountType: PromoDiscountType,
+    discountValue: number,
+    overrides: { maxUses?: number; perUserLimit?: number; minTripValue?: number; eventTypes?: string[]; usedCount?: number } = {}
+  ): PromoCode =>
+    new PromoCode(
+      'promo-1',
+      'SUMMER10',
+      discountType,
+      discountValue,
+      new Date('2030-06-01T00:00:00Z'),
+      new Date('2030-08-31T23:59:59Z'),
+      overrides.usedCount ?? 0,
+      overrides.eventTypes ?? [],
+      true,
+      'admin-1',
+      new Date(),
+      new Date(),
+      undefined,
+      overrides.maxUses,
+      overrides.perUserLimit,
+      overrides.minTripValue
+    );
+
+  it('should calculate percentage and capped fixed discounts', () => {
+    expect(createPromoCode('percentage', 10).calculateDiscount(5000)).toBe(500);
+    expect(createPromoCode('fixed', 800).calculateDiscount(5000)).toBe(800);
+    expect(createPromoCode('fixed', 800).calculateDiscount(600)).toBe(600);
+    // Fixed amounts are in the base currency
+    expect(createPromoCode('fixed', 800).calculateDiscount(5000, 0.5)).toBe(400);
+  });
+
+  it('should not discount trips below the minimum trip value', () => {
+    const promoCode = createPromoCode('percentage', 10, { minTripValue: 10000 });
+
+    expect(promoCode.calculateDiscount(9999)).toBe(0);
+    expect(promoCode.calculateDiscount(10000)).toBe(1000);
+    expect(promoCode.calculateDiscount(6000, 0.5)).toBe(600);
+  });
+
+  it('should report why a code cannot be applied', () => {
+    const inWindow = new Date('2030-07-01T00:00:00Z');
+
+    expect(createPromoCode('percentage', 10).getIneligibilityReason(undefined, 0, inWindow)).toBeNull();
+    expect(createPromoCode('percentage', 10).getIneligibilityReason(undefined, 0, new Date('2030-09-01T00:00:00Z'))).toBe('expired');
+    expect(createPromoCode('percentage', 10, { maxUses: 5, usedCount: 5 }).getIneligibilityReason(undefined, 0, inWindow)).toBe('usage_limit_reached');
+    expect(createPromoCode('percentage', 10, { perUserLimit: 1 }).getIneligibilityReason(undefined, 1, inWindow)).toBe('user_limit_reached');
+    expect(createPromoCode('percentage', 10, { eventTypes: ['Wedding'] }).getIneligibilityReason('wedding', 0, inWindow)).toBeNull();
+    expect(createPromoCode('percentage', 10, { eventTypes: ['Wedding'] }).getIneligibilityReason('Corporate', 0, inWindow)).toBe('event_type_not_eligible');
+  });
+});
@@ -0,0 +1,113 @@
+/**
+ * How a promo code discounts a quote
+ * percentage: discountValue percent of the quote subtotal
+ * fixed: discountValue in the pricing config's base currency, capped at the subtotal
+ */
+export type PromoDiscountType = 'percentage' | 'fixed';
+
+/**
+ * Why a promo code cannot be applied to a quote
+ */
+export type PromoCodeIneligibilityReason =
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit_reached'
+  | 'user_limit_reached'
+  | 'event_type_not_eligible';
+
+/**
+ * PromoCode domain entity managed by admins
+ * Eligibility is checked when a code is applied to a draft; the minimum trip value is checked on every pricing run
+ */
+export class PromoCode {
+  constructor(
+    public readonly promoCodeId: string,
+    public readonly code: string,
+    public readonly discountType: PromoDiscountType,
+    public readonly discountValue: number,
+    public readonly validFrom: Date,
+    public readonly validUntil: Date,
+    public readonly usedCount: number,
+    public readonly eventTypes: string[],
+    public readonly isActive: boolean,
+    public readonly createdBy: string,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly description?: string,
+    public readonly maxUses?: number,
+    public readonly perUserLimit?: number,
+    public readonly minTripValue?: number
+  ) {}
+
+  /**
+   * Checks if the code can be redeemed at the given time
+   */
+  isWithinValidity(now: Date = new Date()): boolean {
+    return now.getTime() >= this.validFrom.getTime() && now.getTime() <= this.validUntil.getTime();
+  }
+
+  /**
+   * Checks if the code is limited to certain event types and the given one is among them
+   * Codes without event types apply to every trip
+   */
+  appliesToEventType(eventType?: string): boolean {
+    if (this.eventTypes.length === 0) {
+      return true;
+    }
+    const normalized = eventType?.trim().toLowerCase();
+    return !!normalized && this.eventTypes.some((allowed) => allowed.trim().toLowerCase() === normalized);
+  }
+
+  /**
+   * Gets the reason the code cannot be applied, or null if it can
+   * @param userRedemptionCount - Times the user has already redeemed this code
+   */
+  getIneligibilityReason(
+    eventType: string | undefined,
+    userRedemptionCount: number,
+    now: Date = new Date()
+  ): PromoCodeIneligibilityReason | null {
+    if (!this.isActive) {
+      return 'inactive';
+    }
+    if (now.getTime() < this.validFrom.getTime()) {
+      return 'not_started';
+    }
+    if (now.getTime() > this.validUntil.getTime()) {
+      return 'expired';
+    }
+    if (this.maxUses !== undefined && this.usedCount >= this.maxUses) {
+      return 'usage_limit_reached';
+    }
+    if (this.perUserLimit !== undefined && userRedemptionCount >= this.perUserLimit) {
+      return 'user_limit_reached';
+    }
+    if (!this.appliesToEventType(eventType)) {
+      return 'event_type_not_eligible';
+    }
+    return null;
+  }
+
+  /**
+   * Calculates the discount on a subtotal
+   * Fixed amounts and the minimum trip value are in the base currency, so they are scaled by exchangeRate
+   * Returns 0 when the subtotal is below the minimum trip value
+   */
+  calculateDiscount(subtotal: number, exchangeRate: number = 1): number {
+    if (subtotal <= 0) {
+      return 0;
+    }
+
+    if (this.minTripValue !== undefined && subtotal < this.minTripValue * exchangeRate) {
+      return 0;
+    }
+
+    const discount =
+      this.discountType === 'percentage'
+        ? (subtotal * this.discountValue) / 100
+        : this.discountValue * exchangeRate;
+
+    return Math.min(discount, subtotal);
+  }
+}
@@ -0,0 +1,17 @@
+/**
+ * PromoCodeRedemption domain entity
+ * Records a promo code being used on a paid quote, one per quote
+ */
+export class PromoCodeRedemption {
+  constructor(
+    public readonly redemptionId: string,
+    public readonly promoCodeId: string,
+    public readonly code: string,
+    public readonly userId: string,
+    public readonly quoteId: string,
+    public readonly discountAmount: number,
+    public readonly currency: string,
+    public readonly createdAt: Date,
+    public readonly reservationId?: string
+  ) {}
+}
@@ -0,0 +1,75 @@
+import { describe, it, expect } from 'vitest';
+import { IQuotePricingVersion } from './quote.entity';
+import { createQuotedQuoteFixture } from '../../shared/test/fixtures/quote.fixture';
+
+describe('Quote Entity', () => {
+  const pricing = {
+    taxPercentageAtTime: 18,
+    baseFare: 5000,
+    distanceFare: 3000,
+    driverCharge: 2000,
+    nightCharge: 0,
+    amenitiesTotal: 0,
+    subtotal: 10000,
+    discount: 1000,
+    promoCode: 'SUMMER10',
+    tax: 1620,
+    total: 10620,
+    currency: 'INR',
+  };
+
+  it('should recalculate tax and total from overrides and line items', () => {
+    const quote = createQuotedQuoteFixture({ pricing });
+
+    const negotiated = quote.buildNegotiatedPricing(
+      [{ component: 'driverCharge', amount: 1500 }],
+      [{ description: 'Decorations', amount: 500 }, { description: 'Loyalty credit', amount: -1000 }]
+    );
+
+    expect(negotiated.driverCharge).toBe(1500);
+    expect(negotiated.subtotal).toBe(9000);
+    expect(negotiated.discount).toBe(1000);
+    expect(negotiated.tax).toBe(1440);
+    expect(negotiated.total).toBe(9440);
+    expect(negotiated.promoCode).toBe('SUMMER10');
+    expect(negotiated.lineItems).toHaveLength(2);
+  });
+
+  it('should keep overridden tax and cap an overridden discount at the subtotal', () => {
+    const quote = createQuotedQuoteFixture({ pricing });
+
+    const negotiated = quote.buildNegotiatedPricing(
+      [
+        { component: 'discount', amount: 20000 },
+        { component: 'tax', amount: 0 },
+      ],
+      []
+    );
+
+    expect(negotiated.discount).toBe(10000);
+    expect(negotiated.tax).toBe(0);
+    expect(negotiated.total).toBe(0);
+    expect(negotiated.lineItems).toBeUndefined();
+  });
+
+  it('should supersede open and accepted counter-offers when repriced', () => {
+    const version = (number: number, status: IQuotePricingVersion['status']): IQuotePricingVersion => ({
+      version: number,
+      pricing,
+      overrides: [],
+      lineItems: [],
+      status,
+      proposedBy: 'admin-1',
+      proposedAt: new Date(),
+    });
+
+    expect(createQuotedQuoteFixture({ pricing }).getSupersededPricingVersions()).toBeUndefined();
+
+    const negotiated = createQuotedQuoteFixture({
+      pricing,
+      pricingVersions: [version(1, 'rejected'), version(2, 'accepted')],
+    });
+
+    expect(negotiated.getSupersededPricingVersions()?.map((v) => v.status)).toEqual(['rejected', 'superseded']);
+  });
+});
@@ -1,4 +1,6 @@
 import { QuoteStatus, TripType } from '../../shared/constants';
+import { IExchangeRateSnapshot } from './exchange_rate.entity';
+import { roundCurrencyAmount } from '../../shared/utils/currency.util';
 
 /**
  * Selected vehicle structure
@@ -22,8 +24,91 @@ export interface IPricingBreakdown {
   nightCharge?: number;
   amenitiesTotal?: number;
   subtotal?: number;
+  discount?: number; // Promo code discount, taken off the subtotal before tax
+  promoCode?: string;
+  lineItems?: IPricingLineItem[]; // Ad-hoc items added during negotiation, included in the subtotal
   tax?: number;
   total?: number;
+  currency?: string;
+  baseCurrency?: string;
+  exchangeRateAtTime?: number;
+}
+
+/**
+ * Pricing breakdown components an admin can override while negotiating
+ */
+export type NegotiablePricingComponent =
+  | 'baseFare'
+  | 'distanceFare'
+  | 'driverCharge'
+  | 'nightCharge'
+  | 'amenitiesTotal'
+  | 'discount'
+  | 'tax';
+
+export const NEGOTIABLE_PRICING_COMPONENTS: NegotiablePricingComponent[] = [
+  'baseFare',
+  'distanceFare',
+  'driverCharge',
+  'nightCharge',
+  'amenitiesTotal',
+  'discount',
+  'tax',
+];
+
+/**
+ * Components that add up to the subtotal
+ */
+const SUBTOTAL_COMPONENTS: NegotiablePricingComponent[] = [
+  'baseFare',
+  'distanceFare',
+  'driverCharge',
+  'nightCharge',
+  'amenitiesTotal',
+];
+
+/**
+ * Admin override of a single pricing component
+ */
+export interface IPricingOverride {
+  component: NegotiablePricingComponent;
+  originalAmount: number;
+  amount: number;
+  reason: string;
+}
+
+/**
+ * Ad-hoc pricing line item
+ * Negative amounts are credits
+ */
+export interface IPricingLineItem {
+  description: string;
+  amount: number;
+  reason?: string;
+}
+
+/**
+ * Status of a negotiated pricing version
+ * proposed: counter-offer waiting for the user
+ * accepted/rejected: answered by the user
+ * superseded: replaced by a newer counter-offer or a recalculation
+ */
+export type QuotePricingVersionStatus = 'proposed' | 'accepted' | 'rejected' | 'superseded';
+
+/**
+ * Counter-offer revision kept in the quote's negotiation history
+ */
+export interface IQuotePricingVersion {
+  version: number;
+  pricing: IPricingBreakdown;
+  overrides: IPricingOverride[];
+  lineItems: IPricingLineItem[];
+  status: QuotePricingVersionStatus;
+  proposedBy: string;
+  proposedAt: Date;
+  note?: string;
+  respondedAt?: Date;
+  responseReason?: string;
 }
 
 /**
@@ -68,7 +153,11 @@ export class Quote {
     public readonly actualDriverRate?: number,
     public readonly pricingLastUpdatedAt?: Date,
     public readonly quotedAt?: Date,
-    public readonly isDeleted: boolean = false
+    public readonly isDeleted: boolean = false,
+    public readonly currency?: string,
+    public readonly promoCode?: string,
+    public readonly pricingVersions?: IQuotePricingVersion[],
+    public readonly requotedFromQuoteId?: string
   ) {}
 
   /**
@@ -94,7 +183,7 @@ export class Quote {
 
   /**
    * Checks if the quote can be edited
-   * EXPIRED quotes cannot be edited (user must resubmit)
+   * EXPIRED quotes cannot be edited (user must requote)
    */
   canBeEdited(): boolean {
     return (this.status === QuoteStatus.DRAFT || this.status === QuoteStatus.SUBMITTED)
@@ -128,6 +217,21 @@ export class Quote {
     return !!this.pricing && !!this.pricing.total;
   }
 
+  /**
+   * Gets the exchange rate the current pricing was calculated with
+   * Returns undefined for quotes priced before multi-currency support
+   */
+  getPricingExchangeRate(): IExchangeRateSnapshot | undefined {
+    if (!this.pricing?.currency || !this.pricing.baseCurrency || this.pricing.exchangeRateAtTime === undefined) {
+      return undefined;
+    }
+    return {
+      baseCurrency: this.pricing.baseCurrency,
+      currency: this.pricing.currency,
+      rate: this.pricing.exchangeRateAtTime,
+    };
+  }
+
   /**
    * Checks if the quote is complete (all steps done)
    */
@@ -149,6 +253,13 @@ export class Quote {
     return this.status === QuoteStatus.EXPIRED;
   }
 
+  /**
+   * Checks if the quote can be cloned into a new quote for the same trip
+   */
+  canBeRequoted(): boolean {
+    return this.isExpired() && !this.isDeleted;
+  }
+
   /**
    * Checks if the quote payment window has expired (24 hours)
    */
@@ -166,5 +277,74 @@ export class Quote {
   isWithinPaymentWindow(): boolean {
     return this.isQuoted() && !this.isPaymentWindowExpired();
   }
-}
 
+  /**
+   * Checks if an admin can send a counter-offer
+   * Only quotes that have been priced with a driver can be negotiated
+   */
+  canBeNegotiated(): boolean {
+    return (this.status === QuoteStatus.QUOTED || this.status === QuoteStatus.NEGOTIATING) && this.hasPricing();
+  }
+
+  /**
+   * Gets the counter-offer waiting for the user's answer, if any
+   */
+  getPendingCounterOffer(): IQuotePricingVersion | undefined {
+    return (this.pricingVersions ?? []).find((version) => version.status === 'proposed');
+  }
+
+  /**
+   * Builds counter-offer pricing from the current pricing
+   * Overridden components replace the calculated ones, line items are added to the subtotal,
+   * and tax is recalculated on the discounted subtotal unless it is overridden too
+   */
+  buildNegotiatedPricing(
+    overrides: Array<{ component: NegotiablePricingComponent; amount: number }>,
+    lineItems: IPricingLineItem[]
+  ): IPricingBreakdown {
+    const pricing: IPricingBreakdown = { ...(this.pricing ?? {}) };
+    const currency = pricing.currency ?? this.currency;
+    const round = (amount: number): number => (currency ? roundCurrencyAmount(amount, currency) : amount);
+    const overrideFor = (component: NegotiablePricingComponent): number | undefined =>
+      overrides.find((override) => override.component === component)?.amount;
+
+    for (const component of SUBTOTAL_COMPONENTS) {
+      pricing[component] = overrideFor(component) ?? pricing[component] ?? 0;
+    }
+
+    const lineItemsTotal = lineItems.reduce((total, item) => total + item.amount, 0);
+    const subtotal = round(
+      SUBTOTAL_COMPONENTS.reduce((total, component) => total + (pricing[component] ?? 0), 0) + lineItemsTotal
+    );
+
+    // An override or a smaller subtotal can't push the discount past the subtotal
+    const discount = Math.min(overrideFor('discount') ?? pricing.discount ?? 0, Math.max(subtotal, 0));
+    const taxableAmount = subtotal - discount;
+    const tax = overrideFor('tax') ?? round((taxableAmount * (pricing.taxPercentageAtTime ?? 0)) / 100);
+
+    return {
+      ...pricing,
+      lineItems: lineItems.length > 0 ? lineItems : undefined,
+      subtotal,
+      discount,
+      tax,
+      total: round(taxableAmount + tax),
+    };
+  }
+
+  /**
+   * Gets the negotiation history with open and accepted counter-offers marked as superseded
+   * Used when the quote is repriced, since a recalculated price replaces any negotiated one
+   * Returns undefined when the quote was never negotiated
+   */
+  getSupersededPricingVersions(): IQuotePricingVersion[] | undefined {
+    if (!this.pricingVersions || this.pricingVersions.length === 0) {
+      return undefined;
+    }
+    return this.pricingVersions.map((version) =>
+      version.status === 'proposed' || version.status === 'accepted'
+        ? { ...version, status: 'superseded' as const }
+        : version
+    );
+  }
+}
@@ -33,6 +33,39 @@ export interface IOriginalPricing {
   paidAt?: Date;
 }
 
+/**
+ * Installment kinds of a payment plan
+ */
+export type PaymentInstallmentKind = 'deposit' | 'balance';
+
+/**
+ * Installment state
+ * Overdue installments were not paid by their due date
+ */
+export type PaymentInstallmentStatus = 'pending' | 'paid' | 'overdue';
+
+/**
+ * Single installment of a payment plan
+ */
+export interface IPaymentInstallment {
+  kind: PaymentInstallmentKind;
+  amount: number;
+  dueAt: Date;
+  status: PaymentInstallmentStatus;
+  paymentId?: string;
+  paidAt?: Date;
+}
+
+/**
+ * Payment schedule of a reservation paid by deposit and balance
+ */
+export interface IPaymentSchedule {
+  totalAmount: number;
+  currency: string;
+  depositPercentage: number;
+  installments: IPaymentInstallment[];
+}
+
 /**
  * Reservation domain entity representing a reservation in the bus rental system
  * Contains core business logic and validation rules
@@ -68,7 +101,10 @@ export class Reservation {
     public readonly cancelledAt?: Date,
     public readonly startedAt?: Date,
     public readonly completedAt?: Date,
-    public readonly driverReport?: { content: string; submittedAt: Date }
+    public readonly driverReport?: { content: string; submittedAt: Date },
+    public readonly cancellationPolicyId?: string,
+    public readonly cancellationPolicyVersion?: number,
+    public readonly paymentSchedule?: IPaymentSchedule
   ) {}
 
   /**
@@ -140,5 +176,33 @@ export class Reservation {
   canBeModified(): boolean {
     return !this.isCancelled() && !this.isCompleted() && !this.isRefunded();
   }
+
+  /**
+   * Gets the first installment of the payment plan that is still unpaid
+   */
+  getOutstandingInstallment(): IPaymentInstallment | undefined {
+    return this.paymentSchedule?.installments.find((installment) => installment.status !== 'paid');
+  }
+
+  /**
+   * Gets the payments the trip price was collected through, in the order they were paid
+   * Deposit bookings add a payment per paid installment to the one they were booked with
+   */
+  getTripPaymentIds(): string[] {
+    const paymentIds = [this.paymentId];
+    for (const installment of this.paymentSchedule?.installments ?? []) {
+      if (installment.status === 'paid' && installment.paymentId && !paymentIds.includes(installment.paymentId)) {
+        paymentIds.push(installment.paymentId);
+      }
+    }
+    return paymentIds;
+  }
+
+  /**
+   * Checks if part of the trip price still has to be paid
+   */
+  hasOutstandingBalance(): boolean {
+    return !!this.getOutstandingInstallment();
+  }
 }
 
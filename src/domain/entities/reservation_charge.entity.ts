@@ -1,3 +1,5 @@
+import { CURRENCY_CONFIG } from '../../shared/constants';
+
 /**
  * ReservationCharge domain entity representing an additional charge for a reservation
  * Tracks extra charges added after initial payment
@@ -9,7 +11,7 @@ export class ReservationCharge {
     public readonly chargeType: 'additional_passenger' | 'vehicle_upgrade' | 'amenity_add' | 'late_fee' | 'other',
     public readonly description: string,
     public readonly amount: number,
-    public readonly currency: string = 'INR',
+    public readonly currency: string = CURRENCY_CONFIG.DEFAULT_CURRENCY,
     public readonly addedBy: string, // Admin user ID
     public readonly isPaid: boolean = false,
     public readonly paidAt?: Date,
@@ -0,0 +1,41 @@
+/**
+ * Kind of billing document issued for a reservation
+ * invoice: the booking payment
+ * receipt: later payments such as additional charges and deposit balances
+ * credit_note: money returned through a refund or a lost chargeback
+ */
+export type ReservationInvoiceType = 'invoice' | 'receipt' | 'credit_note';
+
+/**
+ * ReservationInvoice domain entity representing an issued billing document
+ * Numbers are allocated per type from a gap-free yearly sequence and never change once issued
+ */
+export class ReservationInvoice {
+  constructor(
+    public readonly invoiceId: string,
+    public readonly invoiceNumber: string,
+    public readonly documentType: ReservationInvoiceType,
+    public readonly reservationId: string,
+    public readonly userId: string,
+    public readonly paymentId: string,
+    public readonly sourceKey: string, // Identifies what the document was issued for so it is only issued once
+    public readonly description: string,
+    public readonly amount: number,
+    public readonly currency: string,
+    public readonly paymentMethod: string,
+    public readonly issuedAt: Date,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly chargeId?: string,
+    public readonly refundId?: string,
+    public readonly relatedInvoiceId?: string, // Invoice a credit note is issued against
+    public readonly reason?: string
+  ) {}
+
+  /**
+   * Checks if the document returns money to the customer
+   */
+  isCreditNote(): boolean {
+    return this.documentType === 'credit_note';
+  }
+}
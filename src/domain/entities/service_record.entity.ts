@@ -0,0 +1,19 @@
+/**
+ * ServiceRecord domain entity representing completed work on a vehicle
+ * Forms the vehicle's service history and resets its service intervals
+ */
+export class ServiceRecord {
+  constructor(
+    public readonly recordId: string,
+    public readonly vehicleId: string,
+    public readonly serviceType: string,
+    public readonly servicedAt: Date,
+    public readonly odometerReading: number,
+    public readonly cost: number,
+    public readonly vendor: string,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly notes?: string,
+    public readonly windowId?: string
+  ) {}
+}
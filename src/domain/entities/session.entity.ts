@@ -0,0 +1,37 @@
+import { SessionRevokeReason } from '../../shared/constants';
+
+/**
+ * Session Domain Entity
+ * One login on one device, kept alive by rotating refresh tokens
+ * Only the current refresh token (refreshTokenId) may be exchanged; presenting an older one means it was copied
+ */
+export class Session {
+  constructor(
+    public readonly sessionId: string,
+    public readonly userId: string, // User or driver id
+    public readonly role: string,
+    public readonly refreshTokenId: string,
+    public readonly deviceName: string,
+    public readonly ipAddress: string | null,
+    public readonly userAgent: string | null,
+    public readonly createdAt: Date,
+    public readonly lastSeenAt: Date,
+    public readonly expiresAt: Date,
+    public readonly revokedAt: Date | null = null,
+    public readonly revokedReason: SessionRevokeReason | null = null
+  ) {}
+
+  /**
+   * Checks if the session can still be refreshed
+   */
+  isActive(now: Date = new Date()): boolean {
+    return this.revokedAt === null && this.expiresAt > now;
+  }
+
+  /**
+   * Seconds until the session expires, at least 1 so it can be used as a Redis TTL
+   */
+  getRemainingSeconds(now: Date = new Date()): number {
+    return Math.max(1, Math.ceil((this.expiresAt.getTime() - now.getTime()) / 1000));
+  }
+}
@@ -0,0 +1,70 @@
+import { hashRecoveryCode, verifyTotp } from '../../shared/utils/totp.util';
+
+/**
+ * Two-factor authentication domain entity
+ * Holds a user's authenticator app secret and the hashes of their unused recovery codes
+ * A record that is not enabled is an enrollment waiting for its first code
+ */
+export class TwoFactorAuth {
+  constructor(
+    public readonly userId: string,
+    public readonly secret: string, // Base32 TOTP secret shared with the authenticator app
+    public readonly enabled: boolean,
+    public readonly recoveryCodeHashes: string[],
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly enabledAt?: Date,
+    public readonly lastUsedStep?: number // Time step of the last accepted code, so a code works only once
+  ) {}
+
+  /**
+   * Starts an enrollment with a new secret
+   */
+  static createPending(userId: string, secret: string): TwoFactorAuth {
+    const now = new Date();
+    return new TwoFactorAuth(userId, secret, false, [], now, now);
+  }
+
+  /**
+   * Turns two-factor authentication on once the first code was accepted
+   */
+  enable(step: number, recoveryCodeHashes: string[]): TwoFactorAuth {
+    const now = new Date();
+    return new TwoFactorAuth(this.userId, this.secret, true, recoveryCodeHashes, this.createdAt, now, now, step);
+  }
+
+  /**
+   * Replaces all recovery codes, e.g. after the old ones were used up or exposed
+   */
+  withRecoveryCodes(recoveryCodeHashes: string[]): TwoFactorAuth {
+    return new TwoFactorAuth(
+      this.userId,
+      this.secret,
+      this.enabled,
+      recoveryCodeHashes,
+      this.createdAt,
+      new Date(),
+      this.enabledAt,
+      this.lastUsedStep
+    );
+  }
+
+  /**
+   * Checks an authenticator app code
+   * @returns The time step of the code, or null when it does not match or was already used
+   */
+  matchCode(code: string, at: Date = new Date()): number | null {
+    const step = verifyTotp(this.secret, code, { at });
+    if (step === null || (this.lastUsedStep !== undefined && step <= this.lastUsedStep)) {
+      return null;
+    }
+    return step;
+  }
+
+  /**
+   * Checks if a recovery code is one of the unused ones
+   */
+  hasRecoveryCode(code: string): boolean {
+    return this.recoveryCodeHashes.includes(hashRecoveryCode(code));
+  }
+}
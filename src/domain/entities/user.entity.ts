@@ -1,4 +1,5 @@
-import { UserRole, UserStatus } from "../../shared/constants";
+import { AdminRole, Permission, UserRole, UserStatus } from "../../shared/constants";
+import { resolvePermissions } from "../../shared/utils/permission.util";
 
 /**
  * User domain entity representing a user in the bus rental system
@@ -19,6 +20,8 @@ export class User {
         private readonly password?: string,
         public readonly googleId?: string,
         public readonly isDeleted: boolean = false,
+        public readonly quoteFollowUpEmails: boolean = true,
+        public readonly adminRole?: AdminRole,
     ) {}
 
     /**
@@ -38,6 +41,13 @@ export class User {
         return this.role === UserRole.ADMIN;
     }
 
+    /**
+     * Gets the staff permissions granted by the user's role and staff role
+     */
+    getPermissions(): Permission[] {
+        return resolvePermissions(this.role, this.adminRole);
+    }
+
     /**
      * Checks if the user has a password set
      */
@@ -58,4 +68,11 @@ export class User {
     isBlocked(): boolean {
         return this.status === UserStatus.BLOCKED;
     }
+
+    /**
+     * Checks if the user wants quote reminder and follow-up emails
+     */
+    acceptsQuoteFollowUps(): boolean {
+        return this.quoteFollowUpEmails && !this.isDeleted;
+    }
 }
\ No newline at end of file
@@ -0,0 +1,66 @@
+import { describe, it, expect } from 'vitest';
+import { Vehicle } from './vehicle.entity';
+import { VehicleStatus } from '../../shared/constants';
+
+describe('Vehicle Entity', () => {
+  const createVehicle = (
+    odometerReading: number,
+    serviceIntervalKm?: number,
+    serviceIntervalDays?: number,
+    lastServiceOdometer?: number,
+    lastServicedAt?: Date
+  ): Vehicle =>
+    new Vehicle(
+      'vehicle-1',
+      'type-1',
+      40,
+      5000,
+      10,
+      'AB-123',
+      'Coach',
+      2022,
+      4,
+      VehicleStatus.AVAILABLE,
+      new Date(),
+      new Date(),
+      [],
+      [],
+      odometerReading,
+      serviceIntervalKm,
+      serviceIntervalDays,
+      lastServiceOdometer,
+      lastServicedAt
+    );
+
+  describe('isServiceDue', () => {
+    it('should return false when no service interval is configured', () => {
+      // Arrange
+      const vehicle = createVehicle(250000);
+
+      // Act & Assert
+      expect(vehicle.getKmUntilService()).toBeUndefined();
+      expect(vehicle.isServiceDue()).toBe(false);
+    });
+
+    it('should return true once the mileage interval since the last service is reached', () => {
+      // Arrange
+      const notDue = createVehicle(24000, 10000, undefined, 15000);
+      const due = createVehicle(25000, 10000, undefined, 15000);
+
+      // Act & Assert
+      expect(notDue.getKmUntilService()).toBe(1000);
+      expect(notDue.isServiceDue()).toBe(false);
+      expect(due.isServiceDue()).toBe(true);
+    });
+
+    it('should return true once the time interval since the last service has elapsed', () => {
+      // Arrange
+      const vehicle = createVehicle(0, undefined, 30, undefined, new Date('2030-01-01T00:00:00Z'));
+
+      // Act & Assert
+      expect(vehicle.getNextServiceDueAt()).toEqual(new Date('2030-01-31T00:00:00Z'));
+      expect(vehicle.isServiceDue(new Date('2030-01-30T00:00:00Z'))).toBe(false);
+      expect(vehicle.isServiceDue(new Date('2030-01-31T00:00:00Z'))).toBe(true);
+    });
+  });
+});
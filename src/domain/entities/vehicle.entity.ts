@@ -19,7 +19,13 @@ export class Vehicle {
         public readonly createdAt: Date,
         public readonly updatedAt: Date,
         public readonly imageUrls?: string[],
-        public readonly amenityIds: string[] = []
+        public readonly amenityIds: string[] = [],
+        public readonly odometerReading: number = 0,
+        public readonly serviceIntervalKm?: number,
+        public readonly serviceIntervalDays?: number,
+        public readonly lastServiceOdometer?: number,
+        public readonly lastServicedAt?: Date,
+        public readonly averageFuelConsumption?: number
     ) {}
 
   /**
@@ -41,5 +47,50 @@ export class Vehicle {
    */
   isUnderMaintenance(): boolean {
     return this.status === VehicleStatus.MAINTENANCE;
-  }       
-}
\ No newline at end of file
+  }
+
+  /**
+   * Fuel consumption (km/L) to price distance fares with
+   * Prefers the measured rolling average from trip logs when requested and available
+   */
+  getPricingFuelConsumption(preferActual: boolean = false): number {
+    if (preferActual && this.averageFuelConsumption !== undefined && this.averageFuelConsumption > 0) {
+      return this.averageFuelConsumption;
+    }
+    return this.fuelConsumption;
+  }
+
+  /**
+   * Kilometres left before the next mileage-based service
+   * Undefined when no mileage interval is configured
+   */
+  getKmUntilService(): number | undefined {
+    if (this.serviceIntervalKm === undefined) {
+      return undefined;
+    }
+    return this.serviceIntervalKm - (this.odometerReading - (this.lastServiceOdometer ?? 0));
+  }
+
+  /**
+   * Date the next time-based service is due
+   * Undefined when no time interval is configured or the vehicle has never been serviced
+   */
+  getNextServiceDueAt(): Date | undefined {
+    if (this.serviceIntervalDays === undefined || !this.lastServicedAt) {
+      return undefined;
+    }
+    return new Date(this.lastServicedAt.getTime() + this.serviceIntervalDays * 24 * 60 * 60 * 1000);
+  }
+
+  /**
+   * Checks if either service interval has been reached
+   */
+  isServiceDue(now: Date = new Date()): boolean {
+    const kmUntilService = this.getKmUntilService();
+    const nextServiceDueAt = this.getNextServiceDueAt();
+    return (
+      (kmUntilService !== undefined && kmUntilService <= 0) ||
+      (nextServiceDueAt !== undefined && nextServiceDueAt <= now)
+    );
+  }
+}
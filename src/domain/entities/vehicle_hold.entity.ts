@@ -0,0 +1,56 @@
+/**
+ * Lifecycle of a vehicle hold
+ * held: soft hold while a quote awaits payment, lapses at expiresAt
+ * confirmed: hard booking backing a paid reservation
+ * released: no longer blocks the vehicle
+ */
+export type VehicleHoldStatus = 'held' | 'confirmed' | 'released';
+
+/**
+ * VehicleHold domain entity representing a claim on a vehicle for a time window
+ * Prevents the same vehicle from being quoted or booked twice for overlapping trips
+ */
+export class VehicleHold {
+  constructor(
+    public readonly holdId: string,
+    public readonly vehicleId: string,
+    public readonly quoteId: string,
+    public readonly startAt: Date,
+    public readonly endAt: Date,
+    public readonly status: VehicleHoldStatus,
+    public readonly heldAt: Date,
+    public readonly expiresAt?: Date,
+    public readonly reservationId?: string,
+    public readonly confirmedAt?: Date,
+    public readonly releasedAt?: Date,
+    public readonly createdAt: Date = new Date(),
+    public readonly updatedAt: Date = new Date()
+  ) {}
+
+  /**
+   * Checks if the hold currently blocks the vehicle
+   */
+  isActive(now: Date = new Date()): boolean {
+    if (this.status === 'confirmed') {
+      return true;
+    }
+    if (this.status === 'held') {
+      return !this.expiresAt || this.expiresAt.getTime() > now.getTime();
+    }
+    return false;
+  }
+
+  /**
+   * Checks if the hold is a hard booking
+   */
+  isConfirmed(): boolean {
+    return this.status === 'confirmed';
+  }
+
+  /**
+   * Checks if the hold's window overlaps the given window
+   */
+  overlaps(startAt: Date, endAt: Date): boolean {
+    return this.startAt.getTime() < endAt.getTime() && startAt.getTime() < this.endAt.getTime();
+  }
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect } from 'vitest';
+import { IFuelFill, VehicleTripLog } from './vehicle_trip_log.entity';
+
+describe('VehicleTripLog Entity', () => {
+  const createLog = (fuelFills: IFuelFill[], endOdometer?: number): VehicleTripLog =>
+    new VehicleTripLog(
+      'log-1',
+      'reservation-1',
+      'vehicle-1',
+      'driver-1',
+      12000,
+      400,
+      4,
+      fuelFills,
+      new Date('2030-06-01T08:00:00Z'),
+      new Date(),
+      new Date(),
+      endOdometer
+    );
+
+  describe('getActualKmPerLitre', () => {
+    it('should return undefined while the end odometer reading is missing', () => {
+      // Arrange
+      const log = createLog([{ litres: 50, filledAt: new Date() }]);
+
+      // Act & Assert
+      expect(log.isCompleted()).toBe(false);
+      expect(log.getActualDistanceKm()).toBeUndefined();
+      expect(log.getActualKmPerLitre()).toBeUndefined();
+    });
+
+    it('should return undefined when no fuel was filled', () => {
+      // Arrange
+      const log = createLog([], 12450);
+
+      // Act & Assert
+      expect(log.getActualDistanceKm()).toBe(450);
+      expect(log.getActualKmPerLitre()).toBeUndefined();
+    });
+
+    it('should divide the odometer distance by the litres filled', () => {
+      // Arrange
+      const log = createLog(
+        [
+          { litres: 60, cost: 6000, filledAt: new Date() },
+          { litres: 40, cost: 4200, filledAt: new Date() },
+        ],
+        12450
+      );
+
+      // Act & Assert
+      expect(log.getFuelLitres()).toBe(100);
+      expect(log.getFuelCost()).toBe(10200);
+      expect(log.getActualKmPerLitre()).toBe(4.5);
+      expect(log.getEstimatedFuelLitres()).toBe(100);
+    });
+  });
+});
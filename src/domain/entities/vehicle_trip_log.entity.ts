@@ -0,0 +1,84 @@
+/**
+ * Fuel fill recorded by the driver during a trip
+ */
+export interface IFuelFill {
+  litres: number;
+  cost?: number;
+  filledAt: Date;
+}
+
+/**
+ * VehicleTripLog domain entity holding the odometer readings and fuel fills of one vehicle on one reservation
+ * Estimates are snapshotted when the trip starts so they can be compared with what was actually driven
+ */
+export class VehicleTripLog {
+  constructor(
+    public readonly logId: string,
+    public readonly reservationId: string,
+    public readonly vehicleId: string,
+    public readonly driverId: string,
+    public readonly startOdometer: number,
+    public readonly estimatedDistanceKm: number,
+    public readonly estimatedKmPerLitre: number,
+    public readonly fuelFills: IFuelFill[],
+    public readonly startedAt: Date,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly endOdometer?: number,
+    public readonly completedAt?: Date
+  ) {}
+
+  /**
+   * Checks if the end odometer reading has been recorded
+   */
+  isCompleted(): boolean {
+    return this.endOdometer !== undefined;
+  }
+
+  /**
+   * Kilometres driven according to the odometer
+   */
+  getActualDistanceKm(): number | undefined {
+    if (this.endOdometer === undefined) {
+      return undefined;
+    }
+    return this.endOdometer - this.startOdometer;
+  }
+
+  /**
+   * Litres of fuel filled during the trip
+   */
+  getFuelLitres(): number {
+    return this.fuelFills.reduce((sum, fill) => sum + fill.litres, 0);
+  }
+
+  /**
+   * Amount spent on fuel during the trip
+   */
+  getFuelCost(): number {
+    return this.fuelFills.reduce((sum, fill) => sum + (fill.cost ?? 0), 0);
+  }
+
+  /**
+   * Litres the trip was expected to burn at the consumption snapshotted on start
+   */
+  getEstimatedFuelLitres(): number {
+    if (this.estimatedKmPerLitre <= 0) {
+      return 0;
+    }
+    return this.estimatedDistanceKm / this.estimatedKmPerLitre;
+  }
+
+  /**
+   * Measured consumption (km/L)
+   * Undefined until both a distance and fuel fills have been recorded
+   */
+  getActualKmPerLitre(): number | undefined {
+    const distance = this.getActualDistanceKm();
+    const litres = this.getFuelLitres();
+    if (distance === undefined || distance <= 0 || litres <= 0) {
+      return undefined;
+    }
+    return distance / litres;
+  }
+}
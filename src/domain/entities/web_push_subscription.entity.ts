@@ -0,0 +1,33 @@
+/**
+ * Web Push Subscription Domain Entity
+ * Represents one browser a customer or admin allowed to receive push notifications
+ */
+
+export class WebPushSubscription {
+  constructor(
+    public readonly subscriptionId: string,
+    public readonly userId: string,
+    public readonly endpoint: string,
+    public readonly p256dh: string,
+    public readonly auth: string,
+    public readonly userAgent: string | null,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date
+  ) {}
+
+  /**
+   * Re-register the browser, possibly for a different signed-in user
+   */
+  renew(userId: string, p256dh: string, auth: string, userAgent: string | null): WebPushSubscription {
+    return new WebPushSubscription(
+      this.subscriptionId,
+      userId,
+      this.endpoint,
+      p256dh,
+      auth,
+      userAgent,
+      this.createdAt,
+      new Date()
+    );
+  }
+}
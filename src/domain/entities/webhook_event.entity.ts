@@ -0,0 +1,53 @@
+/**
+ * Processing state of a stored webhook event
+ * received: stored, not processed yet
+ * processing: a handler is working on it
+ * processed: handled successfully, later deliveries are skipped
+ * failed: the last attempt threw, it is retried through the queue or replayed by an admin
+ */
+export type WebhookEventStatus = 'received' | 'processing' | 'processed' | 'failed';
+
+/**
+ * Time after which a `processing` event is considered abandoned (e.g. the server restarted mid-way)
+ */
+export const WEBHOOK_PROCESSING_TIMEOUT_MS = 5 * 60 * 1000;
+
+/**
+ * WebhookEvent domain entity storing an inbound payment gateway webhook
+ * The gateway's event ID is the key, so a redelivered event is recognised as a duplicate
+ */
+export class WebhookEvent {
+  constructor(
+    public readonly eventId: string,
+    public readonly provider: string,
+    public readonly type: string,
+    public readonly payload: string, // Raw request body as received
+    public readonly status: WebhookEventStatus,
+    public readonly attempts: number,
+    public readonly receivedAt: Date,
+    public readonly createdAt: Date,
+    public readonly updatedAt: Date,
+    public readonly lastAttemptAt?: Date,
+    public readonly processedAt?: Date,
+    public readonly lastError?: string
+  ) {}
+
+  /**
+   * Checks if the event has been handled successfully
+   */
+  isProcessed(): boolean {
+    return this.status === 'processed';
+  }
+
+  /**
+   * Checks if a handler is currently working on the event
+   * Attempts older than the processing timeout are treated as abandoned
+   */
+  isBeingProcessed(now: Date = new Date()): boolean {
+    return (
+      this.status === 'processing' &&
+      !!this.lastAttemptAt &&
+      now.getTime() - this.lastAttemptAt.getTime() < WEBHOOK_PROCESSING_TIMEOUT_MS
+    );
+  }
+}
@@ -0,0 +1,31 @@
+import { AuditLog } from '../entities/audit_log.entity';
+import { IBaseRepository } from './base_repository.interface';
+import { AuditAction, AuditTargetType } from '../../shared/constants';
+
+/**
+ * Filters for searching the audit log
+ */
+export interface AuditLogFilter {
+  actorId?: string;
+  action?: AuditAction;
+  targetType?: AuditTargetType;
+  targetId?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Repository interface for AuditLog entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IAuditLogRepository extends IBaseRepository<AuditLog> {
+  /**
+   * Finds one page of entries, newest first, with the total number of matches
+   */
+  findPage(filter: AuditLogFilter, page: number, limit: number): Promise<{ logs: AuditLog[]; total: number }>;
+
+  /**
+   * Finds up to `limit` entries, newest first
+   */
+  findMany(filter: AuditLogFilter, limit: number): Promise<AuditLog[]>;
+}
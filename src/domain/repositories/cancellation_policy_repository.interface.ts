@@ -0,0 +1,33 @@
+import { CancellationPolicy } from '../entities/cancellation_policy.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for CancellationPolicy entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface ICancellationPolicyRepository extends IBaseRepository<CancellationPolicy> {
+  /**
+   * Finds the active cancellation policy
+   */
+  findActive(): Promise<CancellationPolicy | null>;
+
+  /**
+   * Finds all cancellation policies ordered by version (descending)
+   */
+  findAllOrderedByVersion(): Promise<CancellationPolicy[]>;
+
+  /**
+   * Finds the latest version number
+   */
+  findLatestVersion(): Promise<number>;
+
+  /**
+   * Deactivates all cancellation policies
+   */
+  deactivateAll(): Promise<void>;
+
+  /**
+   * Activates a specific cancellation policy by ID
+   */
+  activate(cancellationPolicyId: string): Promise<void>;
+}
@@ -0,0 +1,30 @@
+import { CorporateAccount } from '../entities/corporate_account.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for CorporateAccount entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface ICorporateAccountRepository extends IBaseRepository<CorporateAccount> {
+  /**
+   * Finds the account a user is a member of
+   * A user belongs to at most one corporate account
+   */
+  findByMemberUserId(userId: string): Promise<CorporateAccount | null>;
+
+  /**
+   * Finds all accounts, sorted by name
+   */
+  findAll(): Promise<CorporateAccount[]>;
+
+  /**
+   * Finds accounts that can book on account
+   */
+  findActive(): Promise<CorporateAccount[]>;
+
+  /**
+   * Increments the account's credit version if it still has the expected value
+   * Returns false when another booking got there first
+   */
+  incrementCreditVersion(corporateAccountId: string, expectedVersion: number): Promise<boolean>;
+}
@@ -0,0 +1,33 @@
+import { CorporateBooking, CorporateBookingStatus } from '../entities/corporate_booking.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for CorporateBooking entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface ICorporateBookingRepository extends IBaseRepository<CorporateBooking> {
+  /**
+   * Finds the booking on account made for a quote, excluding rejected ones
+   */
+  findOpenByQuoteId(quoteId: string): Promise<CorporateBooking | null>;
+
+  /**
+   * Finds the booking on account a reservation was created from
+   */
+  findByReservationId(reservationId: string): Promise<CorporateBooking | null>;
+
+  /**
+   * Finds bookings of an account, newest first, optionally filtered by status
+   */
+  findByAccountId(corporateAccountId: string, status?: CorporateBookingStatus): Promise<CorporateBooking[]>;
+
+  /**
+   * Finds booked bookings of an account not yet billed, booked before the given date
+   */
+  findUninvoiced(corporateAccountId: string, bookedBefore: Date): Promise<CorporateBooking[]>;
+
+  /**
+   * Links bookings to the invoice they were billed on
+   */
+  markInvoiced(corporateBookingIds: string[], invoiceId: string): Promise<void>;
+}
@@ -0,0 +1,28 @@
+import { CorporateInvoice } from '../entities/corporate_invoice.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for CorporateInvoice entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface ICorporateInvoiceRepository extends IBaseRepository<CorporateInvoice> {
+  /**
+   * Finds invoices of an account, newest first, optionally limited to those issued in a date range
+   */
+  findByAccountId(corporateAccountId: string, issuedFrom?: Date, issuedTo?: Date): Promise<CorporateInvoice[]>;
+
+  /**
+   * Finds the invoice of an account for a billing period
+   */
+  findByAccountAndPeriod(corporateAccountId: string, periodEnd: Date): Promise<CorporateInvoice | null>;
+
+  /**
+   * Finds issued or overdue invoices of an account
+   */
+  findUnpaidByAccountId(corporateAccountId: string): Promise<CorporateInvoice[]>;
+
+  /**
+   * Finds issued invoices whose due date has passed
+   */
+  findIssuedDueBefore(date: Date): Promise<CorporateInvoice[]>;
+}
@@ -0,0 +1,18 @@
+import { ExchangeRate } from '../entities/exchange_rate.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for ExchangeRate entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IExchangeRateRepository extends IBaseRepository<ExchangeRate> {
+  /**
+   * Finds the rate converting baseCurrency into currency
+   */
+  findByCurrencyPair(baseCurrency: string, currency: string): Promise<ExchangeRate | null>;
+
+  /**
+   * Finds all rates, ordered by base currency then currency
+   */
+  findAll(): Promise<ExchangeRate[]>;
+}
@@ -0,0 +1,23 @@
+import { MaintenanceWindow } from '../entities/maintenance_window.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for MaintenanceWindow entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IMaintenanceWindowRepository extends IBaseRepository<MaintenanceWindow> {
+  /**
+   * Finds all windows for a vehicle, latest start first
+   */
+  findByVehicleId(vehicleId: string): Promise<MaintenanceWindow[]>;
+
+  /**
+   * Finds scheduled or in-progress windows overlapping the date range, optionally limited to some vehicles
+   */
+  findBlockingInDateRange(startDate: Date, endDate: Date, vehicleIds?: string[]): Promise<MaintenanceWindow[]>;
+
+  /**
+   * Finds IDs of vehicles with a scheduled or in-progress window overlapping the date range
+   */
+  findVehicleIdsUnderMaintenanceInDateRange(startDate: Date, endDate: Date): Promise<Set<string>>;
+}
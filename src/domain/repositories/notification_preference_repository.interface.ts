@@ -0,0 +1,23 @@
+import { NotificationPreference } from '../entities/notification_preference.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for NotificationPreference entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface INotificationPreferenceRepository extends IBaseRepository<NotificationPreference> {
+  /**
+   * Finds the preferences of a user, or null when the user kept the defaults
+   */
+  findByUserId(userId: string): Promise<NotificationPreference | null>;
+
+  /**
+   * Creates or replaces the preferences of a user
+   */
+  save(preference: NotificationPreference): Promise<NotificationPreference>;
+
+  /**
+   * Finds the preferences of every user who opted into the daily digest email
+   */
+  findDailyDigestSubscribers(): Promise<NotificationPreference[]>;
+}
@@ -1,5 +1,5 @@
 import { NotificationType } from '../../shared/constants';
-import { Notification } from '../entities/notification.entity';
+import { Notification, INotificationDelivery } from '../entities/notification.entity';
 import { IBaseRepository } from './base_repository.interface';
 
 /**
@@ -53,5 +53,21 @@ export interface INotificationRepository extends IBaseRepository<Notification> {
    * Marks all chat notifications as read for a user in a specific chat
    */
   markChatNotificationsAsRead(userId: string, chatId: string): Promise<void>;
+
+  /**
+   * Records the per-channel delivery outcome of a notification
+   */
+  updateDeliveries(notificationId: string, deliveries: INotificationDelivery[]): Promise<void>;
+
+  /**
+   * Rolls a new occurrence into the user's unread notification of a group
+   * Increments its count and replaces its content with the latest occurrence
+   * @returns The updated notification, or null when the group has no unread notification
+   */
+  rollUpGroup(
+    userId: string,
+    groupKey: string,
+    update: { title: string; message: string; data?: Record<string, unknown> }
+  ): Promise<Notification | null>;
 }
 
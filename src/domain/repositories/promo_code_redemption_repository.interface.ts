@@ -0,0 +1,18 @@
+import { PromoCodeRedemption } from '../entities/promo_code_redemption.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for PromoCodeRedemption entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IPromoCodeRedemptionRepository extends IBaseRepository<PromoCodeRedemption> {
+  /**
+   * Counts how many times a user has redeemed a promo code
+   */
+  countByPromoCodeAndUser(promoCodeId: string, userId: string): Promise<number>;
+
+  /**
+   * Finds the redemption recorded for a quote
+   */
+  findByQuoteId(quoteId: string): Promise<PromoCodeRedemption | null>;
+}
@@ -0,0 +1,25 @@
+import { ClientSession } from 'mongoose';
+import { PromoCode } from '../entities/promo_code.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for PromoCode entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IPromoCodeRepository extends IBaseRepository<PromoCode> {
+  /**
+   * Finds a promo code by its code (case-insensitive)
+   */
+  findByCode(code: string): Promise<PromoCode | null>;
+
+  /**
+   * Finds all promo codes, newest first
+   */
+  findAll(): Promise<PromoCode[]>;
+
+  /**
+   * Atomically increments the redemption counter while the code is under its usage limit
+   * Returns false when the limit had already been reached
+   */
+  incrementUsedCount(promoCodeId: string, session?: ClientSession): Promise<boolean>;
+}
@@ -36,5 +36,10 @@ export interface IQuoteItineraryRepository extends IBaseRepository<QuoteItinerar
    * Finds itinerary stops ordered by stopOrder
    */
   findByQuoteIdOrdered(quoteId: string): Promise<QuoteItinerary[]>;
-}
 
+  /**
+   * Finds itinerary stops for multiple quotes, ordered by stopOrder
+   * Returns a map keyed by quoteId for efficient lookups.
+   */
+  findByQuoteIdsOrdered(quoteIds: string[]): Promise<Map<string, QuoteItinerary[]>>;
+}
@@ -46,6 +46,22 @@ export interface IQuoteRepository extends IBaseRepository<Quote> {
    */
   softDelete(quoteId: string): Promise<void>;
 
+  /**
+   * Removes the promo code applied to a quote
+   */
+  clearPromoCode(quoteId: string): Promise<void>;
+
+  /**
+   * Finds the quote that was cloned from an expired quote, if any
+   */
+  findByRequotedFromQuoteId(quoteId: string): Promise<Quote | null>;
+
+  /**
+   * Creates the requote of an expired quote unless that quote already has one
+   * @returns false when another requote of the same quote was created first
+   */
+  createRequote(quote: Quote): Promise<boolean>;
+
   /**
    * Finds quotes by trip type
    */
@@ -0,0 +1,14 @@
+import { ClientSession } from 'mongoose';
+
+/**
+ * Repository interface for numbered reference sequences
+ * Backs gap-free numbering of billing documents
+ */
+export interface IReferenceSequenceRepository {
+  /**
+   * Atomically increments a sequence and returns its new value, starting at 1
+   * Pass the session of the transaction that stores the numbered document so a
+   * failed write rolls the increment back and leaves no gap
+   */
+  next(key: string, session?: ClientSession): Promise<number>;
+}
@@ -0,0 +1,19 @@
+import { ClientSession } from 'mongoose';
+import { ReservationInvoice } from '../entities/reservation_invoice.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for ReservationInvoice entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IReservationInvoiceRepository extends IBaseRepository<ReservationInvoice> {
+  /**
+   * Finds the documents issued for a reservation, oldest first
+   */
+  findByReservationId(reservationId: string): Promise<ReservationInvoice[]>;
+
+  /**
+   * Finds the document issued for a source such as a payment or refund
+   */
+  findBySourceKey(sourceKey: string, session?: ClientSession): Promise<ReservationInvoice | null>;
+}
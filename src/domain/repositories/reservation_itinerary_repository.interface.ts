@@ -1,6 +1,14 @@
 import { ReservationItinerary } from '../entities/reservation_itinerary.entity';
 import { IBaseRepository } from './base_repository.interface';
 
+/**
+ * Start and end of a trip derived from its itinerary stops
+ */
+export interface TripWindow {
+  tripStartAt: Date;
+  tripEndAt: Date;
+}
+
 /**
  * Repository interface for ReservationItinerary entity operations
  * Defines the contract for data access layer implementations
@@ -34,5 +42,11 @@ export interface IReservationItineraryRepository extends IBaseRepository<Reserva
    * Returns a map keyed by reservationId for efficient lookups.
    */
   findByReservationIdsOrdered(reservationIds: string[]): Promise<Map<string, ReservationItinerary[]>>;
-}
 
+  /**
+   * Finds reservations whose trip window overlaps the date range
+   * Trip window runs from the earliest arrival to the latest departure (or arrival) of the stops.
+   * Returns a map keyed by reservationId.
+   */
+  findTripWindowsInRange(from: Date, to: Date): Promise<Map<string, TripWindow>>;
+}
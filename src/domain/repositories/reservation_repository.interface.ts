@@ -46,6 +46,11 @@ export interface IReservationRepository extends IBaseRepository<Reservation> {
    */
   findByStatus(status: ReservationStatus): Promise<Reservation[]>;
 
+  /**
+   * Finds reservations by IDs (fleet schedule / batch loading)
+   */
+  findByIds(reservationIds: string[]): Promise<Reservation[]>;
+
   /**
    * Finds reservations by user ID and status
    */
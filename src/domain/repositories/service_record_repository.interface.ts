@@ -0,0 +1,13 @@
+import { ServiceRecord } from '../entities/service_record.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for ServiceRecord entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IServiceRecordRepository extends IBaseRepository<ServiceRecord> {
+  /**
+   * Finds the service history of a vehicle, most recent first
+   */
+  findByVehicleId(vehicleId: string): Promise<ServiceRecord[]>;
+}
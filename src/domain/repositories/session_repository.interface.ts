@@ -0,0 +1,44 @@
+import { Session } from '../entities/session.entity';
+import { SessionRevokeReason } from '../../shared/constants';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Device details refreshed whenever a session's tokens are rotated
+ */
+export interface SessionActivity {
+  refreshTokenId: string;
+  ipAddress: string | null;
+  userAgent: string | null;
+  deviceName: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+}
+
+/**
+ * Repository interface for Session entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface ISessionRepository extends IBaseRepository<Session> {
+  /**
+   * Finds the sessions of a user that are neither revoked nor expired, most recently used first
+   */
+  findActiveByUserId(userId: string): Promise<Session[]>;
+
+  /**
+   * Replaces the refresh token of an active session, unless it was already rotated away from currentTokenId
+   * @returns Whether the session was updated; false means currentTokenId was used before
+   */
+  rotate(sessionId: string, currentTokenId: string, activity: SessionActivity): Promise<boolean>;
+
+  /**
+   * Revokes a session unless it was already revoked
+   * @returns Whether the session was revoked
+   */
+  revoke(sessionId: string, reason: SessionRevokeReason): Promise<boolean>;
+
+  /**
+   * Revokes all active sessions of a user, optionally keeping one
+   * @returns The revoked sessions
+   */
+  revokeAllForUser(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<Session[]>;
+}
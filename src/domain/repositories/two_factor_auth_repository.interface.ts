@@ -0,0 +1,30 @@
+import { TwoFactorAuth } from '../entities/two_factor_auth.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for TwoFactorAuth entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface ITwoFactorAuthRepository extends IBaseRepository<TwoFactorAuth> {
+  /**
+   * Finds the two-factor settings of a user, or null when the user never enrolled
+   */
+  findByUserId(userId: string): Promise<TwoFactorAuth | null>;
+
+  /**
+   * Creates or replaces the two-factor settings of a user
+   */
+  save(twoFactorAuth: TwoFactorAuth): Promise<TwoFactorAuth>;
+
+  /**
+   * Records an accepted code unless a code of the same or a later time step was accepted first
+   * @returns Whether the code was recorded; false means it was replayed
+   */
+  markStepUsed(userId: string, step: number): Promise<boolean>;
+
+  /**
+   * Removes a recovery code unless another request used it first
+   * @returns Whether the code was removed
+   */
+  consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean>;
+}
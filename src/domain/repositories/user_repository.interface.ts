@@ -1,6 +1,6 @@
 import { User } from "../entities/user.entity";
 import { IBaseRepository } from "./base_repository.interface";
-import { UserRole, UserStatus } from "../../shared/constants";
+import { AdminRole, UserRole, UserStatus } from "../../shared/constants";
 
 /**
  * Repository interface for User entity operations
@@ -28,7 +28,7 @@ export interface IUserRepository extends IBaseRepository<User> {
 
     linkGoogleAccount(userId: string, googleId: string): Promise<User>;
 
-    updateUserProfile(userId: string, updates: { fullName?: string; phoneNumber?: string; profilePicture?: string }): Promise<User>;
+    updateUserProfile(userId: string, updates: { fullName?: string; phoneNumber?: string; profilePicture?: string; quoteFollowUpEmails?: boolean }): Promise<User>;
 
     findRegularUsersWithFilters(filters: {
         status?: UserStatus[];
@@ -42,7 +42,7 @@ export interface IUserRepository extends IBaseRepository<User> {
 
     updateUserStatus(userId: string, status: UserStatus): Promise<User>;
 
-    updateUserRole(userId: string, role: UserRole): Promise<User>;
+    updateUserRole(userId: string, role: UserRole, adminRole?: AdminRole): Promise<User>;
 
     getUserStatistics(timeRange?: { startDate?: Date; endDate?: Date }): Promise<{
         totalUsers: number;
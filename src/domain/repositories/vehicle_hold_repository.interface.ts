@@ -0,0 +1,50 @@
+import { VehicleHold } from '../entities/vehicle_hold.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for VehicleHold entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IVehicleHoldRepository extends IBaseRepository<VehicleHold> {
+  /**
+   * Finds holds that block vehicles during the window, optionally limited to some vehicles
+   * Includes confirmed holds and held holds that have not expired at `now`
+   */
+  findActiveOverlapping(
+    startAt: Date,
+    endAt: Date,
+    now: Date,
+    vehicleIds?: string[]
+  ): Promise<VehicleHold[]>;
+
+  /**
+   * Finds holds placed for a quote that still block their vehicles
+   */
+  findActiveByQuoteId(quoteId: string, now: Date): Promise<VehicleHold[]>;
+
+  /**
+   * Finds confirmed holds backing a reservation
+   */
+  findConfirmedByReservationId(reservationId: string): Promise<VehicleHold[]>;
+
+  /**
+   * Confirms the given holds for a reservation
+   * Holds that were released or lapsed before `confirmedAt` are left alone
+   */
+  confirmByIds(holdIds: string[], reservationId: string, confirmedAt: Date): Promise<void>;
+
+  /**
+   * Releases the given holds
+   */
+  releaseByIds(holdIds: string[], releasedAt: Date): Promise<void>;
+
+  /**
+   * Releases the unconfirmed holds of a quote
+   */
+  releaseHeldByQuoteId(quoteId: string, releasedAt: Date): Promise<void>;
+
+  /**
+   * Releases the confirmed holds of a reservation
+   */
+  releaseByReservationId(reservationId: string, releasedAt: Date): Promise<void>;
+}
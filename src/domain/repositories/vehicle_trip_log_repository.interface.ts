@@ -0,0 +1,23 @@
+import { VehicleTripLog } from '../entities/vehicle_trip_log.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for VehicleTripLog entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IVehicleTripLogRepository extends IBaseRepository<VehicleTripLog> {
+  /**
+   * Finds the logs of all vehicles on a reservation
+   */
+  findByReservationId(reservationId: string): Promise<VehicleTripLog[]>;
+
+  /**
+   * Finds completed logs of a vehicle, latest first
+   */
+  findCompletedByVehicleId(vehicleId: string, limit?: number): Promise<VehicleTripLog[]>;
+
+  /**
+   * Finds logs completed within the date range, latest first
+   */
+  findCompletedInDateRange(startDate: Date, endDate: Date): Promise<VehicleTripLog[]>;
+}
@@ -0,0 +1,23 @@
+import { WebPushSubscription } from '../entities/web_push_subscription.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for WebPushSubscription entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IWebPushSubscriptionRepository extends IBaseRepository<WebPushSubscription> {
+  /**
+   * Find all browser subscriptions for a user
+   */
+  findByUserId(userId: string): Promise<WebPushSubscription[]>;
+
+  /**
+   * Find subscription by push service endpoint
+   */
+  findByEndpoint(endpoint: string): Promise<WebPushSubscription | null>;
+
+  /**
+   * Delete subscription by push service endpoint
+   */
+  deleteByEndpoint(endpoint: string): Promise<void>;
+}
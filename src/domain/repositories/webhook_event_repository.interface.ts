@@ -0,0 +1,36 @@
+import { WebhookEvent, WebhookEventStatus } from '../entities/webhook_event.entity';
+import { IBaseRepository } from './base_repository.interface';
+
+/**
+ * Repository interface for WebhookEvent entity operations
+ * Defines the contract for data access layer implementations
+ */
+export interface IWebhookEventRepository extends IBaseRepository<WebhookEvent> {
+  /**
+   * Stores the event unless one with the same event ID already exists
+   * @returns false when the event is a duplicate
+   */
+  createIfAbsent(event: WebhookEvent): Promise<boolean>;
+
+  /**
+   * Atomically moves the event to `processing` and counts the attempt
+   * Only events in one of the given statuses, or abandoned `processing` events, can be claimed
+   * @returns false when the event is missing or someone else holds it
+   */
+  claimForProcessing(eventId: string, statuses: WebhookEventStatus[], now: Date): Promise<boolean>;
+
+  /**
+   * Marks the event as processed and clears the last error
+   */
+  markProcessed(eventId: string, processedAt: Date): Promise<void>;
+
+  /**
+   * Marks the event as failed with the error message
+   */
+  markFailed(eventId: string, error: string): Promise<void>;
+
+  /**
+   * Finds events, newest first, optionally filtered by status and type
+   */
+  findAll(filter?: { status?: WebhookEventStatus; type?: string }): Promise<WebhookEvent[]>;
+}
@@ -0,0 +1,36 @@
+/**
+ * Account Lockout Service Interface
+ * Defines contract for locking accounts after repeated failed logins
+ */
+
+export type LockableAccountType = 'user' | 'driver';
+
+export interface IAccountLockout {
+  lockedUntil: Date;
+  level: number; // 1 for the first lockout, growing with each repeat until the level resets
+}
+
+export interface IAccountLockoutService {
+  /**
+   * Get the active lockout of an account, if any
+   */
+  getLockout(accountType: LockableAccountType, email: string): Promise<IAccountLockout | null>;
+
+  /**
+   * Count a failed login against an account
+   * @returns The lockout this failure started, or null while the account is under its limit
+   */
+  recordFailure(accountType: LockableAccountType, email: string): Promise<IAccountLockout | null>;
+
+  /**
+   * Clear the failed logins of an account after a successful login
+   * Repeat offences within a day still lead to longer lockouts
+   */
+  recordSuccess(accountType: LockableAccountType, email: string): Promise<void>;
+
+  /**
+   * Lift the lockout of an account and forget its history (admin action)
+   * @returns Whether the account was locked
+   */
+  unlock(accountType: LockableAccountType, email: string): Promise<boolean>;
+}
@@ -0,0 +1,25 @@
+import { AuditAction, AuditTargetType } from '../../shared/constants';
+
+/**
+ * Audit Log Service Interface
+ * Defines contract for recording admin and financial actions
+ */
+
+export interface IAuditLogEntry {
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  before?: object | null; // State before the change, omitted for creations
+  after?: object | null; // State after the change, omitted for deletions
+  metadata?: Record<string, unknown>; // Inputs that are not part of the target's state (e.g. refund reason)
+}
+
+export interface IAuditLogService {
+  /**
+   * Record an action taken by the current request's user (or 'system' outside a request)
+   * Only the fields that differ between `before` and `after` are stored
+   * Never throws - a failed write is logged so the audited action itself is not undone
+   * @param entry - What changed
+   */
+  record(entry: IAuditLogEntry): Promise<void>;
+}
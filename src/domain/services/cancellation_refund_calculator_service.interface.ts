@@ -0,0 +1,67 @@
+import { CancellationPolicy } from '../entities/cancellation_policy.entity';
+
+/**
+ * Paid charge considered for a cancellation refund
+ */
+export interface ICancellationChargeInput {
+  chargeId: string;
+  amount: number;
+}
+
+/**
+ * Input data for cancellation refund calculation
+ * Amounts are in major currency units
+ */
+export interface ICancellationRefundInput {
+  policy: CancellationPolicy;
+  paidAmount: number;
+  alreadyRefundedAmount: number;
+  amenitiesAmount: number;
+  paidCharges: ICancellationChargeInput[];
+  departureAt?: Date;
+  cancelledAt: Date;
+}
+
+/**
+ * Refund owed for a single paid charge
+ */
+export interface ICancellationChargeRefund {
+  chargeId: string;
+  amount: number;
+  refundAmount: number;
+}
+
+/**
+ * Result of a cancellation refund calculation
+ * `refundAmount` is refunded against the reservation payment,
+ * `chargeRefunds` against the payments of the individual charges
+ */
+export interface ICancellationRefundBreakdown {
+  cancellationPolicyId: string;
+  cancellationPolicyVersion: number;
+  hoursBeforeDeparture: number | null;
+  appliedTier: { minHoursBeforeDeparture: number; refundPercentage: number } | null;
+  refundPercentage: number;
+  paidAmount: number;
+  fareAmount: number;
+  nonRefundableDeposit: number;
+  fareRefund: number;
+  amenitiesAmount: number;
+  amenitiesRefund: number;
+  alreadyRefundedAmount: number;
+  refundAmount: number;
+  chargeRefunds: ICancellationChargeRefund[];
+  chargesRefundTotal: number;
+  totalRefund: number;
+}
+
+/**
+ * Cancellation refund calculator service interface
+ * Defines the contract for applying a cancellation policy to a reservation payment
+ */
+export interface ICancellationRefundCalculatorService {
+  /**
+   * Calculates the refund owed when cancelling under the given policy
+   */
+  calculateRefund(input: ICancellationRefundInput): ICancellationRefundBreakdown;
+}
@@ -0,0 +1,47 @@
+import { CorporateAccount } from '../entities/corporate_account.entity';
+import { CorporateBooking } from '../entities/corporate_booking.entity';
+
+/**
+ * Credit position of a corporate account, in its billing currency
+ * Everything booked on account counts against the limit until the invoice it was billed on is paid
+ */
+export interface ICorporateCreditSummary {
+  currency: string;
+  creditLimit: number;
+  unpaidInvoicesAmount: number;
+  uninvoicedAmount: number;
+  pendingApprovalAmount: number;
+  outstandingAmount: number;
+  availableCredit: number;
+}
+
+/**
+ * Outcome of booking on account against the credit limit
+ * busy: other bookings on the account kept landing at the same time, nothing was saved
+ */
+export type CorporateCreditReservationOutcome = 'created' | 'credit_limit_exceeded' | 'busy';
+
+/**
+ * Corporate credit service interface
+ * Works out how much of a corporate account's credit limit is in use
+ */
+export interface ICorporateCreditService {
+  /**
+   * Sums unpaid invoices, bookings not invoiced yet and bookings waiting for approval
+   * @param account - The corporate account
+   * @param excludeBookingId - Booking left out of the pending amount, e.g. the one being approved
+   */
+  getCreditSummary(account: CorporateAccount, excludeBookingId?: string): Promise<ICorporateCreditSummary>;
+
+  /**
+   * Saves a new booking if it fits into the account's available credit
+   * The booking is saved first and then claims the account's credit version, so of two bookings
+   * checked against the same credit only one is kept; the other is removed and checked again
+   * @param account - The corporate account, as loaded before the booking was priced
+   * @param booking - The booking to save, waiting for approval
+   */
+  createBookingWithinCredit(
+    account: CorporateAccount,
+    booking: CorporateBooking
+  ): Promise<CorporateCreditReservationOutcome>;
+}
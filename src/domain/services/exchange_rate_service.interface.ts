@@ -0,0 +1,23 @@
+import { IExchangeRateSnapshot } from '../entities/exchange_rate.entity';
+
+/**
+ * Exchange rate service interface
+ * Resolves the admin-configured rates used to price quotes in other currencies
+ */
+export interface IExchangeRateService {
+  /**
+   * Returns the current rate from baseCurrency to currency
+   * Same-currency lookups resolve to a rate of 1; returns null when no rate is configured
+   */
+  getSnapshot(baseCurrency: string, currency: string): Promise<IExchangeRateSnapshot | null>;
+
+  /**
+   * Lists the currencies quotes can be priced in, starting with the active pricing currency
+   */
+  getSupportedCurrencies(): Promise<string[]>;
+
+  /**
+   * Checks if quotes can be priced in the given currency
+   */
+  isSupportedCurrency(currency: string): Promise<boolean>;
+}
@@ -10,6 +10,16 @@ export interface JWTPayload {
   userId: string;
   email: string;
   role?: string;
+  permissions?: string[]; // Staff permissions, only set for admins
+  sessionId?: string; // Login session the token belongs to; missing on tokens issued before sessions were tracked
+}
+
+/**
+ * Refresh token payload structure
+ * tokenId changes on every rotation so a refresh token can be used only once
+ */
+export interface RefreshTokenPayload extends JWTPayload {
+  tokenId?: string;
 }
 
 /**
@@ -26,13 +36,11 @@ export interface TokenPair {
  */
 export interface IJWTService {
 
-  generateTokens(payload: JWTPayload): Promise<TokenPair>;
+  generateTokens(payload: JWTPayload, refreshTokenId?: string): Promise<TokenPair>;
 
   verifyAccessToken(token: string): Promise<JWTPayload>;
 
-  verifyRefreshToken(token: string): Promise<JWTPayload>;
-
-  refreshAccessToken(refreshToken: string): Promise<string>;
+  verifyRefreshToken(token: string): Promise<RefreshTokenPayload>;
 
   blacklistToken(token: string, expiryTime: number): Promise<void>;
 
@@ -26,6 +26,12 @@ export interface IDatabaseModel<T> {
    */
   updateOne(filter: Record<string, unknown>, update: Record<string, unknown>, options?: { session?: ClientSession }): Promise<{ matchedCount: number }>;
 
+  /**
+   * Updates a single document and returns it after the update
+   * With upsert, creates the document when none matches
+   */
+  findOneAndUpdate(filter: Record<string, unknown>, update: Record<string, unknown>, options?: { upsert?: boolean; session?: ClientSession }): Promise<T | null>;
+
   /**
    * Updates multiple documents
    */
@@ -0,0 +1,27 @@
+import { NotificationType } from '../../shared/constants';
+import { INotificationDelivery } from '../entities/notification.entity';
+
+/**
+ * Stored notification handed to the dispatcher
+ */
+export interface IDispatchableNotification {
+  notificationId: string;
+  userId: string;
+  type: NotificationType;
+  title: string;
+  message: string;
+  data?: Record<string, unknown>;
+  count?: number;
+}
+
+/**
+ * Notification dispatcher service interface
+ * Fans a stored notification out to in-app, email and push according to the recipient's preferences
+ */
+export interface INotificationDispatcherService {
+  /**
+   * Delivers the notification on each channel and records the outcome per channel
+   * Channel failures are recorded, never thrown
+   */
+  dispatch(notification: IDispatchableNotification): Promise<INotificationDelivery[]>;
+}
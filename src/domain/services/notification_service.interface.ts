@@ -12,5 +12,6 @@ export interface INotificationService {
     title: string;
     message: string;
     data?: Record<string, unknown>;
+    groupKey?: string;
   }): Promise<void>;
 }
\ No newline at end of file
@@ -3,11 +3,26 @@
  * Handles One-Time Password operations for user verification
  */
 export interface IOTPService {
+  /**
+   * Stores a new code for the email, replacing any previous one
+   * Starts the resend cooldown and clears the count of incorrect attempts
+   */
   setOTP(email: string, otp: string): Promise<void>;
 
   getOTP(email: string): Promise<string | null>;
 
   deleteOTP(email: string): Promise<void>;
 
+  /**
+   * Seconds until another code may be sent to the email, 0 when one may be sent now
+   */
+  getResendCooldown(email: string): Promise<number>;
+
+  /**
+   * Counts an incorrect code entered for the email
+   * @returns Number of incorrect codes entered since the current code was sent
+   */
+  recordFailedAttempt(email: string): Promise<number>;
+
   isConnected(): boolean;
 }
@@ -0,0 +1,176 @@
+import { PaymentMethod } from '../entities/payment.entity';
+
+/**
+ * Payment intent lifecycle states
+ * Mirrors the states exposed by card processors (Stripe naming is used as the common vocabulary)
+ */
+export type GatewayPaymentIntentStatus =
+  | 'requires_payment_method'
+  | 'requires_confirmation'
+  | 'requires_action'
+  | 'processing'
+  | 'requires_capture'
+  | 'canceled'
+  | 'succeeded';
+
+/**
+ * Payment intent as seen by the application
+ * Amounts are in major currency units (e.g. rupees, not paise)
+ */
+export interface IGatewayPaymentIntent {
+  id: string;
+  clientSecret: string | null;
+  status: GatewayPaymentIntentStatus;
+  amount: number;
+  currency: string;
+  latestChargeId?: string;
+  metadata: Record<string, string>;
+}
+
+/**
+ * Parameters for creating a payment intent
+ */
+export interface ICreatePaymentIntentParams {
+  amount: number;
+  currency: string;
+  metadata?: Record<string, string>;
+  /**
+   * 'manual' authorizes the amount and waits for an explicit capture
+   */
+  captureMethod?: 'automatic' | 'manual';
+}
+
+/**
+ * Parameters for refunding a payment intent
+ */
+export interface ICreateRefundParams {
+  paymentIntentId: string;
+  amount: number;
+  /**
+   * Currency of the payment intent, looked up from the intent when omitted
+   */
+  currency?: string;
+  reason?: 'requested_by_customer' | 'duplicate' | 'fraudulent';
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Refund as seen by the application
+ */
+export interface IGatewayRefund {
+  id: string;
+  paymentIntentId: string;
+  amount: number;
+  currency: string;
+  status: 'pending' | 'succeeded' | 'failed' | 'canceled' | 'requires_action';
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Verified webhook event
+ * The `data.object` payload follows Stripe's wire format for every gateway
+ */
+export interface IPaymentWebhookEvent {
+  id: string;
+  type: string;
+  data: { object: unknown };
+}
+
+/**
+ * Payment intent object carried by payment_intent.* webhook events
+ */
+export interface IWebhookPaymentIntentObject {
+  id: string;
+  status: GatewayPaymentIntentStatus;
+  latest_charge?: string | { id: string } | null;
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Charge object carried by charge.* webhook events
+ * Amounts are in minor currency units, as on the wire
+ */
+export interface IWebhookChargeObject {
+  id: string;
+  payment_intent?: string | null;
+  amount: number;
+  amount_refunded: number;
+  currency: string;
+  refunded: boolean;
+}
+
+/**
+ * Refund object carried by charge.refund.* webhook events
+ * Amounts are in minor currency units, as on the wire
+ */
+export interface IWebhookRefundObject {
+  id: string;
+  charge: string;
+  payment_intent?: string | null;
+  amount: number;
+  currency: string;
+  status: IGatewayRefund['status'];
+  metadata?: Record<string, string>;
+}
+
+/**
+ * Dispute object carried by charge.dispute.* webhook events
+ * Amounts are in minor currency units, as on the wire
+ */
+export interface IWebhookDisputeObject {
+  id: string;
+  charge: string;
+  payment_intent?: string | null;
+  amount: number;
+  currency: string;
+  reason: string;
+  status: string;
+}
+
+/**
+ * Payment gateway interface
+ * Abstracts the card processor used for intents, captures, refunds and webhook verification
+ */
+export interface IPaymentGateway {
+  /**
+   * Payment method recorded on payments processed by this gateway
+   */
+  readonly paymentMethod: PaymentMethod;
+
+  /**
+   * Creates a payment intent for the given amount
+   */
+  createPaymentIntent(params: ICreatePaymentIntentParams): Promise<IGatewayPaymentIntent>;
+
+  /**
+   * Retrieves a payment intent by ID
+   */
+  retrievePaymentIntent(paymentIntentId: string): Promise<IGatewayPaymentIntent>;
+
+  /**
+   * Captures a payment intent created with manual capture
+   * @param amount - Amount to capture, defaults to the full authorized amount
+   */
+  capturePaymentIntent(paymentIntentId: string, amount?: number): Promise<IGatewayPaymentIntent>;
+
+  /**
+   * Cancels a payment intent that has not succeeded yet
+   */
+  cancelPaymentIntent(paymentIntentId: string): Promise<IGatewayPaymentIntent>;
+
+  /**
+   * Refunds all or part of a succeeded payment intent
+   */
+  createRefund(params: ICreateRefundParams): Promise<IGatewayRefund>;
+
+  /**
+   * Lists every refund issued against a payment intent, including ones made outside the app
+   */
+  listRefunds(paymentIntentId: string): Promise<IGatewayRefund[]>;
+
+  /**
+   * Verifies the webhook signature and parses the event
+   * @throws Error if the signature is invalid
+   */
+  constructWebhookEvent(payload: string | Buffer, signature: string): IPaymentWebhookEvent;
+}
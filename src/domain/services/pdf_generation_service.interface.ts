@@ -3,6 +3,9 @@ import { QuoteItinerary } from '../entities/quote_itinerary.entity';
 import { Driver } from '../entities/driver.entity';
 import { User } from '../entities/user.entity';
 import { Reservation } from '../entities/reservation.entity';
+import { CorporateAccount } from '../entities/corporate_account.entity';
+import { CorporateInvoice } from '../entities/corporate_invoice.entity';
+import { ReservationInvoiceType } from '../entities/reservation_invoice.entity';
 
 /**
  * Data required for PDF generation
@@ -16,6 +19,7 @@ export interface IQuotePDFData {
 
 /**
  * Data required for invoice PDF generation
+ * Receipts and credit notes use the same layout, credit notes show the refunded amount
  */
 export interface IInvoicePDFData {
   reservation: Reservation;
@@ -24,6 +28,19 @@ export interface IInvoicePDFData {
   paymentAmount: number;
   paymentDate: Date;
   paymentMethod: string;
+  documentType?: ReservationInvoiceType; // Defaults to invoice
+  description?: string;
+  currency?: string; // Defaults to the currency the reservation was priced in
+  relatedInvoiceNumber?: string; // Document a credit note is issued against
+  reason?: string;
+}
+
+/**
+ * Data required for a consolidated corporate invoice PDF
+ */
+export interface ICorporateInvoicePDFData {
+  invoice: CorporateInvoice;
+  account: CorporateAccount;
 }
 
 /**
@@ -39,9 +56,16 @@ export interface IPDFGenerationService {
   generateQuotePDF(data: IQuotePDFData): Promise<Buffer>;
 
   /**
-   * Generates a PDF invoice document
+   * Generates a PDF invoice, receipt or credit note document
    * @param data Reservation data including reservation, user, payment details
    * @returns Buffer containing the PDF file
    */
   generateInvoicePDF(data: IInvoicePDFData): Promise<Buffer>;
+
+  /**
+   * Generates a consolidated monthly invoice for a corporate account
+   * @param data Invoice with its line items and the account it is billed to
+   * @returns Buffer containing the PDF file
+   */
+  generateCorporateInvoicePDF(data: ICorporateInvoicePDFData): Promise<Buffer>;
 }
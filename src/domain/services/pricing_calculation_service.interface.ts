@@ -3,6 +3,8 @@ import { QuoteItinerary } from '../entities/quote_itinerary.entity';
 import { PricingConfig } from '../entities/pricing_config.entity';
 import { Vehicle } from '../entities/vehicle.entity';
 import { Amenity } from '../entities/amenity.entity';
+import { IExchangeRateSnapshot } from '../entities/exchange_rate.entity';
+import { PromoCode } from '../entities/promo_code.entity';
 
 /**
  * Input data for pricing calculation
@@ -17,6 +19,9 @@ export interface IPricingCalculationInput {
   pricingConfig: PricingConfig;
   tripType: 'one_way' | 'two_way';
   routeData?: IRouteData; // Route data from route calculation
+  exchangeRate?: IExchangeRateSnapshot; // Prices in the pricing config currency when omitted
+  driverRatePerHour?: number; // Assigned driver's rate, replaces the config's average rate
+  promoCode?: PromoCode; // Applied promo code, discounts the subtotal before tax
 }
 
 /**
@@ -26,6 +31,8 @@ export interface IPricingCalculationInput {
 export interface IPricingCalculationService {
   /**
    * Calculates the total price for a quote
+   * Line items are converted into the exchange rate's currency before tax is applied
+   * A promo code discount is taken off the subtotal and tax is charged on the discounted amount
    */
   calculatePricing(input: IPricingCalculationInput): IPricingBreakdown;
 
@@ -36,11 +43,13 @@ export interface IPricingCalculationService {
 
   /**
    * Calculates distance fare based on route distance and fuel consumption
+   * Uses each vehicle's measured average consumption when useActualFuelConsumption is set
    */
   calculateDistanceFare(
     totalDistance: number,
     vehicles: Array<{ vehicle: Vehicle; quantity: number }>,
-    fuelPrice: number
+    fuelPrice: number,
+    useActualFuelConsumption?: boolean
   ): number;
 
   /**
@@ -0,0 +1,33 @@
+import { PromoCode, PromoCodeIneligibilityReason } from '../entities/promo_code.entity';
+import { Quote } from '../entities/quote.entity';
+
+/**
+ * Promo code service interface
+ * Resolves which promo code, if any, a quote should be priced with
+ */
+export interface IPromoCodeService {
+  /**
+   * Checks if a promo code can be applied to a quote, counting the quote owner's past redemptions
+   * Returns null when the code is eligible
+   */
+  checkEligibility(promoCode: PromoCode, quote: Quote, now?: Date): Promise<PromoCodeIneligibilityReason | null>;
+
+  /**
+   * Finds the code the user applied while drafting, if it is still eligible
+   * Used when the user prices the quote before submitting it
+   */
+  findEligibleForQuote(quote: Quote): Promise<PromoCode | undefined>;
+
+  /**
+   * Finds the code the quote's current pricing was calculated with
+   * Used when repricing after submission, so an applied discount is kept even if the code has since expired
+   */
+  findAppliedToQuote(quote: Quote): Promise<PromoCode | undefined>;
+
+  /**
+   * Checks the code the quote was priced with against its total and per-user usage limits
+   * Used before charging, since other bookings may have used up the code after the quote was priced
+   * Returns null when the code can still be redeemed or the quote has no code
+   */
+  checkRedemptionLimits(quote: Quote): Promise<PromoCodeIneligibilityReason | null>;
+}
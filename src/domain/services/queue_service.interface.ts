@@ -26,4 +26,67 @@ export interface IQueueService {
    * @param quotedAt - The timestamp when the quote was quoted (24 hours from this)
    */
   addQuoteExpiryJob(quoteId: string, quotedAt: Date): Promise<void>;
+
+  /**
+   * Adds a delayed job that reminds the customer to pay before the quote's payment window closes
+   * @param quoteId - The quote ID
+   * @param quotedAt - The timestamp when the quote was quoted
+   */
+  addQuoteReminderJob(quoteId: string, quotedAt: Date): Promise<void>;
+
+  /**
+   * Adds a job that emails the customer a requote link once their quote has expired
+   * @param quoteId - The expired quote ID
+   */
+  addQuoteExpiredJob(quoteId: string): Promise<void>;
+
+  /**
+   * Adds a delayed job that nudges the customer to finish a draft quote they stopped working on
+   * @param quoteId - The draft quote ID
+   * @param lastActivityAt - When the draft was last saved
+   */
+  addDraftReminderJob(quoteId: string, lastActivityAt: Date): Promise<void>;
+
+  /**
+   * Adds delayed jobs that switch a vehicle into MAINTENANCE when a window starts and back when it ends
+   * @param windowId - The maintenance window ID
+   * @param startAt - When the vehicle goes into maintenance
+   * @param endAt - When the window is closed if nobody completed it earlier
+   */
+  addMaintenanceWindowJobs(windowId: string, startAt: Date, endAt: Date): Promise<void>;
+
+  /**
+   * Removes pending start/end jobs of a maintenance window that was completed or cancelled
+   * @param windowId - The maintenance window ID
+   */
+  removeMaintenanceWindowJobs(windowId: string): Promise<void>;
+
+  /**
+   * Adds a job that retries a stored webhook event with exponential backoff
+   * @param eventId - The payment gateway event ID
+   */
+  addWebhookRetryJob(eventId: string): Promise<void>;
+
+  /**
+   * Adds delayed jobs that remind the customer about a deposit booking's balance and enforce its due date
+   * @param reservationId - The reservation ID
+   * @param dueAt - When the balance is due
+   */
+  addBalancePaymentJobs(reservationId: string, dueAt: Date): Promise<void>;
+
+  /**
+   * Removes pending balance reminder and due date jobs once the balance is paid or the reservation is closed
+   * @param reservationId - The reservation ID
+   */
+  removeBalancePaymentJobs(reservationId: string): Promise<void>;
+
+  /**
+   * Initializes the repeatable jobs that issue monthly corporate invoices and flag overdue ones
+   */
+  initializeCorporateInvoicingRepeatJobs(): Promise<void>;
+
+  /**
+   * Initializes the repeatable job that emails the daily notification digests
+   */
+  initializeNotificationDigestRepeatJob(): Promise<void>;
 }
@@ -0,0 +1,25 @@
+/**
+ * Rate Limiter Service Interface
+ * Defines contract for sliding-window limits on how often something may happen
+ */
+
+export interface IRateLimitResult {
+  allowed: boolean;
+  remaining: number; // Hits still allowed in the current window
+  retryAfterSeconds: number; // Until the oldest hit leaves the window, 0 when allowed
+}
+
+export interface IRateLimiterService {
+  /**
+   * Count a hit against a key, unless the key has already reached its limit
+   * @param key - What is limited, e.g. `login:ip:203.0.113.7`
+   * @param limit - Hits allowed within the window
+   * @param windowSeconds - Length of the sliding window
+   */
+  hit(key: string, limit: number, windowSeconds: number): Promise<IRateLimitResult>;
+
+  /**
+   * Forget every hit counted against a key
+   */
+  reset(key: string): Promise<void>;
+}
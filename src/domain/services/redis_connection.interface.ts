@@ -62,5 +62,25 @@ export interface IRedisConnection {
    * Removes all members from a Redis Set
    */
   sremall(key: string): Promise<number>;
-}
 
+  /**
+   * Increments a counter, creating it at 1 when missing
+   */
+  incr(key: string): Promise<number>;
+
+  /**
+   * Sets the time to live of a key in seconds
+   */
+  expire(key: string, seconds: number): Promise<void>;
+
+  /**
+   * Gets the remaining time to live of a key in seconds (negative when missing or without expiry)
+   */
+  ttl(key: string): Promise<number>;
+
+  // Scripting for operations that must run atomically
+  /**
+   * Runs a Lua script on the server; Redis executes it without interleaving other commands
+   */
+  eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown>;
+}
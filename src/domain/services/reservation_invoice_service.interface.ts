@@ -0,0 +1,37 @@
+import { Payment } from '../entities/payment.entity';
+import { Reservation } from '../entities/reservation.entity';
+import { ReservationCharge } from '../entities/reservation_charge.entity';
+import { ReservationInvoice } from '../entities/reservation_invoice.entity';
+
+/**
+ * Money returned to the customer that a credit note is issued for
+ * refundId is the gateway refund, or the dispute for a lost chargeback
+ */
+export interface ICreditNoteRefund {
+  refundId: string;
+  amount: number;
+  reason?: string;
+}
+
+/**
+ * Reservation invoice service interface
+ * Issues the numbered billing documents of a reservation
+ * Every method is idempotent: issuing twice for the same payment or refund returns the first document
+ */
+export interface IReservationInvoiceService {
+  /**
+   * Issues the invoice for the payment a reservation was booked with
+   */
+  issueInvoice(reservation: Reservation, payment: Payment): Promise<ReservationInvoice>;
+
+  /**
+   * Issues a receipt for a later payment on a reservation
+   * @param charge - The additional charge the payment settled, omitted for deposit balance payments
+   */
+  issueReceipt(reservation: Reservation, payment: Payment, charge?: ReservationCharge): Promise<ReservationInvoice>;
+
+  /**
+   * Issues a credit note for money returned from a payment
+   */
+  issueCreditNote(reservation: Reservation, payment: Payment, refund: ICreditNoteRefund): Promise<ReservationInvoice>;
+}
@@ -0,0 +1,44 @@
+import { Session } from '../entities/session.entity';
+import { JWTPayload, TokenPair } from './jwt_service.interface';
+import { SessionRevokeReason } from '../../shared/constants';
+
+/**
+ * Where a login or token refresh came from
+ */
+export interface SessionClientInfo {
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+/**
+ * Session service interface
+ * Issues tokens tied to a persistent session so sessions can be listed and revoked
+ */
+export interface ISessionService {
+  /**
+   * Starts a session after a successful login and issues its first tokens
+   */
+  startSession(payload: JWTPayload, client?: SessionClientInfo): Promise<TokenPair>;
+
+  /**
+   * Issues new tokens for a session and retires the refresh token they replace
+   * @returns null when currentTokenId was already rotated away, i.e. the refresh token was reused
+   */
+  rotateSession(
+    session: Session,
+    currentTokenId: string,
+    payload: JWTPayload,
+    client?: SessionClientInfo
+  ): Promise<TokenPair | null>;
+
+  /**
+   * Ends a session; its access and refresh tokens stop working immediately
+   */
+  revokeSession(session: Session, reason: SessionRevokeReason): Promise<void>;
+
+  /**
+   * Ends all sessions of a user, optionally keeping one
+   * @returns The number of sessions ended
+   */
+  revokeAllSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number>;
+}
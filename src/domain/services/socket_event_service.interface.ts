@@ -182,6 +182,7 @@ export interface ISocketEventService {
 
   /**
    * Emits notification event to a user
+   * Resolves true when the user was connected and got the live alert
    */
   emitNotification(notification: {
     userId: string;
@@ -189,6 +190,6 @@ export interface ISocketEventService {
     title: string;
     message: string;
     data?: Record<string, unknown>;
-  }): Promise<void>;
+  }): Promise<boolean>;
 }
 
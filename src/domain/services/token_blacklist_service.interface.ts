@@ -1,6 +1,6 @@
 /**
  * Token blacklist service interface
- * Handles blacklisting of JWT tokens for logout and user blocking
+ * Handles blacklisting of JWT tokens and revoked sessions for logout and user blocking
  */
 export interface ITokenBlacklistService {
   blacklistToken(token: string, expiryTime: number): Promise<void>;
@@ -8,4 +8,11 @@ export interface ITokenBlacklistService {
   isTokenBlacklisted(token: string): Promise<boolean>;
 
   removeFromBlacklist(token: string): Promise<void>;
+
+  /**
+   * Rejects every token of a session until expiryTime (seconds) has passed
+   */
+  revokeSession(sessionId: string, expiryTime: number): Promise<void>;
+
+  isSessionRevoked(sessionId: string): Promise<boolean>;
 }
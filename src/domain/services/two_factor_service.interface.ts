@@ -0,0 +1,50 @@
+import { TwoFactorAuth } from '../entities/two_factor_auth.entity';
+
+/**
+ * Two-Factor Service Interface
+ * Defines contract for the second login step: short-lived challenges and code checks
+ */
+
+/**
+ * What the holder of a challenge must do to finish logging in
+ * verify: enter a code from their authenticator app or a recovery code
+ * enroll: set up an authenticator app first, because their role requires it
+ */
+export type TwoFactorChallengePurpose = 'verify' | 'enroll';
+
+export interface ITwoFactorChallenge {
+  userId: string;
+  purpose: TwoFactorChallengePurpose;
+}
+
+export interface ITwoFactorCodeInput {
+  code?: string; // From the authenticator app
+  recoveryCode?: string;
+}
+
+export interface ITwoFactorService {
+  /**
+   * Issue a single-use challenge for a user who passed the first login step
+   * @returns The challenge token to hand to the client
+   */
+  createChallenge(userId: string, purpose: TwoFactorChallengePurpose): Promise<string>;
+
+  /**
+   * Get a challenge that has not expired or been used
+   */
+  getChallenge(challengeToken: string): Promise<ITwoFactorChallenge | null>;
+
+  /**
+   * Count a wrong code entered against a challenge
+   * @returns Number of wrong codes entered against the challenge so far
+   */
+  recordFailedChallengeAttempt(challengeToken: string): Promise<number>;
+
+  deleteChallenge(challengeToken: string): Promise<void>;
+
+  /**
+   * Check a code against enabled two-factor settings
+   * An accepted authenticator code cannot be used again; an accepted recovery code is used up
+   */
+  verifyCode(twoFactorAuth: TwoFactorAuth, input: ITwoFactorCodeInput): Promise<boolean>;
+}
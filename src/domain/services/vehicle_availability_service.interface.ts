@@ -0,0 +1,78 @@
+import { VehicleHold } from '../entities/vehicle_hold.entity';
+import { MaintenanceWindow } from '../entities/maintenance_window.entity';
+
+/**
+ * Time window a vehicle is needed for
+ */
+export interface IVehicleHoldWindow {
+  startAt: Date;
+  endAt: Date;
+}
+
+/**
+ * Outcome of trying to hold vehicles
+ * When not acquired, nothing is held and conflicts lists the holds that got in the way,
+ * maintenanceConflicts the maintenance windows
+ */
+export interface IVehicleHoldResult {
+  acquired: boolean;
+  holds: VehicleHold[];
+  conflicts: VehicleHold[];
+  maintenanceConflicts: MaintenanceWindow[];
+}
+
+/**
+ * Vehicle availability service interface
+ * Guards vehicles against double-booking by holding vehicle-time windows
+ * Vehicles with a scheduled or in-progress maintenance window cannot be held over it
+ */
+export interface IVehicleAvailabilityService {
+  /**
+   * Soft-holds vehicles for a quote awaiting payment
+   * Replaces any earlier holds of the quote; the hold lapses with the payment window
+   */
+  holdVehiclesForQuote(
+    quoteId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow,
+    quotedAt: Date
+  ): Promise<IVehicleHoldResult>;
+
+  /**
+   * Turns a paid quote's holds into hard bookings for its reservation
+   * Vehicles whose hold lapsed are held again if still free
+   */
+  confirmHoldsForReservation(
+    quoteId: string,
+    reservationId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow
+  ): Promise<IVehicleHoldResult>;
+
+  /**
+   * Moves a reservation's bookings to a new set of vehicles
+   * Existing bookings are kept when the new vehicles cannot all be booked
+   */
+  replaceReservationHolds(
+    quoteId: string,
+    reservationId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow
+  ): Promise<IVehicleHoldResult>;
+
+  /**
+   * Releases the soft holds of a quote
+   */
+  releaseHoldsForQuote(quoteId: string): Promise<void>;
+
+  /**
+   * Releases the bookings of a reservation
+   */
+  releaseHoldsForReservation(reservationId: string): Promise<void>;
+
+  /**
+   * Finds vehicles held or booked during the window
+   * Holds belonging to excludeQuoteId are ignored
+   */
+  findHeldVehicleIds(window: IVehicleHoldWindow, excludeQuoteId?: string): Promise<Set<string>>;
+}
@@ -0,0 +1,24 @@
+import { MaintenanceWindow } from '../entities/maintenance_window.entity';
+
+/**
+ * Vehicle maintenance service interface
+ * Moves maintenance windows through their lifecycle and keeps the vehicle status in step
+ */
+export interface IVehicleMaintenanceService {
+  /**
+   * Starts a scheduled window and switches its vehicle to MAINTENANCE
+   * Does nothing if the window was completed or cancelled in the meantime
+   */
+  startWindow(windowId: string): Promise<MaintenanceWindow | null>;
+
+  /**
+   * Completes or cancels a window and drops its pending jobs
+   * The vehicle goes back to AVAILABLE unless another window still holds it in maintenance
+   * Returns null if the window does not exist or is already closed
+   */
+  closeWindow(
+    windowId: string,
+    status: 'completed' | 'cancelled',
+    serviceRecordId?: string
+  ): Promise<MaintenanceWindow | null>;
+}
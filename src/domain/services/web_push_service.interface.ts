@@ -0,0 +1,36 @@
+/**
+ * Web Push Service Interface
+ * Defines contract for sending browser push notifications to customers and admins
+ */
+
+export interface IWebPushMessage {
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface IWebPushResult {
+  devices: number; // Subscriptions the user had
+  delivered: number; // Subscriptions the push service accepted the message for
+  pruned: number; // Expired subscriptions removed
+}
+
+export interface IWebPushService {
+  /**
+   * Whether VAPID keys are configured
+   */
+  isConfigured(): boolean;
+
+  /**
+   * VAPID public key browsers subscribe with
+   */
+  getPublicKey(): string;
+
+  /**
+   * Send push notification to every browser the user subscribed
+   * Subscriptions the push service reports as gone are deleted
+   * @param userId - User ID to send notification to
+   * @param message - Notification data
+   */
+  sendToUser(userId: string, message: IWebPushMessage): Promise<IWebPushResult>;
+}
@@ -18,10 +18,22 @@ import { IQueueService } from './domain/services/queue_service.interface';
 import { DriverAssignmentWorker } from './infrastructure/queue/workers/driver_assignment.worker';
 import { QuoteExpiryWorker } from './infrastructure/queue/workers/quote_expiry.worker';
 import { TripAutoCompleteWorker } from './infrastructure/queue/workers/trip_auto_complete.worker';
+import { VehicleMaintenanceWorker } from './infrastructure/queue/workers/vehicle_maintenance.worker';
+import { WebhookRetryWorker } from './infrastructure/queue/workers/webhook_retry.worker';
+import { BalancePaymentWorker } from './infrastructure/queue/workers/balance_payment.worker';
+import { QuoteFollowUpWorker } from './infrastructure/queue/workers/quote_follow_up.worker';
+import { CorporateInvoiceWorker } from './infrastructure/queue/workers/corporate_invoice.worker';
+import { NotificationDigestWorker } from './infrastructure/queue/workers/notification_digest.worker';
 import { driverAssignmentQueue } from './infrastructure/queue/driver_assignment.queue';
 import { quoteExpiryQueue } from './infrastructure/queue/quote_expiry.queue';
 import { driverCooldownQueue } from './infrastructure/queue/driver_cooldown.queue';
 import { tripAutoCompleteQueue } from './infrastructure/queue/trip_auto_complete.queue';
+import { vehicleMaintenanceQueue } from './infrastructure/queue/vehicle_maintenance.queue';
+import { webhookRetryQueue } from './infrastructure/queue/webhook_retry.queue';
+import { balancePaymentQueue } from './infrastructure/queue/balance_payment.queue';
+import { quoteFollowUpQueue } from './infrastructure/queue/quote_follow_up.queue';
+import { corporateInvoiceQueue } from './infrastructure/queue/corporate_invoice.queue';
+import { notificationDigestQueue } from './infrastructure/queue/notification_digest.queue';
 import { initializeDriverCooldownWorker } from './infrastructure/queue/workers/driver_cooldown.worker';
 import { backfillTripAutoCompleteJobs } from './application/startup/backfill_trip_auto_complete';
 
@@ -100,6 +112,11 @@ const startServer = async (): Promise<void> => {
     quoteExpiryWorker.initialize();
     console.log('[Server] Quote expiry worker initialized');
 
+    // Initialize quote follow-up worker
+    const quoteFollowUpWorker = new QuoteFollowUpWorker();
+    quoteFollowUpWorker.initialize();
+    console.log('[Server] Quote follow-up worker initialized');
+
     // Initialize driver cooldown worker
     initializeDriverCooldownWorker();
     console.log('[Server] Driver cooldown worker initialized');
@@ -109,6 +126,31 @@ const startServer = async (): Promise<void> => {
     tripAutoCompleteWorker.initialize();
     console.log('[Server] Trip auto-complete worker initialized');
 
+    // Initialize vehicle maintenance worker
+    const vehicleMaintenanceWorker = new VehicleMaintenanceWorker();
+    vehicleMaintenanceWorker.initialize();
+    console.log('[Server] Vehicle maintenance worker initialized');
+
+    // Initialize webhook retry worker
+    const webhookRetryWorker = new WebhookRetryWorker();
+    webhookRetryWorker.initialize();
+    console.log('[Server] Webhook retry worker initialized');
+
+    // Initialize balance payment worker
+    const balancePaymentWorker = new BalancePaymentWorker();
+    balancePaymentWorker.initialize();
+    console.log('[Server] Balance payment worker initialized');
+
+    // Initialize corporate invoice worker
+    const corporateInvoiceWorker = new CorporateInvoiceWorker();
+    corporateInvoiceWorker.initialize();
+    console.log('[Server] Corporate invoice worker initialized');
+
+    // Initialize notification digest worker
+    const notificationDigestWorker = new NotificationDigestWorker();
+    notificationDigestWorker.initialize();
+    console.log('[Server] Notification digest worker initialized');
+
     // Backfill existing ongoing trips (one-time at startup)
     await backfillTripAutoCompleteJobs();
     console.log('[Server] Trip auto-complete backfill completed');
@@ -119,6 +161,12 @@ const startServer = async (): Promise<void> => {
     await queueService.initializeProcessPendingQuotesRepeatJob();
     console.log('[Server] Process pending quotes repeat job initialized');
 
+    await queueService.initializeCorporateInvoicingRepeatJobs();
+    console.log('[Server] Corporate invoicing repeat jobs initialized');
+
+    await queueService.initializeNotificationDigestRepeatJob();
+    console.log('[Server] Notification digest repeat job initialized');
+
     // Graceful shutdown handler
     const gracefulShutdown = async (signal: string): Promise<void> => {
       console.log(`\n${signal} received. Starting graceful shutdown...`);
@@ -127,7 +175,13 @@ const startServer = async (): Promise<void> => {
       await driverCooldownQueue.close();
       await driverAssignmentQueue.close();
       await quoteExpiryQueue.close();
+      await quoteFollowUpQueue.close();
       await tripAutoCompleteQueue.close();
+      await vehicleMaintenanceQueue.close();
+      await webhookRetryQueue.close();
+      await balancePaymentQueue.close();
+      await corporateInvoiceQueue.close();
+      await notificationDigestQueue.close();
       console.log('[Server] Queue connections closed');
 
       // Close database connections
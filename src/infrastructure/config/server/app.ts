@@ -14,7 +14,16 @@ import { createEventTypeRoutesWithDI } from '../../../presentation/routes/event_
 import { createAdminQuoteRoutesWithDI } from '../../../presentation/routes/admin/admin_quote_routes';
 import { createAdminReservationRoutesWithDI } from '../../../presentation/routes/admin/admin_reservation_routes';
 import { createAdminTripRoutesWithDI } from '../../../presentation/routes/admin/admin_trip_routes';
+import { createAdminScheduleRoutesWithDI } from '../../../presentation/routes/admin/admin_schedule_routes';
+import { createAdminMaintenanceRoutesWithDI } from '../../../presentation/routes/admin/admin_maintenance_routes';
+import { createAdminFuelReportRoutesWithDI } from '../../../presentation/routes/admin/admin_fuel_report_routes';
 import { createAdminPricingConfigRoutesWithDI } from '../../../presentation/routes/admin/admin_pricing_config_routes';
+import { createAdminExchangeRateRoutesWithDI } from '../../../presentation/routes/admin/admin_exchange_rate_routes';
+import { createAdminPromoCodeRoutesWithDI } from '../../../presentation/routes/admin/admin_promo_code_routes';
+import { createAdminCorporateAccountRoutesWithDI } from '../../../presentation/routes/admin/admin_corporate_account_routes';
+import { createAdminWebhookEventRoutesWithDI } from '../../../presentation/routes/admin/admin_webhook_event_routes';
+import { createAdminAuditLogRoutesWithDI } from '../../../presentation/routes/admin/admin_audit_log_routes';
+import { createAdminCancellationPolicyRoutesWithDI } from '../../../presentation/routes/admin/admin_cancellation_policy_routes';
 import { createAdminUserRoutesWithDI } from '../../../presentation/routes/admin/admin_user_routes';
 import { createAdminDriverRoutesWithDI } from '../../../presentation/routes/admin/admin_driver_routes';
 import { createDriverRoutesWithDI } from '../../../presentation/routes/driver/driver_routes';
@@ -25,6 +34,7 @@ import { createReservationRoutesWithDI } from '../../../presentation/routes/rese
 import { createWebhookRoutesWithDI } from '../../../presentation/routes/webhook/webhook_routes';
 import { createDashboardRoutesWithDI } from '../../../presentation/routes/dashboard/dashboard_routes';
 import { createSupportRoutesWithDI } from '../../../presentation/routes/support/support.routes';
+import { createCorporateAccountRoutesWithDI } from '../../../presentation/routes/corporate/corporate_account_routes';
 import express from 'express';
 
 /**
@@ -127,9 +137,36 @@ export class App {
     const adminTripRoutes = createAdminTripRoutesWithDI();
     this.app.use(`/api/v1/admin/trips`, adminTripRoutes);
 
+    const adminScheduleRoutes = createAdminScheduleRoutesWithDI();
+    this.app.use(`/api/v1/admin/schedule`, adminScheduleRoutes);
+
+    const adminMaintenanceRoutes = createAdminMaintenanceRoutesWithDI();
+    this.app.use(`/api/v1/admin/maintenance`, adminMaintenanceRoutes);
+
+    const adminFuelReportRoutes = createAdminFuelReportRoutesWithDI();
+    this.app.use(`/api/v1/admin/fuel`, adminFuelReportRoutes);
+
     const adminPricingConfigRoutes = createAdminPricingConfigRoutesWithDI();
     this.app.use(`/api/v1/admin/pricing-config`, adminPricingConfigRoutes);
 
+    const adminExchangeRateRoutes = createAdminExchangeRateRoutesWithDI();
+    this.app.use(`/api/v1/admin/exchange-rates`, adminExchangeRateRoutes);
+
+    const adminPromoCodeRoutes = createAdminPromoCodeRoutesWithDI();
+    this.app.use(`/api/v1/admin/promo-codes`, adminPromoCodeRoutes);
+
+    const adminCorporateAccountRoutes = createAdminCorporateAccountRoutesWithDI();
+    this.app.use(`/api/v1/admin/corporate-accounts`, adminCorporateAccountRoutes);
+
+    const adminWebhookEventRoutes = createAdminWebhookEventRoutesWithDI();
+    this.app.use(`/api/v1/admin/webhook-events`, adminWebhookEventRoutes);
+
+    const adminAuditLogRoutes = createAdminAuditLogRoutesWithDI();
+    this.app.use(`/api/v1/admin/audit-log`, adminAuditLogRoutes);
+
+    const adminCancellationPolicyRoutes = createAdminCancellationPolicyRoutesWithDI();
+    this.app.use(`/api/v1/admin/cancellation-policies`, adminCancellationPolicyRoutes);
+
     const adminUserRoutes = createAdminUserRoutesWithDI();
     this.app.use(`/api/v1/admin/users`, adminUserRoutes);
 
@@ -153,6 +190,9 @@ export class App {
 
     const supportRoutes = createSupportRoutesWithDI();
     this.app.use(`/api/v1/support`, supportRoutes);
+
+    const corporateAccountRoutes = createCorporateAccountRoutesWithDI();
+    this.app.use(`/api/v1/corporate-account`, corporateAccountRoutes);
   }
 
   /**
@@ -38,6 +38,9 @@ export class MiddlewareConfigurator {
    * Note: Webhook paths are excluded from JSON parsing to preserve raw body for signature verification
    */
   public configure(): void {
+    // Number of reverse proxies in front of the app, so req.ip is the client address used for rate limits
+    this.app.set('trust proxy', SERVER_CONFIG.TRUST_PROXY_HOPS);
+
     // CORS middleware (first - handles preflight requests)
     const corsOptions = this.config.corsOptions || {
       ...SERVER_CONFIG.CORS,
@@ -0,0 +1,37 @@
+import mongoose, { Document } from 'mongoose';
+import { AuditLogSchema } from '../schemas/audit_log.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { AuditAction, AuditTargetType } from '../../../../shared/constants';
+import { AuditChange } from '../../../../domain/entities/audit_log.entity';
+
+/**
+ * MongoDB document type for AuditLog
+ * Represents the structure of a document in the audit_logs collection
+ */
+export interface IAuditLogModel extends Document {
+  auditLogId: string;
+  actorId: string;
+  actorEmail?: string;
+  actorRole?: string;
+  action: AuditAction;
+  targetType: AuditTargetType;
+  targetId: string;
+  changes: AuditChange[];
+  ipAddress?: string;
+  userAgent?: string;
+  metadata?: Record<string, unknown>;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose model instance for AuditLog
+ */
+export const AuditLogDB = mongoose.model<IAuditLogModel>('AuditLog', AuditLogSchema);
+
+/**
+ * Creates an IDatabaseModel instance for AuditLog
+ */
+export function createAuditLogModel(): IDatabaseModel<IAuditLogModel> {
+  return new MongoDBModelImpl<IAuditLogModel>(AuditLogDB);
+}
@@ -0,0 +1,40 @@
+import mongoose, { Document } from 'mongoose';
+import { CancellationPolicySchema } from '../schemas/cancellation_policy.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import {
+  ICancellationPolicyTier,
+  CancellationRefundMode,
+} from '../../../../domain/entities/cancellation_policy.entity';
+
+/**
+ * MongoDB document type for CancellationPolicy
+ * Represents the structure of a document in the cancellation_policies collection
+ */
+export interface ICancellationPolicyModel extends Document {
+  cancellationPolicyId: string;
+  version: number;
+  tiers: ICancellationPolicyTier[];
+  nonRefundableDepositPercentage: number;
+  amenityRefundMode: CancellationRefundMode;
+  chargeRefundMode: CancellationRefundMode;
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for CancellationPolicy
+ */
+export const CancellationPolicyDB = mongoose.model<ICancellationPolicyModel>(
+  'CancellationPolicy',
+  CancellationPolicySchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for CancellationPolicy
+ */
+export function createCancellationPolicyModel(): IDatabaseModel<ICancellationPolicyModel> {
+  return new MongoDBModelImpl<ICancellationPolicyModel>(CancellationPolicyDB);
+}
@@ -0,0 +1,46 @@
+import mongoose, { Document } from 'mongoose';
+import { CorporateAccountSchema } from '../schemas/corporate_account.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import {
+  CorporateAccountStatus,
+  ICorporateAccountMember,
+  ICorporateBillingContact,
+} from '../../../../domain/entities/corporate_account.entity';
+
+/**
+ * MongoDB document type for CorporateAccount
+ * Represents the structure of a document in the corporate_accounts collection
+ */
+export interface ICorporateAccountModel extends Document {
+  corporateAccountId: string;
+  name: string;
+  billingContact: ICorporateBillingContact;
+  billingAddress?: string;
+  taxId?: string;
+  creditLimit: number;
+  currency: string;
+  paymentTermsDays: number;
+  approvalThreshold?: number;
+  members: ICorporateAccountMember[];
+  status: CorporateAccountStatus;
+  createdBy: string;
+  creditVersion?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for CorporateAccount
+ */
+export const CorporateAccountDB = mongoose.model<ICorporateAccountModel>(
+  'CorporateAccount',
+  CorporateAccountSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for CorporateAccount
+ */
+export function createCorporateAccountModel(): IDatabaseModel<ICorporateAccountModel> {
+  return new MongoDBModelImpl<ICorporateAccountModel>(CorporateAccountDB);
+}
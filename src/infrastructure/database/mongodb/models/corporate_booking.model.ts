@@ -0,0 +1,43 @@
+import mongoose, { Document } from 'mongoose';
+import { CorporateBookingSchema } from '../schemas/corporate_booking.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { CorporateBookingStatus } from '../../../../domain/entities/corporate_booking.entity';
+
+/**
+ * MongoDB document type for CorporateBooking
+ * Represents the structure of a document in the corporate_bookings collection
+ */
+export interface ICorporateBookingModel extends Document {
+  corporateBookingId: string;
+  corporateAccountId: string;
+  quoteId: string;
+  requestedBy: string;
+  amount: number;
+  currency: string;
+  status: CorporateBookingStatus;
+  reservationId?: string;
+  paymentId?: string;
+  bookedAt?: Date;
+  invoiceId?: string;
+  reviewedBy?: string;
+  reviewedAt?: Date;
+  rejectionReason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for CorporateBooking
+ */
+export const CorporateBookingDB = mongoose.model<ICorporateBookingModel>(
+  'CorporateBooking',
+  CorporateBookingSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for CorporateBooking
+ */
+export function createCorporateBookingModel(): IDatabaseModel<ICorporateBookingModel> {
+  return new MongoDBModelImpl<ICorporateBookingModel>(CorporateBookingDB);
+}
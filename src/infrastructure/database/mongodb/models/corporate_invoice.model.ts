@@ -0,0 +1,45 @@
+import mongoose, { Document } from 'mongoose';
+import { CorporateInvoiceSchema } from '../schemas/corporate_invoice.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import {
+  CorporateInvoiceStatus,
+  ICorporateInvoiceLineItem,
+} from '../../../../domain/entities/corporate_invoice.entity';
+
+/**
+ * MongoDB document type for CorporateInvoice
+ * Represents the structure of a document in the corporate_invoices collection
+ */
+export interface ICorporateInvoiceModel extends Document {
+  invoiceId: string;
+  invoiceNumber: string;
+  corporateAccountId: string;
+  periodStart: Date;
+  periodEnd: Date;
+  lineItems: ICorporateInvoiceLineItem[];
+  totalAmount: number;
+  currency: string;
+  status: CorporateInvoiceStatus;
+  issuedAt: Date;
+  dueAt: Date;
+  paidAt?: Date;
+  paymentReference?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for CorporateInvoice
+ */
+export const CorporateInvoiceDB = mongoose.model<ICorporateInvoiceModel>(
+  'CorporateInvoice',
+  CorporateInvoiceSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for CorporateInvoice
+ */
+export function createCorporateInvoiceModel(): IDatabaseModel<ICorporateInvoiceModel> {
+  return new MongoDBModelImpl<ICorporateInvoiceModel>(CorporateInvoiceDB);
+}
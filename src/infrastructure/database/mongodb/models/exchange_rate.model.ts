@@ -0,0 +1,30 @@
+import mongoose, { Document } from 'mongoose';
+import { ExchangeRateSchema } from '../schemas/exchange_rate.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+
+/**
+ * MongoDB document type for ExchangeRate
+ * Represents the structure of a document in the exchange_rates collection
+ */
+export interface IExchangeRateModel extends Document {
+  exchangeRateId: string;
+  baseCurrency: string;
+  currency: string;
+  rate: number;
+  updatedBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for ExchangeRate
+ */
+export const ExchangeRateDB = mongoose.model<IExchangeRateModel>('ExchangeRate', ExchangeRateSchema);
+
+/**
+ * Creates an IDatabaseModel instance for ExchangeRate
+ */
+export function createExchangeRateModel(): IDatabaseModel<IExchangeRateModel> {
+  return new MongoDBModelImpl<IExchangeRateModel>(ExchangeRateDB);
+}
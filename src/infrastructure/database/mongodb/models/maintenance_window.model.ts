@@ -0,0 +1,40 @@
+import mongoose, { Document } from 'mongoose';
+import { MaintenanceWindowSchema } from '../schemas/maintenance_window.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { MaintenanceWindowStatus } from '../../../../domain/entities/maintenance_window.entity';
+
+/**
+ * MongoDB document type for MaintenanceWindow
+ * Represents the structure of a document in the maintenance_windows collection
+ */
+export interface IMaintenanceWindowModel extends Document {
+  windowId: string;
+  vehicleId: string;
+  startAt: Date;
+  endAt: Date;
+  reason: string;
+  notes?: string;
+  status: MaintenanceWindowStatus;
+  startedAt?: Date;
+  completedAt?: Date;
+  cancelledAt?: Date;
+  serviceRecordId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for MaintenanceWindow
+ */
+export const MaintenanceWindowDB = mongoose.model<IMaintenanceWindowModel>(
+  'MaintenanceWindow',
+  MaintenanceWindowSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for MaintenanceWindow
+ */
+export function createMaintenanceWindowModel(): IDatabaseModel<IMaintenanceWindowModel> {
+  return new MongoDBModelImpl<IMaintenanceWindowModel>(MaintenanceWindowDB);
+}
@@ -1,5 +1,6 @@
 import mongoose, { Document } from 'mongoose';
 import { NotificationType } from '../../../../shared/constants';
+import { INotificationDelivery } from '../../../../domain/entities/notification.entity';
 import { NotificationSchema } from '../schemas/notification.schema';
 import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
 import { MongoDBModelImpl } from '../mongodb_model.impl';
@@ -16,6 +17,10 @@ export interface INotificationModel extends Document {
   message: string;
   data?: Record<string, unknown>;
   isRead: boolean;
+  deliveries?: INotificationDelivery[];
+  groupKey?: string;
+  count?: number;
+  lastNotifiedAt?: Date;
   createdAt: Date;
   updatedAt: Date;
 }
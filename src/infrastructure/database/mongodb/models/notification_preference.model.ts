@@ -0,0 +1,33 @@
+import mongoose, { Document } from 'mongoose';
+import { NotificationPreferenceSchema } from '../schemas/notification_preference.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { INotificationTypePreference, IQuietHours } from '../../../../domain/entities/notification_preference.entity';
+
+/**
+ * MongoDB document type for NotificationPreference
+ * Represents the structure of a document in the notification_preferences collection
+ */
+export interface INotificationPreferenceModel extends Document {
+  userId: string;
+  channels: INotificationTypePreference[];
+  quietHours?: IQuietHours;
+  dailyDigest?: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for NotificationPreference
+ */
+export const NotificationPreferenceDB = mongoose.model<INotificationPreferenceModel>(
+  'NotificationPreference',
+  NotificationPreferenceSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for NotificationPreference
+ */
+export function createNotificationPreferenceModel(): IDatabaseModel<INotificationPreferenceModel> {
+  return new MongoDBModelImpl<INotificationPreferenceModel>(NotificationPreferenceDB);
+}
@@ -1,6 +1,6 @@
 import mongoose, { Document } from 'mongoose';
 import { PaymentSchema } from '../schemas/payment.schema';
-import { PaymentStatus, PaymentMethod } from '../../../../domain/entities/payment.entity';
+import { PaymentStatus, PaymentMethod, IPaymentDispute } from '../../../../domain/entities/payment.entity';
 import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
 import { MongoDBModelImpl } from '../mongodb_model.impl';
 
@@ -20,6 +20,7 @@ export interface IPaymentModel extends Document {
   transactionId?: string;
   paidAt?: Date;
   metadata?: Record<string, unknown>;
+  dispute?: IPaymentDispute;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -14,6 +14,8 @@ export interface IPricingConfigModel extends Document {
   averageDriverPerHourRate: number;
   taxPercentage: number;
   nightChargePerNight: number;
+  useActualFuelConsumption?: boolean;
+  currency?: string;
   isActive: boolean;
   createdBy: string;
   createdAt: Date;
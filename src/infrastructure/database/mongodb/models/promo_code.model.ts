@@ -0,0 +1,40 @@
+import mongoose, { Document } from 'mongoose';
+import { PromoCodeSchema } from '../schemas/promo_code.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { PromoDiscountType } from '../../../../domain/entities/promo_code.entity';
+
+/**
+ * MongoDB document type for PromoCode
+ * Represents the structure of a document in the promo_codes collection
+ */
+export interface IPromoCodeModel extends Document {
+  promoCodeId: string;
+  code: string;
+  description?: string;
+  discountType: PromoDiscountType;
+  discountValue: number;
+  validFrom: Date;
+  validUntil: Date;
+  maxUses?: number;
+  usedCount: number;
+  perUserLimit?: number;
+  minTripValue?: number;
+  eventTypes: string[];
+  isActive: boolean;
+  createdBy: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for PromoCode
+ */
+export const PromoCodeDB = mongoose.model<IPromoCodeModel>('PromoCode', PromoCodeSchema);
+
+/**
+ * Creates an IDatabaseModel instance for PromoCode
+ */
+export function createPromoCodeModel(): IDatabaseModel<IPromoCodeModel> {
+  return new MongoDBModelImpl<IPromoCodeModel>(PromoCodeDB);
+}
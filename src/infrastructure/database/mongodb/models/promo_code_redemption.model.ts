@@ -0,0 +1,35 @@
+import mongoose, { Document } from 'mongoose';
+import { PromoCodeRedemptionSchema } from '../schemas/promo_code_redemption.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+
+/**
+ * MongoDB document type for PromoCodeRedemption
+ * Represents the structure of a document in the promo_code_redemptions collection
+ */
+export interface IPromoCodeRedemptionModel extends Document {
+  redemptionId: string;
+  promoCodeId: string;
+  code: string;
+  userId: string;
+  quoteId: string;
+  reservationId?: string;
+  discountAmount: number;
+  currency: string;
+  createdAt: Date;
+}
+
+/**
+ * Mongoose model instance for PromoCodeRedemption
+ */
+export const PromoCodeRedemptionDB = mongoose.model<IPromoCodeRedemptionModel>(
+  'PromoCodeRedemption',
+  PromoCodeRedemptionSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for PromoCodeRedemption
+ */
+export function createPromoCodeRedemptionModel(): IDatabaseModel<IPromoCodeRedemptionModel> {
+  return new MongoDBModelImpl<IPromoCodeRedemptionModel>(PromoCodeRedemptionDB);
+}
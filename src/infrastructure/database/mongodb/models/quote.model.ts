@@ -3,6 +3,7 @@ import { QuoteStatus, TripType } from '../../../../shared/constants';
 import { QuoteSchema } from '../schemas/quote.schema';
 import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
 import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { NegotiablePricingComponent, QuotePricingVersionStatus } from '../../../../domain/entities/quote.entity';
 
 /**
  * Selected vehicle structure
@@ -26,8 +27,44 @@ export interface IPricingBreakdown {
   nightCharge?: number;
   amenitiesTotal?: number;
   subtotal?: number;
+  discount?: number;
+  promoCode?: string;
+  lineItems?: IPricingLineItem[];
   tax?: number;
   total?: number;
+  currency?: string;
+  baseCurrency?: string;
+  exchangeRateAtTime?: number;
+}
+
+/**
+ * Ad-hoc pricing line item structure
+ */
+export interface IPricingLineItem {
+  description: string;
+  amount: number;
+  reason?: string;
+}
+
+/**
+ * Negotiated pricing version structure
+ */
+export interface IQuotePricingVersion {
+  version: number;
+  pricing: IPricingBreakdown;
+  overrides: Array<{
+    component: NegotiablePricingComponent;
+    originalAmount: number;
+    amount: number;
+    reason: string;
+  }>;
+  lineItems: IPricingLineItem[];
+  status: QuotePricingVersionStatus;
+  proposedBy: string;
+  proposedAt: Date;
+  note?: string;
+  respondedAt?: Date;
+  responseReason?: string;
 }
 
 /**
@@ -70,6 +107,10 @@ export interface IQuoteModel extends Document {
   pricingLastUpdatedAt?: Date;
   quotedAt?: Date;
   isDeleted: boolean;
+  currency?: string;
+  promoCode?: string;
+  pricingVersions?: IQuotePricingVersion[];
+  requotedFromQuoteId?: string;
   createdAt: Date;
   updatedAt: Date;
 }
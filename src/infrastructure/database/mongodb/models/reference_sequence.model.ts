@@ -0,0 +1,30 @@
+import mongoose, { Document } from 'mongoose';
+import { ReferenceSequenceSchema } from '../schemas/reference_sequence.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+
+/**
+ * MongoDB document type for ReferenceSequence
+ * Represents the structure of a document in the reference_sequences collection
+ */
+export interface IReferenceSequenceModel extends Document {
+  key: string;
+  value: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for ReferenceSequence
+ */
+export const ReferenceSequenceDB = mongoose.model<IReferenceSequenceModel>(
+  'ReferenceSequence',
+  ReferenceSequenceSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for ReferenceSequence
+ */
+export function createReferenceSequenceModel(): IDatabaseModel<IReferenceSequenceModel> {
+  return new MongoDBModelImpl<IReferenceSequenceModel>(ReferenceSequenceDB);
+}
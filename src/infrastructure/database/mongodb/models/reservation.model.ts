@@ -3,6 +3,7 @@ import { ReservationStatus, TripType } from '../../../../shared/constants';
 import { ReservationSchema } from '../schemas/reservation.schema';
 import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
 import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { PaymentInstallmentKind, PaymentInstallmentStatus } from '../../../../domain/entities/reservation.entity';
 
 /**
  * Selected vehicle structure
@@ -37,6 +38,23 @@ export interface IOriginalPricing {
   paidAt?: Date;
 }
 
+/**
+ * Payment schedule structure
+ */
+export interface IPaymentSchedule {
+  totalAmount: number;
+  currency: string;
+  depositPercentage: number;
+  installments: Array<{
+    kind: PaymentInstallmentKind;
+    amount: number;
+    dueAt: Date;
+    status: PaymentInstallmentStatus;
+    paymentId?: string;
+    paidAt?: Date;
+  }>;
+}
+
 /**
  * MongoDB document type for Reservation
  * Represents the structure of a document in the reservations collection
@@ -73,6 +91,9 @@ export interface IReservationModel extends Document {
     content: string;
     submittedAt: Date;
   };
+  cancellationPolicyId?: string;
+  cancellationPolicyVersion?: number;
+  paymentSchedule?: IPaymentSchedule;
   createdAt: Date;
   updatedAt: Date;
 }
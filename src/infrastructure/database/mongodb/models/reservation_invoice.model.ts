@@ -0,0 +1,45 @@
+import mongoose, { Document } from 'mongoose';
+import { ReservationInvoiceSchema } from '../schemas/reservation_invoice.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { ReservationInvoiceType } from '../../../../domain/entities/reservation_invoice.entity';
+
+/**
+ * MongoDB document type for ReservationInvoice
+ * Represents the structure of a document in the reservation_invoices collection
+ */
+export interface IReservationInvoiceModel extends Document {
+  invoiceId: string;
+  invoiceNumber: string;
+  documentType: ReservationInvoiceType;
+  reservationId: string;
+  userId: string;
+  paymentId: string;
+  sourceKey: string;
+  description: string;
+  amount: number;
+  currency: string;
+  paymentMethod: string;
+  issuedAt: Date;
+  chargeId?: string;
+  refundId?: string;
+  relatedInvoiceId?: string;
+  reason?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for ReservationInvoice
+ */
+export const ReservationInvoiceDB = mongoose.model<IReservationInvoiceModel>(
+  'ReservationInvoice',
+  ReservationInvoiceSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for ReservationInvoice
+ */
+export function createReservationInvoiceModel(): IDatabaseModel<IReservationInvoiceModel> {
+  return new MongoDBModelImpl<IReservationInvoiceModel>(ReservationInvoiceDB);
+}
@@ -0,0 +1,34 @@
+import mongoose, { Document } from 'mongoose';
+import { ServiceRecordSchema } from '../schemas/service_record.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+
+/**
+ * MongoDB document type for ServiceRecord
+ * Represents the structure of a document in the service_records collection
+ */
+export interface IServiceRecordModel extends Document {
+  recordId: string;
+  vehicleId: string;
+  serviceType: string;
+  servicedAt: Date;
+  odometerReading: number;
+  cost: number;
+  vendor: string;
+  notes?: string;
+  windowId?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for ServiceRecord
+ */
+export const ServiceRecordDB = mongoose.model<IServiceRecordModel>('ServiceRecord', ServiceRecordSchema);
+
+/**
+ * Creates an IDatabaseModel instance for ServiceRecord
+ */
+export function createServiceRecordModel(): IDatabaseModel<IServiceRecordModel> {
+  return new MongoDBModelImpl<IServiceRecordModel>(ServiceRecordDB);
+}
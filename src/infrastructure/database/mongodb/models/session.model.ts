@@ -0,0 +1,37 @@
+import mongoose, { Document } from 'mongoose';
+import { SessionSchema } from '../schemas/session.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { SessionRevokeReason } from '../../../../shared/constants';
+
+/**
+ * MongoDB document type for Session
+ * Represents the structure of a document in the sessions collection
+ */
+export interface ISessionModel extends Document {
+  sessionId: string;
+  userId: string;
+  role: string;
+  refreshTokenId: string;
+  deviceName: string;
+  ipAddress?: string;
+  userAgent?: string;
+  lastSeenAt: Date;
+  expiresAt: Date;
+  revokedAt?: Date;
+  revokedReason?: SessionRevokeReason;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for Session
+ */
+export const SessionDB = mongoose.model<ISessionModel>('Session', SessionSchema);
+
+/**
+ * Creates an IDatabaseModel instance for Session
+ */
+export function createSessionModel(): IDatabaseModel<ISessionModel> {
+  return new MongoDBModelImpl<ISessionModel>(SessionDB);
+}
@@ -0,0 +1,31 @@
+import mongoose, { Document } from 'mongoose';
+import { TwoFactorAuthSchema } from '../schemas/two_factor_auth.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+
+/**
+ * MongoDB document type for TwoFactorAuth
+ * Represents the structure of a document in the two_factor_auths collection
+ */
+export interface ITwoFactorAuthModel extends Document {
+  userId: string;
+  secret: string;
+  enabled: boolean;
+  recoveryCodeHashes: string[];
+  enabledAt?: Date;
+  lastUsedStep?: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for TwoFactorAuth
+ */
+export const TwoFactorAuthDB = mongoose.model<ITwoFactorAuthModel>('TwoFactorAuth', TwoFactorAuthSchema);
+
+/**
+ * Creates an IDatabaseModel instance for TwoFactorAuth
+ */
+export function createTwoFactorAuthModel(): IDatabaseModel<ITwoFactorAuthModel> {
+  return new MongoDBModelImpl<ITwoFactorAuthModel>(TwoFactorAuthDB);
+}
@@ -1,5 +1,5 @@
 import mongoose, { Document } from 'mongoose';
-import { UserRole, UserStatus } from '../../../../shared/constants';
+import { AdminRole, UserRole, UserStatus } from '../../../../shared/constants';
 import { UserSchema } from '../schemas/user.schema';
 import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
 import { MongoDBModelImpl } from '../mongodb_model.impl';
@@ -16,10 +16,12 @@ export interface IUserModel extends Document {
   phoneNumber?: string;
   googleId?: string;
   role: UserRole;
+  adminRole?: AdminRole;
   status: UserStatus;
   profilePicture: string;
   isVerified: boolean;
   isDeleted: boolean;
+  quoteFollowUpEmails?: boolean;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -21,6 +21,12 @@ export interface IVehicleModel extends Document {
   imageUrls?: string[];
   status: VehicleStatus;
   amenityIds?: string[];
+  odometerReading?: number;
+  serviceIntervalKm?: number;
+  serviceIntervalDays?: number;
+  lastServiceOdometer?: number;
+  lastServicedAt?: Date;
+  averageFuelConsumption?: number;
   createdAt: Date;
   updatedAt: Date;
 }
@@ -0,0 +1,37 @@
+import mongoose, { Document } from 'mongoose';
+import { VehicleHoldSchema } from '../schemas/vehicle_hold.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { VehicleHoldStatus } from '../../../../domain/entities/vehicle_hold.entity';
+
+/**
+ * MongoDB document type for VehicleHold
+ * Represents the structure of a document in the vehicle_holds collection
+ */
+export interface IVehicleHoldModel extends Document {
+  holdId: string;
+  vehicleId: string;
+  quoteId: string;
+  reservationId?: string;
+  startAt: Date;
+  endAt: Date;
+  status: VehicleHoldStatus;
+  heldAt: Date;
+  expiresAt?: Date;
+  confirmedAt?: Date;
+  releasedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for VehicleHold
+ */
+export const VehicleHoldDB = mongoose.model<IVehicleHoldModel>('VehicleHold', VehicleHoldSchema);
+
+/**
+ * Creates an IDatabaseModel instance for VehicleHold
+ */
+export function createVehicleHoldModel(): IDatabaseModel<IVehicleHoldModel> {
+  return new MongoDBModelImpl<IVehicleHoldModel>(VehicleHoldDB);
+}
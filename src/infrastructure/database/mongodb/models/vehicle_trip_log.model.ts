@@ -0,0 +1,40 @@
+import mongoose, { Document } from 'mongoose';
+import { VehicleTripLogSchema } from '../schemas/vehicle_trip_log.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+
+/**
+ * MongoDB document type for VehicleTripLog
+ * Represents the structure of a document in the vehicle_trip_logs collection
+ */
+export interface IVehicleTripLogModel extends Document {
+  logId: string;
+  reservationId: string;
+  vehicleId: string;
+  driverId: string;
+  startOdometer: number;
+  endOdometer?: number;
+  estimatedDistanceKm: number;
+  estimatedKmPerLitre: number;
+  fuelFills: Array<{
+    litres: number;
+    cost?: number;
+    filledAt: Date;
+  }>;
+  startedAt: Date;
+  completedAt?: Date;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for VehicleTripLog
+ */
+export const VehicleTripLogDB = mongoose.model<IVehicleTripLogModel>('VehicleTripLog', VehicleTripLogSchema);
+
+/**
+ * Creates an IDatabaseModel instance for VehicleTripLog
+ */
+export function createVehicleTripLogModel(): IDatabaseModel<IVehicleTripLogModel> {
+  return new MongoDBModelImpl<IVehicleTripLogModel>(VehicleTripLogDB);
+}
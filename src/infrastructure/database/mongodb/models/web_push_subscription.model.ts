@@ -0,0 +1,33 @@
+import mongoose, { Document } from 'mongoose';
+import { WebPushSubscriptionSchema } from '../schemas/web_push_subscription.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+
+/**
+ * MongoDB document type for WebPushSubscription
+ */
+export interface IWebPushSubscriptionModel extends Document {
+  subscriptionId: string;
+  userId: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  userAgent?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for WebPushSubscription
+ */
+export const WebPushSubscriptionDB = mongoose.model<IWebPushSubscriptionModel>(
+  'WebPushSubscription',
+  WebPushSubscriptionSchema
+);
+
+/**
+ * Creates an IDatabaseModel instance for WebPushSubscription
+ */
+export function createWebPushSubscriptionModel(): IDatabaseModel<IWebPushSubscriptionModel> {
+  return new MongoDBModelImpl<IWebPushSubscriptionModel>(WebPushSubscriptionDB);
+}
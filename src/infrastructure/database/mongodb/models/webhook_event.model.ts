@@ -0,0 +1,36 @@
+import mongoose, { Document } from 'mongoose';
+import { WebhookEventSchema } from '../schemas/webhook_event.schema';
+import { IDatabaseModel } from '../../../../domain/services/mongodb_model.interface';
+import { MongoDBModelImpl } from '../mongodb_model.impl';
+import { WebhookEventStatus } from '../../../../domain/entities/webhook_event.entity';
+
+/**
+ * MongoDB document type for WebhookEvent
+ * Represents the structure of a document in the webhook_events collection
+ */
+export interface IWebhookEventModel extends Document {
+  eventId: string;
+  provider: string;
+  type: string;
+  payload: string;
+  status: WebhookEventStatus;
+  attempts: number;
+  receivedAt: Date;
+  lastAttemptAt?: Date;
+  processedAt?: Date;
+  lastError?: string;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+/**
+ * Mongoose model instance for WebhookEvent
+ */
+export const WebhookEventDB = mongoose.model<IWebhookEventModel>('WebhookEvent', WebhookEventSchema);
+
+/**
+ * Creates an IDatabaseModel instance for WebhookEvent
+ */
+export function createWebhookEventModel(): IDatabaseModel<IWebhookEventModel> {
+  return new MongoDBModelImpl<IWebhookEventModel>(WebhookEventDB);
+}
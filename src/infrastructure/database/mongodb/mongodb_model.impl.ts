@@ -59,6 +59,18 @@ export class MongoDBModelImpl<T> implements IDatabaseModel<T> {
     return { matchedCount: result.matchedCount };
   }
 
+  async findOneAndUpdate(filter: Record<string, unknown>, update: Record<string, unknown>, options?: { upsert?: boolean; session?: ClientSession }): Promise<T | null> {
+    let query = this.model.findOneAndUpdate(filter as FilterQuery<T>, update, {
+      new: true,
+      upsert: options?.upsert ?? false,
+    });
+    if (options?.session) {
+      query = query.session(options.session);
+    }
+    const doc = await query.lean<T>().exec();
+    return (doc as T | null) || null;
+  }
+
   async updateMany(filter: Record<string, unknown>, update: Record<string, unknown>, options?: { session?: ClientSession }): Promise<{ matchedCount: number }> {
     let query = this.model.updateMany(filter as FilterQuery<T>, update);
     if (options?.session) {
@@ -0,0 +1,69 @@
+import { Schema } from 'mongoose';
+import { AuditAction, AuditTargetType } from '../../../../shared/constants';
+
+/**
+ * MongoDB schema for AuditLog collection
+ * Entries are never updated, so only createdAt is kept
+ */
+export const AuditLogSchema: Schema = new Schema(
+  {
+    auditLogId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    actorId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    actorEmail: {
+      type: String,
+    },
+    actorRole: {
+      type: String,
+    },
+    action: {
+      type: String,
+      enum: Object.values(AuditAction),
+      required: true,
+      index: true,
+    },
+    targetType: {
+      type: String,
+      enum: Object.values(AuditTargetType),
+      required: true,
+    },
+    targetId: {
+      type: String,
+      required: true,
+    },
+    changes: [
+      {
+        _id: false,
+        field: { type: String, required: true },
+        before: { type: Schema.Types.Mixed },
+        after: { type: Schema.Types.Mixed },
+      },
+    ],
+    ipAddress: {
+      type: String,
+    },
+    userAgent: {
+      type: String,
+    },
+    metadata: {
+      type: Schema.Types.Mixed,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'audit_logs',
+  }
+);
+
+// Add indexes
+AuditLogSchema.index({ createdAt: -1 });
+AuditLogSchema.index({ targetType: 1, targetId: 1, createdAt: -1 });
+AuditLogSchema.index({ actorId: 1, createdAt: -1 });
@@ -0,0 +1,70 @@
+import { Schema } from 'mongoose';
+
+const CANCELLATION_REFUND_MODES = ['tiered', 'full', 'none'];
+
+/**
+ * MongoDB schema for CancellationPolicy collection
+ */
+export const CancellationPolicySchema: Schema = new Schema(
+  {
+    cancellationPolicyId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    version: {
+      type: Number,
+      required: true,
+      index: true,
+    },
+    tiers: {
+      type: [
+        {
+          _id: false,
+          minHoursBeforeDeparture: { type: Number, required: true, min: 0 },
+          refundPercentage: { type: Number, required: true, min: 0, max: 100 },
+        },
+      ],
+      required: true,
+    },
+    nonRefundableDepositPercentage: {
+      type: Number,
+      required: true,
+      min: 0,
+      max: 100,
+      default: 0,
+    },
+    amenityRefundMode: {
+      type: String,
+      enum: CANCELLATION_REFUND_MODES,
+      required: true,
+      default: 'tiered',
+    },
+    chargeRefundMode: {
+      type: String,
+      enum: CANCELLATION_REFUND_MODES,
+      required: true,
+      default: 'tiered',
+    },
+    isActive: {
+      type: Boolean,
+      default: false,
+      required: true,
+      index: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'cancellation_policies',
+  }
+);
+
+// Add indexes
+CancellationPolicySchema.index({ version: -1 });
+CancellationPolicySchema.index({ isActive: 1, version: -1 });
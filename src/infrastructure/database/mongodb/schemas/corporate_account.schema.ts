@@ -0,0 +1,90 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for CorporateAccount collection
+ */
+export const CorporateAccountSchema: Schema = new Schema(
+  {
+    corporateAccountId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    name: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    billingContact: {
+      type: new Schema(
+        {
+          name: { type: String, required: true, trim: true },
+          email: { type: String, required: true, lowercase: true, trim: true },
+          phoneNumber: { type: String, trim: true },
+        },
+        { _id: false }
+      ),
+      required: true,
+    },
+    billingAddress: {
+      type: String,
+      trim: true,
+    },
+    taxId: {
+      type: String,
+      trim: true,
+    },
+    creditLimit: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    paymentTermsDays: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    approvalThreshold: {
+      type: Number,
+      min: 0,
+    },
+    members: [
+      {
+        _id: false,
+        userId: { type: String, required: true },
+        role: { type: String, enum: ['admin', 'booker'], required: true },
+        addedAt: { type: Date, required: true },
+      },
+    ],
+    status: {
+      type: String,
+      enum: ['active', 'suspended'],
+      required: true,
+      default: 'active',
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+    // Incremented with a conditional update by each booking on account, so concurrent bookings can't share credit
+    creditVersion: {
+      type: Number,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'corporate_accounts',
+  }
+);
+
+// Add indexes
+CorporateAccountSchema.index({ 'members.userId': 1 });
+CorporateAccountSchema.index({ status: 1 });
@@ -0,0 +1,75 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for CorporateBooking collection
+ */
+export const CorporateBookingSchema: Schema = new Schema(
+  {
+    corporateBookingId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    corporateAccountId: {
+      type: String,
+      required: true,
+    },
+    quoteId: {
+      type: String,
+      required: true,
+    },
+    requestedBy: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['pending_approval', 'rejected', 'booked', 'void'],
+      required: true,
+    },
+    reservationId: {
+      type: String,
+    },
+    paymentId: {
+      type: String,
+    },
+    bookedAt: {
+      type: Date,
+    },
+    invoiceId: {
+      type: String,
+    },
+    reviewedBy: {
+      type: String,
+    },
+    reviewedAt: {
+      type: Date,
+    },
+    rejectionReason: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'corporate_bookings',
+  }
+);
+
+// Add indexes
+CorporateBookingSchema.index({ corporateAccountId: 1, status: 1, createdAt: -1 });
+CorporateBookingSchema.index({ corporateAccountId: 1, status: 1, invoiceId: 1, bookedAt: 1 }); // For monthly invoicing
+CorporateBookingSchema.index({ quoteId: 1 });
+CorporateBookingSchema.index({ reservationId: 1 });
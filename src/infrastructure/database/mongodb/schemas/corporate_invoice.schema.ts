@@ -0,0 +1,84 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for CorporateInvoice collection
+ */
+export const CorporateInvoiceSchema: Schema = new Schema(
+  {
+    invoiceId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    invoiceNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    corporateAccountId: {
+      type: String,
+      required: true,
+    },
+    periodStart: {
+      type: Date,
+      required: true,
+    },
+    periodEnd: {
+      type: Date,
+      required: true,
+    },
+    lineItems: [
+      {
+        _id: false,
+        corporateBookingId: { type: String, required: true },
+        reservationId: { type: String, required: true },
+        reservationNumber: { type: String, required: true },
+        description: { type: String, required: true },
+        bookedBy: { type: String, required: true },
+        bookedAt: { type: Date, required: true },
+        amount: { type: Number, required: true, min: 0 },
+      },
+    ],
+    totalAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['issued', 'paid', 'overdue'],
+      required: true,
+    },
+    issuedAt: {
+      type: Date,
+      required: true,
+    },
+    dueAt: {
+      type: Date,
+      required: true,
+    },
+    paidAt: {
+      type: Date,
+    },
+    paymentReference: {
+      type: String,
+      trim: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'corporate_invoices',
+  }
+);
+
+// Add indexes
+CorporateInvoiceSchema.index({ corporateAccountId: 1, periodEnd: 1 }, { unique: true }); // One invoice per account and period
+CorporateInvoiceSchema.index({ corporateAccountId: 1, issuedAt: -1 });
+CorporateInvoiceSchema.index({ status: 1, dueAt: 1 });
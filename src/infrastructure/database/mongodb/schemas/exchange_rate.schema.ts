@@ -0,0 +1,43 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for ExchangeRate collection
+ */
+export const ExchangeRateSchema: Schema = new Schema(
+  {
+    exchangeRateId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    baseCurrency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    rate: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    updatedBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'exchange_rates',
+  }
+);
+
+// Add indexes
+ExchangeRateSchema.index({ baseCurrency: 1, currency: 1 }, { unique: true });
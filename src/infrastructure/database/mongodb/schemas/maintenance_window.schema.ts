@@ -0,0 +1,63 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for MaintenanceWindow collection
+ */
+export const MaintenanceWindowSchema: Schema = new Schema(
+  {
+    windowId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    vehicleId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    startAt: {
+      type: Date,
+      required: true,
+    },
+    endAt: {
+      type: Date,
+      required: true,
+    },
+    reason: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+    },
+    status: {
+      type: String,
+      enum: ['scheduled', 'in_progress', 'completed', 'cancelled'],
+      required: true,
+      default: 'scheduled',
+    },
+    startedAt: {
+      type: Date,
+    },
+    completedAt: {
+      type: Date,
+    },
+    cancelledAt: {
+      type: Date,
+    },
+    serviceRecordId: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'maintenance_windows',
+  }
+);
+
+// Add indexes
+MaintenanceWindowSchema.index({ vehicleId: 1, startAt: -1 });
+MaintenanceWindowSchema.index({ status: 1, startAt: 1, endAt: 1 });
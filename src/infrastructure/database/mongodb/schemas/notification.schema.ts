@@ -1,5 +1,42 @@
 import { Schema } from 'mongoose';
-import { NotificationType } from '../../../../shared/constants';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationSkipReason,
+  NotificationType,
+} from '../../../../shared/constants';
+
+/**
+ * Per-channel delivery outcome embedded in a notification
+ */
+const NotificationDeliverySchema = new Schema(
+  {
+    channel: {
+      type: String,
+      enum: Object.values(NotificationChannel),
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: Object.values(NotificationDeliveryStatus),
+      required: true,
+    },
+    reason: {
+      type: String,
+      enum: Object.values(NotificationSkipReason),
+      required: false,
+    },
+    error: {
+      type: String,
+      required: false,
+    },
+    attemptedAt: {
+      type: Date,
+      required: true,
+    },
+  },
+  { _id: false }
+);
 
 /**
  * MongoDB schema for Notification collection
@@ -45,6 +82,25 @@ export const NotificationSchema: Schema = new Schema(
       required: true,
       index: true,
     },
+    deliveries: {
+      type: [NotificationDeliverySchema],
+      default: [],
+    },
+    // Notifications sharing a group key (e.g. one chat) roll into a single unread notification
+    groupKey: {
+      type: String,
+      required: false,
+    },
+    count: {
+      type: Number,
+      default: 1,
+      min: 1,
+    },
+    // Bumped on every roll-up; notifications are listed by it rather than by createdAt
+    lastNotifiedAt: {
+      type: Date,
+      required: false,
+    },
   },
   {
     timestamps: true,
@@ -56,6 +112,8 @@ export const NotificationSchema: Schema = new Schema(
 NotificationSchema.index({ notificationId: 1 });
 NotificationSchema.index({ userId: 1, isRead: 1 });
 NotificationSchema.index({ userId: 1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, lastNotifiedAt: -1, createdAt: -1 });
+NotificationSchema.index({ userId: 1, groupKey: 1, isRead: 1 });
 NotificationSchema.index({ type: 1 });
 NotificationSchema.index({ createdAt: -1 });
 
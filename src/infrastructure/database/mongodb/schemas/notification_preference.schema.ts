@@ -0,0 +1,68 @@
+import { Schema } from 'mongoose';
+import { NotificationType } from '../../../../shared/constants';
+
+/**
+ * Channel settings for one notification type
+ */
+const NotificationTypePreferenceSchema = new Schema(
+  {
+    type: {
+      type: String,
+      enum: Object.values(NotificationType),
+      required: true,
+    },
+    inApp: {
+      type: Boolean,
+      required: true,
+    },
+    email: {
+      type: Boolean,
+      required: true,
+    },
+    push: {
+      type: Boolean,
+      required: true,
+    },
+  },
+  { _id: false }
+);
+
+/**
+ * MongoDB schema for NotificationPreference collection
+ * One document per user; users without a document get the default channels
+ */
+export const NotificationPreferenceSchema: Schema = new Schema(
+  {
+    userId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    channels: {
+      type: [NotificationTypePreferenceSchema],
+      default: [],
+    },
+    quietHours: {
+      type: new Schema(
+        {
+          enabled: { type: Boolean, required: true },
+          start: { type: String, required: true },
+          end: { type: String, required: true },
+          timezone: { type: String, required: true },
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
+    dailyDigest: {
+      type: Boolean,
+      default: false,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'notification_preferences',
+  }
+);
@@ -63,6 +63,21 @@ export const PaymentSchema: Schema = new Schema(
       type: Schema.Types.Mixed,
       required: false,
     },
+    dispute: {
+      type: new Schema(
+        {
+          disputeId: { type: String, required: true },
+          amount: { type: Number, required: true, min: 0 },
+          currency: { type: String, required: true, uppercase: true },
+          reason: { type: String, required: true },
+          status: { type: String, required: true },
+          openedAt: { type: Date, required: true },
+          closedAt: { type: Date },
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
   },
   {
     timestamps: true,
@@ -37,6 +37,16 @@ export const PricingConfigSchema: Schema = new Schema(
       required: true,
       min: 0,
     },
+    currency: {
+      type: String,
+      default: 'INR',
+      uppercase: true,
+      trim: true,
+    },
+    useActualFuelConsumption: {
+      type: Boolean,
+      default: false,
+    },
     isActive: {
       type: Boolean,
       default: false,
@@ -0,0 +1,80 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for PromoCode collection
+ */
+export const PromoCodeSchema: Schema = new Schema(
+  {
+    promoCodeId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      unique: true,
+      uppercase: true,
+      trim: true,
+    },
+    description: {
+      type: String,
+      trim: true,
+    },
+    discountType: {
+      type: String,
+      enum: ['percentage', 'fixed'],
+      required: true,
+    },
+    discountValue: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    validFrom: {
+      type: Date,
+      required: true,
+    },
+    validUntil: {
+      type: Date,
+      required: true,
+    },
+    maxUses: {
+      type: Number,
+      min: 1,
+    },
+    usedCount: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    perUserLimit: {
+      type: Number,
+      min: 1,
+    },
+    minTripValue: {
+      type: Number,
+      min: 0,
+    },
+    eventTypes: {
+      type: [String],
+      default: [],
+    },
+    isActive: {
+      type: Boolean,
+      default: true,
+    },
+    createdBy: {
+      type: String,
+      required: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'promo_codes',
+  }
+);
+
+// Add indexes
+PromoCodeSchema.index({ isActive: 1, validUntil: 1 });
@@ -0,0 +1,55 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for PromoCodeRedemption collection
+ */
+export const PromoCodeRedemptionSchema: Schema = new Schema(
+  {
+    redemptionId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    promoCodeId: {
+      type: String,
+      required: true,
+    },
+    code: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    quoteId: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    reservationId: {
+      type: String,
+    },
+    discountAmount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+  },
+  {
+    timestamps: { createdAt: true, updatedAt: false },
+    collection: 'promo_code_redemptions',
+  }
+);
+
+// Add indexes
+PromoCodeRedemptionSchema.index({ promoCodeId: 1, userId: 1 });
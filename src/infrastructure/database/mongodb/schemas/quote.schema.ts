@@ -1,6 +1,41 @@
 import { Schema } from 'mongoose';
 import { QuoteStatus, TripType } from '../../../../shared/constants';
 
+/**
+ * Embedded pricing breakdown fields, shared by the quote pricing and its negotiated versions
+ */
+const PricingBreakdownFields = {
+  fuelPriceAtTime: { type: Number, required: false },
+  averageDriverRateAtTime: { type: Number, required: false },
+  taxPercentageAtTime: { type: Number, required: false },
+  baseFare: { type: Number, required: false },
+  distanceFare: { type: Number, required: false },
+  driverCharge: { type: Number, required: false },
+  fuelMaintenance: { type: Number, required: false },
+  nightCharge: { type: Number, required: false },
+  amenitiesTotal: { type: Number, required: false },
+  subtotal: { type: Number, required: false },
+  discount: { type: Number, required: false },
+  promoCode: { type: String, required: false },
+  lineItems: {
+    type: [
+      {
+        _id: false,
+        description: { type: String, required: true },
+        amount: { type: Number, required: true },
+        reason: { type: String, required: false },
+      },
+    ],
+    required: false,
+    default: undefined,
+  },
+  tax: { type: Number, required: false },
+  total: { type: Number, required: false },
+  currency: { type: String, required: false },
+  baseCurrency: { type: String, required: false },
+  exchangeRateAtTime: { type: Number, required: false },
+};
+
 /**
  * MongoDB schema for Quote collection
  */
@@ -78,20 +113,7 @@ export const QuoteSchema: Schema = new Schema(
       required: false,
       default: [],
     },
-    pricing: {
-      fuelPriceAtTime: { type: Number, required: false },
-      averageDriverRateAtTime: { type: Number, required: false },
-      taxPercentageAtTime: { type: Number, required: false },
-      baseFare: { type: Number, required: false },
-      distanceFare: { type: Number, required: false },
-      driverCharge: { type: Number, required: false },
-      fuelMaintenance: { type: Number, required: false },
-      nightCharge: { type: Number, required: false },
-      amenitiesTotal: { type: Number, required: false },
-      subtotal: { type: Number, required: false },
-      tax: { type: Number, required: false },
-      total: { type: Number, required: false },
-    },
+    pricing: PricingBreakdownFields,
     routeData: {
       outbound: {
         totalDistance: { type: Number, required: false },
@@ -129,6 +151,66 @@ export const QuoteSchema: Schema = new Schema(
       required: true,
       index: true,
     },
+    currency: {
+      type: String,
+      required: false,
+      uppercase: true,
+      trim: true,
+    },
+    promoCode: {
+      type: String,
+      required: false,
+      uppercase: true,
+      trim: true,
+    },
+    pricingVersions: {
+      type: [
+        {
+          _id: false,
+          version: { type: Number, required: true },
+          pricing: PricingBreakdownFields,
+          overrides: {
+            type: [
+              {
+                _id: false,
+                component: { type: String, required: true },
+                originalAmount: { type: Number, required: true },
+                amount: { type: Number, required: true },
+                reason: { type: String, required: true },
+              },
+            ],
+            default: [],
+          },
+          lineItems: {
+            type: [
+              {
+                _id: false,
+                description: { type: String, required: true },
+                amount: { type: Number, required: true },
+                reason: { type: String, required: false },
+              },
+            ],
+            default: [],
+          },
+          status: {
+            type: String,
+            enum: ['proposed', 'accepted', 'rejected', 'superseded'],
+            required: true,
+          },
+          proposedBy: { type: String, required: true },
+          proposedAt: { type: Date, required: true },
+          note: { type: String, required: false },
+          respondedAt: { type: Date, required: false },
+          responseReason: { type: String, required: false },
+        },
+      ],
+      required: false,
+      default: undefined,
+    },
+    requotedFromQuoteId: {
+      type: String,
+      required: false,
+    },
   },
   {
     timestamps: true,
@@ -149,4 +231,13 @@ QuoteSchema.index({ status: 1, isDeleted: 1, 'selectedVehicles.vehicleId': 1 });
 QuoteSchema.index({ status: 1, isDeleted: 1, assignedDriverId: 1 });
 QuoteSchema.index({ status: 1, createdAt: 1 }); // For DRAFT reservation queries
 QuoteSchema.index({ status: 1, quotedAt: 1 }); // For 24-hour payment window queries
+// One live requote per expired quote; also used for finding the requote of an expired quote
+QuoteSchema.index(
+  { requotedFromQuoteId: 1 },
+  {
+    name: 'requotedFromQuoteId_unique',
+    unique: true,
+    partialFilterExpression: { requotedFromQuoteId: { $type: 'string' }, isDeleted: false },
+  }
+);
 
@@ -0,0 +1,25 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for ReferenceSequence collection
+ * One counter per numbering series, e.g. RIN-2026
+ */
+export const ReferenceSequenceSchema: Schema = new Schema(
+  {
+    key: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    value: {
+      type: Number,
+      required: true,
+      default: 0,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'reference_sequences',
+  }
+);
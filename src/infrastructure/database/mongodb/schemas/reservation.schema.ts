@@ -164,6 +164,36 @@ export const ReservationSchema: Schema = new Schema(
         required: false,
       },
     },
+    cancellationPolicyId: {
+      type: String,
+      required: false,
+    },
+    cancellationPolicyVersion: {
+      type: Number,
+      required: false,
+    },
+    paymentSchedule: {
+      type: new Schema(
+        {
+          totalAmount: { type: Number, required: true, min: 0 },
+          currency: { type: String, required: true, uppercase: true },
+          depositPercentage: { type: Number, required: true, min: 0, max: 100 },
+          installments: [
+            {
+              _id: false,
+              kind: { type: String, enum: ['deposit', 'balance'], required: true },
+              amount: { type: Number, required: true, min: 0 },
+              dueAt: { type: Date, required: true },
+              status: { type: String, enum: ['pending', 'paid', 'overdue'], required: true },
+              paymentId: { type: String },
+              paidAt: { type: Date },
+            },
+          ],
+        },
+        { _id: false }
+      ),
+      required: false,
+    },
   },
   {
     timestamps: true,
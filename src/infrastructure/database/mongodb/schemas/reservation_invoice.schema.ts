@@ -0,0 +1,88 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for ReservationInvoice collection
+ */
+export const ReservationInvoiceSchema: Schema = new Schema(
+  {
+    invoiceId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    invoiceNumber: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    documentType: {
+      type: String,
+      enum: ['invoice', 'receipt', 'credit_note'],
+      required: true,
+    },
+    reservationId: {
+      type: String,
+      required: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+    },
+    paymentId: {
+      type: String,
+      required: true,
+    },
+    sourceKey: {
+      type: String,
+      required: true,
+      unique: true,
+    },
+    description: {
+      type: String,
+      required: true,
+    },
+    amount: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    currency: {
+      type: String,
+      required: true,
+      uppercase: true,
+      trim: true,
+    },
+    paymentMethod: {
+      type: String,
+      required: true,
+    },
+    issuedAt: {
+      type: Date,
+      required: true,
+    },
+    chargeId: {
+      type: String,
+      required: false,
+    },
+    refundId: {
+      type: String,
+      required: false,
+    },
+    relatedInvoiceId: {
+      type: String,
+      required: false,
+    },
+    reason: {
+      type: String,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'reservation_invoices',
+  }
+);
+
+// Add indexes
+ReservationInvoiceSchema.index({ reservationId: 1, issuedAt: 1 }); // For invoice history of a reservation
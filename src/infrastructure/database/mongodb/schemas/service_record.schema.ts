@@ -0,0 +1,59 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for ServiceRecord collection
+ */
+export const ServiceRecordSchema: Schema = new Schema(
+  {
+    recordId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    vehicleId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    serviceType: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    servicedAt: {
+      type: Date,
+      required: true,
+    },
+    odometerReading: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    cost: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    vendor: {
+      type: String,
+      required: true,
+      trim: true,
+    },
+    notes: {
+      type: String,
+      trim: true,
+    },
+    windowId: {
+      type: String,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'service_records',
+  }
+);
+
+// Add indexes
+ServiceRecordSchema.index({ vehicleId: 1, servicedAt: -1 });
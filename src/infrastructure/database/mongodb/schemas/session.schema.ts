@@ -0,0 +1,66 @@
+import { Schema } from 'mongoose';
+import { SessionRevokeReason } from '../../../../shared/constants';
+
+/**
+ * MongoDB schema for Session collection
+ * Sessions are removed once their refresh token could no longer be used anyway
+ */
+export const SessionSchema: Schema = new Schema(
+  {
+    sessionId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    role: {
+      type: String,
+      required: true,
+    },
+    refreshTokenId: {
+      type: String,
+      required: true,
+    },
+    deviceName: {
+      type: String,
+      required: true,
+    },
+    ipAddress: {
+      type: String,
+      required: false,
+    },
+    userAgent: {
+      type: String,
+      required: false,
+    },
+    lastSeenAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+      required: true,
+    },
+    revokedAt: {
+      type: Date,
+      required: false,
+    },
+    revokedReason: {
+      type: String,
+      enum: Object.values(SessionRevokeReason),
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'sessions',
+  }
+);
+
+SessionSchema.index({ userId: 1, revokedAt: 1, expiresAt: 1 });
+SessionSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
@@ -0,0 +1,40 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for TwoFactorAuth collection
+ * One document per user who started enrolling; recovery codes are stored as SHA-256 hashes
+ */
+export const TwoFactorAuthSchema: Schema = new Schema(
+  {
+    userId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    secret: {
+      type: String,
+      required: true,
+    },
+    enabled: {
+      type: Boolean,
+      default: false,
+    },
+    recoveryCodeHashes: {
+      type: [String],
+      default: [],
+    },
+    enabledAt: {
+      type: Date,
+      required: false,
+    },
+    lastUsedStep: {
+      type: Number,
+      required: false,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'two_factor_auths',
+  }
+);
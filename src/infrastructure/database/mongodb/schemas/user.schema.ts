@@ -1,5 +1,5 @@
 import { Schema } from 'mongoose';
-import { UserRole, UserStatus } from '../../../../shared/constants';
+import { AdminRole, UserRole, UserStatus } from '../../../../shared/constants';
 
 /**
  * MongoDB schema for User collection
@@ -52,6 +52,11 @@ export const UserSchema: Schema = new Schema(
       default: UserRole.USER,
       required: true,
     },
+    adminRole: {
+      type: String,
+      enum: Object.values(AdminRole),
+      required: false,
+    },
     status: {
       type: String,
       enum: Object.values(UserStatus),
@@ -72,6 +77,10 @@ export const UserSchema: Schema = new Schema(
       default: false,
       required: true,
     },
+    quoteFollowUpEmails: {
+      type: Boolean,
+      default: true,
+    },
   },
   {
     timestamps: true,
@@ -74,6 +74,36 @@ export const VehicleSchema: Schema = new Schema(
       default: [],
       index: true,
     },
+    odometerReading: {
+      type: Number,
+      required: true,
+      default: 0,
+      min: 0,
+    },
+    serviceIntervalKm: {
+      type: Number,
+      required: false,
+      min: 1,
+    },
+    serviceIntervalDays: {
+      type: Number,
+      required: false,
+      min: 1,
+    },
+    lastServiceOdometer: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
+    lastServicedAt: {
+      type: Date,
+      required: false,
+    },
+    averageFuelConsumption: {
+      type: Number,
+      required: false,
+      min: 0,
+    },
   },
   {
     timestamps: true,
@@ -0,0 +1,65 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for VehicleHold collection
+ */
+export const VehicleHoldSchema: Schema = new Schema(
+  {
+    holdId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    vehicleId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    quoteId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    reservationId: {
+      type: String,
+      index: true,
+    },
+    startAt: {
+      type: Date,
+      required: true,
+    },
+    endAt: {
+      type: Date,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['held', 'confirmed', 'released'],
+      required: true,
+      default: 'held',
+    },
+    heldAt: {
+      type: Date,
+      required: true,
+    },
+    expiresAt: {
+      type: Date,
+    },
+    confirmedAt: {
+      type: Date,
+    },
+    releasedAt: {
+      type: Date,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'vehicle_holds',
+  }
+);
+
+// Add indexes
+VehicleHoldSchema.index({ vehicleId: 1, status: 1, startAt: 1, endAt: 1 });
+VehicleHoldSchema.index({ quoteId: 1, status: 1 });
+VehicleHoldSchema.index({ reservationId: 1, status: 1 });
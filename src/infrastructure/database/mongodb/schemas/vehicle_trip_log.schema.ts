@@ -0,0 +1,75 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for VehicleTripLog collection
+ */
+export const VehicleTripLogSchema: Schema = new Schema(
+  {
+    logId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    reservationId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    vehicleId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    driverId: {
+      type: String,
+      required: true,
+    },
+    startOdometer: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    endOdometer: {
+      type: Number,
+      min: 0,
+    },
+    estimatedDistanceKm: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    estimatedKmPerLitre: {
+      type: Number,
+      required: true,
+      min: 0,
+    },
+    fuelFills: {
+      type: [
+        {
+          litres: { type: Number, required: true, min: 0 },
+          cost: { type: Number, min: 0 },
+          filledAt: { type: Date, required: true },
+        },
+      ],
+      default: [],
+      _id: false,
+    },
+    startedAt: {
+      type: Date,
+      required: true,
+    },
+    completedAt: {
+      type: Date,
+      index: true,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'vehicle_trip_logs',
+  }
+);
+
+// Add indexes
+VehicleTripLogSchema.index({ reservationId: 1, vehicleId: 1 }, { unique: true });
+VehicleTripLogSchema.index({ vehicleId: 1, completedAt: -1 });
@@ -0,0 +1,49 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for WebPushSubscription collection
+ */
+export const WebPushSubscriptionSchema: Schema = new Schema(
+  {
+    subscriptionId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    userId: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    endpoint: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    p256dh: {
+      type: String,
+      required: true,
+    },
+    auth: {
+      type: String,
+      required: true,
+    },
+    userAgent: {
+      type: String,
+      required: false,
+    },
+    createdAt: {
+      type: Date,
+      default: Date.now,
+    },
+    updatedAt: {
+      type: Date,
+      default: Date.now,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
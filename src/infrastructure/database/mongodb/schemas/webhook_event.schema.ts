@@ -0,0 +1,61 @@
+import { Schema } from 'mongoose';
+
+/**
+ * MongoDB schema for WebhookEvent collection
+ */
+export const WebhookEventSchema: Schema = new Schema(
+  {
+    eventId: {
+      type: String,
+      required: true,
+      unique: true,
+      index: true,
+    },
+    provider: {
+      type: String,
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      index: true,
+    },
+    payload: {
+      type: String,
+      required: true,
+    },
+    status: {
+      type: String,
+      enum: ['received', 'processing', 'processed', 'failed'],
+      default: 'received',
+      required: true,
+      index: true,
+    },
+    attempts: {
+      type: Number,
+      default: 0,
+      min: 0,
+    },
+    receivedAt: {
+      type: Date,
+      required: true,
+    },
+    lastAttemptAt: {
+      type: Date,
+    },
+    processedAt: {
+      type: Date,
+    },
+    lastError: {
+      type: String,
+    },
+  },
+  {
+    timestamps: true,
+    collection: 'webhook_events',
+  }
+);
+
+// Add indexes
+WebhookEventSchema.index({ receivedAt: -1 });
+WebhookEventSchema.index({ status: 1, receivedAt: -1 });
@@ -218,4 +218,33 @@ export class RedisConnection implements IRedisConnection {
     }
     return await this.redis.srem(key, ...members);
   }
-}
\ No newline at end of file
+
+  /**
+   * Increments a counter, creating it at 1 when missing
+   */
+  public async incr(key: string): Promise<number> {
+    return await this.redis.incr(key);
+  }
+
+  /**
+   * Sets the time to live of a key in seconds
+   */
+  public async expire(key: string, seconds: number): Promise<void> {
+    await this.redis.expire(key, seconds);
+  }
+
+  /**
+   * Gets the remaining time to live of a key in seconds (negative when missing or without expiry)
+   */
+  public async ttl(key: string): Promise<number> {
+    return await this.redis.ttl(key);
+  }
+
+  // Sorted set operations for sliding-window rate limits
+  /**
+   * Runs a Lua script on the server; Redis executes it without interleaving other commands
+   */
+  public async eval(script: string, keys: string[], args: (string | number)[]): Promise<unknown> {
+    return await this.redis.eval(script, keys.length, ...keys, ...args);
+  }
+}
@@ -3,6 +3,7 @@ import { CONTROLLER_TOKENS } from './tokens';
 import { AuthController } from '../../presentation/controllers/auth/auth.controller';
 import { OtpController } from '../../presentation/controllers/auth/otp.controller';
 import { TokenController } from '../../presentation/controllers/auth/token.controller';
+import { TwoFactorController } from '../../presentation/controllers/auth/two_factor.controller';
 import { UserController } from '../../presentation/controllers/user/user.controller';
 import { VehicleTypeController } from '../../presentation/controllers/vehicle_type/vehicle_type.controller';
 import { VehicleController } from '../../presentation/controllers/vehicle/vehicle.controller';
@@ -12,6 +13,13 @@ import { PaymentController } from '../../presentation/controllers/quote/payment.
 import { EventTypeController } from '../../presentation/controllers/event_type/event_type.controller';
 import { AdminQuoteController } from '../../presentation/controllers/admin/admin_quote.controller';
 import { AdminPricingConfigController } from '../../presentation/controllers/admin/admin_pricing_config.controller';
+import { AdminExchangeRateController } from '../../presentation/controllers/admin/admin_exchange_rate.controller';
+import { AdminPromoCodeController } from '../../presentation/controllers/admin/admin_promo_code.controller';
+import { AdminCorporateAccountController } from '../../presentation/controllers/admin/admin_corporate_account.controller';
+import { CorporateAccountController } from '../../presentation/controllers/corporate/corporate_account.controller';
+import { AdminWebhookEventController } from '../../presentation/controllers/admin/admin_webhook_event.controller';
+import { AdminAuditLogController } from '../../presentation/controllers/admin/admin_audit_log.controller';
+import { AdminCancellationPolicyController } from '../../presentation/controllers/admin/admin_cancellation_policy.controller';
 import { AdminUserController } from '../../presentation/controllers/admin/admin_user.controller';
 import { AdminDriverController } from '../../presentation/controllers/admin/admin_driver.controller';
 import { DriverController } from '../../presentation/controllers/driver/driver.controller';
@@ -22,6 +30,9 @@ import { NotificationController } from '../../presentation/controllers/notificat
 import { ReservationController } from '../../presentation/controllers/reservation/reservation.controller';
 import { AdminReservationController } from '../../presentation/controllers/admin/admin_reservation.controller';
 import { AdminTripController } from '../../presentation/controllers/admin/admin_trip.controller';
+import { AdminScheduleController } from '../../presentation/controllers/admin/admin_schedule.controller';
+import { AdminMaintenanceController } from '../../presentation/controllers/admin/admin_maintenance.controller';
+import { AdminFuelReportController } from '../../presentation/controllers/admin/admin_fuel_report.controller';
 import { ChargePaymentController } from '../../presentation/controllers/reservation/charge_payment.controller';
 import { TicketController } from '../../presentation/controllers/support/ticket.controller';
 import { TicketMessageController } from '../../presentation/controllers/support/ticket_message.controller';
@@ -35,6 +46,7 @@ export function registerControllers(): void {
   container.register(CONTROLLER_TOKENS.AuthController, AuthController);
   container.register(CONTROLLER_TOKENS.OtpController, OtpController);
   container.register(CONTROLLER_TOKENS.TokenController, TokenController);
+  container.register(CONTROLLER_TOKENS.TwoFactorController, TwoFactorController);
   // User controller
   container.register(CONTROLLER_TOKENS.UserController, UserController);
   // Vehicle controllers
@@ -48,6 +60,12 @@ export function registerControllers(): void {
   container.register(CONTROLLER_TOKENS.AmenityController, AmenityController);
   container.register(CONTROLLER_TOKENS.EventTypeController, EventTypeController);
   container.register(CONTROLLER_TOKENS.AdminPricingConfigController, AdminPricingConfigController);
+  container.register(CONTROLLER_TOKENS.AdminExchangeRateController, AdminExchangeRateController);
+  container.register(CONTROLLER_TOKENS.AdminPromoCodeController, AdminPromoCodeController);
+  container.register(CONTROLLER_TOKENS.AdminCorporateAccountController, AdminCorporateAccountController);
+  container.register(CONTROLLER_TOKENS.AdminWebhookEventController, AdminWebhookEventController);
+  container.register(CONTROLLER_TOKENS.AdminAuditLogController, AdminAuditLogController);
+  container.register(CONTROLLER_TOKENS.AdminCancellationPolicyController, AdminCancellationPolicyController);
   container.register(CONTROLLER_TOKENS.AdminUserController, AdminUserController);
   container.register(CONTROLLER_TOKENS.AdminDriverController, AdminDriverController);
   container.register(CONTROLLER_TOKENS.DriverController, DriverController);
@@ -60,9 +78,14 @@ export function registerControllers(): void {
   container.register(CONTROLLER_TOKENS.ReservationController, ReservationController);
   container.register(CONTROLLER_TOKENS.AdminReservationController, AdminReservationController);
   container.register(CONTROLLER_TOKENS.AdminTripController, AdminTripController);
+  container.register(CONTROLLER_TOKENS.AdminScheduleController, AdminScheduleController);
+  container.register(CONTROLLER_TOKENS.AdminMaintenanceController, AdminMaintenanceController);
+  container.register(CONTROLLER_TOKENS.AdminFuelReportController, AdminFuelReportController);
   container.register(CONTROLLER_TOKENS.ChargePaymentController, ChargePaymentController);
   // Support controllers
   container.register(CONTROLLER_TOKENS.TicketController, TicketController);
   container.register(CONTROLLER_TOKENS.TicketMessageController, TicketMessageController);
+  // Corporate account controllers
+  container.register(CONTROLLER_TOKENS.CorporateAccountController, CorporateAccountController);
 }
 
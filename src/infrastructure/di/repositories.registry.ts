@@ -10,6 +10,16 @@ import { IVehicleTypeRepository } from '../../domain/repositories/vehicle_type_r
 import { VehicleTypeRepositoryImpl } from '../repositories/vehicle_type.repository';
 import { IVehicleRepository } from '../../domain/repositories/vehicle_repository.interface';
 import { VehicleRepositoryImpl } from '../repositories/vehicle.repository';
+import { IVehicleHoldRepository } from '../../domain/repositories/vehicle_hold_repository.interface';
+import { VehicleHoldRepositoryImpl } from '../repositories/vehicle_hold.repository';
+import { IMaintenanceWindowRepository } from '../../domain/repositories/maintenance_window_repository.interface';
+import { MaintenanceWindowRepositoryImpl } from '../repositories/maintenance_window.repository';
+import { IServiceRecordRepository } from '../../domain/repositories/service_record_repository.interface';
+import { ServiceRecordRepositoryImpl } from '../repositories/service_record.repository';
+import { IVehicleTripLogRepository } from '../../domain/repositories/vehicle_trip_log_repository.interface';
+import { VehicleTripLogRepositoryImpl } from '../repositories/vehicle_trip_log.repository';
+import { IExchangeRateRepository } from '../../domain/repositories/exchange_rate_repository.interface';
+import { ExchangeRateRepositoryImpl } from '../repositories/exchange_rate.repository';
 import { IAmenityRepository } from '../../domain/repositories/amenity_repository.interface';
 import { AmenityRepositoryImpl } from '../repositories/amenity.repository';
 import { IQuoteRepository } from '../../domain/repositories/quote_repository.interface';
@@ -22,14 +32,36 @@ import { IPricingConfigRepository } from '../../domain/repositories/pricing_conf
 import { PricingConfigRepositoryImpl } from '../repositories/pricing_config.repository';
 import { IEventTypeRepository } from '../../domain/repositories/event_type_repository.interface';
 import { EventTypeRepositoryImpl } from '../repositories/event_type.repository';
+import { IPromoCodeRepository } from '../../domain/repositories/promo_code_repository.interface';
+import { PromoCodeRepositoryImpl } from '../repositories/promo_code.repository';
+import { IPromoCodeRedemptionRepository } from '../../domain/repositories/promo_code_redemption_repository.interface';
+import { PromoCodeRedemptionRepositoryImpl } from '../repositories/promo_code_redemption.repository';
 import { IChatRepository } from '../../domain/repositories/chat_repository.interface';
 import { ChatRepositoryImpl } from '../repositories/chat.repository';
 import { IMessageRepository } from '../../domain/repositories/message_repository.interface';
 import { MessageRepositoryImpl } from '../repositories/message.repository';
 import { INotificationRepository } from '../../domain/repositories/notification_repository.interface';
 import { NotificationRepositoryImpl } from '../repositories/notification.repository';
+import { INotificationPreferenceRepository } from '../../domain/repositories/notification_preference_repository.interface';
+import { NotificationPreferenceRepositoryImpl } from '../repositories/notification_preference.repository';
+import { ITwoFactorAuthRepository } from '../../domain/repositories/two_factor_auth_repository.interface';
+import { TwoFactorAuthRepositoryImpl } from '../repositories/two_factor_auth.repository';
+import { ISessionRepository } from '../../domain/repositories/session_repository.interface';
+import { SessionRepositoryImpl } from '../repositories/session.repository';
+import { IWebPushSubscriptionRepository } from '../../domain/repositories/web_push_subscription_repository.interface';
+import { WebPushSubscriptionRepositoryImpl } from '../repositories/web_push_subscription.repository';
 import { IPaymentRepository } from '../../domain/repositories/payment_repository.interface';
 import { PaymentRepositoryImpl } from '../repositories/payment.repository';
+import { IWebhookEventRepository } from '../../domain/repositories/webhook_event_repository.interface';
+import { WebhookEventRepositoryImpl } from '../repositories/webhook_event.repository';
+import { IAuditLogRepository } from '../../domain/repositories/audit_log_repository.interface';
+import { AuditLogRepositoryImpl } from '../repositories/audit_log.repository';
+import { ICorporateAccountRepository } from '../../domain/repositories/corporate_account_repository.interface';
+import { CorporateAccountRepositoryImpl } from '../repositories/corporate_account.repository';
+import { ICorporateBookingRepository } from '../../domain/repositories/corporate_booking_repository.interface';
+import { CorporateBookingRepositoryImpl } from '../repositories/corporate_booking.repository';
+import { ICorporateInvoiceRepository } from '../../domain/repositories/corporate_invoice_repository.interface';
+import { CorporateInvoiceRepositoryImpl } from '../repositories/corporate_invoice.repository';
 import { IReservationRepository } from '../../domain/repositories/reservation_repository.interface';
 import { ReservationRepositoryImpl } from '../repositories/reservation/reservation.repository';
 import { IReservationItineraryRepository } from '../../domain/repositories/reservation_itinerary_repository.interface';
@@ -38,6 +70,12 @@ import { IReservationModificationRepository } from '../../domain/repositories/re
 import { ReservationModificationRepositoryImpl } from '../repositories/reservation/reservation_modification.repository';
 import { IReservationChargeRepository } from '../../domain/repositories/reservation_charge_repository.interface';
 import { ReservationChargeRepositoryImpl } from '../repositories/reservation/reservation_charge.repository';
+import { IReservationInvoiceRepository } from '../../domain/repositories/reservation_invoice_repository.interface';
+import { ReservationInvoiceRepositoryImpl } from '../repositories/reservation/reservation_invoice.repository';
+import { IReferenceSequenceRepository } from '../../domain/repositories/reference_sequence_repository.interface';
+import { ReferenceSequenceRepositoryImpl } from '../repositories/reference_sequence.repository';
+import { ICancellationPolicyRepository } from '../../domain/repositories/cancellation_policy_repository.interface';
+import { CancellationPolicyRepositoryImpl } from '../repositories/cancellation_policy.repository';
 import { IDriverFcmTokenRepository } from '../../domain/repositories/driver_fcm_token_repository.interface';
 import { DriverFcmTokenRepositoryImpl } from '../repositories/driver_fcm_token.repository';
 import { ITicketRepository } from '../../domain/repositories/ticket_repository.interface';
@@ -78,6 +116,35 @@ export function registerRepositories(): void {
     { useClass: VehicleRepositoryImpl }
   );
 
+  // Vehicle hold repository
+  container.register<IVehicleHoldRepository>(
+    REPOSITORY_TOKENS.IVehicleHoldRepository,
+    { useClass: VehicleHoldRepositoryImpl }
+  );
+
+  // Vehicle maintenance repositories
+  container.register<IMaintenanceWindowRepository>(
+    REPOSITORY_TOKENS.IMaintenanceWindowRepository,
+    { useClass: MaintenanceWindowRepositoryImpl }
+  );
+
+  container.register<IServiceRecordRepository>(
+    REPOSITORY_TOKENS.IServiceRecordRepository,
+    { useClass: ServiceRecordRepositoryImpl }
+  );
+
+  // Vehicle trip log repository
+  container.register<IVehicleTripLogRepository>(
+    REPOSITORY_TOKENS.IVehicleTripLogRepository,
+    { useClass: VehicleTripLogRepositoryImpl }
+  );
+
+  // Exchange rate repository
+  container.register<IExchangeRateRepository>(
+    REPOSITORY_TOKENS.IExchangeRateRepository,
+    { useClass: ExchangeRateRepositoryImpl }
+  );
+
   // Amenity repository
   container.register<IAmenityRepository>(
     REPOSITORY_TOKENS.IAmenityRepository,
@@ -111,6 +178,17 @@ export function registerRepositories(): void {
     { useClass: EventTypeRepositoryImpl }
   );
 
+  // Promo code repositories
+  container.register<IPromoCodeRepository>(
+    REPOSITORY_TOKENS.IPromoCodeRepository,
+    { useClass: PromoCodeRepositoryImpl }
+  );
+
+  container.register<IPromoCodeRedemptionRepository>(
+    REPOSITORY_TOKENS.IPromoCodeRedemptionRepository,
+    { useClass: PromoCodeRedemptionRepositoryImpl }
+  );
+
   // Chat, Message & Notification repositories
   container.register<IChatRepository>(
     REPOSITORY_TOKENS.IChatRepository,
@@ -127,12 +205,48 @@ export function registerRepositories(): void {
     { useClass: NotificationRepositoryImpl }
   );
 
-  // Payment repository
+  container.register<INotificationPreferenceRepository>(
+    REPOSITORY_TOKENS.INotificationPreferenceRepository,
+    { useClass: NotificationPreferenceRepositoryImpl }
+  );
+
+  container.register<IWebPushSubscriptionRepository>(
+    REPOSITORY_TOKENS.IWebPushSubscriptionRepository,
+    { useClass: WebPushSubscriptionRepositoryImpl }
+  );
+
+  // Payment repositories
   container.register<IPaymentRepository>(
     REPOSITORY_TOKENS.IPaymentRepository,
     { useClass: PaymentRepositoryImpl }
   );
 
+  container.register<IWebhookEventRepository>(
+    REPOSITORY_TOKENS.IWebhookEventRepository,
+    { useClass: WebhookEventRepositoryImpl }
+  );
+
+  container.register<IAuditLogRepository>(
+    REPOSITORY_TOKENS.IAuditLogRepository,
+    { useClass: AuditLogRepositoryImpl }
+  );
+
+  // Corporate account repositories
+  container.register<ICorporateAccountRepository>(
+    REPOSITORY_TOKENS.ICorporateAccountRepository,
+    { useClass: CorporateAccountRepositoryImpl }
+  );
+
+  container.register<ICorporateBookingRepository>(
+    REPOSITORY_TOKENS.ICorporateBookingRepository,
+    { useClass: CorporateBookingRepositoryImpl }
+  );
+
+  container.register<ICorporateInvoiceRepository>(
+    REPOSITORY_TOKENS.ICorporateInvoiceRepository,
+    { useClass: CorporateInvoiceRepositoryImpl }
+  );
+
   // Reservation repository
   container.register<IReservationRepository>(
     REPOSITORY_TOKENS.IReservationRepository,
@@ -157,6 +271,22 @@ export function registerRepositories(): void {
     { useClass: ReservationChargeRepositoryImpl }
   );
 
+  // Reservation Invoice repositories
+  container.register<IReservationInvoiceRepository>(
+    REPOSITORY_TOKENS.IReservationInvoiceRepository,
+    { useClass: ReservationInvoiceRepositoryImpl }
+  );
+
+  container.register<IReferenceSequenceRepository>(
+    REPOSITORY_TOKENS.IReferenceSequenceRepository,
+    { useClass: ReferenceSequenceRepositoryImpl }
+  );
+
+  container.register<ICancellationPolicyRepository>(
+    REPOSITORY_TOKENS.ICancellationPolicyRepository,
+    { useClass: CancellationPolicyRepositoryImpl }
+  );
+
   // Driver FCM Token repository
   container.register<IDriverFcmTokenRepository>(
     REPOSITORY_TOKENS.IDriverFcmTokenRepository,
@@ -174,4 +304,16 @@ export function registerRepositories(): void {
     REPOSITORY_TOKENS.ITicketMessageRepository,
     { useClass: TicketMessageRepositoryImpl }
   );
+
+  // Two-factor authentication repository
+  container.register<ITwoFactorAuthRepository>(
+    REPOSITORY_TOKENS.ITwoFactorAuthRepository,
+    { useClass: TwoFactorAuthRepositoryImpl }
+  );
+
+  // Session repository
+  container.register<ISessionRepository>(
+    REPOSITORY_TOKENS.ISessionRepository,
+    { useClass: SessionRepositoryImpl }
+  );
 }
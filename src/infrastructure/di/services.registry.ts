@@ -4,6 +4,14 @@ import { IOTPService } from '../../domain/services/otp_service.interface';
 import { OTPServiceImpl } from '../service/otp.service';
 import { ITokenBlacklistService } from '../../domain/services/token_blacklist_service.interface';
 import { TokenBlacklistServiceImpl } from '../service/token_blacklist.service';
+import { IRateLimiterService } from '../../domain/services/rate_limiter_service.interface';
+import { RateLimiterServiceImpl } from '../service/rate_limiter.service';
+import { IAccountLockoutService } from '../../domain/services/account_lockout_service.interface';
+import { AccountLockoutServiceImpl } from '../service/account_lockout.service';
+import { ITwoFactorService } from '../../domain/services/two_factor_service.interface';
+import { TwoFactorServiceImpl } from '../service/two_factor.service';
+import { ISessionService } from '../../domain/services/session_service.interface';
+import { SessionServiceImpl } from '../service/session.service';
 import { IJWTService } from '../../domain/services/jwt_service.interface';
 import { JWTServiceImpl } from '../service/jwt.service';
 import { IEmailService } from '../../domain/services/email_service.interface';
@@ -16,8 +24,22 @@ import { IRouteCalculationService } from '../../domain/services/route_calculatio
 import { RouteCalculationServiceImpl } from '../service/route_calculation.service';
 import { IPricingCalculationService } from '../../domain/services/pricing_calculation_service.interface';
 import { PricingCalculationServiceImpl } from '../service/pricing_calculation.service';
+import { ICancellationRefundCalculatorService } from '../../domain/services/cancellation_refund_calculator_service.interface';
+import { CancellationRefundCalculatorServiceImpl } from '../service/cancellation_refund_calculator.service';
 import { IVehicleRecommendationService } from '../../domain/services/vehicle_recommendation_service.interface';
 import { VehicleRecommendationServiceImpl } from '../service/vehicle_recommendation.service';
+import { IVehicleAvailabilityService } from '../../domain/services/vehicle_availability_service.interface';
+import { VehicleAvailabilityServiceImpl } from '../service/vehicle_availability.service';
+import { IVehicleMaintenanceService } from '../../domain/services/vehicle_maintenance_service.interface';
+import { VehicleMaintenanceServiceImpl } from '../service/vehicle_maintenance.service';
+import { IExchangeRateService } from '../../domain/services/exchange_rate_service.interface';
+import { ExchangeRateServiceImpl } from '../service/exchange_rate.service';
+import { IPromoCodeService } from '../../domain/services/promo_code_service.interface';
+import { PromoCodeServiceImpl } from '../service/promo_code.service';
+import { ICorporateCreditService } from '../../domain/services/corporate_credit_service.interface';
+import { CorporateCreditServiceImpl } from '../service/corporate_credit.service';
+import { IReservationInvoiceService } from '../../domain/services/reservation_invoice_service.interface';
+import { ReservationInvoiceServiceImpl } from '../service/reservation_invoice.service';
 import { IPDFGenerationService } from '../../domain/services/pdf_generation_service.interface';
 import { PDFGenerationServiceImpl } from '../service/pdf_generation.service';
 import { MapboxService } from '../service/mapbox.service';
@@ -29,8 +51,18 @@ import { IQueueService } from '../../domain/services/queue_service.interface';
 import { QueueServiceImpl } from '../service/queue.service';
 import { IExpoPushNotificationService } from '../../domain/services/expo_push_notification_service.interface';
 import { ExpoPushNotificationService } from '../service/expo_push_notification.service';
+import { IWebPushService } from '../../domain/services/web_push_service.interface';
+import { WebPushServiceImpl } from '../service/web_push.service';
+import { IAuditLogService } from '../../domain/services/audit_log_service.interface';
+import { AuditLogServiceImpl } from '../service/audit_log.service';
 import { INotificationService } from '../../domain/services/notification_service.interface';
 import { NotificationService } from '../service/notification.service';
+import { INotificationDispatcherService } from '../../domain/services/notification_dispatcher_service.interface';
+import { NotificationDispatcherService } from '../service/notification_dispatcher.service';
+import { IPaymentGateway } from '../../domain/services/payment_gateway.interface';
+import { StripePaymentGateway } from '../service/stripe_payment_gateway.service';
+import { FakePaymentGateway } from '../service/fake_payment_gateway.service';
+import { PAYMENT_GATEWAY_CONFIG } from '../../shared/config';
 
 /**
  * Registers all service dependencies in the DI container
@@ -48,11 +80,31 @@ export function registerServices(): void {
     { useClass: TokenBlacklistServiceImpl }
   );
 
+  container.register<IRateLimiterService>(
+    SERVICE_TOKENS.IRateLimiterService,
+    { useClass: RateLimiterServiceImpl }
+  );
+
+  container.register<IAccountLockoutService>(
+    SERVICE_TOKENS.IAccountLockoutService,
+    { useClass: AccountLockoutServiceImpl }
+  );
+
+  container.register<ITwoFactorService>(
+    SERVICE_TOKENS.ITwoFactorService,
+    { useClass: TwoFactorServiceImpl }
+  );
+
   container.register<IJWTService>(
     SERVICE_TOKENS.IJWTService,
     { useClass: JWTServiceImpl }
   );
 
+  container.register<ISessionService>(
+    SERVICE_TOKENS.ISessionService,
+    { useClass: SessionServiceImpl }
+  );
+
   // Communication services
   container.register<IEmailService>(
     SERVICE_TOKENS.IEmailService,
@@ -84,11 +136,46 @@ export function registerServices(): void {
     { useClass: PricingCalculationServiceImpl }
   );
 
+  container.register<ICancellationRefundCalculatorService>(
+    SERVICE_TOKENS.ICancellationRefundCalculatorService,
+    { useClass: CancellationRefundCalculatorServiceImpl }
+  );
+
   container.register<IVehicleRecommendationService>(
     SERVICE_TOKENS.IVehicleRecommendationService,
     { useClass: VehicleRecommendationServiceImpl }
   );
 
+  container.register<IVehicleAvailabilityService>(
+    SERVICE_TOKENS.IVehicleAvailabilityService,
+    { useClass: VehicleAvailabilityServiceImpl }
+  );
+
+  container.register<IVehicleMaintenanceService>(
+    SERVICE_TOKENS.IVehicleMaintenanceService,
+    { useClass: VehicleMaintenanceServiceImpl }
+  );
+
+  container.register<IExchangeRateService>(
+    SERVICE_TOKENS.IExchangeRateService,
+    { useClass: ExchangeRateServiceImpl }
+  );
+
+  container.register<IPromoCodeService>(
+    SERVICE_TOKENS.IPromoCodeService,
+    { useClass: PromoCodeServiceImpl }
+  );
+
+  container.register<ICorporateCreditService>(
+    SERVICE_TOKENS.ICorporateCreditService,
+    { useClass: CorporateCreditServiceImpl }
+  );
+
+  container.register<IReservationInvoiceService>(
+    SERVICE_TOKENS.IReservationInvoiceService,
+    { useClass: ReservationInvoiceServiceImpl }
+  );
+
   container.register<IPDFGenerationService>(
     SERVICE_TOKENS.IPDFGenerationService,
     { useClass: PDFGenerationServiceImpl }
@@ -118,9 +205,37 @@ export function registerServices(): void {
     { useClass: ExpoPushNotificationService }
   );
 
+  container.register<IWebPushService>(
+    SERVICE_TOKENS.IWebPushService,
+    { useClass: WebPushServiceImpl }
+  );
+
+  container.register<IAuditLogService>(
+    SERVICE_TOKENS.IAuditLogService,
+    { useClass: AuditLogServiceImpl }
+  );
+
   // Notification service
   container.register<INotificationService>(
     SERVICE_TOKENS.INotificationService,
     { useClass: NotificationService }
   );
+
+  container.register<INotificationDispatcherService>(
+    SERVICE_TOKENS.INotificationDispatcherService,
+    { useClass: NotificationDispatcherService }
+  );
+
+  // Payment gateway - singleton so the fake gateway keeps its in-memory state across resolutions
+  if (PAYMENT_GATEWAY_CONFIG.PROVIDER === 'fake') {
+    container.registerInstance<IPaymentGateway>(
+      SERVICE_TOKENS.IPaymentGateway,
+      new FakePaymentGateway()
+    );
+  } else {
+    container.registerSingleton<IPaymentGateway>(
+      SERVICE_TOKENS.IPaymentGateway,
+      StripePaymentGateway
+    );
+  }
 }
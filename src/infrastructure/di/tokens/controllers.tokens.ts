@@ -7,6 +7,7 @@ export const CONTROLLER_TOKENS = {
   AuthController: Symbol.for('AuthController'),
   OtpController: Symbol.for('OtpController'),
   TokenController: Symbol.for('TokenController'),
+  TwoFactorController: Symbol.for('TwoFactorController'),
   // User controller
   UserController: Symbol.for('UserController'),
   // Vehicle controllers
@@ -20,11 +21,20 @@ export const CONTROLLER_TOKENS = {
   ReservationController: Symbol.for('ReservationController'),
   AdminReservationController: Symbol.for('AdminReservationController'),
   AdminTripController: Symbol.for('AdminTripController'),
+  AdminScheduleController: Symbol.for('AdminScheduleController'),
+  AdminMaintenanceController: Symbol.for('AdminMaintenanceController'),
+  AdminFuelReportController: Symbol.for('AdminFuelReportController'),
   ChargePaymentController: Symbol.for('ChargePaymentController'),
   // Other controllers
   AmenityController: Symbol.for('AmenityController'),
   EventTypeController: Symbol.for('EventTypeController'),
   AdminPricingConfigController: Symbol.for('AdminPricingConfigController'),
+  AdminExchangeRateController: Symbol.for('AdminExchangeRateController'),
+  AdminPromoCodeController: Symbol.for('AdminPromoCodeController'),
+  AdminCorporateAccountController: Symbol.for('AdminCorporateAccountController'),
+  AdminWebhookEventController: Symbol.for('AdminWebhookEventController'),
+  AdminAuditLogController: Symbol.for('AdminAuditLogController'),
+  AdminCancellationPolicyController: Symbol.for('AdminCancellationPolicyController'),
   AdminUserController: Symbol.for('AdminUserController'),
   AdminDriverController: Symbol.for('AdminDriverController'),
   DriverController: Symbol.for('DriverController'),
@@ -36,5 +46,7 @@ export const CONTROLLER_TOKENS = {
   // Support controllers
   TicketController: Symbol.for('TicketController'),
   TicketMessageController: Symbol.for('TicketMessageController'),
+  // Corporate account controllers
+  CorporateAccountController: Symbol.for('CorporateAccountController'),
 } as const;
 
@@ -14,11 +14,23 @@ import { GenerateUploadUrlUseCase } from '../../application/use-cases/implementa
 import { GoogleAuthUseCase } from '../../application/use-cases/implementation/auth/google_auth.use-case';
 import { SetupPasswordUseCase } from '../../application/use-cases/implementation/auth/setup_password.use-case';
 import { LinkGoogleAccountUseCase } from '../../application/use-cases/implementation/auth/link_google_account.use-case';
+import { StartTwoFactorChallengeUseCase } from '../../application/use-cases/implementation/auth/start_two_factor_challenge.use-case';
+import { VerifyTwoFactorLoginUseCase } from '../../application/use-cases/implementation/auth/verify_two_factor_login.use-case';
+import { GetTwoFactorStatusUseCase } from '../../application/use-cases/implementation/auth/get_two_factor_status.use-case';
+import { SetupTwoFactorUseCase } from '../../application/use-cases/implementation/auth/setup_two_factor.use-case';
+import { EnableTwoFactorUseCase } from '../../application/use-cases/implementation/auth/enable_two_factor.use-case';
+import { DisableTwoFactorUseCase } from '../../application/use-cases/implementation/auth/disable_two_factor.use-case';
+import { RegenerateRecoveryCodesUseCase } from '../../application/use-cases/implementation/auth/regenerate_recovery_codes.use-case';
 import { ChangePasswordUseCase } from '../../application/use-cases/implementation/user/change_password.use-case';
 import { GetUserByIdUseCase } from '../../application/use-cases/implementation/user/get_user_by_id.use-case';
 import { ListUsersUseCase } from '../../application/use-cases/implementation/user/list_users.use-case';
 import { ChangeUserStatusUseCase } from '../../application/use-cases/implementation/user/change_user_status.use-case';
 import { ChangeUserRoleUseCase } from '../../application/use-cases/implementation/user/change_user_role.use-case';
+import { UnlockUserUseCase } from '../../application/use-cases/implementation/user/unlock_user.use-case';
+import { ListUserSessionsUseCase } from '../../application/use-cases/implementation/user/list_user_sessions.use-case';
+import { RevokeUserSessionUseCase } from '../../application/use-cases/implementation/user/revoke_user_session.use-case';
+import { RevokeAllUserSessionsUseCase } from '../../application/use-cases/implementation/user/revoke_all_user_sessions.use-case';
+import { ForceLogoutUserUseCase } from '../../application/use-cases/implementation/user/force_logout_user.use-case';
 import { GetUserStatisticsUseCase } from '../../application/use-cases/implementation/user/get_user_statistics.use-case';
 import { DeleteUserAccountUseCase } from '../../application/use-cases/implementation/user/delete_user_account.use-case';
 import { CreateDriverUseCase } from '../../application/use-cases/implementation/driver/create_driver.use-case';
@@ -27,6 +39,7 @@ import { GetDriverByIdUseCase } from '../../application/use-cases/implementation
 import { UpdateDriverUseCase } from '../../application/use-cases/implementation/driver/update_driver.use-case';
 import { UpdateDriverStatusUseCase } from '../../application/use-cases/implementation/driver/update_driver_status.use-case';
 import { DeleteDriverUseCase } from '../../application/use-cases/implementation/driver/delete_driver.use-case';
+import { UnlockDriverUseCase } from '../../application/use-cases/implementation/driver/unlock_driver.use-case';
 import { LoginDriverUseCase } from '../../application/use-cases/implementation/driver/login_driver.use-case';
 import { ChangeDriverPasswordUseCase } from '../../application/use-cases/implementation/driver/change_driver_password.use-case';
 import { ForgotDriverPasswordUseCase } from '../../application/use-cases/implementation/driver/forgot_driver_password.use-case';
@@ -78,15 +91,34 @@ import { CreateCustomEventTypeUseCase } from '../../application/use-cases/implem
 import { GetVehicleRecommendationsUseCase } from '../../application/use-cases/implementation/quote/get_vehicle_recommendations.use-case';
 import { CalculateQuotePricingUseCase } from '../../application/use-cases/implementation/quote/calculate_quote_pricing.use-case';
 import { SubmitQuoteUseCase } from '../../application/use-cases/implementation/quote/submit_quote.use-case';
+import { ApplyPromoCodeUseCase } from '../../application/use-cases/implementation/quote/apply_promo_code.use-case';
+import { RemovePromoCodeUseCase } from '../../application/use-cases/implementation/quote/remove_promo_code.use-case';
+import { AcceptCounterOfferUseCase } from '../../application/use-cases/implementation/quote/accept_counter_offer.use-case';
+import { RejectCounterOfferUseCase } from '../../application/use-cases/implementation/quote/reject_counter_offer.use-case';
+import { SendQuoteReminderUseCase } from '../../application/use-cases/implementation/quote/send_quote_reminder.use-case';
+import { SendQuoteExpiredEmailUseCase } from '../../application/use-cases/implementation/quote/send_quote_expired_email.use-case';
+import { SendDraftQuoteReminderUseCase } from '../../application/use-cases/implementation/quote/send_draft_quote_reminder.use-case';
+import { RequoteQuoteUseCase } from '../../application/use-cases/implementation/quote/requote_quote.use-case';
 import { GetAdminQuotesListUseCase } from '../../application/use-cases/implementation/quote/admin/get_admin_quotes_list.use-case';
 import { GetAdminQuoteUseCase } from '../../application/use-cases/implementation/quote/admin/get_admin_quote.use-case';
 import { UpdateQuoteStatusUseCase } from '../../application/use-cases/implementation/quote/admin/update_quote_status.use-case';
 import { AssignDriverToQuoteUseCase } from '../../application/use-cases/implementation/quote/admin/assign_driver_to_quote.use-case';
 import { RecalculateQuoteUseCase } from '../../application/use-cases/implementation/quote/admin/recalculate_quote.use-case';
+import { ProposeCounterOfferUseCase } from '../../application/use-cases/implementation/quote/admin/propose_counter_offer.use-case';
 import { GetPricingConfigUseCase } from '../../application/use-cases/implementation/pricing_config/get_pricing_config.use-case';
 import { CreatePricingConfigUseCase } from '../../application/use-cases/implementation/pricing_config/create_pricing_config.use-case';
 import { GetPricingConfigHistoryUseCase } from '../../application/use-cases/implementation/pricing_config/get_pricing_config_history.use-case';
 import { ActivatePricingConfigUseCase } from '../../application/use-cases/implementation/pricing_config/activate_pricing_config.use-case';
+import { GetExchangeRatesUseCase } from '../../application/use-cases/implementation/exchange_rate/get_exchange_rates.use-case';
+import { UpsertExchangeRateUseCase } from '../../application/use-cases/implementation/exchange_rate/upsert_exchange_rate.use-case';
+import { DeleteExchangeRateUseCase } from '../../application/use-cases/implementation/exchange_rate/delete_exchange_rate.use-case';
+import { GetPromoCodesUseCase } from '../../application/use-cases/implementation/promo_code/get_promo_codes.use-case';
+import { CreatePromoCodeUseCase } from '../../application/use-cases/implementation/promo_code/create_promo_code.use-case';
+import { UpdatePromoCodeUseCase } from '../../application/use-cases/implementation/promo_code/update_promo_code.use-case';
+import { GetCancellationPolicyUseCase } from '../../application/use-cases/implementation/cancellation_policy/get_cancellation_policy.use-case';
+import { CreateCancellationPolicyUseCase } from '../../application/use-cases/implementation/cancellation_policy/create_cancellation_policy.use-case';
+import { GetCancellationPolicyHistoryUseCase } from '../../application/use-cases/implementation/cancellation_policy/get_cancellation_policy_history.use-case';
+import { ActivateCancellationPolicyUseCase } from '../../application/use-cases/implementation/cancellation_policy/activate_cancellation_policy.use-case';
 import { CreateChatUseCase } from '../../application/use-cases/implementation/chat/create_chat.use-case';
 import { GetUserChatsUseCase } from '../../application/use-cases/implementation/chat/get_user_chats.use-case';
 import { GetChatByContextUseCase } from '../../application/use-cases/implementation/chat/get_chat_by_context.use-case';
@@ -101,11 +133,32 @@ import { MarkNotificationAsReadUseCase } from '../../application/use-cases/imple
 import { MarkAllNotificationsAsReadUseCase } from '../../application/use-cases/implementation/notification/mark_all_notifications_as_read.use-case';
 import { GetUnreadNotificationCountUseCase } from '../../application/use-cases/implementation/notification/get_unread_notification_count.use-case';
 import { MarkChatNotificationsAsReadUseCase } from '../../application/use-cases/implementation/notification/mark_chat_notifications_as_read.use-case';
+import { GetNotificationPreferencesUseCase } from '../../application/use-cases/implementation/notification/get_notification_preferences.use-case';
+import { UpdateNotificationPreferencesUseCase } from '../../application/use-cases/implementation/notification/update_notification_preferences.use-case';
+import { GetWebPushPublicKeyUseCase } from '../../application/use-cases/implementation/notification/get_web_push_public_key.use-case';
+import { RegisterPushSubscriptionUseCase } from '../../application/use-cases/implementation/notification/register_push_subscription.use-case';
+import { UnregisterPushSubscriptionUseCase } from '../../application/use-cases/implementation/notification/unregister_push_subscription.use-case';
+import { SendNotificationDigestsUseCase } from '../../application/use-cases/implementation/notification/send_notification_digests.use-case';
 import { CreatePaymentIntentUseCase } from '../../application/use-cases/implementation/quote/create_payment_intent.use-case';
 import { HandlePaymentWebhookUseCase } from '../../application/use-cases/implementation/quote/handle_payment_webhook.use-case';
+import { RecordWebhookEventUseCase } from '../../application/use-cases/implementation/webhook/record_webhook_event.use-case';
+import { ProcessWebhookEventUseCase } from '../../application/use-cases/implementation/webhook/process_webhook_event.use-case';
+import { HandleChargeWebhookUseCase } from '../../application/use-cases/implementation/webhook/handle_charge_webhook.use-case';
+import { GetWebhookEventsUseCase } from '../../application/use-cases/implementation/webhook/get_webhook_events.use-case';
+import { GetWebhookEventUseCase } from '../../application/use-cases/implementation/webhook/get_webhook_event.use-case';
+import { ReplayWebhookEventUseCase } from '../../application/use-cases/implementation/webhook/replay_webhook_event.use-case';
+import { GetAuditLogsUseCase } from '../../application/use-cases/implementation/admin/audit_log/get_audit_logs.use-case';
+import { ExportAuditLogsCSVUseCase } from '../../application/use-cases/implementation/admin/audit_log/export_audit_logs_csv.use-case';
 import { CreateReservationUseCase } from '../../application/use-cases/implementation/reservation/create_reservation.use-case';
 import { GetReservationUseCase } from '../../application/use-cases/implementation/reservation/get_reservation.use-case';
 import { GetReservationsListUseCase } from '../../application/use-cases/implementation/reservation/get_reservations_list.use-case';
+import { GetUserCancellationPreviewUseCase } from '../../application/use-cases/implementation/reservation/get_user_cancellation_preview.use-case';
+import { CancelUserReservationUseCase } from '../../application/use-cases/implementation/reservation/cancel_user_reservation.use-case';
+import { CreateBalancePaymentIntentUseCase } from '../../application/use-cases/implementation/reservation/create_balance_payment_intent.use-case';
+import { SendBalanceReminderUseCase } from '../../application/use-cases/implementation/reservation/send_balance_reminder.use-case';
+import { EnforceBalanceDueUseCase } from '../../application/use-cases/implementation/reservation/enforce_balance_due.use-case';
+import { GetReservationInvoicesUseCase } from '../../application/use-cases/implementation/reservation/get_reservation_invoices.use-case';
+import { GetReservationInvoicePdfUseCase } from '../../application/use-cases/implementation/reservation/get_reservation_invoice_pdf.use-case';
 import { GetAdminReservationsListUseCase } from '../../application/use-cases/implementation/admin/reservation/get_admin_reservations_list.use-case';
 import { GetAdminReservationUseCase } from '../../application/use-cases/implementation/admin/reservation/get_admin_reservation.use-case';
 import { UpdateReservationStatusUseCase } from '../../application/use-cases/implementation/admin/reservation/update_reservation_status.use-case';
@@ -115,11 +168,20 @@ import { AdjustReservationVehiclesUseCase } from '../../application/use-cases/im
 import { UpdateReservationItineraryUseCase } from '../../application/use-cases/implementation/admin/reservation/update_reservation_itinerary.use-case';
 import { ProcessReservationRefundUseCase } from '../../application/use-cases/implementation/admin/reservation/process_reservation_refund.use-case';
 import { CancelReservationUseCase } from '../../application/use-cases/implementation/admin/reservation/cancel_reservation.use-case';
+import { PreviewReservationCancellationUseCase } from '../../application/use-cases/implementation/admin/reservation/preview_reservation_cancellation.use-case';
 import { AddReservationChargeUseCase } from '../../application/use-cases/implementation/admin/reservation/add_reservation_charge.use-case';
 import { MarkChargeAsPaidUseCase } from '../../application/use-cases/implementation/admin/reservation/mark_charge_as_paid.use-case';
 import { ExportReservationPDFUseCase } from '../../application/use-cases/implementation/admin/reservation/export_reservation_pdf.use-case';
 import { ExportReservationCSVUseCase } from '../../application/use-cases/implementation/admin/reservation/export_reservation_csv.use-case';
 import { GetAdminTripsListUseCase } from '../../application/use-cases/implementation/admin/trip/get_admin_trips_list.use-case';
+import { GetFleetScheduleUseCase } from '../../application/use-cases/implementation/admin/schedule/get_fleet_schedule.use-case';
+import { GetVehicleMaintenanceUseCase } from '../../application/use-cases/implementation/admin/maintenance/get_vehicle_maintenance.use-case';
+import { UpdateVehicleMaintenancePlanUseCase } from '../../application/use-cases/implementation/admin/maintenance/update_vehicle_maintenance_plan.use-case';
+import { ScheduleMaintenanceWindowUseCase } from '../../application/use-cases/implementation/admin/maintenance/schedule_maintenance_window.use-case';
+import { CancelMaintenanceWindowUseCase } from '../../application/use-cases/implementation/admin/maintenance/cancel_maintenance_window.use-case';
+import { RecordVehicleServiceUseCase } from '../../application/use-cases/implementation/admin/maintenance/record_vehicle_service.use-case';
+import { GetTripFuelReportUseCase } from '../../application/use-cases/implementation/admin/fuel/get_trip_fuel_report.use-case';
+import { GetVehicleFuelHistoryUseCase } from '../../application/use-cases/implementation/admin/fuel/get_vehicle_fuel_history.use-case';
 import { GetActiveTripLocationsUseCase } from '../../application/use-cases/implementation/admin/trip/get_active_trip_locations.use-case';
 import { CreateChargePaymentIntentUseCase } from '../../application/use-cases/implementation/reservation/create_charge_payment_intent.use-case';
 import { GetDashboardStatsUseCase } from '../../application/use-cases/implementation/dashboard/get_dashboard_stats.use-case';
@@ -136,6 +198,22 @@ import { AssignTicketToAdminUseCase } from '../../application/use-cases/implemen
 import { CalculateDriverEarningsUseCase } from '../../application/use-cases/implementation/driver/calculate_driver_earnings.use-case';
 import { GetDriverEarningsUseCase } from '../../application/use-cases/implementation/driver/get_driver_earnings.use-case';
 import { RecordDriverPayoutUseCase } from '../../application/use-cases/implementation/driver/record_driver_payout.use-case';
+import { CreateCorporateAccountUseCase } from '../../application/use-cases/implementation/corporate/create_corporate_account.use-case';
+import { UpdateCorporateAccountUseCase } from '../../application/use-cases/implementation/corporate/update_corporate_account.use-case';
+import { GetCorporateAccountsUseCase } from '../../application/use-cases/implementation/corporate/get_corporate_accounts.use-case';
+import { GetCorporateAccountUseCase } from '../../application/use-cases/implementation/corporate/get_corporate_account.use-case';
+import { AddCorporateMemberUseCase } from '../../application/use-cases/implementation/corporate/add_corporate_member.use-case';
+import { RemoveCorporateMemberUseCase } from '../../application/use-cases/implementation/corporate/remove_corporate_member.use-case';
+import { GetMyCorporateAccountUseCase } from '../../application/use-cases/implementation/corporate/get_my_corporate_account.use-case';
+import { BookQuoteOnAccountUseCase } from '../../application/use-cases/implementation/corporate/book_quote_on_account.use-case';
+import { CompleteCorporateBookingUseCase } from '../../application/use-cases/implementation/corporate/complete_corporate_booking.use-case';
+import { GetCorporateBookingsUseCase } from '../../application/use-cases/implementation/corporate/get_corporate_bookings.use-case';
+import { ReviewCorporateBookingUseCase } from '../../application/use-cases/implementation/corporate/review_corporate_booking.use-case';
+import { GenerateCorporateInvoicesUseCase } from '../../application/use-cases/implementation/corporate/generate_corporate_invoices.use-case';
+import { FlagOverdueCorporateInvoicesUseCase } from '../../application/use-cases/implementation/corporate/flag_overdue_corporate_invoices.use-case';
+import { MarkCorporateInvoicePaidUseCase } from '../../application/use-cases/implementation/corporate/mark_corporate_invoice_paid.use-case';
+import { GetCorporateStatementUseCase } from '../../application/use-cases/implementation/corporate/get_corporate_statement.use-case';
+import { GetCorporateInvoicePdfUseCase } from '../../application/use-cases/implementation/corporate/get_corporate_invoice_pdf.use-case';
 
 /**
  * Registers all use case dependencies in the DI container
@@ -154,6 +232,13 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.GoogleAuthUseCase, GoogleAuthUseCase);
   container.register(USE_CASE_TOKENS.SetupPasswordUseCase, SetupPasswordUseCase);
   container.register(USE_CASE_TOKENS.LinkGoogleAccountUseCase, LinkGoogleAccountUseCase);
+  container.register(USE_CASE_TOKENS.StartTwoFactorChallengeUseCase, StartTwoFactorChallengeUseCase);
+  container.register(USE_CASE_TOKENS.VerifyTwoFactorLoginUseCase, VerifyTwoFactorLoginUseCase);
+  container.register(USE_CASE_TOKENS.GetTwoFactorStatusUseCase, GetTwoFactorStatusUseCase);
+  container.register(USE_CASE_TOKENS.SetupTwoFactorUseCase, SetupTwoFactorUseCase);
+  container.register(USE_CASE_TOKENS.EnableTwoFactorUseCase, EnableTwoFactorUseCase);
+  container.register(USE_CASE_TOKENS.DisableTwoFactorUseCase, DisableTwoFactorUseCase);
+  container.register(USE_CASE_TOKENS.RegenerateRecoveryCodesUseCase, RegenerateRecoveryCodesUseCase);
   // User use cases
   container.register(USE_CASE_TOKENS.GetUserProfileUseCase, GetUserProfileUseCase);
   container.register(USE_CASE_TOKENS.UpdateUserProfileUseCase, UpdateUserProfileUseCase);
@@ -163,6 +248,11 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.ListUsersUseCase, ListUsersUseCase);
   container.register(USE_CASE_TOKENS.ChangeUserStatusUseCase, ChangeUserStatusUseCase);
   container.register(USE_CASE_TOKENS.ChangeUserRoleUseCase, ChangeUserRoleUseCase);
+  container.register(USE_CASE_TOKENS.UnlockUserUseCase, UnlockUserUseCase);
+  container.register(USE_CASE_TOKENS.ListUserSessionsUseCase, ListUserSessionsUseCase);
+  container.register(USE_CASE_TOKENS.RevokeUserSessionUseCase, RevokeUserSessionUseCase);
+  container.register(USE_CASE_TOKENS.RevokeAllUserSessionsUseCase, RevokeAllUserSessionsUseCase);
+  container.register(USE_CASE_TOKENS.ForceLogoutUserUseCase, ForceLogoutUserUseCase);
   container.register(USE_CASE_TOKENS.GetUserStatisticsUseCase, GetUserStatisticsUseCase);
   container.register(USE_CASE_TOKENS.DeleteUserAccountUseCase, DeleteUserAccountUseCase);
   // Driver use cases
@@ -172,6 +262,7 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.UpdateDriverUseCase, UpdateDriverUseCase);
   container.register(USE_CASE_TOKENS.UpdateDriverStatusUseCase, UpdateDriverStatusUseCase);
   container.register(USE_CASE_TOKENS.DeleteDriverUseCase, DeleteDriverUseCase);
+  container.register(USE_CASE_TOKENS.UnlockDriverUseCase, UnlockDriverUseCase);
   container.register(USE_CASE_TOKENS.LoginDriverUseCase, LoginDriverUseCase);
   container.register(USE_CASE_TOKENS.ChangeDriverPasswordUseCase, ChangeDriverPasswordUseCase);
   container.register(USE_CASE_TOKENS.ForgotDriverPasswordUseCase, ForgotDriverPasswordUseCase);
@@ -225,6 +316,14 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.GetVehicleRecommendationsUseCase, GetVehicleRecommendationsUseCase);
   container.register(USE_CASE_TOKENS.CalculateQuotePricingUseCase, CalculateQuotePricingUseCase);
   container.register(USE_CASE_TOKENS.SubmitQuoteUseCase, SubmitQuoteUseCase);
+  container.register(USE_CASE_TOKENS.ApplyPromoCodeUseCase, ApplyPromoCodeUseCase);
+  container.register(USE_CASE_TOKENS.RemovePromoCodeUseCase, RemovePromoCodeUseCase);
+  container.register(USE_CASE_TOKENS.AcceptCounterOfferUseCase, AcceptCounterOfferUseCase);
+  container.register(USE_CASE_TOKENS.RejectCounterOfferUseCase, RejectCounterOfferUseCase);
+  container.register(USE_CASE_TOKENS.SendQuoteReminderUseCase, SendQuoteReminderUseCase);
+  container.register(USE_CASE_TOKENS.SendQuoteExpiredEmailUseCase, SendQuoteExpiredEmailUseCase);
+  container.register(USE_CASE_TOKENS.SendDraftQuoteReminderUseCase, SendDraftQuoteReminderUseCase);
+  container.register(USE_CASE_TOKENS.RequoteQuoteUseCase, RequoteQuoteUseCase);
   // Event Type use cases
   container.register(USE_CASE_TOKENS.GetEventTypesUseCase, GetEventTypesUseCase);
   container.register(USE_CASE_TOKENS.CreateCustomEventTypeUseCase, CreateCustomEventTypeUseCase);
@@ -234,11 +333,25 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.UpdateQuoteStatusUseCase, UpdateQuoteStatusUseCase);
   container.register(USE_CASE_TOKENS.AssignDriverToQuoteUseCase, AssignDriverToQuoteUseCase);
   container.register(USE_CASE_TOKENS.RecalculateQuoteUseCase, RecalculateQuoteUseCase);
+  container.register(USE_CASE_TOKENS.ProposeCounterOfferUseCase, ProposeCounterOfferUseCase);
   // Pricing Config use cases
   container.register(USE_CASE_TOKENS.GetPricingConfigUseCase, GetPricingConfigUseCase);
   container.register(USE_CASE_TOKENS.CreatePricingConfigUseCase, CreatePricingConfigUseCase);
   container.register(USE_CASE_TOKENS.GetPricingConfigHistoryUseCase, GetPricingConfigHistoryUseCase);
   container.register(USE_CASE_TOKENS.ActivatePricingConfigUseCase, ActivatePricingConfigUseCase);
+  // Exchange Rate use cases
+  container.register(USE_CASE_TOKENS.GetExchangeRatesUseCase, GetExchangeRatesUseCase);
+  container.register(USE_CASE_TOKENS.UpsertExchangeRateUseCase, UpsertExchangeRateUseCase);
+  container.register(USE_CASE_TOKENS.DeleteExchangeRateUseCase, DeleteExchangeRateUseCase);
+  // Promo Code use cases
+  container.register(USE_CASE_TOKENS.GetPromoCodesUseCase, GetPromoCodesUseCase);
+  container.register(USE_CASE_TOKENS.CreatePromoCodeUseCase, CreatePromoCodeUseCase);
+  container.register(USE_CASE_TOKENS.UpdatePromoCodeUseCase, UpdatePromoCodeUseCase);
+  // Cancellation Policy use cases
+  container.register(USE_CASE_TOKENS.GetCancellationPolicyUseCase, GetCancellationPolicyUseCase);
+  container.register(USE_CASE_TOKENS.CreateCancellationPolicyUseCase, CreateCancellationPolicyUseCase);
+  container.register(USE_CASE_TOKENS.GetCancellationPolicyHistoryUseCase, GetCancellationPolicyHistoryUseCase);
+  container.register(USE_CASE_TOKENS.ActivateCancellationPolicyUseCase, ActivateCancellationPolicyUseCase);
   // Chat use cases
   container.register(USE_CASE_TOKENS.CreateChatUseCase, CreateChatUseCase);
   container.register(USE_CASE_TOKENS.GetUserChatsUseCase, GetUserChatsUseCase);
@@ -256,13 +369,36 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.MarkAllNotificationsAsReadUseCase, MarkAllNotificationsAsReadUseCase);
   container.register(USE_CASE_TOKENS.GetUnreadNotificationCountUseCase, GetUnreadNotificationCountUseCase);
   container.register(USE_CASE_TOKENS.MarkChatNotificationsAsReadUseCase, MarkChatNotificationsAsReadUseCase);
+  container.register(USE_CASE_TOKENS.GetNotificationPreferencesUseCase, GetNotificationPreferencesUseCase);
+  container.register(USE_CASE_TOKENS.UpdateNotificationPreferencesUseCase, UpdateNotificationPreferencesUseCase);
+  container.register(USE_CASE_TOKENS.GetWebPushPublicKeyUseCase, GetWebPushPublicKeyUseCase);
+  container.register(USE_CASE_TOKENS.RegisterPushSubscriptionUseCase, RegisterPushSubscriptionUseCase);
+  container.register(USE_CASE_TOKENS.UnregisterPushSubscriptionUseCase, UnregisterPushSubscriptionUseCase);
+  container.register(USE_CASE_TOKENS.SendNotificationDigestsUseCase, SendNotificationDigestsUseCase);
   // Payment use cases
   container.register(USE_CASE_TOKENS.CreatePaymentIntentUseCase, CreatePaymentIntentUseCase);
   container.register(USE_CASE_TOKENS.HandlePaymentWebhookUseCase, HandlePaymentWebhookUseCase);
+  // Webhook event use cases
+  container.register(USE_CASE_TOKENS.RecordWebhookEventUseCase, RecordWebhookEventUseCase);
+  container.register(USE_CASE_TOKENS.ProcessWebhookEventUseCase, ProcessWebhookEventUseCase);
+  container.register(USE_CASE_TOKENS.HandleChargeWebhookUseCase, HandleChargeWebhookUseCase);
+  container.register(USE_CASE_TOKENS.GetWebhookEventsUseCase, GetWebhookEventsUseCase);
+  container.register(USE_CASE_TOKENS.GetWebhookEventUseCase, GetWebhookEventUseCase);
+  container.register(USE_CASE_TOKENS.ReplayWebhookEventUseCase, ReplayWebhookEventUseCase);
+  // Audit log use cases
+  container.register(USE_CASE_TOKENS.GetAuditLogsUseCase, GetAuditLogsUseCase);
+  container.register(USE_CASE_TOKENS.ExportAuditLogsCSVUseCase, ExportAuditLogsCSVUseCase);
   // Reservation use cases
   container.register(USE_CASE_TOKENS.CreateReservationUseCase, CreateReservationUseCase);
   container.register(USE_CASE_TOKENS.GetReservationUseCase, GetReservationUseCase);
   container.register(USE_CASE_TOKENS.GetReservationsListUseCase, GetReservationsListUseCase);
+  container.register(USE_CASE_TOKENS.GetUserCancellationPreviewUseCase, GetUserCancellationPreviewUseCase);
+  container.register(USE_CASE_TOKENS.CancelUserReservationUseCase, CancelUserReservationUseCase);
+  container.register(USE_CASE_TOKENS.CreateBalancePaymentIntentUseCase, CreateBalancePaymentIntentUseCase);
+  container.register(USE_CASE_TOKENS.SendBalanceReminderUseCase, SendBalanceReminderUseCase);
+  container.register(USE_CASE_TOKENS.EnforceBalanceDueUseCase, EnforceBalanceDueUseCase);
+  container.register(USE_CASE_TOKENS.GetReservationInvoicesUseCase, GetReservationInvoicesUseCase);
+  container.register(USE_CASE_TOKENS.GetReservationInvoicePdfUseCase, GetReservationInvoicePdfUseCase);
   // Admin Reservation use cases
   container.register(USE_CASE_TOKENS.GetAdminReservationsListUseCase, GetAdminReservationsListUseCase);
   container.register(USE_CASE_TOKENS.GetAdminReservationUseCase, GetAdminReservationUseCase);
@@ -273,6 +409,7 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.UpdateReservationItineraryUseCase, UpdateReservationItineraryUseCase);
     container.register(USE_CASE_TOKENS.ProcessReservationRefundUseCase, ProcessReservationRefundUseCase);
     container.register(USE_CASE_TOKENS.CancelReservationUseCase, CancelReservationUseCase);
+    container.register(USE_CASE_TOKENS.PreviewReservationCancellationUseCase, PreviewReservationCancellationUseCase);
     container.register(USE_CASE_TOKENS.AddReservationChargeUseCase, AddReservationChargeUseCase);
     container.register(USE_CASE_TOKENS.MarkChargeAsPaidUseCase, MarkChargeAsPaidUseCase);
     container.register(USE_CASE_TOKENS.ExportReservationPDFUseCase, ExportReservationPDFUseCase);
@@ -281,6 +418,17 @@ export function registerUseCases(): void {
   // Admin Trip use cases
   container.register(USE_CASE_TOKENS.GetAdminTripsListUseCase, GetAdminTripsListUseCase);
   container.register(USE_CASE_TOKENS.GetActiveTripLocationsUseCase, GetActiveTripLocationsUseCase);
+  // Admin Schedule use cases
+  container.register(USE_CASE_TOKENS.GetFleetScheduleUseCase, GetFleetScheduleUseCase);
+  // Admin Maintenance use cases
+  container.register(USE_CASE_TOKENS.GetVehicleMaintenanceUseCase, GetVehicleMaintenanceUseCase);
+  container.register(USE_CASE_TOKENS.UpdateVehicleMaintenancePlanUseCase, UpdateVehicleMaintenancePlanUseCase);
+  container.register(USE_CASE_TOKENS.ScheduleMaintenanceWindowUseCase, ScheduleMaintenanceWindowUseCase);
+  container.register(USE_CASE_TOKENS.CancelMaintenanceWindowUseCase, CancelMaintenanceWindowUseCase);
+  container.register(USE_CASE_TOKENS.RecordVehicleServiceUseCase, RecordVehicleServiceUseCase);
+  // Admin Fuel Report use cases
+  container.register(USE_CASE_TOKENS.GetTripFuelReportUseCase, GetTripFuelReportUseCase);
+  container.register(USE_CASE_TOKENS.GetVehicleFuelHistoryUseCase, GetVehicleFuelHistoryUseCase);
   // Dashboard use cases
   container.register(USE_CASE_TOKENS.GetDashboardStatsUseCase, GetDashboardStatsUseCase);
   container.register(USE_CASE_TOKENS.GetRecentActivityUseCase, GetRecentActivityUseCase);
@@ -298,5 +446,22 @@ export function registerUseCases(): void {
   container.register(USE_CASE_TOKENS.CalculateDriverEarningsUseCase, CalculateDriverEarningsUseCase);
   container.register(USE_CASE_TOKENS.GetDriverEarningsUseCase, GetDriverEarningsUseCase);
   container.register(USE_CASE_TOKENS.RecordDriverPayoutUseCase, RecordDriverPayoutUseCase);
+  // Corporate account use cases
+  container.register(USE_CASE_TOKENS.CreateCorporateAccountUseCase, CreateCorporateAccountUseCase);
+  container.register(USE_CASE_TOKENS.UpdateCorporateAccountUseCase, UpdateCorporateAccountUseCase);
+  container.register(USE_CASE_TOKENS.GetCorporateAccountsUseCase, GetCorporateAccountsUseCase);
+  container.register(USE_CASE_TOKENS.GetCorporateAccountUseCase, GetCorporateAccountUseCase);
+  container.register(USE_CASE_TOKENS.AddCorporateMemberUseCase, AddCorporateMemberUseCase);
+  container.register(USE_CASE_TOKENS.RemoveCorporateMemberUseCase, RemoveCorporateMemberUseCase);
+  container.register(USE_CASE_TOKENS.GetMyCorporateAccountUseCase, GetMyCorporateAccountUseCase);
+  container.register(USE_CASE_TOKENS.BookQuoteOnAccountUseCase, BookQuoteOnAccountUseCase);
+  container.register(USE_CASE_TOKENS.CompleteCorporateBookingUseCase, CompleteCorporateBookingUseCase);
+  container.register(USE_CASE_TOKENS.GetCorporateBookingsUseCase, GetCorporateBookingsUseCase);
+  container.register(USE_CASE_TOKENS.ReviewCorporateBookingUseCase, ReviewCorporateBookingUseCase);
+  container.register(USE_CASE_TOKENS.GenerateCorporateInvoicesUseCase, GenerateCorporateInvoicesUseCase);
+  container.register(USE_CASE_TOKENS.FlagOverdueCorporateInvoicesUseCase, FlagOverdueCorporateInvoicesUseCase);
+  container.register(USE_CASE_TOKENS.MarkCorporateInvoicePaidUseCase, MarkCorporateInvoicePaidUseCase);
+  container.register(USE_CASE_TOKENS.GetCorporateStatementUseCase, GetCorporateStatementUseCase);
+  container.register(USE_CASE_TOKENS.GetCorporateInvoicePdfUseCase, GetCorporateInvoicePdfUseCase);
 }
 
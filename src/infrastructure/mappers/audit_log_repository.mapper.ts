@@ -0,0 +1,29 @@
+import { AuditLog } from '../../domain/entities/audit_log.entity';
+import { IAuditLogModel } from '../database/mongodb/models/audit_log.model';
+
+/**
+ * Repository mapper for AuditLog entity
+ * Converts MongoDB documents to domain entities
+ */
+export class AuditLogRepositoryMapper {
+  static toEntity(doc: IAuditLogModel): AuditLog {
+    return new AuditLog(
+      doc.auditLogId,
+      doc.actorId,
+      doc.action,
+      doc.targetType,
+      doc.targetId,
+      doc.changes || [],
+      doc.createdAt,
+      doc.actorEmail,
+      doc.actorRole,
+      doc.ipAddress,
+      doc.userAgent,
+      doc.metadata
+    );
+  }
+
+  static toEntities(docs: IAuditLogModel[]): AuditLog[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
@@ -0,0 +1,30 @@
+import { CancellationPolicy } from '../../domain/entities/cancellation_policy.entity';
+import { ICancellationPolicyModel } from '../database/mongodb/models/cancellation_policy.model';
+
+/**
+ * Repository mapper for CancellationPolicy entity
+ * Converts MongoDB documents to domain entities
+ */
+export class CancellationPolicyRepositoryMapper {
+  static toEntity(doc: ICancellationPolicyModel): CancellationPolicy {
+    return new CancellationPolicy(
+      doc.cancellationPolicyId,
+      doc.version,
+      (doc.tiers || []).map((tier) => ({
+        minHoursBeforeDeparture: tier.minHoursBeforeDeparture,
+        refundPercentage: tier.refundPercentage,
+      })),
+      doc.nonRefundableDepositPercentage,
+      doc.amenityRefundMode,
+      doc.chargeRefundMode,
+      doc.isActive,
+      doc.createdBy,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+
+  static toEntities(docs: ICancellationPolicyModel[]): CancellationPolicy[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
@@ -0,0 +1,101 @@
+import { CorporateAccount } from '../../domain/entities/corporate_account.entity';
+import { CorporateBooking } from '../../domain/entities/corporate_booking.entity';
+import { CorporateInvoice } from '../../domain/entities/corporate_invoice.entity';
+import { ICorporateAccountModel } from '../database/mongodb/models/corporate_account.model';
+import { ICorporateBookingModel } from '../database/mongodb/models/corporate_booking.model';
+import { ICorporateInvoiceModel } from '../database/mongodb/models/corporate_invoice.model';
+
+/**
+ * Repository mapper for CorporateAccount, CorporateBooking and CorporateInvoice entities
+ * Converts MongoDB documents to domain entities
+ */
+export class CorporateAccountRepositoryMapper {
+  static toEntity(doc: ICorporateAccountModel): CorporateAccount {
+    return new CorporateAccount(
+      doc.corporateAccountId,
+      doc.name,
+      {
+        name: doc.billingContact.name,
+        email: doc.billingContact.email,
+        phoneNumber: doc.billingContact.phoneNumber,
+      },
+      doc.creditLimit,
+      doc.currency,
+      doc.paymentTermsDays,
+      (doc.members || []).map((member) => ({
+        userId: member.userId,
+        role: member.role,
+        addedAt: member.addedAt,
+      })),
+      doc.status,
+      doc.createdBy,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.approvalThreshold ?? undefined, // Cleared thresholds are stored as null
+      doc.billingAddress,
+      doc.taxId,
+      doc.creditVersion ?? 0
+    );
+  }
+
+  static toEntities(docs: ICorporateAccountModel[]): CorporateAccount[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+
+  static toBookingEntity(doc: ICorporateBookingModel): CorporateBooking {
+    return new CorporateBooking(
+      doc.corporateBookingId,
+      doc.corporateAccountId,
+      doc.quoteId,
+      doc.requestedBy,
+      doc.amount,
+      doc.currency,
+      doc.status,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.reservationId,
+      doc.paymentId,
+      doc.bookedAt,
+      doc.invoiceId,
+      doc.reviewedBy,
+      doc.reviewedAt,
+      doc.rejectionReason
+    );
+  }
+
+  static toBookingEntities(docs: ICorporateBookingModel[]): CorporateBooking[] {
+    return docs.map((doc) => this.toBookingEntity(doc));
+  }
+
+  static toInvoiceEntity(doc: ICorporateInvoiceModel): CorporateInvoice {
+    return new CorporateInvoice(
+      doc.invoiceId,
+      doc.invoiceNumber,
+      doc.corporateAccountId,
+      doc.periodStart,
+      doc.periodEnd,
+      (doc.lineItems || []).map((item) => ({
+        corporateBookingId: item.corporateBookingId,
+        reservationId: item.reservationId,
+        reservationNumber: item.reservationNumber,
+        description: item.description,
+        bookedBy: item.bookedBy,
+        bookedAt: item.bookedAt,
+        amount: item.amount,
+      })),
+      doc.totalAmount,
+      doc.currency,
+      doc.status,
+      doc.issuedAt,
+      doc.dueAt,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.paidAt,
+      doc.paymentReference
+    );
+  }
+
+  static toInvoiceEntities(docs: ICorporateInvoiceModel[]): CorporateInvoice[] {
+    return docs.map((doc) => this.toInvoiceEntity(doc));
+  }
+}
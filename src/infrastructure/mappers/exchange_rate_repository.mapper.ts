@@ -0,0 +1,24 @@
+import { ExchangeRate } from '../../domain/entities/exchange_rate.entity';
+import { IExchangeRateModel } from '../database/mongodb/models/exchange_rate.model';
+
+/**
+ * Repository mapper for ExchangeRate entity
+ * Converts MongoDB documents to domain entities
+ */
+export class ExchangeRateRepositoryMapper {
+  static toEntity(doc: IExchangeRateModel): ExchangeRate {
+    return new ExchangeRate(
+      doc.exchangeRateId,
+      doc.baseCurrency,
+      doc.currency,
+      doc.rate,
+      doc.updatedBy,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+
+  static toEntities(docs: IExchangeRateModel[]): ExchangeRate[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
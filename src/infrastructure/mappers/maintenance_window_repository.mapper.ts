@@ -0,0 +1,30 @@
+import { MaintenanceWindow } from '../../domain/entities/maintenance_window.entity';
+import { IMaintenanceWindowModel } from '../database/mongodb/models/maintenance_window.model';
+
+/**
+ * Repository mapper for MaintenanceWindow entity
+ * Converts MongoDB documents to domain entities
+ */
+export class MaintenanceWindowRepositoryMapper {
+  static toEntity(doc: IMaintenanceWindowModel): MaintenanceWindow {
+    return new MaintenanceWindow(
+      doc.windowId,
+      doc.vehicleId,
+      doc.startAt,
+      doc.endAt,
+      doc.reason,
+      doc.status,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.notes,
+      doc.startedAt,
+      doc.completedAt,
+      doc.cancelledAt,
+      doc.serviceRecordId
+    );
+  }
+
+  static toEntities(docs: IMaintenanceWindowModel[]): MaintenanceWindow[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
@@ -0,0 +1,31 @@
+import { NotificationPreference } from '../../domain/entities/notification_preference.entity';
+import { INotificationPreferenceModel } from '../database/mongodb/models/notification_preference.model';
+
+/**
+ * Repository mapper for NotificationPreference entity
+ * Converts MongoDB documents to domain entities
+ */
+export class NotificationPreferenceRepositoryMapper {
+  static toEntity(doc: INotificationPreferenceModel): NotificationPreference {
+    return new NotificationPreference(
+      doc.userId,
+      (doc.channels ?? []).map((channel) => ({
+        type: channel.type,
+        inApp: channel.inApp,
+        email: channel.email,
+        push: channel.push,
+      })),
+      doc.createdAt,
+      doc.updatedAt,
+      doc.quietHours
+        ? {
+            enabled: doc.quietHours.enabled,
+            start: doc.quietHours.start,
+            end: doc.quietHours.end,
+            timezone: doc.quietHours.timezone,
+          }
+        : undefined,
+      doc.dailyDigest ?? false
+    );
+  }
+}
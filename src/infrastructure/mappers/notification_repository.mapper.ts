@@ -15,7 +15,11 @@ export class NotificationRepositoryMapper {
       doc.message,
       doc.isRead,
       doc.createdAt,
-      doc.data
+      doc.data,
+      doc.deliveries ?? [],
+      doc.groupKey,
+      doc.count ?? 1,
+      doc.lastNotifiedAt
     );
   }
 
@@ -20,7 +20,8 @@ export class PaymentRepositoryMapper {
       doc.paymentIntentId,
       doc.transactionId,
       doc.paidAt,
-      doc.metadata
+      doc.metadata,
+      doc.dispute
     );
   }
 
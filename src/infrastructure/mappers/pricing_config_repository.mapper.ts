@@ -1,5 +1,6 @@
 import { PricingConfig } from '../../domain/entities/pricing_config.entity';
 import { IPricingConfigModel } from '../database/mongodb/models/pricing_config.model';
+import { normalizeCurrency } from '../../shared/utils/currency.util';
 
 /**
  * Repository mapper for PricingConfig entity
@@ -17,7 +18,9 @@ export class PricingConfigRepositoryMapper {
       doc.isActive,
       doc.createdBy,
       doc.createdAt,
-      doc.updatedAt
+      doc.updatedAt,
+      doc.useActualFuelConsumption ?? false,
+      normalizeCurrency(doc.currency)
     );
   }
 
@@ -0,0 +1,49 @@
+import { PromoCode } from '../../domain/entities/promo_code.entity';
+import { PromoCodeRedemption } from '../../domain/entities/promo_code_redemption.entity';
+import { IPromoCodeModel } from '../database/mongodb/models/promo_code.model';
+import { IPromoCodeRedemptionModel } from '../database/mongodb/models/promo_code_redemption.model';
+
+/**
+ * Repository mapper for PromoCode and PromoCodeRedemption entities
+ * Converts MongoDB documents to domain entities
+ */
+export class PromoCodeRepositoryMapper {
+  static toEntity(doc: IPromoCodeModel): PromoCode {
+    return new PromoCode(
+      doc.promoCodeId,
+      doc.code,
+      doc.discountType,
+      doc.discountValue,
+      doc.validFrom,
+      doc.validUntil,
+      doc.usedCount || 0,
+      doc.eventTypes || [],
+      doc.isActive,
+      doc.createdBy,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.description,
+      doc.maxUses,
+      doc.perUserLimit,
+      doc.minTripValue
+    );
+  }
+
+  static toEntities(docs: IPromoCodeModel[]): PromoCode[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+
+  static toRedemptionEntity(doc: IPromoCodeRedemptionModel): PromoCodeRedemption {
+    return new PromoCodeRedemption(
+      doc.redemptionId,
+      doc.promoCodeId,
+      doc.code,
+      doc.userId,
+      doc.quoteId,
+      doc.discountAmount,
+      doc.currency,
+      doc.createdAt,
+      doc.reservationId
+    );
+  }
+}
@@ -28,7 +28,11 @@ export class QuoteRepositoryMapper {
       doc.actualDriverRate,
       doc.pricingLastUpdatedAt,
       doc.quotedAt,
-      doc.isDeleted
+      doc.isDeleted,
+      doc.currency,
+      doc.promoCode,
+      doc.pricingVersions,
+      doc.requotedFromQuoteId
     );
   }
 
@@ -0,0 +1,35 @@
+import { ReservationInvoice } from '../../domain/entities/reservation_invoice.entity';
+import { IReservationInvoiceModel } from '../database/mongodb/models/reservation_invoice.model';
+
+/**
+ * Repository mapper for ReservationInvoice entity
+ * Converts MongoDB documents to domain entities
+ */
+export class ReservationInvoiceRepositoryMapper {
+  static toEntity(doc: IReservationInvoiceModel): ReservationInvoice {
+    return new ReservationInvoice(
+      doc.invoiceId,
+      doc.invoiceNumber,
+      doc.documentType,
+      doc.reservationId,
+      doc.userId,
+      doc.paymentId,
+      doc.sourceKey,
+      doc.description,
+      doc.amount,
+      doc.currency,
+      doc.paymentMethod,
+      doc.issuedAt,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.chargeId,
+      doc.refundId,
+      doc.relatedInvoiceId,
+      doc.reason
+    );
+  }
+
+  static toEntities(docs: IReservationInvoiceModel[]): ReservationInvoice[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
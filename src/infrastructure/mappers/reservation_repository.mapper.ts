@@ -37,7 +37,10 @@ export class ReservationRepositoryMapper {
       doc.cancelledAt,
       doc.startedAt,
       doc.completedAt,
-      doc.driverReport
+      doc.driverReport,
+      doc.cancellationPolicyId,
+      doc.cancellationPolicyVersion,
+      doc.paymentSchedule
     );
   }
 
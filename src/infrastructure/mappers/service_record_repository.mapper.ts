@@ -0,0 +1,28 @@
+import { ServiceRecord } from '../../domain/entities/service_record.entity';
+import { IServiceRecordModel } from '../database/mongodb/models/service_record.model';
+
+/**
+ * Repository mapper for ServiceRecord entity
+ * Converts MongoDB documents to domain entities
+ */
+export class ServiceRecordRepositoryMapper {
+  static toEntity(doc: IServiceRecordModel): ServiceRecord {
+    return new ServiceRecord(
+      doc.recordId,
+      doc.vehicleId,
+      doc.serviceType,
+      doc.servicedAt,
+      doc.odometerReading,
+      doc.cost,
+      doc.vendor,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.notes,
+      doc.windowId
+    );
+  }
+
+  static toEntities(docs: IServiceRecordModel[]): ServiceRecord[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
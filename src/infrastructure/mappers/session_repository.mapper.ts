@@ -0,0 +1,29 @@
+import { Session } from '../../domain/entities/session.entity';
+import { ISessionModel } from '../database/mongodb/models/session.model';
+
+/**
+ * Repository mapper for Session entity
+ * Converts MongoDB documents to domain entities
+ */
+export class SessionRepositoryMapper {
+  static toEntity(doc: ISessionModel): Session {
+    return new Session(
+      doc.sessionId,
+      doc.userId,
+      doc.role,
+      doc.refreshTokenId,
+      doc.deviceName,
+      doc.ipAddress ?? null,
+      doc.userAgent ?? null,
+      doc.createdAt,
+      doc.lastSeenAt,
+      doc.expiresAt,
+      doc.revokedAt ?? null,
+      doc.revokedReason ?? null
+    );
+  }
+
+  static toEntities(docs: ISessionModel[]): Session[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
@@ -0,0 +1,21 @@
+import { TwoFactorAuth } from '../../domain/entities/two_factor_auth.entity';
+import { ITwoFactorAuthModel } from '../database/mongodb/models/two_factor_auth.model';
+
+/**
+ * Repository mapper for TwoFactorAuth entity
+ * Converts MongoDB documents to domain entities
+ */
+export class TwoFactorAuthRepositoryMapper {
+  static toEntity(doc: ITwoFactorAuthModel): TwoFactorAuth {
+    return new TwoFactorAuth(
+      doc.userId,
+      doc.secret,
+      doc.enabled ?? false,
+      [...(doc.recoveryCodeHashes ?? [])],
+      doc.createdAt,
+      doc.updatedAt,
+      doc.enabledAt ?? undefined,
+      doc.lastUsedStep ?? undefined
+    );
+  }
+}
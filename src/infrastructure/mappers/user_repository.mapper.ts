@@ -21,7 +21,9 @@ export class UserRepositoryMapper {
       doc.phoneNumber,
       doc.password,
       doc.googleId,
-      doc.isDeleted || false
+      doc.isDeleted || false,
+      doc.quoteFollowUpEmails ?? true,
+      doc.adminRole
     );
   }
 
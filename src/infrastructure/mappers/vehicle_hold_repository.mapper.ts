@@ -0,0 +1,30 @@
+import { VehicleHold } from '../../domain/entities/vehicle_hold.entity';
+import { IVehicleHoldModel } from '../database/mongodb/models/vehicle_hold.model';
+
+/**
+ * Repository mapper for VehicleHold entity
+ * Converts MongoDB documents to domain entities
+ */
+export class VehicleHoldRepositoryMapper {
+  static toEntity(doc: IVehicleHoldModel): VehicleHold {
+    return new VehicleHold(
+      doc.holdId,
+      doc.vehicleId,
+      doc.quoteId,
+      doc.startAt,
+      doc.endAt,
+      doc.status,
+      doc.heldAt,
+      doc.expiresAt,
+      doc.reservationId,
+      doc.confirmedAt,
+      doc.releasedAt,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+
+  static toEntities(docs: IVehicleHoldModel[]): VehicleHold[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
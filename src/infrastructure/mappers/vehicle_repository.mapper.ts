@@ -22,7 +22,13 @@ export class VehicleRepositoryMapper {
       doc.createdAt,
       doc.updatedAt,
       doc.imageUrls && doc.imageUrls.length > 0 ? doc.imageUrls : undefined,
-      doc.amenityIds && doc.amenityIds.length > 0 ? doc.amenityIds : []
+      doc.amenityIds && doc.amenityIds.length > 0 ? doc.amenityIds : [],
+      doc.odometerReading ?? 0,
+      doc.serviceIntervalKm,
+      doc.serviceIntervalDays,
+      doc.lastServiceOdometer,
+      doc.lastServicedAt,
+      doc.averageFuelConsumption
     );
   }
 
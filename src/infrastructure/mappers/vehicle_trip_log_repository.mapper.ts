@@ -0,0 +1,34 @@
+import { VehicleTripLog } from '../../domain/entities/vehicle_trip_log.entity';
+import { IVehicleTripLogModel } from '../database/mongodb/models/vehicle_trip_log.model';
+
+/**
+ * Repository mapper for VehicleTripLog entity
+ * Converts MongoDB documents to domain entities
+ */
+export class VehicleTripLogRepositoryMapper {
+  static toEntity(doc: IVehicleTripLogModel): VehicleTripLog {
+    return new VehicleTripLog(
+      doc.logId,
+      doc.reservationId,
+      doc.vehicleId,
+      doc.driverId,
+      doc.startOdometer,
+      doc.estimatedDistanceKm,
+      doc.estimatedKmPerLitre,
+      (doc.fuelFills ?? []).map((fill) => ({
+        litres: fill.litres,
+        cost: fill.cost,
+        filledAt: fill.filledAt,
+      })),
+      doc.startedAt,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.endOdometer,
+      doc.completedAt
+    );
+  }
+
+  static toEntities(docs: IVehicleTripLogModel[]): VehicleTripLog[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
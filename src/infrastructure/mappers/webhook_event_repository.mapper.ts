@@ -0,0 +1,29 @@
+import { WebhookEvent } from '../../domain/entities/webhook_event.entity';
+import { IWebhookEventModel } from '../database/mongodb/models/webhook_event.model';
+
+/**
+ * Repository mapper for WebhookEvent entity
+ * Converts MongoDB documents to domain entities
+ */
+export class WebhookEventRepositoryMapper {
+  static toEntity(doc: IWebhookEventModel): WebhookEvent {
+    return new WebhookEvent(
+      doc.eventId,
+      doc.provider,
+      doc.type,
+      doc.payload,
+      doc.status,
+      doc.attempts || 0,
+      doc.receivedAt,
+      doc.createdAt,
+      doc.updatedAt,
+      doc.lastAttemptAt,
+      doc.processedAt,
+      doc.lastError
+    );
+  }
+
+  static toEntities(docs: IWebhookEventModel[]): WebhookEvent[] {
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
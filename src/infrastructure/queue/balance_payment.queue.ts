@@ -0,0 +1,53 @@
+import { Job } from 'bull';
+import { createQueueWithURI } from './queue.config';
+
+/**
+ * Job data type for balance payment queue
+ */
+export interface BalancePaymentJobData {
+  jobType: 'balance-reminder' | 'balance-due';
+  reservationId: string;
+}
+
+/**
+ * Balance Payment Queue
+ * Handles reminders for the balance of deposit bookings and what happens when it is missed
+ */
+export const balancePaymentQueue = createQueueWithURI<BalancePaymentJobData>('balance-payment', {
+  defaultJobOptions: {
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+    },
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000, // Start with 2 seconds, then 4s, 8s
+    },
+    timeout: 30000, // 30 seconds timeout per job
+  },
+});
+
+// Set up queue event listeners for monitoring
+balancePaymentQueue.on('error', (error: Error) => {
+  console.error('Balance payment queue error:', error);
+});
+
+balancePaymentQueue.on('active', (job: Job<BalancePaymentJobData>) => {
+  console.log(`Processing ${job.data.jobType} job ${job.id} for reservation: ${job.data.reservationId}`);
+});
+
+balancePaymentQueue.on('completed', (job: Job<BalancePaymentJobData>) => {
+  console.log(`${job.data.jobType} job ${job.id} completed for reservation: ${job.data.reservationId}`);
+});
+
+balancePaymentQueue.on('failed', (job: Job<BalancePaymentJobData> | undefined, err: Error) => {
+  console.error(`${job?.data.jobType} job ${job?.id} failed for reservation: ${job?.data.reservationId}`, err);
+});
+
+balancePaymentQueue.on('stalled', (job: Job<BalancePaymentJobData>) => {
+  console.warn(`${job.data.jobType} job ${job.id} stalled for reservation: ${job.data.reservationId}`);
+});
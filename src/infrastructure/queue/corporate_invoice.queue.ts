@@ -0,0 +1,52 @@
+import { Job } from 'bull';
+import { createQueueWithURI } from './queue.config';
+
+/**
+ * Job data type for corporate invoice queue
+ */
+export interface CorporateInvoiceJobData {
+  jobType: 'monthly-invoicing' | 'overdue-check';
+}
+
+/**
+ * Corporate Invoice Queue
+ * Handles issuing the monthly invoices of corporate accounts and flagging overdue ones
+ */
+export const corporateInvoiceQueue = createQueueWithURI<CorporateInvoiceJobData>('corporate-invoice', {
+  defaultJobOptions: {
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 100,
+    },
+    removeOnFail: {
+      age: 30 * 24 * 3600, // Keep failed jobs for 30 days
+    },
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 60000, // Start with 1 minute, then 2m, 4m
+    },
+    timeout: 10 * 60 * 1000, // 10 minutes, invoicing renders and emails a PDF per account
+  },
+});
+
+// Set up queue event listeners for monitoring
+corporateInvoiceQueue.on('error', (error: Error) => {
+  console.error('Corporate invoice queue error:', error);
+});
+
+corporateInvoiceQueue.on('active', (job: Job<CorporateInvoiceJobData>) => {
+  console.log(`Processing ${job.data.jobType} job ${job.id}`);
+});
+
+corporateInvoiceQueue.on('completed', (job: Job<CorporateInvoiceJobData>) => {
+  console.log(`${job.data.jobType} job ${job.id} completed`);
+});
+
+corporateInvoiceQueue.on('failed', (job: Job<CorporateInvoiceJobData> | undefined, err: Error) => {
+  console.error(`${job?.data.jobType} job ${job?.id} failed`, err);
+});
+
+corporateInvoiceQueue.on('stalled', (job: Job<CorporateInvoiceJobData>) => {
+  console.warn(`${job.data.jobType} job ${job.id} stalled`);
+});
@@ -0,0 +1,52 @@
+import { Job } from 'bull';
+import { createQueueWithURI } from './queue.config';
+
+/**
+ * Job data type for notification digest queue
+ */
+export interface NotificationDigestJobData {
+  jobType: 'daily-digest';
+}
+
+/**
+ * Notification Digest Queue
+ * Handles the daily email summarising the unread notifications of users who opted in
+ */
+export const notificationDigestQueue = createQueueWithURI<NotificationDigestJobData>('notification-digest', {
+  defaultJobOptions: {
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 100,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+    },
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 60000, // Start with 1 minute, then 2m, 4m
+    },
+    timeout: 10 * 60 * 1000, // 10 minutes, one email per subscribed user
+  },
+});
+
+// Set up queue event listeners for monitoring
+notificationDigestQueue.on('error', (error: Error) => {
+  console.error('Notification digest queue error:', error);
+});
+
+notificationDigestQueue.on('active', (job: Job<NotificationDigestJobData>) => {
+  console.log(`Processing ${job.data.jobType} job ${job.id}`);
+});
+
+notificationDigestQueue.on('completed', (job: Job<NotificationDigestJobData>) => {
+  console.log(`${job.data.jobType} job ${job.id} completed`);
+});
+
+notificationDigestQueue.on('failed', (job: Job<NotificationDigestJobData> | undefined, err: Error) => {
+  console.error(`${job?.data.jobType} job ${job?.id} failed`, err);
+});
+
+notificationDigestQueue.on('stalled', (job: Job<NotificationDigestJobData>) => {
+  console.warn(`${job.data.jobType} job ${job.id} stalled`);
+});
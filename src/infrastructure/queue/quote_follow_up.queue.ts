@@ -0,0 +1,53 @@
+import { Job } from 'bull';
+import { createQueueWithURI } from './queue.config';
+
+/**
+ * Job data type for quote follow-up queue
+ */
+export interface QuoteFollowUpJobData {
+  jobType: 'quote-reminder' | 'quote-expired' | 'draft-reminder';
+  quoteId: string;
+}
+
+/**
+ * Quote Follow-up Queue
+ * Handles reminder emails before a quote's payment window closes, after it expired and for abandoned drafts
+ */
+export const quoteFollowUpQueue = createQueueWithURI<QuoteFollowUpJobData>('quote-follow-up', {
+  defaultJobOptions: {
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+    },
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000, // Start with 2 seconds, then 4s, 8s
+    },
+    timeout: 30000, // 30 seconds timeout per job
+  },
+});
+
+// Set up queue event listeners for monitoring
+quoteFollowUpQueue.on('error', (error: Error) => {
+  console.error('Quote follow-up queue error:', error);
+});
+
+quoteFollowUpQueue.on('active', (job: Job<QuoteFollowUpJobData>) => {
+  console.log(`Processing ${job.data.jobType} job ${job.id} for quote: ${job.data.quoteId}`);
+});
+
+quoteFollowUpQueue.on('completed', (job: Job<QuoteFollowUpJobData>) => {
+  console.log(`${job.data.jobType} job ${job.id} completed for quote: ${job.data.quoteId}`);
+});
+
+quoteFollowUpQueue.on('failed', (job: Job<QuoteFollowUpJobData> | undefined, err: Error) => {
+  console.error(`${job?.data.jobType} job ${job?.id} failed for quote: ${job?.data.quoteId}`, err);
+});
+
+quoteFollowUpQueue.on('stalled', (job: Job<QuoteFollowUpJobData>) => {
+  console.warn(`${job.data.jobType} job ${job.id} stalled for quote: ${job.data.quoteId}`);
+});
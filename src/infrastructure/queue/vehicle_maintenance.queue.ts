@@ -0,0 +1,53 @@
+import { Job } from 'bull';
+import { createQueueWithURI } from './queue.config';
+
+/**
+ * Job data type for vehicle maintenance queue
+ */
+export interface VehicleMaintenanceJobData {
+  jobType: 'maintenance-start' | 'maintenance-end';
+  windowId: string;
+}
+
+/**
+ * Vehicle Maintenance Queue
+ * Handles switching vehicles into and out of MAINTENANCE when a maintenance window starts and ends
+ */
+export const vehicleMaintenanceQueue = createQueueWithURI<VehicleMaintenanceJobData>('vehicle-maintenance', {
+  defaultJobOptions: {
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+    },
+    attempts: 3,
+    backoff: {
+      type: 'exponential',
+      delay: 2000, // Start with 2 seconds, then 4s, 8s
+    },
+    timeout: 30000, // 30 seconds timeout per job
+  },
+});
+
+// Set up queue event listeners for monitoring
+vehicleMaintenanceQueue.on('error', (error: Error) => {
+  console.error('Vehicle maintenance queue error:', error);
+});
+
+vehicleMaintenanceQueue.on('active', (job: Job<VehicleMaintenanceJobData>) => {
+  console.log(`Processing ${job.data.jobType} job ${job.id} for maintenance window: ${job.data.windowId}`);
+});
+
+vehicleMaintenanceQueue.on('completed', (job: Job<VehicleMaintenanceJobData>) => {
+  console.log(`${job.data.jobType} job ${job.id} completed for maintenance window: ${job.data.windowId}`);
+});
+
+vehicleMaintenanceQueue.on('failed', (job: Job<VehicleMaintenanceJobData> | undefined, err: Error) => {
+  console.error(`${job?.data.jobType} job ${job?.id} failed for maintenance window: ${job?.data.windowId}`, err);
+});
+
+vehicleMaintenanceQueue.on('stalled', (job: Job<VehicleMaintenanceJobData>) => {
+  console.warn(`${job.data.jobType} job ${job.id} stalled for maintenance window: ${job.data.windowId}`);
+});
@@ -0,0 +1,52 @@
+import { Job } from 'bull';
+import { createQueueWithURI } from './queue.config';
+
+/**
+ * Job data type for webhook retry queue
+ */
+export interface WebhookRetryJobData {
+  eventId: string;
+}
+
+/**
+ * Webhook Retry Queue
+ * Re-runs stored payment webhook events whose first processing attempt failed
+ */
+export const webhookRetryQueue = createQueueWithURI<WebhookRetryJobData>('webhook-retry', {
+  defaultJobOptions: {
+    removeOnComplete: {
+      age: 24 * 3600, // Keep completed jobs for 24 hours
+      count: 1000,
+    },
+    removeOnFail: {
+      age: 7 * 24 * 3600, // Keep failed jobs for 7 days
+    },
+    attempts: 5,
+    backoff: {
+      type: 'exponential',
+      delay: 30000, // Start with 30 seconds, then 1m, 2m, 4m, 8m
+    },
+    timeout: 60000, // 60 seconds timeout per job
+  },
+});
+
+// Set up queue event listeners for monitoring
+webhookRetryQueue.on('error', (error: Error) => {
+  console.error('Webhook retry queue error:', error);
+});
+
+webhookRetryQueue.on('active', (job: Job<WebhookRetryJobData>) => {
+  console.log(`Processing webhook retry job ${job.id} for event: ${job.data.eventId}`);
+});
+
+webhookRetryQueue.on('completed', (job: Job<WebhookRetryJobData>) => {
+  console.log(`Webhook retry job ${job.id} completed for event: ${job.data.eventId}`);
+});
+
+webhookRetryQueue.on('failed', (job: Job<WebhookRetryJobData> | undefined, err: Error) => {
+  console.error(`Webhook retry job ${job?.id} failed for event: ${job?.data.eventId}`, err);
+});
+
+webhookRetryQueue.on('stalled', (job: Job<WebhookRetryJobData>) => {
+  console.warn(`Webhook retry job ${job.id} stalled for event: ${job.data.eventId}`);
+});
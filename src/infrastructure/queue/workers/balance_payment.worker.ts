@@ -0,0 +1,60 @@
+import { Job } from 'bull';
+import { container } from 'tsyringe';
+import { balancePaymentQueue, BalancePaymentJobData } from '../balance_payment.queue';
+import { ISendBalanceReminderUseCase } from '../../../application/use-cases/interface/reservation/send_balance_reminder_use_case.interface';
+import { IEnforceBalanceDueUseCase } from '../../../application/use-cases/interface/reservation/enforce_balance_due_use_case.interface';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Balance Payment Queue Worker
+ * Sends balance reminders and enforces the due date of deposit bookings
+ */
+export class BalancePaymentWorker {
+  private sendBalanceReminderUseCase: ISendBalanceReminderUseCase;
+  private enforceBalanceDueUseCase: IEnforceBalanceDueUseCase;
+
+  constructor() {
+    // Resolve use cases from DI container
+    this.sendBalanceReminderUseCase = container.resolve<ISendBalanceReminderUseCase>(
+      USE_CASE_TOKENS.SendBalanceReminderUseCase
+    );
+    this.enforceBalanceDueUseCase = container.resolve<IEnforceBalanceDueUseCase>(
+      USE_CASE_TOKENS.EnforceBalanceDueUseCase
+    );
+  }
+
+  /**
+   * Initialize the worker and set up job processors
+   */
+  initialize(): void {
+    void balancePaymentQueue.process(async (job: Job<BalancePaymentJobData>) => {
+      return this.processBalancePaymentJob(job);
+    });
+
+    logger.info('Balance payment worker initialized');
+  }
+
+  /**
+   * Process balance payment job
+   * Idempotent: both use cases skip reservations whose balance is no longer pending
+   */
+  private async processBalancePaymentJob(job: Job<BalancePaymentJobData>): Promise<boolean> {
+    const { jobType, reservationId } = job.data;
+
+    try {
+      logger.info(`Processing ${jobType} job for reservation: ${reservationId} (Job ID: ${job.id})`);
+
+      if (jobType === 'balance-reminder') {
+        return await this.sendBalanceReminderUseCase.execute(reservationId);
+      }
+
+      return await this.enforceBalanceDueUseCase.execute(reservationId);
+    } catch (error) {
+      logger.error(
+        `Error processing ${jobType} job for reservation ${reservationId} (Job ID: ${job.id}): ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // Re-throw to trigger Bull retry mechanism
+    }
+  }
+}
@@ -0,0 +1,60 @@
+import { Job } from 'bull';
+import { container } from 'tsyringe';
+import { corporateInvoiceQueue, CorporateInvoiceJobData } from '../corporate_invoice.queue';
+import { IGenerateCorporateInvoicesUseCase } from '../../../application/use-cases/interface/corporate/generate_corporate_invoices_use_case.interface';
+import { IFlagOverdueCorporateInvoicesUseCase } from '../../../application/use-cases/interface/corporate/flag_overdue_corporate_invoices_use_case.interface';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Corporate Invoice Queue Worker
+ * Issues monthly corporate invoices and flags the ones unpaid past their due date
+ */
+export class CorporateInvoiceWorker {
+  private generateCorporateInvoicesUseCase: IGenerateCorporateInvoicesUseCase;
+  private flagOverdueCorporateInvoicesUseCase: IFlagOverdueCorporateInvoicesUseCase;
+
+  constructor() {
+    // Resolve use cases from DI container
+    this.generateCorporateInvoicesUseCase = container.resolve<IGenerateCorporateInvoicesUseCase>(
+      USE_CASE_TOKENS.GenerateCorporateInvoicesUseCase
+    );
+    this.flagOverdueCorporateInvoicesUseCase = container.resolve<IFlagOverdueCorporateInvoicesUseCase>(
+      USE_CASE_TOKENS.FlagOverdueCorporateInvoicesUseCase
+    );
+  }
+
+  /**
+   * Initialize the worker and set up job processors
+   */
+  initialize(): void {
+    void corporateInvoiceQueue.process(async (job: Job<CorporateInvoiceJobData>) => {
+      return this.processCorporateInvoiceJob(job);
+    });
+
+    logger.info('Corporate invoice worker initialized');
+  }
+
+  /**
+   * Process corporate invoice job
+   * Idempotent: accounts already invoiced for the period and invoices already flagged are skipped
+   */
+  private async processCorporateInvoiceJob(job: Job<CorporateInvoiceJobData>): Promise<number> {
+    const { jobType } = job.data;
+
+    try {
+      logger.info(`Processing ${jobType} job (Job ID: ${job.id})`);
+
+      if (jobType === 'monthly-invoicing') {
+        return await this.generateCorporateInvoicesUseCase.execute();
+      }
+
+      return await this.flagOverdueCorporateInvoicesUseCase.execute();
+    } catch (error) {
+      logger.error(
+        `Error processing ${jobType} job (Job ID: ${job.id}): ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // Re-throw to trigger Bull retry mechanism
+    }
+  }
+}
@@ -0,0 +1,50 @@
+import { Job } from 'bull';
+import { container } from 'tsyringe';
+import { notificationDigestQueue, NotificationDigestJobData } from '../notification_digest.queue';
+import { ISendNotificationDigestsUseCase } from '../../../application/use-cases/interface/notification/send_notification_digests_use_case.interface';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Notification Digest Queue Worker
+ * Sends the daily notification digest emails
+ */
+export class NotificationDigestWorker {
+  private sendNotificationDigestsUseCase: ISendNotificationDigestsUseCase;
+
+  constructor() {
+    // Resolve use case from DI container
+    this.sendNotificationDigestsUseCase = container.resolve<ISendNotificationDigestsUseCase>(
+      USE_CASE_TOKENS.SendNotificationDigestsUseCase
+    );
+  }
+
+  /**
+   * Initialize the worker and set up job processors
+   */
+  initialize(): void {
+    void notificationDigestQueue.process(async (job: Job<NotificationDigestJobData>) => {
+      return this.processNotificationDigestJob(job);
+    });
+
+    logger.info('Notification digest worker initialized');
+  }
+
+  /**
+   * Process notification digest job
+   * Failures for a single user are logged by the use case and do not fail the job
+   */
+  private async processNotificationDigestJob(job: Job<NotificationDigestJobData>): Promise<number> {
+    const { jobType } = job.data;
+
+    try {
+      logger.info(`Processing ${jobType} job (Job ID: ${job.id})`);
+      return await this.sendNotificationDigestsUseCase.execute();
+    } catch (error) {
+      logger.error(
+        `Error processing ${jobType} job (Job ID: ${job.id}): ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // Re-throw to trigger Bull retry mechanism
+    }
+  }
+}
@@ -7,6 +7,8 @@ import { QuoteStatus } from '../../../shared/constants';
 import { logger } from '../../../shared/logger';
 import { Quote } from '../../../domain/entities/quote.entity';
 import { ISocketEventService } from '../../../domain/services/socket_event_service.interface';
+import { IVehicleAvailabilityService } from '../../../domain/services/vehicle_availability_service.interface';
+import { IQueueService } from '../../../domain/services/queue_service.interface';
 import { SERVICE_TOKENS } from '../../../application/di/tokens';
 
 /**
@@ -70,6 +72,19 @@ export class QuoteExpiryWorker {
 
       logger.info(`Quote ${quoteId} expired successfully (Job ID: ${job.id})`);
 
+      // Free the quote's vehicles for other quotes
+      try {
+        const vehicleAvailabilityService = container.resolve<IVehicleAvailabilityService>(
+          SERVICE_TOKENS.IVehicleAvailabilityService
+        );
+        await vehicleAvailabilityService.releaseHoldsForQuote(quoteId);
+      } catch (releaseError) {
+        // Holds lapse on their own at the end of the payment window, so this isn't fatal
+        logger.error(
+          `Failed to release vehicle holds for quote ${quoteId}: ${releaseError instanceof Error ? releaseError.message : 'Unknown error'}`
+        );
+      }
+
       // Emit socket event for real-time updates
       try {
         const socketEventService = container.resolve<ISocketEventService>(SERVICE_TOKENS.ISocketEventService);
@@ -85,6 +100,16 @@ export class QuoteExpiryWorker {
         );
       }
 
+      // Follow up with a requote email
+      try {
+        const queueService = container.resolve<IQueueService>(SERVICE_TOKENS.IQueueService);
+        await queueService.addQuoteExpiredJob(quoteId);
+      } catch (followUpError) {
+        logger.error(
+          `Failed to schedule quote expired email for quote ${quoteId}: ${followUpError instanceof Error ? followUpError.message : 'Unknown error'}`
+        );
+      }
+
       return true;
     } catch (error) {
       logger.error(
@@ -0,0 +1,68 @@
+import { Job } from 'bull';
+import { container } from 'tsyringe';
+import { quoteFollowUpQueue, QuoteFollowUpJobData } from '../quote_follow_up.queue';
+import { ISendQuoteReminderUseCase } from '../../../application/use-cases/interface/quote/send_quote_reminder_use_case.interface';
+import { ISendQuoteExpiredEmailUseCase } from '../../../application/use-cases/interface/quote/send_quote_expired_email_use_case.interface';
+import { ISendDraftQuoteReminderUseCase } from '../../../application/use-cases/interface/quote/send_draft_quote_reminder_use_case.interface';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Quote Follow-up Queue Worker
+ * Sends payment reminders, expired quote emails and draft quote nudges
+ */
+export class QuoteFollowUpWorker {
+  private sendQuoteReminderUseCase: ISendQuoteReminderUseCase;
+  private sendQuoteExpiredEmailUseCase: ISendQuoteExpiredEmailUseCase;
+  private sendDraftQuoteReminderUseCase: ISendDraftQuoteReminderUseCase;
+
+  constructor() {
+    // Resolve use cases from DI container
+    this.sendQuoteReminderUseCase = container.resolve<ISendQuoteReminderUseCase>(
+      USE_CASE_TOKENS.SendQuoteReminderUseCase
+    );
+    this.sendQuoteExpiredEmailUseCase = container.resolve<ISendQuoteExpiredEmailUseCase>(
+      USE_CASE_TOKENS.SendQuoteExpiredEmailUseCase
+    );
+    this.sendDraftQuoteReminderUseCase = container.resolve<ISendDraftQuoteReminderUseCase>(
+      USE_CASE_TOKENS.SendDraftQuoteReminderUseCase
+    );
+  }
+
+  /**
+   * Initialize the worker and set up job processors
+   */
+  initialize(): void {
+    void quoteFollowUpQueue.process(async (job: Job<QuoteFollowUpJobData>) => {
+      return this.processFollowUpJob(job);
+    });
+
+    logger.info('Quote follow-up worker initialized');
+  }
+
+  /**
+   * Process quote follow-up job
+   * Idempotent: each use case skips quotes that moved on since the job was scheduled
+   */
+  private async processFollowUpJob(job: Job<QuoteFollowUpJobData>): Promise<boolean> {
+    const { jobType, quoteId } = job.data;
+
+    try {
+      logger.info(`Processing ${jobType} job for quote: ${quoteId} (Job ID: ${job.id})`);
+
+      switch (jobType) {
+        case 'quote-reminder':
+          return await this.sendQuoteReminderUseCase.execute(quoteId);
+        case 'quote-expired':
+          return await this.sendQuoteExpiredEmailUseCase.execute(quoteId);
+        case 'draft-reminder':
+          return await this.sendDraftQuoteReminderUseCase.execute(quoteId);
+      }
+    } catch (error) {
+      logger.error(
+        `Error processing ${jobType} job for quote ${quoteId} (Job ID: ${job.id}): ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // Re-throw to trigger Bull retry mechanism
+    }
+  }
+}
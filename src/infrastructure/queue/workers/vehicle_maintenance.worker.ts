@@ -0,0 +1,56 @@
+import { Job } from 'bull';
+import { container } from 'tsyringe';
+import { vehicleMaintenanceQueue, VehicleMaintenanceJobData } from '../vehicle_maintenance.queue';
+import { IVehicleMaintenanceService } from '../../../domain/services/vehicle_maintenance_service.interface';
+import { SERVICE_TOKENS } from '../../../application/di/tokens';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Vehicle Maintenance Queue Worker
+ * Switches vehicles to MAINTENANCE when a window starts and closes windows nobody completed by their end
+ */
+export class VehicleMaintenanceWorker {
+  private vehicleMaintenanceService: IVehicleMaintenanceService;
+
+  constructor() {
+    // Resolve service from DI container
+    this.vehicleMaintenanceService = container.resolve<IVehicleMaintenanceService>(
+      SERVICE_TOKENS.IVehicleMaintenanceService
+    );
+  }
+
+  /**
+   * Initialize the worker and set up job processors
+   */
+  initialize(): void {
+    void vehicleMaintenanceQueue.process(async (job: Job<VehicleMaintenanceJobData>) => {
+      return this.processMaintenanceJob(job);
+    });
+
+    logger.info('Vehicle maintenance worker initialized');
+  }
+
+  /**
+   * Process maintenance start/end job
+   * Idempotent: windows that were already started or closed are skipped
+   */
+  private async processMaintenanceJob(job: Job<VehicleMaintenanceJobData>): Promise<boolean> {
+    const { jobType, windowId } = job.data;
+
+    try {
+      logger.info(`Processing ${jobType} job for maintenance window: ${windowId} (Job ID: ${job.id})`);
+
+      const window =
+        jobType === 'maintenance-start'
+          ? await this.vehicleMaintenanceService.startWindow(windowId)
+          : await this.vehicleMaintenanceService.closeWindow(windowId, 'completed');
+
+      return window !== null;
+    } catch (error) {
+      logger.error(
+        `Error processing ${jobType} job for maintenance window ${windowId} (Job ID: ${job.id}): ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // Re-throw to trigger Bull retry mechanism
+    }
+  }
+}
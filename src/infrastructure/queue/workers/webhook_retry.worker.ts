@@ -0,0 +1,52 @@
+import { Job } from 'bull';
+import { container } from 'tsyringe';
+import { webhookRetryQueue, WebhookRetryJobData } from '../webhook_retry.queue';
+import { IProcessWebhookEventUseCase } from '../../../application/use-cases/interface/webhook/process_webhook_event_use_case.interface';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Webhook Retry Queue Worker
+ * Processes stored webhook events again until they succeed or run out of attempts
+ */
+export class WebhookRetryWorker {
+  private processWebhookEventUseCase: IProcessWebhookEventUseCase;
+
+  constructor() {
+    // Resolve use case from DI container
+    this.processWebhookEventUseCase = container.resolve<IProcessWebhookEventUseCase>(
+      USE_CASE_TOKENS.ProcessWebhookEventUseCase
+    );
+  }
+
+  /**
+   * Initialize the worker and set up job processors
+   */
+  initialize(): void {
+    void webhookRetryQueue.process(async (job: Job<WebhookRetryJobData>) => {
+      return this.processWebhookRetryJob(job);
+    });
+
+    logger.info('Webhook retry worker initialized');
+  }
+
+  /**
+   * Process webhook retry job
+   * Idempotent: events that were processed in the meantime are skipped
+   */
+  private async processWebhookRetryJob(job: Job<WebhookRetryJobData>): Promise<boolean> {
+    const { eventId } = job.data;
+
+    try {
+      logger.info(`Processing webhook retry job for event: ${eventId} (Job ID: ${job.id}, attempt ${job.attemptsMade + 1})`);
+
+      const event = await this.processWebhookEventUseCase.execute(eventId);
+      return event?.isProcessed() ?? false;
+    } catch (error) {
+      logger.error(
+        `Error processing webhook retry job for event ${eventId} (Job ID: ${job.id}): ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // Re-throw to trigger Bull retry mechanism
+    }
+  }
+}
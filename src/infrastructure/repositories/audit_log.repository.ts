@@ -0,0 +1,102 @@
+import { injectable } from 'tsyringe';
+import { AuditLogFilter, IAuditLogRepository } from '../../domain/repositories/audit_log_repository.interface';
+import { AuditLog } from '../../domain/entities/audit_log.entity';
+import { IAuditLogModel, createAuditLogModel } from '../database/mongodb/models/audit_log.model';
+import { AuditLogRepositoryMapper } from '../mappers/audit_log_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * AuditLog repository implementation
+ * Handles data persistence operations for AuditLog entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class AuditLogRepositoryImpl
+  extends MongoBaseRepository<IAuditLogModel, AuditLog>
+  implements IAuditLogRepository {
+  private readonly auditLogModel: IDatabaseModel<IAuditLogModel>;
+
+  constructor() {
+    const model = createAuditLogModel();
+    super(model, 'auditLogId');
+    this.auditLogModel = model;
+  }
+
+  protected toEntity(doc: IAuditLogModel): AuditLog {
+    return AuditLogRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: AuditLog): Partial<IAuditLogModel> {
+    return {
+      auditLogId: entity.auditLogId,
+      actorId: entity.actorId,
+      actorEmail: entity.actorEmail,
+      actorRole: entity.actorRole,
+      action: entity.action,
+      targetType: entity.targetType,
+      targetId: entity.targetId,
+      changes: entity.changes,
+      ipAddress: entity.ipAddress,
+      userAgent: entity.userAgent,
+      metadata: entity.metadata,
+      createdAt: entity.createdAt,
+    };
+  }
+
+  async findPage(filter: AuditLogFilter, page: number, limit: number): Promise<{ logs: AuditLog[]; total: number }> {
+    // The log only grows, so page in the database instead of loading every entry
+    const result = await this.auditLogModel.aggregate([
+      { $match: this.toQuery(filter) },
+      { $sort: { createdAt: -1 } },
+      {
+        $facet: {
+          logs: [{ $skip: (page - 1) * limit }, { $limit: limit }],
+          total: [{ $count: 'count' }],
+        },
+      },
+    ]);
+
+    const facet = result[0] as { logs?: IAuditLogModel[]; total?: { count: number }[] } | undefined;
+    return {
+      logs: AuditLogRepositoryMapper.toEntities(facet?.logs ?? []),
+      total: facet?.total?.[0]?.count ?? 0,
+    };
+  }
+
+  async findMany(filter: AuditLogFilter, limit: number): Promise<AuditLog[]> {
+    const docs = (await this.auditLogModel.aggregate([
+      { $match: this.toQuery(filter) },
+      { $sort: { createdAt: -1 } },
+      { $limit: limit },
+    ])) as IAuditLogModel[];
+    return AuditLogRepositoryMapper.toEntities(docs);
+  }
+
+  private toQuery(filter: AuditLogFilter): Record<string, unknown> {
+    const query: Record<string, unknown> = {};
+    if (filter.actorId) {
+      query.actorId = filter.actorId;
+    }
+    if (filter.action) {
+      query.action = filter.action;
+    }
+    if (filter.targetType) {
+      query.targetType = filter.targetType;
+    }
+    if (filter.targetId) {
+      query.targetId = filter.targetId;
+    }
+    if (filter.from || filter.to) {
+      const createdAt: Record<string, Date> = {};
+      if (filter.from) {
+        createdAt.$gte = filter.from;
+      }
+      if (filter.to) {
+        createdAt.$lte = filter.to;
+      }
+      query.createdAt = createdAt;
+    }
+    return query;
+  }
+}
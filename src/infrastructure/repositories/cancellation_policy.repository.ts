@@ -0,0 +1,71 @@
+import { injectable } from 'tsyringe';
+import { ICancellationPolicyRepository } from '../../domain/repositories/cancellation_policy_repository.interface';
+import { CancellationPolicy } from '../../domain/entities/cancellation_policy.entity';
+import {
+  ICancellationPolicyModel,
+  createCancellationPolicyModel,
+} from '../database/mongodb/models/cancellation_policy.model';
+import { CancellationPolicyRepositoryMapper } from '../mappers/cancellation_policy_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * CancellationPolicy repository implementation
+ * Handles data persistence operations for CancellationPolicy entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class CancellationPolicyRepositoryImpl
+  extends MongoBaseRepository<ICancellationPolicyModel, CancellationPolicy>
+  implements ICancellationPolicyRepository {
+  private readonly cancellationPolicyModel: IDatabaseModel<ICancellationPolicyModel>;
+
+  constructor() {
+    const model = createCancellationPolicyModel();
+    super(model, 'cancellationPolicyId');
+    this.cancellationPolicyModel = model;
+  }
+
+  protected toEntity(doc: ICancellationPolicyModel): CancellationPolicy {
+    return CancellationPolicyRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: CancellationPolicy): Partial<ICancellationPolicyModel> {
+    return {
+      cancellationPolicyId: entity.cancellationPolicyId,
+      version: entity.version,
+      tiers: entity.tiers,
+      nonRefundableDepositPercentage: entity.nonRefundableDepositPercentage,
+      amenityRefundMode: entity.amenityRefundMode,
+      chargeRefundMode: entity.chargeRefundMode,
+      isActive: entity.isActive,
+      createdBy: entity.createdBy,
+    };
+  }
+
+  async findActive(): Promise<CancellationPolicy | null> {
+    const doc = await this.cancellationPolicyModel.findOne({ isActive: true });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findAllOrderedByVersion(): Promise<CancellationPolicy[]> {
+    const docs = await this.cancellationPolicyModel.find({}, { sort: { version: -1 } });
+    return CancellationPolicyRepositoryMapper.toEntities(docs);
+  }
+
+  async findLatestVersion(): Promise<number> {
+    const doc = await this.cancellationPolicyModel.findOne({}, { sort: { version: -1 } });
+    return doc ? doc.version : 0;
+  }
+
+  async deactivateAll(): Promise<void> {
+    await this.cancellationPolicyModel.updateMany({}, { $set: { isActive: false } });
+  }
+
+  async activate(cancellationPolicyId: string): Promise<void> {
+    // First deactivate all
+    await this.deactivateAll();
+    // Then activate the specified one
+    await this.cancellationPolicyModel.updateOne({ cancellationPolicyId }, { $set: { isActive: true } });
+  }
+}
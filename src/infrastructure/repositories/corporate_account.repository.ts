@@ -0,0 +1,76 @@
+import { injectable } from 'tsyringe';
+import { ICorporateAccountRepository } from '../../domain/repositories/corporate_account_repository.interface';
+import { CorporateAccount } from '../../domain/entities/corporate_account.entity';
+import {
+  ICorporateAccountModel,
+  createCorporateAccountModel,
+} from '../database/mongodb/models/corporate_account.model';
+import { CorporateAccountRepositoryMapper } from '../mappers/corporate_account_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * CorporateAccount repository implementation
+ * Handles data persistence operations for CorporateAccount entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class CorporateAccountRepositoryImpl
+  extends MongoBaseRepository<ICorporateAccountModel, CorporateAccount>
+  implements ICorporateAccountRepository {
+  private readonly corporateAccountModel: IDatabaseModel<ICorporateAccountModel>;
+
+  constructor() {
+    const model = createCorporateAccountModel();
+    super(model, 'corporateAccountId');
+    this.corporateAccountModel = model;
+  }
+
+  protected toEntity(doc: ICorporateAccountModel): CorporateAccount {
+    return CorporateAccountRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: CorporateAccount): Partial<ICorporateAccountModel> {
+    return {
+      corporateAccountId: entity.corporateAccountId,
+      name: entity.name,
+      billingContact: entity.billingContact,
+      billingAddress: entity.billingAddress,
+      taxId: entity.taxId,
+      creditLimit: entity.creditLimit,
+      currency: entity.currency,
+      paymentTermsDays: entity.paymentTermsDays,
+      approvalThreshold: entity.approvalThreshold,
+      members: entity.members,
+      status: entity.status,
+      createdBy: entity.createdBy,
+    };
+  }
+
+  async findByMemberUserId(userId: string): Promise<CorporateAccount | null> {
+    const doc = await this.corporateAccountModel.findOne({ 'members.userId': userId });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findAll(): Promise<CorporateAccount[]> {
+    const docs = await this.corporateAccountModel.find({}, { sort: { name: 1 } });
+    return CorporateAccountRepositoryMapper.toEntities(docs);
+  }
+
+  async findActive(): Promise<CorporateAccount[]> {
+    const docs = await this.corporateAccountModel.find({ status: 'active' }, { sort: { name: 1 } });
+    return CorporateAccountRepositoryMapper.toEntities(docs);
+  }
+
+  async incrementCreditVersion(corporateAccountId: string, expectedVersion: number): Promise<boolean> {
+    // Accounts created before the version existed have none, which reads as 0
+    const result = await this.corporateAccountModel.updateOne(
+      {
+        corporateAccountId,
+        creditVersion: expectedVersion === 0 ? { $in: [0, null] } : expectedVersion,
+      },
+      { $inc: { creditVersion: 1 } }
+    );
+    return result.matchedCount > 0;
+  }
+}
@@ -0,0 +1,90 @@
+import { injectable } from 'tsyringe';
+import { ICorporateBookingRepository } from '../../domain/repositories/corporate_booking_repository.interface';
+import { CorporateBooking, CorporateBookingStatus } from '../../domain/entities/corporate_booking.entity';
+import {
+  ICorporateBookingModel,
+  createCorporateBookingModel,
+} from '../database/mongodb/models/corporate_booking.model';
+import { CorporateAccountRepositoryMapper } from '../mappers/corporate_account_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * CorporateBooking repository implementation
+ * Handles data persistence operations for CorporateBooking entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class CorporateBookingRepositoryImpl
+  extends MongoBaseRepository<ICorporateBookingModel, CorporateBooking>
+  implements ICorporateBookingRepository {
+  private readonly corporateBookingModel: IDatabaseModel<ICorporateBookingModel>;
+
+  constructor() {
+    const model = createCorporateBookingModel();
+    super(model, 'corporateBookingId');
+    this.corporateBookingModel = model;
+  }
+
+  protected toEntity(doc: ICorporateBookingModel): CorporateBooking {
+    return CorporateAccountRepositoryMapper.toBookingEntity(doc);
+  }
+
+  protected toPersistence(entity: CorporateBooking): Partial<ICorporateBookingModel> {
+    return {
+      corporateBookingId: entity.corporateBookingId,
+      corporateAccountId: entity.corporateAccountId,
+      quoteId: entity.quoteId,
+      requestedBy: entity.requestedBy,
+      amount: entity.amount,
+      currency: entity.currency,
+      status: entity.status,
+      reservationId: entity.reservationId,
+      paymentId: entity.paymentId,
+      bookedAt: entity.bookedAt,
+      invoiceId: entity.invoiceId,
+      reviewedBy: entity.reviewedBy,
+      reviewedAt: entity.reviewedAt,
+      rejectionReason: entity.rejectionReason,
+    };
+  }
+
+  async findOpenByQuoteId(quoteId: string): Promise<CorporateBooking | null> {
+    const doc = await this.corporateBookingModel.findOne({ quoteId, status: { $ne: 'rejected' } });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByReservationId(reservationId: string): Promise<CorporateBooking | null> {
+    const doc = await this.corporateBookingModel.findOne({ reservationId });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findByAccountId(corporateAccountId: string, status?: CorporateBookingStatus): Promise<CorporateBooking[]> {
+    const query: Record<string, unknown> = { corporateAccountId };
+    if (status) {
+      query.status = status;
+    }
+    const docs = await this.corporateBookingModel.find(query, { sort: { createdAt: -1 } });
+    return CorporateAccountRepositoryMapper.toBookingEntities(docs);
+  }
+
+  async findUninvoiced(corporateAccountId: string, bookedBefore: Date): Promise<CorporateBooking[]> {
+    const docs = await this.corporateBookingModel.find(
+      {
+        corporateAccountId,
+        status: 'booked',
+        invoiceId: { $exists: false },
+        bookedAt: { $lt: bookedBefore },
+      },
+      { sort: { bookedAt: 1 } }
+    );
+    return CorporateAccountRepositoryMapper.toBookingEntities(docs);
+  }
+
+  async markInvoiced(corporateBookingIds: string[], invoiceId: string): Promise<void> {
+    await this.corporateBookingModel.updateMany(
+      { corporateBookingId: { $in: corporateBookingIds } },
+      { $set: { invoiceId } }
+    );
+  }
+}
@@ -0,0 +1,83 @@
+import { injectable } from 'tsyringe';
+import { ICorporateInvoiceRepository } from '../../domain/repositories/corporate_invoice_repository.interface';
+import { CorporateInvoice } from '../../domain/entities/corporate_invoice.entity';
+import {
+  ICorporateInvoiceModel,
+  createCorporateInvoiceModel,
+} from '../database/mongodb/models/corporate_invoice.model';
+import { CorporateAccountRepositoryMapper } from '../mappers/corporate_account_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * CorporateInvoice repository implementation
+ * Handles data persistence operations for CorporateInvoice entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class CorporateInvoiceRepositoryImpl
+  extends MongoBaseRepository<ICorporateInvoiceModel, CorporateInvoice>
+  implements ICorporateInvoiceRepository {
+  private readonly corporateInvoiceModel: IDatabaseModel<ICorporateInvoiceModel>;
+
+  constructor() {
+    const model = createCorporateInvoiceModel();
+    super(model, 'invoiceId');
+    this.corporateInvoiceModel = model;
+  }
+
+  protected toEntity(doc: ICorporateInvoiceModel): CorporateInvoice {
+    return CorporateAccountRepositoryMapper.toInvoiceEntity(doc);
+  }
+
+  protected toPersistence(entity: CorporateInvoice): Partial<ICorporateInvoiceModel> {
+    return {
+      invoiceId: entity.invoiceId,
+      invoiceNumber: entity.invoiceNumber,
+      corporateAccountId: entity.corporateAccountId,
+      periodStart: entity.periodStart,
+      periodEnd: entity.periodEnd,
+      lineItems: entity.lineItems,
+      totalAmount: entity.totalAmount,
+      currency: entity.currency,
+      status: entity.status,
+      issuedAt: entity.issuedAt,
+      dueAt: entity.dueAt,
+      paidAt: entity.paidAt,
+      paymentReference: entity.paymentReference,
+    };
+  }
+
+  async findByAccountId(corporateAccountId: string, issuedFrom?: Date, issuedTo?: Date): Promise<CorporateInvoice[]> {
+    const query: Record<string, unknown> = { corporateAccountId };
+    if (issuedFrom || issuedTo) {
+      query.issuedAt = {
+        ...(issuedFrom ? { $gte: issuedFrom } : {}),
+        ...(issuedTo ? { $lte: issuedTo } : {}),
+      };
+    }
+    const docs = await this.corporateInvoiceModel.find(query, { sort: { issuedAt: -1 } });
+    return CorporateAccountRepositoryMapper.toInvoiceEntities(docs);
+  }
+
+  async findByAccountAndPeriod(corporateAccountId: string, periodEnd: Date): Promise<CorporateInvoice | null> {
+    const doc = await this.corporateInvoiceModel.findOne({ corporateAccountId, periodEnd });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findUnpaidByAccountId(corporateAccountId: string): Promise<CorporateInvoice[]> {
+    const docs = await this.corporateInvoiceModel.find(
+      { corporateAccountId, status: { $in: ['issued', 'overdue'] } },
+      { sort: { dueAt: 1 } }
+    );
+    return CorporateAccountRepositoryMapper.toInvoiceEntities(docs);
+  }
+
+  async findIssuedDueBefore(date: Date): Promise<CorporateInvoice[]> {
+    const docs = await this.corporateInvoiceModel.find(
+      { status: 'issued', dueAt: { $lt: date } },
+      { sort: { dueAt: 1 } }
+    );
+    return CorporateAccountRepositoryMapper.toInvoiceEntities(docs);
+  }
+}
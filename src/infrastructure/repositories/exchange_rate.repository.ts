@@ -0,0 +1,52 @@
+import { injectable } from 'tsyringe';
+import { IExchangeRateRepository } from '../../domain/repositories/exchange_rate_repository.interface';
+import { ExchangeRate } from '../../domain/entities/exchange_rate.entity';
+import { IExchangeRateModel, createExchangeRateModel } from '../database/mongodb/models/exchange_rate.model';
+import { ExchangeRateRepositoryMapper } from '../mappers/exchange_rate_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * ExchangeRate repository implementation
+ * Handles data persistence operations for ExchangeRate entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class ExchangeRateRepositoryImpl
+  extends MongoBaseRepository<IExchangeRateModel, ExchangeRate>
+  implements IExchangeRateRepository {
+  private readonly exchangeRateModel: IDatabaseModel<IExchangeRateModel>;
+
+  constructor() {
+    const model = createExchangeRateModel();
+    super(model, 'exchangeRateId');
+    this.exchangeRateModel = model;
+  }
+
+  protected toEntity(doc: IExchangeRateModel): ExchangeRate {
+    return ExchangeRateRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: ExchangeRate): Partial<IExchangeRateModel> {
+    return {
+      exchangeRateId: entity.exchangeRateId,
+      baseCurrency: entity.baseCurrency,
+      currency: entity.currency,
+      rate: entity.rate,
+      updatedBy: entity.updatedBy,
+    };
+  }
+
+  async findByCurrencyPair(baseCurrency: string, currency: string): Promise<ExchangeRate | null> {
+    const doc = await this.exchangeRateModel.findOne({
+      baseCurrency: baseCurrency.toUpperCase(),
+      currency: currency.toUpperCase(),
+    });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findAll(): Promise<ExchangeRate[]> {
+    const docs = await this.exchangeRateModel.find({}, { sort: { baseCurrency: 1, currency: 1 } });
+    return ExchangeRateRepositoryMapper.toEntities(docs);
+  }
+}
@@ -0,0 +1,79 @@
+import { injectable } from 'tsyringe';
+import { IMaintenanceWindowRepository } from '../../domain/repositories/maintenance_window_repository.interface';
+import { MaintenanceWindow } from '../../domain/entities/maintenance_window.entity';
+import {
+  IMaintenanceWindowModel,
+  createMaintenanceWindowModel,
+} from '../database/mongodb/models/maintenance_window.model';
+import { MaintenanceWindowRepositoryMapper } from '../mappers/maintenance_window_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * MaintenanceWindow repository implementation
+ * Handles data persistence operations for MaintenanceWindow entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class MaintenanceWindowRepositoryImpl
+  extends MongoBaseRepository<IMaintenanceWindowModel, MaintenanceWindow>
+  implements IMaintenanceWindowRepository {
+  private readonly maintenanceWindowModel: IDatabaseModel<IMaintenanceWindowModel>;
+
+  constructor() {
+    const model = createMaintenanceWindowModel();
+    super(model, 'windowId');
+    this.maintenanceWindowModel = model;
+  }
+
+  protected toEntity(doc: IMaintenanceWindowModel): MaintenanceWindow {
+    return MaintenanceWindowRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: MaintenanceWindow): Partial<IMaintenanceWindowModel> {
+    return {
+      windowId: entity.windowId,
+      vehicleId: entity.vehicleId,
+      startAt: entity.startAt,
+      endAt: entity.endAt,
+      reason: entity.reason,
+      notes: entity.notes,
+      status: entity.status,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+      cancelledAt: entity.cancelledAt,
+      serviceRecordId: entity.serviceRecordId,
+    };
+  }
+
+  async findByVehicleId(vehicleId: string): Promise<MaintenanceWindow[]> {
+    const docs = await this.maintenanceWindowModel.find({ vehicleId }, { sort: { startAt: -1 } });
+    return MaintenanceWindowRepositoryMapper.toEntities(docs);
+  }
+
+  async findBlockingInDateRange(
+    startDate: Date,
+    endDate: Date,
+    vehicleIds?: string[]
+  ): Promise<MaintenanceWindow[]> {
+    if (vehicleIds && vehicleIds.length === 0) {
+      return [];
+    }
+
+    const docs = await this.maintenanceWindowModel.find(
+      {
+        ...(vehicleIds ? { vehicleId: { $in: vehicleIds } } : {}),
+        status: { $in: ['scheduled', 'in_progress'] },
+        startAt: { $lt: endDate },
+        endAt: { $gt: startDate },
+      },
+      { sort: { startAt: 1 } }
+    );
+    return MaintenanceWindowRepositoryMapper.toEntities(docs);
+  }
+
+  async findVehicleIdsUnderMaintenanceInDateRange(startDate: Date, endDate: Date): Promise<Set<string>> {
+    const windows = await this.findBlockingInDateRange(startDate, endDate);
+    return new Set(windows.map((window) => window.vehicleId));
+  }
+}
@@ -1,6 +1,6 @@
 import { injectable } from 'tsyringe';
 import { INotificationRepository } from '../../domain/repositories/notification_repository.interface';
-import { Notification } from '../../domain/entities/notification.entity';
+import { Notification, INotificationDelivery } from '../../domain/entities/notification.entity';
 import {
   INotificationModel,
   createNotificationModel,
@@ -10,6 +10,9 @@ import { MongoBaseRepository } from './base/mongo_base.repository';
 import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
 import { NotificationType } from '../../shared/constants';
 
+// Latest first; notifications saved before lastNotifiedAt existed lack it and fall back to createdAt order after the rest
+const LATEST_FIRST = { lastNotifiedAt: -1, createdAt: -1 } as const;
+
 /**
  * Notification repository implementation
  * Handles data persistence operations for Notification entity using MongoDB
@@ -40,13 +43,17 @@ export class NotificationRepositoryImpl
       message: entity.message,
       data: entity.data,
       isRead: entity.isRead,
+      deliveries: entity.deliveries,
+      groupKey: entity.groupKey,
+      count: entity.count,
+      lastNotifiedAt: entity.lastNotifiedAt,
     };
   }
 
   async findByUserId(userId: string): Promise<Notification[]> {
     const docs = await this.notificationModel.find(
       { userId },
-      { sort: { createdAt: -1 } }
+      { sort: LATEST_FIRST }
     );
     return NotificationRepositoryMapper.toEntities(docs);
   }
@@ -60,7 +67,7 @@ export class NotificationRepositoryImpl
     // Note: Similar pagination limitation as message repository
     const allDocs = await this.notificationModel.find(
       { userId },
-      { sort: { createdAt: -1 } }
+      { sort: LATEST_FIRST }
     );
     const paginatedDocs = allDocs.slice(skip, skip + limit);
     return NotificationRepositoryMapper.toEntities(paginatedDocs);
@@ -69,7 +76,7 @@ export class NotificationRepositoryImpl
   async findUnreadByUserId(userId: string): Promise<Notification[]> {
     const docs = await this.notificationModel.find(
       { userId, isRead: false },
-      { sort: { createdAt: -1 } }
+      { sort: LATEST_FIRST }
     );
     return NotificationRepositoryMapper.toEntities(docs);
   }
@@ -102,7 +109,7 @@ export class NotificationRepositoryImpl
   ): Promise<Notification[]> {
     const docs = await this.notificationModel.find(
       { userId, type },
-      { sort: { createdAt: -1 } }
+      { sort: LATEST_FIRST }
     );
     return NotificationRepositoryMapper.toEntities(docs);
   }
@@ -118,5 +125,31 @@ export class NotificationRepositoryImpl
       { $set: { isRead: true } }
     );
   }
-}
 
+  async updateDeliveries(notificationId: string, deliveries: INotificationDelivery[]): Promise<void> {
+    await this.notificationModel.updateOne(
+      { notificationId },
+      { $set: { deliveries } }
+    );
+  }
+
+  async rollUpGroup(
+    userId: string,
+    groupKey: string,
+    update: { title: string; message: string; data?: Record<string, unknown> }
+  ): Promise<Notification | null> {
+    const doc = await this.notificationModel.findOneAndUpdate(
+      { userId, groupKey, isRead: false },
+      {
+        $inc: { count: 1 },
+        $set: {
+          title: update.title,
+          message: update.message,
+          data: update.data,
+          lastNotifiedAt: new Date(),
+        },
+      }
+    );
+    return doc ? this.toEntity(doc) : null;
+  }
+}
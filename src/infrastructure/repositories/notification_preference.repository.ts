@@ -0,0 +1,67 @@
+import { injectable } from 'tsyringe';
+import { INotificationPreferenceRepository } from '../../domain/repositories/notification_preference_repository.interface';
+import { NotificationPreference } from '../../domain/entities/notification_preference.entity';
+import {
+  INotificationPreferenceModel,
+  createNotificationPreferenceModel,
+} from '../database/mongodb/models/notification_preference.model';
+import { NotificationPreferenceRepositoryMapper } from '../mappers/notification_preference_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * NotificationPreference repository implementation
+ * Handles data persistence operations for NotificationPreference entity using MongoDB
+ */
+@injectable()
+export class NotificationPreferenceRepositoryImpl
+  extends MongoBaseRepository<INotificationPreferenceModel, NotificationPreference>
+  implements INotificationPreferenceRepository {
+  private readonly preferenceModel: IDatabaseModel<INotificationPreferenceModel>;
+
+  constructor() {
+    const model = createNotificationPreferenceModel();
+    super(model, 'userId');
+    this.preferenceModel = model;
+  }
+
+  protected toEntity(doc: INotificationPreferenceModel): NotificationPreference {
+    return NotificationPreferenceRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: NotificationPreference): Partial<INotificationPreferenceModel> {
+    return {
+      userId: entity.userId,
+      channels: entity.channels,
+      quietHours: entity.quietHours,
+      dailyDigest: entity.dailyDigest,
+    };
+  }
+
+  findByUserId(userId: string): Promise<NotificationPreference | null> {
+    return this.findById(userId);
+  }
+
+  async save(preference: NotificationPreference): Promise<NotificationPreference> {
+    const doc = await this.preferenceModel.findOneAndUpdate(
+      { userId: preference.userId },
+      {
+        $set: {
+          channels: preference.channels,
+          quietHours: preference.quietHours ?? null,
+          dailyDigest: preference.dailyDigest,
+        },
+      },
+      { upsert: true }
+    );
+    if (!doc) {
+      throw new Error(`Failed to save notification preferences for user ${preference.userId}`);
+    }
+    return this.toEntity(doc);
+  }
+
+  async findDailyDigestSubscribers(): Promise<NotificationPreference[]> {
+    const docs = await this.preferenceModel.find({ dailyDigest: true });
+    return docs.map((doc) => this.toEntity(doc));
+  }
+}
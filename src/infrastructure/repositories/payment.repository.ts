@@ -41,6 +41,7 @@ export class PaymentRepositoryImpl
       transactionId: entity.transactionId,
       paidAt: entity.paidAt,
       metadata: entity.metadata,
+      dispute: entity.dispute,
     };
   }
 
@@ -38,6 +38,8 @@ export class PricingConfigRepositoryImpl
       averageDriverPerHourRate: entity.averageDriverPerHourRate,
       taxPercentage: entity.taxPercentage,
       nightChargePerNight: entity.nightChargePerNight,
+      useActualFuelConsumption: entity.useActualFuelConsumption,
+      currency: entity.currency,
       isActive: entity.isActive,
       createdBy: entity.createdBy,
     };
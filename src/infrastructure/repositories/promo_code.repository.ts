@@ -0,0 +1,72 @@
+import { injectable } from 'tsyringe';
+import { ClientSession } from 'mongoose';
+import { IPromoCodeRepository } from '../../domain/repositories/promo_code_repository.interface';
+import { PromoCode } from '../../domain/entities/promo_code.entity';
+import { IPromoCodeModel, createPromoCodeModel } from '../database/mongodb/models/promo_code.model';
+import { PromoCodeRepositoryMapper } from '../mappers/promo_code_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * PromoCode repository implementation
+ * Handles data persistence operations for PromoCode entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class PromoCodeRepositoryImpl
+  extends MongoBaseRepository<IPromoCodeModel, PromoCode>
+  implements IPromoCodeRepository {
+  private readonly promoCodeModel: IDatabaseModel<IPromoCodeModel>;
+
+  constructor() {
+    const model = createPromoCodeModel();
+    super(model, 'promoCodeId');
+    this.promoCodeModel = model;
+  }
+
+  protected toEntity(doc: IPromoCodeModel): PromoCode {
+    return PromoCodeRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: PromoCode): Partial<IPromoCodeModel> {
+    return {
+      promoCodeId: entity.promoCodeId,
+      code: entity.code,
+      description: entity.description,
+      discountType: entity.discountType,
+      discountValue: entity.discountValue,
+      validFrom: entity.validFrom,
+      validUntil: entity.validUntil,
+      maxUses: entity.maxUses,
+      usedCount: entity.usedCount,
+      perUserLimit: entity.perUserLimit,
+      minTripValue: entity.minTripValue,
+      eventTypes: entity.eventTypes,
+      isActive: entity.isActive,
+      createdBy: entity.createdBy,
+    };
+  }
+
+  async findByCode(code: string): Promise<PromoCode | null> {
+    const doc = await this.promoCodeModel.findOne({ code: code.trim().toUpperCase() });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async findAll(): Promise<PromoCode[]> {
+    const docs = await this.promoCodeModel.find({}, { sort: { createdAt: -1 } });
+    return PromoCodeRepositoryMapper.toEntities(docs);
+  }
+
+  async incrementUsedCount(promoCodeId: string, session?: ClientSession): Promise<boolean> {
+    // Only count the use while the code has uses left, so concurrent redemptions can't push it past maxUses
+    const result = await this.promoCodeModel.updateOne(
+      {
+        promoCodeId,
+        $or: [{ maxUses: null }, { $expr: { $lt: ['$usedCount', '$maxUses'] } }],
+      },
+      { $inc: { usedCount: 1 } },
+      session ? { session } : undefined
+    );
+    return result.matchedCount > 0;
+  }
+}
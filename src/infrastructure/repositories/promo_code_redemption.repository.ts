@@ -0,0 +1,55 @@
+import { injectable } from 'tsyringe';
+import { IPromoCodeRedemptionRepository } from '../../domain/repositories/promo_code_redemption_repository.interface';
+import { PromoCodeRedemption } from '../../domain/entities/promo_code_redemption.entity';
+import {
+  IPromoCodeRedemptionModel,
+  createPromoCodeRedemptionModel,
+} from '../database/mongodb/models/promo_code_redemption.model';
+import { PromoCodeRepositoryMapper } from '../mappers/promo_code_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * PromoCodeRedemption repository implementation
+ * Handles data persistence operations for PromoCodeRedemption entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class PromoCodeRedemptionRepositoryImpl
+  extends MongoBaseRepository<IPromoCodeRedemptionModel, PromoCodeRedemption>
+  implements IPromoCodeRedemptionRepository {
+  private readonly redemptionModel: IDatabaseModel<IPromoCodeRedemptionModel>;
+
+  constructor() {
+    const model = createPromoCodeRedemptionModel();
+    super(model, 'redemptionId');
+    this.redemptionModel = model;
+  }
+
+  protected toEntity(doc: IPromoCodeRedemptionModel): PromoCodeRedemption {
+    return PromoCodeRepositoryMapper.toRedemptionEntity(doc);
+  }
+
+  protected toPersistence(entity: PromoCodeRedemption): Partial<IPromoCodeRedemptionModel> {
+    return {
+      redemptionId: entity.redemptionId,
+      promoCodeId: entity.promoCodeId,
+      code: entity.code,
+      userId: entity.userId,
+      quoteId: entity.quoteId,
+      reservationId: entity.reservationId,
+      discountAmount: entity.discountAmount,
+      currency: entity.currency,
+    };
+  }
+
+  async countByPromoCodeAndUser(promoCodeId: string, userId: string): Promise<number> {
+    const docs = await this.redemptionModel.find({ promoCodeId, userId });
+    return docs.length;
+  }
+
+  async findByQuoteId(quoteId: string): Promise<PromoCodeRedemption | null> {
+    const doc = await this.redemptionModel.findOne({ quoteId });
+    return doc ? this.toEntity(doc) : null;
+  }
+}
@@ -18,6 +18,11 @@ import {
 import { QuoteQueryBuilder } from './quote.repository.queries';
 import { QuoteAnalyticsBuilder } from './quote.repository.analytics';
 
+/**
+ * MongoDB duplicate key error code
+ */
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
 /**
  * Quote repository implementation
  * Handles data persistence operations for Quote entity using MongoDB
@@ -60,6 +65,9 @@ export class QuoteRepositoryImpl
       pricingLastUpdatedAt: entity.pricingLastUpdatedAt,
       quotedAt: entity.quotedAt,
       isDeleted: entity.isDeleted,
+      currency: entity.currency,
+      promoCode: entity.promoCode,
+      pricingVersions: entity.pricingVersions,
     };
   }
 
@@ -92,6 +100,28 @@ export class QuoteRepositoryImpl
     await this.quoteModel.updateOne({ quoteId }, { $set: { isDeleted: true } });
   }
 
+  async clearPromoCode(quoteId: string): Promise<void> {
+    await this.quoteModel.updateOne({ quoteId }, { $unset: { promoCode: '' } });
+  }
+
+  async findByRequotedFromQuoteId(quoteId: string): Promise<Quote | null> {
+    const doc = await this.quoteModel.findOne({ requotedFromQuoteId: quoteId, isDeleted: false });
+    return doc ? QuoteRepositoryMapper.toEntity(doc) : null;
+  }
+
+  async createRequote(quote: Quote): Promise<boolean> {
+    try {
+      await this.quoteModel.create(this.toPersistence(quote));
+      return true;
+    } catch (error) {
+      // A concurrent requote of the same quote won the insert
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR_CODE) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
   async findByTripType(tripType: TripType): Promise<Quote[]> {
     const docs = await this.quoteModel.find({ tripType, isDeleted: false });
     return QuoteRepositoryMapper.toEntities(docs);
@@ -75,5 +75,28 @@ export class QuoteItineraryRepositoryImpl
     const docs = await this.itineraryModel.find({ quoteId }, { sort: { stopOrder: 1 } });
     return QuoteItineraryRepositoryMapper.toEntities(docs);
   }
-}
 
+  async findByQuoteIdsOrdered(quoteIds: string[]): Promise<Map<string, QuoteItinerary[]>> {
+    const map = new Map<string, QuoteItinerary[]>();
+    if (!quoteIds || quoteIds.length === 0) {
+      return map;
+    }
+
+    const docs = await this.itineraryModel.find(
+      { quoteId: { $in: quoteIds } },
+      { sort: { quoteId: 1, tripType: 1, stopOrder: 1 } }
+    );
+
+    const entities = QuoteItineraryRepositoryMapper.toEntities(docs);
+    for (const stop of entities) {
+      const existing = map.get(stop.quoteId);
+      if (existing) {
+        existing.push(stop);
+      } else {
+        map.set(stop.quoteId, [stop]);
+      }
+    }
+
+    return map;
+  }
+}
@@ -0,0 +1,33 @@
+import { injectable } from 'tsyringe';
+import { ClientSession } from 'mongoose';
+import { IReferenceSequenceRepository } from '../../domain/repositories/reference_sequence_repository.interface';
+import {
+  IReferenceSequenceModel,
+  createReferenceSequenceModel,
+} from '../database/mongodb/models/reference_sequence.model';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * ReferenceSequence repository implementation
+ * Keeps one counter document per numbering series using MongoDB atomic increments
+ */
+@injectable()
+export class ReferenceSequenceRepositoryImpl implements IReferenceSequenceRepository {
+  private readonly sequenceModel: IDatabaseModel<IReferenceSequenceModel>;
+
+  constructor() {
+    this.sequenceModel = createReferenceSequenceModel();
+  }
+
+  async next(key: string, session?: ClientSession): Promise<number> {
+    const doc = await this.sequenceModel.findOneAndUpdate(
+      { key },
+      { $inc: { value: 1 } },
+      { upsert: true, session }
+    );
+    if (!doc) {
+      throw new Error(`Failed to increment reference sequence ${key}`);
+    }
+    return doc.value;
+  }
+}
@@ -70,6 +70,9 @@ export class ReservationRepositoryImpl
       refundedAt: entity.refundedAt,
       cancellationReason: entity.cancellationReason,
       cancelledAt: entity.cancelledAt,
+      cancellationPolicyId: entity.cancellationPolicyId,
+      cancellationPolicyVersion: entity.cancellationPolicyVersion,
+      paymentSchedule: entity.paymentSchedule,
     };
   }
 
@@ -111,6 +114,14 @@ export class ReservationRepositoryImpl
     return ReservationRepositoryMapper.toEntities(docs);
   }
 
+  async findByIds(reservationIds: string[]): Promise<Reservation[]> {
+    if (!reservationIds || reservationIds.length === 0) {
+      return [];
+    }
+    const docs = await this.reservationModel.find({ reservationId: { $in: reservationIds } });
+    return ReservationRepositoryMapper.toEntities(docs);
+  }
+
   async findByUserIdAndStatus(
     userId: string,
     status: ReservationStatus
@@ -0,0 +1,64 @@
+import { injectable } from 'tsyringe';
+import { ClientSession } from 'mongoose';
+import { IReservationInvoiceRepository } from '../../../domain/repositories/reservation_invoice_repository.interface';
+import { ReservationInvoice } from '../../../domain/entities/reservation_invoice.entity';
+import {
+  IReservationInvoiceModel,
+  createReservationInvoiceModel,
+} from '../../database/mongodb/models/reservation_invoice.model';
+import { ReservationInvoiceRepositoryMapper } from '../../mappers/reservation_invoice_repository.mapper';
+import { MongoBaseRepository } from '../base/mongo_base.repository';
+import { IDatabaseModel } from '../../../domain/services/mongodb_model.interface';
+
+/**
+ * ReservationInvoice repository implementation
+ * Handles data persistence operations for ReservationInvoice entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class ReservationInvoiceRepositoryImpl
+  extends MongoBaseRepository<IReservationInvoiceModel, ReservationInvoice>
+  implements IReservationInvoiceRepository {
+  private readonly invoiceModel: IDatabaseModel<IReservationInvoiceModel>;
+
+  constructor() {
+    const model = createReservationInvoiceModel();
+    super(model, 'invoiceId');
+    this.invoiceModel = model;
+  }
+
+  protected toEntity(doc: IReservationInvoiceModel): ReservationInvoice {
+    return ReservationInvoiceRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: ReservationInvoice): Partial<IReservationInvoiceModel> {
+    return {
+      invoiceId: entity.invoiceId,
+      invoiceNumber: entity.invoiceNumber,
+      documentType: entity.documentType,
+      reservationId: entity.reservationId,
+      userId: entity.userId,
+      paymentId: entity.paymentId,
+      sourceKey: entity.sourceKey,
+      description: entity.description,
+      amount: entity.amount,
+      currency: entity.currency,
+      paymentMethod: entity.paymentMethod,
+      issuedAt: entity.issuedAt,
+      chargeId: entity.chargeId,
+      refundId: entity.refundId,
+      relatedInvoiceId: entity.relatedInvoiceId,
+      reason: entity.reason,
+    };
+  }
+
+  async findByReservationId(reservationId: string): Promise<ReservationInvoice[]> {
+    const docs = await this.invoiceModel.find({ reservationId }, { sort: { issuedAt: 1 } });
+    return ReservationInvoiceRepositoryMapper.toEntities(docs);
+  }
+
+  async findBySourceKey(sourceKey: string, session?: ClientSession): Promise<ReservationInvoice | null> {
+    const doc = await this.invoiceModel.findOne({ sourceKey }, session ? { session } : undefined);
+    return doc ? this.toEntity(doc) : null;
+  }
+}
@@ -1,5 +1,8 @@
 import { injectable } from 'tsyringe';
-import { IReservationItineraryRepository } from '../../../domain/repositories/reservation_itinerary_repository.interface';
+import {
+  IReservationItineraryRepository,
+  TripWindow,
+} from '../../../domain/repositories/reservation_itinerary_repository.interface';
 import { ReservationItinerary } from '../../../domain/entities/reservation_itinerary.entity';
 import {
   IReservationItineraryModel,
@@ -101,5 +104,23 @@ export class ReservationItineraryRepositoryImpl
 
     return map;
   }
-}
 
+  async findTripWindowsInRange(from: Date, to: Date): Promise<Map<string, TripWindow>> {
+    const result = (await this.itineraryModel.aggregate([
+      {
+        $group: {
+          _id: '$reservationId',
+          tripStartAt: { $min: '$arrivalTime' },
+          tripEndAt: { $max: { $ifNull: ['$departureTime', '$arrivalTime'] } },
+        },
+      },
+      { $match: { tripStartAt: { $lte: to }, tripEndAt: { $gte: from } } },
+    ])) as Array<{ _id: string; tripStartAt: Date; tripEndAt: Date }>;
+
+    const map = new Map<string, TripWindow>();
+    for (const row of result) {
+      map.set(row._id, { tripStartAt: row.tripStartAt, tripEndAt: row.tripEndAt });
+    }
+    return map;
+  }
+}
@@ -0,0 +1,48 @@
+import { injectable } from 'tsyringe';
+import { IServiceRecordRepository } from '../../domain/repositories/service_record_repository.interface';
+import { ServiceRecord } from '../../domain/entities/service_record.entity';
+import { IServiceRecordModel, createServiceRecordModel } from '../database/mongodb/models/service_record.model';
+import { ServiceRecordRepositoryMapper } from '../mappers/service_record_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * ServiceRecord repository implementation
+ * Handles data persistence operations for ServiceRecord entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class ServiceRecordRepositoryImpl
+  extends MongoBaseRepository<IServiceRecordModel, ServiceRecord>
+  implements IServiceRecordRepository {
+  private readonly serviceRecordModel: IDatabaseModel<IServiceRecordModel>;
+
+  constructor() {
+    const model = createServiceRecordModel();
+    super(model, 'recordId');
+    this.serviceRecordModel = model;
+  }
+
+  protected toEntity(doc: IServiceRecordModel): ServiceRecord {
+    return ServiceRecordRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: ServiceRecord): Partial<IServiceRecordModel> {
+    return {
+      recordId: entity.recordId,
+      vehicleId: entity.vehicleId,
+      serviceType: entity.serviceType,
+      servicedAt: entity.servicedAt,
+      odometerReading: entity.odometerReading,
+      cost: entity.cost,
+      vendor: entity.vendor,
+      notes: entity.notes,
+      windowId: entity.windowId,
+    };
+  }
+
+  async findByVehicleId(vehicleId: string): Promise<ServiceRecord[]> {
+    const docs = await this.serviceRecordModel.find({ vehicleId }, { sort: { servicedAt: -1 } });
+    return ServiceRecordRepositoryMapper.toEntities(docs);
+  }
+}
@@ -0,0 +1,97 @@
+import { injectable } from 'tsyringe';
+import { ISessionRepository, SessionActivity } from '../../domain/repositories/session_repository.interface';
+import { Session } from '../../domain/entities/session.entity';
+import { ISessionModel, createSessionModel } from '../database/mongodb/models/session.model';
+import { SessionRepositoryMapper } from '../mappers/session_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+import { SessionRevokeReason } from '../../shared/constants';
+
+/**
+ * Session repository implementation
+ * Handles data persistence operations for Session entity using MongoDB
+ */
+@injectable()
+export class SessionRepositoryImpl
+  extends MongoBaseRepository<ISessionModel, Session>
+  implements ISessionRepository {
+  private readonly sessionModel: IDatabaseModel<ISessionModel>;
+
+  constructor() {
+    const model = createSessionModel();
+    super(model, 'sessionId');
+    this.sessionModel = model;
+  }
+
+  protected toEntity(doc: ISessionModel): Session {
+    return SessionRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: Session): Partial<ISessionModel> {
+    return {
+      sessionId: entity.sessionId,
+      userId: entity.userId,
+      role: entity.role,
+      refreshTokenId: entity.refreshTokenId,
+      deviceName: entity.deviceName,
+      ipAddress: entity.ipAddress ?? undefined,
+      userAgent: entity.userAgent ?? undefined,
+      lastSeenAt: entity.lastSeenAt,
+      expiresAt: entity.expiresAt,
+      revokedAt: entity.revokedAt ?? undefined,
+      revokedReason: entity.revokedReason ?? undefined,
+    };
+  }
+
+  async findActiveByUserId(userId: string): Promise<Session[]> {
+    const docs = await this.sessionModel.find(
+      { userId, revokedAt: null, expiresAt: { $gt: new Date() } },
+      { sort: { lastSeenAt: -1 } }
+    );
+    return SessionRepositoryMapper.toEntities(docs);
+  }
+
+  async rotate(sessionId: string, currentTokenId: string, activity: SessionActivity): Promise<boolean> {
+    // Matching on the current token id makes concurrent rotations with the same token fail, not both succeed
+    const result = await this.sessionModel.updateOne(
+      { sessionId, refreshTokenId: currentTokenId, revokedAt: null },
+      {
+        $set: {
+          refreshTokenId: activity.refreshTokenId,
+          ipAddress: activity.ipAddress ?? undefined,
+          userAgent: activity.userAgent ?? undefined,
+          deviceName: activity.deviceName,
+          lastSeenAt: activity.lastSeenAt,
+          expiresAt: activity.expiresAt,
+        },
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async revoke(sessionId: string, reason: SessionRevokeReason): Promise<boolean> {
+    const result = await this.sessionModel.updateOne(
+      { sessionId, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async revokeAllForUser(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<Session[]> {
+    const filter: Record<string, unknown> = { userId, revokedAt: null, expiresAt: { $gt: new Date() } };
+    if (exceptSessionId) {
+      filter.sessionId = { $ne: exceptSessionId };
+    }
+
+    const docs = await this.sessionModel.find(filter);
+    if (docs.length === 0) {
+      return [];
+    }
+
+    await this.sessionModel.updateMany(
+      { sessionId: { $in: docs.map((doc) => doc.sessionId) }, revokedAt: null },
+      { $set: { revokedAt: new Date(), revokedReason: reason } }
+    );
+    return SessionRepositoryMapper.toEntities(docs);
+  }
+}
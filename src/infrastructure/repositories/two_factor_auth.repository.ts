@@ -0,0 +1,80 @@
+import { injectable } from 'tsyringe';
+import { ITwoFactorAuthRepository } from '../../domain/repositories/two_factor_auth_repository.interface';
+import { TwoFactorAuth } from '../../domain/entities/two_factor_auth.entity';
+import { ITwoFactorAuthModel, createTwoFactorAuthModel } from '../database/mongodb/models/two_factor_auth.model';
+import { TwoFactorAuthRepositoryMapper } from '../mappers/two_factor_auth_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * TwoFactorAuth repository implementation
+ * Handles data persistence operations for TwoFactorAuth entity using MongoDB
+ */
+@injectable()
+export class TwoFactorAuthRepositoryImpl
+  extends MongoBaseRepository<ITwoFactorAuthModel, TwoFactorAuth>
+  implements ITwoFactorAuthRepository {
+  private readonly twoFactorAuthModel: IDatabaseModel<ITwoFactorAuthModel>;
+
+  constructor() {
+    const model = createTwoFactorAuthModel();
+    super(model, 'userId');
+    this.twoFactorAuthModel = model;
+  }
+
+  protected toEntity(doc: ITwoFactorAuthModel): TwoFactorAuth {
+    return TwoFactorAuthRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: TwoFactorAuth): Partial<ITwoFactorAuthModel> {
+    return {
+      userId: entity.userId,
+      secret: entity.secret,
+      enabled: entity.enabled,
+      recoveryCodeHashes: entity.recoveryCodeHashes,
+      enabledAt: entity.enabledAt,
+      lastUsedStep: entity.lastUsedStep,
+    };
+  }
+
+  findByUserId(userId: string): Promise<TwoFactorAuth | null> {
+    return this.findById(userId);
+  }
+
+  async save(twoFactorAuth: TwoFactorAuth): Promise<TwoFactorAuth> {
+    const doc = await this.twoFactorAuthModel.findOneAndUpdate(
+      { userId: twoFactorAuth.userId },
+      {
+        $set: {
+          secret: twoFactorAuth.secret,
+          enabled: twoFactorAuth.enabled,
+          recoveryCodeHashes: twoFactorAuth.recoveryCodeHashes,
+          enabledAt: twoFactorAuth.enabledAt ?? null,
+        },
+        // Never move the last used step back, or a code accepted since the entity was read could be replayed
+        ...(twoFactorAuth.lastUsedStep !== undefined && { $max: { lastUsedStep: twoFactorAuth.lastUsedStep } }),
+      },
+      { upsert: true }
+    );
+    if (!doc) {
+      throw new Error(`Failed to save two-factor settings for user ${twoFactorAuth.userId}`);
+    }
+    return this.toEntity(doc);
+  }
+
+  async markStepUsed(userId: string, step: number): Promise<boolean> {
+    const result = await this.twoFactorAuthModel.updateOne(
+      { userId, $or: [{ lastUsedStep: null }, { lastUsedStep: { $lt: step } }] },
+      { $set: { lastUsedStep: step } }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async consumeRecoveryCode(userId: string, codeHash: string): Promise<boolean> {
+    const result = await this.twoFactorAuthModel.updateOne(
+      { userId, recoveryCodeHashes: codeHash },
+      { $pull: { recoveryCodeHashes: codeHash } }
+    );
+    return result.matchedCount > 0;
+  }
+}
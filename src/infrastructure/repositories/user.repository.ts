@@ -5,7 +5,7 @@ import { IUserModel, createUserModel } from '../database/mongodb/models/user.mod
 import { UserRepositoryMapper } from '../mappers/user_repository.mapper';
 import { MongoBaseRepository } from './base/mongo_base.repository';
 import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
-import { UserRole, UserStatus } from '../../shared/constants';
+import { AdminRole, UserRole, UserStatus } from '../../shared/constants';
 
 /**
  * User repository implementation
@@ -38,6 +38,7 @@ export class UserRepositoryImpl
       phoneNumber: entity.phoneNumber,
       googleId: entity.googleId,
       role: entity.role,
+      adminRole: entity.adminRole,
       status: entity.status,
       profilePicture: entity.profilePicture,
       isVerified: entity.isVerified,
@@ -159,7 +160,7 @@ export class UserRepositoryImpl
     return this.toEntity(updatedDoc);
   }
 
-  async updateUserProfile(userId: string, updates: { fullName?: string; phoneNumber?: string; profilePicture?: string }): Promise<User> {
+  async updateUserProfile(userId: string, updates: { fullName?: string; phoneNumber?: string; profilePicture?: string; quoteFollowUpEmails?: boolean }): Promise<User> {
     const updateData: Partial<IUserModel> = {};
     
     if (updates.fullName !== undefined) {
@@ -171,6 +172,9 @@ export class UserRepositoryImpl
     if (updates.profilePicture !== undefined) {
       updateData.profilePicture = updates.profilePicture;
     }
+    if (updates.quoteFollowUpEmails !== undefined) {
+      updateData.quoteFollowUpEmails = updates.quoteFollowUpEmails;
+    }
 
     // Add updatedAt timestamp
     updateData.updatedAt = new Date();
@@ -311,10 +315,10 @@ export class UserRepositoryImpl
     return this.toEntity(updatedDoc);
   }
 
-  async updateUserRole(userId: string, role: UserRole): Promise<User> {
+  async updateUserRole(userId: string, role: UserRole, adminRole?: AdminRole): Promise<User> {
     const result = await this.userModel.updateOne(
       { userId },
-      { $set: { role } }
+      adminRole ? { $set: { role, adminRole } } : { $set: { role }, $unset: { adminRole: '' } }
     );
 
     if (result.matchedCount === 0) {
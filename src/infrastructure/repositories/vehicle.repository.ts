@@ -45,6 +45,12 @@ export class VehicleRepositoryImpl
       imageUrls: entity.imageUrls,
       status: entity.status,
       amenityIds: entity.amenityIds && entity.amenityIds.length > 0 ? entity.amenityIds : [],
+      odometerReading: entity.odometerReading,
+      serviceIntervalKm: entity.serviceIntervalKm,
+      serviceIntervalDays: entity.serviceIntervalDays,
+      lastServiceOdometer: entity.lastServiceOdometer,
+      lastServicedAt: entity.lastServicedAt,
+      averageFuelConsumption: entity.averageFuelConsumption,
     };
   }
 
@@ -0,0 +1,127 @@
+import { injectable } from 'tsyringe';
+import { IVehicleHoldRepository } from '../../domain/repositories/vehicle_hold_repository.interface';
+import { VehicleHold } from '../../domain/entities/vehicle_hold.entity';
+import { IVehicleHoldModel, createVehicleHoldModel } from '../database/mongodb/models/vehicle_hold.model';
+import { VehicleHoldRepositoryMapper } from '../mappers/vehicle_hold_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * VehicleHold repository implementation
+ * Handles data persistence operations for VehicleHold entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class VehicleHoldRepositoryImpl
+  extends MongoBaseRepository<IVehicleHoldModel, VehicleHold>
+  implements IVehicleHoldRepository {
+  private readonly vehicleHoldModel: IDatabaseModel<IVehicleHoldModel>;
+
+  constructor() {
+    const model = createVehicleHoldModel();
+    super(model, 'holdId');
+    this.vehicleHoldModel = model;
+  }
+
+  protected toEntity(doc: IVehicleHoldModel): VehicleHold {
+    return VehicleHoldRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: VehicleHold): Partial<IVehicleHoldModel> {
+    return {
+      holdId: entity.holdId,
+      vehicleId: entity.vehicleId,
+      quoteId: entity.quoteId,
+      reservationId: entity.reservationId,
+      startAt: entity.startAt,
+      endAt: entity.endAt,
+      status: entity.status,
+      heldAt: entity.heldAt,
+      expiresAt: entity.expiresAt,
+      confirmedAt: entity.confirmedAt,
+      releasedAt: entity.releasedAt,
+    };
+  }
+
+  async findActiveOverlapping(
+    startAt: Date,
+    endAt: Date,
+    now: Date,
+    vehicleIds?: string[]
+  ): Promise<VehicleHold[]> {
+    if (vehicleIds && vehicleIds.length === 0) {
+      return [];
+    }
+
+    const docs = await this.vehicleHoldModel.find({
+      ...(vehicleIds ? { vehicleId: { $in: vehicleIds } } : {}),
+      startAt: { $lt: endAt },
+      endAt: { $gt: startAt },
+      ...this.activeFilter(now),
+    });
+    return VehicleHoldRepositoryMapper.toEntities(docs);
+  }
+
+  async findActiveByQuoteId(quoteId: string, now: Date): Promise<VehicleHold[]> {
+    const docs = await this.vehicleHoldModel.find({
+      quoteId,
+      ...this.activeFilter(now),
+    });
+    return VehicleHoldRepositoryMapper.toEntities(docs);
+  }
+
+  async findConfirmedByReservationId(reservationId: string): Promise<VehicleHold[]> {
+    const docs = await this.vehicleHoldModel.find({ reservationId, status: 'confirmed' });
+    return VehicleHoldRepositoryMapper.toEntities(docs);
+  }
+
+  async confirmByIds(holdIds: string[], reservationId: string, confirmedAt: Date): Promise<void> {
+    if (holdIds.length === 0) {
+      return;
+    }
+    await this.vehicleHoldModel.updateMany(
+      {
+        holdId: { $in: holdIds },
+        status: 'held',
+        $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: confirmedAt } }],
+      },
+      { $set: { status: 'confirmed', reservationId, confirmedAt }, $unset: { expiresAt: '' } }
+    );
+  }
+
+  async releaseByIds(holdIds: string[], releasedAt: Date): Promise<void> {
+    if (holdIds.length === 0) {
+      return;
+    }
+    await this.vehicleHoldModel.updateMany(
+      { holdId: { $in: holdIds }, status: { $ne: 'released' } },
+      { $set: { status: 'released', releasedAt } }
+    );
+  }
+
+  async releaseHeldByQuoteId(quoteId: string, releasedAt: Date): Promise<void> {
+    await this.vehicleHoldModel.updateMany(
+      { quoteId, status: 'held' },
+      { $set: { status: 'released', releasedAt } }
+    );
+  }
+
+  async releaseByReservationId(reservationId: string, releasedAt: Date): Promise<void> {
+    await this.vehicleHoldModel.updateMany(
+      { reservationId, status: 'confirmed' },
+      { $set: { status: 'released', releasedAt } }
+    );
+  }
+
+  /**
+   * Filter matching holds that still block their vehicle
+   */
+  private activeFilter(now: Date): Record<string, unknown> {
+    return {
+      $or: [
+        { status: 'confirmed' },
+        { status: 'held', $or: [{ expiresAt: { $exists: false } }, { expiresAt: { $gt: now } }] },
+      ],
+    };
+  }
+}
@@ -0,0 +1,67 @@
+import { injectable } from 'tsyringe';
+import { IVehicleTripLogRepository } from '../../domain/repositories/vehicle_trip_log_repository.interface';
+import { VehicleTripLog } from '../../domain/entities/vehicle_trip_log.entity';
+import { IVehicleTripLogModel, createVehicleTripLogModel } from '../database/mongodb/models/vehicle_trip_log.model';
+import { VehicleTripLogRepositoryMapper } from '../mappers/vehicle_trip_log_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * VehicleTripLog repository implementation
+ * Handles data persistence operations for VehicleTripLog entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class VehicleTripLogRepositoryImpl
+  extends MongoBaseRepository<IVehicleTripLogModel, VehicleTripLog>
+  implements IVehicleTripLogRepository {
+  private readonly vehicleTripLogModel: IDatabaseModel<IVehicleTripLogModel>;
+
+  constructor() {
+    const model = createVehicleTripLogModel();
+    super(model, 'logId');
+    this.vehicleTripLogModel = model;
+  }
+
+  protected toEntity(doc: IVehicleTripLogModel): VehicleTripLog {
+    return VehicleTripLogRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: VehicleTripLog): Partial<IVehicleTripLogModel> {
+    return {
+      logId: entity.logId,
+      reservationId: entity.reservationId,
+      vehicleId: entity.vehicleId,
+      driverId: entity.driverId,
+      startOdometer: entity.startOdometer,
+      endOdometer: entity.endOdometer,
+      estimatedDistanceKm: entity.estimatedDistanceKm,
+      estimatedKmPerLitre: entity.estimatedKmPerLitre,
+      fuelFills: entity.fuelFills,
+      startedAt: entity.startedAt,
+      completedAt: entity.completedAt,
+    };
+  }
+
+  async findByReservationId(reservationId: string): Promise<VehicleTripLog[]> {
+    const docs = await this.vehicleTripLogModel.find({ reservationId }, { sort: { startedAt: 1 } });
+    return VehicleTripLogRepositoryMapper.toEntities(docs);
+  }
+
+  async findCompletedByVehicleId(vehicleId: string, limit?: number): Promise<VehicleTripLog[]> {
+    const docs = await this.vehicleTripLogModel.find(
+      { vehicleId, completedAt: { $exists: true } },
+      { sort: { completedAt: -1 } }
+    );
+    const logs = VehicleTripLogRepositoryMapper.toEntities(docs);
+    return limit !== undefined ? logs.slice(0, limit) : logs;
+  }
+
+  async findCompletedInDateRange(startDate: Date, endDate: Date): Promise<VehicleTripLog[]> {
+    const docs = await this.vehicleTripLogModel.find(
+      { completedAt: { $gte: startDate, $lte: endDate } },
+      { sort: { completedAt: -1 } }
+    );
+    return VehicleTripLogRepositoryMapper.toEntities(docs);
+  }
+}
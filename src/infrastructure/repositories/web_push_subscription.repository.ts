@@ -0,0 +1,64 @@
+import { injectable } from 'tsyringe';
+import { IWebPushSubscriptionRepository } from '../../domain/repositories/web_push_subscription_repository.interface';
+import { WebPushSubscription } from '../../domain/entities/web_push_subscription.entity';
+import {
+  IWebPushSubscriptionModel,
+  createWebPushSubscriptionModel,
+} from '../database/mongodb/models/web_push_subscription.model';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * WebPushSubscription repository implementation
+ * Handles data persistence operations for WebPushSubscription entity using MongoDB
+ */
+@injectable()
+export class WebPushSubscriptionRepositoryImpl
+  extends MongoBaseRepository<IWebPushSubscriptionModel, WebPushSubscription>
+  implements IWebPushSubscriptionRepository {
+  private readonly subscriptionModel: IDatabaseModel<IWebPushSubscriptionModel>;
+
+  constructor() {
+    const model = createWebPushSubscriptionModel();
+    super(model, 'subscriptionId');
+    this.subscriptionModel = model;
+  }
+
+  protected toEntity(doc: IWebPushSubscriptionModel): WebPushSubscription {
+    return new WebPushSubscription(
+      doc.subscriptionId,
+      doc.userId,
+      doc.endpoint,
+      doc.p256dh,
+      doc.auth,
+      doc.userAgent || null,
+      doc.createdAt,
+      doc.updatedAt
+    );
+  }
+
+  protected toPersistence(entity: WebPushSubscription): Partial<IWebPushSubscriptionModel> {
+    return {
+      subscriptionId: entity.subscriptionId,
+      userId: entity.userId,
+      endpoint: entity.endpoint,
+      p256dh: entity.p256dh,
+      auth: entity.auth,
+      userAgent: entity.userAgent || undefined,
+    };
+  }
+
+  async findByUserId(userId: string): Promise<WebPushSubscription[]> {
+    const docs = await this.subscriptionModel.find({ userId });
+    return docs.map((doc) => this.toEntity(doc));
+  }
+
+  async findByEndpoint(endpoint: string): Promise<WebPushSubscription | null> {
+    const doc = await this.subscriptionModel.findOne({ endpoint });
+    return doc ? this.toEntity(doc) : null;
+  }
+
+  async deleteByEndpoint(endpoint: string): Promise<void> {
+    await this.subscriptionModel.deleteOne({ endpoint });
+  }
+}
@@ -0,0 +1,118 @@
+import { injectable } from 'tsyringe';
+import { IWebhookEventRepository } from '../../domain/repositories/webhook_event_repository.interface';
+import {
+  WebhookEvent,
+  WebhookEventStatus,
+  WEBHOOK_PROCESSING_TIMEOUT_MS,
+} from '../../domain/entities/webhook_event.entity';
+import { IWebhookEventModel, createWebhookEventModel } from '../database/mongodb/models/webhook_event.model';
+import { WebhookEventRepositoryMapper } from '../mappers/webhook_event_repository.mapper';
+import { MongoBaseRepository } from './base/mongo_base.repository';
+import { IDatabaseModel } from '../../domain/services/mongodb_model.interface';
+
+/**
+ * MongoDB duplicate key error code
+ */
+const DUPLICATE_KEY_ERROR_CODE = 11000;
+
+/**
+ * WebhookEvent repository implementation
+ * Handles data persistence operations for WebhookEvent entity using MongoDB
+ * Depends on IDatabaseModel interface for abstraction (DIP)
+ */
+@injectable()
+export class WebhookEventRepositoryImpl
+  extends MongoBaseRepository<IWebhookEventModel, WebhookEvent>
+  implements IWebhookEventRepository {
+  private readonly webhookEventModel: IDatabaseModel<IWebhookEventModel>;
+
+  constructor() {
+    const model = createWebhookEventModel();
+    super(model, 'eventId');
+    this.webhookEventModel = model;
+  }
+
+  protected toEntity(doc: IWebhookEventModel): WebhookEvent {
+    return WebhookEventRepositoryMapper.toEntity(doc);
+  }
+
+  protected toPersistence(entity: WebhookEvent): Partial<IWebhookEventModel> {
+    return {
+      eventId: entity.eventId,
+      provider: entity.provider,
+      type: entity.type,
+      payload: entity.payload,
+      status: entity.status,
+      attempts: entity.attempts,
+      receivedAt: entity.receivedAt,
+      lastAttemptAt: entity.lastAttemptAt,
+      processedAt: entity.processedAt,
+      lastError: entity.lastError,
+    };
+  }
+
+  async createIfAbsent(event: WebhookEvent): Promise<boolean> {
+    const existing = await this.webhookEventModel.findOne({ eventId: event.eventId });
+    if (existing) {
+      return false;
+    }
+
+    try {
+      await this.webhookEventModel.create(this.toPersistence(event));
+      return true;
+    } catch (error) {
+      // A concurrent delivery of the same event won the insert
+      if ((error as { code?: number }).code === DUPLICATE_KEY_ERROR_CODE) {
+        return false;
+      }
+      throw error;
+    }
+  }
+
+  async claimForProcessing(eventId: string, statuses: WebhookEventStatus[], now: Date): Promise<boolean> {
+    const staleBefore = new Date(now.getTime() - WEBHOOK_PROCESSING_TIMEOUT_MS);
+    const result = await this.webhookEventModel.updateOne(
+      {
+        eventId,
+        $or: [
+          { status: { $in: statuses } },
+          { status: 'processing', lastAttemptAt: { $lt: staleBefore } },
+        ],
+      },
+      {
+        $set: { status: 'processing', lastAttemptAt: now },
+        $inc: { attempts: 1 },
+      }
+    );
+    return result.matchedCount > 0;
+  }
+
+  async markProcessed(eventId: string, processedAt: Date): Promise<void> {
+    await this.webhookEventModel.updateOne(
+      { eventId },
+      {
+        $set: { status: 'processed', processedAt },
+        $unset: { lastError: '' },
+      }
+    );
+  }
+
+  async markFailed(eventId: string, error: string): Promise<void> {
+    await this.webhookEventModel.updateOne(
+      { eventId },
+      { $set: { status: 'failed', lastError: error } }
+    );
+  }
+
+  async findAll(filter: { status?: WebhookEventStatus; type?: string } = {}): Promise<WebhookEvent[]> {
+    const query: Record<string, unknown> = {};
+    if (filter.status) {
+      query.status = filter.status;
+    }
+    if (filter.type) {
+      query.type = filter.type;
+    }
+    const docs = await this.webhookEventModel.find(query, { sort: { receivedAt: -1 } });
+    return WebhookEventRepositoryMapper.toEntities(docs);
+  }
+}
@@ -0,0 +1,111 @@
+import { injectable, inject } from 'tsyringe';
+import {
+  IAccountLockout,
+  IAccountLockoutService,
+  LockableAccountType,
+} from '../../domain/services/account_lockout_service.interface';
+import { IRateLimiterService } from '../../domain/services/rate_limiter_service.interface';
+import { IRedisConnection } from '../../domain/services/redis_connection.interface';
+import { LOGIN_PROTECTION_KEYS } from '../../shared/constants';
+import { LOGIN_PROTECTION_CONFIG } from '../../shared/config';
+import { CONFIG_TOKENS, SERVICE_TOKENS } from '../di/tokens';
+import { logger } from '../../shared/logger';
+
+/**
+ * Account lockout service implementation
+ * Failed logins are counted in a sliding window; reaching the limit locks the account
+ * for a duration that grows with each lockout within a day
+ * Redis errors are logged and treated as "not locked" so an outage does not lock everyone out
+ */
+@injectable()
+export class AccountLockoutServiceImpl implements IAccountLockoutService {
+  constructor(
+    @inject(CONFIG_TOKENS.RedisConnection)
+    private readonly redisConnection: IRedisConnection,
+    @inject(SERVICE_TOKENS.IRateLimiterService)
+    private readonly rateLimiterService: IRateLimiterService
+  ) {}
+
+  async getLockout(accountType: LockableAccountType, email: string): Promise<IAccountLockout | null> {
+    try {
+      const stored = await this.redisConnection.get(this.lockKey(accountType, email));
+      if (!stored) {
+        return null;
+      }
+      const { lockedUntil, level } = JSON.parse(stored) as { lockedUntil: string; level: number };
+      return { lockedUntil: new Date(lockedUntil), level };
+    } catch (error) {
+      logger.error(`Error reading lockout of ${accountType} ${email}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  async recordFailure(accountType: LockableAccountType, email: string): Promise<IAccountLockout | null> {
+    try {
+      const failures = await this.rateLimiterService.hit(
+        this.failuresKey(accountType, email),
+        LOGIN_PROTECTION_CONFIG.ACCOUNT_MAX_FAILURES,
+        LOGIN_PROTECTION_CONFIG.ACCOUNT_WINDOW_SECONDS
+      );
+      if (failures.allowed && failures.remaining > 0) {
+        return null;
+      }
+
+      const levelKey = this.levelKey(accountType, email);
+      const level = await this.redisConnection.incr(levelKey);
+      await this.redisConnection.expire(levelKey, LOGIN_PROTECTION_CONFIG.LOCKOUT_LEVEL_RESET_SECONDS);
+
+      const durations = LOGIN_PROTECTION_CONFIG.LOCKOUT_DURATIONS_SECONDS;
+      const durationSeconds = durations[Math.min(level, durations.length) - 1];
+      const lockout: IAccountLockout = { lockedUntil: new Date(Date.now() + durationSeconds * 1000), level };
+
+      await this.redisConnection.setex(
+        this.lockKey(accountType, email),
+        durationSeconds,
+        JSON.stringify({ lockedUntil: lockout.lockedUntil.toISOString(), level })
+      );
+      // The next lockout needs a full set of new failures once this one ends
+      await this.rateLimiterService.reset(this.failuresKey(accountType, email));
+
+      logger.warn(`Locked ${accountType} ${email} until ${lockout.lockedUntil.toISOString()} (lockout ${level})`);
+      return lockout;
+    } catch (error) {
+      logger.error(`Error recording failed login of ${accountType} ${email}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return null;
+    }
+  }
+
+  async recordSuccess(accountType: LockableAccountType, email: string): Promise<void> {
+    try {
+      await this.rateLimiterService.reset(this.failuresKey(accountType, email));
+    } catch (error) {
+      logger.error(`Error clearing failed logins of ${accountType} ${email}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  }
+
+  async unlock(accountType: LockableAccountType, email: string): Promise<boolean> {
+    const wasLocked = (await this.redisConnection.get(this.lockKey(accountType, email))) !== null;
+
+    await this.redisConnection.del(this.lockKey(accountType, email));
+    await this.redisConnection.del(this.levelKey(accountType, email));
+    await this.rateLimiterService.reset(this.failuresKey(accountType, email));
+
+    return wasLocked;
+  }
+
+  private lockKey(accountType: LockableAccountType, email: string): string {
+    return `${LOGIN_PROTECTION_KEYS.LOCK_PREFIX}${accountType}:${this.normalize(email)}`;
+  }
+
+  private levelKey(accountType: LockableAccountType, email: string): string {
+    return `${LOGIN_PROTECTION_KEYS.LOCK_LEVEL_PREFIX}${accountType}:${this.normalize(email)}`;
+  }
+
+  private failuresKey(accountType: LockableAccountType, email: string): string {
+    return `${LOGIN_PROTECTION_KEYS.FAILURES_PREFIX}${accountType}:${this.normalize(email)}`;
+  }
+
+  private normalize(email: string): string {
+    return email.trim().toLowerCase();
+  }
+}
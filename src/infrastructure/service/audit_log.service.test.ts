@@ -0,0 +1,75 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { AuditLogServiceImpl } from './audit_log.service';
+import { AuditLog, AUDIT_SYSTEM_ACTOR } from '../../domain/entities/audit_log.entity';
+import { IAuditLogRepository } from '../../domain/repositories/audit_log_repository.interface';
+import { runWithRequestContext } from '../../shared/utils/request_context.util';
+import { createUserFixture } from '../../shared/test/fixtures/user.fixture';
+import { AuditAction, AuditTargetType, UserRole, UserStatus } from '../../shared/constants';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('AuditLogServiceImpl', () => {
+  let service: AuditLogServiceImpl;
+  let create: ReturnType<typeof vi.fn>;
+
+  const createdAt = new Date('2030-01-01');
+  const blockUser = () =>
+    service.record({
+      action: AuditAction.USER_STATUS_CHANGE,
+      targetType: AuditTargetType.USER,
+      targetId: 'user-1',
+      before: createUserFixture({ userId: 'user-1', status: UserStatus.ACTIVE, createdAt, updatedAt: createdAt }),
+      after: createUserFixture({ userId: 'user-1', status: UserStatus.BLOCKED, createdAt, updatedAt: new Date() }),
+    });
+
+  beforeEach(() => {
+    create = vi.fn().mockResolvedValue(undefined);
+    service = new AuditLogServiceImpl({ create } as unknown as IAuditLogRepository);
+  });
+
+  it('should store only the changed fields with the actor of the current request', async () => {
+    await runWithRequestContext(
+      { actorId: 'admin-1', actorEmail: 'admin@example.com', actorRole: UserRole.ADMIN, ipAddress: '10.0.0.1' },
+      blockUser
+    );
+
+    const auditLog = create.mock.calls[0][0] as AuditLog;
+    expect(auditLog.actorId).toBe('admin-1');
+    expect(auditLog.actorEmail).toBe('admin@example.com');
+    expect(auditLog.ipAddress).toBe('10.0.0.1');
+    expect(auditLog.changes).toEqual([{ field: 'status', before: UserStatus.ACTIVE, after: UserStatus.BLOCKED }]);
+  });
+
+  it('should attribute actions outside a request to the system', async () => {
+    await blockUser();
+
+    const auditLog = create.mock.calls[0][0] as AuditLog;
+    expect(auditLog.actorId).toBe(AUDIT_SYSTEM_ACTOR);
+    expect(auditLog.isSystemAction()).toBe(true);
+  });
+
+  it('should never write passwords to the log', async () => {
+    await service.record({
+      action: AuditAction.DRIVER_CREATE,
+      targetType: AuditTargetType.DRIVER,
+      targetId: 'driver-1',
+      after: { driverId: 'driver-1', password: 'hashed-secret' },
+    });
+
+    const auditLog = create.mock.calls[0][0] as AuditLog;
+    expect(auditLog.changes).toEqual([{ field: 'driverId', after: 'driver-1' }]);
+  });
+
+  it('should not fail the audited action when the log cannot be written', async () => {
+    create.mockRejectedValue(new Error('connection lost'));
+
+    await expect(blockUser()).resolves.toBeUndefined();
+  });
+});
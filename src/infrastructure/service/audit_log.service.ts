@@ -0,0 +1,56 @@
+/**
+ * Audit Log Service
+ * Records admin and financial actions with the actor taken from the current request
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { v4 as uuidv4 } from 'uuid';
+import { IAuditLogRepository } from '../../domain/repositories/audit_log_repository.interface';
+import { AuditLog, AUDIT_SYSTEM_ACTOR } from '../../domain/entities/audit_log.entity';
+import { IAuditLogEntry, IAuditLogService } from '../../domain/services/audit_log_service.interface';
+import { REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { diffSnapshots } from '../../shared/utils/audit_diff.util';
+import { getRequestContext } from '../../shared/utils/request_context.util';
+import { logger } from '../../shared/logger';
+
+/**
+ * Audit Log Service
+ * Stores the fields an action changed together with who took it, from where
+ */
+@injectable()
+export class AuditLogServiceImpl implements IAuditLogService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IAuditLogRepository)
+    private readonly auditLogRepository: IAuditLogRepository
+  ) {}
+
+  async record(entry: IAuditLogEntry): Promise<void> {
+    const context = getRequestContext();
+
+    try {
+      const auditLog = new AuditLog(
+        uuidv4(),
+        context?.actorId ?? AUDIT_SYSTEM_ACTOR,
+        entry.action,
+        entry.targetType,
+        entry.targetId,
+        diffSnapshots(entry.before, entry.after),
+        new Date(),
+        context?.actorEmail,
+        context?.actorRole,
+        context?.ipAddress,
+        context?.userAgent,
+        entry.metadata
+      );
+
+      await this.auditLogRepository.create(auditLog);
+    } catch (error) {
+      // The audited change already happened - losing the entry must not turn it into an error response
+      logger.error(
+        `Error recording audit log ${entry.action} for ${entry.targetType} ${entry.targetId}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+}
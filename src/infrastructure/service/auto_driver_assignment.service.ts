@@ -10,6 +10,8 @@ import { IPricingConfigRepository } from '../../domain/repositories/pricing_conf
 import { IPricingCalculationService } from '../../domain/services/pricing_calculation_service.interface';
 import { IPDFGenerationService } from '../../domain/services/pdf_generation_service.interface';
 import { IEmailService } from '../../domain/services/email_service.interface';
+import { IVehicleAvailabilityService } from '../../domain/services/vehicle_availability_service.interface';
+import { IPromoCodeService } from '../../domain/services/promo_code_service.interface';
 import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../application/di/tokens';
 import { QuoteStatus, TripType } from '../../shared/constants';
 import { logger } from '../../shared/logger';
@@ -19,6 +21,8 @@ import { FRONTEND_CONFIG } from '../../shared/config';
 import { Vehicle } from '../../domain/entities/vehicle.entity';
 import { Amenity } from '../../domain/entities/amenity.entity';
 import { canAssignDriverToQuote } from '../../shared/utils/driver_assignment.util';
+import { describeVehicleHoldConflicts } from '../../shared/utils/vehicle_hold.util';
+import { deriveTripWindow } from '../../application/mapper/driver_dashboard.mapper';
 import { ISocketEventService } from '../../domain/services/socket_event_service.interface';
 import { container } from 'tsyringe';
 
@@ -48,7 +52,11 @@ export class AutoDriverAssignmentServiceImpl implements IAutoDriverAssignmentSer
     @inject(SERVICE_TOKENS.IPDFGenerationService)
     private readonly pdfGenerationService: IPDFGenerationService,
     @inject(SERVICE_TOKENS.IEmailService)
-    private readonly emailService: IEmailService
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IVehicleAvailabilityService)
+    private readonly vehicleAvailabilityService: IVehicleAvailabilityService,
+    @inject(SERVICE_TOKENS.IPromoCodeService)
+    private readonly promoCodeService: IPromoCodeService
   ) {}
 
   async tryAssignDriverToQuote(quoteId: string): Promise<boolean> {
@@ -176,15 +184,10 @@ export class AutoDriverAssignmentServiceImpl implements IAutoDriverAssignmentSer
         return false;
       }
 
-      // Calculate pricing with actual driver rate
-      const totalDuration = (quote.routeData.outbound?.totalDuration ?? 0) +
-        (quote.routeData.return?.totalDuration ?? 0);
-      const driverCharge = this.pricingCalculationService.calculateDriverCharge(
-        totalDuration,
-        driver.salary
-      );
+      // Keep the promo code discount the quote was submitted with
+      const promoCode = await this.promoCodeService.findAppliedToQuote(quote);
 
-      // Calculate other pricing components
+      // Calculate pricing with actual driver rate, keeping the exchange rate the quote was submitted with
       const pricingBreakdown = this.pricingCalculationService.calculatePricing({
         selectedVehicles: vehiclesWithQuantity,
         selectedAmenities,
@@ -195,21 +198,31 @@ export class AutoDriverAssignmentServiceImpl implements IAutoDriverAssignmentSer
         pricingConfig,
         tripType: quote.tripType,
         routeData: quote.routeData,
+        exchangeRate: quote.getPricingExchangeRate(),
+        driverRatePerHour: driver.salary,
+        promoCode,
       });
 
-      // Override driver charge with actual driver rate
-      const subtotal =
-        (pricingBreakdown.baseFare ?? 0) +
-        (pricingBreakdown.distanceFare ?? 0) +
-        driverCharge +
-        (pricingBreakdown.nightCharge ?? 0) +
-        (pricingBreakdown.amenitiesTotal ?? 0);
+      const driverCharge = pricingBreakdown.driverCharge ?? 0;
+      const subtotal = pricingBreakdown.subtotal ?? 0;
+      const tax = pricingBreakdown.tax ?? 0;
+      const total = pricingBreakdown.total ?? 0;
 
-      const tax = this.pricingCalculationService.calculateTax(subtotal, pricingConfig.taxPercentage);
-      const total = subtotal + tax;
+      // Hold the vehicles for the payment window before quoting
+      const quotedAt = new Date();
+      const { tripStartAt, tripEndAt } = deriveTripWindow(itinerary);
+      const holdResult = await this.vehicleAvailabilityService.holdVehiclesForQuote(
+        quoteId,
+        vehicleIds,
+        { startAt: tripStartAt, endAt: tripEndAt },
+        quotedAt
+      );
+      if (!holdResult.acquired) {
+        logger.warn(`Cannot quote ${quoteId}: ${describeVehicleHoldConflicts(holdResult.conflicts, holdResult.maintenanceConflicts)}`);
+        return false;
+      }
 
       // Update quote with driver assignment and new pricing
-      const quotedAt = new Date();
       await this.quoteRepository.updateById(quoteId, {
         status: QuoteStatus.QUOTED,
         assignedDriverId: driver.driverId,
@@ -225,8 +238,13 @@ export class AutoDriverAssignmentServiceImpl implements IAutoDriverAssignmentSer
           nightCharge: pricingBreakdown.nightCharge ?? 0,
           amenitiesTotal: pricingBreakdown.amenitiesTotal ?? 0,
           subtotal,
+          discount: pricingBreakdown.discount,
+          promoCode: pricingBreakdown.promoCode,
           tax,
           total,
+          currency: pricingBreakdown.currency,
+          baseCurrency: pricingBreakdown.baseCurrency,
+          exchangeRateAtTime: pricingBreakdown.exchangeRateAtTime,
         },
         pricingLastUpdatedAt: quotedAt,
         quotedAt,
@@ -275,6 +293,7 @@ export class AutoDriverAssignmentServiceImpl implements IAutoDriverAssignmentSer
         tripName: updatedQuote.tripName,
         tripType: updatedQuote.tripType === TripType.ONE_WAY ? 'one_way' : 'two_way',
         totalPrice: total,
+        currency: pricingBreakdown.currency,
         quoteDate: quotedAt,
         viewQuoteLink,
         paymentLink,
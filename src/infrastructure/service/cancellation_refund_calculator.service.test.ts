@@ -0,0 +1,133 @@
+import { describe, it, expect } from 'vitest';
+import { CancellationRefundCalculatorServiceImpl } from './cancellation_refund_calculator.service';
+import {
+  CancellationPolicy,
+  CancellationRefundMode,
+} from '../../domain/entities/cancellation_policy.entity';
+import { ICancellationRefundInput } from '../../domain/services/cancellation_refund_calculator_service.interface';
+
+describe('CancellationRefundCalculatorServiceImpl', () => {
+  const calculator = new CancellationRefundCalculatorServiceImpl();
+  const cancelledAt = new Date('2025-01-01T00:00:00Z');
+
+  const createPolicy = (
+    overrides: {
+      deposit?: number;
+      amenityRefundMode?: CancellationRefundMode;
+      chargeRefundMode?: CancellationRefundMode;
+    } = {}
+  ) =>
+    new CancellationPolicy(
+      'policy-123',
+      3,
+      [
+        { minHoursBeforeDeparture: 24, refundPercentage: 50 },
+        { minHoursBeforeDeparture: 168, refundPercentage: 100 },
+        { minHoursBeforeDeparture: 72, refundPercentage: 75 },
+      ],
+      overrides.deposit ?? 10,
+      overrides.amenityRefundMode ?? 'tiered',
+      overrides.chargeRefundMode ?? 'tiered',
+      true,
+      'admin-123',
+      cancelledAt,
+      cancelledAt
+    );
+
+  const hoursFromCancellation = (hours: number) =>
+    new Date(cancelledAt.getTime() + hours * 60 * 60 * 1000);
+
+  const createInput = (overrides: Partial<ICancellationRefundInput> = {}): ICancellationRefundInput => ({
+    policy: createPolicy(),
+    paidAmount: 1200,
+    alreadyRefundedAmount: 0,
+    amenitiesAmount: 200,
+    paidCharges: [],
+    departureAt: hoursFromCancellation(100),
+    cancelledAt,
+    ...overrides,
+  });
+
+  it('should apply the tier with the highest threshold that has been met', () => {
+    // Act
+    const result = calculator.calculateRefund(createInput());
+
+    // Assert
+    expect(result.hoursBeforeDeparture).toBe(100);
+    expect(result.appliedTier).toEqual({ minHoursBeforeDeparture: 72, refundPercentage: 75 });
+    expect(result.fareAmount).toBe(1000);
+    expect(result.nonRefundableDeposit).toBe(100);
+    expect(result.fareRefund).toBe(675);
+    expect(result.amenitiesRefund).toBe(150);
+    expect(result.refundAmount).toBe(825);
+    expect(result.totalRefund).toBe(825);
+  });
+
+  it('should refund nothing when cancelling after the last tier', () => {
+    // Act
+    const result = calculator.calculateRefund(
+      createInput({ departureAt: hoursFromCancellation(12) })
+    );
+
+    // Assert
+    expect(result.appliedTier).toBeNull();
+    expect(result.refundPercentage).toBe(0);
+    expect(result.refundAmount).toBe(0);
+  });
+
+  it('should apply the amenity and charge refund modes independently of the tier', () => {
+    // Arrange
+    const policy = createPolicy({ amenityRefundMode: 'full', chargeRefundMode: 'none' });
+
+    // Act
+    const result = calculator.calculateRefund(
+      createInput({
+        policy,
+        departureAt: hoursFromCancellation(30),
+        paidCharges: [{ chargeId: 'charge-1', amount: 300 }],
+      })
+    );
+
+    // Assert
+    expect(result.fareRefund).toBe(450);
+    expect(result.amenitiesRefund).toBe(200);
+    expect(result.chargeRefunds).toEqual([{ chargeId: 'charge-1', amount: 300, refundAmount: 0 }]);
+    expect(result.totalRefund).toBe(650);
+  });
+
+  it('should refund paid charges at the tier percentage', () => {
+    // Act
+    const result = calculator.calculateRefund(
+      createInput({
+        departureAt: hoursFromCancellation(200),
+        paidCharges: [{ chargeId: 'charge-1', amount: 300 }],
+      })
+    );
+
+    // Assert
+    expect(result.refundAmount).toBe(1100);
+    expect(result.chargesRefundTotal).toBe(300);
+    expect(result.totalRefund).toBe(1400);
+  });
+
+  it('should not refund more than the remaining balance of the payment', () => {
+    // Act
+    const result = calculator.calculateRefund(
+      createInput({ departureAt: hoursFromCancellation(200), alreadyRefundedAmount: 500 })
+    );
+
+    // Assert
+    expect(result.fareRefund + result.amenitiesRefund).toBe(1100);
+    expect(result.refundAmount).toBe(700);
+  });
+
+  it('should use the most generous tier when the departure time is unknown', () => {
+    // Act
+    const result = calculator.calculateRefund(createInput({ departureAt: undefined }));
+
+    // Assert
+    expect(result.hoursBeforeDeparture).toBeNull();
+    expect(result.refundPercentage).toBe(100);
+    expect(result.refundAmount).toBe(1100);
+  });
+});
@@ -0,0 +1,90 @@
+import { injectable } from 'tsyringe';
+import {
+  ICancellationRefundCalculatorService,
+  ICancellationRefundInput,
+  ICancellationRefundBreakdown,
+  ICancellationChargeRefund,
+} from '../../domain/services/cancellation_refund_calculator_service.interface';
+import { CancellationRefundMode } from '../../domain/entities/cancellation_policy.entity';
+
+const MS_PER_HOUR = 60 * 60 * 1000;
+
+/**
+ * Cancellation refund calculator service implementation
+ * Splits the payment into fare and amenities, withholds the non-refundable deposit
+ * from the fare and applies the tier matching the time left before departure
+ */
+@injectable()
+export class CancellationRefundCalculatorServiceImpl implements ICancellationRefundCalculatorService {
+  calculateRefund(input: ICancellationRefundInput): ICancellationRefundBreakdown {
+    const { policy } = input;
+
+    // Without an itinerary there is no departure to measure against, so the most generous tier applies
+    const hoursBeforeDeparture = input.departureAt
+      ? this.round((input.departureAt.getTime() - input.cancelledAt.getTime()) / MS_PER_HOUR)
+      : null;
+    const appliedTier = policy.getApplicableTier(hoursBeforeDeparture ?? Number.POSITIVE_INFINITY) ?? null;
+    const refundPercentage = appliedTier ? appliedTier.refundPercentage : 0;
+
+    const paidAmount = Math.max(0, input.paidAmount);
+    const amenitiesAmount = Math.min(Math.max(0, input.amenitiesAmount), paidAmount);
+    const fareAmount = this.round(paidAmount - amenitiesAmount);
+
+    const nonRefundableDeposit = this.round((fareAmount * policy.nonRefundableDepositPercentage) / 100);
+    const fareRefund = this.round(((fareAmount - nonRefundableDeposit) * refundPercentage) / 100);
+    const amenitiesRefund = this.applyMode(policy.amenityRefundMode, amenitiesAmount, refundPercentage);
+
+    // Never refund more than what is left on the reservation payment
+    const refundableBalance = Math.max(0, this.round(paidAmount - input.alreadyRefundedAmount));
+    const refundAmount = Math.min(this.round(fareRefund + amenitiesRefund), refundableBalance);
+
+    const chargeRefunds: ICancellationChargeRefund[] = input.paidCharges.map((charge) => ({
+      chargeId: charge.chargeId,
+      amount: charge.amount,
+      refundAmount: this.applyMode(policy.chargeRefundMode, charge.amount, refundPercentage),
+    }));
+    const chargesRefundTotal = this.round(
+      chargeRefunds.reduce((sum, charge) => sum + charge.refundAmount, 0)
+    );
+
+    return {
+      cancellationPolicyId: policy.cancellationPolicyId,
+      cancellationPolicyVersion: policy.version,
+      hoursBeforeDeparture,
+      appliedTier: appliedTier ? { ...appliedTier } : null,
+      refundPercentage,
+      paidAmount,
+      fareAmount,
+      nonRefundableDeposit,
+      fareRefund,
+      amenitiesAmount,
+      amenitiesRefund,
+      alreadyRefundedAmount: input.alreadyRefundedAmount,
+      refundAmount,
+      chargeRefunds,
+      chargesRefundTotal,
+      totalRefund: this.round(refundAmount + chargesRefundTotal),
+    };
+  }
+
+  /**
+   * Applies a refund mode to an amount
+   */
+  private applyMode(mode: CancellationRefundMode, amount: number, refundPercentage: number): number {
+    switch (mode) {
+      case 'full':
+        return this.round(amount);
+      case 'none':
+        return 0;
+      default:
+        return this.round((amount * refundPercentage) / 100);
+    }
+  }
+
+  /**
+   * Rounds to 2 decimal places
+   */
+  private round(value: number): number {
+    return Math.round(value * 100) / 100;
+  }
+}
@@ -0,0 +1,188 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { CorporateCreditServiceImpl } from './corporate_credit.service';
+import { ICorporateAccountRepository } from '../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateBookingRepository } from '../../domain/repositories/corporate_booking_repository.interface';
+import { ICorporateInvoiceRepository } from '../../domain/repositories/corporate_invoice_repository.interface';
+import { CorporateAccount } from '../../domain/entities/corporate_account.entity';
+import { CorporateBooking, CorporateBookingStatus } from '../../domain/entities/corporate_booking.entity';
+import { CorporateInvoice, CorporateInvoiceStatus } from '../../domain/entities/corporate_invoice.entity';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const booking = (id: string, amount: number, status: CorporateBookingStatus, invoiceId?: string): CorporateBooking =>
+  new CorporateBooking(
+    id,
+    'account-1',
+    `quote-${id}`,
+    'booker-1',
+    amount,
+    'INR',
+    status,
+    new Date(),
+    new Date(),
+    status === 'booked' ? `reservation-${id}` : undefined,
+    undefined,
+    status === 'booked' ? new Date() : undefined,
+    invoiceId
+  );
+
+const invoice = (id: string, totalAmount: number, status: CorporateInvoiceStatus): CorporateInvoice =>
+  new CorporateInvoice(
+    id,
+    `INV-${id}`,
+    'account-1',
+    new Date('2030-01-01T00:00:00Z'),
+    new Date('2030-01-31T23:59:59Z'),
+    [],
+    totalAmount,
+    'INR',
+    status,
+    new Date('2030-02-01T00:00:00Z'),
+    new Date('2030-03-03T00:00:00Z'),
+    new Date(),
+    new Date()
+  );
+
+const createAccount = (creditLimit: number, creditVersion = 0): CorporateAccount =>
+  new CorporateAccount(
+    'account-1',
+    'Acme School',
+    { name: 'Finance Office', email: 'finance@acme.test' },
+    creditLimit,
+    'INR',
+    30,
+    [],
+    'active',
+    'platform-admin',
+    new Date(),
+    new Date(),
+    undefined,
+    undefined,
+    undefined,
+    creditVersion
+  );
+
+describe('CorporateCreditServiceImpl', () => {
+  const account = createAccount(100000);
+
+  const bookings = [
+    booking('b1', 10000.1, 'booked'),
+    booking('b2', 25000, 'booked', 'inv-1'), // Already counted through its invoice
+    booking('b3', 15000, 'pending_approval'),
+    booking('b4', 5000, 'pending_approval'),
+  ];
+  const invoices = [invoice('inv-1', 25000, 'issued'), invoice('inv-2', 8000.2, 'overdue')];
+
+  const bookingRepository = {
+    findByAccountId: (_accountId: string, status?: CorporateBookingStatus) =>
+      Promise.resolve(bookings.filter((b) => !status || b.status === status)),
+  } as unknown as ICorporateBookingRepository;
+  const invoiceRepository = {
+    findUnpaidByAccountId: () => Promise.resolve(invoices),
+  } as unknown as ICorporateInvoiceRepository;
+
+  const service = new CorporateCreditServiceImpl(
+    {} as ICorporateAccountRepository,
+    bookingRepository,
+    invoiceRepository
+  );
+
+  it('should count unpaid invoices, uninvoiced bookings and pending approvals against the limit', async () => {
+    const summary = await service.getCreditSummary(account);
+
+    expect(summary.unpaidInvoicesAmount).toBe(33000.2);
+    expect(summary.uninvoicedAmount).toBe(10000.1);
+    expect(summary.pendingApprovalAmount).toBe(20000);
+    expect(summary.outstandingAmount).toBe(63000.3);
+    expect(summary.availableCredit).toBe(36999.7);
+  });
+
+  it('should leave out the booking being approved', async () => {
+    const summary = await service.getCreditSummary(account, 'b3');
+
+    expect(summary.pendingApprovalAmount).toBe(5000);
+    expect(summary.availableCredit).toBe(51999.7);
+  });
+});
+
+describe('CorporateCreditServiceImpl.createBookingWithinCredit', () => {
+  let savedBookings: CorporateBooking[];
+  let creditVersion: number;
+  let service: CorporateCreditServiceImpl;
+
+  // Yields between reads and writes like a real database, so parallel bookings interleave
+  const tick = () => new Promise((resolve) => setImmediate(resolve));
+
+  beforeEach(() => {
+    savedBookings = [];
+    creditVersion = 0;
+
+    const bookingRepository = {
+      findByAccountId: async (_accountId: string, status?: CorporateBookingStatus) => {
+        await tick();
+        return savedBookings.filter((b) => !status || b.status === status);
+      },
+      create: async (entity: CorporateBooking) => {
+        await tick();
+        savedBookings.push(entity);
+      },
+      deleteById: async (id: string) => {
+        await tick();
+        savedBookings = savedBookings.filter((b) => b.corporateBookingId !== id);
+      },
+    } as unknown as ICorporateBookingRepository;
+    const accountRepository = {
+      findById: async () => {
+        await tick();
+        return createAccount(10000, creditVersion);
+      },
+      incrementCreditVersion: async (_accountId: string, expectedVersion: number) => {
+        await tick();
+        if (creditVersion !== expectedVersion) {
+          return false;
+        }
+        creditVersion += 1;
+        return true;
+      },
+    } as unknown as ICorporateAccountRepository;
+    const invoiceRepository = {
+      findUnpaidByAccountId: () => Promise.resolve([]),
+    } as unknown as ICorporateInvoiceRepository;
+
+    service = new CorporateCreditServiceImpl(accountRepository, bookingRepository, invoiceRepository);
+  });
+
+  it('should save a booking that fits into the available credit', async () => {
+    const outcome = await service.createBookingWithinCredit(createAccount(10000), booking('b1', 6000, 'pending_approval'));
+
+    expect(outcome).toBe('created');
+    expect(savedBookings.map((b) => b.corporateBookingId)).toEqual(['b1']);
+    expect(creditVersion).toBe(1);
+  });
+
+  it('should refuse a booking over the available credit without saving it', async () => {
+    savedBookings.push(booking('b1', 6000, 'booked'));
+
+    const outcome = await service.createBookingWithinCredit(createAccount(10000), booking('b2', 6000, 'pending_approval'));
+
+    expect(outcome).toBe('credit_limit_exceeded');
+    expect(savedBookings.map((b) => b.corporateBookingId)).toEqual(['b1']);
+  });
+
+  it('should never let parallel bookings share the same remaining credit', async () => {
+    const outcomes = await Promise.all([
+      service.createBookingWithinCredit(createAccount(10000), booking('b1', 6000, 'pending_approval')),
+      service.createBookingWithinCredit(createAccount(10000), booking('b2', 6000, 'pending_approval')),
+    ]);
+
+    expect(outcomes.filter((outcome) => outcome === 'created')).toHaveLength(1);
+    expect(savedBookings).toHaveLength(1);
+  });
+});
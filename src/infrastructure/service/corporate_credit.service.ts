@@ -0,0 +1,98 @@
+import { inject, injectable } from 'tsyringe';
+import {
+  CorporateCreditReservationOutcome,
+  ICorporateCreditService,
+  ICorporateCreditSummary,
+} from '../../domain/services/corporate_credit_service.interface';
+import { CorporateAccount } from '../../domain/entities/corporate_account.entity';
+import { CorporateBooking } from '../../domain/entities/corporate_booking.entity';
+import { ICorporateAccountRepository } from '../../domain/repositories/corporate_account_repository.interface';
+import { ICorporateBookingRepository } from '../../domain/repositories/corporate_booking_repository.interface';
+import { ICorporateInvoiceRepository } from '../../domain/repositories/corporate_invoice_repository.interface';
+import { REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { roundCurrencyAmount } from '../../shared/utils/currency.util';
+import { logger } from '../../shared/logger';
+
+const MAX_CREDIT_RESERVATION_ATTEMPTS = 3;
+
+/**
+ * Corporate credit service implementation
+ * Bookings on account are always made in the account's billing currency, so amounts are summed directly
+ */
+@injectable()
+export class CorporateCreditServiceImpl implements ICorporateCreditService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ICorporateAccountRepository)
+    private readonly corporateAccountRepository: ICorporateAccountRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateBookingRepository)
+    private readonly corporateBookingRepository: ICorporateBookingRepository,
+    @inject(REPOSITORY_TOKENS.ICorporateInvoiceRepository)
+    private readonly corporateInvoiceRepository: ICorporateInvoiceRepository
+  ) {}
+
+  async getCreditSummary(account: CorporateAccount, excludeBookingId?: string): Promise<ICorporateCreditSummary> {
+    const [unpaidInvoices, bookedBookings, pendingBookings] = await Promise.all([
+      this.corporateInvoiceRepository.findUnpaidByAccountId(account.corporateAccountId),
+      this.corporateBookingRepository.findByAccountId(account.corporateAccountId, 'booked'),
+      this.corporateBookingRepository.findByAccountId(account.corporateAccountId, 'pending_approval'),
+    ]);
+
+    const currency = account.currency;
+    const sum = (amounts: number[]): number =>
+      roundCurrencyAmount(amounts.reduce((total, amount) => total + amount, 0), currency);
+
+    const unpaidInvoicesAmount = sum(unpaidInvoices.map((invoice) => invoice.totalAmount));
+    const uninvoicedAmount = sum(
+      bookedBookings.filter((booking) => booking.isUninvoiced()).map((booking) => booking.amount)
+    );
+    const pendingApprovalAmount = sum(
+      pendingBookings
+        .filter((booking) => booking.corporateBookingId !== excludeBookingId)
+        .map((booking) => booking.amount)
+    );
+    const outstandingAmount = sum([unpaidInvoicesAmount, uninvoicedAmount, pendingApprovalAmount]);
+
+    return {
+      currency,
+      creditLimit: account.creditLimit,
+      unpaidInvoicesAmount,
+      uninvoicedAmount,
+      pendingApprovalAmount,
+      outstandingAmount,
+      availableCredit: roundCurrencyAmount(account.getAvailableCredit(outstandingAmount), currency),
+    };
+  }
+
+  async createBookingWithinCredit(
+    account: CorporateAccount,
+    booking: CorporateBooking
+  ): Promise<CorporateCreditReservationOutcome> {
+    let current = account;
+
+    for (let attempt = 1; attempt <= MAX_CREDIT_RESERVATION_ATTEMPTS; attempt++) {
+      const credit = await this.getCreditSummary(current);
+      if (booking.amount > credit.availableCredit) {
+        return 'credit_limit_exceeded';
+      }
+
+      await this.corporateBookingRepository.create(booking);
+      if (await this.corporateAccountRepository.incrementCreditVersion(current.corporateAccountId, current.creditVersion)) {
+        return 'created';
+      }
+
+      // Another booking claimed the credit we checked against; take ours back and check again
+      await this.corporateBookingRepository.deleteById(booking.corporateBookingId);
+      logger.warn(
+        `Corporate booking ${booking.corporateBookingId} raced another booking on account ${current.corporateAccountId} (attempt ${attempt})`
+      );
+
+      const reloaded = await this.corporateAccountRepository.findById(current.corporateAccountId);
+      if (!reloaded) {
+        break;
+      }
+      current = reloaded;
+    }
+
+    return 'busy';
+  }
+}
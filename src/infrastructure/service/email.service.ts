@@ -1,7 +1,7 @@
 import { injectable } from 'tsyringe';
 import nodemailer, { Transporter } from 'nodemailer';
 import { IEmailService, IEmailAttachment } from '../../domain/services/email_service.interface';
-import { EmailType } from '../../shared/types/email.types';
+import { EmailType, NotificationEmailData } from '../../shared/types/email.types';
 import { EMAIL_CONFIG } from '../../shared/config';
 import { getEmailTemplate } from '../../shared/templates/email';
 import { logger } from '../../shared/logger';
@@ -50,7 +50,7 @@ export class EmailServiceImpl implements IEmailService {
       await this.transporter.sendMail({
         from: `"GRANDLINE" <${EMAIL_CONFIG.USER}>`,
         to: data.email,
-        subject: this.getSubject(type),
+        subject: this.getSubject(type, data),
         html,
         text,
         attachments: emailAttachments,
@@ -64,7 +64,7 @@ export class EmailServiceImpl implements IEmailService {
   /**
    * Gets the subject line for the email based on type
    */
-  private getSubject(type: EmailType): string {
+  private getSubject(type: EmailType, data: { email: string }): string {
     switch (type) {
       case EmailType.OTP:
         return 'Verify Your Email - GRANDLINE';
@@ -78,6 +78,20 @@ export class EmailServiceImpl implements IEmailService {
         return 'Refund Confirmation - GRANDLINE';
       case EmailType.PAYMENT_REQUIRED:
         return 'Payment Required - GRANDLINE';
+      case EmailType.CORPORATE_INVOICE:
+        return 'Your Monthly Invoice - GRANDLINE';
+      case EmailType.QUOTE_REMINDER:
+        return 'Your Quotation Expires Soon - GRANDLINE';
+      case EmailType.QUOTE_EXPIRED:
+        return 'Your Quotation Has Expired - GRANDLINE';
+      case EmailType.QUOTE_DRAFT_REMINDER:
+        return 'Finish Your Quote - GRANDLINE';
+      case EmailType.NOTIFICATION:
+        return `${(data as NotificationEmailData).title} - GRANDLINE`;
+      case EmailType.NOTIFICATION_DIGEST:
+        return 'Your Daily Notification Summary - GRANDLINE';
+      case EmailType.ACCOUNT_LOCKED:
+        return 'Account Temporarily Locked - GRANDLINE';
       default:
         return 'GRANDLINE';
     }
@@ -0,0 +1,59 @@
+import { inject, injectable } from 'tsyringe';
+import { IExchangeRateService } from '../../domain/services/exchange_rate_service.interface';
+import { IExchangeRateSnapshot } from '../../domain/entities/exchange_rate.entity';
+import { IExchangeRateRepository } from '../../domain/repositories/exchange_rate_repository.interface';
+import { IPricingConfigRepository } from '../../domain/repositories/pricing_config_repository.interface';
+import { REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { normalizeCurrency } from '../../shared/utils/currency.util';
+
+/**
+ * Exchange rate service implementation
+ * Rates are configured by admins against the active pricing currency
+ */
+@injectable()
+export class ExchangeRateServiceImpl implements IExchangeRateService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IExchangeRateRepository)
+    private readonly exchangeRateRepository: IExchangeRateRepository,
+    @inject(REPOSITORY_TOKENS.IPricingConfigRepository)
+    private readonly pricingConfigRepository: IPricingConfigRepository
+  ) {}
+
+  async getSnapshot(baseCurrency: string, currency: string): Promise<IExchangeRateSnapshot | null> {
+    const base = normalizeCurrency(baseCurrency);
+    const target = normalizeCurrency(currency);
+
+    if (base === target) {
+      return { baseCurrency: base, currency: target, rate: 1 };
+    }
+
+    const exchangeRate = await this.exchangeRateRepository.findByCurrencyPair(base, target);
+    if (!exchangeRate) {
+      return null;
+    }
+
+    return { baseCurrency: base, currency: target, rate: exchangeRate.rate };
+  }
+
+  async getSupportedCurrencies(): Promise<string[]> {
+    const baseCurrency = await this.getBaseCurrency();
+    const exchangeRates = await this.exchangeRateRepository.findAll();
+
+    const currencies = exchangeRates
+      .filter((exchangeRate) => exchangeRate.baseCurrency === baseCurrency)
+      .map((exchangeRate) => exchangeRate.currency);
+
+    return [baseCurrency, ...currencies.filter((currency) => currency !== baseCurrency)];
+  }
+
+  async isSupportedCurrency(currency: string): Promise<boolean> {
+    const baseCurrency = await this.getBaseCurrency();
+    const snapshot = await this.getSnapshot(baseCurrency, currency);
+    return snapshot !== null;
+  }
+
+  private async getBaseCurrency(): Promise<string> {
+    const pricingConfig = await this.pricingConfigRepository.findActive();
+    return normalizeCurrency(pricingConfig?.currency);
+  }
+}
@@ -0,0 +1,240 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { FakePaymentGateway } from './fake_payment_gateway.service';
+import { IPaymentWebhookEvent } from '../../domain/services/payment_gateway.interface';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('FakePaymentGateway', () => {
+  let gateway: FakePaymentGateway;
+  let events: IPaymentWebhookEvent[];
+
+  beforeEach(() => {
+    gateway = new FakePaymentGateway('success', 5000, 'whsec_test');
+    events = [];
+    gateway.onWebhookEvent((event) => {
+      events.push(event);
+      return Promise.resolve();
+    });
+  });
+
+  afterEach(() => {
+    gateway.reset();
+    vi.useRealTimers();
+  });
+
+  const createIntent = () =>
+    gateway.createPaymentIntent({ amount: 1500, currency: 'INR', metadata: { quoteId: 'quote-123' } });
+
+  describe('createPaymentIntent', () => {
+    it('should create a payment intent with deterministic IDs', async () => {
+      // Act
+      const first = await createIntent();
+      const second = await createIntent();
+
+      // Assert
+      expect(first).toMatchObject({
+        id: 'pi_fake_000001',
+        clientSecret: 'pi_fake_000001_secret_fake',
+        status: 'requires_payment_method',
+        amount: 1500,
+        currency: 'inr',
+        metadata: { quoteId: 'quote-123' },
+      });
+      expect(second.id).toBe('pi_fake_000002');
+      expect(events).toHaveLength(0);
+    });
+  });
+
+  describe('confirmPaymentIntent', () => {
+    it('should succeed and emit payment_intent.succeeded immediately', async () => {
+      // Arrange
+      const intent = await createIntent();
+
+      // Act
+      const result = await gateway.confirmPaymentIntent(intent.id, 'success');
+
+      // Assert
+      expect(result.status).toBe('succeeded');
+      expect(result.latestChargeId).toMatch(/^ch_fake_/);
+      expect(events).toHaveLength(1);
+      expect(events[0].type).toBe('payment_intent.succeeded');
+      expect(events[0].data.object).toMatchObject({
+        id: intent.id,
+        amount: 150000,
+        latest_charge: result.latestChargeId,
+        metadata: { quoteId: 'quote-123' },
+      });
+    });
+
+    it('should decline and emit payment_intent.payment_failed', async () => {
+      // Arrange
+      const intent = await createIntent();
+
+      // Act
+      const result = await gateway.confirmPaymentIntent(intent.id, 'decline');
+
+      // Assert
+      expect(result.status).toBe('requires_payment_method');
+      expect(events.map((event) => event.type)).toEqual(['payment_intent.payment_failed']);
+    });
+
+    it('should wait for the 3DS challenge before emitting any event', async () => {
+      // Arrange
+      const intent = await createIntent();
+
+      // Act
+      const pending = await gateway.confirmPaymentIntent(intent.id, 'requires_action');
+
+      // Assert
+      expect(pending.status).toBe('requires_action');
+      expect(events).toHaveLength(0);
+
+      const completed = await gateway.completeRequiredAction(intent.id, true);
+      expect(completed.status).toBe('succeeded');
+      expect(events.map((event) => event.type)).toEqual(['payment_intent.succeeded']);
+    });
+
+    it('should emit payment_intent.payment_failed when the 3DS challenge fails', async () => {
+      // Arrange
+      const intent = await createIntent();
+      await gateway.confirmPaymentIntent(intent.id, 'requires_action');
+
+      // Act
+      const result = await gateway.completeRequiredAction(intent.id, false);
+
+      // Assert
+      expect(result.status).toBe('requires_payment_method');
+      expect(events.map((event) => event.type)).toEqual(['payment_intent.payment_failed']);
+    });
+
+    it('should deliver the webhook after the configured delay', async () => {
+      // Arrange
+      vi.useFakeTimers();
+      const intent = await createIntent();
+
+      // Act
+      const result = await gateway.confirmPaymentIntent(intent.id, 'delayed_webhook');
+
+      // Assert
+      expect(result.status).toBe('succeeded');
+      expect(events).toHaveLength(0);
+
+      await vi.advanceTimersByTimeAsync(5000);
+      expect(events.map((event) => event.type)).toEqual(['payment_intent.succeeded']);
+    });
+
+    it('should hold manual-capture intents until captured', async () => {
+      // Arrange
+      const intent = await gateway.createPaymentIntent({
+        amount: 1000,
+        currency: 'inr',
+        captureMethod: 'manual',
+      });
+
+      // Act
+      const authorized = await gateway.confirmPaymentIntent(intent.id, 'success');
+      const captured = await gateway.capturePaymentIntent(intent.id, 800);
+
+      // Assert
+      expect(authorized.status).toBe('requires_capture');
+      expect(captured).toMatchObject({ status: 'succeeded', amount: 800 });
+      expect(events.map((event) => event.type)).toEqual([
+        'payment_intent.amount_capturable_updated',
+        'payment_intent.succeeded',
+      ]);
+    });
+
+    it('should not fail the payment when a webhook listener throws', async () => {
+      // Arrange
+      gateway.onWebhookEvent(() => Promise.reject(new Error('Handler failed')));
+      const intent = await createIntent();
+
+      // Act
+      const result = await gateway.confirmPaymentIntent(intent.id, 'success');
+
+      // Assert
+      expect(result.status).toBe('succeeded');
+    });
+  });
+
+  describe('createRefund', () => {
+    it('should refund up to the captured amount', async () => {
+      // Arrange
+      const intent = await createIntent();
+      await gateway.confirmPaymentIntent(intent.id, 'success');
+
+      // Act
+      const refund = await gateway.createRefund({ paymentIntentId: intent.id, amount: 1000 });
+
+      // Assert
+      expect(refund).toMatchObject({ paymentIntentId: intent.id, amount: 1000, status: 'succeeded' });
+      await expect(
+        gateway.createRefund({ paymentIntentId: intent.id, amount: 600 })
+      ).rejects.toThrow('Refund amount exceeds remaining balance');
+    });
+
+    it('should list the refund with its metadata by the time charge.refunded is delivered', async () => {
+      // Arrange
+      const intent = await createIntent();
+      await gateway.confirmPaymentIntent(intent.id, 'success');
+      let refundsSeenByListener: string[] = [];
+      gateway.onWebhookEvent(async (event) => {
+        if (event.type === 'charge.refunded') {
+          refundsSeenByListener = (await gateway.listRefunds(intent.id)).map((refund) => refund.id);
+        }
+      });
+
+      // Act
+      const refund = await gateway.createRefund({
+        paymentIntentId: intent.id,
+        amount: 500,
+        metadata: { refundedBy: 'admin-1' },
+      });
+
+      // Assert
+      expect(refundsSeenByListener).toEqual([refund.id]);
+      expect(await gateway.listRefunds(intent.id)).toEqual([
+        expect.objectContaining({ id: refund.id, amount: 500, metadata: { refundedBy: 'admin-1' } }),
+      ]);
+      expect(events.map((event) => event.type)).toContain('charge.refunded');
+    });
+
+    it('should reject refunds for payments that have not succeeded', async () => {
+      // Arrange
+      const intent = await createIntent();
+
+      // Act & Assert
+      await expect(
+        gateway.createRefund({ paymentIntentId: intent.id, amount: 100 })
+      ).rejects.toThrow('has not succeeded');
+    });
+  });
+
+  describe('constructWebhookEvent', () => {
+    it('should parse payloads signed with the webhook secret', () => {
+      // Arrange
+      const payload = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded', data: { object: {} } });
+
+      // Act
+      const event = gateway.constructWebhookEvent(payload, gateway.signPayload(payload));
+
+      // Assert
+      expect(event.type).toBe('payment_intent.succeeded');
+    });
+
+    it('should reject payloads with an invalid signature', () => {
+      // Arrange
+      const payload = JSON.stringify({ id: 'evt_1', type: 'payment_intent.succeeded', data: { object: {} } });
+
+      // Act & Assert
+      expect(() => gateway.constructWebhookEvent(payload, 'invalid')).toThrow('No signatures found');
+    });
+  });
+});
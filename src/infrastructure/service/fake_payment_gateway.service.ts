@@ -0,0 +1,342 @@
+import { createHmac, timingSafeEqual } from 'crypto';
+import {
+  IPaymentGateway,
+  IGatewayPaymentIntent,
+  ICreatePaymentIntentParams,
+  ICreateRefundParams,
+  IGatewayRefund,
+  IPaymentWebhookEvent,
+} from '../../domain/services/payment_gateway.interface';
+import { PaymentMethod } from '../../domain/entities/payment.entity';
+import { PAYMENT_GATEWAY_CONFIG } from '../../shared/config';
+import { logger } from '../../shared/logger';
+import { toMinorUnits } from '../../shared/utils/currency.util';
+
+/**
+ * Outcomes the fake gateway can simulate when a payment intent is confirmed
+ * - success: succeeds and delivers the webhook immediately
+ * - decline: card is declined, intent goes back to requires_payment_method
+ * - requires_action: 3DS challenge, waits for completeRequiredAction()
+ * - delayed_webhook: succeeds, but the webhook arrives after WEBHOOK_DELAY_MS
+ */
+export type FakePaymentScenario = 'success' | 'decline' | 'requires_action' | 'delayed_webhook';
+
+export const FAKE_PAYMENT_SCENARIOS: readonly FakePaymentScenario[] = [
+  'success',
+  'decline',
+  'requires_action',
+  'delayed_webhook',
+];
+
+export type FakeWebhookListener = (event: IPaymentWebhookEvent) => Promise<void>;
+
+interface FakePaymentIntentState extends IGatewayPaymentIntent {
+  captureMethod: 'automatic' | 'manual';
+  amountRefunded: number;
+  refunds: IGatewayRefund[];
+}
+
+/**
+ * In-process fake payment gateway
+ * Deterministic stand-in for Stripe used in local development and end-to-end tests.
+ * IDs come from counters, nothing leaves the process, and webhook events are delivered
+ * to listeners registered with onWebhookEvent() using Stripe's event format.
+ */
+export class FakePaymentGateway implements IPaymentGateway {
+  // Records stay compatible with Stripe-backed data since the fake mirrors Stripe's wire format
+  readonly paymentMethod = PaymentMethod.STRIPE;
+
+  private readonly paymentIntents = new Map<string, FakePaymentIntentState>();
+  private readonly listeners: FakeWebhookListener[] = [];
+  private readonly pendingTimers = new Set<NodeJS.Timeout>();
+  private sequence = 0;
+
+  constructor(
+    private readonly defaultScenario: FakePaymentScenario = FakePaymentGateway.parseScenario(
+      PAYMENT_GATEWAY_CONFIG.FAKE.DEFAULT_SCENARIO
+    ),
+    private readonly webhookDelayMs: number = PAYMENT_GATEWAY_CONFIG.FAKE.WEBHOOK_DELAY_MS,
+    private readonly webhookSecret: string = PAYMENT_GATEWAY_CONFIG.FAKE.WEBHOOK_SECRET
+  ) {}
+
+  /**
+   * Parses a scenario name, falling back to 'success' for unknown values
+   */
+  static parseScenario(value: unknown): FakePaymentScenario {
+    return FAKE_PAYMENT_SCENARIOS.includes(value as FakePaymentScenario)
+      ? (value as FakePaymentScenario)
+      : 'success';
+  }
+
+  createPaymentIntent(params: ICreatePaymentIntentParams): Promise<IGatewayPaymentIntent> {
+    const id = this.nextId('pi_fake');
+    const metadata = params.metadata ?? {};
+    const state: FakePaymentIntentState = {
+      id,
+      clientSecret: `${id}_secret_fake`,
+      status: 'requires_payment_method',
+      amount: params.amount,
+      currency: params.currency.toLowerCase(),
+      metadata,
+      captureMethod: params.captureMethod ?? 'automatic',
+      amountRefunded: 0,
+      refunds: [],
+    };
+    this.paymentIntents.set(id, state);
+    return Promise.resolve(this.snapshot(state));
+  }
+
+  retrievePaymentIntent(paymentIntentId: string): Promise<IGatewayPaymentIntent> {
+    return Promise.resolve(this.snapshot(this.getIntent(paymentIntentId)));
+  }
+
+  async capturePaymentIntent(paymentIntentId: string, amount?: number): Promise<IGatewayPaymentIntent> {
+    const intent = this.getIntent(paymentIntentId);
+    if (intent.status !== 'requires_capture') {
+      throw new Error(`Payment intent ${paymentIntentId} cannot be captured in status ${intent.status}`);
+    }
+    if (amount !== undefined && amount > intent.amount) {
+      throw new Error(`Capture amount exceeds authorized amount for ${paymentIntentId}`);
+    }
+
+    intent.amount = amount ?? intent.amount;
+    intent.status = 'succeeded';
+    await this.dispatch('payment_intent.succeeded', intent);
+    return this.snapshot(intent);
+  }
+
+  async cancelPaymentIntent(paymentIntentId: string): Promise<IGatewayPaymentIntent> {
+    const intent = this.getIntent(paymentIntentId);
+    if (intent.status === 'succeeded' || intent.status === 'canceled') {
+      throw new Error(`Payment intent ${paymentIntentId} cannot be canceled in status ${intent.status}`);
+    }
+
+    intent.status = 'canceled';
+    await this.dispatch('payment_intent.canceled', intent);
+    return this.snapshot(intent);
+  }
+
+  async createRefund(params: ICreateRefundParams): Promise<IGatewayRefund> {
+    const intent = this.getIntent(params.paymentIntentId);
+    if (intent.status !== 'succeeded') {
+      throw new Error(`Payment intent ${params.paymentIntentId} has not succeeded`);
+    }
+    if (params.amount <= 0 || intent.amountRefunded + params.amount > intent.amount) {
+      throw new Error(`Refund amount exceeds remaining balance for ${params.paymentIntentId}`);
+    }
+
+    intent.amountRefunded += params.amount;
+    const refund: IGatewayRefund = {
+      id: this.nextId('re_fake'),
+      paymentIntentId: intent.id,
+      amount: params.amount,
+      currency: intent.currency,
+      status: 'succeeded',
+      metadata: params.metadata ?? {},
+    };
+    intent.refunds.push(refund);
+
+    await this.emit({
+      id: this.nextId('evt_fake'),
+      type: 'charge.refunded',
+      data: {
+        object: {
+          id: intent.latestChargeId,
+          object: 'charge',
+          payment_intent: intent.id,
+          amount: toMinorUnits(intent.amount, intent.currency),
+          amount_refunded: toMinorUnits(intent.amountRefunded, intent.currency),
+          currency: intent.currency,
+          refunded: intent.amountRefunded >= intent.amount,
+          metadata: params.metadata ?? {},
+        },
+      },
+    });
+
+    return refund;
+  }
+
+  listRefunds(paymentIntentId: string): Promise<IGatewayRefund[]> {
+    return Promise.resolve(this.getIntent(paymentIntentId).refunds.map((refund) => ({ ...refund })));
+  }
+
+  constructWebhookEvent(payload: string | Buffer, signature: string): IPaymentWebhookEvent {
+    const expected = Buffer.from(this.signPayload(payload));
+    const received = Buffer.from(signature);
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) {
+      throw new Error('No signatures found matching the expected signature for payload');
+    }
+
+    return JSON.parse(payload.toString()) as IPaymentWebhookEvent;
+  }
+
+  /**
+   * Computes the signature constructWebhookEvent() expects for a payload
+   */
+  signPayload(payload: string | Buffer): string {
+    return createHmac('sha256', this.webhookSecret).update(payload).digest('hex');
+  }
+
+  /**
+   * Registers a listener that receives every webhook event the fake emits
+   */
+  onWebhookEvent(listener: FakeWebhookListener): void {
+    this.listeners.push(listener);
+  }
+
+  /**
+   * Confirms a payment intent as if the customer submitted their card
+   * @param scenario - Outcome to simulate, defaults to the configured scenario
+   */
+  async confirmPaymentIntent(
+    paymentIntentId: string,
+    scenario: FakePaymentScenario = this.defaultScenario
+  ): Promise<IGatewayPaymentIntent> {
+    const intent = this.getIntent(paymentIntentId);
+    if (intent.status !== 'requires_payment_method' && intent.status !== 'requires_confirmation') {
+      throw new Error(`Payment intent ${paymentIntentId} cannot be confirmed in status ${intent.status}`);
+    }
+
+    switch (scenario) {
+      case 'decline':
+        await this.decline(intent);
+        break;
+
+      case 'requires_action':
+        intent.status = 'requires_action';
+        break;
+
+      case 'delayed_webhook':
+        this.authorize(intent);
+        this.schedule(intent);
+        break;
+
+      default:
+        this.authorize(intent);
+        await this.dispatchAuthorization(intent);
+    }
+
+    return this.snapshot(intent);
+  }
+
+  /**
+   * Completes a 3DS challenge for a payment intent in requires_action
+   * @param approved - Whether the customer passed the challenge
+   */
+  async completeRequiredAction(paymentIntentId: string, approved: boolean): Promise<IGatewayPaymentIntent> {
+    const intent = this.getIntent(paymentIntentId);
+    if (intent.status !== 'requires_action') {
+      throw new Error(`Payment intent ${paymentIntentId} is not awaiting customer action`);
+    }
+
+    if (approved) {
+      this.authorize(intent);
+      await this.dispatchAuthorization(intent);
+    } else {
+      await this.decline(intent);
+    }
+
+    return this.snapshot(intent);
+  }
+
+  /**
+   * Cancels any delayed webhooks and forgets all state
+   */
+  reset(): void {
+    this.pendingTimers.forEach((timer) => clearTimeout(timer));
+    this.pendingTimers.clear();
+    this.paymentIntents.clear();
+    this.sequence = 0;
+  }
+
+  private authorize(intent: FakePaymentIntentState): void {
+    intent.latestChargeId = this.nextId('ch_fake');
+    intent.status = intent.captureMethod === 'manual' ? 'requires_capture' : 'succeeded';
+  }
+
+  private async decline(intent: FakePaymentIntentState): Promise<void> {
+    intent.status = 'requires_payment_method';
+    await this.dispatch('payment_intent.payment_failed', intent, {
+      last_payment_error: { code: 'card_declined', message: 'Your card was declined.' },
+    });
+  }
+
+  private dispatchAuthorization(intent: FakePaymentIntentState): Promise<void> {
+    return this.dispatch(
+      intent.status === 'requires_capture'
+        ? 'payment_intent.amount_capturable_updated'
+        : 'payment_intent.succeeded',
+      intent
+    );
+  }
+
+  private schedule(intent: FakePaymentIntentState): void {
+    const timer = setTimeout(() => {
+      this.pendingTimers.delete(timer);
+      void this.dispatchAuthorization(intent);
+    }, this.webhookDelayMs);
+    this.pendingTimers.add(timer);
+  }
+
+  private dispatch(
+    type: string,
+    intent: FakePaymentIntentState,
+    extra: Record<string, unknown> = {}
+  ): Promise<void> {
+    return this.emit({
+      id: this.nextId('evt_fake'),
+      type,
+      data: {
+        object: {
+          id: intent.id,
+          object: 'payment_intent',
+          status: intent.status,
+          amount: toMinorUnits(intent.amount, intent.currency),
+          currency: intent.currency,
+          latest_charge: intent.latestChargeId ?? null,
+          metadata: intent.metadata,
+          ...extra,
+        },
+      },
+    });
+  }
+
+  private async emit(event: IPaymentWebhookEvent): Promise<void> {
+    logger.info(`Fake gateway emitting webhook event: ${event.type} (${event.id})`);
+    for (const listener of this.listeners) {
+      try {
+        await listener(event);
+      } catch (error) {
+        // Like a real gateway, a failing webhook endpoint never fails the payment itself
+        logger.error(
+          `Fake gateway webhook listener failed for ${event.type} (${event.id}): ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+      }
+    }
+  }
+
+  private getIntent(paymentIntentId: string): FakePaymentIntentState {
+    const intent = this.paymentIntents.get(paymentIntentId);
+    if (!intent) {
+      throw new Error(`No such payment_intent: '${paymentIntentId}'`);
+    }
+    return intent;
+  }
+
+  private snapshot(intent: FakePaymentIntentState): IGatewayPaymentIntent {
+    return {
+      id: intent.id,
+      clientSecret: intent.clientSecret,
+      status: intent.status,
+      amount: intent.amount,
+      currency: intent.currency,
+      latestChargeId: intent.latestChargeId,
+      metadata: { ...intent.metadata },
+    };
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}_${this.sequence.toString().padStart(6, '0')}`;
+  }
+}
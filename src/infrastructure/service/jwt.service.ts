@@ -1,11 +1,18 @@
 import { injectable, inject } from 'tsyringe';
-import { IJWTService, JWTPayload, TokenPair } from '../../domain/services/jwt_service.interface';
+import { IJWTService, JWTPayload, RefreshTokenPayload, TokenPair } from '../../domain/services/jwt_service.interface';
 import { ITokenBlacklistService } from '../../domain/services/token_blacklist_service.interface';
 import { SERVICE_TOKENS } from '../../application/di/tokens';
 import { APP_CONFIG, JWT_CONFIG } from '../../shared/config';
 import jwt, { Secret } from 'jsonwebtoken';
 import type { StringValue } from 'ms';
 
+/**
+ * Kind of token, signed into every token so a refresh token cannot be used as an access token or vice versa
+ */
+type TokenType = 'access' | 'refresh';
+
+type DecodedToken = RefreshTokenPayload & { type?: TokenType };
+
 /**
  * JWT service implementation
  * Handles access tokens, refresh tokens, and token blacklisting
@@ -17,12 +24,12 @@ export class JWTServiceImpl implements IJWTService {
     private tokenBlacklistService: ITokenBlacklistService,
   ) {}
 
-  generateTokens(payload: JWTPayload): Promise<TokenPair> {
+  generateTokens(payload: JWTPayload, refreshTokenId?: string): Promise<TokenPair> {
     const secret: Secret = APP_CONFIG.JWT_SECRET;
     
     // Generate access token
     const accessToken = jwt.sign(
-      payload as object,
+      { ...payload, type: 'access' } as object,
       secret,
       {
         expiresIn: JWT_CONFIG.ACCESS_TOKEN_EXPIRY as StringValue, // 15 minutes
@@ -31,7 +38,7 @@ export class JWTServiceImpl implements IJWTService {
 
     // Generate refresh token
     const refreshToken = jwt.sign(
-      payload as object,
+      { ...payload, type: 'refresh', tokenId: refreshTokenId } as object,
       secret,
       {
         expiresIn: JWT_CONFIG.REFRESH_TOKEN_EXPIRY as StringValue, // 7 days
@@ -52,9 +59,9 @@ export class JWTServiceImpl implements IJWTService {
     }
 
     const secret: Secret = APP_CONFIG.JWT_SECRET;
+    let decoded: DecodedToken;
     try {
-      const decoded = jwt.verify(token, secret) as JWTPayload;
-      return decoded;
+      decoded = jwt.verify(token, secret) as DecodedToken;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
         throw new Error('Access token expired');
@@ -64,9 +71,16 @@ export class JWTServiceImpl implements IJWTService {
       }
       throw error;
     }
+
+    // Tokens issued before token types were signed have none
+    if (decoded.type === 'refresh') {
+      throw new Error('Invalid access token');
+    }
+    await this.assertSessionNotRevoked(decoded);
+    return decoded;
   }
 
-  async verifyRefreshToken(token: string): Promise<JWTPayload> {
+  async verifyRefreshToken(token: string): Promise<RefreshTokenPayload> {
     // Check if token is blacklisted
     const isBlacklisted = await this.tokenBlacklistService.isTokenBlacklisted(token);
     if (isBlacklisted) {
@@ -74,9 +88,9 @@ export class JWTServiceImpl implements IJWTService {
     }
 
     const secret: Secret = APP_CONFIG.JWT_SECRET;
+    let decoded: DecodedToken;
     try {
-      const decoded = jwt.verify(token, secret) as JWTPayload;
-      return decoded;
+      decoded = jwt.verify(token, secret) as DecodedToken;
     } catch (error) {
       if (error instanceof jwt.TokenExpiredError) {
         throw new Error('Refresh token expired');
@@ -86,23 +100,12 @@ export class JWTServiceImpl implements IJWTService {
       }
       throw error;
     }
-  }
-
-  async refreshAccessToken(refreshToken: string): Promise<string> {
-    // Verify refresh token (also checks blacklist)
-    const payload = await this.verifyRefreshToken(refreshToken);
 
-    const secret: Secret = APP_CONFIG.JWT_SECRET;
-    // Generate new access token with same payload
-    const accessToken = jwt.sign(
-      { userId: payload.userId, email: payload.email, role: payload.role } as object,
-      secret,
-      {
-        expiresIn: JWT_CONFIG.ACCESS_TOKEN_EXPIRY as StringValue, // 15 minutes
-      }
-    );
-
-    return accessToken;
+    if (decoded.type === 'access') {
+      throw new Error('Invalid refresh token');
+    }
+    await this.assertSessionNotRevoked(decoded);
+    return decoded;
   }
 
   async blacklistToken(token: string, expiryTime: number): Promise<void> {
@@ -129,4 +132,13 @@ export class JWTServiceImpl implements IJWTService {
       await this.tokenBlacklistService.blacklistToken(refreshToken, expiryTime);
     }
   }
+
+  /**
+   * Rejects tokens of a session that was revoked, e.g. logged out everywhere or blocked
+   */
+  private async assertSessionNotRevoked(payload: JWTPayload): Promise<void> {
+    if (payload.sessionId && (await this.tokenBlacklistService.isSessionRevoked(payload.sessionId))) {
+      throw new Error('Session has been revoked');
+    }
+  }
 }
@@ -1,7 +1,7 @@
 import { inject, injectable } from "tsyringe";
 import { INotificationService } from "../../domain/services/notification_service.interface";
 import { SERVICE_TOKENS, USE_CASE_TOKENS } from "../../application/di/tokens";
-import { ISocketEventService } from "../../domain/services/socket_event_service.interface";
+import { INotificationDispatcherService } from "../../domain/services/notification_dispatcher_service.interface";
 import { ICreateNotificationUseCase } from "../../application/use-cases/interface/notification/create_notification_use_case.interface";
 import { NotificationType } from "../../shared/constants";
 import { logger } from "../../shared/logger";
@@ -11,8 +11,8 @@ export class NotificationService implements INotificationService {
     constructor(
         @inject(USE_CASE_TOKENS.CreateNotificationUseCase)
         private readonly createNotificationUseCase: ICreateNotificationUseCase,
-        @inject(SERVICE_TOKENS.ISocketEventService)
-        private readonly socketEventService: ISocketEventService
+        @inject(SERVICE_TOKENS.INotificationDispatcherService)
+        private readonly notificationDispatcherService: INotificationDispatcherService
     ) {}
 
     async sendNotification(notification: {
@@ -21,6 +21,7 @@ export class NotificationService implements INotificationService {
         title: string;
         message: string;
         data?: Record<string, unknown>;
+        groupKey?: string;
     }): Promise<void> {
         try {
             // Step 1: Create notification in database (via use case)
@@ -30,21 +31,16 @@ export class NotificationService implements INotificationService {
                 title: notification.title,
                 message: notification.message,
                 data: notification.data,
+                groupKey: notification.groupKey,
             });
 
-            // Step 2: Send real-time notification (socket event)
-            await this.socketEventService.emitNotification({
-                userId: notification.userId,
-                type: notification.type,
-                title: notification.title,
-                message: notification.message,
-                data: {
-                    ...notification.data,
-                    notificationId: createdNotification.notificationId, // Include the ID for socket event
-                },
-            });
+            // Step 2: Deliver on the channels the user chose (in-app, email, push)
+            const deliveries = await this.notificationDispatcherService.dispatch(createdNotification);
 
-            logger.info(`Notification sent: ${createdNotification.notificationId} to user: ${notification.userId}`);
+            logger.info(
+                `Notification sent: ${createdNotification.notificationId} to user: ${notification.userId} ` +
+                `(${deliveries.map((delivery) => `${delivery.channel}: ${delivery.status}`).join(', ')})`
+            );
         } catch (error) {
             logger.error(
                 `Error sending notification to user ${notification.userId}: ${error instanceof Error ? error.message : 'Unknown error'}`
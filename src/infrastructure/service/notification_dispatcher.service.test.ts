@@ -0,0 +1,182 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { NotificationDispatcherService } from './notification_dispatcher.service';
+import { NotificationPreference } from '../../domain/entities/notification_preference.entity';
+import { INotificationRepository } from '../../domain/repositories/notification_repository.interface';
+import { INotificationPreferenceRepository } from '../../domain/repositories/notification_preference_repository.interface';
+import { IUserRepository } from '../../domain/repositories/user_repository.interface';
+import { IDriverRepository } from '../../domain/repositories/driver_repository.interface';
+import { IDriverFcmTokenRepository } from '../../domain/repositories/driver_fcm_token_repository.interface';
+import { IEmailService } from '../../domain/services/email_service.interface';
+import { IExpoPushNotificationService } from '../../domain/services/expo_push_notification_service.interface';
+import { ISocketEventService } from '../../domain/services/socket_event_service.interface';
+import { IWebPushService } from '../../domain/services/web_push_service.interface';
+import { createUserFixture } from '../../shared/test/fixtures/user.fixture';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationSkipReason,
+  NotificationType,
+} from '../../shared/constants';
+import { EmailType } from '../../shared/types/email.types';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('NotificationDispatcherService', () => {
+  let dispatcher: NotificationDispatcherService;
+  let updateDeliveries: ReturnType<typeof vi.fn>;
+  let findPreference: ReturnType<typeof vi.fn>;
+  let sendEmail: ReturnType<typeof vi.fn>;
+  let sendToDriver: ReturnType<typeof vi.fn>;
+  let findDevices: ReturnType<typeof vi.fn>;
+  let emitNotification: ReturnType<typeof vi.fn>;
+  let sendToUser: ReturnType<typeof vi.fn>;
+
+  const notification = {
+    notificationId: 'notification-1',
+    userId: 'user-1',
+    type: NotificationType.RESERVATION_CONFIRMED,
+    title: 'Reservation confirmed',
+    message: 'Your reservation RSV-1 is confirmed',
+  };
+
+  const preferenceWith = (
+    channels: { inApp: boolean; email: boolean; push: boolean },
+    quietHours?: NotificationPreference['quietHours']
+  ): NotificationPreference =>
+    new NotificationPreference(
+      'user-1',
+      [{ type: NotificationType.RESERVATION_CONFIRMED, ...channels }],
+      new Date(),
+      new Date(),
+      quietHours
+    );
+
+  const deliveryOn = (deliveries: Awaited<ReturnType<NotificationDispatcherService['dispatch']>>, channel: NotificationChannel) =>
+    deliveries.find((delivery) => delivery.channel === channel);
+
+  beforeEach(() => {
+    updateDeliveries = vi.fn().mockResolvedValue(undefined);
+    findPreference = vi.fn().mockResolvedValue(null);
+    sendEmail = vi.fn().mockResolvedValue(undefined);
+    sendToDriver = vi.fn().mockResolvedValue(true);
+    findDevices = vi.fn().mockResolvedValue([{ fcmToken: 'device-token' }]);
+    emitNotification = vi.fn().mockResolvedValue(false);
+    sendToUser = vi.fn().mockResolvedValue({ devices: 0, delivered: 0, pruned: 0 });
+
+    dispatcher = new NotificationDispatcherService(
+      { updateDeliveries } as unknown as INotificationRepository,
+      { findByUserId: findPreference } as unknown as INotificationPreferenceRepository,
+      { findById: vi.fn().mockResolvedValue(createUserFixture({ userId: 'user-1', email: 'customer@example.com' })) } as unknown as IUserRepository,
+      { findById: vi.fn().mockResolvedValue(null) } as unknown as IDriverRepository,
+      { findByDriverId: findDevices } as unknown as IDriverFcmTokenRepository,
+      { sendEmail } as unknown as IEmailService,
+      { sendToDriver } as unknown as IExpoPushNotificationService,
+      { emitNotification } as unknown as ISocketEventService,
+      { sendToUser } as unknown as IWebPushService
+    );
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should alert a connected user in-app only, with the default channels', async () => {
+    emitNotification.mockResolvedValue(true);
+
+    const deliveries = await dispatcher.dispatch(notification);
+
+    expect(deliveryOn(deliveries, NotificationChannel.IN_APP)?.status).toBe(NotificationDeliveryStatus.SENT);
+    expect(deliveryOn(deliveries, NotificationChannel.EMAIL)).toMatchObject({
+      status: NotificationDeliveryStatus.SKIPPED,
+      reason: NotificationSkipReason.DISABLED,
+    });
+    expect(deliveryOn(deliveries, NotificationChannel.PUSH)).toMatchObject({
+      status: NotificationDeliveryStatus.SKIPPED,
+      reason: NotificationSkipReason.USER_ONLINE,
+    });
+    expect(sendToDriver).not.toHaveBeenCalled();
+    expect(updateDeliveries).toHaveBeenCalledWith('notification-1', deliveries);
+  });
+
+  it('should email and push an offline user who enabled both', async () => {
+    findPreference.mockResolvedValue(preferenceWith({ inApp: true, email: true, push: true }));
+
+    const deliveries = await dispatcher.dispatch(notification);
+
+    expect(deliveryOn(deliveries, NotificationChannel.IN_APP)?.status).toBe(NotificationDeliveryStatus.STORED);
+    expect(deliveryOn(deliveries, NotificationChannel.EMAIL)?.status).toBe(NotificationDeliveryStatus.SENT);
+    expect(deliveryOn(deliveries, NotificationChannel.PUSH)?.status).toBe(NotificationDeliveryStatus.SENT);
+    expect(sendEmail).toHaveBeenCalledWith(
+      EmailType.NOTIFICATION,
+      expect.objectContaining({ email: 'customer@example.com', title: notification.title })
+    );
+  });
+
+  it('should hold back push during quiet hours', async () => {
+    findPreference.mockResolvedValue(
+      preferenceWith({ inApp: true, email: false, push: true }, { enabled: true, start: '00:00', end: '23:59', timezone: 'UTC' })
+    );
+    vi.useFakeTimers();
+    vi.setSystemTime(new Date('2030-01-01T12:00:00Z'));
+
+    const deliveries = await dispatcher.dispatch(notification);
+
+    expect(deliveryOn(deliveries, NotificationChannel.PUSH)).toMatchObject({
+      status: NotificationDeliveryStatus.SKIPPED,
+      reason: NotificationSkipReason.QUIET_HOURS,
+    });
+    expect(sendToDriver).not.toHaveBeenCalled();
+  });
+
+  it('should record channel failures without failing the other channels', async () => {
+    findPreference.mockResolvedValue(preferenceWith({ inApp: false, email: true, push: true }));
+    sendEmail.mockRejectedValue(new Error('SMTP unavailable'));
+    findDevices.mockResolvedValue([]);
+
+    const deliveries = await dispatcher.dispatch(notification);
+
+    expect(emitNotification).not.toHaveBeenCalled();
+    expect(deliveryOn(deliveries, NotificationChannel.IN_APP)?.reason).toBe(NotificationSkipReason.DISABLED);
+    expect(deliveryOn(deliveries, NotificationChannel.EMAIL)).toMatchObject({
+      status: NotificationDeliveryStatus.FAILED,
+      error: 'SMTP unavailable',
+    });
+    expect(deliveryOn(deliveries, NotificationChannel.PUSH)).toMatchObject({
+      status: NotificationDeliveryStatus.SKIPPED,
+      reason: NotificationSkipReason.NO_DEVICE,
+    });
+  });
+
+  it('should push to the subscribed browsers of a customer without the mobile app', async () => {
+    findDevices.mockResolvedValue([]);
+    sendToUser.mockResolvedValue({ devices: 2, delivered: 1, pruned: 1 });
+
+    const deliveries = await dispatcher.dispatch(notification);
+
+    expect(sendToDriver).not.toHaveBeenCalled();
+    expect(sendToUser).toHaveBeenCalledWith(
+      'user-1',
+      expect.objectContaining({ title: notification.title, body: notification.message })
+    );
+    expect(deliveryOn(deliveries, NotificationChannel.PUSH)?.status).toBe(NotificationDeliveryStatus.SENT);
+  });
+
+  it('should treat a user whose only browsers unsubscribed as having no device', async () => {
+    findDevices.mockResolvedValue([]);
+    sendToUser.mockResolvedValue({ devices: 1, delivered: 0, pruned: 1 });
+
+    const deliveries = await dispatcher.dispatch(notification);
+
+    expect(deliveryOn(deliveries, NotificationChannel.PUSH)).toMatchObject({
+      status: NotificationDeliveryStatus.SKIPPED,
+      reason: NotificationSkipReason.NO_DEVICE,
+    });
+  });
+});
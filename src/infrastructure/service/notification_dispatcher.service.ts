@@ -0,0 +1,248 @@
+import { inject, injectable } from 'tsyringe';
+import {
+  IDispatchableNotification,
+  INotificationDispatcherService,
+} from '../../domain/services/notification_dispatcher_service.interface';
+import { INotificationDelivery } from '../../domain/entities/notification.entity';
+import { NotificationPreference } from '../../domain/entities/notification_preference.entity';
+import { INotificationRepository } from '../../domain/repositories/notification_repository.interface';
+import { INotificationPreferenceRepository } from '../../domain/repositories/notification_preference_repository.interface';
+import { IUserRepository } from '../../domain/repositories/user_repository.interface';
+import { IDriverRepository } from '../../domain/repositories/driver_repository.interface';
+import { IDriverFcmTokenRepository } from '../../domain/repositories/driver_fcm_token_repository.interface';
+import { IEmailService } from '../../domain/services/email_service.interface';
+import { IExpoPushNotificationService } from '../../domain/services/expo_push_notification_service.interface';
+import { ISocketEventService } from '../../domain/services/socket_event_service.interface';
+import { IWebPushService } from '../../domain/services/web_push_service.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../application/di/tokens';
+import {
+  NotificationChannel,
+  NotificationDeliveryStatus,
+  NotificationSkipReason,
+} from '../../shared/constants';
+import { EmailType, NotificationEmailData } from '../../shared/types/email.types';
+import { FRONTEND_CONFIG } from '../../shared/config';
+import { logger } from '../../shared/logger';
+
+/**
+ * Notification dispatcher service
+ * Delivers each notification on the channels the recipient chose:
+ * - in-app: always kept in the notification centre, with a live alert when enabled and the user is connected
+ * - email: sent to the account address
+ * - push: sent to the user's mobile devices and subscribed browsers unless they already got the live alert
+ *   or it is their quiet hours
+ */
+@injectable()
+export class NotificationDispatcherService implements INotificationDispatcherService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.INotificationRepository)
+    private readonly notificationRepository: INotificationRepository,
+    @inject(REPOSITORY_TOKENS.INotificationPreferenceRepository)
+    private readonly preferenceRepository: INotificationPreferenceRepository,
+    @inject(REPOSITORY_TOKENS.IUserRepository)
+    private readonly userRepository: IUserRepository,
+    @inject(REPOSITORY_TOKENS.IDriverRepository)
+    private readonly driverRepository: IDriverRepository,
+    @inject(REPOSITORY_TOKENS.IDriverFcmTokenRepository)
+    private readonly fcmTokenRepository: IDriverFcmTokenRepository,
+    @inject(SERVICE_TOKENS.IEmailService)
+    private readonly emailService: IEmailService,
+    @inject(SERVICE_TOKENS.IExpoPushNotificationService)
+    private readonly expoPushService: IExpoPushNotificationService,
+    @inject(SERVICE_TOKENS.ISocketEventService)
+    private readonly socketEventService: ISocketEventService,
+    @inject(SERVICE_TOKENS.IWebPushService)
+    private readonly webPushService: IWebPushService
+  ) {}
+
+  async dispatch(notification: IDispatchableNotification): Promise<INotificationDelivery[]> {
+    const preference = await this.getPreference(notification.userId);
+    const channels = preference.channelsFor(notification.type);
+
+    const inApp = await this.deliverInApp(notification, channels.inApp);
+    const email = await this.deliverEmail(notification, channels.email);
+    const push = await this.deliverPush(
+      notification,
+      channels.push,
+      inApp.status === NotificationDeliveryStatus.SENT,
+      preference.isInQuietHours()
+    );
+
+    const deliveries = [inApp, email, push];
+
+    try {
+      await this.notificationRepository.updateDeliveries(notification.notificationId, deliveries);
+    } catch (error) {
+      logger.error(
+        `Error recording deliveries for notification ${notification.notificationId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+    }
+
+    return deliveries;
+  }
+
+  /**
+   * Gets the recipient's preferences, falling back to the defaults
+   */
+  private async getPreference(userId: string): Promise<NotificationPreference> {
+    try {
+      const preference = await this.preferenceRepository.findByUserId(userId);
+      return preference ?? NotificationPreference.createDefault(userId);
+    } catch (error) {
+      logger.error(
+        `Error loading notification preferences for user ${userId}, using defaults: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return NotificationPreference.createDefault(userId);
+    }
+  }
+
+  private async deliverInApp(
+    notification: IDispatchableNotification,
+    enabled: boolean
+  ): Promise<INotificationDelivery> {
+    // The notification centre keeps every notification; the preference only controls the live alert
+    if (!enabled) {
+      return this.skipped(NotificationChannel.IN_APP, NotificationSkipReason.DISABLED);
+    }
+
+    try {
+      const deliveredLive = await this.socketEventService.emitNotification({
+        userId: notification.userId,
+        type: notification.type,
+        title: notification.title,
+        message: notification.message,
+        data: {
+          ...notification.data,
+          notificationId: notification.notificationId,
+          count: notification.count ?? 1,
+        },
+      });
+
+      return {
+        channel: NotificationChannel.IN_APP,
+        status: deliveredLive ? NotificationDeliveryStatus.SENT : NotificationDeliveryStatus.STORED,
+        attemptedAt: new Date(),
+      };
+    } catch (error) {
+      return this.failed(NotificationChannel.IN_APP, error);
+    }
+  }
+
+  private async deliverEmail(
+    notification: IDispatchableNotification,
+    enabled: boolean
+  ): Promise<INotificationDelivery> {
+    if (!enabled) {
+      return this.skipped(NotificationChannel.EMAIL, NotificationSkipReason.DISABLED);
+    }
+
+    try {
+      // Notifications go to customers and drivers alike
+      const recipient =
+        (await this.userRepository.findById(notification.userId)) ??
+        (await this.driverRepository.findById(notification.userId));
+      if (!recipient?.email) {
+        return this.skipped(NotificationChannel.EMAIL, NotificationSkipReason.NO_EMAIL);
+      }
+
+      const emailData: NotificationEmailData = {
+        email: recipient.email,
+        fullName: recipient.fullName,
+        title: notification.title,
+        message: notification.message,
+        viewLink: `${FRONTEND_CONFIG.URL}/notifications`,
+      };
+      await this.emailService.sendEmail(EmailType.NOTIFICATION, emailData);
+
+      return {
+        channel: NotificationChannel.EMAIL,
+        status: NotificationDeliveryStatus.SENT,
+        attemptedAt: new Date(),
+      };
+    } catch (error) {
+      return this.failed(NotificationChannel.EMAIL, error);
+    }
+  }
+
+  private async deliverPush(
+    notification: IDispatchableNotification,
+    enabled: boolean,
+    deliveredLive: boolean,
+    inQuietHours: boolean
+  ): Promise<INotificationDelivery> {
+    if (!enabled) {
+      return this.skipped(NotificationChannel.PUSH, NotificationSkipReason.DISABLED);
+    }
+
+    if (deliveredLive) {
+      return this.skipped(NotificationChannel.PUSH, NotificationSkipReason.USER_ONLINE);
+    }
+
+    if (inQuietHours) {
+      return this.skipped(NotificationChannel.PUSH, NotificationSkipReason.QUIET_HOURS);
+    }
+
+    try {
+      const data = {
+        type: 'notification',
+        notificationId: notification.notificationId,
+        count: notification.count ?? 1,
+        ...notification.data,
+      };
+
+      // Drivers use the mobile app; customers and admins subscribe their browsers
+      const mobileDevices = await this.fcmTokenRepository.findByDriverId(notification.userId);
+      const sentToMobile =
+        mobileDevices.length > 0 &&
+        (await this.expoPushService.sendToDriver(notification.userId, {
+          title: notification.title,
+          body: notification.message,
+          data,
+          sound: 'default',
+        }));
+
+      const browsers = await this.webPushService.sendToUser(notification.userId, {
+        title: notification.title,
+        body: notification.message,
+        data,
+      });
+
+      // Browsers that unsubscribed were pruned and no longer count as devices
+      if (mobileDevices.length === 0 && browsers.devices === browsers.pruned) {
+        return this.skipped(NotificationChannel.PUSH, NotificationSkipReason.NO_DEVICE);
+      }
+
+      if (!sentToMobile && browsers.delivered === 0) {
+        return this.failed(NotificationChannel.PUSH, new Error('Push service did not accept the notification'));
+      }
+
+      return {
+        channel: NotificationChannel.PUSH,
+        status: NotificationDeliveryStatus.SENT,
+        attemptedAt: new Date(),
+      };
+    } catch (error) {
+      return this.failed(NotificationChannel.PUSH, error);
+    }
+  }
+
+  private skipped(channel: NotificationChannel, reason: NotificationSkipReason): INotificationDelivery {
+    return {
+      channel,
+      status: NotificationDeliveryStatus.SKIPPED,
+      reason,
+      attemptedAt: new Date(),
+    };
+  }
+
+  private failed(channel: NotificationChannel, error: unknown): INotificationDelivery {
+    const message = error instanceof Error ? error.message : 'Unknown error';
+    logger.error(`Error delivering notification on ${channel}: ${message}`);
+    return {
+      channel,
+      status: NotificationDeliveryStatus.FAILED,
+      error: message,
+      attemptedAt: new Date(),
+    };
+  }
+}
@@ -19,6 +19,8 @@ export class OTPServiceImpl implements IOTPService {
     const key = `${OTP_CONFIG.REDIS_PREFIX}${email}`;
     // Store with expiry time (convert milliseconds to seconds)
     await this.redisConnection.setex(key, OTP_CONFIG.EXPIRY_TIME / 1000, otp);
+    await this.redisConnection.setex(`${OTP_CONFIG.COOLDOWN_PREFIX}${email}`, OTP_CONFIG.RESEND_COOLDOWN_SECONDS, 'true');
+    await this.redisConnection.del(`${OTP_CONFIG.ATTEMPTS_PREFIX}${email}`);
   }
 
   async getOTP(email: string): Promise<string | null> {
@@ -29,6 +31,20 @@ export class OTPServiceImpl implements IOTPService {
   async deleteOTP(email: string): Promise<void> {
     const key = `${OTP_CONFIG.REDIS_PREFIX}${email}`;
     await this.redisConnection.del(key);
+    await this.redisConnection.del(`${OTP_CONFIG.ATTEMPTS_PREFIX}${email}`);
+  }
+
+  async getResendCooldown(email: string): Promise<number> {
+    const ttl = await this.redisConnection.ttl(`${OTP_CONFIG.COOLDOWN_PREFIX}${email}`);
+    return Math.max(ttl, 0);
+  }
+
+  async recordFailedAttempt(email: string): Promise<number> {
+    const key = `${OTP_CONFIG.ATTEMPTS_PREFIX}${email}`;
+    const attempts = await this.redisConnection.incr(key);
+    // Forgotten together with the code it counts against
+    await this.redisConnection.expire(key, OTP_CONFIG.EXPIRY_TIME / 1000);
+    return attempts;
   }
 
   isConnected(): boolean {
@@ -1,7 +1,13 @@
 import { injectable } from 'tsyringe';
 // eslint-disable-next-line @typescript-eslint/no-require-imports
 const PDFDocument = require('pdfkit') as typeof import('pdfkit');
-import { IPDFGenerationService, IQuotePDFData, IInvoicePDFData } from '../../domain/services/pdf_generation_service.interface';
+import {
+  IPDFGenerationService,
+  IQuotePDFData,
+  IInvoicePDFData,
+  ICorporateInvoicePDFData,
+} from '../../domain/services/pdf_generation_service.interface';
+import { formatCurrency as formatCurrencyAmount } from '../../shared/utils/currency.util';
 import { TripType } from '../../shared/constants';
 import { logger } from '../../shared/logger';
 
@@ -166,7 +172,7 @@ export class PDFGenerationServiceImpl implements IPDFGenerationService {
 
           const pricing = data.quote.pricing;
           const formatCurrency = (amount: number) => {
-            return `₹${amount.toLocaleString('en-IN', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}`;
+            return formatCurrencyAmount(amount, pricing.currency ?? data.quote.currency);
           };
 
           doc.fontSize(11);
@@ -194,6 +200,13 @@ export class PDFGenerationServiceImpl implements IPDFGenerationService {
             yPosition += 20;
           }
 
+          for (const item of pricing.lineItems ?? []) {
+            const amount = item.amount < 0 ? `-${formatCurrency(-item.amount)}` : formatCurrency(item.amount);
+            doc.fillColor('#6b7280').text(`${item.description}:`, 50, yPosition);
+            doc.fillColor('#1a1a1a').text(amount, 400, yPosition, { align: 'right' });
+            yPosition += 20;
+          }
+
           yPosition += 10;
           doc.moveTo(50, yPosition).lineTo(550, yPosition).strokeColor('#d1d5db').lineWidth(1).stroke();
           yPosition += 15;
@@ -202,6 +215,12 @@ export class PDFGenerationServiceImpl implements IPDFGenerationService {
           doc.fillColor('#1a1a1a').text(formatCurrency(pricing.subtotal ?? 0), 400, yPosition, { align: 'right' });
           yPosition += 20;
 
+          if ((pricing.discount ?? 0) > 0) {
+            doc.fillColor('#6b7280').text(pricing.promoCode ? `Discount (${pricing.promoCode}):` : 'Discount:', 50, yPosition);
+            doc.fillColor('#1a1a1a').text(`-${formatCurrency(pricing.discount ?? 0)}`, 400, yPosition, { align: 'right' });
+            yPosition += 20;
+          }
+
           doc.fillColor('#6b7280').text('Tax:', 50, yPosition);
           doc.fillColor('#1a1a1a').text(formatCurrency(pricing.tax ?? 0), 400, yPosition, { align: 'right' });
           yPosition += 20;
@@ -251,10 +270,7 @@ export class PDFGenerationServiceImpl implements IPDFGenerationService {
 
         // Format currency helper
         const formatCurrency = (amount: number): string => {
-          return new Intl.NumberFormat('en-IN', {
-            style: 'currency',
-            currency: 'INR',
-          }).format(amount);
+          return formatCurrencyAmount(amount, data.currency ?? data.reservation.originalPricing?.currency);
         };
 
         // Format date helper
@@ -274,26 +290,42 @@ export class PDFGenerationServiceImpl implements IPDFGenerationService {
           .fillColor('#C5630C')
           .text('GRANDLINE', 50, 50, { align: 'center' });
 
+        const isCreditNote = data.documentType === 'credit_note';
+        const title =
+          data.documentType === 'receipt' ? 'Receipt' : isCreditNote ? 'Credit Note' : 'Invoice';
+
         doc
           .fontSize(18)
           .fillColor('#1a1a1a')
-          .text('Invoice', 50, 85, { align: 'center' });
+          .text(title, 50, 85, { align: 'center' });
 
         // Invoice Details Section
         let yPosition = 130;
 
-        doc.fontSize(14).fillColor('#6b7280').text('Invoice Number:', 50, yPosition);
+        doc.fontSize(14).fillColor('#6b7280').text(`${title} Number:`, 50, yPosition);
         doc.fillColor('#1a1a1a').text(data.invoiceNumber, 200, yPosition);
         yPosition += 25;
 
+        if (data.relatedInvoiceNumber) {
+          doc.fillColor('#6b7280').text('Credits Document:', 50, yPosition);
+          doc.fillColor('#1a1a1a').text(data.relatedInvoiceNumber, 200, yPosition);
+          yPosition += 25;
+        }
+
         doc.fillColor('#6b7280').text('Reservation Number:', 50, yPosition);
         doc.fillColor('#1a1a1a').text(data.reservation.reservationNumber, 200, yPosition);
         yPosition += 25;
 
-        doc.fillColor('#6b7280').text('Invoice Date:', 50, yPosition);
+        doc.fillColor('#6b7280').text(`${title} Date:`, 50, yPosition);
         doc.fillColor('#1a1a1a').text(formatDate(data.paymentDate), 200, yPosition);
         yPosition += 25;
 
+        if (data.description) {
+          doc.fillColor('#6b7280').text('Description:', 50, yPosition);
+          doc.fillColor('#1a1a1a').text(data.description, 200, yPosition, { width: 350 });
+          yPosition = doc.y + 10;
+        }
+
         // Customer Details
         yPosition += 10;
         doc.fontSize(16).fillColor('#C5630C').text('Customer Details', 50, yPosition);
@@ -334,24 +366,30 @@ export class PDFGenerationServiceImpl implements IPDFGenerationService {
 
         // Payment Details
         yPosition += 10;
-        doc.fontSize(16).fillColor('#C5630C').text('Payment Details', 50, yPosition);
+        doc.fontSize(16).fillColor('#C5630C').text(isCreditNote ? 'Refund Details' : 'Payment Details', 50, yPosition);
         yPosition += 25;
 
-        doc.fontSize(12).fillColor('#6b7280').text('Payment Method:', 50, yPosition);
+        doc.fontSize(12).fillColor('#6b7280').text(isCreditNote ? 'Refunded To:' : 'Payment Method:', 50, yPosition);
         doc.fillColor('#1a1a1a').text(data.paymentMethod, 150, yPosition);
         yPosition += 20;
 
-        doc.fillColor('#6b7280').text('Payment Date:', 50, yPosition);
+        doc.fillColor('#6b7280').text(isCreditNote ? 'Refund Date:' : 'Payment Date:', 50, yPosition);
         doc.fillColor('#1a1a1a').text(formatDate(data.paymentDate), 150, yPosition);
         yPosition += 20;
 
+        if (data.reason) {
+          doc.fillColor('#6b7280').text('Reason:', 50, yPosition);
+          doc.fillColor('#1a1a1a').text(data.reason, 150, yPosition, { width: 400 });
+          yPosition = doc.y + 10;
+        }
+
         // Total Amount
         yPosition += 20;
         doc.moveTo(50, yPosition).lineTo(550, yPosition).strokeColor('#C5630C').lineWidth(2).stroke();
         yPosition += 15;
 
         doc.fontSize(14).font('Helvetica-Bold');
-        doc.fillColor('#C5630C').text('Total Amount Paid:', 50, yPosition);
+        doc.fillColor('#C5630C').text(isCreditNote ? 'Total Amount Refunded:' : 'Total Amount Paid:', 50, yPosition);
         doc.fillColor('#C5630C').text(formatCurrency(data.paymentAmount), 400, yPosition, { align: 'right' });
 
         // Footer
@@ -377,4 +415,148 @@ export class PDFGenerationServiceImpl implements IPDFGenerationService {
       }
     });
   }
+
+  async generateCorporateInvoicePDF(data: ICorporateInvoicePDFData): Promise<Buffer> {
+    return new Promise((resolve, reject) => {
+      try {
+        const doc = new PDFDocument({ margin: 50, size: 'A4' });
+        const buffers: Buffer[] = [];
+        const { invoice, account } = data;
+
+        doc.on('data', (buffer: Buffer) => buffers.push(buffer));
+        doc.on('end', () => resolve(Buffer.concat(buffers)));
+        doc.on('error', (error: Error) => reject(error));
+
+        // Format currency helper
+        const formatCurrency = (amount: number): string => {
+          return formatCurrencyAmount(amount, invoice.currency);
+        };
+
+        // Format date helper
+        const formatDate = (date: Date): string => {
+          return new Intl.DateTimeFormat('en-US', {
+            year: 'numeric',
+            month: 'long',
+            day: 'numeric',
+          }).format(new Date(date));
+        };
+
+        // Header
+        doc
+          .fontSize(24)
+          .fillColor('#C5630C')
+          .text('GRANDLINE', 50, 50, { align: 'center' });
+
+        doc
+          .fontSize(18)
+          .fillColor('#1a1a1a')
+          .text('Monthly Invoice', 50, 85, { align: 'center' });
+
+        // Invoice Details Section
+        let yPosition = 130;
+
+        doc.fontSize(12).fillColor('#6b7280').text('Invoice Number:', 50, yPosition);
+        doc.fillColor('#1a1a1a').text(invoice.invoiceNumber, 200, yPosition);
+        yPosition += 20;
+
+        doc.fillColor('#6b7280').text('Billing Period:', 50, yPosition);
+        doc
+          .fillColor('#1a1a1a')
+          .text(`${formatDate(invoice.periodStart)} - ${formatDate(invoice.periodEnd)}`, 200, yPosition);
+        yPosition += 20;
+
+        doc.fillColor('#6b7280').text('Invoice Date:', 50, yPosition);
+        doc.fillColor('#1a1a1a').text(formatDate(invoice.issuedAt), 200, yPosition);
+        yPosition += 20;
+
+        doc.fillColor('#6b7280').text('Due Date:', 50, yPosition);
+        doc
+          .fillColor('#1a1a1a')
+          .text(`${formatDate(invoice.dueAt)} (net ${account.paymentTermsDays})`, 200, yPosition);
+        yPosition += 20;
+
+        // Bill To
+        yPosition += 10;
+        doc.fontSize(16).fillColor('#C5630C').text('Bill To', 50, yPosition);
+        yPosition += 25;
+
+        doc.fontSize(12).fillColor('#1a1a1a').text(account.name, 50, yPosition);
+        yPosition += 18;
+
+        doc.fillColor('#6b7280').text(`Attn: ${account.billingContact.name}`, 50, yPosition);
+        yPosition += 18;
+
+        doc.text(account.billingContact.email, 50, yPosition);
+        yPosition += 18;
+
+        if (account.billingAddress) {
+          doc.text(account.billingAddress, 50, yPosition, { width: 300 });
+          yPosition = doc.y + 4;
+        }
+
+        if (account.taxId) {
+          doc.text(`Tax ID: ${account.taxId}`, 50, yPosition);
+          yPosition += 18;
+        }
+
+        // Line Items
+        yPosition += 15;
+        doc.fontSize(16).fillColor('#C5630C').text('Reservations', 50, yPosition);
+        yPosition += 25;
+
+        doc.fontSize(10).font('Helvetica-Bold').fillColor('#6b7280');
+        doc.text('Reservation', 50, yPosition);
+        doc.text('Description', 150, yPosition);
+        doc.text('Booked', 360, yPosition);
+        doc.text('Amount', 450, yPosition, { width: 100, align: 'right' });
+        yPosition += 15;
+        doc.moveTo(50, yPosition).lineTo(550, yPosition).strokeColor('#e5e7eb').lineWidth(1).stroke();
+        yPosition += 8;
+
+        doc.font('Helvetica').fillColor('#1a1a1a');
+        for (const item of invoice.lineItems) {
+          if (yPosition > doc.page.height - 120) {
+            doc.addPage();
+            yPosition = 50;
+          }
+
+          doc.text(item.reservationNumber, 50, yPosition, { width: 95 });
+          doc.text(item.description, 150, yPosition, { width: 200 });
+          const rowBottom = doc.y;
+          doc.text(formatDate(item.bookedAt), 360, yPosition, { width: 90 });
+          doc.text(formatCurrency(item.amount), 450, yPosition, { width: 100, align: 'right' });
+          yPosition = Math.max(rowBottom, doc.y) + 8;
+        }
+
+        // Total Amount
+        yPosition += 10;
+        doc.moveTo(50, yPosition).lineTo(550, yPosition).strokeColor('#C5630C').lineWidth(2).stroke();
+        yPosition += 15;
+
+        doc.fontSize(14).font('Helvetica-Bold');
+        doc.fillColor('#C5630C').text('Total Due:', 50, yPosition);
+        doc.fillColor('#C5630C').text(formatCurrency(invoice.totalAmount), 400, yPosition, { align: 'right' });
+
+        // Footer
+        const pageHeight = doc.page.height;
+        doc
+          .fontSize(10)
+          .font('Helvetica')
+          .fillColor('#6b7280')
+          .text(
+            `Please quote ${invoice.invoiceNumber} with your payment. Generated on ${formatDate(new Date())}`,
+            50,
+            pageHeight - 50,
+            { align: 'center' }
+          );
+
+        doc.end();
+      } catch (error) {
+        logger.error(
+          `Error generating corporate invoice PDF: ${error instanceof Error ? error.message : 'Unknown error'}`
+        );
+        reject(error instanceof Error ? error : new Error('Unknown error generating corporate invoice PDF'));
+      }
+    });
+  }
 }
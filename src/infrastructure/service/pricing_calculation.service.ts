@@ -7,6 +7,7 @@ import { IPricingBreakdown, IRouteData } from '../../domain/entities/quote.entit
 import { QuoteItinerary } from '../../domain/entities/quote_itinerary.entity';
 import { Vehicle } from '../../domain/entities/vehicle.entity';
 import { Amenity } from '../../domain/entities/amenity.entity';
+import { normalizeCurrency, roundCurrencyAmount } from '../../shared/utils/currency.util';
 
 /**
  * Pricing calculation service implementation
@@ -15,34 +16,60 @@ import { Amenity } from '../../domain/entities/amenity.entity';
 @injectable()
 export class PricingCalculationServiceImpl implements IPricingCalculationService {
   calculatePricing(input: IPricingCalculationInput): IPricingBreakdown {
-    const baseFare = this.calculateBaseFare(input.selectedVehicles);
+    const baseCurrency = normalizeCurrency(input.pricingConfig.currency);
+    const currency = normalizeCurrency(input.exchangeRate?.currency ?? baseCurrency);
+    const exchangeRate = input.exchangeRate?.rate ?? 1;
+
+    // Amounts stay unrounded in the base currency; converted amounts follow the target currency's precision
+    const convert = (amount: number): number =>
+      input.exchangeRate ? roundCurrencyAmount(amount * exchangeRate, currency) : amount;
+
     const totalDistance = this.calculateTotalDistance(input.routeData);
     const totalDuration = this.calculateTotalDuration(input.routeData);
 
-    const distanceFare = this.calculateDistanceFare(
-      totalDistance,
-      input.selectedVehicles,
-      input.pricingConfig.fuelPrice
+    const baseFare = convert(this.calculateBaseFare(input.selectedVehicles));
+
+    const distanceFare = convert(
+      this.calculateDistanceFare(
+        totalDistance,
+        input.selectedVehicles,
+        input.pricingConfig.fuelPrice,
+        input.pricingConfig.useActualFuelConsumption
+      )
     );
 
-    const driverCharge = this.calculateDriverCharge(
-      totalDuration,
-      input.pricingConfig.averageDriverPerHourRate
+    const driverCharge = convert(
+      this.calculateDriverCharge(
+        totalDuration,
+        input.driverRatePerHour ?? input.pricingConfig.averageDriverPerHourRate
+      )
     );
 
-    const nightCharge = this.calculateNightCharge(
-      [...input.itinerary.outbound, ...(input.itinerary.return || [])],
-      input.pricingConfig.nightChargePerNight
+    const nightCharge = convert(
+      this.calculateNightCharge(
+        [...input.itinerary.outbound, ...(input.itinerary.return || [])],
+        input.pricingConfig.nightChargePerNight
+      )
     );
 
-    const amenitiesTotal = this.calculateAmenitiesTotal(input.selectedAmenities);
+    const amenitiesTotal = convert(this.calculateAmenitiesTotal(input.selectedAmenities));
 
     const subtotal =
       baseFare + distanceFare + driverCharge + nightCharge + amenitiesTotal;
 
-    const tax = this.calculateTax(subtotal, input.pricingConfig.taxPercentage);
+    const discount = input.promoCode
+      ? this.roundIfConverted(input.promoCode.calculateDiscount(subtotal, exchangeRate), currency, !!input.exchangeRate)
+      : 0;
+
+    const taxableAmount = subtotal - discount;
 
-    const total = subtotal + tax;
+    const tax = this.roundIfConverted(
+      this.calculateTax(taxableAmount, input.pricingConfig.taxPercentage),
+      currency,
+      !!input.exchangeRate
+    );
+
+    const total = taxableAmount + tax;
 
     return {
       fuelPriceAtTime: input.pricingConfig.fuelPrice,
@@ -55,8 +82,13 @@ export class PricingCalculationServiceImpl implements IPricingCalculationService
       nightCharge,
       amenitiesTotal,
       subtotal,
+      discount,
+      promoCode: input.promoCode?.code,
       tax,
       total,
+      currency,
+      baseCurrency,
+      exchangeRateAtTime: exchangeRate,
     };
   }
 
@@ -69,12 +101,13 @@ export class PricingCalculationServiceImpl implements IPricingCalculationService
   calculateDistanceFare(
     totalDistance: number,
     vehicles: Array<{ vehicle: Vehicle; quantity: number }>,
-    fuelPrice: number
+    fuelPrice: number,
+    useActualFuelConsumption: boolean = false
   ): number {
     // Distance fare = distance × fuel consumption (L/km) × fuel price
     // Note: fuelConsumption is stored as km/L in DB, convert to L/km: 1 / (km/L) = L/km
     const totalFuelConsumption = vehicles.reduce((total, { vehicle, quantity }) => {
-      const fuelConsumptionInLPerKm = 1 / vehicle.fuelConsumption; // Convert km/L to L/km
+      const fuelConsumptionInLPerKm = 1 / vehicle.getPricingFuelConsumption(useActualFuelConsumption); // Convert km/L to L/km
       return total + fuelConsumptionInLPerKm * quantity;
     }, 0);
 
@@ -123,6 +156,10 @@ export class PricingCalculationServiceImpl implements IPricingCalculationService
     return (subtotal * taxPercentage) / 100;
   }
 
+  private roundIfConverted(amount: number, currency: string, converted: boolean): number {
+    return converted ? roundCurrencyAmount(amount, currency) : amount;
+  }
+
   private calculateTotalDistance(routeData?: IRouteData): number {
     if (!routeData) {
       return 0;
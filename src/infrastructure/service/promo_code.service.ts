@@ -0,0 +1,85 @@
+import { inject, injectable } from 'tsyringe';
+import { IPromoCodeService } from '../../domain/services/promo_code_service.interface';
+import { PromoCode, PromoCodeIneligibilityReason } from '../../domain/entities/promo_code.entity';
+import { Quote } from '../../domain/entities/quote.entity';
+import { IPromoCodeRepository } from '../../domain/repositories/promo_code_repository.interface';
+import { IPromoCodeRedemptionRepository } from '../../domain/repositories/promo_code_redemption_repository.interface';
+import { REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { logger } from '../../shared/logger';
+
+/**
+ * Promo code service implementation
+ * Drafts re-check eligibility on every pricing run; submitted quotes keep the code they were priced with
+ */
+@injectable()
+export class PromoCodeServiceImpl implements IPromoCodeService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IPromoCodeRepository)
+    private readonly promoCodeRepository: IPromoCodeRepository,
+    @inject(REPOSITORY_TOKENS.IPromoCodeRedemptionRepository)
+    private readonly promoCodeRedemptionRepository: IPromoCodeRedemptionRepository
+  ) {}
+
+  async checkEligibility(
+    promoCode: PromoCode,
+    quote: Quote,
+    now: Date = new Date()
+  ): Promise<PromoCodeIneligibilityReason | null> {
+    const userRedemptionCount =
+      promoCode.perUserLimit !== undefined
+        ? await this.promoCodeRedemptionRepository.countByPromoCodeAndUser(promoCode.promoCodeId, quote.userId)
+        : 0;
+
+    return promoCode.getIneligibilityReason(quote.eventType, userRedemptionCount, now);
+  }
+
+  async findEligibleForQuote(quote: Quote): Promise<PromoCode | undefined> {
+    if (!quote.promoCode) {
+      return undefined;
+    }
+
+    const promoCode = await this.promoCodeRepository.findByCode(quote.promoCode);
+    if (!promoCode) {
+      logger.warn(`Promo code ${quote.promoCode} on quote ${quote.quoteId} no longer exists, pricing without it`);
+      return undefined;
+    }
+
+    const reason = await this.checkEligibility(promoCode, quote);
+    if (reason) {
+      logger.info(`Promo code ${promoCode.code} no longer applies to quote ${quote.quoteId} (${reason}), pricing without it`);
+      return undefined;
+    }
+
+    return promoCode;
+  }
+
+  async findAppliedToQuote(quote: Quote): Promise<PromoCode | undefined> {
+    const code = quote.pricing?.promoCode;
+    if (!code) {
+      return undefined;
+    }
+
+    const promoCode = await this.promoCodeRepository.findByCode(code);
+    if (!promoCode) {
+      logger.warn(`Promo code ${code} applied to quote ${quote.quoteId} no longer exists, repricing without it`);
+      return undefined;
+    }
+
+    return promoCode;
+  }
+
+  async checkRedemptionLimits(quote: Quote): Promise<PromoCodeIneligibilityReason | null> {
+    const code = quote.pricing?.promoCode;
+    if (!code) {
+      return null;
+    }
+
+    const promoCode = await this.promoCodeRepository.findByCode(code);
+    if (!promoCode) {
+      return null;
+    }
+
+    const reason = await this.checkEligibility(promoCode, quote);
+    return reason === 'usage_limit_reached' || reason === 'user_limit_reached' ? reason : null;
+  }
+}
@@ -2,11 +2,24 @@ import { injectable } from 'tsyringe';
 import { IQueueService } from '../../domain/services/queue_service.interface';
 import { driverAssignmentQueue, AssignDriverJobData, ProcessPendingQuotesJobData } from '../queue/driver_assignment.queue';
 import { quoteExpiryQueue, QuoteExpiryJobData } from '../queue/quote_expiry.queue';
+import { vehicleMaintenanceQueue, VehicleMaintenanceJobData } from '../queue/vehicle_maintenance.queue';
+import { webhookRetryQueue, WebhookRetryJobData } from '../queue/webhook_retry.queue';
+import { balancePaymentQueue, BalancePaymentJobData } from '../queue/balance_payment.queue';
+import { corporateInvoiceQueue, CorporateInvoiceJobData } from '../queue/corporate_invoice.queue';
+import { quoteFollowUpQueue, QuoteFollowUpJobData } from '../queue/quote_follow_up.queue';
+import { notificationDigestQueue, NotificationDigestJobData } from '../queue/notification_digest.queue';
+import {
+  PAYMENT_PLAN_CONFIG,
+  CORPORATE_CONFIG,
+  QUOTE_FOLLOW_UP_CONFIG,
+  NOTIFICATION_DIGEST_CONFIG,
+} from '../../shared/config';
 import { logger } from '../../shared/logger';
 
 /**
  * Queue Service Implementation
- * Adds jobs to Bull queues for driver assignment
+ * Adds jobs to Bull queues for driver assignment, quote expiry, quote follow-ups, vehicle maintenance,
+ * webhook retries, balance payments, corporate invoicing and notification digests
  */
 @injectable()
 export class QueueServiceImpl implements IQueueService {
@@ -133,4 +146,302 @@ export class QueueServiceImpl implements IQueueService {
       // Don't throw - job addition failure shouldn't break the flow
     }
   }
+
+  /**
+   * Adds a delayed job to remind the customer before the 24-hour payment window closes
+   * Skipped when the reminder time has already passed
+   * @param quoteId - The quote ID
+   * @param quotedAt - The timestamp when the quote was quoted
+   */
+  async addQuoteReminderJob(quoteId: string, quotedAt: Date): Promise<void> {
+    try {
+      const jobData: QuoteFollowUpJobData = {
+        jobType: 'quote-reminder',
+        quoteId,
+      };
+
+      const remindAt =
+        quotedAt.getTime() +
+        (QUOTE_FOLLOW_UP_CONFIG.PAYMENT_WINDOW_HOURS - QUOTE_FOLLOW_UP_CONFIG.REMINDER_HOURS_BEFORE_EXPIRY) * 60 * 60 * 1000;
+      const delay = remindAt - Date.now();
+
+      if (delay > 0) {
+        await quoteFollowUpQueue.add(jobData, {
+          jobId: `quote-reminder:${quoteId}:${quotedAt.getTime()}`, // One reminder per quoting round
+          delay,
+          removeOnComplete: true,
+          removeOnFail: false,
+        });
+        logger.info(`Quote reminder job scheduled for quote ${quoteId} at ${new Date(remindAt).toISOString()}`);
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to add quote reminder job for quote ${quoteId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - job addition failure shouldn't break the flow
+    }
+  }
+
+  /**
+   * Adds a job to email the customer once their quote has expired
+   * @param quoteId - The expired quote ID
+   */
+  async addQuoteExpiredJob(quoteId: string): Promise<void> {
+    try {
+      const jobData: QuoteFollowUpJobData = {
+        jobType: 'quote-expired',
+        quoteId,
+      };
+
+      await quoteFollowUpQueue.add(jobData, {
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      // No log - event-driven jobs don't need enqueue confirmation
+    } catch (error) {
+      logger.error(
+        `Failed to add quote expired job for quote ${quoteId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - job addition failure shouldn't break the flow
+    }
+  }
+
+  /**
+   * Adds a delayed job to nudge the customer about a draft quote after a period of inactivity
+   * The job checks the draft's last activity when it runs, so it is only scheduled once per activity time
+   * @param quoteId - The draft quote ID
+   * @param lastActivityAt - When the draft was last saved
+   */
+  async addDraftReminderJob(quoteId: string, lastActivityAt: Date): Promise<void> {
+    try {
+      const jobData: QuoteFollowUpJobData = {
+        jobType: 'draft-reminder',
+        quoteId,
+      };
+
+      const remindAt = lastActivityAt.getTime() + QUOTE_FOLLOW_UP_CONFIG.DRAFT_NUDGE_HOURS * 60 * 60 * 1000;
+
+      await quoteFollowUpQueue.add(jobData, {
+        jobId: `draft-reminder:${quoteId}:${remindAt}`,
+        delay: Math.max(0, remindAt - Date.now()),
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      // No log - drafts are created far more often than they are abandoned
+    } catch (error) {
+      logger.error(
+        `Failed to add draft reminder job for quote ${quoteId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - job addition failure shouldn't break the flow
+    }
+  }
+
+  /**
+   * Adds delayed jobs for the start and end of a maintenance window
+   * Fixed jobIds let the jobs be removed when the window is closed early
+   * @param windowId - The maintenance window ID
+   * @param startAt - When the vehicle goes into maintenance
+   * @param endAt - When the window is closed if nobody completed it earlier
+   */
+  async addMaintenanceWindowJobs(windowId: string, startAt: Date, endAt: Date): Promise<void> {
+    try {
+      const startJobData: VehicleMaintenanceJobData = {
+        jobType: 'maintenance-start',
+        windowId,
+      };
+      const endJobData: VehicleMaintenanceJobData = {
+        jobType: 'maintenance-end',
+        windowId,
+      };
+
+      // Windows that already started are picked up straight away
+      await vehicleMaintenanceQueue.add(startJobData, {
+        jobId: `maintenance-start:${windowId}`,
+        delay: Math.max(0, startAt.getTime() - Date.now()),
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      await vehicleMaintenanceQueue.add(endJobData, {
+        jobId: `maintenance-end:${windowId}`,
+        delay: Math.max(0, endAt.getTime() - Date.now()),
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      logger.info(
+        `Maintenance jobs scheduled for window ${windowId}: ${startAt.toISOString()} to ${endAt.toISOString()}`
+      );
+    } catch (error) {
+      logger.error(
+        `Failed to add maintenance jobs for window ${windowId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - job addition failure shouldn't break the flow
+    }
+  }
+
+  /**
+   * Removes pending start/end jobs of a maintenance window
+   * @param windowId - The maintenance window ID
+   */
+  async removeMaintenanceWindowJobs(windowId: string): Promise<void> {
+    try {
+      for (const jobId of [`maintenance-start:${windowId}`, `maintenance-end:${windowId}`]) {
+        const job = await vehicleMaintenanceQueue.getJob(jobId);
+        if (job && !(await job.isActive())) {
+          await job.remove();
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to remove maintenance jobs for window ${windowId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - jobs are idempotent and skip closed windows anyway
+    }
+  }
+
+  /**
+   * Adds a job that retries a stored webhook event
+   * One job per event - a retry that is already queued is not added twice
+   * @param eventId - The payment gateway event ID
+   */
+  async addWebhookRetryJob(eventId: string): Promise<void> {
+    try {
+      const jobData: WebhookRetryJobData = {
+        eventId,
+      };
+
+      await webhookRetryQueue.add(jobData, {
+        jobId: `webhook-retry:${eventId}`,
+        delay: 30000, // Give the failing dependency a moment before the first retry
+        removeOnComplete: true,
+        removeOnFail: true, // The event record keeps the error for admin replay
+      });
+      logger.info(`Webhook retry job scheduled for event ${eventId}`);
+    } catch (error) {
+      logger.error(
+        `Failed to add webhook retry job for event ${eventId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - the event stays failed and can be replayed by an admin
+    }
+  }
+
+  /**
+   * Adds a reminder job for each configured day before the balance is due, and a job at the due date
+   * Reminders that would already be in the past are skipped
+   * @param reservationId - The reservation ID
+   * @param dueAt - When the balance is due
+   */
+  async addBalancePaymentJobs(reservationId: string, dueAt: Date): Promise<void> {
+    try {
+      const reminderJobData: BalancePaymentJobData = {
+        jobType: 'balance-reminder',
+        reservationId,
+      };
+      for (const daysBefore of PAYMENT_PLAN_CONFIG.REMINDER_DAYS) {
+        const delay = dueAt.getTime() - daysBefore * 24 * 60 * 60 * 1000 - Date.now();
+        if (delay > 0) {
+          await balancePaymentQueue.add(reminderJobData, {
+            jobId: `balance-reminder:${reservationId}:${daysBefore}`,
+            delay,
+            removeOnComplete: true,
+            removeOnFail: false,
+          });
+        }
+      }
+
+      const dueJobData: BalancePaymentJobData = {
+        jobType: 'balance-due',
+        reservationId,
+      };
+      await balancePaymentQueue.add(dueJobData, {
+        jobId: `balance-due:${reservationId}`,
+        delay: Math.max(0, dueAt.getTime() - Date.now()),
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+      logger.info(`Balance payment jobs scheduled for reservation ${reservationId}, due ${dueAt.toISOString()}`);
+    } catch (error) {
+      logger.error(
+        `Failed to add balance payment jobs for reservation ${reservationId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - job addition failure shouldn't break the flow
+    }
+  }
+
+  /**
+   * Removes pending balance reminder and due date jobs of a reservation
+   * @param reservationId - The reservation ID
+   */
+  async removeBalancePaymentJobs(reservationId: string): Promise<void> {
+    try {
+      const jobIds = [
+        ...PAYMENT_PLAN_CONFIG.REMINDER_DAYS.map((daysBefore) => `balance-reminder:${reservationId}:${daysBefore}`),
+        `balance-due:${reservationId}`,
+      ];
+      for (const jobId of jobIds) {
+        const job = await balancePaymentQueue.getJob(jobId);
+        if (job && !(await job.isActive())) {
+          await job.remove();
+        }
+      }
+    } catch (error) {
+      logger.error(
+        `Failed to remove balance payment jobs for reservation ${reservationId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      // Don't throw - jobs skip reservations whose balance is already settled
+    }
+  }
+
+  /**
+   * Initializes the repeatable corporate invoicing jobs
+   * Monthly invoicing runs on CORPORATE_INVOICING_CRON, the overdue check runs daily
+   */
+  async initializeCorporateInvoicingRepeatJobs(): Promise<void> {
+    try {
+      const invoicingJobData: CorporateInvoiceJobData = { jobType: 'monthly-invoicing' };
+      await corporateInvoiceQueue.add(invoicingJobData, {
+        jobId: 'monthly-invoicing',
+        repeat: { cron: CORPORATE_CONFIG.INVOICING_CRON, tz: 'UTC' },
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+
+      const overdueJobData: CorporateInvoiceJobData = { jobType: 'overdue-check' };
+      await corporateInvoiceQueue.add(overdueJobData, {
+        jobId: 'overdue-check',
+        repeat: { cron: CORPORATE_CONFIG.OVERDUE_CHECK_CRON, tz: 'UTC' },
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+
+      logger.info(`Corporate invoicing repeat jobs initialized (invoicing cron: ${CORPORATE_CONFIG.INVOICING_CRON})`);
+    } catch (error) {
+      logger.error(
+        `Failed to initialize corporate invoicing repeat jobs: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // This is a critical initialization failure
+    }
+  }
+
+  /**
+   * Initializes the repeatable notification digest job
+   * Runs on NOTIFICATION_DIGEST_CRON
+   */
+  async initializeNotificationDigestRepeatJob(): Promise<void> {
+    try {
+      const jobData: NotificationDigestJobData = { jobType: 'daily-digest' };
+      await notificationDigestQueue.add(jobData, {
+        jobId: 'daily-digest',
+        repeat: { cron: NOTIFICATION_DIGEST_CONFIG.CRON, tz: 'UTC' },
+        removeOnComplete: true,
+        removeOnFail: false,
+      });
+
+      logger.info(`Notification digest repeat job initialized (cron: ${NOTIFICATION_DIGEST_CONFIG.CRON})`);
+    } catch (error) {
+      logger.error(
+        `Failed to initialize notification digest repeat job: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      throw error; // This is a critical initialization failure
+    }
+  }
 }
@@ -0,0 +1,64 @@
+import { injectable, inject } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import { IRateLimiterService, IRateLimitResult } from '../../domain/services/rate_limiter_service.interface';
+import { IRedisConnection } from '../../domain/services/redis_connection.interface';
+import { LOGIN_PROTECTION_KEYS } from '../../shared/constants';
+import { CONFIG_TOKENS } from '../di/tokens';
+
+/**
+ * Slides the window, counts the hits left and records the new one in a single step,
+ * so parallel requests cannot all read the same count and slip past the limit.
+ * Returns { allowed (1/0), hits in the window, score of the oldest hit }
+ */
+const SLIDING_WINDOW_HIT_SCRIPT = `
+local now = tonumber(ARGV[1])
+local windowMs = tonumber(ARGV[2])
+local limit = tonumber(ARGV[3])
+redis.call('ZREMRANGEBYSCORE', KEYS[1], 0, now - windowMs)
+local count = redis.call('ZCARD', KEYS[1])
+if count >= limit then
+  local oldest = redis.call('ZRANGE', KEYS[1], 0, 0, 'WITHSCORES')
+  return { 0, count, tonumber(oldest[2]) or now }
+end
+redis.call('ZADD', KEYS[1], now, ARGV[4])
+redis.call('EXPIRE', KEYS[1], ARGV[5])
+return { 1, count + 1, now }
+`;
+
+/**
+ * Rate limiter service implementation
+ * Keeps one Redis sorted set per key with a member per hit, scored by its time
+ */
+@injectable()
+export class RateLimiterServiceImpl implements IRateLimiterService {
+  constructor(
+    @inject(CONFIG_TOKENS.RedisConnection)
+    private readonly redisConnection: IRedisConnection
+  ) {}
+
+  async hit(key: string, limit: number, windowSeconds: number): Promise<IRateLimitResult> {
+    const redisKey = `${LOGIN_PROTECTION_KEYS.RATE_LIMIT_PREFIX}${key}`;
+    const now = Date.now();
+    const windowMs = windowSeconds * 1000;
+
+    const [allowed, count, oldestHit] = (await this.redisConnection.eval(
+      SLIDING_WINDOW_HIT_SCRIPT,
+      [redisKey],
+      [now, windowMs, limit, `${now}:${randomUUID()}`, windowSeconds]
+    )) as [number, number, number];
+
+    if (allowed !== 1) {
+      return {
+        allowed: false,
+        remaining: 0,
+        retryAfterSeconds: Math.max(1, Math.ceil((oldestHit + windowMs - now) / 1000)),
+      };
+    }
+
+    return { allowed: true, remaining: Math.max(0, limit - count), retryAfterSeconds: 0 };
+  }
+
+  async reset(key: string): Promise<void> {
+    await this.redisConnection.del(`${LOGIN_PROTECTION_KEYS.RATE_LIMIT_PREFIX}${key}`);
+  }
+}
@@ -0,0 +1,151 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import mongoose, { ClientSession } from 'mongoose';
+import { ReservationInvoiceServiceImpl } from './reservation_invoice.service';
+import { IReservationInvoiceRepository } from '../../domain/repositories/reservation_invoice_repository.interface';
+import { IReferenceSequenceRepository } from '../../domain/repositories/reference_sequence_repository.interface';
+import { ReservationInvoice } from '../../domain/entities/reservation_invoice.entity';
+import { createSucceededPaymentFixture } from '../../shared/test/fixtures/payment.fixture';
+import { createConfirmedReservationFixture } from '../../shared/test/fixtures/reservation.fixture';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+describe('ReservationInvoiceServiceImpl', () => {
+  let stored: ReservationInvoice[];
+  let sequences: Map<string, number>;
+  let service: ReservationInvoiceServiceImpl;
+  let session: {
+    startTransaction: ReturnType<typeof vi.fn>;
+    commitTransaction: ReturnType<typeof vi.fn>;
+    abortTransaction: ReturnType<typeof vi.fn>;
+    endSession: ReturnType<typeof vi.fn>;
+  };
+
+  const reservation = createConfirmedReservationFixture({
+    reservationId: 'reservation-123',
+    paymentId: 'payment-123',
+  });
+  const payment = createSucceededPaymentFixture({ paymentId: 'payment-123', amount: 10000, currency: 'inr' });
+
+  beforeEach(() => {
+    stored = [];
+    sequences = new Map();
+    session = {
+      startTransaction: vi.fn(),
+      commitTransaction: vi.fn().mockResolvedValue(undefined),
+      abortTransaction: vi.fn().mockResolvedValue(undefined),
+      endSession: vi.fn().mockResolvedValue(undefined),
+    };
+    vi.spyOn(mongoose, 'startSession').mockResolvedValue(session as unknown as ClientSession);
+
+    const invoiceRepository = {
+      findBySourceKey: vi.fn((sourceKey: string) =>
+        Promise.resolve(stored.find((invoice) => invoice.sourceKey === sourceKey) ?? null)
+      ),
+      create: vi.fn((invoice: ReservationInvoice) => {
+        stored.push(invoice);
+        return Promise.resolve();
+      }),
+    } as unknown as IReservationInvoiceRepository;
+    const sequenceRepository: IReferenceSequenceRepository = {
+      next: vi.fn((key: string) => {
+        const value = (sequences.get(key) ?? 0) + 1;
+        sequences.set(key, value);
+        return Promise.resolve(value);
+      }),
+    };
+
+    service = new ReservationInvoiceServiceImpl(invoiceRepository, sequenceRepository);
+  });
+
+  it('should number each document type from its own sequence', async () => {
+    const year = new Date().getUTCFullYear();
+
+    const invoice = await service.issueInvoice(reservation, payment);
+    const receipt = await service.issueReceipt(
+      reservation,
+      createSucceededPaymentFixture({ paymentId: 'payment-456', amount: 500 })
+    );
+    const creditNote = await service.issueCreditNote(reservation, payment, { refundId: 're_1', amount: 2500 });
+
+    expect(invoice.invoiceNumber).toBe(`RIN-${year}-000001`);
+    expect(invoice.currency).toBe('INR');
+    expect(receipt.invoiceNumber).toBe(`RCT-${year}-000001`);
+    expect(creditNote.invoiceNumber).toBe(`CRN-${year}-000001`);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(3);
+  });
+
+  it('should issue a document only once per payment or refund', async () => {
+    const first = await service.issueInvoice(reservation, payment);
+    const second = await service.issueInvoice(reservation, payment);
+    await service.issueCreditNote(reservation, payment, { refundId: 're_1', amount: 2500 });
+    await service.issueCreditNote(reservation, payment, { refundId: 're_1', amount: 2500 });
+
+    expect(second).toBe(first);
+    expect(stored).toHaveLength(2);
+    expect(sequences.get(`RIN-${new Date().getUTCFullYear()}`)).toBe(1);
+  });
+
+  it('should link a credit note to the invoice of the refunded payment', async () => {
+    const invoice = await service.issueInvoice(reservation, payment);
+    const creditNote = await service.issueCreditNote(reservation, payment, {
+      refundId: 're_1',
+      amount: 2500,
+      reason: 'Cancelled by customer',
+    });
+
+    expect(creditNote.isCreditNote()).toBe(true);
+    expect(creditNote.relatedInvoiceId).toBe(invoice.invoiceId);
+    expect(creditNote.description).toBe(`Refund against ${invoice.invoiceNumber}`);
+    expect(creditNote.amount).toBe(2500);
+  });
+
+  it('should issue without a transaction when the server does not support them', async () => {
+    vi.spyOn(mongoose, 'startSession').mockRejectedValue(
+      new mongoose.mongo.MongoServerError({
+        message: 'Transaction numbers are only allowed on a replica set member or mongos',
+        code: 20,
+        codeName: 'IllegalOperation',
+      })
+    );
+
+    const invoice = await service.issueInvoice(reservation, payment);
+
+    expect(invoice.invoiceNumber).toMatch(/^RIN-\d{4}-000001$/);
+    expect(stored).toHaveLength(1);
+  });
+
+  it('should retry the transaction when it conflicted with another one', async () => {
+    vi.spyOn(mongoose, 'startSession').mockRejectedValueOnce(
+      new mongoose.mongo.MongoServerError({
+        message: 'Write conflict during plan execution and yielding is disabled.',
+        code: 112,
+        codeName: 'WriteConflict',
+        errorLabels: ['TransientTransactionError'],
+      })
+    );
+
+    const invoice = await service.issueInvoice(reservation, payment);
+
+    expect(invoice.invoiceNumber).toMatch(/^RIN-\d{4}-000001$/);
+    expect(session.commitTransaction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should not issue without a transaction when the transaction itself failed', async () => {
+    const aborted = new mongoose.mongo.MongoServerError({
+      message: 'Transaction 1 has been aborted.',
+      code: 251,
+      codeName: 'NoSuchTransaction',
+    });
+    session.commitTransaction.mockRejectedValue(aborted);
+
+    await expect(service.issueInvoice(reservation, payment)).rejects.toBe(aborted);
+    expect(session.abortTransaction).toHaveBeenCalled();
+  });
+});
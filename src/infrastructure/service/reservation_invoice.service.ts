@@ -0,0 +1,249 @@
+import { inject, injectable } from 'tsyringe';
+import mongoose, { ClientSession } from 'mongoose';
+import { randomUUID } from 'crypto';
+import {
+  ICreditNoteRefund,
+  IReservationInvoiceService,
+} from '../../domain/services/reservation_invoice_service.interface';
+import { IReservationInvoiceRepository } from '../../domain/repositories/reservation_invoice_repository.interface';
+import { IReferenceSequenceRepository } from '../../domain/repositories/reference_sequence_repository.interface';
+import { Payment } from '../../domain/entities/payment.entity';
+import { Reservation } from '../../domain/entities/reservation.entity';
+import { ReservationCharge } from '../../domain/entities/reservation_charge.entity';
+import { ReservationInvoice, ReservationInvoiceType } from '../../domain/entities/reservation_invoice.entity';
+import { REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { normalizeCurrency } from '../../shared/utils/currency.util';
+import {
+  SequentialReferencePrefix,
+  formatSequentialReferenceNumber,
+  getReferenceSequenceKey,
+} from '../../shared/utils/reference_number.util';
+import { logger } from '../../shared/logger';
+
+/**
+ * Numbering series of each document type
+ */
+const DOCUMENT_PREFIXES: Record<ReservationInvoiceType, SequentialReferencePrefix> = {
+  invoice: 'RIN',
+  receipt: 'RCT',
+  credit_note: 'CRN',
+};
+
+/**
+ * MongoDB error code for operations the server doesn't allow, such as transactions on a standalone server
+ */
+const ILLEGAL_OPERATION_ERROR_CODE = 20;
+
+/**
+ * Attempts at issuing a document while its transaction keeps hitting write conflicts
+ */
+const MAX_TRANSACTION_ATTEMPTS = 3;
+
+/**
+ * Document waiting for its number
+ */
+type ReservationInvoiceDraft = {
+  documentType: ReservationInvoiceType;
+  sourceKey: string;
+  reservation: Reservation;
+  payment: Payment;
+  description: string;
+  amount: number;
+  chargeId?: string;
+  refundId?: string;
+  relatedInvoiceId?: string;
+  reason?: string;
+};
+
+/**
+ * Reservation invoice service implementation
+ * Draws the number and stores the document in one transaction so a failed write leaves no gap in the series
+ */
+@injectable()
+export class ReservationInvoiceServiceImpl implements IReservationInvoiceService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IReservationInvoiceRepository)
+    private readonly reservationInvoiceRepository: IReservationInvoiceRepository,
+    @inject(REPOSITORY_TOKENS.IReferenceSequenceRepository)
+    private readonly referenceSequenceRepository: IReferenceSequenceRepository
+  ) {}
+
+  async issueInvoice(reservation: Reservation, payment: Payment): Promise<ReservationInvoice> {
+    const tripLabel = reservation.tripName ? ` - ${reservation.tripName}` : '';
+    return this.issue({
+      documentType: 'invoice',
+      sourceKey: this.getPaymentSourceKey(payment),
+      reservation,
+      payment,
+      description: reservation.paymentSchedule
+        ? `Deposit for reservation ${reservation.reservationNumber}${tripLabel}`
+        : `Reservation ${reservation.reservationNumber}${tripLabel}`,
+      amount: payment.amount,
+    });
+  }
+
+  async issueReceipt(
+    reservation: Reservation,
+    payment: Payment,
+    charge?: ReservationCharge
+  ): Promise<ReservationInvoice> {
+    return this.issue({
+      documentType: 'receipt',
+      sourceKey: this.getPaymentSourceKey(payment),
+      reservation,
+      payment,
+      description: charge
+        ? `Additional charge: ${charge.description}`
+        : `Balance payment for reservation ${reservation.reservationNumber}`,
+      amount: payment.amount,
+      chargeId: charge?.chargeId,
+    });
+  }
+
+  async issueCreditNote(
+    reservation: Reservation,
+    payment: Payment,
+    refund: ICreditNoteRefund
+  ): Promise<ReservationInvoice> {
+    // Credit notes point at the invoice or receipt of the payment the money came from
+    const creditedDocument = await this.reservationInvoiceRepository.findBySourceKey(
+      this.getPaymentSourceKey(payment)
+    );
+
+    return this.issue({
+      documentType: 'credit_note',
+      sourceKey: `refund:${refund.refundId}`,
+      reservation,
+      payment,
+      description: creditedDocument
+        ? `Refund against ${creditedDocument.invoiceNumber}`
+        : `Refund for reservation ${reservation.reservationNumber}`,
+      amount: refund.amount,
+      refundId: refund.refundId,
+      relatedInvoiceId: creditedDocument?.invoiceId,
+      reason: refund.reason,
+    });
+  }
+
+  private getPaymentSourceKey(payment: Payment): string {
+    return `payment:${payment.paymentId}`;
+  }
+
+  private async issue(draft: ReservationInvoiceDraft): Promise<ReservationInvoice> {
+    const existing = await this.reservationInvoiceRepository.findBySourceKey(draft.sourceKey);
+    if (existing) {
+      return existing;
+    }
+
+    try {
+      return await this.issueWithTransaction(draft);
+    } catch (error) {
+      // Another request issued the same document first, its transaction won
+      if (this.isDuplicateKeyError(error)) {
+        const issued = await this.reservationInvoiceRepository.findBySourceKey(draft.sourceKey);
+        if (issued) {
+          return issued;
+        }
+      }
+
+      // Standalone MongoDB servers don't support transactions
+      if (this.isTransactionUnsupportedError(error)) {
+        logger.warn(
+          `Transaction not supported, issuing ${draft.documentType} for ${draft.sourceKey} without one: ${(error as Error).message}`
+        );
+        return this.store(draft);
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Issues the document in a transaction, retrying it when it conflicted with a concurrent one
+   */
+  private async issueWithTransaction(draft: ReservationInvoiceDraft, attempt = 1): Promise<ReservationInvoice> {
+    try {
+      return await this.storeInTransaction(draft);
+    } catch (error) {
+      if (attempt < MAX_TRANSACTION_ATTEMPTS && this.isTransientTransactionError(error)) {
+        logger.warn(
+          `Transaction for ${draft.documentType} ${draft.sourceKey} failed (attempt ${attempt}), retrying: ${(error as Error).message}`
+        );
+        return this.issueWithTransaction(draft, attempt + 1);
+      }
+      throw error;
+    }
+  }
+
+  private async storeInTransaction(draft: ReservationInvoiceDraft): Promise<ReservationInvoice> {
+    const session = await mongoose.startSession();
+    session.startTransaction();
+
+    try {
+      const invoice = await this.store(draft, session);
+      await session.commitTransaction();
+      return invoice;
+    } catch (error) {
+      await session.abortTransaction();
+      throw error;
+    } finally {
+      await session.endSession();
+    }
+  }
+
+  private async store(draft: ReservationInvoiceDraft, session?: ClientSession): Promise<ReservationInvoice> {
+    const prefix = DOCUMENT_PREFIXES[draft.documentType];
+    const issuedAt = new Date();
+    const sequence = await this.referenceSequenceRepository.next(
+      getReferenceSequenceKey(prefix, issuedAt),
+      session
+    );
+
+    const invoice = new ReservationInvoice(
+      randomUUID(),
+      formatSequentialReferenceNumber(prefix, issuedAt, sequence),
+      draft.documentType,
+      draft.reservation.reservationId,
+      draft.reservation.userId,
+      draft.payment.paymentId,
+      draft.sourceKey,
+      draft.description,
+      draft.amount,
+      normalizeCurrency(draft.payment.currency),
+      draft.payment.paymentMethod,
+      issuedAt,
+      issuedAt,
+      issuedAt,
+      draft.chargeId,
+      draft.refundId,
+      draft.relatedInvoiceId,
+      draft.reason
+    );
+
+    await this.reservationInvoiceRepository.create(invoice, session);
+    logger.info(
+      `Issued ${draft.documentType} ${invoice.invoiceNumber} for reservation ${invoice.reservationId} (${draft.sourceKey})`
+    );
+
+    return invoice;
+  }
+
+  private isDuplicateKeyError(error: unknown): boolean {
+    return typeof error === 'object' && error !== null && (error as { code?: unknown }).code === 11000;
+  }
+
+  private isTransactionUnsupportedError(error: unknown): boolean {
+    if (typeof error !== 'object' || error === null) {
+      return false;
+    }
+    const { code, codeName } = error as { code?: unknown; codeName?: unknown };
+    return code === ILLEGAL_OPERATION_ERROR_CODE || codeName === 'IllegalOperation';
+  }
+
+  /**
+   * Write conflicts and other errors the server marks as safe to retry the whole transaction on
+   */
+  private isTransientTransactionError(error: unknown): boolean {
+    return error instanceof mongoose.mongo.MongoError && error.hasErrorLabel('TransientTransactionError');
+  }
+}
@@ -0,0 +1,94 @@
+import { injectable, inject } from 'tsyringe';
+import { v4 as uuidv4 } from 'uuid';
+import ms from 'ms';
+import type { StringValue } from 'ms';
+import { ISessionService, SessionClientInfo } from '../../domain/services/session_service.interface';
+import { IJWTService, JWTPayload, TokenPair } from '../../domain/services/jwt_service.interface';
+import { ITokenBlacklistService } from '../../domain/services/token_blacklist_service.interface';
+import { ISessionRepository } from '../../domain/repositories/session_repository.interface';
+import { Session } from '../../domain/entities/session.entity';
+import { SERVICE_TOKENS, REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { JWT_CONFIG } from '../../shared/config';
+import { SessionRevokeReason } from '../../shared/constants';
+import { describeUserAgent } from '../../shared/utils/user_agent.util';
+
+/**
+ * Session service implementation
+ * Sessions are stored in MongoDB; revoked ones are also flagged in Redis because
+ * access tokens are checked on every request without loading the session
+ */
+@injectable()
+export class SessionServiceImpl implements ISessionService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.ISessionRepository)
+    private readonly sessionRepository: ISessionRepository,
+    @inject(SERVICE_TOKENS.IJWTService)
+    private readonly jwtService: IJWTService,
+    @inject(SERVICE_TOKENS.ITokenBlacklistService)
+    private readonly tokenBlacklistService: ITokenBlacklistService
+  ) {}
+
+  async startSession(payload: JWTPayload, client: SessionClientInfo = {}): Promise<TokenPair> {
+    const now = new Date();
+    const session = new Session(
+      uuidv4(),
+      payload.userId,
+      payload.role ?? 'user',
+      uuidv4(),
+      describeUserAgent(client.userAgent),
+      client.ipAddress ?? null,
+      client.userAgent ?? null,
+      now,
+      now,
+      this.getExpiry(now)
+    );
+    await this.sessionRepository.create(session);
+
+    return this.jwtService.generateTokens({ ...payload, sessionId: session.sessionId }, session.refreshTokenId);
+  }
+
+  async rotateSession(
+    session: Session,
+    currentTokenId: string,
+    payload: JWTPayload,
+    client: SessionClientInfo = {}
+  ): Promise<TokenPair | null> {
+    const now = new Date();
+    const refreshTokenId = uuidv4();
+    const rotated = await this.sessionRepository.rotate(session.sessionId, currentTokenId, {
+      refreshTokenId,
+      ipAddress: client.ipAddress ?? session.ipAddress,
+      userAgent: client.userAgent ?? session.userAgent,
+      deviceName: client.userAgent ? describeUserAgent(client.userAgent) : session.deviceName,
+      lastSeenAt: now,
+      expiresAt: this.getExpiry(now),
+    });
+    if (!rotated) {
+      return null;
+    }
+
+    return this.jwtService.generateTokens({ ...payload, sessionId: session.sessionId }, refreshTokenId);
+  }
+
+  async revokeSession(session: Session, reason: SessionRevokeReason): Promise<void> {
+    await this.sessionRepository.revoke(session.sessionId, reason);
+    await this.tokenBlacklistService.revokeSession(session.sessionId, session.getRemainingSeconds());
+  }
+
+  async revokeAllSessions(userId: string, reason: SessionRevokeReason, exceptSessionId?: string): Promise<number> {
+    const sessions = await this.sessionRepository.revokeAllForUser(userId, reason, exceptSessionId);
+    await Promise.all(
+      sessions.map((session) =>
+        this.tokenBlacklistService.revokeSession(session.sessionId, session.getRemainingSeconds())
+      )
+    );
+    return sessions.length;
+  }
+
+  /**
+   * Sessions live as long as their latest refresh token
+   */
+  private getExpiry(from: Date): Date {
+    return new Date(from.getTime() + ms(JWT_CONFIG.REFRESH_TOKEN_EXPIRY as StringValue));
+  }
+}
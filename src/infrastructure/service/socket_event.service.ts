@@ -228,6 +228,8 @@ export class SocketEventService implements ISocketEventService {
                 messageId: message.messageId,
                 senderId: senderId,
               },
+              // One rolling notification per chat until the recipient reads it
+              groupKey: `chat:${chatId}`,
             };
 
             await this.notificationSocketHandler.sendNotificationToUser(recipient.userId, notificationRequest);
@@ -278,6 +280,8 @@ export class SocketEventService implements ISocketEventService {
                 messageId: message.messageId,
                 senderId: senderId,
               },
+              // One rolling notification per chat until the recipient reads it
+              groupKey: `chat:${chatId}`,
             };
 
             await this.notificationSocketHandler.sendNotificationToUser(recipient.userId, notificationRequest);
@@ -1145,10 +1149,10 @@ export class SocketEventService implements ISocketEventService {
     title: string;
     message: string;
     data?: Record<string, unknown>;
-  }): Promise<void> {
+  }): Promise<boolean> {
     if (!this.notificationSocketHandler) {
       logger.warn('[SocketEventService] Notification socket handler not initialized');
-      return;
+      return false;
     }
   
     try {
@@ -1174,13 +1178,15 @@ export class SocketEventService implements ISocketEventService {
         );
         const unreadCount = await getUnreadCountUseCase.execute(notification.userId);
         this.io?.to(`user:${notification.userId}`).emit(NOTIFICATION_SOCKET_EVENTS.UNREAD_COUNT_UPDATED, unreadCount);
-      } else {
-        // User is offline (web client) - no push notification available
-        // Notification is stored in DB, user will see it when they come back online
-        logger.info(`User ${notification.userId} is offline (web client), notification stored in DB`);
+        return true;
       }
+
+      // User is offline - notification is stored in DB, user will see it when they come back online
+      logger.info(`User ${notification.userId} is offline, notification stored in DB`);
+      return false;
     } catch (error) {
       logger.error(`Error sending notification: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      return false;
     }
   }
 }
@@ -0,0 +1,125 @@
+import { injectable } from 'tsyringe';
+import Stripe from 'stripe';
+import {
+  IPaymentGateway,
+  IGatewayPaymentIntent,
+  ICreatePaymentIntentParams,
+  ICreateRefundParams,
+  IGatewayRefund,
+  IPaymentWebhookEvent,
+} from '../../domain/services/payment_gateway.interface';
+import { PaymentMethod } from '../../domain/entities/payment.entity';
+import { STRIPE_CONFIG } from '../../shared/config';
+import { getStripeInstance } from './stripe.service';
+import { toMajorUnits, toMinorUnits } from '../../shared/utils/currency.util';
+
+/**
+ * Stripe payment gateway implementation
+ * Adapts the Stripe SDK to the IPaymentGateway contract
+ */
+@injectable()
+export class StripePaymentGateway implements IPaymentGateway {
+  readonly paymentMethod = PaymentMethod.STRIPE;
+
+  async createPaymentIntent(params: ICreatePaymentIntentParams): Promise<IGatewayPaymentIntent> {
+    const paymentIntent = await getStripeInstance().paymentIntents.create({
+      amount: toMinorUnits(params.amount, params.currency),
+      currency: params.currency.toLowerCase(),
+      metadata: params.metadata,
+      capture_method: params.captureMethod,
+      automatic_payment_methods: {
+        enabled: true,
+      },
+    });
+    return this.toPaymentIntent(paymentIntent);
+  }
+
+  async retrievePaymentIntent(paymentIntentId: string): Promise<IGatewayPaymentIntent> {
+    const paymentIntent = await getStripeInstance().paymentIntents.retrieve(paymentIntentId);
+    return this.toPaymentIntent(paymentIntent);
+  }
+
+  async capturePaymentIntent(paymentIntentId: string, amount?: number): Promise<IGatewayPaymentIntent> {
+    let captureParams: Stripe.PaymentIntentCaptureParams | undefined;
+    if (amount !== undefined) {
+      // The minor unit depends on the currency the intent was created in
+      const { currency } = await this.retrievePaymentIntent(paymentIntentId);
+      captureParams = { amount_to_capture: toMinorUnits(amount, currency) };
+    }
+
+    const paymentIntent = await getStripeInstance().paymentIntents.capture(paymentIntentId, captureParams);
+    return this.toPaymentIntent(paymentIntent);
+  }
+
+  async cancelPaymentIntent(paymentIntentId: string): Promise<IGatewayPaymentIntent> {
+    const paymentIntent = await getStripeInstance().paymentIntents.cancel(paymentIntentId);
+    return this.toPaymentIntent(paymentIntent);
+  }
+
+  async createRefund(params: ICreateRefundParams): Promise<IGatewayRefund> {
+    const currency =
+      params.currency ?? (await this.retrievePaymentIntent(params.paymentIntentId)).currency;
+
+    const refund = await getStripeInstance().refunds.create({
+      payment_intent: params.paymentIntentId,
+      amount: toMinorUnits(params.amount, currency),
+      reason: params.reason,
+      metadata: params.metadata,
+    });
+
+    return {
+      id: refund.id,
+      paymentIntentId: params.paymentIntentId,
+      amount: toMajorUnits(refund.amount, refund.currency),
+      currency: refund.currency,
+      status: (refund.status ?? 'pending') as IGatewayRefund['status'],
+      metadata: refund.metadata ?? {},
+    };
+  }
+
+  async listRefunds(paymentIntentId: string): Promise<IGatewayRefund[]> {
+    const refunds = await getStripeInstance()
+      .refunds.list({ payment_intent: paymentIntentId, limit: 100 })
+      .autoPagingToArray({ limit: 1000 });
+
+    return refunds.map((refund) => ({
+      id: refund.id,
+      paymentIntentId,
+      amount: toMajorUnits(refund.amount, refund.currency),
+      currency: refund.currency,
+      status: (refund.status ?? 'pending') as IGatewayRefund['status'],
+      metadata: (refund.metadata ?? {}) as Record<string, string>,
+    }));
+  }
+
+  constructWebhookEvent(payload: string | Buffer, signature: string): IPaymentWebhookEvent {
+    if (!STRIPE_CONFIG.WEBHOOK_SECRET) {
+      throw new Error('Stripe webhook secret not configured');
+    }
+
+    const event = getStripeInstance().webhooks.constructEvent(
+      payload,
+      signature,
+      STRIPE_CONFIG.WEBHOOK_SECRET
+    );
+
+    return {
+      id: event.id,
+      type: event.type,
+      data: { object: event.data.object },
+    };
+  }
+
+  private toPaymentIntent(paymentIntent: Stripe.PaymentIntent): IGatewayPaymentIntent {
+    const latestCharge = paymentIntent.latest_charge;
+    return {
+      id: paymentIntent.id,
+      clientSecret: paymentIntent.client_secret,
+      status: paymentIntent.status,
+      amount: toMajorUnits(paymentIntent.amount, paymentIntent.currency),
+      currency: paymentIntent.currency,
+      latestChargeId: typeof latestCharge === 'string' ? latestCharge : latestCharge?.id,
+      metadata: paymentIntent.metadata ?? {},
+    };
+  }
+}
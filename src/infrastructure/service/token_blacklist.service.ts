@@ -11,6 +11,7 @@ import { CONFIG_TOKENS } from '../di/tokens';
 @injectable()
 export class TokenBlacklistServiceImpl implements ITokenBlacklistService {
   private readonly BLACKLIST_PREFIX = TOKEN_BLACKLIST.PREFIX;
+  private readonly SESSION_PREFIX = TOKEN_BLACKLIST.SESSION_PREFIX;
 
   constructor(
     @inject(CONFIG_TOKENS.RedisConnection)
@@ -32,4 +33,15 @@ export class TokenBlacklistServiceImpl implements ITokenBlacklistService {
     const key = `${this.BLACKLIST_PREFIX}${token}`;
     await this.redisConnection.del(key);
   }
+
+  async revokeSession(sessionId: string, expiryTime: number): Promise<void> {
+    const key = `${this.SESSION_PREFIX}${sessionId}`;
+    await this.redisConnection.setex(key, expiryTime, 'true');
+  }
+
+  async isSessionRevoked(sessionId: string): Promise<boolean> {
+    const key = `${this.SESSION_PREFIX}${sessionId}`;
+    const result = await this.redisConnection.get(key);
+    return result !== null;
+  }
 }
@@ -0,0 +1,78 @@
+import { injectable, inject } from 'tsyringe';
+import { randomBytes } from 'crypto';
+import {
+  ITwoFactorChallenge,
+  ITwoFactorCodeInput,
+  ITwoFactorService,
+  TwoFactorChallengePurpose,
+} from '../../domain/services/two_factor_service.interface';
+import { IRedisConnection } from '../../domain/services/redis_connection.interface';
+import { ITwoFactorAuthRepository } from '../../domain/repositories/two_factor_auth_repository.interface';
+import { TwoFactorAuth } from '../../domain/entities/two_factor_auth.entity';
+import { TWO_FACTOR_CONFIG } from '../../shared/constants';
+import { hashRecoveryCode } from '../../shared/utils/totp.util';
+import { CONFIG_TOKENS, REPOSITORY_TOKENS } from '../di/tokens';
+
+/**
+ * Two-factor service implementation
+ * Challenges live in Redis until they expire or are used; accepted codes are recorded
+ * atomically in MongoDB so the same code cannot log in twice
+ */
+@injectable()
+export class TwoFactorServiceImpl implements ITwoFactorService {
+  constructor(
+    @inject(CONFIG_TOKENS.RedisConnection)
+    private readonly redisConnection: IRedisConnection,
+    @inject(REPOSITORY_TOKENS.ITwoFactorAuthRepository)
+    private readonly twoFactorAuthRepository: ITwoFactorAuthRepository
+  ) {}
+
+  async createChallenge(userId: string, purpose: TwoFactorChallengePurpose): Promise<string> {
+    const challengeToken = randomBytes(32).toString('hex');
+    const challenge: ITwoFactorChallenge = { userId, purpose };
+    await this.redisConnection.setex(
+      `${TWO_FACTOR_CONFIG.CHALLENGE_PREFIX}${challengeToken}`,
+      TWO_FACTOR_CONFIG.CHALLENGE_EXPIRY_SECONDS,
+      JSON.stringify(challenge)
+    );
+    return challengeToken;
+  }
+
+  async getChallenge(challengeToken: string): Promise<ITwoFactorChallenge | null> {
+    const stored = await this.redisConnection.get(`${TWO_FACTOR_CONFIG.CHALLENGE_PREFIX}${challengeToken}`);
+    return stored ? (JSON.parse(stored) as ITwoFactorChallenge) : null;
+  }
+
+  async recordFailedChallengeAttempt(challengeToken: string): Promise<number> {
+    const key = `${TWO_FACTOR_CONFIG.ATTEMPTS_PREFIX}${challengeToken}`;
+    const attempts = await this.redisConnection.incr(key);
+    // Forgotten together with the challenge it counts against
+    await this.redisConnection.expire(key, TWO_FACTOR_CONFIG.CHALLENGE_EXPIRY_SECONDS);
+    return attempts;
+  }
+
+  async deleteChallenge(challengeToken: string): Promise<void> {
+    await this.redisConnection.del(`${TWO_FACTOR_CONFIG.CHALLENGE_PREFIX}${challengeToken}`);
+    await this.redisConnection.del(`${TWO_FACTOR_CONFIG.ATTEMPTS_PREFIX}${challengeToken}`);
+  }
+
+  async verifyCode(twoFactorAuth: TwoFactorAuth, input: ITwoFactorCodeInput): Promise<boolean> {
+    if (!twoFactorAuth.enabled) {
+      return false;
+    }
+
+    if (input.code) {
+      const step = twoFactorAuth.matchCode(input.code);
+      return step !== null && (await this.twoFactorAuthRepository.markStepUsed(twoFactorAuth.userId, step));
+    }
+
+    if (input.recoveryCode && twoFactorAuth.hasRecoveryCode(input.recoveryCode)) {
+      return await this.twoFactorAuthRepository.consumeRecoveryCode(
+        twoFactorAuth.userId,
+        hashRecoveryCode(input.recoveryCode)
+      );
+    }
+
+    return false;
+  }
+}
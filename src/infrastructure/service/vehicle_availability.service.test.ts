@@ -0,0 +1,287 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import { VehicleAvailabilityServiceImpl } from './vehicle_availability.service';
+import { IVehicleHoldRepository } from '../../domain/repositories/vehicle_hold_repository.interface';
+import { IMaintenanceWindowRepository } from '../../domain/repositories/maintenance_window_repository.interface';
+import { VehicleHold, VehicleHoldStatus } from '../../domain/entities/vehicle_hold.entity';
+import { MaintenanceWindow } from '../../domain/entities/maintenance_window.entity';
+
+/**
+ * In-memory IVehicleHoldRepository that yields between reads and writes
+ * like a real database, so concurrent claims can interleave
+ */
+class InMemoryVehicleHoldRepository implements IVehicleHoldRepository {
+  holds: VehicleHold[] = [];
+
+  private async tick(): Promise<void> {
+    await new Promise((resolve) => setImmediate(resolve));
+  }
+
+  private update(
+    predicate: (hold: VehicleHold) => boolean,
+    changes: { status: VehicleHoldStatus; reservationId?: string; confirmedAt?: Date; releasedAt?: Date }
+  ): void {
+    this.holds = this.holds.map((hold) =>
+      predicate(hold)
+        ? new VehicleHold(
+            hold.holdId,
+            hold.vehicleId,
+            hold.quoteId,
+            hold.startAt,
+            hold.endAt,
+            changes.status,
+            hold.heldAt,
+            changes.status === 'confirmed' ? undefined : hold.expiresAt,
+            changes.reservationId ?? hold.reservationId,
+            changes.confirmedAt ?? hold.confirmedAt,
+            changes.releasedAt ?? hold.releasedAt
+          )
+        : hold
+    );
+  }
+
+  async findById(id: string): Promise<VehicleHold | null> {
+    await this.tick();
+    return this.holds.find((hold) => hold.holdId === id) ?? null;
+  }
+
+  async create(entity: VehicleHold): Promise<void> {
+    await this.tick();
+    this.holds.push(entity);
+  }
+
+  async updateById(): Promise<void> {
+    await this.tick();
+  }
+
+  async deleteById(id: string): Promise<void> {
+    await this.tick();
+    this.holds = this.holds.filter((hold) => hold.holdId !== id);
+  }
+
+  async findActiveOverlapping(startAt: Date, endAt: Date, now: Date, vehicleIds?: string[]): Promise<VehicleHold[]> {
+    await this.tick();
+    return this.holds.filter(
+      (hold) =>
+        (!vehicleIds || vehicleIds.includes(hold.vehicleId)) &&
+        hold.overlaps(startAt, endAt) &&
+        hold.isActive(now)
+    );
+  }
+
+  async findActiveByQuoteId(quoteId: string, now: Date): Promise<VehicleHold[]> {
+    await this.tick();
+    return this.holds.filter((hold) => hold.quoteId === quoteId && hold.isActive(now));
+  }
+
+  async findConfirmedByReservationId(reservationId: string): Promise<VehicleHold[]> {
+    await this.tick();
+    return this.holds.filter((hold) => hold.reservationId === reservationId && hold.isConfirmed());
+  }
+
+  async confirmByIds(holdIds: string[], reservationId: string, confirmedAt: Date): Promise<void> {
+    await this.tick();
+    this.update(
+      (hold) => holdIds.includes(hold.holdId) && hold.status === 'held' && hold.isActive(confirmedAt),
+      { status: 'confirmed', reservationId, confirmedAt }
+    );
+  }
+
+  async releaseByIds(holdIds: string[], releasedAt: Date): Promise<void> {
+    await this.tick();
+    this.update((hold) => holdIds.includes(hold.holdId) && hold.status !== 'released', {
+      status: 'released',
+      releasedAt,
+    });
+  }
+
+  async releaseHeldByQuoteId(quoteId: string, releasedAt: Date): Promise<void> {
+    await this.tick();
+    this.update((hold) => hold.quoteId === quoteId && hold.status === 'held', { status: 'released', releasedAt });
+  }
+
+  async releaseByReservationId(reservationId: string, releasedAt: Date): Promise<void> {
+    await this.tick();
+    this.update((hold) => hold.reservationId === reservationId && hold.status === 'confirmed', {
+      status: 'released',
+      releasedAt,
+    });
+  }
+}
+
+describe('VehicleAvailabilityServiceImpl', () => {
+  let repository: InMemoryVehicleHoldRepository;
+  let maintenanceWindows: MaintenanceWindow[];
+  let service: VehicleAvailabilityServiceImpl;
+
+  const window = {
+    startAt: new Date('2030-06-01T08:00:00Z'),
+    endAt: new Date('2030-06-01T18:00:00Z'),
+  };
+  const overlappingWindow = {
+    startAt: new Date('2030-06-01T16:00:00Z'),
+    endAt: new Date('2030-06-02T10:00:00Z'),
+  };
+  const laterWindow = {
+    startAt: new Date('2030-06-03T08:00:00Z'),
+    endAt: new Date('2030-06-03T18:00:00Z'),
+  };
+
+  const activeHolds = () => repository.holds.filter((hold) => hold.isActive());
+
+  beforeEach(() => {
+    repository = new InMemoryVehicleHoldRepository();
+    maintenanceWindows = [];
+    const maintenanceWindowRepository = {
+      findBlockingInDateRange: (startDate: Date, endDate: Date, vehicleIds?: string[]) =>
+        Promise.resolve(
+          maintenanceWindows.filter(
+            (maintenance) =>
+              maintenance.isBlocking() &&
+              maintenance.overlaps(startDate, endDate) &&
+              (!vehicleIds || vehicleIds.includes(maintenance.vehicleId))
+          )
+        ),
+    } as unknown as IMaintenanceWindowRepository;
+    service = new VehicleAvailabilityServiceImpl(repository, maintenanceWindowRepository);
+  });
+
+  const scheduleMaintenance = (vehicleId: string, startAt: Date, endAt: Date) => {
+    maintenanceWindows.push(
+      new MaintenanceWindow(`window-${vehicleId}`, vehicleId, startAt, endAt, 'Brake service', 'scheduled', new Date(), new Date())
+    );
+  };
+
+  it('should hold free vehicles for a quote until the payment window ends', async () => {
+    const quotedAt = new Date();
+
+    const result = await service.holdVehiclesForQuote('quote-1', ['vehicle-1', 'vehicle-2'], window, quotedAt);
+
+    expect(result.acquired).toBe(true);
+    expect(result.holds).toHaveLength(2);
+    expect(result.holds[0].status).toBe('held');
+    expect(result.holds[0].expiresAt?.getTime()).toBe(quotedAt.getTime() + 24 * 60 * 60 * 1000);
+  });
+
+  it('should reject a hold that overlaps another quote and report the conflict', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date());
+
+    const result = await service.holdVehiclesForQuote('quote-2', ['vehicle-1', 'vehicle-2'], overlappingWindow, new Date());
+
+    expect(result.acquired).toBe(false);
+    expect(result.conflicts.map((hold) => hold.quoteId)).toEqual(['quote-1']);
+    // Nothing is held for the losing quote, not even the free vehicle
+    expect(activeHolds().filter((hold) => hold.quoteId === 'quote-2')).toHaveLength(0);
+  });
+
+  it('should reject a hold on a vehicle scheduled for maintenance during the trip', async () => {
+    scheduleMaintenance('vehicle-1', overlappingWindow.startAt, overlappingWindow.endAt);
+
+    const result = await service.holdVehiclesForQuote('quote-1', ['vehicle-1', 'vehicle-2'], window, new Date());
+
+    expect(result.acquired).toBe(false);
+    expect(result.maintenanceConflicts.map((maintenance) => maintenance.vehicleId)).toEqual(['vehicle-1']);
+    expect(activeHolds()).toHaveLength(0);
+  });
+
+  it('should keep existing bookings when the new vehicle is under maintenance', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date());
+    await service.confirmHoldsForReservation('quote-1', 'reservation-1', ['vehicle-1'], window);
+    scheduleMaintenance('vehicle-2', window.startAt, window.endAt);
+
+    const result = await service.replaceReservationHolds('quote-1', 'reservation-1', ['vehicle-2'], window);
+
+    expect(result.acquired).toBe(false);
+    expect(result.maintenanceConflicts.map((maintenance) => maintenance.vehicleId)).toEqual(['vehicle-2']);
+    const bookings = await repository.findConfirmedByReservationId('reservation-1');
+    expect(bookings.map((hold) => hold.vehicleId)).toEqual(['vehicle-1']);
+  });
+
+  it('should allow the same vehicle on non-overlapping trips', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date());
+
+    const result = await service.holdVehiclesForQuote('quote-2', ['vehicle-1'], laterWindow, new Date());
+
+    expect(result.acquired).toBe(true);
+  });
+
+  it('should ignore holds whose payment window has lapsed', async () => {
+    const longAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, longAgo);
+
+    const result = await service.holdVehiclesForQuote('quote-2', ['vehicle-1'], window, new Date());
+
+    expect(result.acquired).toBe(true);
+  });
+
+  it('should never let two concurrent quotes both hold the same vehicle', async () => {
+    const [first, second] = await Promise.all([
+      service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date()),
+      service.holdVehiclesForQuote('quote-2', ['vehicle-1'], overlappingWindow, new Date()),
+    ]);
+
+    expect(first.acquired && second.acquired).toBe(false);
+    expect(activeHolds().length).toBeLessThanOrEqual(1);
+  });
+
+  it('should replace earlier holds when a quote is re-quoted', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date());
+
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-2'], window, new Date());
+
+    expect(activeHolds().map((hold) => hold.vehicleId)).toEqual(['vehicle-2']);
+  });
+
+  it('should confirm holds for the reservation and release vehicles swapped out before payment', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1', 'vehicle-2'], window, new Date());
+
+    const result = await service.confirmHoldsForReservation('quote-1', 'reservation-1', ['vehicle-1'], window);
+
+    expect(result.acquired).toBe(true);
+    expect(activeHolds()).toHaveLength(1);
+    expect(activeHolds()[0].status).toBe('confirmed');
+    expect(activeHolds()[0].reservationId).toBe('reservation-1');
+  });
+
+  it('should re-claim lapsed holds on confirmation when the vehicles are still free', async () => {
+    const longAgo = new Date(Date.now() - 25 * 60 * 60 * 1000);
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, longAgo);
+
+    const result = await service.confirmHoldsForReservation('quote-1', 'reservation-1', ['vehicle-1'], window);
+
+    expect(result.acquired).toBe(true);
+    expect(activeHolds().map((hold) => [hold.vehicleId, hold.status])).toEqual([['vehicle-1', 'confirmed']]);
+  });
+
+  it('should keep existing bookings when a vehicle adjustment conflicts', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date());
+    await service.confirmHoldsForReservation('quote-1', 'reservation-1', ['vehicle-1'], window);
+    await service.holdVehiclesForQuote('quote-2', ['vehicle-2'], window, new Date());
+
+    const result = await service.replaceReservationHolds('quote-1', 'reservation-1', ['vehicle-2'], window);
+
+    expect(result.acquired).toBe(false);
+    expect(result.conflicts.map((hold) => hold.vehicleId)).toEqual(['vehicle-2']);
+    const bookings = await repository.findConfirmedByReservationId('reservation-1');
+    expect(bookings.map((hold) => hold.vehicleId)).toEqual(['vehicle-1']);
+  });
+
+  it('should move bookings to the new vehicles on adjustment', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date());
+    await service.confirmHoldsForReservation('quote-1', 'reservation-1', ['vehicle-1'], window);
+
+    const result = await service.replaceReservationHolds('quote-1', 'reservation-1', ['vehicle-2'], window);
+
+    expect(result.acquired).toBe(true);
+    const bookings = await repository.findConfirmedByReservationId('reservation-1');
+    expect(bookings.map((hold) => hold.vehicleId)).toEqual(['vehicle-2']);
+  });
+
+  it('should free vehicles when a reservation is cancelled', async () => {
+    await service.holdVehiclesForQuote('quote-1', ['vehicle-1'], window, new Date());
+    await service.confirmHoldsForReservation('quote-1', 'reservation-1', ['vehicle-1'], window);
+
+    await service.releaseHoldsForReservation('reservation-1');
+
+    expect(await service.findHeldVehicleIds(window)).toEqual(new Set());
+  });
+});
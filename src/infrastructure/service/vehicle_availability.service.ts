@@ -0,0 +1,209 @@
+import { inject, injectable } from 'tsyringe';
+import { randomUUID } from 'crypto';
+import {
+  IVehicleAvailabilityService,
+  IVehicleHoldResult,
+  IVehicleHoldWindow,
+} from '../../domain/services/vehicle_availability_service.interface';
+import { IVehicleHoldRepository } from '../../domain/repositories/vehicle_hold_repository.interface';
+import { IMaintenanceWindowRepository } from '../../domain/repositories/maintenance_window_repository.interface';
+import { VehicleHold, VehicleHoldStatus } from '../../domain/entities/vehicle_hold.entity';
+import { MaintenanceWindow } from '../../domain/entities/maintenance_window.entity';
+import { REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { VEHICLE_HOLD_CONFIG } from '../../shared/constants';
+import { logger } from '../../shared/logger';
+
+/**
+ * Vehicle availability service implementation
+ * Claims vehicle-time windows by writing a hold per vehicle and re-checking for overlaps afterwards.
+ * Two claims racing for the same vehicle can never both succeed: whichever re-checks last
+ * sees the other's hold and backs off (at worst both back off and the caller retries).
+ * Blocking maintenance windows count as conflicts just like other holds.
+ */
+@injectable()
+export class VehicleAvailabilityServiceImpl implements IVehicleAvailabilityService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IVehicleHoldRepository)
+    private readonly vehicleHoldRepository: IVehicleHoldRepository,
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository
+  ) {}
+
+  async holdVehiclesForQuote(
+    quoteId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow,
+    quotedAt: Date
+  ): Promise<IVehicleHoldResult> {
+    const previousHolds = await this.vehicleHoldRepository.findActiveByQuoteId(quoteId, new Date());
+    const expiresAt = new Date(quotedAt.getTime() + VEHICLE_HOLD_CONFIG.QUOTE_HOLD_DURATION_MS);
+
+    const result = await this.claim(quoteId, vehicleIds, window, 'held', expiresAt);
+
+    if (result.acquired) {
+      await this.vehicleHoldRepository.releaseByIds(
+        previousHolds.filter((hold) => !hold.isConfirmed()).map((hold) => hold.holdId),
+        new Date()
+      );
+      logger.info(`Held ${result.holds.length} vehicle(s) for quote ${quoteId} until ${expiresAt.toISOString()}`);
+    }
+
+    return result;
+  }
+
+  async confirmHoldsForReservation(
+    quoteId: string,
+    reservationId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow
+  ): Promise<IVehicleHoldResult> {
+    const confirmedAt = new Date();
+    const softHolds = (await this.vehicleHoldRepository.findActiveByQuoteId(quoteId, confirmedAt)).filter(
+      (hold) => !hold.isConfirmed() && vehicleIds.includes(hold.vehicleId)
+    );
+
+    await this.vehicleHoldRepository.confirmByIds(
+      softHolds.map((hold) => hold.holdId),
+      reservationId,
+      confirmedAt
+    );
+
+    const confirmedHolds = await this.vehicleHoldRepository.findConfirmedByReservationId(reservationId);
+    const confirmedVehicleIds = new Set(confirmedHolds.map((hold) => hold.vehicleId));
+    const missingVehicleIds = vehicleIds.filter((vehicleId) => !confirmedVehicleIds.has(vehicleId));
+
+    // Holds lapse with the payment window, so a late payment may need to claim its vehicles again
+    const result = await this.claim(quoteId, missingVehicleIds, window, 'confirmed', undefined, reservationId);
+
+    // Anything still soft-held for the quote is for vehicles that were swapped out before payment
+    await this.vehicleHoldRepository.releaseHeldByQuoteId(quoteId, new Date());
+
+    if (!result.acquired) {
+      return { ...result, holds: confirmedHolds };
+    }
+
+    logger.info(`Confirmed ${confirmedHolds.length + result.holds.length} vehicle hold(s) for reservation ${reservationId}`);
+
+    return { acquired: true, holds: [...confirmedHolds, ...result.holds], conflicts: [], maintenanceConflicts: [] };
+  }
+
+  async replaceReservationHolds(
+    quoteId: string,
+    reservationId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow
+  ): Promise<IVehicleHoldResult> {
+    const currentHolds = await this.vehicleHoldRepository.findConfirmedByReservationId(reservationId);
+    const currentVehicleIds = new Set(currentHolds.map((hold) => hold.vehicleId));
+
+    const result = await this.claim(
+      quoteId,
+      vehicleIds.filter((vehicleId) => !currentVehicleIds.has(vehicleId)),
+      window,
+      'confirmed',
+      undefined,
+      reservationId
+    );
+
+    if (!result.acquired) {
+      return { ...result, holds: currentHolds };
+    }
+
+    const keptHolds = currentHolds.filter((hold) => vehicleIds.includes(hold.vehicleId));
+    await this.vehicleHoldRepository.releaseByIds(
+      currentHolds.filter((hold) => !vehicleIds.includes(hold.vehicleId)).map((hold) => hold.holdId),
+      new Date()
+    );
+
+    return { acquired: true, holds: [...keptHolds, ...result.holds], conflicts: [], maintenanceConflicts: [] };
+  }
+
+  async releaseHoldsForQuote(quoteId: string): Promise<void> {
+    await this.vehicleHoldRepository.releaseHeldByQuoteId(quoteId, new Date());
+    logger.info(`Released vehicle holds for quote ${quoteId}`);
+  }
+
+  async releaseHoldsForReservation(reservationId: string): Promise<void> {
+    await this.vehicleHoldRepository.releaseByReservationId(reservationId, new Date());
+    logger.info(`Released vehicle holds for reservation ${reservationId}`);
+  }
+
+  async findHeldVehicleIds(window: IVehicleHoldWindow, excludeQuoteId?: string): Promise<Set<string>> {
+    const holds = await this.vehicleHoldRepository.findActiveOverlapping(window.startAt, window.endAt, new Date());
+    return new Set(
+      holds.filter((hold) => hold.quoteId !== excludeQuoteId).map((hold) => hold.vehicleId)
+    );
+  }
+
+  /**
+   * Writes holds for the vehicles unless another quote, reservation or maintenance window already blocks them
+   * Holds owned by the same quote never conflict, so a quote can re-hold or confirm its own vehicles
+   */
+  private async claim(
+    quoteId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow,
+    status: VehicleHoldStatus,
+    expiresAt?: Date,
+    reservationId?: string
+  ): Promise<IVehicleHoldResult> {
+    const uniqueVehicleIds = Array.from(new Set(vehicleIds));
+    if (uniqueVehicleIds.length === 0) {
+      return { acquired: true, holds: [], conflicts: [], maintenanceConflicts: [] };
+    }
+
+    const existingConflicts = await this.findConflicts(quoteId, uniqueVehicleIds, window);
+    if (existingConflicts.conflicts.length > 0 || existingConflicts.maintenanceConflicts.length > 0) {
+      return { acquired: false, holds: [], ...existingConflicts };
+    }
+
+    const heldAt = new Date();
+    const holds = uniqueVehicleIds.map(
+      (vehicleId) =>
+        new VehicleHold(
+          randomUUID(),
+          vehicleId,
+          quoteId,
+          window.startAt,
+          window.endAt,
+          status,
+          heldAt,
+          expiresAt,
+          reservationId,
+          status === 'confirmed' ? heldAt : undefined
+        )
+    );
+    await Promise.all(holds.map((hold) => this.vehicleHoldRepository.create(hold)));
+
+    // Re-check now that our holds are visible to concurrent claims and maintenance scheduling
+    const racingConflicts = await this.findConflicts(quoteId, uniqueVehicleIds, window);
+    if (racingConflicts.conflicts.length > 0 || racingConflicts.maintenanceConflicts.length > 0) {
+      await this.vehicleHoldRepository.releaseByIds(
+        holds.map((hold) => hold.holdId),
+        new Date()
+      );
+      const lostVehicleIds = [...racingConflicts.conflicts, ...racingConflicts.maintenanceConflicts].map(
+        (conflict) => conflict.vehicleId
+      );
+      logger.warn(`Lost race for vehicle(s) ${lostVehicleIds.join(', ')} while holding for quote ${quoteId}`);
+      return { acquired: false, holds: [], ...racingConflicts };
+    }
+
+    return { acquired: true, holds, conflicts: [], maintenanceConflicts: [] };
+  }
+
+  /**
+   * Finds active holds of other quotes and blocking maintenance windows on the vehicles that overlap the window
+   */
+  private async findConflicts(
+    quoteId: string,
+    vehicleIds: string[],
+    window: IVehicleHoldWindow
+  ): Promise<{ conflicts: VehicleHold[]; maintenanceConflicts: MaintenanceWindow[] }> {
+    const [holds, maintenanceConflicts] = await Promise.all([
+      this.vehicleHoldRepository.findActiveOverlapping(window.startAt, window.endAt, new Date(), vehicleIds),
+      this.maintenanceWindowRepository.findBlockingInDateRange(window.startAt, window.endAt, vehicleIds),
+    ]);
+    return { conflicts: holds.filter((hold) => hold.quoteId !== quoteId), maintenanceConflicts };
+  }
+}
@@ -0,0 +1,105 @@
+import { inject, injectable } from 'tsyringe';
+import { IVehicleMaintenanceService } from '../../domain/services/vehicle_maintenance_service.interface';
+import { IMaintenanceWindowRepository } from '../../domain/repositories/maintenance_window_repository.interface';
+import { IVehicleRepository } from '../../domain/repositories/vehicle_repository.interface';
+import { IQueueService } from '../../domain/services/queue_service.interface';
+import { MaintenanceWindow } from '../../domain/entities/maintenance_window.entity';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS } from '../../application/di/tokens';
+import { VehicleStatus } from '../../shared/constants';
+import { logger } from '../../shared/logger';
+
+/**
+ * Vehicle maintenance service implementation
+ * Shared by the maintenance worker and the admin maintenance use cases
+ */
+@injectable()
+export class VehicleMaintenanceServiceImpl implements IVehicleMaintenanceService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IMaintenanceWindowRepository)
+    private readonly maintenanceWindowRepository: IMaintenanceWindowRepository,
+    @inject(REPOSITORY_TOKENS.IVehicleRepository)
+    private readonly vehicleRepository: IVehicleRepository,
+    @inject(SERVICE_TOKENS.IQueueService)
+    private readonly queueService: IQueueService
+  ) {}
+
+  async startWindow(windowId: string): Promise<MaintenanceWindow | null> {
+    const window = await this.maintenanceWindowRepository.findById(windowId);
+    if (!window || window.status !== 'scheduled') {
+      logger.info(`Maintenance window ${windowId} is not scheduled, skipping start`);
+      return null;
+    }
+
+    const vehicle = await this.vehicleRepository.findById(window.vehicleId);
+    if (!vehicle || vehicle.status === VehicleStatus.RETIRED) {
+      logger.warn(`Vehicle ${window.vehicleId} is missing or retired, cancelling maintenance window ${windowId}`);
+      return this.closeWindow(windowId, 'cancelled');
+    }
+
+    const startedAt = new Date();
+    await this.maintenanceWindowRepository.updateById(windowId, {
+      status: 'in_progress',
+      startedAt,
+    } as Partial<MaintenanceWindow>);
+    await this.vehicleRepository.updateById(vehicle.vehicleId, { status: VehicleStatus.MAINTENANCE });
+
+    logger.info(
+      `Maintenance window ${windowId} started: vehicle ${vehicle.plateNumber} (${vehicle.vehicleId}) moved from ${vehicle.status} to MAINTENANCE`
+    );
+
+    return this.maintenanceWindowRepository.findById(windowId);
+  }
+
+  async closeWindow(
+    windowId: string,
+    status: 'completed' | 'cancelled',
+    serviceRecordId?: string
+  ): Promise<MaintenanceWindow | null> {
+    const window = await this.maintenanceWindowRepository.findById(windowId);
+    if (!window || !window.isBlocking()) {
+      logger.info(`Maintenance window ${windowId} is already closed, skipping ${status}`);
+      return null;
+    }
+
+    const closedAt = new Date();
+    await this.maintenanceWindowRepository.updateById(windowId, {
+      status,
+      ...(status === 'completed' ? { completedAt: closedAt } : { cancelledAt: closedAt }),
+      ...(serviceRecordId ? { serviceRecordId } : {}),
+    } as Partial<MaintenanceWindow>);
+    await this.queueService.removeMaintenanceWindowJobs(windowId);
+
+    // Only the window that put the vehicle into maintenance may take it out again
+    if (window.status === 'in_progress') {
+      await this.releaseVehicle(window.vehicleId, windowId);
+    }
+
+    logger.info(`Maintenance window ${windowId} ${status}`);
+
+    return this.maintenanceWindowRepository.findById(windowId);
+  }
+
+  /**
+   * Returns the vehicle to AVAILABLE unless another window has it in maintenance
+   */
+  private async releaseVehicle(vehicleId: string, closedWindowId: string): Promise<void> {
+    const vehicle = await this.vehicleRepository.findById(vehicleId);
+    if (!vehicle || vehicle.status !== VehicleStatus.MAINTENANCE) {
+      return;
+    }
+
+    const now = new Date();
+    const otherWindows = await this.maintenanceWindowRepository.findBlockingInDateRange(
+      now,
+      new Date(now.getTime() + 1),
+      [vehicleId]
+    );
+    if (otherWindows.some((window) => window.windowId !== closedWindowId && window.status === 'in_progress')) {
+      logger.info(`Vehicle ${vehicleId} stays in MAINTENANCE for another window`);
+      return;
+    }
+
+    await this.vehicleRepository.updateById(vehicleId, { status: VehicleStatus.AVAILABLE });
+    logger.info(`Vehicle ${vehicle.plateNumber} (${vehicleId}) returned to AVAILABLE after maintenance`);
+  }
+}
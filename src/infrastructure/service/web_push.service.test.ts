@@ -0,0 +1,106 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { createECDH, randomBytes } from 'crypto';
+import { WebPushServiceImpl } from './web_push.service';
+import { WebPushSubscription } from '../../domain/entities/web_push_subscription.entity';
+import { IWebPushSubscriptionRepository } from '../../domain/repositories/web_push_subscription_repository.interface';
+
+// Mock logger to avoid console output in tests
+vi.mock('../../shared/logger', () => ({
+  logger: {
+    info: vi.fn(),
+    error: vi.fn(),
+    warn: vi.fn(),
+  },
+}));
+
+const vapid = createECDH('prime256v1');
+const vapidPublicKey = vapid.generateKeys().toString('base64url');
+const vapidPrivateKey = vapid.getPrivateKey().toString('base64url');
+
+vi.mock('../../shared/config', () => ({
+  WEB_PUSH_CONFIG: {
+    get PUBLIC_KEY() {
+      return vapidPublicKey;
+    },
+    get PRIVATE_KEY() {
+      return vapidPrivateKey;
+    },
+    SUBJECT: 'mailto:support@grandline.com',
+    TTL_SECONDS: 60,
+    ALLOWED_ENDPOINT_HOSTS: ['fcm.googleapis.com', 'push.services.mozilla.com'],
+  },
+}));
+
+const browserSubscription = (subscriptionId: string, endpoint: string): WebPushSubscription =>
+  new WebPushSubscription(
+    subscriptionId,
+    'user-1',
+    endpoint,
+    createECDH('prime256v1').generateKeys().toString('base64url'),
+    randomBytes(16).toString('base64url'),
+    'Mozilla/5.0',
+    new Date(),
+    new Date()
+  );
+
+describe('WebPushServiceImpl', () => {
+  let service: WebPushServiceImpl;
+  let findByUserId: ReturnType<typeof vi.fn>;
+  let deleteByEndpoint: ReturnType<typeof vi.fn>;
+  let fetchMock: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    findByUserId = vi.fn().mockResolvedValue([
+      browserSubscription('subscription-1', 'https://fcm.googleapis.com/fcm/send/active'),
+      browserSubscription('subscription-2', 'https://updates.push.services.mozilla.com/wpush/v2/gone'),
+    ]);
+    deleteByEndpoint = vi.fn().mockResolvedValue(undefined);
+    fetchMock = vi.fn();
+    fetchMock.mockImplementation((endpoint: string) =>
+      Promise.resolve(new Response(null, { status: endpoint.endsWith('/gone') ? 410 : 201 }))
+    );
+    vi.stubGlobal('fetch', fetchMock);
+
+    service = new WebPushServiceImpl({ findByUserId, deleteByEndpoint } as unknown as IWebPushSubscriptionRepository);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('should send an encrypted, VAPID-signed message to every browser', async () => {
+    const result = await service.sendToUser('user-1', { title: 'Trip confirmed', body: 'See you soon' });
+
+    expect(result.devices).toBe(2);
+    expect(result.delivered).toBe(1);
+    expect(fetchMock).toHaveBeenCalledWith(
+      'https://fcm.googleapis.com/fcm/send/active',
+      expect.objectContaining({
+        method: 'POST',
+        headers: expect.objectContaining({
+          Authorization: expect.stringMatching(new RegExp(`^vapid t=.+, k=${vapidPublicKey}$`)) as unknown,
+          'Content-Encoding': 'aes128gcm',
+          TTL: '60',
+        }) as unknown,
+      })
+    );
+  });
+
+  it('should prune subscriptions the push service reports as gone', async () => {
+    const result = await service.sendToUser('user-1', { title: 'Trip confirmed', body: 'See you soon' });
+
+    expect(result.pruned).toBe(1);
+    expect(deleteByEndpoint).toHaveBeenCalledTimes(1);
+    expect(deleteByEndpoint).toHaveBeenCalledWith('https://updates.push.services.mozilla.com/wpush/v2/gone');
+  });
+
+  it('should prune subscriptions outside the allowed push services without calling them', async () => {
+    findByUserId.mockResolvedValue([browserSubscription('subscription-3', 'https://internal.example.com/push')]);
+
+    const result = await service.sendToUser('user-1', { title: 'Trip confirmed', body: 'See you soon' });
+
+    expect(result.pruned).toBe(1);
+    expect(fetchMock).not.toHaveBeenCalled();
+    expect(deleteByEndpoint).toHaveBeenCalledWith('https://internal.example.com/push');
+  });
+});
@@ -0,0 +1,119 @@
+/**
+ * Web Push Service
+ * Handles sending browser push notifications via the Web Push protocol
+ */
+
+import { injectable, inject } from 'tsyringe';
+import { IWebPushSubscriptionRepository } from '../../domain/repositories/web_push_subscription_repository.interface';
+import { WebPushSubscription } from '../../domain/entities/web_push_subscription.entity';
+import { IWebPushMessage, IWebPushResult, IWebPushService } from '../../domain/services/web_push_service.interface';
+import { REPOSITORY_TOKENS } from '../../application/di/tokens';
+import { WEB_PUSH_CONFIG } from '../../shared/config';
+import { createVapidAuthorization, encryptWebPushPayload, isAllowedPushEndpoint } from '../../shared/utils/web_push.util';
+import { logger } from '../../shared/logger';
+
+// Push services answer 404 or 410 once the browser has unsubscribed
+const EXPIRED_SUBSCRIPTION_STATUSES = [404, 410];
+
+/**
+ * Web Push Service
+ * Encrypts each message for the subscribing browser and posts it to the browser's push service
+ */
+@injectable()
+export class WebPushServiceImpl implements IWebPushService {
+  constructor(
+    @inject(REPOSITORY_TOKENS.IWebPushSubscriptionRepository)
+    private readonly subscriptionRepository: IWebPushSubscriptionRepository
+  ) {}
+
+  isConfigured(): boolean {
+    return Boolean(WEB_PUSH_CONFIG.PUBLIC_KEY && WEB_PUSH_CONFIG.PRIVATE_KEY);
+  }
+
+  getPublicKey(): string {
+    return WEB_PUSH_CONFIG.PUBLIC_KEY;
+  }
+
+  async sendToUser(userId: string, message: IWebPushMessage): Promise<IWebPushResult> {
+    const subscriptions = await this.subscriptionRepository.findByUserId(userId);
+    const result: IWebPushResult = { devices: subscriptions.length, delivered: 0, pruned: 0 };
+
+    if (subscriptions.length === 0) {
+      return result;
+    }
+
+    if (!this.isConfigured()) {
+      throw new Error('VAPID keys are not configured');
+    }
+
+    const payload = JSON.stringify(message);
+    const outcomes = await Promise.all(
+      subscriptions.map((subscription) => this.sendToSubscription(subscription, payload))
+    );
+
+    for (const outcome of outcomes) {
+      if (outcome === 'delivered') {
+        result.delivered += 1;
+      } else if (outcome === 'expired') {
+        result.pruned += 1;
+      }
+    }
+
+    return result;
+  }
+
+  private async sendToSubscription(
+    subscription: WebPushSubscription,
+    payload: string
+  ): Promise<'delivered' | 'expired' | 'failed'> {
+    try {
+      // Subscriptions stored before endpoints were checked at registration may point anywhere
+      if (!isAllowedPushEndpoint(subscription.endpoint, WEB_PUSH_CONFIG.ALLOWED_ENDPOINT_HOSTS)) {
+        await this.subscriptionRepository.deleteByEndpoint(subscription.endpoint);
+        logger.warn(
+          `[WebPush] Pruned subscription ${subscription.subscriptionId} with an endpoint outside the allowed push services`
+        );
+        return 'expired';
+      }
+
+      const response = await fetch(subscription.endpoint, {
+        method: 'POST',
+        redirect: 'error', // A redirect could lead the request away from the push service
+        headers: {
+          Authorization: createVapidAuthorization(subscription.endpoint, {
+            publicKey: WEB_PUSH_CONFIG.PUBLIC_KEY,
+            privateKey: WEB_PUSH_CONFIG.PRIVATE_KEY,
+            subject: WEB_PUSH_CONFIG.SUBJECT,
+          }),
+          TTL: WEB_PUSH_CONFIG.TTL_SECONDS.toString(),
+          Urgency: 'high',
+          'Content-Encoding': 'aes128gcm',
+          'Content-Type': 'application/octet-stream',
+        },
+        body: encryptWebPushPayload(payload, subscription.p256dh, subscription.auth),
+      });
+
+      if (response.ok) {
+        return 'delivered';
+      }
+
+      if (EXPIRED_SUBSCRIPTION_STATUSES.includes(response.status)) {
+        await this.subscriptionRepository.deleteByEndpoint(subscription.endpoint);
+        logger.info(
+          `[WebPush] Pruned expired subscription ${subscription.subscriptionId} for user: ${subscription.userId}`
+        );
+        return 'expired';
+      }
+
+      logger.warn(
+        `[WebPush] Push service returned status ${response.status} for subscription ${subscription.subscriptionId}`
+      );
+      return 'failed';
+    } catch (error) {
+      logger.error(
+        `[WebPush] Error sending to subscription ${subscription.subscriptionId}: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      return 'failed';
+    }
+  }
+}
@@ -0,0 +1,74 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetAuditLogsUseCase } from '../../../application/use-cases/interface/admin/audit_log/get_audit_logs_use_case.interface';
+import { IExportAuditLogsCSVUseCase } from '../../../application/use-cases/interface/admin/audit_log/export_audit_logs_csv_use_case.interface';
+import { AuditLogQuery } from '../../../application/dtos/audit_log.dto';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { AuditAction, AuditTargetType, HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin audit log controller
+ * Handles searching and exporting the trail of admin and financial actions
+ */
+@injectable()
+export class AdminAuditLogController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetAuditLogsUseCase)
+    private readonly getAuditLogsUseCase: IGetAuditLogsUseCase,
+    @inject(USE_CASE_TOKENS.ExportAuditLogsCSVUseCase)
+    private readonly exportAuditLogsCSVUseCase: IExportAuditLogsCSVUseCase
+  ) {}
+
+  /**
+   * Handles listing the audit log
+   * GET /api/v1/admin/audit-log
+   */
+  async getAuditLogs(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+
+      logger.info(`Admin audit log request: page=${page}, limit=${limit}`);
+
+      const response = await this.getAuditLogsUseCase.execute(this.getQuery(req), page, limit);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(`Error fetching audit log: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles exporting the audit log to CSV
+   * GET /api/v1/admin/audit-log/export/csv
+   */
+  async exportAuditLogsCSV(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      logger.info(`Admin audit log CSV export request by ${req.user?.userId}`);
+
+      const csvContent = await this.exportAuditLogsCSVUseCase.execute(this.getQuery(req));
+
+      res.setHeader('Content-Type', 'text/csv');
+      res.setHeader('Content-Disposition', `attachment; filename="audit-log-${new Date().toISOString().slice(0, 10)}.csv"`);
+      res.send(csvContent);
+    } catch (error) {
+      logger.error(`Error exporting audit log to CSV: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
+  private getQuery(req: AuthenticatedRequest): AuditLogQuery {
+    return {
+      actorId: req.query.actorId as string | undefined,
+      action: req.query.action as AuditAction | undefined,
+      targetType: req.query.targetType as AuditTargetType | undefined,
+      targetId: req.query.targetId as string | undefined,
+      from: req.query.from as string | undefined,
+      to: req.query.to as string | undefined,
+    };
+  }
+}
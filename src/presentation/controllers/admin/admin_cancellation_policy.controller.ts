@@ -0,0 +1,121 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetCancellationPolicyUseCase } from '../../../application/use-cases/interface/cancellation_policy/get_cancellation_policy_use_case.interface';
+import { ICreateCancellationPolicyUseCase } from '../../../application/use-cases/interface/cancellation_policy/create_cancellation_policy_use_case.interface';
+import { IGetCancellationPolicyHistoryUseCase } from '../../../application/use-cases/interface/cancellation_policy/get_cancellation_policy_history_use_case.interface';
+import { IActivateCancellationPolicyUseCase } from '../../../application/use-cases/interface/cancellation_policy/activate_cancellation_policy_use_case.interface';
+import { CreateCancellationPolicyRequest } from '../../../application/dtos/cancellation_policy.dto';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin cancellation policy controller
+ * Handles admin cancellation policy management operations
+ */
+@injectable()
+export class AdminCancellationPolicyController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetCancellationPolicyUseCase)
+    private readonly getCancellationPolicyUseCase: IGetCancellationPolicyUseCase,
+    @inject(USE_CASE_TOKENS.CreateCancellationPolicyUseCase)
+    private readonly createCancellationPolicyUseCase: ICreateCancellationPolicyUseCase,
+    @inject(USE_CASE_TOKENS.GetCancellationPolicyHistoryUseCase)
+    private readonly getCancellationPolicyHistoryUseCase: IGetCancellationPolicyHistoryUseCase,
+    @inject(USE_CASE_TOKENS.ActivateCancellationPolicyUseCase)
+    private readonly activateCancellationPolicyUseCase: IActivateCancellationPolicyUseCase
+  ) {}
+
+  /**
+   * Handles getting the active cancellation policy
+   * GET /api/v1/admin/cancellation-policies
+   */
+  async getActivePolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      logger.info('Admin request for active cancellation policy');
+
+      const response = await this.getCancellationPolicyUseCase.execute();
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching active cancellation policy: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles creating a new cancellation policy version
+   * POST /api/v1/admin/cancellation-policies
+   */
+  async createPolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request = req.body as CreateCancellationPolicyRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        logger.error('User ID not found in authenticated request');
+        sendErrorResponse(res, new Error('User ID not found'));
+        return;
+      }
+
+      logger.info(`Admin creating new cancellation policy version by user: ${userId}`);
+
+      const response = await this.createCancellationPolicyUseCase.execute(request, userId);
+
+      logger.info(
+        `Cancellation policy created successfully: ${response.cancellationPolicyId}, version: ${response.version}`
+      );
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error creating cancellation policy: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting cancellation policy history
+   * GET /api/v1/admin/cancellation-policies/history
+   */
+  async getHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      logger.info('Admin request for cancellation policy history');
+
+      const response = await this.getCancellationPolicyHistoryUseCase.execute();
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching cancellation policy history: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles activating a cancellation policy
+   * PUT /api/v1/admin/cancellation-policies/:id/activate
+   */
+  async activatePolicy(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      logger.info(`Admin request to activate cancellation policy: ${id}`);
+
+      const response = await this.activateCancellationPolicyUseCase.execute(id);
+
+      logger.info(`Cancellation policy activated successfully: ${id}, version: ${response.version}`);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error activating cancellation policy: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
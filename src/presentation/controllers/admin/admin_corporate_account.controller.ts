@@ -0,0 +1,252 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetCorporateAccountsUseCase } from '../../../application/use-cases/interface/corporate/get_corporate_accounts_use_case.interface';
+import { IGetCorporateAccountUseCase } from '../../../application/use-cases/interface/corporate/get_corporate_account_use_case.interface';
+import { ICreateCorporateAccountUseCase } from '../../../application/use-cases/interface/corporate/create_corporate_account_use_case.interface';
+import { IUpdateCorporateAccountUseCase } from '../../../application/use-cases/interface/corporate/update_corporate_account_use_case.interface';
+import { IAddCorporateMemberUseCase } from '../../../application/use-cases/interface/corporate/add_corporate_member_use_case.interface';
+import { IRemoveCorporateMemberUseCase } from '../../../application/use-cases/interface/corporate/remove_corporate_member_use_case.interface';
+import { IGetCorporateStatementUseCase } from '../../../application/use-cases/interface/corporate/get_corporate_statement_use_case.interface';
+import { IMarkCorporateInvoicePaidUseCase } from '../../../application/use-cases/interface/corporate/mark_corporate_invoice_paid_use_case.interface';
+import { IGetCorporateInvoicePdfUseCase } from '../../../application/use-cases/interface/corporate/get_corporate_invoice_pdf_use_case.interface';
+import {
+  CreateCorporateAccountRequest,
+  UpdateCorporateAccountRequest,
+  AddCorporateMemberRequest,
+  MarkCorporateInvoicePaidRequest,
+} from '../../../application/dtos/corporate_account.dto';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin corporate account controller
+ * Handles setting up company accounts, their members and settling their invoices
+ */
+@injectable()
+export class AdminCorporateAccountController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetCorporateAccountsUseCase)
+    private readonly getCorporateAccountsUseCase: IGetCorporateAccountsUseCase,
+    @inject(USE_CASE_TOKENS.GetCorporateAccountUseCase)
+    private readonly getCorporateAccountUseCase: IGetCorporateAccountUseCase,
+    @inject(USE_CASE_TOKENS.CreateCorporateAccountUseCase)
+    private readonly createCorporateAccountUseCase: ICreateCorporateAccountUseCase,
+    @inject(USE_CASE_TOKENS.UpdateCorporateAccountUseCase)
+    private readonly updateCorporateAccountUseCase: IUpdateCorporateAccountUseCase,
+    @inject(USE_CASE_TOKENS.AddCorporateMemberUseCase)
+    private readonly addCorporateMemberUseCase: IAddCorporateMemberUseCase,
+    @inject(USE_CASE_TOKENS.RemoveCorporateMemberUseCase)
+    private readonly removeCorporateMemberUseCase: IRemoveCorporateMemberUseCase,
+    @inject(USE_CASE_TOKENS.GetCorporateStatementUseCase)
+    private readonly getCorporateStatementUseCase: IGetCorporateStatementUseCase,
+    @inject(USE_CASE_TOKENS.MarkCorporateInvoicePaidUseCase)
+    private readonly markCorporateInvoicePaidUseCase: IMarkCorporateInvoicePaidUseCase,
+    @inject(USE_CASE_TOKENS.GetCorporateInvoicePdfUseCase)
+    private readonly getCorporateInvoicePdfUseCase: IGetCorporateInvoicePdfUseCase
+  ) {}
+
+  /**
+   * Handles listing corporate accounts
+   * GET /api/v1/admin/corporate-accounts
+   */
+  async getCorporateAccounts(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      logger.info('Admin request for corporate accounts');
+
+      const response = await this.getCorporateAccountsUseCase.execute();
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching corporate accounts: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting a corporate account
+   * GET /api/v1/admin/corporate-accounts/:id
+   */
+  async getCorporateAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      logger.info(`Admin request for corporate account: ${id}`);
+
+      const response = await this.getCorporateAccountUseCase.execute(id);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching corporate account: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles creating a corporate account
+   * POST /api/v1/admin/corporate-accounts
+   */
+  async createCorporateAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request = req.body as CreateCorporateAccountRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        logger.error('User ID not found in authenticated request');
+        sendErrorResponse(res, new Error('User ID not found'));
+        return;
+      }
+
+      logger.info(`Admin ${userId} creating corporate account ${request.name}`);
+
+      const response = await this.createCorporateAccountUseCase.execute(request, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error creating corporate account: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles updating or suspending a corporate account
+   * PATCH /api/v1/admin/corporate-accounts/:id
+   */
+  async updateCorporateAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const request = req.body as UpdateCorporateAccountRequest;
+      logger.info(`Admin updating corporate account: ${id}`);
+
+      const response = await this.updateCorporateAccountUseCase.execute(id, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error updating corporate account: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles adding a user to a corporate account
+   * POST /api/v1/admin/corporate-accounts/:id/members
+   */
+  async addMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const request = req.body as AddCorporateMemberRequest;
+      logger.info(`Admin adding ${request.email} to corporate account: ${id}`);
+
+      const response = await this.addCorporateMemberUseCase.execute(id, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error adding corporate account member: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles removing a user from a corporate account
+   * DELETE /api/v1/admin/corporate-accounts/:id/members/:userId
+   */
+  async removeMember(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, userId } = req.params;
+      logger.info(`Admin removing ${userId} from corporate account: ${id}`);
+
+      const response = await this.removeCorporateMemberUseCase.execute(id, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error removing corporate account member: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting the statement of a corporate account
+   * GET /api/v1/admin/corporate-accounts/:id/statement
+   */
+  async getStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+      logger.info(`Admin statement request for corporate account ${id}: from=${from || 'start'}, to=${to || 'now'}`);
+
+      const response = await this.getCorporateStatementUseCase.execute(id, from, to);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching corporate statement: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles recording the payment of a corporate invoice
+   * POST /api/v1/admin/corporate-accounts/invoices/:invoiceId/mark-paid
+   */
+  async markInvoicePaid(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { invoiceId } = req.params;
+      const request = req.body as MarkCorporateInvoicePaidRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        logger.error('User ID not found in authenticated request');
+        sendErrorResponse(res, new Error('User ID not found'));
+        return;
+      }
+
+      logger.info(`Admin ${userId} marking corporate invoice ${invoiceId} as paid`);
+
+      const response = await this.markCorporateInvoicePaidUseCase.execute(invoiceId, request, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error marking corporate invoice as paid: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles downloading a corporate invoice as PDF
+   * GET /api/v1/admin/corporate-accounts/invoices/:invoiceId/pdf
+   */
+  async downloadInvoicePdf(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { invoiceId } = req.params;
+      logger.info(`Admin downloading corporate invoice: ${invoiceId}`);
+
+      const { invoiceNumber, pdf } = await this.getCorporateInvoicePdfUseCase.execute(invoiceId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      logger.error(
+        `Error downloading corporate invoice: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
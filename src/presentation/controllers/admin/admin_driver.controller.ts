@@ -6,6 +6,7 @@ import { IGetDriverByIdUseCase } from '../../../application/use-cases/interface/
 import { IUpdateDriverUseCase } from '../../../application/use-cases/interface/driver/update_driver_use_case.interface';
 import { IUpdateDriverStatusUseCase } from '../../../application/use-cases/interface/driver/update_driver_status_use_case.interface';
 import { IDeleteDriverUseCase } from '../../../application/use-cases/interface/driver/delete_driver_use_case.interface';
+import { IUnlockDriverUseCase } from '../../../application/use-cases/interface/driver/unlock_driver_use_case.interface';
 import { IGetDriverStatisticsUseCase } from '../../../application/use-cases/interface/driver/get_driver_statistics_use_case.interface';
 import { CreateDriverRequest, ListDriversRequest, UpdateDriverRequest, UpdateDriverStatusRequest, GetDriverStatisticsRequest } from '../../../application/dtos/driver.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
@@ -36,6 +37,8 @@ export class AdminDriverController {
     private readonly updateDriverStatusUseCase: IUpdateDriverStatusUseCase,
     @inject(USE_CASE_TOKENS.DeleteDriverUseCase)
     private readonly deleteDriverUseCase: IDeleteDriverUseCase,
+    @inject(USE_CASE_TOKENS.UnlockDriverUseCase)
+    private readonly unlockDriverUseCase: IUnlockDriverUseCase,
     @inject(USE_CASE_TOKENS.GetDriverStatisticsUseCase)
     private readonly getDriverStatisticsUseCase: IGetDriverStatisticsUseCase,
     @inject(USE_CASE_TOKENS.RecordDriverPayoutUseCase)
@@ -238,6 +241,35 @@ export class AdminDriverController {
     }
   }
 
+  /**
+   * Handles unlocking a driver locked out after repeated failed logins
+   * POST /api/v1/admin/drivers/:driverId/unlock
+   * Requires admin authentication
+   */
+  async unlockDriver(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Unlock driver attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const driverId = req.params.driverId;
+      if (!driverId) {
+        logger.warn('Unlock driver attempt without driverId parameter');
+        sendErrorResponse(res, new Error('Driver ID is required'));
+        return;
+      }
+
+      logger.info(`Admin ${req.user.userId} unlocking driver: ${driverId}`);
+      const response = await this.unlockDriverUseCase.execute(driverId);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.ACCOUNT_UNLOCKED);
+    } catch (error) {
+      logger.error(`Error unlocking driver: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
   /**
    * Handles getting driver statistics
    * GET /api/v1/admin/drivers/:driverId/statistics
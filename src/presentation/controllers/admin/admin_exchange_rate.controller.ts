@@ -0,0 +1,95 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetExchangeRatesUseCase } from '../../../application/use-cases/interface/exchange_rate/get_exchange_rates_use_case.interface';
+import { IUpsertExchangeRateUseCase } from '../../../application/use-cases/interface/exchange_rate/upsert_exchange_rate_use_case.interface';
+import { IDeleteExchangeRateUseCase } from '../../../application/use-cases/interface/exchange_rate/delete_exchange_rate_use_case.interface';
+import { UpsertExchangeRateRequest } from '../../../application/dtos/exchange_rate.dto';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin exchange rate controller
+ * Handles maintenance of the exchange rates quotes are priced with
+ */
+@injectable()
+export class AdminExchangeRateController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetExchangeRatesUseCase)
+    private readonly getExchangeRatesUseCase: IGetExchangeRatesUseCase,
+    @inject(USE_CASE_TOKENS.UpsertExchangeRateUseCase)
+    private readonly upsertExchangeRateUseCase: IUpsertExchangeRateUseCase,
+    @inject(USE_CASE_TOKENS.DeleteExchangeRateUseCase)
+    private readonly deleteExchangeRateUseCase: IDeleteExchangeRateUseCase
+  ) {}
+
+  /**
+   * Handles listing exchange rates
+   * GET /api/v1/admin/exchange-rates
+   */
+  async getExchangeRates(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      logger.info('Admin request for exchange rates');
+
+      const response = await this.getExchangeRatesUseCase.execute();
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching exchange rates: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles creating or updating an exchange rate
+   * PUT /api/v1/admin/exchange-rates
+   */
+  async upsertExchangeRate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request = req.body as UpsertExchangeRateRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        logger.error('User ID not found in authenticated request');
+        sendErrorResponse(res, new Error('User ID not found'));
+        return;
+      }
+
+      logger.info(`Admin ${userId} setting exchange rate for ${request.currency}`);
+
+      const response = await this.upsertExchangeRateUseCase.execute(request, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error saving exchange rate: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles deleting an exchange rate
+   * DELETE /api/v1/admin/exchange-rates/:id
+   */
+  async deleteExchangeRate(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      logger.info(`Admin request to delete exchange rate: ${id}`);
+
+      await this.deleteExchangeRateUseCase.execute(id);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, { message: 'Exchange rate deleted successfully' });
+    } catch (error) {
+      logger.error(
+        `Error deleting exchange rate: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -0,0 +1,63 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetTripFuelReportUseCase } from '../../../application/use-cases/interface/admin/fuel/get_trip_fuel_report_use_case.interface';
+import { IGetVehicleFuelHistoryUseCase } from '../../../application/use-cases/interface/admin/fuel/get_vehicle_fuel_history_use_case.interface';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin fuel report controller
+ * Handles estimated vs actual trip distance/fuel reports and per-vehicle consumption history
+ */
+@injectable()
+export class AdminFuelReportController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetTripFuelReportUseCase)
+    private readonly getTripFuelReportUseCase: IGetTripFuelReportUseCase,
+    @inject(USE_CASE_TOKENS.GetVehicleFuelHistoryUseCase)
+    private readonly getVehicleFuelHistoryUseCase: IGetVehicleFuelHistoryUseCase
+  ) {}
+
+  /**
+   * Handles getting the estimated vs actual trip fuel report
+   */
+  async getTripFuelReport(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+
+      logger.info(`Admin trip fuel report request: from=${from || 'default'}, to=${to || 'now'}`);
+
+      const response = await this.getTripFuelReportUseCase.execute(from, to);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching trip fuel report: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting a vehicle's measured fuel consumption history
+   */
+  async getVehicleFuelHistory(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      logger.info(`Admin vehicle fuel history request for vehicle: ${vehicleId}`);
+
+      const response = await this.getVehicleFuelHistoryUseCase.execute(vehicleId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching vehicle fuel history: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetVehicleMaintenanceUseCase } from '../../../application/use-cases/interface/admin/maintenance/get_vehicle_maintenance_use_case.interface';
+import { IUpdateVehicleMaintenancePlanUseCase } from '../../../application/use-cases/interface/admin/maintenance/update_vehicle_maintenance_plan_use_case.interface';
+import { IScheduleMaintenanceWindowUseCase } from '../../../application/use-cases/interface/admin/maintenance/schedule_maintenance_window_use_case.interface';
+import { ICancelMaintenanceWindowUseCase } from '../../../application/use-cases/interface/admin/maintenance/cancel_maintenance_window_use_case.interface';
+import { IRecordVehicleServiceUseCase } from '../../../application/use-cases/interface/admin/maintenance/record_vehicle_service_use_case.interface';
+import {
+  RecordVehicleServiceRequest,
+  ScheduleMaintenanceWindowRequest,
+  UpdateVehicleMaintenancePlanRequest,
+} from '../../../application/dtos/maintenance.dto';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin maintenance controller
+ * Handles vehicle service intervals, maintenance windows and service history
+ */
+@injectable()
+export class AdminMaintenanceController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetVehicleMaintenanceUseCase)
+    private readonly getVehicleMaintenanceUseCase: IGetVehicleMaintenanceUseCase,
+    @inject(USE_CASE_TOKENS.UpdateVehicleMaintenancePlanUseCase)
+    private readonly updateVehicleMaintenancePlanUseCase: IUpdateVehicleMaintenancePlanUseCase,
+    @inject(USE_CASE_TOKENS.ScheduleMaintenanceWindowUseCase)
+    private readonly scheduleMaintenanceWindowUseCase: IScheduleMaintenanceWindowUseCase,
+    @inject(USE_CASE_TOKENS.CancelMaintenanceWindowUseCase)
+    private readonly cancelMaintenanceWindowUseCase: ICancelMaintenanceWindowUseCase,
+    @inject(USE_CASE_TOKENS.RecordVehicleServiceUseCase)
+    private readonly recordVehicleServiceUseCase: IRecordVehicleServiceUseCase
+  ) {}
+
+  /**
+   * Handles getting a vehicle's maintenance overview
+   */
+  async getVehicleMaintenance(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      logger.info(`Admin vehicle maintenance request for vehicle: ${vehicleId}`);
+
+      const response = await this.getVehicleMaintenanceUseCase.execute(vehicleId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching vehicle maintenance: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles updating a vehicle's service intervals and odometer
+   */
+  async updateMaintenancePlan(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      const request = req.body as UpdateVehicleMaintenancePlanRequest;
+      logger.info(`Admin maintenance plan update for vehicle: ${vehicleId}`);
+
+      const response = await this.updateVehicleMaintenancePlanUseCase.execute(vehicleId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error updating maintenance plan: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles scheduling a maintenance window
+   */
+  async scheduleWindow(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      const request = req.body as ScheduleMaintenanceWindowRequest;
+      logger.info(`Admin maintenance window request for vehicle: ${vehicleId}`);
+
+      const response = await this.scheduleMaintenanceWindowUseCase.execute(vehicleId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error scheduling maintenance window: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles cancelling a maintenance window
+   */
+  async cancelWindow(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { windowId } = req.params;
+      logger.info(`Admin maintenance window cancellation: ${windowId}`);
+
+      const response = await this.cancelMaintenanceWindowUseCase.execute(windowId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error cancelling maintenance window: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles recording a completed service
+   */
+  async recordService(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { vehicleId } = req.params;
+      const request = req.body as RecordVehicleServiceRequest;
+      logger.info(`Admin service record request for vehicle: ${vehicleId}`);
+
+      const response = await this.recordVehicleServiceUseCase.execute(vehicleId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error recording vehicle service: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
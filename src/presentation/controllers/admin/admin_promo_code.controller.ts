@@ -0,0 +1,96 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetPromoCodesUseCase } from '../../../application/use-cases/interface/promo_code/get_promo_codes_use_case.interface';
+import { ICreatePromoCodeUseCase } from '../../../application/use-cases/interface/promo_code/create_promo_code_use_case.interface';
+import { IUpdatePromoCodeUseCase } from '../../../application/use-cases/interface/promo_code/update_promo_code_use_case.interface';
+import { CreatePromoCodeRequest, UpdatePromoCodeRequest } from '../../../application/dtos/promo_code.dto';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin promo code controller
+ * Handles maintenance of the promo codes users can apply to quotes
+ */
+@injectable()
+export class AdminPromoCodeController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetPromoCodesUseCase)
+    private readonly getPromoCodesUseCase: IGetPromoCodesUseCase,
+    @inject(USE_CASE_TOKENS.CreatePromoCodeUseCase)
+    private readonly createPromoCodeUseCase: ICreatePromoCodeUseCase,
+    @inject(USE_CASE_TOKENS.UpdatePromoCodeUseCase)
+    private readonly updatePromoCodeUseCase: IUpdatePromoCodeUseCase
+  ) {}
+
+  /**
+   * Handles listing promo codes
+   * GET /api/v1/admin/promo-codes
+   */
+  async getPromoCodes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      logger.info('Admin request for promo codes');
+
+      const response = await this.getPromoCodesUseCase.execute();
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching promo codes: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles creating a promo code
+   * POST /api/v1/admin/promo-codes
+   */
+  async createPromoCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const request = req.body as CreatePromoCodeRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        logger.error('User ID not found in authenticated request');
+        sendErrorResponse(res, new Error('User ID not found'));
+        return;
+      }
+
+      logger.info(`Admin ${userId} creating promo code ${request.code}`);
+
+      const response = await this.createPromoCodeUseCase.execute(request, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error creating promo code: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles updating or deactivating a promo code
+   * PATCH /api/v1/admin/promo-codes/:id
+   */
+  async updatePromoCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const request = req.body as UpdatePromoCodeRequest;
+
+      logger.info(`Admin request to update promo code: ${id}`);
+
+      const response = await this.updatePromoCodeUseCase.execute(id, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error updating promo code: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
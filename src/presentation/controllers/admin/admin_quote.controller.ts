@@ -6,7 +6,12 @@ import { IGetAdminQuoteUseCase } from '../../../application/use-cases/interface/
 import { IUpdateQuoteStatusUseCase } from '../../../application/use-cases/interface/quote/admin/update_quote_status_use_case.interface';
 import { IAssignDriverToQuoteUseCase } from '../../../application/use-cases/interface/quote/admin/assign_driver_to_quote_use_case.interface';
 import { IRecalculateQuoteUseCase } from '../../../application/use-cases/interface/quote/admin/recalculate_quote_use_case.interface';
-import { UpdateQuoteStatusRequest, AssignDriverToQuoteRequest } from '../../../application/dtos/quote.dto';
+import { IProposeCounterOfferUseCase } from '../../../application/use-cases/interface/quote/admin/propose_counter_offer_use_case.interface';
+import {
+  UpdateQuoteStatusRequest,
+  AssignDriverToQuoteRequest,
+  ProposeCounterOfferRequest,
+} from '../../../application/dtos/quote.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
 import { HTTP_STATUS, QuoteStatus } from '../../../shared/constants';
 import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
@@ -28,7 +33,9 @@ export class AdminQuoteController {
     @inject(USE_CASE_TOKENS.AssignDriverToQuoteUseCase)
     private readonly assignDriverToQuoteUseCase: IAssignDriverToQuoteUseCase,
     @inject(USE_CASE_TOKENS.RecalculateQuoteUseCase)
-    private readonly recalculateQuoteUseCase: IRecalculateQuoteUseCase
+    private readonly recalculateQuoteUseCase: IRecalculateQuoteUseCase,
+    @inject(USE_CASE_TOKENS.ProposeCounterOfferUseCase)
+    private readonly proposeCounterOfferUseCase: IProposeCounterOfferUseCase
   ) {}
 
   /**
@@ -160,5 +167,33 @@ export class AdminQuoteController {
       sendErrorResponse(res, error);
     }
   }
-}
 
+  /**
+   * Handles sending a counter-offer on a quote
+   */
+  async proposeCounterOffer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const request = req.body as ProposeCounterOfferRequest;
+      const adminUserId = req.user?.userId;
+
+      if (!adminUserId) {
+        logger.error('User ID not found in authenticated request');
+        sendErrorResponse(res, new Error('User ID not found'));
+        return;
+      }
+
+      logger.info(`Admin counter-offer request for quote ID: ${id} by admin: ${adminUserId}`);
+
+      const response = await this.proposeCounterOfferUseCase.execute(id, adminUserId, request);
+
+      logger.info(`Counter-offer sent successfully on quote: ${id}`);
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error sending counter-offer: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -10,6 +10,7 @@ import { IAdjustReservationVehiclesUseCase } from '../../../application/use-case
 import { IUpdateReservationItineraryUseCase } from '../../../application/use-cases/interface/admin/reservation/update_reservation_itinerary_use_case.interface';
 import { IProcessReservationRefundUseCase } from '../../../application/use-cases/interface/admin/reservation/process_reservation_refund_use_case.interface';
 import { ICancelReservationUseCase } from '../../../application/use-cases/interface/admin/reservation/cancel_reservation_use_case.interface';
+import { IPreviewReservationCancellationUseCase } from '../../../application/use-cases/interface/admin/reservation/preview_reservation_cancellation_use_case.interface';
 import { IAddReservationChargeUseCase } from '../../../application/use-cases/interface/admin/reservation/add_reservation_charge_use_case.interface';
 import { IMarkChargeAsPaidUseCase } from '../../../application/use-cases/interface/admin/reservation/mark_charge_as_paid_use_case.interface';
 import { IExportReservationPDFUseCase } from '../../../application/use-cases/interface/admin/reservation/export_reservation_pdf_use_case.interface';
@@ -25,8 +26,9 @@ import {
   AddReservationChargeRequest,
 } from '../../../application/dtos/admin_reservation.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
-import { HTTP_STATUS, ReservationStatus } from '../../../shared/constants';
+import { HTTP_STATUS, Permission, ReservationStatus } from '../../../shared/constants';
 import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { hasPermissions } from '../../../shared/utils/permission.util';
 import { logger } from '../../../shared/logger';
 
 /**
@@ -61,7 +63,9 @@ export class AdminReservationController {
     @inject(USE_CASE_TOKENS.ExportReservationPDFUseCase)
     private readonly exportReservationPDFUseCase: IExportReservationPDFUseCase,
     @inject(USE_CASE_TOKENS.ExportReservationCSVUseCase)
-    private readonly exportReservationCSVUseCase: IExportReservationCSVUseCase
+    private readonly exportReservationCSVUseCase: IExportReservationCSVUseCase,
+    @inject(USE_CASE_TOKENS.PreviewReservationCancellationUseCase)
+    private readonly previewReservationCancellationUseCase: IPreviewReservationCancellationUseCase
   ) {}
 
   /**
@@ -288,6 +292,26 @@ export class AdminReservationController {
     }
   }
 
+  /**
+   * Handles previewing the refund for cancelling a reservation
+   */
+  async previewCancellation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+
+      logger.info(`Admin cancellation preview request for reservation: ${id}`);
+
+      const preview = await this.previewReservationCancellationUseCase.execute(id);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, preview);
+    } catch (error) {
+      logger.error(
+        `Error previewing reservation cancellation: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
   /**
    * Handles cancelling reservation
    */
@@ -299,10 +323,13 @@ export class AdminReservationController {
 
       logger.info(`Admin cancelling reservation: ${id}, reason: ${request.reason}`);
 
+      // Dispatchers may cancel, but only admins allowed to refund may cancel paid reservations
       const reservation = await this.cancelReservationUseCase.execute(
         id,
         request.reason,
-        adminUserId
+        adminUserId,
+        'admin',
+        !!req.user && hasPermissions(req.user, [Permission.REFUND_CREATE])
       );
 
       sendSuccessResponse(res, HTTP_STATUS.OK, { reservation });
@@ -0,0 +1,44 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetFleetScheduleUseCase } from '../../../application/use-cases/interface/admin/schedule/get_fleet_schedule_use_case.interface';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin schedule controller
+ * Handles the fleet dispatch timeline for vehicles and drivers
+ */
+@injectable()
+export class AdminScheduleController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetFleetScheduleUseCase)
+    private readonly getFleetScheduleUseCase: IGetFleetScheduleUseCase
+  ) {}
+
+  /**
+   * Handles getting the fleet schedule
+   */
+  async getSchedule(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+      const resource = req.query.resource as string | undefined;
+
+      logger.info(
+        `Admin schedule request: resource=${resource || 'vehicle'}, from=${from || 'now'}, to=${to || 'default'}`
+      );
+
+      const response = await this.getFleetScheduleUseCase.execute(from, to, resource);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching admin schedule: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -4,10 +4,15 @@ import { IGetUserByIdUseCase } from '../../../application/use-cases/interface/us
 import { IListUsersUseCase } from '../../../application/use-cases/interface/user/list_users_use_case.interface';
 import { IChangeUserStatusUseCase } from '../../../application/use-cases/interface/user/change_user_status_use_case.interface';
 import { IChangeUserRoleUseCase } from '../../../application/use-cases/interface/user/change_user_role_use_case.interface';
+import { IUnlockUserUseCase } from '../../../application/use-cases/interface/user/unlock_user_use_case.interface';
+import { IListUserSessionsUseCase } from '../../../application/use-cases/interface/user/list_user_sessions_use_case.interface';
+import { IForceLogoutUserUseCase } from '../../../application/use-cases/interface/user/force_logout_user_use_case.interface';
 import { IGetUserStatisticsUseCase } from '../../../application/use-cases/interface/user/get_user_statistics_use_case.interface';
+import { IGetUserNotificationsUseCase } from '../../../application/use-cases/interface/notification/get_user_notifications_use_case.interface';
+import { GetNotificationsRequest } from '../../../application/dtos/notification.dto';
 import { ListUsersRequest, ChangeUserStatusRequest, ChangeUserRoleRequest, GetUserStatisticsRequest } from '../../../application/dtos/user.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
-import { HTTP_STATUS, SUCCESS_MESSAGES } from '../../../shared/constants';
+import { HTTP_STATUS, SUCCESS_MESSAGES, NotificationType } from '../../../shared/constants';
 import { AuthenticatedRequest } from '../../../shared/types/express.types';
 import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
 import { logger } from '../../../shared/logger';
@@ -27,8 +32,16 @@ export class AdminUserController {
     private readonly changeUserStatusUseCase: IChangeUserStatusUseCase,
     @inject(USE_CASE_TOKENS.ChangeUserRoleUseCase)
     private readonly changeUserRoleUseCase: IChangeUserRoleUseCase,
+    @inject(USE_CASE_TOKENS.UnlockUserUseCase)
+    private readonly unlockUserUseCase: IUnlockUserUseCase,
+    @inject(USE_CASE_TOKENS.ListUserSessionsUseCase)
+    private readonly listUserSessionsUseCase: IListUserSessionsUseCase,
+    @inject(USE_CASE_TOKENS.ForceLogoutUserUseCase)
+    private readonly forceLogoutUserUseCase: IForceLogoutUserUseCase,
     @inject(USE_CASE_TOKENS.GetUserStatisticsUseCase)
     private readonly getUserStatisticsUseCase: IGetUserStatisticsUseCase,
+    @inject(USE_CASE_TOKENS.GetUserNotificationsUseCase)
+    private readonly getUserNotificationsUseCase: IGetUserNotificationsUseCase,
   ) {}
 
   /**
@@ -168,6 +181,86 @@ export class AdminUserController {
     }
   }
 
+  /**
+   * Handles unlocking a user locked out after repeated failed logins
+   */
+  async unlockUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Unlock user attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const userId = req.params.userId;
+      if (!userId) {
+        logger.warn('Unlock user attempt without userId parameter');
+        sendErrorResponse(res, new Error('User ID is required'));
+        return;
+      }
+
+      logger.info(`Admin ${req.user.userId} unlocking user: ${userId}`);
+      const response = await this.unlockUserUseCase.execute(userId);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.ACCOUNT_UNLOCKED);
+    } catch (error) {
+      logger.error(`Error unlocking user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles listing the devices a user is logged in on
+   */
+  async getUserSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Get user sessions attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const userId = req.params.userId;
+      if (!userId) {
+        logger.warn('Get user sessions attempt without userId parameter');
+        sendErrorResponse(res, new Error('User ID is required'));
+        return;
+      }
+
+      const response = await this.listUserSessionsUseCase.execute(userId);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(`Error getting user sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles logging a user out on all devices
+   */
+  async forceLogoutUser(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Force logout attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const userId = req.params.userId;
+      if (!userId) {
+        logger.warn('Force logout attempt without userId parameter');
+        sendErrorResponse(res, new Error('User ID is required'));
+        return;
+      }
+
+      logger.info(`Admin ${req.user.userId} logging out user everywhere: ${userId}`);
+      const response = await this.forceLogoutUserUseCase.execute(userId);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.SESSIONS_REVOKED);
+    } catch (error) {
+      logger.error(`Error logging out user: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
   /**
    * Handles getting user statistics
    */
@@ -191,5 +284,32 @@ export class AdminUserController {
       sendErrorResponse(res, error);
     }
   }
-}
 
+  /**
+   * Handles getting a user's notifications with per-channel delivery status
+   */
+  async getUserNotifications(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Get user notifications attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const userId = req.params.userId;
+      const request: GetNotificationsRequest = {
+        page: req.query.page ? parseInt(req.query.page as string, 10) : undefined,
+        limit: req.query.limit ? parseInt(req.query.limit as string, 10) : undefined,
+        unreadOnly: req.query.unreadOnly === 'true',
+        type: req.query.type as NotificationType | undefined,
+      };
+
+      logger.info(`Admin ${req.user.userId} viewing notifications of user: ${userId}`);
+      const response = await this.getUserNotificationsUseCase.execute(userId, request);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(`Error getting user notifications: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -0,0 +1,98 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetWebhookEventsUseCase } from '../../../application/use-cases/interface/webhook/get_webhook_events_use_case.interface';
+import { IGetWebhookEventUseCase } from '../../../application/use-cases/interface/webhook/get_webhook_event_use_case.interface';
+import { IReplayWebhookEventUseCase } from '../../../application/use-cases/interface/webhook/replay_webhook_event_use_case.interface';
+import { WebhookEventStatus } from '../../../domain/entities/webhook_event.entity';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Admin webhook event controller
+ * Handles inspecting and replaying stored payment gateway webhooks
+ */
+@injectable()
+export class AdminWebhookEventController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetWebhookEventsUseCase)
+    private readonly getWebhookEventsUseCase: IGetWebhookEventsUseCase,
+    @inject(USE_CASE_TOKENS.GetWebhookEventUseCase)
+    private readonly getWebhookEventUseCase: IGetWebhookEventUseCase,
+    @inject(USE_CASE_TOKENS.ReplayWebhookEventUseCase)
+    private readonly replayWebhookEventUseCase: IReplayWebhookEventUseCase
+  ) {}
+
+  /**
+   * Handles listing webhook events
+   * GET /api/v1/admin/webhook-events
+   */
+  async getWebhookEvents(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const page = req.query.page ? parseInt(req.query.page as string, 10) : undefined;
+      const limit = req.query.limit ? parseInt(req.query.limit as string, 10) : undefined;
+      const status = req.query.status as WebhookEventStatus | undefined;
+      const type = req.query.type as string | undefined;
+
+      logger.info(`Admin webhook events request: page=${page}, limit=${limit}, status=${status || 'all'}`);
+
+      const response = await this.getWebhookEventsUseCase.execute(page, limit, status, type);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching webhook events: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting a webhook event with its payload
+   * GET /api/v1/admin/webhook-events/:eventId
+   */
+  async getWebhookEvent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params;
+
+      logger.info(`Admin request for webhook event: ${eventId}`);
+
+      const response = await this.getWebhookEventUseCase.execute(eventId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching webhook event: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles replaying a webhook event
+   * POST /api/v1/admin/webhook-events/:eventId/replay
+   */
+  async replayWebhookEvent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { eventId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        logger.error('User ID not found in authenticated request');
+        sendErrorResponse(res, new Error('User ID not found'));
+        return;
+      }
+
+      const response = await this.replayWebhookEventUseCase.execute(eventId, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error replaying webhook event: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -9,6 +9,7 @@ import { IGoogleAuthUseCase } from '../../../application/use-cases/interface/aut
 import { ISetupPasswordUseCase } from '../../../application/use-cases/interface/auth/setup_password_use_case.interface';
 import { ILinkGoogleAccountUseCase } from '../../../application/use-cases/interface/auth/link_google_account_use_case.interface';
 import { RegisterUserRequest, LoginUserRequest, LogoutUserRequest, ForgotPasswordRequest, ResetPasswordRequest, GoogleAuthRequest, SetupPasswordRequest, LinkGoogleRequest } from '../../../application/dtos/user.dto';
+import { TwoFactorChallengeResponse } from '../../../application/dtos/two_factor.dto';
 import { AuthenticatedRequest } from '../../../shared/types/express.types';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
 import { HTTP_STATUS, SUCCESS_MESSAGES, COOKIE_NAMES, ERROR_MESSAGES } from '../../../shared/constants';
@@ -60,7 +61,15 @@ export class AuthController {
   async loginUser(req: Request, res: Response): Promise<void> {
     try {
       const request = req.body as LoginUserRequest;
-      const response = await this.loginUserUseCase.execute(request);
+      const response = await this.loginUserUseCase.execute(request, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if ('challengeToken' in response) {
+        this.sendTwoFactorChallenge(res, response);
+        return;
+      }
 
       // Set HTTP-only cookies for tokens
       setAccessTokenCookie(res, response.accessToken);
@@ -77,11 +86,11 @@ export class AuthController {
   /**
    * Handles user logout
    */
-  async logoutUser(req: Request, res: Response): Promise<void> {
+  async logoutUser(req: AuthenticatedRequest, res: Response): Promise<void> {
     try {
       const refreshToken = req.cookies?.[COOKIE_NAMES.REFRESH_TOKEN] as string | undefined;
 
-      const request: LogoutUserRequest = { refreshToken: refreshToken ?? '' };
+      const request: LogoutUserRequest = { refreshToken: refreshToken ?? '', sessionId: req.user?.sessionId };
       const response = await this.logoutUserUseCase.execute(request);
 
       clearAllAuthCookies(res);
@@ -126,7 +135,15 @@ export class AuthController {
   async googleAuth(req: Request, res: Response): Promise<void> {
     try {
       const request = req.body as GoogleAuthRequest;
-      const response = await this.googleAuthUseCase.execute(request);
+      const response = await this.googleAuthUseCase.execute(request, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      if ('challengeToken' in response) {
+        this.sendTwoFactorChallenge(res, response);
+        return;
+      }
 
       // Set HTTP-only cookies for tokens
       setAccessTokenCookie(res, response.accessToken);
@@ -175,4 +192,14 @@ export class AuthController {
       sendErrorResponse(res, error);
     }
   }
+
+  /**
+   * Responds to a login that needs a second factor; no cookies are set until it is verified
+   */
+  private sendTwoFactorChallenge(res: Response, challenge: TwoFactorChallengeResponse): void {
+    const message = challenge.setup
+      ? SUCCESS_MESSAGES.TWO_FACTOR_ENROLLMENT_REQUIRED
+      : SUCCESS_MESSAGES.TWO_FACTOR_REQUIRED;
+    sendSuccessResponse(res, HTTP_STATUS.OK, challenge, message);
+  }
 }
\ No newline at end of file
@@ -5,4 +5,5 @@
 export { AuthController } from './auth.controller';
 export { OtpController } from './otp.controller';
 export { TokenController } from './token.controller';
+export { TwoFactorController } from './two_factor.controller';
 
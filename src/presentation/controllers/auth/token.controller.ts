@@ -53,13 +53,16 @@ export class TokenController {
       }
 
       const request: RefreshTokenRequest = { refreshToken };
-      const response = await this.refreshTokenUseCase.execute(request);
+      const response = await this.refreshTokenUseCase.execute(request, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
 
       if (isWebClient) {
         // WEB CLIENT: Use HTTP-only cookies only (secure, not accessible to JavaScript)
         setAccessTokenCookie(res, response.accessToken);
         
-        // Update refresh token cookie if a new one was issued
+        // Refresh tokens are rotated, so the cookie must be replaced
         if ('refreshToken' in response && response.refreshToken) {
           const refreshTokenValue = response.refreshToken;
           if (typeof refreshTokenValue === 'string') {
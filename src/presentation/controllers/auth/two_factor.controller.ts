@@ -0,0 +1,152 @@
+import { Request, Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { IVerifyTwoFactorLoginUseCase } from '../../../application/use-cases/interface/auth/verify_two_factor_login_use_case.interface';
+import { IGetTwoFactorStatusUseCase } from '../../../application/use-cases/interface/auth/get_two_factor_status_use_case.interface';
+import { ISetupTwoFactorUseCase } from '../../../application/use-cases/interface/auth/setup_two_factor_use_case.interface';
+import { IEnableTwoFactorUseCase } from '../../../application/use-cases/interface/auth/enable_two_factor_use_case.interface';
+import { IDisableTwoFactorUseCase } from '../../../application/use-cases/interface/auth/disable_two_factor_use_case.interface';
+import { IRegenerateRecoveryCodesUseCase } from '../../../application/use-cases/interface/auth/regenerate_recovery_codes_use_case.interface';
+import { VerifyTwoFactorLoginRequest, EnableTwoFactorRequest, TwoFactorCodeRequest } from '../../../application/dtos/two_factor.dto';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS, SUCCESS_MESSAGES, ERROR_MESSAGES } from '../../../shared/constants';
+import { setAccessTokenCookie, setRefreshTokenCookie } from '../../../shared/utils/cookie.util';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+
+/**
+ * Two-factor authentication controller
+ * Handles the second login step and managing the authenticator app of the current user
+ */
+@injectable()
+export class TwoFactorController {
+  constructor(
+    @inject(USE_CASE_TOKENS.VerifyTwoFactorLoginUseCase)
+    private readonly verifyTwoFactorLoginUseCase: IVerifyTwoFactorLoginUseCase,
+    @inject(USE_CASE_TOKENS.GetTwoFactorStatusUseCase)
+    private readonly getTwoFactorStatusUseCase: IGetTwoFactorStatusUseCase,
+    @inject(USE_CASE_TOKENS.SetupTwoFactorUseCase)
+    private readonly setupTwoFactorUseCase: ISetupTwoFactorUseCase,
+    @inject(USE_CASE_TOKENS.EnableTwoFactorUseCase)
+    private readonly enableTwoFactorUseCase: IEnableTwoFactorUseCase,
+    @inject(USE_CASE_TOKENS.DisableTwoFactorUseCase)
+    private readonly disableTwoFactorUseCase: IDisableTwoFactorUseCase,
+    @inject(USE_CASE_TOKENS.RegenerateRecoveryCodesUseCase)
+    private readonly regenerateRecoveryCodesUseCase: IRegenerateRecoveryCodesUseCase
+  ) {}
+
+  /**
+   * Handles the second login step
+   */
+  async verifyLogin(req: Request, res: Response): Promise<void> {
+    try {
+      const request = req.body as VerifyTwoFactorLoginRequest;
+      const response = await this.verifyTwoFactorLoginUseCase.execute(request, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
+
+      // Set HTTP-only cookies for tokens
+      setAccessTokenCookie(res, response.accessToken);
+      if (response.refreshToken) {
+        setRefreshTokenCookie(res, response.refreshToken);
+      }
+
+      sendSuccessResponse(
+        res,
+        HTTP_STATUS.OK,
+        { user: response.user, recoveryCodes: response.recoveryCodes },
+        SUCCESS_MESSAGES.LOGIN_SUCCESS
+      );
+    } catch (error) {
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting the two-factor status of the current user
+   */
+  async getStatus(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
+      }
+
+      const response = await this.getTwoFactorStatusUseCase.execute(req.user.userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles starting two-factor setup
+   */
+  async setup(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
+      }
+
+      const response = await this.setupTwoFactorUseCase.execute(req.user.userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.TWO_FACTOR_SETUP_STARTED);
+    } catch (error) {
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles confirming two-factor setup
+   */
+  async enable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
+      }
+
+      const request = req.body as EnableTwoFactorRequest;
+      const response = await this.enableTwoFactorUseCase.execute(req.user.userId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.TWO_FACTOR_ENABLED);
+    } catch (error) {
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles turning two-factor authentication off
+   */
+  async disable(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
+      }
+
+      const request = req.body as TwoFactorCodeRequest;
+      const response = await this.disableTwoFactorUseCase.execute(req.user.userId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.TWO_FACTOR_DISABLED);
+    } catch (error) {
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles replacing the recovery codes
+   */
+  async regenerateRecoveryCodes(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        throw new Error(ERROR_MESSAGES.UNAUTHORIZED);
+      }
+
+      const request = req.body as TwoFactorCodeRequest;
+      const response = await this.regenerateRecoveryCodesUseCase.execute(req.user.userId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.RECOVERY_CODES_REGENERATED);
+    } catch (error) {
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -0,0 +1,195 @@
+import { Response } from 'express';
+import { inject, injectable } from 'tsyringe';
+import { AuthenticatedRequest } from '../../../shared/types/express.types';
+import { IGetMyCorporateAccountUseCase } from '../../../application/use-cases/interface/corporate/get_my_corporate_account_use_case.interface';
+import { IGetCorporateBookingsUseCase } from '../../../application/use-cases/interface/corporate/get_corporate_bookings_use_case.interface';
+import { IBookQuoteOnAccountUseCase } from '../../../application/use-cases/interface/corporate/book_quote_on_account_use_case.interface';
+import { IReviewCorporateBookingUseCase } from '../../../application/use-cases/interface/corporate/review_corporate_booking_use_case.interface';
+import { IGetCorporateStatementUseCase } from '../../../application/use-cases/interface/corporate/get_corporate_statement_use_case.interface';
+import { IGetCorporateInvoicePdfUseCase } from '../../../application/use-cases/interface/corporate/get_corporate_invoice_pdf_use_case.interface';
+import { ReviewCorporateBookingRequest } from '../../../application/dtos/corporate_account.dto';
+import { CorporateBookingStatus } from '../../../domain/entities/corporate_booking.entity';
+import { USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { HTTP_STATUS } from '../../../shared/constants';
+import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { logger } from '../../../shared/logger';
+
+/**
+ * Corporate account controller
+ * Handles booking on account, approvals and statements for members of a company account
+ */
+@injectable()
+export class CorporateAccountController {
+  constructor(
+    @inject(USE_CASE_TOKENS.GetMyCorporateAccountUseCase)
+    private readonly getMyCorporateAccountUseCase: IGetMyCorporateAccountUseCase,
+    @inject(USE_CASE_TOKENS.GetCorporateBookingsUseCase)
+    private readonly getCorporateBookingsUseCase: IGetCorporateBookingsUseCase,
+    @inject(USE_CASE_TOKENS.BookQuoteOnAccountUseCase)
+    private readonly bookQuoteOnAccountUseCase: IBookQuoteOnAccountUseCase,
+    @inject(USE_CASE_TOKENS.ReviewCorporateBookingUseCase)
+    private readonly reviewCorporateBookingUseCase: IReviewCorporateBookingUseCase,
+    @inject(USE_CASE_TOKENS.GetCorporateStatementUseCase)
+    private readonly getCorporateStatementUseCase: IGetCorporateStatementUseCase,
+    @inject(USE_CASE_TOKENS.GetCorporateInvoicePdfUseCase)
+    private readonly getCorporateInvoicePdfUseCase: IGetCorporateInvoicePdfUseCase
+  ) {}
+
+  /**
+   * Handles getting the corporate account of the signed-in member
+   * GET /api/v1/corporate-account
+   */
+  async getMyAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const response = await this.getMyCorporateAccountUseCase.execute(userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching corporate account: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles listing bookings on the member's corporate account
+   * GET /api/v1/corporate-account/bookings
+   */
+  async getBookings(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const status = req.query.status as CorporateBookingStatus | undefined;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const response = await this.getCorporateBookingsUseCase.execute(userId, status);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching corporate bookings: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles booking a quote on the member's corporate account
+   * POST /api/v1/quotes/:id/book-on-account
+   */
+  async bookQuoteOnAccount(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id: quoteId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Booking quote ${quoteId} on account by user: ${userId}`);
+
+      const response = await this.bookQuoteOnAccountUseCase.execute(quoteId, userId);
+
+      // Bookings over the approval threshold come back as pending_approval
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error booking quote on account: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles an account admin approving or rejecting a booking
+   * POST /api/v1/corporate-account/bookings/:bookingId/review
+   */
+  async reviewBooking(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { bookingId } = req.params;
+      const request = req.body as ReviewCorporateBookingRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`User ${userId} reviewing corporate booking ${bookingId}: ${request.decision}`);
+
+      const response = await this.reviewCorporateBookingUseCase.execute(bookingId, userId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error reviewing corporate booking: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting the statement of the member's corporate account
+   * GET /api/v1/corporate-account/statement
+   */
+  async getStatement(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const userId = req.user?.userId;
+      const from = req.query.from as string | undefined;
+      const to = req.query.to as string | undefined;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const { account } = await this.getMyCorporateAccountUseCase.execute(userId);
+      const response = await this.getCorporateStatementUseCase.execute(
+        account.corporateAccountId,
+        from,
+        to,
+        userId
+      );
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error fetching corporate statement: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles downloading an invoice of the member's corporate account as PDF
+   * GET /api/v1/corporate-account/invoices/:invoiceId/pdf
+   */
+  async downloadInvoicePdf(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { invoiceId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const { invoiceNumber, pdf } = await this.getCorporateInvoicePdfUseCase.execute(invoiceId, userId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      logger.error(
+        `Error downloading corporate invoice: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -0,0 +1 @@
+export { CorporateAccountController } from './corporate_account.controller';
@@ -26,6 +26,7 @@ import { AuthenticatedRequest } from '../../../shared/types/express.types';
 import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
 import { logger } from '../../../shared/logger';
 import { DriverDashboardRequestDto } from '../../../application/dtos/driver_dashboard.dto';
+import { EndTripRequest, StartTripRequest } from '../../../application/dtos/trip_log.dto';
 
 /**
  * Driver controller (mobile app)
@@ -82,7 +83,10 @@ export class DriverController {
       const request = req.body as LoginDriverRequest;
       logger.info(`Driver login attempt: ${request.email}`);
 
-      const response = await this.loginDriverUseCase.execute(request);
+      const response = await this.loginDriverUseCase.execute(request, {
+        ipAddress: req.ip,
+        userAgent: req.get('user-agent'),
+      });
 
       logger.info(`Driver logged in successfully: ${response.driver.email}`);
       sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.DRIVER_LOGIN_SUCCESS);
@@ -534,10 +538,11 @@ export class DriverController {
       }
 
       const { reservationId } = req.params;
+      const request = req.body as StartTripRequest;
 
       logger.info(`Start trip request: driver=${driverId}, reservation=${reservationId}`);
 
-      const reservation = await this.startTripUseCase.execute(driverId, reservationId);
+      const reservation = await this.startTripUseCase.execute(driverId, reservationId, request);
 
       sendSuccessResponse(res, HTTP_STATUS.OK, { reservation }, 'Trip started successfully');
     } catch (error) {
@@ -569,10 +574,11 @@ export class DriverController {
       }
 
       const { reservationId } = req.params;
+      const request = req.body as EndTripRequest;
 
       logger.info(`End trip request: driver=${driverId}, reservation=${reservationId}`);
 
-      const reservation = await this.endTripUseCase.execute(driverId, reservationId);
+      const reservation = await this.endTripUseCase.execute(driverId, reservationId, request);
 
       sendSuccessResponse(res, HTTP_STATUS.OK, { reservation }, 'Trip ended successfully');
     } catch (error) {
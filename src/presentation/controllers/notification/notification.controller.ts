@@ -6,10 +6,18 @@ import { IGetUserNotificationsUseCase } from '../../../application/use-cases/int
 import { IMarkNotificationAsReadUseCase } from '../../../application/use-cases/interface/notification/mark_notification_as_read_use_case.interface';
 import { IMarkAllNotificationsAsReadUseCase } from '../../../application/use-cases/interface/notification/mark_all_notifications_as_read_use_case.interface';
 import { IGetUnreadNotificationCountUseCase } from '../../../application/use-cases/interface/notification/get_unread_notification_count_use_case.interface';
+import { IGetNotificationPreferencesUseCase } from '../../../application/use-cases/interface/notification/get_notification_preferences_use_case.interface';
+import { IUpdateNotificationPreferencesUseCase } from '../../../application/use-cases/interface/notification/update_notification_preferences_use_case.interface';
+import { IGetWebPushPublicKeyUseCase } from '../../../application/use-cases/interface/notification/get_web_push_public_key_use_case.interface';
+import { IRegisterPushSubscriptionUseCase } from '../../../application/use-cases/interface/notification/register_push_subscription_use_case.interface';
+import { IUnregisterPushSubscriptionUseCase } from '../../../application/use-cases/interface/notification/unregister_push_subscription_use_case.interface';
 import {
   CreateNotificationRequest,
   GetNotificationsRequest,
   MarkNotificationAsReadRequest,
+  RegisterPushSubscriptionRequest,
+  UnregisterPushSubscriptionRequest,
+  UpdateNotificationPreferencesRequest,
 } from '../../../application/dtos/notification.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
 import { HTTP_STATUS, NotificationType } from '../../../shared/constants';
@@ -32,7 +40,17 @@ export class NotificationController {
     @inject(USE_CASE_TOKENS.MarkAllNotificationsAsReadUseCase)
     private readonly markAllNotificationsAsReadUseCase: IMarkAllNotificationsAsReadUseCase,
     @inject(USE_CASE_TOKENS.GetUnreadNotificationCountUseCase)
-    private readonly getUnreadNotificationCountUseCase: IGetUnreadNotificationCountUseCase
+    private readonly getUnreadNotificationCountUseCase: IGetUnreadNotificationCountUseCase,
+    @inject(USE_CASE_TOKENS.GetNotificationPreferencesUseCase)
+    private readonly getNotificationPreferencesUseCase: IGetNotificationPreferencesUseCase,
+    @inject(USE_CASE_TOKENS.UpdateNotificationPreferencesUseCase)
+    private readonly updateNotificationPreferencesUseCase: IUpdateNotificationPreferencesUseCase,
+    @inject(USE_CASE_TOKENS.GetWebPushPublicKeyUseCase)
+    private readonly getWebPushPublicKeyUseCase: IGetWebPushPublicKeyUseCase,
+    @inject(USE_CASE_TOKENS.RegisterPushSubscriptionUseCase)
+    private readonly registerPushSubscriptionUseCase: IRegisterPushSubscriptionUseCase,
+    @inject(USE_CASE_TOKENS.UnregisterPushSubscriptionUseCase)
+    private readonly unregisterPushSubscriptionUseCase: IUnregisterPushSubscriptionUseCase
   ) {}
 
   /**
@@ -161,5 +179,117 @@ export class NotificationController {
       sendErrorResponse(res, error);
     }
   }
-}
 
+  /**
+   * Handles getting notification preferences
+   */
+  async getNotificationPreferences(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Get notification preferences attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      logger.info(`Get notification preferences request for user: ${req.user.userId}`);
+      const response = await this.getNotificationPreferencesUseCase.execute(req.user.userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error getting notification preferences: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles updating notification preferences
+   */
+  async updateNotificationPreferences(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Update notification preferences attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const request = req.body as UpdateNotificationPreferencesRequest;
+      logger.info(`Update notification preferences request for user: ${req.user.userId}`);
+      const response = await this.updateNotificationPreferencesUseCase.execute(req.user.userId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error updating notification preferences: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting the VAPID public key for browser push subscriptions
+   */
+  getWebPushPublicKey(_req: AuthenticatedRequest, res: Response): void {
+    try {
+      const response = this.getWebPushPublicKeyUseCase.execute();
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(`Error getting web push public key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles registering the current browser for push notifications
+   */
+  async registerPushSubscription(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Register push subscription attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const request = req.body as RegisterPushSubscriptionRequest;
+      logger.info(`Register push subscription request for user: ${req.user.userId}`);
+      const response = await this.registerPushSubscriptionUseCase.execute(
+        req.user.userId,
+        request,
+        req.get('user-agent')
+      );
+
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error registering push subscription: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles unregistering the current browser from push notifications
+   */
+  async unregisterPushSubscription(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Unregister push subscription attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const request = req.body as UnregisterPushSubscriptionRequest;
+      logger.info(`Unregister push subscription request for user: ${req.user.userId}`);
+      await this.unregisterPushSubscriptionUseCase.execute(req.user.userId, request.endpoint);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, { message: 'Push subscription removed successfully' });
+    } catch (error) {
+      logger.error(
+        `Error unregistering push subscription: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
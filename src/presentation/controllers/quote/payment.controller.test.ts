@@ -2,20 +2,15 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { container } from 'tsyringe';
 import { PaymentController } from './payment.controller';
 import { MockQuoteRepository } from '../../../shared/test/mocks/repositories/quote_repository.mock';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { MockPaymentGateway } from '../../../shared/test/mocks/services/payment_gateway.mock';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../application/di/tokens';
 import { clearContainer } from '../../../shared/test/helpers/test_setup';
 import { createQuotedQuoteFixture, createQuoteFixture } from '../../../shared/test/fixtures/quote.fixture';
 import { QuoteStatus } from '../../../shared/constants';
 import { AuthenticatedRequest } from '../../../shared/types/express.types';
 import { Response } from 'express';
 import { AppError } from '../../../shared/utils/app_error.util';
-import * as stripeService from '../../../infrastructure/service/stripe.service';
-import Stripe from 'stripe';
-
-// Mock the Stripe service
-vi.mock('../../../infrastructure/services/stripe.service', () => ({
-  getStripeInstance: vi.fn(),
-}));
+import { IPaymentWebhookEvent } from '../../../domain/services/payment_gateway.interface';
 
 // Mock logger to avoid console output in tests
 vi.mock('../../../shared/logger', () => ({
@@ -37,6 +32,14 @@ vi.mock('../../../shared/config', () => ({
   STRIPE_CONFIG: {
     WEBHOOK_SECRET: 'whsec_test_secret',
   },
+  PAYMENT_GATEWAY_CONFIG: {
+    PROVIDER: 'stripe',
+  },
+  PAYMENT_PLAN_CONFIG: {
+    DEPOSIT_PERCENTAGE: 30,
+    MIN_PASSENGERS: 30,
+    BALANCE_DUE_DAYS: 14,
+  },
 }));
 
 // Import after mock to get the mocked version
@@ -45,12 +48,16 @@ import * as configModule from '../../../shared/config';
 describe('PaymentController', () => {
   let controller: PaymentController;
   let mockQuoteRepository: MockQuoteRepository;
+  let mockItineraryRepository: {
+    findByQuoteIdOrdered: ReturnType<typeof vi.fn>;
+  };
   let mockCreatePaymentIntentUseCase: {
     execute: ReturnType<typeof vi.fn>;
   };
-  let mockHandlePaymentWebhookUseCase: {
+  let mockRecordWebhookEventUseCase: {
     execute: ReturnType<typeof vi.fn>;
   };
+  let mockPaymentGateway: MockPaymentGateway;
   let mockRequest: Partial<AuthenticatedRequest>;
   let mockResponse: Partial<Response>;
 
@@ -59,26 +66,30 @@ describe('PaymentController', () => {
 
     // Create mock repositories
     mockQuoteRepository = new MockQuoteRepository();
+    mockItineraryRepository = {
+      findByQuoteIdOrdered: vi.fn().mockResolvedValue([]),
+    };
 
     // Create mock use cases
     mockCreatePaymentIntentUseCase = {
       execute: vi.fn(),
     };
 
-    mockHandlePaymentWebhookUseCase = {
+    mockRecordWebhookEventUseCase = {
       execute: vi.fn(),
     };
 
     // Register mocks in container
     container.registerInstance(REPOSITORY_TOKENS.IQuoteRepository, mockQuoteRepository);
+    container.registerInstance(REPOSITORY_TOKENS.IQuoteItineraryRepository, mockItineraryRepository);
     container.registerInstance(
       USE_CASE_TOKENS.CreatePaymentIntentUseCase as never,
       mockCreatePaymentIntentUseCase
     );
-    container.registerInstance(
-      USE_CASE_TOKENS.HandlePaymentWebhookUseCase as never,
-      mockHandlePaymentWebhookUseCase
-    );
+    container.registerInstance(USE_CASE_TOKENS.RecordWebhookEventUseCase, mockRecordWebhookEventUseCase);
+
+    mockPaymentGateway = new MockPaymentGateway();
+    container.registerInstance(SERVICE_TOKENS.IPaymentGateway, mockPaymentGateway);
 
     // Create controller instance
     controller = container.resolve(PaymentController);
@@ -133,6 +144,7 @@ describe('PaymentController', () => {
           quoteId,
           totalPrice: 10000,
           pricing: quote.pricing,
+          depositPlan: null,
         })
       );
     });
@@ -256,7 +268,7 @@ describe('PaymentController', () => {
       );
 
       // Assert
-      expect(mockCreatePaymentIntentUseCase.execute).toHaveBeenCalledWith(quoteId, userId);
+      expect(mockCreatePaymentIntentUseCase.execute).toHaveBeenCalledWith(quoteId, userId, 'full');
       const { sendSuccessResponse } = await import('../../../shared/utils/response.util');
       expect(sendSuccessResponse).toHaveBeenCalledWith(
         mockResponse as Response,
@@ -369,15 +381,9 @@ describe('PaymentController', () => {
       mockRequest.headers = { 'stripe-signature': sig };
       mockRequest.body = Buffer.from('test-body');
 
-      const mockStripe = {
-        webhooks: {
-          constructEvent: vi.fn().mockImplementation(() => {
-            throw new Error('Invalid signature');
-          }),
-        },
-      };
-
-      vi.mocked(stripeService.getStripeInstance).mockReturnValue(mockStripe as unknown as Stripe);
+      mockPaymentGateway.constructWebhookEvent.mockImplementation(() => {
+        throw new Error('Invalid signature');
+      });
 
       // Act
       await controller.handleWebhook(
@@ -398,24 +404,19 @@ describe('PaymentController', () => {
       mockRequest.headers = { 'stripe-signature': sig };
       mockRequest.body = Buffer.from('test-body');
 
-      const mockEvent: Partial<Stripe.Event> = {
+      const mockEvent: IPaymentWebhookEvent = {
+        id: 'evt_test_123',
         type: 'payment_intent.succeeded',
         data: {
           object: {
             id: 'pi_test_123',
             status: 'succeeded',
-          } as Stripe.PaymentIntent,
-        },
-      };
-
-      const mockStripe = {
-        webhooks: {
-          constructEvent: vi.fn().mockReturnValue(mockEvent),
+          },
         },
       };
 
-      vi.mocked(stripeService.getStripeInstance).mockReturnValue(mockStripe as unknown as Stripe);
-      mockHandlePaymentWebhookUseCase.execute.mockResolvedValue(undefined);
+      mockPaymentGateway.constructWebhookEvent.mockReturnValue(mockEvent);
+      mockRecordWebhookEventUseCase.execute.mockResolvedValue(true);
 
       // Act
       await controller.handleWebhook(
@@ -424,15 +425,11 @@ describe('PaymentController', () => {
       );
 
       // Assert
-      expect(mockStripe.webhooks.constructEvent).toHaveBeenCalledWith(
+      expect(mockPaymentGateway.constructWebhookEvent).toHaveBeenCalledWith(
         mockRequest.body,
-        sig,
-        'whsec_test_secret'
+        sig
       );
-      expect(mockHandlePaymentWebhookUseCase.execute).toHaveBeenCalledWith({
-        type: 'payment_intent.succeeded',
-        data: mockEvent.data,
-      });
+      expect(mockRecordWebhookEventUseCase.execute).toHaveBeenCalledWith(mockEvent, 'test-body');
       expect(mockResponse.status).toHaveBeenCalledWith(200);
       expect(mockResponse.json).toHaveBeenCalledWith({ received: true });
     });
@@ -443,24 +440,19 @@ describe('PaymentController', () => {
       mockRequest.headers = { 'stripe-signature': sig };
       mockRequest.body = Buffer.from('test-body');
 
-      const mockEvent: Partial<Stripe.Event> = {
+      const mockEvent: IPaymentWebhookEvent = {
+        id: 'evt_test_123',
         type: 'payment_intent.succeeded',
         data: {
           object: {
             id: 'pi_test_123',
             status: 'succeeded',
-          } as Stripe.PaymentIntent,
-        },
-      };
-
-      const mockStripe = {
-        webhooks: {
-          constructEvent: vi.fn().mockReturnValue(mockEvent),
+          },
         },
       };
 
-      vi.mocked(stripeService.getStripeInstance).mockReturnValue(mockStripe as unknown as Stripe);
-      mockHandlePaymentWebhookUseCase.execute.mockRejectedValue(new Error('Handler failed'));
+      mockPaymentGateway.constructWebhookEvent.mockReturnValue(mockEvent);
+      mockRecordWebhookEventUseCase.execute.mockRejectedValue(new Error('Handler failed'));
 
       // Act
       await controller.handleWebhook(
@@ -6,13 +6,18 @@ import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/re
 import { logger } from '../../../shared/logger';
 import { AppError } from '../../../shared/utils/app_error.util';
 import { IQuoteRepository } from '../../../domain/repositories/quote_repository.interface';
-import { REPOSITORY_TOKENS, USE_CASE_TOKENS } from '../../../application/di/tokens';
+import { IQuoteItineraryRepository } from '../../../domain/repositories/quote_itinerary_repository.interface';
+import { REPOSITORY_TOKENS, SERVICE_TOKENS, USE_CASE_TOKENS } from '../../../application/di/tokens';
 import { ICreatePaymentIntentUseCase } from '../../../application/use-cases/interface/quote/create_payment_intent_use_case.interface';
-import { IHandlePaymentWebhookUseCase } from '../../../application/use-cases/interface/quote/handle_payment_webhook_use_case.interface';
-import { STRIPE_CONFIG } from '../../../shared/config';
-import Stripe from 'stripe';
-import { getStripeInstance } from '../../../infrastructure/service/stripe.service';
+import { IRecordWebhookEventUseCase } from '../../../application/use-cases/interface/webhook/record_webhook_event_use_case.interface';
+import { STRIPE_CONFIG, PAYMENT_GATEWAY_CONFIG } from '../../../shared/config';
+import { IPaymentGateway, IPaymentWebhookEvent } from '../../../domain/services/payment_gateway.interface';
+import { FakePaymentGateway } from '../../../infrastructure/service/fake_payment_gateway.service';
 import { QuoteStatus } from '../../../shared/constants';
+import { PaymentPlanType } from '../../../application/dtos/payment.dto';
+import { deriveTripWindow } from '../../../application/mapper/driver_dashboard.mapper';
+import { normalizeCurrency } from '../../../shared/utils/currency.util';
+import { buildDepositPlan } from '../../../shared/utils/payment_plan.util';
 /**
  * Payment controller
  * Handles payment-related operations for quotes
@@ -22,10 +27,14 @@ export class PaymentController {
   constructor(
     @inject(REPOSITORY_TOKENS.IQuoteRepository)
     private readonly quoteRepository: IQuoteRepository,
+    @inject(REPOSITORY_TOKENS.IQuoteItineraryRepository)
+    private readonly itineraryRepository: IQuoteItineraryRepository,
     @inject(USE_CASE_TOKENS.CreatePaymentIntentUseCase as never)
     private readonly createPaymentIntentUseCase: ICreatePaymentIntentUseCase,
-    @inject(USE_CASE_TOKENS.HandlePaymentWebhookUseCase as never)
-    private readonly handlePaymentWebhookUseCase: IHandlePaymentWebhookUseCase
+    @inject(USE_CASE_TOKENS.RecordWebhookEventUseCase)
+    private readonly recordWebhookEventUseCase: IRecordWebhookEventUseCase,
+    @inject(SERVICE_TOKENS.IPaymentGateway)
+    private readonly paymentGateway: IPaymentGateway
   ) {}
 
   /**
@@ -84,14 +93,24 @@ export class PaymentController {
         );
       }
 
+      // Offer a deposit when the group is large enough and departure is far enough away
+      const totalPrice = quote.pricing?.total ?? 0;
+      const currency = normalizeCurrency(quote.pricing?.currency ?? quote.currency);
+      const itinerary = await this.itineraryRepository.findByQuoteIdOrdered(quoteId);
+      const depositPlan =
+        totalPrice > 0 && itinerary.length > 0
+          ? buildDepositPlan(totalPrice, currency, quote.passengerCount, deriveTripWindow(itinerary).tripStartAt)
+          : null;
+
       // Return payment page data
       const response = {
         quoteId: quote.quoteId,
-        totalPrice: quote.pricing?.total ?? 0,
+        totalPrice,
         pricing: quote.pricing,
         paymentWindowExpiresAt: quote.quotedAt
           ? new Date(quote.quotedAt.getTime() + 24 * 60 * 60 * 1000).toISOString()
           : null,
+        depositPlan: depositPlan ? { ...depositPlan, currency } : null,
       };
 
       logger.info(`Payment page data retrieved for quote: ${quoteId}`);
@@ -121,9 +140,11 @@ export class PaymentController {
         throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_QUOTE_ID', 400);
       }
 
-      logger.info(`Creating payment intent for quote: ${quoteId} by user: ${userId}`);
+      const paymentPlan = (req.body as { paymentPlan?: PaymentPlanType } | undefined)?.paymentPlan ?? 'full';
+
+      logger.info(`Creating ${paymentPlan} payment intent for quote: ${quoteId} by user: ${userId}`);
 
-      const result = await this.createPaymentIntentUseCase.execute(quoteId, userId);
+      const result = await this.createPaymentIntentUseCase.execute(quoteId, userId, paymentPlan);
 
       logger.info(`Payment intent created successfully: ${result.paymentIntentId}`);
       sendSuccessResponse(res, HTTP_STATUS.OK, result);
@@ -149,21 +170,19 @@ export class PaymentController {
       return;
     }
 
-    if (!STRIPE_CONFIG.WEBHOOK_SECRET) {
+    if (PAYMENT_GATEWAY_CONFIG.PROVIDER === 'stripe' && !STRIPE_CONFIG.WEBHOOK_SECRET) {
       logger.error('Stripe webhook secret not configured');
       res.status(500).send('Webhook secret not configured');
       return;
     }
 
-    let event: Stripe.Event;
+    let event: IPaymentWebhookEvent;
 
     try {
-      const stripe = getStripeInstance();
       // req.body is the raw body buffer (needs to be set up in middleware)
-      event = stripe.webhooks.constructEvent(
+      event = this.paymentGateway.constructWebhookEvent(
         req.body as string | Buffer,
-        sig as string,
-        STRIPE_CONFIG.WEBHOOK_SECRET
+        sig as string
       );
     } catch (err) {
       const errorMessage = err instanceof Error ? err.message : 'Unknown error';
@@ -173,12 +192,14 @@ export class PaymentController {
     }
 
     try {
-      logger.info(`Received webhook event: ${event.type}`);
+      logger.info(`Received webhook event: ${event.type} (${event.id})`);
 
-      await this.handlePaymentWebhookUseCase.execute({
-        type: event.type,
-        data: event.data,
-      });
+      // Stored before processing, so a processing failure is retried on our side rather than by the gateway
+      const rawBody = req.body as string | Buffer;
+      await this.recordWebhookEventUseCase.execute(
+        event,
+        Buffer.isBuffer(rawBody) ? rawBody.toString('utf8') : rawBody
+      );
 
       res.status(200).json({ received: true });
     } catch (error) {
@@ -188,4 +209,67 @@ export class PaymentController {
       res.status(500).json({ error: 'Webhook handler failed' });
     }
   }
+
+  /**
+   * Delivers an event emitted by the in-process fake gateway to the webhook use case
+   * Mirrors handleWebhook without the HTTP and signature layers
+   */
+  async handleGatewayEvent(event: IPaymentWebhookEvent): Promise<void> {
+    logger.info(`Received fake gateway event: ${event.type} (${event.id})`);
+
+    await this.recordWebhookEventUseCase.execute(event, JSON.stringify(event));
+  }
+
+  /**
+   * Confirms a payment intent on the fake gateway with a simulated outcome
+   * POST /api/v1/webhooks/fake/payment-intents/:paymentIntentId/confirm?scenario=success|decline|requires_action|delayed_webhook
+   * Note: Only available when PAYMENT_GATEWAY_PROVIDER=fake
+   */
+  async confirmFakePaymentIntent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const gateway = this.getFakeGateway();
+      const { paymentIntentId } = req.params;
+      const scenario = FakePaymentGateway.parseScenario(req.query.scenario);
+
+      logger.info(`Confirming fake payment intent ${paymentIntentId} with scenario: ${scenario}`);
+
+      const paymentIntent = await gateway.confirmPaymentIntent(paymentIntentId, scenario);
+      sendSuccessResponse(res, HTTP_STATUS.OK, paymentIntent);
+    } catch (error) {
+      logger.error(
+        `Error confirming fake payment intent: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Completes a simulated 3DS challenge on the fake gateway
+   * POST /api/v1/webhooks/fake/payment-intents/:paymentIntentId/authenticate?approved=true|false
+   * Note: Only available when PAYMENT_GATEWAY_PROVIDER=fake
+   */
+  async authenticateFakePaymentIntent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const gateway = this.getFakeGateway();
+      const { paymentIntentId } = req.params;
+      const approved = req.query.approved !== 'false';
+
+      logger.info(`Completing fake 3DS challenge for ${paymentIntentId}, approved: ${approved}`);
+
+      const paymentIntent = await gateway.completeRequiredAction(paymentIntentId, approved);
+      sendSuccessResponse(res, HTTP_STATUS.OK, paymentIntent);
+    } catch (error) {
+      logger.error(
+        `Error completing fake payment action: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  private getFakeGateway(): FakePaymentGateway {
+    if (!(this.paymentGateway instanceof FakePaymentGateway)) {
+      throw new AppError('Fake payment gateway is not enabled', 'FAKE_GATEWAY_DISABLED', 404);
+    }
+    return this.paymentGateway;
+  }
 }
@@ -10,11 +10,18 @@ import { ICalculateRoutesUseCase } from '../../../application/use-cases/interfac
 import { IGetVehicleRecommendationsUseCase } from '../../../application/use-cases/interface/quote/get_vehicle_recommendations_use_case.interface';
 import { ICalculateQuotePricingUseCase } from '../../../application/use-cases/interface/quote/calculate_quote_pricing_use_case.interface';
 import { ISubmitQuoteUseCase } from '../../../application/use-cases/interface/quote/submit_quote_use_case.interface';
+import { IApplyPromoCodeUseCase } from '../../../application/use-cases/interface/quote/apply_promo_code_use_case.interface';
+import { IRemovePromoCodeUseCase } from '../../../application/use-cases/interface/quote/remove_promo_code_use_case.interface';
+import { IAcceptCounterOfferUseCase } from '../../../application/use-cases/interface/quote/accept_counter_offer_use_case.interface';
+import { IRejectCounterOfferUseCase } from '../../../application/use-cases/interface/quote/reject_counter_offer_use_case.interface';
+import { IRequoteQuoteUseCase } from '../../../application/use-cases/interface/quote/requote_quote_use_case.interface';
 import {
   CreateQuoteDraftRequest,
   UpdateQuoteDraftRequest,
   CalculateRoutesRequest,
   GetRecommendationsRequest,
+  ApplyPromoCodeRequest,
+  RejectCounterOfferRequest,
 } from '../../../application/dtos/quote.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
 import { HTTP_STATUS, QuoteStatus } from '../../../shared/constants';
@@ -45,7 +52,17 @@ export class QuoteController {
     @inject(USE_CASE_TOKENS.CalculateQuotePricingUseCase)
     private readonly calculateQuotePricingUseCase: ICalculateQuotePricingUseCase,
     @inject(USE_CASE_TOKENS.SubmitQuoteUseCase)
-    private readonly submitQuoteUseCase: ISubmitQuoteUseCase
+    private readonly submitQuoteUseCase: ISubmitQuoteUseCase,
+    @inject(USE_CASE_TOKENS.ApplyPromoCodeUseCase)
+    private readonly applyPromoCodeUseCase: IApplyPromoCodeUseCase,
+    @inject(USE_CASE_TOKENS.RemovePromoCodeUseCase)
+    private readonly removePromoCodeUseCase: IRemovePromoCodeUseCase,
+    @inject(USE_CASE_TOKENS.AcceptCounterOfferUseCase)
+    private readonly acceptCounterOfferUseCase: IAcceptCounterOfferUseCase,
+    @inject(USE_CASE_TOKENS.RejectCounterOfferUseCase)
+    private readonly rejectCounterOfferUseCase: IRejectCounterOfferUseCase,
+    @inject(USE_CASE_TOKENS.RequoteQuoteUseCase)
+    private readonly requoteQuoteUseCase: IRequoteQuoteUseCase
   ) {}
 
   /**
@@ -264,6 +281,59 @@ export class QuoteController {
     }
   }
 
+  /**
+   * Handles applying a promo code to a quote draft
+   */
+  async applyPromoCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const request = req.body as ApplyPromoCodeRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Promo code apply request for quote ID: ${id} by user: ${userId}`);
+
+      const response = await this.applyPromoCodeUseCase.execute(id, request, userId);
+
+      logger.info(`Promo code applied successfully to quote: ${id}`);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error applying promo code: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles removing the promo code from a quote draft
+   */
+  async removePromoCode(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Promo code removal request for quote ID: ${id} by user: ${userId}`);
+
+      const response = await this.removePromoCodeUseCase.execute(id, userId);
+
+      logger.info(`Promo code removed successfully from quote: ${id}`);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error removing promo code: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
   /**
    * Handles submitting a quote
    */
@@ -289,5 +359,83 @@ export class QuoteController {
       sendErrorResponse(res, error);
     }
   }
-}
 
+  /**
+   * Handles accepting a quote counter-offer
+   */
+  async acceptCounterOffer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Counter-offer acceptance request for quote ID: ${id} by user: ${userId}`);
+
+      const response = await this.acceptCounterOfferUseCase.execute(id, userId);
+
+      logger.info(`Counter-offer accepted successfully for quote: ${id}`);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error accepting counter-offer: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles rejecting a quote counter-offer
+   */
+  async rejectCounterOffer(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const request = req.body as RejectCounterOfferRequest;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Counter-offer rejection request for quote ID: ${id} by user: ${userId}`);
+
+      const response = await this.rejectCounterOfferUseCase.execute(id, userId, request);
+
+      logger.info(`Counter-offer rejected for quote: ${id}`);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error rejecting counter-offer: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles requoting an expired quote
+   */
+  async requoteQuote(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Requote request for quote ID: ${id} by user: ${userId}`);
+
+      const response = await this.requoteQuoteUseCase.execute(id, userId);
+
+      logger.info(`Quote ${id} requoted as ${response.quote.quoteId}`);
+      sendSuccessResponse(res, HTTP_STATUS.CREATED, response);
+    } catch (error) {
+      logger.error(
+        `Error requoting quote: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -6,17 +6,20 @@ import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/re
 import { logger } from '../../../shared/logger';
 import { AppError } from '../../../shared/utils/app_error.util';
 import { ICreateChargePaymentIntentUseCase } from '../../../application/use-cases/interface/reservation/create_charge_payment_intent_use_case.interface';
+import { ICreateBalancePaymentIntentUseCase } from '../../../application/use-cases/interface/reservation/create_balance_payment_intent_use_case.interface';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
 
 /**
  * Charge Payment controller
- * Handles payment-related operations for reservation charges
+ * Handles payment-related operations for reservation charges and deposit balances
  */
 @injectable()
 export class ChargePaymentController {
   constructor(
     @inject(USE_CASE_TOKENS.CreateChargePaymentIntentUseCase)
-    private readonly createChargePaymentIntentUseCase: ICreateChargePaymentIntentUseCase
+    private readonly createChargePaymentIntentUseCase: ICreateChargePaymentIntentUseCase,
+    @inject(USE_CASE_TOKENS.CreateBalancePaymentIntentUseCase)
+    private readonly createBalancePaymentIntentUseCase: ICreateBalancePaymentIntentUseCase
   ) {}
 
   /**
@@ -53,5 +56,35 @@ export class ChargePaymentController {
       sendErrorResponse(res, error);
     }
   }
-}
 
+  /**
+   * Handles creating a payment intent for the outstanding balance of a deposit booking
+   * POST /api/v1/reservations/:id/balance/payment/create-intent
+   */
+  async createBalancePaymentIntent(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id: reservationId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new AppError(ERROR_MESSAGES.UNAUTHORIZED, 'UNAUTHORIZED', 401);
+      }
+
+      if (!reservationId || typeof reservationId !== 'string' || reservationId.trim().length === 0) {
+        throw new AppError(ERROR_MESSAGES.BAD_REQUEST, 'INVALID_RESERVATION_ID', 400);
+      }
+
+      logger.info(`Creating balance payment intent for reservation: ${reservationId} by user: ${userId}`);
+
+      const result = await this.createBalancePaymentIntentUseCase.execute(reservationId, userId);
+
+      logger.info(`Balance payment intent created successfully: ${result.paymentIntentId}`);
+      sendSuccessResponse(res, HTTP_STATUS.OK, result);
+    } catch (error) {
+      logger.error(
+        `Error creating balance payment intent: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
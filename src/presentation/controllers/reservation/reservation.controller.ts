@@ -6,6 +6,11 @@ import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/re
 import { logger } from '../../../shared/logger';
 import { IGetReservationUseCase } from '../../../application/use-cases/interface/reservation/get_reservation_use_case.interface';
 import { IGetReservationsListUseCase } from '../../../application/use-cases/interface/reservation/get_reservations_list_use_case.interface';
+import { IGetUserCancellationPreviewUseCase } from '../../../application/use-cases/interface/reservation/get_user_cancellation_preview_use_case.interface';
+import { ICancelUserReservationUseCase } from '../../../application/use-cases/interface/reservation/cancel_user_reservation_use_case.interface';
+import { IGetReservationInvoicesUseCase } from '../../../application/use-cases/interface/reservation/get_reservation_invoices_use_case.interface';
+import { IGetReservationInvoicePdfUseCase } from '../../../application/use-cases/interface/reservation/get_reservation_invoice_pdf_use_case.interface';
+import { CancelUserReservationRequest } from '../../../application/dtos/reservation.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
 
 /**
@@ -18,7 +23,15 @@ export class ReservationController {
     @inject(USE_CASE_TOKENS.GetReservationUseCase)
     private readonly getReservationUseCase: IGetReservationUseCase,
     @inject(USE_CASE_TOKENS.GetReservationsListUseCase)
-    private readonly getReservationsListUseCase: IGetReservationsListUseCase
+    private readonly getReservationsListUseCase: IGetReservationsListUseCase,
+    @inject(USE_CASE_TOKENS.GetUserCancellationPreviewUseCase)
+    private readonly getUserCancellationPreviewUseCase: IGetUserCancellationPreviewUseCase,
+    @inject(USE_CASE_TOKENS.CancelUserReservationUseCase)
+    private readonly cancelUserReservationUseCase: ICancelUserReservationUseCase,
+    @inject(USE_CASE_TOKENS.GetReservationInvoicesUseCase)
+    private readonly getReservationInvoicesUseCase: IGetReservationInvoicesUseCase,
+    @inject(USE_CASE_TOKENS.GetReservationInvoicePdfUseCase)
+    private readonly getReservationInvoicePdfUseCase: IGetReservationInvoicePdfUseCase
   ) {}
 
   /**
@@ -75,5 +88,103 @@ export class ReservationController {
       sendErrorResponse(res, error);
     }
   }
-}
 
+  /**
+   * Handles previewing the refund for cancelling the user's reservation
+   */
+  async getCancellationPreview(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Cancellation preview request for reservation: ${id} by user: ${userId}`);
+
+      const response = await this.getUserCancellationPreviewUseCase.execute(id, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(
+        `Error previewing reservation cancellation: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles the user cancelling their reservation
+   */
+  async cancelReservation(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+      const request = req.body as CancelUserReservationRequest;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      logger.info(`Reservation cancellation request for ID: ${id} by user: ${userId}`);
+
+      const reservation = await this.cancelUserReservationUseCase.execute(id, userId, request);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, { reservation });
+    } catch (error) {
+      logger.error(
+        `Error cancelling reservation: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles getting the invoices, receipts and credit notes of a reservation
+   */
+  async getInvoices(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const invoices = await this.getReservationInvoicesUseCase.execute(id, userId);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, { invoices });
+    } catch (error) {
+      logger.error(
+        `Error fetching reservation invoices: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles downloading a reservation invoice, receipt or credit note as PDF
+   */
+  async downloadInvoicePdf(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      const { id, invoiceId } = req.params;
+      const userId = req.user?.userId;
+
+      if (!userId) {
+        throw new Error('User not authenticated');
+      }
+
+      const { invoiceNumber, pdf } = await this.getReservationInvoicePdfUseCase.execute(id, invoiceId, userId);
+
+      res.setHeader('Content-Type', 'application/pdf');
+      res.setHeader('Content-Disposition', `attachment; filename="${invoiceNumber}.pdf"`);
+      res.send(pdf);
+    } catch (error) {
+      logger.error(
+        `Error downloading reservation invoice: ${error instanceof Error ? error.message : 'Unknown error'}`
+      );
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -5,11 +5,15 @@ import { IUpdateUserProfileUseCase } from '../../../application/use-cases/interf
 import { IGenerateUploadUrlUseCase } from '../../../application/use-cases/interface/user/generate_upload_url_use_case.interface';
 import { IChangePasswordUseCase } from '../../../application/use-cases/interface/user/change_password_use_case.interface';
 import { IDeleteUserAccountUseCase } from '../../../application/use-cases/interface/user/delete_user_account_use_case.interface';
+import { IListUserSessionsUseCase } from '../../../application/use-cases/interface/user/list_user_sessions_use_case.interface';
+import { IRevokeUserSessionUseCase } from '../../../application/use-cases/interface/user/revoke_user_session_use_case.interface';
+import { IRevokeAllUserSessionsUseCase } from '../../../application/use-cases/interface/user/revoke_all_user_sessions_use_case.interface';
 import { UpdateUserProfileRequest, ChangePasswordRequest, DeleteUserAccountRequest } from '../../../application/dtos/user.dto';
 import { USE_CASE_TOKENS } from '../../../application/di/tokens';
 import { HTTP_STATUS, SUCCESS_MESSAGES } from '../../../shared/constants';
 import { AuthenticatedRequest } from '../../../shared/types/express.types';
 import { sendSuccessResponse, sendErrorResponse } from '../../../shared/utils/response.util';
+import { clearAllAuthCookies } from '../../../shared/utils/cookie.util';
 import { logger } from '../../../shared/logger';
 
 /**
@@ -28,7 +32,13 @@ export class UserController {
     @inject(USE_CASE_TOKENS.ChangePasswordUseCase)
     private readonly changePasswordUseCase: IChangePasswordUseCase,
     @inject(USE_CASE_TOKENS.DeleteUserAccountUseCase)
-    private readonly deleteUserAccountUseCase: IDeleteUserAccountUseCase
+    private readonly deleteUserAccountUseCase: IDeleteUserAccountUseCase,
+    @inject(USE_CASE_TOKENS.ListUserSessionsUseCase)
+    private readonly listUserSessionsUseCase: IListUserSessionsUseCase,
+    @inject(USE_CASE_TOKENS.RevokeUserSessionUseCase)
+    private readonly revokeUserSessionUseCase: IRevokeUserSessionUseCase,
+    @inject(USE_CASE_TOKENS.RevokeAllUserSessionsUseCase)
+    private readonly revokeAllUserSessionsUseCase: IRevokeAllUserSessionsUseCase
   ) {}
 
   /**
@@ -148,5 +158,71 @@ export class UserController {
       sendErrorResponse(res, error);
     }
   }
-}
 
+  /**
+   * Handles listing the devices the user is logged in on
+   */
+  async listSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Session list attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const response = await this.listUserSessionsUseCase.execute(req.user.userId, req.user.sessionId);
+      sendSuccessResponse(res, HTTP_STATUS.OK, response);
+    } catch (error) {
+      logger.error(`Error listing sessions: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles logging out one of the user's devices
+   */
+  async revokeSession(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Session revoke attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const sessionId = req.params.sessionId;
+      const response = await this.revokeUserSessionUseCase.execute(req.user.userId, sessionId);
+
+      // Ending the current session is a logout
+      if (sessionId === req.user.sessionId) {
+        clearAllAuthCookies(res);
+      }
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.SESSION_REVOKED);
+    } catch (error) {
+      logger.error(`Error revoking session: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+
+  /**
+   * Handles logging the user out everywhere, including this device
+   */
+  async revokeAllSessions(req: AuthenticatedRequest, res: Response): Promise<void> {
+    try {
+      if (!req.user) {
+        logger.warn('Logout everywhere attempt without authentication');
+        sendErrorResponse(res, new Error('Unauthorized'));
+        return;
+      }
+
+      const response = await this.revokeAllUserSessionsUseCase.execute(req.user.userId);
+
+      clearAllAuthCookies(res);
+
+      sendSuccessResponse(res, HTTP_STATUS.OK, response, SUCCESS_MESSAGES.SESSIONS_REVOKED);
+    } catch (error) {
+      logger.error(`Error logging out everywhere: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      sendErrorResponse(res, error);
+    }
+  }
+}
@@ -4,6 +4,7 @@ import { IJWTService } from '../../domain/services/jwt_service.interface';
 import { SERVICE_TOKENS } from '../../application/di/tokens';
 import { COOKIE_NAMES, ERROR_MESSAGES, HTTP_STATUS } from '../../shared/constants';
 import { AuthenticatedRequest } from '../../shared/types/express.types';
+import { runWithRequestContext } from '../../shared/utils/request_context.util';
 
 /**
  * Authentication middleware factory
@@ -41,7 +42,17 @@ function createAuthMiddleware(jwtService: IJWTService) {
       try {
         const payload = await jwtService.verifyAccessToken(token);
         req.user = payload;
-        next();
+        // Make the caller known to the rest of the request (e.g. the audit log)
+        runWithRequestContext(
+          {
+            actorId: payload.userId,
+            actorEmail: payload.email,
+            actorRole: payload.role,
+            ipAddress: req.ip,
+            userAgent: req.get('user-agent'),
+          },
+          next
+        );
       } catch (error) {
         // Token verification failed
         const message = error instanceof Error ? error.message : ERROR_MESSAGES.UNAUTHORIZED;
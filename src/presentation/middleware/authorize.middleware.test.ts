@@ -0,0 +1,57 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { NextFunction, Response } from 'express';
+import { requirePermission } from './authorize.middleware';
+import { AdminRole, HTTP_STATUS, Permission, UserRole } from '../../shared/constants';
+import { AuthenticatedRequest } from '../../shared/types/express.types';
+import { resolvePermissions } from '../../shared/utils/permission.util';
+
+describe('requirePermission', () => {
+  let mockResponse: { status: ReturnType<typeof vi.fn>; json: ReturnType<typeof vi.fn> };
+  let next: ReturnType<typeof vi.fn>;
+
+  const run = (user: AuthenticatedRequest['user'], ...permissions: Permission[]) =>
+    requirePermission(...permissions)(
+      { user } as AuthenticatedRequest,
+      mockResponse as unknown as Response,
+      next as unknown as NextFunction
+    );
+  const admin = (adminRole?: AdminRole) => ({
+    userId: 'admin-1',
+    email: 'admin@example.com',
+    role: UserRole.ADMIN,
+    permissions: resolvePermissions(UserRole.ADMIN, adminRole),
+  });
+
+  beforeEach(() => {
+    mockResponse = { status: vi.fn().mockReturnThis(), json: vi.fn().mockReturnThis() };
+    next = vi.fn();
+  });
+
+  it('should let admins holding every permission through', () => {
+    run(admin(AdminRole.FINANCE), Permission.RESERVATION_VIEW, Permission.REFUND_CREATE);
+
+    expect(next).toHaveBeenCalled();
+    expect(mockResponse.status).not.toHaveBeenCalled();
+  });
+
+  it('should forbid admins missing one of the permissions', () => {
+    run(admin(AdminRole.DISPATCHER), Permission.RESERVATION_MANAGE, Permission.REFUND_CREATE);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.FORBIDDEN);
+  });
+
+  it('should forbid users that are not admins', () => {
+    run({ userId: 'user-1', email: 'user@example.com', role: UserRole.USER }, Permission.RESERVATION_VIEW);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.FORBIDDEN);
+  });
+
+  it('should reject unauthenticated requests', () => {
+    run(undefined, Permission.RESERVATION_VIEW);
+
+    expect(next).not.toHaveBeenCalled();
+    expect(mockResponse.status).toHaveBeenCalledWith(HTTP_STATUS.UNAUTHORIZED);
+  });
+});
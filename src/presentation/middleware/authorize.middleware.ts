@@ -1,8 +1,9 @@
 import { NextFunction, Response } from 'express';
-import { UserRole } from '../../shared/constants';
+import { Permission, UserRole } from '../../shared/constants';
 import { ERROR_MESSAGES, HTTP_STATUS } from '../../shared/constants';
 import { AuthenticatedRequest } from '../../shared/types/express.types';
 import { sendErrorResponse } from '../../shared/utils/response.util';
+import { hasPermissions } from '../../shared/utils/permission.util';
 
 /**
  * Authorization middleware factory
@@ -47,6 +48,34 @@ export function authorize(allowedRoles: UserRole[]) {
  */
 export const requireAdmin = authorize([UserRole.ADMIN]);
 
+/**
+ * Permission middleware factory
+ * Allows admins whose token carries every required permission
+ */
+export function requirePermission(...permissions: Permission[]) {
+  return (
+    req: AuthenticatedRequest,
+    res: Response,
+    next: NextFunction
+  ): void => {
+    // Check if user is authenticated
+    if (!req.user) {
+      sendErrorResponse(res, new Error(ERROR_MESSAGES.UNAUTHORIZED));
+      return;
+    }
+
+    if (!hasPermissions(req.user, permissions)) {
+      res.status(HTTP_STATUS.FORBIDDEN).json({
+        success: false,
+        message: ERROR_MESSAGES.FORBIDDEN,
+      });
+      return;
+    }
+
+    next();
+  };
+}
+
 /**
  * Middleware to check if user is authenticated (no role check)
  */
@@ -3,7 +3,8 @@
  * Centralized export point for all middleware
  */
 export { authenticate } from './auth.middleware';
-export { authorize, requireAdmin, requireAuth } from './authorize.middleware';
+export { authorize, requireAdmin, requireAuth, requirePermission } from './authorize.middleware';
 export { validationMiddleware } from './validation.middleware';
+export { rateLimitByIp, limitLoginAttempts, limitOtpRequests } from './rate_limit.middleware';
 export { AuthenticatedRequest } from '../../shared/types/express.types';
 
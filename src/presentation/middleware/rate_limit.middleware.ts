@@ -0,0 +1,64 @@
+import { NextFunction, Request, Response } from 'express';
+import { container } from 'tsyringe';
+import { IRateLimiterService } from '../../domain/services/rate_limiter_service.interface';
+import { SERVICE_TOKENS } from '../../application/di/tokens';
+import { ERROR_MESSAGES, HTTP_STATUS } from '../../shared/constants';
+import { LOGIN_PROTECTION_CONFIG } from '../../shared/config';
+import { logger } from '../../shared/logger';
+
+/**
+ * Rate limiter service
+ * Lazily resolved from DI container to avoid initialization order issues
+ */
+let cachedRateLimiterService: IRateLimiterService | null = null;
+
+/**
+ * Rate limit middleware factory
+ * Limits how often a client IP may call the routes sharing a name within a sliding window
+ * Fails open when Redis is unavailable so an outage does not take sign-in down with it
+ */
+export function rateLimitByIp(
+  name: string,
+  limit: number,
+  windowSeconds: number
+): (req: Request, res: Response, next: NextFunction) => Promise<void> {
+  return async (req: Request, res: Response, next: NextFunction): Promise<void> => {
+    try {
+      if (!cachedRateLimiterService) {
+        cachedRateLimiterService = container.resolve<IRateLimiterService>(SERVICE_TOKENS.IRateLimiterService);
+      }
+
+      const result = await cachedRateLimiterService.hit(`${name}:ip:${req.ip}`, limit, windowSeconds);
+      if (!result.allowed) {
+        logger.warn(`Rate limit ${name} exceeded by ${req.ip}`);
+        res.set('Retry-After', String(result.retryAfterSeconds));
+        res.status(HTTP_STATUS.TOO_MANY_REQUESTS).json({
+          success: false,
+          message: ERROR_MESSAGES.TOO_MANY_REQUESTS,
+        });
+        return;
+      }
+    } catch (error) {
+      logger.error(`Error applying rate limit ${name}:`, error);
+    }
+    next();
+  };
+}
+
+/**
+ * Limits user and driver login attempts per IP
+ */
+export const limitLoginAttempts = rateLimitByIp(
+  'login',
+  LOGIN_PROTECTION_CONFIG.LOGIN_IP_MAX_ATTEMPTS,
+  LOGIN_PROTECTION_CONFIG.LOGIN_IP_WINDOW_SECONDS
+);
+
+/**
+ * Limits OTP verify and resend requests per IP
+ */
+export const limitOtpRequests = rateLimitByIp(
+  'otp',
+  LOGIN_PROTECTION_CONFIG.OTP_IP_MAX_ATTEMPTS,
+  LOGIN_PROTECTION_CONFIG.OTP_IP_WINDOW_SECONDS
+);
@@ -0,0 +1,38 @@
+import { describe, it, expect } from 'vitest';
+import { Socket } from 'socket.io';
+import { socketHasPermission } from './socket_auth.middleware';
+import { AdminRole, Permission, UserRole } from '../../shared/constants';
+import { resolvePermissions } from '../../shared/utils/permission.util';
+
+describe('socketHasPermission', () => {
+  const socketFor = (user?: { userId: string; email: string; role?: string; permissions?: string[] }) =>
+    ({ data: user ? { user } : {} }) as unknown as Socket;
+
+  it('should check the permission claims the socket authenticated with', () => {
+    const socket = socketFor({
+      userId: 'admin-1',
+      email: 'support@example.com',
+      role: UserRole.ADMIN,
+      permissions: resolvePermissions(UserRole.ADMIN, AdminRole.SUPPORT),
+    });
+
+    expect(socketHasPermission(socket, Permission.DASHBOARD_VIEW)).toBe(true);
+    expect(socketHasPermission(socket, Permission.DASHBOARD_VIEW, Permission.TRIP_VIEW)).toBe(true);
+    expect(socketHasPermission(socket, Permission.REFUND_CREATE)).toBe(false);
+  });
+
+  it('should deny sockets of users that are not admins', () => {
+    const socket = socketFor({
+      userId: 'user-1',
+      email: 'user@example.com',
+      role: UserRole.USER,
+      permissions: [Permission.DASHBOARD_VIEW],
+    });
+
+    expect(socketHasPermission(socket, Permission.DASHBOARD_VIEW)).toBe(false);
+  });
+
+  it('should deny unauthenticated sockets', () => {
+    expect(socketHasPermission(socketFor(), Permission.DASHBOARD_VIEW)).toBe(false);
+  });
+});
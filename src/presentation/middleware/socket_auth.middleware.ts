@@ -1,5 +1,7 @@
 import { Socket } from 'socket.io';
 import { AuthenticatedSocket } from '../../infrastructure/config/server/socket.config';
+import { Permission } from '../../shared/constants';
+import { hasPermissions } from '../../shared/utils/permission.util';
 
 /**
  * Socket authentication middleware helper
@@ -13,8 +15,18 @@ export function isSocketAuthenticated(socket: Socket): socket is AuthenticatedSo
 /**
  * Gets user payload from authenticated socket
  */
-export function getSocketUser(socket: Socket): { userId: string; email: string; role?: string } | null {
+export function getSocketUser(
+  socket: Socket
+): { userId: string; email: string; role?: string; permissions?: string[] } | null {
   const authSocket = socket as AuthenticatedSocket;
   return authSocket.data?.user || null;
 }
 
+/**
+ * Checks if the socket belongs to an admin holding every given permission
+ */
+export function socketHasPermission(socket: Socket, ...permissions: Permission[]): boolean {
+  const user = getSocketUser(socket);
+  return !!user && hasPermissions(user, permissions);
+}
+
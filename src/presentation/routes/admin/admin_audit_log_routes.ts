@@ -0,0 +1,46 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminAuditLogController } from '../../controllers/admin/admin_audit_log.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin audit log routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminAuditLogRoutesWithDI(): Router {
+  const router = Router();
+  const adminAuditLogController = container.resolve<AdminAuditLogController>(
+    CONTROLLER_TOKENS.AdminAuditLogController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/audit-log
+   * @desc    Search admin and financial actions with before/after changes (admin only)
+   * @access  Private (Admin)
+   * @query   page, limit, actorId, action, targetType, targetId, from, to
+   */
+  router.get(
+    '/',
+    authenticate,
+    requirePermission(Permission.AUDIT_LOG_VIEW),
+    (req, res) => void adminAuditLogController.getAuditLogs(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/audit-log/export/csv
+   * @desc    Export the matching audit log entries to CSV, one row per changed field (admin only)
+   * @access  Private (Admin)
+   * @query   actorId, action, targetType, targetId, from, to
+   */
+  router.get(
+    '/export/csv',
+    authenticate,
+    requirePermission(Permission.AUDIT_LOG_VIEW),
+    (req, res) => void adminAuditLogController.exportAuditLogsCSV(req, res)
+  );
+
+  return router;
+}
@@ -0,0 +1,71 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminCancellationPolicyController } from '../../controllers/admin/admin_cancellation_policy.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { validationMiddleware } from '../../middleware/validation.middleware';
+import { CreateCancellationPolicyRequest } from '../../../application/dtos/cancellation_policy.dto';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin cancellation policy routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminCancellationPolicyRoutesWithDI(): Router {
+  const router = Router();
+  const adminCancellationPolicyController = container.resolve<AdminCancellationPolicyController>(
+    CONTROLLER_TOKENS.AdminCancellationPolicyController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/cancellation-policies
+   * @desc    Get active cancellation policy (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/',
+    authenticate,
+    requirePermission(Permission.PRICING_VIEW),
+    (req, res) => void adminCancellationPolicyController.getActivePolicy(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/cancellation-policies
+   * @desc    Create new cancellation policy version (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/',
+    authenticate,
+    requirePermission(Permission.PRICING_CREATE),
+    validationMiddleware(CreateCancellationPolicyRequest),
+    (req, res) => void adminCancellationPolicyController.createPolicy(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/cancellation-policies/history
+   * @desc    Get all cancellation policy versions (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/history',
+    authenticate,
+    requirePermission(Permission.PRICING_VIEW),
+    (req, res) => void adminCancellationPolicyController.getHistory(req, res)
+  );
+
+  /**
+   * @route   PUT /api/v1/admin/cancellation-policies/:id/activate
+   * @desc    Activate a cancellation policy version (admin only)
+   * @access  Private (Admin)
+   */
+  router.put(
+    '/:id/activate',
+    authenticate,
+    requirePermission(Permission.PRICING_ACTIVATE),
+    (req, res) => void adminCancellationPolicyController.activatePolicy(req, res)
+  );
+
+  return router;
+}
@@ -0,0 +1,139 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminCorporateAccountController } from '../../controllers/admin/admin_corporate_account.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { validationMiddleware } from '../../middleware/validation.middleware';
+import {
+  CreateCorporateAccountRequest,
+  UpdateCorporateAccountRequest,
+  AddCorporateMemberRequest,
+  MarkCorporateInvoicePaidRequest,
+} from '../../../application/dtos/corporate_account.dto';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin corporate account routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminCorporateAccountRoutesWithDI(): Router {
+  const router = Router();
+  const adminCorporateAccountController = container.resolve<AdminCorporateAccountController>(
+    CONTROLLER_TOKENS.AdminCorporateAccountController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/corporate-accounts
+   * @desc    List corporate accounts with their credit position (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/',
+    authenticate,
+    requirePermission(Permission.CORPORATE_VIEW),
+    (req, res) => void adminCorporateAccountController.getCorporateAccounts(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/corporate-accounts
+   * @desc    Create a corporate account (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/',
+    authenticate,
+    requirePermission(Permission.CORPORATE_MANAGE),
+    validationMiddleware(CreateCorporateAccountRequest),
+    (req, res) => void adminCorporateAccountController.createCorporateAccount(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/corporate-accounts/invoices/:invoiceId/mark-paid
+   * @desc    Record the payment of a corporate invoice (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/invoices/:invoiceId/mark-paid',
+    authenticate,
+    requirePermission(Permission.INVOICE_MANAGE),
+    validationMiddleware(MarkCorporateInvoicePaidRequest),
+    (req, res) => void adminCorporateAccountController.markInvoicePaid(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/corporate-accounts/invoices/:invoiceId/pdf
+   * @desc    Download a corporate invoice as PDF (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/invoices/:invoiceId/pdf',
+    authenticate,
+    requirePermission(Permission.CORPORATE_VIEW),
+    (req, res) => void adminCorporateAccountController.downloadInvoicePdf(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/corporate-accounts/:id
+   * @desc    Get a corporate account with its members and credit position (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/:id',
+    authenticate,
+    requirePermission(Permission.CORPORATE_VIEW),
+    (req, res) => void adminCorporateAccountController.getCorporateAccount(req, res)
+  );
+
+  /**
+   * @route   PATCH /api/v1/admin/corporate-accounts/:id
+   * @desc    Update, suspend or reactivate a corporate account (admin only)
+   * @access  Private (Admin)
+   */
+  router.patch(
+    '/:id',
+    authenticate,
+    requirePermission(Permission.CORPORATE_MANAGE),
+    validationMiddleware(UpdateCorporateAccountRequest),
+    (req, res) => void adminCorporateAccountController.updateCorporateAccount(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/corporate-accounts/:id/members
+   * @desc    Add a registered user to a corporate account (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/:id/members',
+    authenticate,
+    requirePermission(Permission.CORPORATE_MANAGE),
+    validationMiddleware(AddCorporateMemberRequest),
+    (req, res) => void adminCorporateAccountController.addMember(req, res)
+  );
+
+  /**
+   * @route   DELETE /api/v1/admin/corporate-accounts/:id/members/:userId
+   * @desc    Remove a user from a corporate account (admin only)
+   * @access  Private (Admin)
+   */
+  router.delete(
+    '/:id/members/:userId',
+    authenticate,
+    requirePermission(Permission.CORPORATE_MANAGE),
+    (req, res) => void adminCorporateAccountController.removeMember(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/corporate-accounts/:id/statement
+   * @desc    Get the statement of a corporate account, optionally for invoices issued between from and to (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/:id/statement',
+    authenticate,
+    requirePermission(Permission.CORPORATE_VIEW),
+    (req, res) => void adminCorporateAccountController.getStatement(req, res)
+  );
+
+  return router;
+}
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { AdminDriverController } from '../../controllers/admin/admin_driver.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import { CreateDriverRequest, UpdateDriverRequest, UpdateDriverStatusRequest } from '../../../application/dtos/driver.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
@@ -25,7 +26,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.post(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_MANAGE),
     validationMiddleware(CreateDriverRequest),
     (req, res) => void adminDriverController.createDriver(req, res)
   );
@@ -38,7 +39,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.get(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_VIEW),
     (req, res) => void adminDriverController.listDrivers(req, res)
   );
 
@@ -51,7 +52,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.get(
     '/statistics',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_VIEW),
     (req, res) => void adminDriverController.getDriverStatistics(req, res)
   );
 
@@ -63,7 +64,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.get(
     '/:driverId',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_VIEW),
     (req, res) => void adminDriverController.getDriverById(req, res)
   );
 
@@ -75,7 +76,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.patch(
     '/:driverId',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_MANAGE),
     validationMiddleware(UpdateDriverRequest),
     (req, res) => void adminDriverController.updateDriver(req, res)
   );
@@ -88,7 +89,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.patch(
     '/:driverId/status',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_MANAGE),
     validationMiddleware(UpdateDriverStatusRequest),
     (req, res) => void adminDriverController.updateDriverStatus(req, res)
   );
@@ -101,10 +102,22 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.delete(
     '/:driverId',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_MANAGE),
     (req, res) => void adminDriverController.deleteDriver(req, res)
   );
 
+  /**
+   * @route   POST /api/v1/admin/drivers/:driverId/unlock
+   * @desc    Unlock a driver locked out after repeated failed logins (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/:driverId/unlock',
+    authenticate,
+    requirePermission(Permission.DRIVER_MANAGE),
+    (req, res) => void adminDriverController.unlockDriver(req, res)
+  );
+
   /**
    * @route   POST /api/v1/admin/drivers/:driverId/payout
    * @desc    Record driver payout (admin only)
@@ -113,7 +126,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.post(
     '/:driverId/payout',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_PAYOUT),
     (req, res) => void adminDriverController.recordDriverPayout(req, res)
   );
 
@@ -125,7 +138,7 @@ export function createAdminDriverRoutesWithDI(): Router {
   router.get(
     '/:driverId/earnings',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DRIVER_VIEW),
     (req, res) => void adminDriverController.getDriverEarnings(req, res)
   );
 
@@ -0,0 +1,59 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminExchangeRateController } from '../../controllers/admin/admin_exchange_rate.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { validationMiddleware } from '../../middleware/validation.middleware';
+import { UpsertExchangeRateRequest } from '../../../application/dtos/exchange_rate.dto';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin exchange rate routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminExchangeRateRoutesWithDI(): Router {
+  const router = Router();
+  const adminExchangeRateController = container.resolve<AdminExchangeRateController>(
+    CONTROLLER_TOKENS.AdminExchangeRateController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/exchange-rates
+   * @desc    List exchange rates and the currencies quotes can be priced in (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/',
+    authenticate,
+    requirePermission(Permission.PRICING_VIEW),
+    (req, res) => void adminExchangeRateController.getExchangeRates(req, res)
+  );
+
+  /**
+   * @route   PUT /api/v1/admin/exchange-rates
+   * @desc    Create or update the rate for a currency pair (admin only)
+   * @access  Private (Admin)
+   */
+  router.put(
+    '/',
+    authenticate,
+    requirePermission(Permission.EXCHANGE_RATE_MANAGE),
+    validationMiddleware(UpsertExchangeRateRequest),
+    (req, res) => void adminExchangeRateController.upsertExchangeRate(req, res)
+  );
+
+  /**
+   * @route   DELETE /api/v1/admin/exchange-rates/:id
+   * @desc    Delete an exchange rate (admin only)
+   * @access  Private (Admin)
+   */
+  router.delete(
+    '/:id',
+    authenticate,
+    requirePermission(Permission.EXCHANGE_RATE_MANAGE),
+    (req, res) => void adminExchangeRateController.deleteExchangeRate(req, res)
+  );
+
+  return router;
+}
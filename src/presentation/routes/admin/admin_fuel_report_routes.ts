@@ -0,0 +1,44 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminFuelReportController } from '../../controllers/admin/admin_fuel_report.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin fuel report routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminFuelReportRoutesWithDI(): Router {
+  const router = Router();
+  const adminFuelReportController = container.resolve<AdminFuelReportController>(
+    CONTROLLER_TOKENS.AdminFuelReportController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/fuel/report
+   * @desc    Compare estimated and actual distance and fuel per reservation, filtered by from/to on trip completion (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/report',
+    authenticate,
+    requirePermission(Permission.FLEET_VIEW),
+    (req, res) => void adminFuelReportController.getTripFuelReport(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/fuel/vehicles/:vehicleId
+   * @desc    Get measured km/L history and rolling-average consumption of a vehicle (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/vehicles/:vehicleId',
+    authenticate,
+    requirePermission(Permission.FLEET_VIEW),
+    (req, res) => void adminFuelReportController.getVehicleFuelHistory(req, res)
+  );
+
+  return router;
+}
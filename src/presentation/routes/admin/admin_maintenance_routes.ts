@@ -0,0 +1,89 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminMaintenanceController } from '../../controllers/admin/admin_maintenance.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { validationMiddleware } from '../../middleware/validation.middleware';
+import {
+  RecordVehicleServiceRequest,
+  ScheduleMaintenanceWindowRequest,
+  UpdateVehicleMaintenancePlanRequest,
+} from '../../../application/dtos/maintenance.dto';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin maintenance routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminMaintenanceRoutesWithDI(): Router {
+  const router = Router();
+  const adminMaintenanceController = container.resolve<AdminMaintenanceController>(
+    CONTROLLER_TOKENS.AdminMaintenanceController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/maintenance/vehicles/:vehicleId
+   * @desc    Get service intervals, maintenance windows and service history of a vehicle (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/vehicles/:vehicleId',
+    authenticate,
+    requirePermission(Permission.FLEET_VIEW),
+    (req, res) => void adminMaintenanceController.getVehicleMaintenance(req, res)
+  );
+
+  /**
+   * @route   PUT /api/v1/admin/maintenance/vehicles/:vehicleId/plan
+   * @desc    Update mileage/time service intervals and odometer reading of a vehicle (admin only)
+   * @access  Private (Admin)
+   */
+  router.put(
+    '/vehicles/:vehicleId/plan',
+    authenticate,
+    requirePermission(Permission.FLEET_MANAGE),
+    validationMiddleware(UpdateVehicleMaintenancePlanRequest),
+    (req, res) => void adminMaintenanceController.updateMaintenancePlan(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/maintenance/vehicles/:vehicleId/windows
+   * @desc    Schedule a maintenance window for a vehicle (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/vehicles/:vehicleId/windows',
+    authenticate,
+    requirePermission(Permission.FLEET_MANAGE),
+    validationMiddleware(ScheduleMaintenanceWindowRequest),
+    (req, res) => void adminMaintenanceController.scheduleWindow(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/maintenance/vehicles/:vehicleId/records
+   * @desc    Record a completed service, optionally completing a maintenance window (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/vehicles/:vehicleId/records',
+    authenticate,
+    requirePermission(Permission.FLEET_MANAGE),
+    validationMiddleware(RecordVehicleServiceRequest),
+    (req, res) => void adminMaintenanceController.recordService(req, res)
+  );
+
+  /**
+   * @route   PATCH /api/v1/admin/maintenance/windows/:windowId/cancel
+   * @desc    Cancel a scheduled or in-progress maintenance window (admin only)
+   * @access  Private (Admin)
+   */
+  router.patch(
+    '/windows/:windowId/cancel',
+    authenticate,
+    requirePermission(Permission.FLEET_MANAGE),
+    (req, res) => void adminMaintenanceController.cancelWindow(req, res)
+  );
+
+  return router;
+}
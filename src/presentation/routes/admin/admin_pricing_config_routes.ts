@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { AdminPricingConfigController } from '../../controllers/admin/admin_pricing_config.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import { CreatePricingConfigRequest } from '../../../application/dtos/pricing_config.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
@@ -25,7 +26,7 @@ export function createAdminPricingConfigRoutesWithDI(): Router {
   router.get(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.PRICING_VIEW),
     (req, res) => void adminPricingConfigController.getActiveConfig(req, res)
   );
 
@@ -37,7 +38,7 @@ export function createAdminPricingConfigRoutesWithDI(): Router {
   router.post(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.PRICING_CREATE),
     validationMiddleware(CreatePricingConfigRequest),
     (req, res) => void adminPricingConfigController.createConfig(req, res)
   );
@@ -50,7 +51,7 @@ export function createAdminPricingConfigRoutesWithDI(): Router {
   router.get(
     '/history',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.PRICING_VIEW),
     (req, res) => void adminPricingConfigController.getHistory(req, res)
   );
 
@@ -62,7 +63,7 @@ export function createAdminPricingConfigRoutesWithDI(): Router {
   router.put(
     '/:id/activate',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.PRICING_ACTIVATE),
     (req, res) => void adminPricingConfigController.activateConfig(req, res)
   );
 
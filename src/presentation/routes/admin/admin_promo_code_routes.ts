@@ -0,0 +1,60 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminPromoCodeController } from '../../controllers/admin/admin_promo_code.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { validationMiddleware } from '../../middleware/validation.middleware';
+import { CreatePromoCodeRequest, UpdatePromoCodeRequest } from '../../../application/dtos/promo_code.dto';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin promo code routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminPromoCodeRoutesWithDI(): Router {
+  const router = Router();
+  const adminPromoCodeController = container.resolve<AdminPromoCodeController>(
+    CONTROLLER_TOKENS.AdminPromoCodeController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/promo-codes
+   * @desc    List promo codes with their redemption counts (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/',
+    authenticate,
+    requirePermission(Permission.PROMO_MANAGE),
+    (req, res) => void adminPromoCodeController.getPromoCodes(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/promo-codes
+   * @desc    Create a promo code (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/',
+    authenticate,
+    requirePermission(Permission.PROMO_MANAGE),
+    validationMiddleware(CreatePromoCodeRequest),
+    (req, res) => void adminPromoCodeController.createPromoCode(req, res)
+  );
+
+  /**
+   * @route   PATCH /api/v1/admin/promo-codes/:id
+   * @desc    Update, activate or deactivate a promo code (admin only)
+   * @access  Private (Admin)
+   */
+  router.patch(
+    '/:id',
+    authenticate,
+    requirePermission(Permission.PROMO_MANAGE),
+    validationMiddleware(UpdatePromoCodeRequest),
+    (req, res) => void adminPromoCodeController.updatePromoCode(req, res)
+  );
+
+  return router;
+}
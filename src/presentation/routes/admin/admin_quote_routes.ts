@@ -2,9 +2,14 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { AdminQuoteController } from '../../controllers/admin/admin_quote.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { validationMiddleware } from '../../middleware/validation.middleware';
-import { UpdateQuoteStatusRequest, AssignDriverToQuoteRequest } from '../../../application/dtos/quote.dto';
+import {
+  UpdateQuoteStatusRequest,
+  AssignDriverToQuoteRequest,
+  ProposeCounterOfferRequest,
+} from '../../../application/dtos/quote.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
 
 /**
@@ -25,7 +30,7 @@ export function createAdminQuoteRoutesWithDI(): Router {
   router.get(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.QUOTE_VIEW),
     (req, res) => void adminQuoteController.getQuotesList(req, res)
   );
 
@@ -37,7 +42,7 @@ export function createAdminQuoteRoutesWithDI(): Router {
   router.get(
     '/:id',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.QUOTE_VIEW),
     (req, res) => void adminQuoteController.getQuote(req, res)
   );
 
@@ -49,7 +54,7 @@ export function createAdminQuoteRoutesWithDI(): Router {
   router.put(
     '/:id/status',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.QUOTE_MANAGE),
     validationMiddleware(UpdateQuoteStatusRequest),
     (req, res) => void adminQuoteController.updateQuoteStatus(req, res)
   );
@@ -62,7 +67,7 @@ export function createAdminQuoteRoutesWithDI(): Router {
   router.post(
     '/:id/assign-driver',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.QUOTE_MANAGE),
     validationMiddleware(AssignDriverToQuoteRequest),
     (req, res) => void adminQuoteController.assignDriver(req, res)
   );
@@ -75,10 +80,23 @@ export function createAdminQuoteRoutesWithDI(): Router {
   router.post(
     '/:id/recalculate',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.QUOTE_MANAGE),
     (req, res) => void adminQuoteController.recalculateQuote(req, res)
   );
 
+  /**
+   * @route   POST /api/v1/admin/quotes/:id/counter-offers
+   * @desc    Send a counter-offer with pricing overrides and line items (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/:id/counter-offers',
+    authenticate,
+    requirePermission(Permission.QUOTE_MANAGE),
+    validationMiddleware(ProposeCounterOfferRequest),
+    (req, res) => void adminQuoteController.proposeCounterOffer(req, res)
+  );
+
   return router;
 }
 
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { AdminReservationController } from '../../controllers/admin/admin_reservation.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import {
   UpdateReservationStatusRequest,
@@ -34,7 +35,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.get(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_VIEW),
     (req, res) => void adminReservationController.getReservationsList(req, res)
   );
 
@@ -46,7 +47,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.get(
     '/:id',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_VIEW),
     (req, res) => void adminReservationController.getReservation(req, res)
   );
 
@@ -58,7 +59,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.put(
     '/:id/status',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_MANAGE),
     validationMiddleware(UpdateReservationStatusRequest),
     (req, res) => void adminReservationController.updateReservationStatus(req, res)
   );
@@ -71,7 +72,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.post(
     '/:id/passengers',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_MANAGE),
     validationMiddleware(AddPassengersToReservationRequest),
     (req, res) => void adminReservationController.addPassengers(req, res)
   );
@@ -84,7 +85,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.post(
     '/:id/change-driver',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_MANAGE),
     validationMiddleware(ChangeReservationDriverRequest),
     (req, res) => void adminReservationController.changeDriver(req, res)
   );
@@ -97,7 +98,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.post(
     '/:id/adjust-vehicles',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_MANAGE),
     validationMiddleware(AdjustReservationVehiclesRequest),
     (req, res) => void adminReservationController.adjustVehicles(req, res)
   );
@@ -110,7 +111,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.put(
     '/:id/itinerary',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_MANAGE),
     validationMiddleware(UpdateReservationItineraryRequest),
     (req, res) => void adminReservationController.updateItinerary(req, res)
   );
@@ -123,20 +124,32 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.post(
     '/:id/refund',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.REFUND_CREATE),
     validationMiddleware(ProcessReservationRefundRequest),
     (req, res) => void adminReservationController.processRefund(req, res)
   );
 
+  /**
+   * @route   GET /api/v1/admin/reservations/:id/cancel/preview
+   * @desc    Preview the refund a cancellation would issue under the reservation's policy (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/:id/cancel/preview',
+    authenticate,
+    requirePermission(Permission.RESERVATION_VIEW),
+    (req, res) => void adminReservationController.previewCancellation(req, res)
+  );
+
   /**
    * @route   POST /api/v1/admin/reservations/:id/cancel
-   * @desc    Cancel reservation (admin only)
+   * @desc    Cancel reservation (admin only); cancellations that refund also need refund:create
    * @access  Private (Admin)
    */
   router.post(
     '/:id/cancel',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_MANAGE),
     validationMiddleware(CancelReservationRequest),
     (req, res) => void adminReservationController.cancelReservation(req, res)
   );
@@ -149,7 +162,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.post(
     '/:id/charges',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.CHARGE_MANAGE),
     validationMiddleware(AddReservationChargeRequest),
     (req, res) => void adminReservationController.addCharge(req, res)
   );
@@ -162,7 +175,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.put(
     '/:id/charges/:chargeId/mark-paid',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.CHARGE_MANAGE),
     (req, res) => void adminReservationController.markChargeAsPaid(req, res)
   );
 
@@ -174,7 +187,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.get(
     '/:id/export/pdf',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_VIEW),
     (req, res) => void adminReservationController.exportPDF(req, res)
   );
 
@@ -186,7 +199,7 @@ export function createAdminReservationRoutesWithDI(): Router {
   router.get(
     '/:id/export/csv',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.RESERVATION_VIEW),
     (req, res) => void adminReservationController.exportCSV(req, res)
   );
 
@@ -0,0 +1,32 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminScheduleController } from '../../controllers/admin/admin_schedule.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin schedule routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminScheduleRoutesWithDI(): Router {
+  const router = Router();
+  const adminScheduleController = container.resolve<AdminScheduleController>(
+    CONTROLLER_TOKENS.AdminScheduleController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/schedule
+   * @desc    Get per-vehicle or per-driver timelines between from and to, with conflicts flagged (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/',
+    authenticate,
+    requirePermission(Permission.TRIP_VIEW),
+    (req, res) => void adminScheduleController.getSchedule(req, res)
+  );
+
+  return router;
+}
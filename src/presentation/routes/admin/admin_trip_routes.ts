@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { AdminTripController } from '../../controllers/admin/admin_trip.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
 
 /**
@@ -23,7 +24,7 @@ export function createAdminTripRoutesWithDI(): Router {
   router.get(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.TRIP_VIEW),
     (req, res) => void adminTripController.getTripsList(req, res)
   );
 
@@ -35,7 +36,7 @@ export function createAdminTripRoutesWithDI(): Router {
   router.get(
     '/active/locations',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.TRIP_VIEW),
     (req, res) => void adminTripController.getActiveTripLocations(req, res)
   );
 
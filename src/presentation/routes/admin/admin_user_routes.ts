@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { AdminUserController } from '../../controllers/admin/admin_user.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import { ChangeUserStatusRequest, ChangeUserRoleRequest, GetUserStatisticsRequest } from '../../../application/dtos/user.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
@@ -25,7 +26,7 @@ export function createAdminUserRoutesWithDI(): Router {
   router.get(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.USER_VIEW),
     (req, res) => void adminUserController.listUsers(req, res)
   );
 
@@ -37,7 +38,7 @@ export function createAdminUserRoutesWithDI(): Router {
   router.get(
     '/statistics',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.USER_VIEW),
     validationMiddleware(GetUserStatisticsRequest),
     (req, res) => void adminUserController.getUserStatistics(req, res)
   );
@@ -50,7 +51,7 @@ export function createAdminUserRoutesWithDI(): Router {
   router.get(
     '/:userId',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.USER_VIEW),
     (req, res) => void adminUserController.getUserById(req, res)
   );
 
@@ -62,7 +63,7 @@ export function createAdminUserRoutesWithDI(): Router {
   router.patch(
     '/:userId/status',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.USER_BLOCK),
     validationMiddleware(ChangeUserStatusRequest),
     (req, res) => void adminUserController.changeUserStatus(req, res)
   );
@@ -75,11 +76,59 @@ export function createAdminUserRoutesWithDI(): Router {
   router.patch(
     '/:userId/role',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.USER_ROLE_ASSIGN),
     validationMiddleware(ChangeUserRoleRequest),
     (req, res) => void adminUserController.changeUserRole(req, res)
   );
 
+  /**
+   * @route   POST /api/v1/admin/users/:userId/unlock
+   * @desc    Unlock a user locked out after repeated failed logins (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/:userId/unlock',
+    authenticate,
+    requirePermission(Permission.USER_BLOCK),
+    (req, res) => void adminUserController.unlockUser(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/users/:userId/sessions
+   * @desc    List the devices a user is logged in on (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/:userId/sessions',
+    authenticate,
+    requirePermission(Permission.USER_VIEW),
+    (req, res) => void adminUserController.getUserSessions(req, res)
+  );
+
+  /**
+   * @route   DELETE /api/v1/admin/users/:userId/sessions
+   * @desc    Log a user out on all devices (admin only)
+   * @access  Private (Admin)
+   */
+  router.delete(
+    '/:userId/sessions',
+    authenticate,
+    requirePermission(Permission.USER_BLOCK),
+    (req, res) => void adminUserController.forceLogoutUser(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/users/:userId/notifications
+   * @desc    Get a user's notifications with the delivery status of each channel (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/:userId/notifications',
+    authenticate,
+    requirePermission(Permission.USER_VIEW),
+    (req, res) => void adminUserController.getUserNotifications(req, res)
+  );
+
   return router;
 }
 
@@ -0,0 +1,57 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { AdminWebhookEventController } from '../../controllers/admin/admin_webhook_event.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures admin webhook event routes
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createAdminWebhookEventRoutesWithDI(): Router {
+  const router = Router();
+  const adminWebhookEventController = container.resolve<AdminWebhookEventController>(
+    CONTROLLER_TOKENS.AdminWebhookEventController
+  );
+
+  /**
+   * @route   GET /api/v1/admin/webhook-events
+   * @desc    List received payment webhooks with their processing status (admin only)
+   * @access  Private (Admin)
+   * @query   page, limit, status (received|processing|processed|failed), type
+   */
+  router.get(
+    '/',
+    authenticate,
+    requirePermission(Permission.WEBHOOK_VIEW),
+    (req, res) => void adminWebhookEventController.getWebhookEvents(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/admin/webhook-events/:eventId
+   * @desc    Get a webhook event with the payload as received (admin only)
+   * @access  Private (Admin)
+   */
+  router.get(
+    '/:eventId',
+    authenticate,
+    requirePermission(Permission.WEBHOOK_VIEW),
+    (req, res) => void adminWebhookEventController.getWebhookEvent(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/admin/webhook-events/:eventId/replay
+   * @desc    Process a webhook event again from its stored payload (admin only)
+   * @access  Private (Admin)
+   */
+  router.post(
+    '/:eventId/replay',
+    authenticate,
+    requirePermission(Permission.WEBHOOK_REPLAY),
+    (req, res) => void adminWebhookEventController.replayWebhookEvent(req, res)
+  );
+
+  return router;
+}
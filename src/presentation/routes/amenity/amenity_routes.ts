@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { AmenityController } from '../../controllers/amenity/amenity.controller';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { CreateAmenityRequest, UpdateAmenityRequest } from '../../../application/dtos/amenity.dto';
 
 /**
@@ -27,7 +28,7 @@ export function createAmenityRoutes(config: AmenityRoutesConfig): Router {
   router.post(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(CreateAmenityRequest),
     (req, res) => void amenityController.createAmenity(req, res)
   );
@@ -67,7 +68,7 @@ export function createAmenityRoutes(config: AmenityRoutesConfig): Router {
   router.put(
     '/:id',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(UpdateAmenityRequest),
     (req, res) => void amenityController.updateAmenity(req, res)
   );
@@ -79,7 +80,7 @@ export function createAmenityRoutes(config: AmenityRoutesConfig): Router {
   router.delete(
     '/:id',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     (req, res) => void amenityController.deleteAmenity(req, res)
   );
 
@@ -2,9 +2,12 @@ import { Router } from 'express';
 import { AuthController } from '../../controllers/auth/auth.controller';
 import { OtpController } from '../../controllers/auth/otp.controller';
 import { TokenController } from '../../controllers/auth/token.controller';
+import { TwoFactorController } from '../../controllers/auth/two_factor.controller';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import { authenticate } from '../../middleware/auth.middleware';
+import { limitLoginAttempts, limitOtpRequests } from '../../middleware/rate_limit.middleware';
 import { RegisterUserRequest, LoginUserRequest, VerifyOtpRequest, ResendOtpRequest, ForgotPasswordRequest, ResetPasswordRequest, GoogleAuthRequest, SetupPasswordRequest, LinkGoogleRequest } from '../../../application/dtos/user.dto';
+import { VerifyTwoFactorLoginRequest, EnableTwoFactorRequest, TwoFactorCodeRequest } from '../../../application/dtos/two_factor.dto';
 
 /**
  * Route configuration interface
@@ -14,6 +17,7 @@ interface AuthRoutesConfig {
   authController: AuthController;
   otpController: OtpController;
   tokenController: TokenController;
+  twoFactorController: TwoFactorController;
 }
 
 /**
@@ -22,7 +26,7 @@ interface AuthRoutesConfig {
  */
 export function createAuthRoutes(config: AuthRoutesConfig): Router {
   const router = Router();
-  const { authController, otpController, tokenController } = config;
+  const { authController, otpController, tokenController, twoFactorController } = config;
 
   /**
    * User Registration
@@ -40,6 +44,7 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
    */
   router.post(
     '/login',
+    limitLoginAttempts,
     validationMiddleware(LoginUserRequest),
     (req, res) => void authController.loginUser(req, res)
   );
@@ -50,6 +55,7 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
    */
   router.post(
     '/otp/verify',
+    limitOtpRequests,
     validationMiddleware(VerifyOtpRequest),
     (req, res) => void otpController.verifyOtp(req, res)
   );
@@ -60,6 +66,7 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
    */
   router.post(
     '/otp/resend',
+    limitOtpRequests,
     validationMiddleware(ResendOtpRequest),
     (req, res) => void otpController.resendOtp(req, res)
   );
@@ -138,6 +145,76 @@ export function createAuthRoutes(config: AuthRoutesConfig): Router {
     (req, res) => void authController.linkGoogleAccount(req, res)
   );
 
+  /**
+   * Verify Two-Factor Login
+   * POST /api/v1/auth/2fa/verify
+   * Takes the challenge token returned by login or Google sign-in
+   */
+  router.post(
+    '/2fa/verify',
+    limitLoginAttempts,
+    validationMiddleware(VerifyTwoFactorLoginRequest),
+    (req, res) => void twoFactorController.verifyLogin(req, res)
+  );
+
+  /**
+   * Get Two-Factor Status
+   * GET /api/v1/auth/2fa
+   * Requires authentication
+   */
+  router.get(
+    '/2fa',
+    authenticate,
+    (req, res) => void twoFactorController.getStatus(req, res)
+  );
+
+  /**
+   * Start Two-Factor Setup
+   * POST /api/v1/auth/2fa/setup
+   * Requires authentication
+   */
+  router.post(
+    '/2fa/setup',
+    authenticate,
+    (req, res) => void twoFactorController.setup(req, res)
+  );
+
+  /**
+   * Enable Two-Factor Authentication
+   * POST /api/v1/auth/2fa/enable
+   * Requires authentication
+   */
+  router.post(
+    '/2fa/enable',
+    authenticate,
+    validationMiddleware(EnableTwoFactorRequest),
+    (req, res) => void twoFactorController.enable(req, res)
+  );
+
+  /**
+   * Disable Two-Factor Authentication
+   * POST /api/v1/auth/2fa/disable
+   * Requires authentication
+   */
+  router.post(
+    '/2fa/disable',
+    authenticate,
+    validationMiddleware(TwoFactorCodeRequest),
+    (req, res) => void twoFactorController.disable(req, res)
+  );
+
+  /**
+   * Regenerate Recovery Codes
+   * POST /api/v1/auth/2fa/recovery-codes
+   * Requires authentication
+   */
+  router.post(
+    '/2fa/recovery-codes',
+    authenticate,
+    validationMiddleware(TwoFactorCodeRequest),
+    (req, res) => void twoFactorController.regenerateRecoveryCodes(req, res)
+  );
+
   return router;
 }
 
@@ -153,10 +230,12 @@ export function createAuthRoutesWithDI(): Router {
   const authController = container.resolve<AuthController>(CONTROLLER_TOKENS.AuthController);
   const otpController = container.resolve<OtpController>(CONTROLLER_TOKENS.OtpController);
   const tokenController = container.resolve<TokenController>(CONTROLLER_TOKENS.TokenController);
+  const twoFactorController = container.resolve<TwoFactorController>(CONTROLLER_TOKENS.TwoFactorController);
 
   return createAuthRoutes({
     authController,
     otpController,
     tokenController,
+    twoFactorController,
   });
 }
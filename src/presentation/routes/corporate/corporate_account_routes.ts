@@ -0,0 +1,64 @@
+import { Router } from 'express';
+import { container } from 'tsyringe';
+import { CorporateAccountController } from '../../controllers/corporate/corporate_account.controller';
+import { authenticate } from '../../middleware/auth.middleware';
+import { validationMiddleware } from '../../middleware/validation.middleware';
+import { ReviewCorporateBookingRequest } from '../../../application/dtos/corporate_account.dto';
+import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+
+/**
+ * Creates and configures corporate account routes for account members
+ * Factory pattern allows dependency injection and easy testing
+ */
+export function createCorporateAccountRoutesWithDI(): Router {
+  const router = Router();
+  const corporateAccountController = container.resolve<CorporateAccountController>(
+    CONTROLLER_TOKENS.CorporateAccountController
+  );
+
+  /**
+   * @route   GET /api/v1/corporate-account
+   * @desc    Get the corporate account of the signed-in member with its available credit
+   * @access  Private
+   */
+  router.get('/', authenticate, (req, res) => void corporateAccountController.getMyAccount(req, res));
+
+  /**
+   * @route   GET /api/v1/corporate-account/bookings
+   * @desc    List bookings on account (all bookings for account admins, own bookings for bookers)
+   * @access  Private
+   */
+  router.get('/bookings', authenticate, (req, res) => void corporateAccountController.getBookings(req, res));
+
+  /**
+   * @route   POST /api/v1/corporate-account/bookings/:bookingId/review
+   * @desc    Approve or reject a booking over the approval threshold (account admins only)
+   * @access  Private
+   */
+  router.post(
+    '/bookings/:bookingId/review',
+    authenticate,
+    validationMiddleware(ReviewCorporateBookingRequest),
+    (req, res) => void corporateAccountController.reviewBooking(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/corporate-account/statement
+   * @desc    Get the account statement, optionally for invoices issued between from and to (account admins only)
+   * @access  Private
+   */
+  router.get('/statement', authenticate, (req, res) => void corporateAccountController.getStatement(req, res));
+
+  /**
+   * @route   GET /api/v1/corporate-account/invoices/:invoiceId/pdf
+   * @desc    Download an invoice of the account as PDF (account admins only)
+   * @access  Private
+   */
+  router.get(
+    '/invoices/:invoiceId/pdf',
+    authenticate,
+    (req, res) => void corporateAccountController.downloadInvoicePdf(req, res)
+  );
+
+  return router;
+}
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { DashboardController } from '../../controllers/dashboard/dashboard.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
 
 /**
@@ -33,7 +34,7 @@ export function createDashboardRoutesWithDI(): Router {
   router.get(
     '/admin/analytics',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.DASHBOARD_VIEW),
     (req, res) => void dashboardController.getAdminDashboardAnalytics(req, res)
   );
 
@@ -3,7 +3,9 @@ import { container } from 'tsyringe';
 import { DriverController } from '../../controllers/driver/driver.controller';
 import { authenticate } from '../../middleware/auth.middleware';
 import { validationMiddleware } from '../../middleware/validation.middleware';
+import { limitLoginAttempts } from '../../middleware/rate_limit.middleware';
 import { LoginDriverRequest, ChangeDriverPasswordRequest, ForgotDriverPasswordRequest, ResetDriverPasswordRequest, UpdateProfilePictureRequest, UpdateLicenseCardPhotoRequest, UpdateOnboardingPasswordRequest, CompleteOnboardingRequest, SaveFcmTokenRequest } from '../../../application/dtos/driver.dto';
+import { EndTripRequest, StartTripRequest } from '../../../application/dtos/trip_log.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
 
 /**
@@ -22,6 +24,7 @@ export function createDriverRoutesWithDI(): Router {
    */
   router.post(
     '/auth/login',
+    limitLoginAttempts,
     validationMiddleware(LoginDriverRequest),
     (req, res) => void driverController.loginDriver(req, res)
   );
@@ -189,22 +192,26 @@ export function createDriverRoutesWithDI(): Router {
   /**
    * Start Trip
    * POST /api/v1/driver/trips/:reservationId/start
+   * Accepts optional start odometer readings per vehicle
    * Requires authentication
    */
   router.post(
     '/trips/:reservationId/start',
     authenticate,
+    validationMiddleware(StartTripRequest),
     (req, res) => void driverController.startTrip(req, res)
   );
 
   /**
    * End Trip
    * POST /api/v1/driver/trips/:reservationId/end
+   * Accepts optional end odometer readings and fuel fills per vehicle
    * Requires authentication
    */
   router.post(
     '/trips/:reservationId/end',
     authenticate,
+    validationMiddleware(EndTripRequest),
     (req, res) => void driverController.endTrip(req, res)
   );
 
@@ -3,7 +3,12 @@ import { container } from 'tsyringe';
 import { NotificationController } from '../../controllers/notification/notification.controller';
 import { authenticate } from '../../middleware/auth.middleware';
 import { validationMiddleware } from '../../middleware/validation.middleware';
-import { CreateNotificationRequest } from '../../../application/dtos/notification.dto';
+import {
+  CreateNotificationRequest,
+  RegisterPushSubscriptionRequest,
+  UnregisterPushSubscriptionRequest,
+  UpdateNotificationPreferencesRequest,
+} from '../../../application/dtos/notification.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
 
 /**
@@ -60,6 +65,64 @@ export function createNotificationRoutesWithDI(): Router {
    */
   router.get('/unread-count', authenticate, (req, res) => void notificationController.getUnreadNotificationCount(req, res));
 
+  /**
+   * @route   GET /api/v1/notifications/preferences
+   * @desc    Get the channels each notification type is delivered on, and quiet hours
+   * @access  Private
+   */
+  router.get(
+    '/preferences',
+    authenticate,
+    (req, res) => void notificationController.getNotificationPreferences(req, res)
+  );
+
+  /**
+   * @route   PUT /api/v1/notifications/preferences
+   * @desc    Update notification channels per type and quiet hours
+   * @access  Private
+   */
+  router.put(
+    '/preferences',
+    authenticate,
+    validationMiddleware(UpdateNotificationPreferencesRequest),
+    (req, res) => void notificationController.updateNotificationPreferences(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/notifications/push/public-key
+   * @desc    Get the VAPID public key browsers subscribe with
+   * @access  Private
+   */
+  router.get(
+    '/push/public-key',
+    authenticate,
+    (req, res) => notificationController.getWebPushPublicKey(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/notifications/push/subscriptions
+   * @desc    Register the current browser for push notifications (customers and admins)
+   * @access  Private
+   */
+  router.post(
+    '/push/subscriptions',
+    authenticate,
+    validationMiddleware(RegisterPushSubscriptionRequest),
+    (req, res) => void notificationController.registerPushSubscription(req, res)
+  );
+
+  /**
+   * @route   DELETE /api/v1/notifications/push/subscriptions
+   * @desc    Unregister the current browser from push notifications
+   * @access  Private
+   */
+  router.delete(
+    '/push/subscriptions',
+    authenticate,
+    validationMiddleware(UnregisterPushSubscriptionRequest),
+    (req, res) => void notificationController.unregisterPushSubscription(req, res)
+  );
+
   return router;
 }
 
@@ -2,6 +2,7 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { QuoteController } from '../../controllers/quote/quote.controller';
 import { PaymentController } from '../../controllers/quote/payment.controller';
+import { CorporateAccountController } from '../../controllers/corporate/corporate_account.controller';
 import { authenticate } from '../../middleware/auth.middleware';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import {
@@ -9,6 +10,8 @@ import {
   UpdateQuoteDraftRequest,
   CalculateRoutesRequest,
   GetRecommendationsRequest,
+  ApplyPromoCodeRequest,
+  RejectCounterOfferRequest,
 } from '../../../application/dtos/quote.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
 
@@ -20,6 +23,9 @@ export function createQuoteRoutesWithDI(): Router {
   const router = Router();
   const quoteController = container.resolve<QuoteController>(CONTROLLER_TOKENS.QuoteController);
   const paymentController = container.resolve<PaymentController>(CONTROLLER_TOKENS.PaymentController);
+  const corporateAccountController = container.resolve<CorporateAccountController>(
+    CONTROLLER_TOKENS.CorporateAccountController
+  );
 
 /**
  * @route   POST /api/v1/quotes
@@ -101,6 +107,29 @@ router.post(
   (req, res) => void quoteController.calculateQuotePricing(req, res)
 );
 
+/**
+ * @route   POST /api/v1/quotes/:id/promo-code
+ * @desc    Apply a promo code to a quote draft
+ * @access  Private
+ */
+router.post(
+  '/:id/promo-code',
+  authenticate,
+  validationMiddleware(ApplyPromoCodeRequest),
+  (req, res) => void quoteController.applyPromoCode(req, res)
+);
+
+/**
+ * @route   DELETE /api/v1/quotes/:id/promo-code
+ * @desc    Remove the promo code from a quote draft
+ * @access  Private
+ */
+router.delete(
+  '/:id/promo-code',
+  authenticate,
+  (req, res) => void quoteController.removePromoCode(req, res)
+);
+
 /**
  * @route   POST /api/v1/quotes/:id/submit
  * @desc    Submit a quote (change status from draft to submitted)
@@ -112,6 +141,40 @@ router.post(
   (req, res) => void quoteController.submitQuote(req, res)
 );
 
+/**
+ * @route   POST /api/v1/quotes/:id/requote
+ * @desc    Requote an expired quote at current prices, returning the price changes
+ * @access  Private
+ */
+router.post(
+  '/:id/requote',
+  authenticate,
+  (req, res) => void quoteController.requoteQuote(req, res)
+);
+
+/**
+ * @route   POST /api/v1/quotes/:id/counter-offer/accept
+ * @desc    Accept the pending counter-offer on a quote
+ * @access  Private
+ */
+router.post(
+  '/:id/counter-offer/accept',
+  authenticate,
+  (req, res) => void quoteController.acceptCounterOffer(req, res)
+);
+
+/**
+ * @route   POST /api/v1/quotes/:id/counter-offer/reject
+ * @desc    Reject the pending counter-offer on a quote
+ * @access  Private
+ */
+router.post(
+  '/:id/counter-offer/reject',
+  authenticate,
+  validationMiddleware(RejectCounterOfferRequest),
+  (req, res) => void quoteController.rejectCounterOffer(req, res)
+);
+
 /**
  * @route   GET /api/v1/quotes/:id/payment
  * @desc    Get payment page data for a quote
@@ -134,6 +197,17 @@ router.post(
   (req, res) => void paymentController.createPaymentIntent(req, res)
 );
 
+/**
+ * @route   POST /api/v1/quotes/:id/book-on-account
+ * @desc    Book a quote on the user's corporate account, billed on the monthly invoice
+ * @access  Private
+ */
+router.post(
+  '/:id/book-on-account',
+  authenticate,
+  (req, res) => void corporateAccountController.bookQuoteOnAccount(req, res)
+);
+
   return router;
 }
 
@@ -3,6 +3,8 @@ import { container } from 'tsyringe';
 import { ReservationController } from '../../controllers/reservation/reservation.controller';
 import { ChargePaymentController } from '../../controllers/reservation/charge_payment.controller';
 import { authenticate } from '../../middleware/auth.middleware';
+import { validationMiddleware } from '../../middleware/validation.middleware';
+import { CancelUserReservationRequest } from '../../../application/dtos/reservation.dto';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
 
 /**
@@ -33,6 +35,45 @@ export function createReservationRoutesWithDI(): Router {
     void reservationController.getReservation(req, res)
   );
 
+  /**
+   * @route   GET /api/v1/reservations/:id/cancel/preview
+   * @desc    Preview the refund for cancelling the user's reservation
+   * @access  Private
+   */
+  router.get('/:id/cancel/preview', authenticate, (req, res) =>
+    void reservationController.getCancellationPreview(req, res)
+  );
+
+  /**
+   * @route   POST /api/v1/reservations/:id/cancel
+   * @desc    Cancel the user's reservation before the self-service cutoff
+   * @access  Private
+   */
+  router.post(
+    '/:id/cancel',
+    authenticate,
+    validationMiddleware(CancelUserReservationRequest),
+    (req, res) => void reservationController.cancelReservation(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/reservations/:id/invoices
+   * @desc    Get the invoices, receipts and credit notes issued for the user's reservation
+   * @access  Private
+   */
+  router.get('/:id/invoices', authenticate, (req, res) =>
+    void reservationController.getInvoices(req, res)
+  );
+
+  /**
+   * @route   GET /api/v1/reservations/:id/invoices/:invoiceId/pdf
+   * @desc    Download an invoice, receipt or credit note of the user's reservation as PDF
+   * @access  Private
+   */
+  router.get('/:id/invoices/:invoiceId/pdf', authenticate, (req, res) =>
+    void reservationController.downloadInvoicePdf(req, res)
+  );
+
   // Charge payment routes
   const chargePaymentController = container.resolve<ChargePaymentController>(
     CONTROLLER_TOKENS.ChargePaymentController
@@ -49,6 +90,17 @@ export function createReservationRoutesWithDI(): Router {
     (req, res) => void chargePaymentController.createPaymentIntent(req, res)
   );
 
+  /**
+   * @route   POST /api/v1/reservations/:id/balance/payment/create-intent
+   * @desc    Create payment intent for the outstanding balance of a deposit booking
+   * @access  Private
+   */
+  router.post(
+    '/:id/balance/payment/create-intent',
+    authenticate,
+    (req, res) => void chargePaymentController.createBalancePaymentIntent(req, res)
+  );
+
   return router;
 }
 
@@ -3,7 +3,8 @@ import { container } from 'tsyringe';
 import { TicketController } from '../../controllers/support/ticket.controller';
 import { TicketMessageController } from '../../controllers/support/ticket_message.controller';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import {
   CreateTicketRequest,
@@ -67,7 +68,7 @@ export function createSupportRoutesWithDI(): Router {
   router.patch(
     '/tickets/:ticketId/status',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.SUPPORT_MANAGE),
     validationMiddleware(UpdateTicketStatusRequest),
     (req, res) => void ticketController.updateTicketStatus(req, res)
   );
@@ -80,7 +81,7 @@ export function createSupportRoutesWithDI(): Router {
   router.patch(
     '/tickets/:ticketId/assign',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.SUPPORT_MANAGE),
     validationMiddleware(AssignTicketToAdminRequest),
     (req, res) => void ticketController.assignTicketToAdmin(req, res)
   );
@@ -79,6 +79,39 @@ export function createUserRoutes(config: UserRoutesConfig): Router {
     (req, res) => void userController.deleteUserAccount(req, res)
   );
 
+  /**
+   * List Active Sessions
+   * GET /api/v1/user/sessions
+   * Requires authentication
+   */
+  router.get(
+    '/sessions',
+    authenticate,
+    (req, res) => void userController.listSessions(req, res)
+  );
+
+  /**
+   * Log Out Everywhere
+   * DELETE /api/v1/user/sessions
+   * Requires authentication; ends the current session too
+   */
+  router.delete(
+    '/sessions',
+    authenticate,
+    (req, res) => void userController.revokeAllSessions(req, res)
+  );
+
+  /**
+   * End One Session
+   * DELETE /api/v1/user/sessions/:sessionId
+   * Requires authentication
+   */
+  router.delete(
+    '/sessions/:sessionId',
+    authenticate,
+    (req, res) => void userController.revokeSession(req, res)
+  );
+
   return router;
 }
 
@@ -2,7 +2,8 @@ import { Router } from 'express';
 import { VehicleController } from '../../controllers/vehicle/vehicle.controller';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import { authenticate } from '../../middleware/auth.middleware';
-import { requireAdmin } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
+import { Permission } from '../../../shared/constants';
 import { CreateVehicleRequest, UpdateVehicleRequest, UpdateVehicleStatusRequest, DeleteVehicleImagesRequest } from '../../../application/dtos/vehicle.dto';
 
 /**
@@ -27,7 +28,7 @@ export function createVehicleRoutes(config: VehicleRoutesConfig): Router {
   router.post(
     '/',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(CreateVehicleRequest),
     (req, res) => void vehicleController.createVehicle(req, res)
   );
@@ -69,7 +70,7 @@ export function createVehicleRoutes(config: VehicleRoutesConfig): Router {
   router.post(
     '/upload-signature',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     (req, res) => void vehicleController.generateImageUploadUrl(req, res)
   );
 
@@ -81,7 +82,7 @@ export function createVehicleRoutes(config: VehicleRoutesConfig): Router {
   router.delete(
     '/images',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(DeleteVehicleImagesRequest),
     (req, res) => void vehicleController.deleteImages(req, res)
   );
@@ -102,7 +103,7 @@ export function createVehicleRoutes(config: VehicleRoutesConfig): Router {
   router.put(
     '/:id',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(UpdateVehicleRequest),
     (req, res) => void vehicleController.updateVehicle(req, res)
   );
@@ -114,7 +115,7 @@ export function createVehicleRoutes(config: VehicleRoutesConfig): Router {
   router.patch(
     '/:id/status',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(UpdateVehicleStatusRequest),
     (req, res) => void vehicleController.updateVehicleStatus(req, res)
   );
@@ -126,7 +127,7 @@ export function createVehicleRoutes(config: VehicleRoutesConfig): Router {
   router.delete(
     '/:id',
     authenticate,
-    requireAdmin,
+    requirePermission(Permission.FLEET_MANAGE),
     (req, res) => void vehicleController.deleteVehicle(req, res)
   );
 
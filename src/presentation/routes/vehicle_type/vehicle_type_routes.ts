@@ -2,9 +2,9 @@ import { Router } from 'express';
 import { VehicleTypeController } from '../../controllers/vehicle_type/vehicle_type.controller';
 import { validationMiddleware } from '../../middleware/validation.middleware';
 import { authenticate } from '../../middleware/auth.middleware';
-import { authorize } from '../../middleware/authorize.middleware';
+import { requirePermission } from '../../middleware/authorize.middleware';
 import { CreateVehicleTypeRequest, UpdateVehicleTypeRequest } from '../../../application/dtos/vehicle.dto';
-import { UserRole } from '../../../shared/constants';
+import { Permission } from '../../../shared/constants';
 
 /**
  * Route configuration interface
@@ -28,7 +28,7 @@ export function createVehicleTypeRoutes(config: VehicleTypeRoutesConfig): Router
   router.post(
     '/',
     authenticate,
-    authorize([UserRole.ADMIN]),
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(CreateVehicleTypeRequest),
     (req, res) => void vehicleTypeController.createVehicleType(req, res)
   );
@@ -58,7 +58,7 @@ export function createVehicleTypeRoutes(config: VehicleTypeRoutesConfig): Router
   router.put(
     '/:id',
     authenticate,
-    authorize([UserRole.ADMIN]),
+    requirePermission(Permission.FLEET_MANAGE),
     validationMiddleware(UpdateVehicleTypeRequest),
     (req, res) => void vehicleTypeController.updateVehicleType(req, res)
   );
@@ -70,7 +70,7 @@ export function createVehicleTypeRoutes(config: VehicleTypeRoutesConfig): Router
   router.delete(
     '/:id',
     authenticate,
-    authorize([UserRole.ADMIN]),
+    requirePermission(Permission.FLEET_MANAGE),
     (req, res) => void vehicleTypeController.deleteVehicleType(req, res)
   );
 
@@ -2,6 +2,9 @@ import { Router } from 'express';
 import { container } from 'tsyringe';
 import { PaymentController } from '../../controllers/quote/payment.controller';
 import { CONTROLLER_TOKENS } from '../../../infrastructure/di/tokens';
+import { SERVICE_TOKENS } from '../../../application/di/tokens';
+import { IPaymentGateway } from '../../../domain/services/payment_gateway.interface';
+import { FakePaymentGateway } from '../../../infrastructure/service/fake_payment_gateway.service';
 
 /**
  * Creates and configures webhook routes
@@ -24,5 +27,31 @@ export function createWebhookRoutesWithDI(): Router {
     (req, res) => void paymentController.handleWebhook(req, res)
   );
 
+  // Fake gateway simulation routes - only mounted when the in-process fake gateway is active
+  const paymentGateway = container.resolve<IPaymentGateway>(SERVICE_TOKENS.IPaymentGateway);
+  if (paymentGateway instanceof FakePaymentGateway) {
+    paymentGateway.onWebhookEvent((event) => paymentController.handleGatewayEvent(event));
+
+    /**
+     * @route   POST /api/v1/webhooks/fake/payment-intents/:paymentIntentId/confirm
+     * @desc    Simulate the customer confirming a payment (success, decline, 3DS, delayed webhook)
+     * @access  Public (fake gateway only, never enabled with Stripe)
+     */
+    router.post(
+      '/fake/payment-intents/:paymentIntentId/confirm',
+      (req, res) => void paymentController.confirmFakePaymentIntent(req, res)
+    );
+
+    /**
+     * @route   POST /api/v1/webhooks/fake/payment-intents/:paymentIntentId/authenticate
+     * @desc    Simulate the customer passing or failing a 3DS challenge
+     * @access  Public (fake gateway only, never enabled with Stripe)
+     */
+    router.post(
+      '/fake/payment-intents/:paymentIntentId/authenticate',
+      (req, res) => void paymentController.authenticateFakePaymentIntent(req, res)
+    );
+  }
+
   return router;
 }
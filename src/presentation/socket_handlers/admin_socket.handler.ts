@@ -1,7 +1,7 @@
 import { Server } from 'socket.io';
 import { AuthenticatedSocket } from '../../infrastructure/config/server/socket.config';
-import { getSocketUser, isSocketAuthenticated } from '../middleware/socket_auth.middleware';
-import { UserRole } from '../../shared/constants';
+import { getSocketUser, isSocketAuthenticated, socketHasPermission } from '../middleware/socket_auth.middleware';
+import { Permission } from '../../shared/constants';
 import { logger } from '../../shared/logger';
 
 /**
@@ -38,8 +38,8 @@ export class AdminSocketHandler {
         return;
       }
 
-      // Check if user is admin
-      if (user.role !== UserRole.ADMIN) {
+      // Check if user is staff allowed to watch the dashboard
+      if (!socketHasPermission(socket, Permission.DASHBOARD_VIEW)) {
         return; // Not an admin, skip admin-specific handling
       }
 
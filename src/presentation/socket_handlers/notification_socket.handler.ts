@@ -4,10 +4,9 @@ import { getSocketUser, isSocketAuthenticated } from '../middleware/socket_auth.
 import { container } from 'tsyringe';
 import { SERVICE_TOKENS, USE_CASE_TOKENS } from '../../application/di/tokens';
 import { CONFIG_TOKENS } from '../../infrastructure/di/tokens';
-import { ICreateNotificationUseCase } from '../../application/use-cases/interface/notification/create_notification_use_case.interface';
 import { IGetUnreadNotificationCountUseCase } from '../../application/use-cases/interface/notification/get_unread_notification_count_use_case.interface';
 import { IRedisConnection } from '../../domain/services/redis_connection.interface';
-import { IExpoPushNotificationService } from '../../domain/services/expo_push_notification_service.interface';
+import { INotificationService } from '../../domain/services/notification_service.interface';
 import { CreateNotificationRequest } from '../../application/dtos/notification.dto';
 import { logger } from '../../shared/logger';
 
@@ -31,14 +30,10 @@ export const NOTIFICATION_SOCKET_EVENTS = {
 export class NotificationSocketHandler {
   private io: Server;
   private redis: IRedisConnection;
-  private expoPushService: IExpoPushNotificationService;
 
   constructor(io: Server) {
     this.io = io;
     this.redis = container.resolve<IRedisConnection>(CONFIG_TOKENS.RedisConnection);
-    this.expoPushService = container.resolve<IExpoPushNotificationService>(
-      SERVICE_TOKENS.IExpoPushNotificationService
-    );
   }
 
   /**
@@ -147,55 +142,13 @@ export class NotificationSocketHandler {
   }
 
   /**
-   * Sends a notification to a user via socket
-   * This is called by the system when a notification is created
-   * If user is offline, sends push notification instead
+   * Sends a notification to a user
+   * Delivery follows the user's channel preferences (live alert, email, push when offline)
    */
   async sendNotificationToUser(userId: string, notification: CreateNotificationRequest): Promise<void> {
     try {
-      // Create notification using use case
-      const createNotificationUseCase = container.resolve<ICreateNotificationUseCase>(
-        USE_CASE_TOKENS.CreateNotificationUseCase
-      );
-      const createdNotification = await createNotificationUseCase.execute(notification);
-
-      // Check if user is online (has active socket connections)
-      const userSockets = await this.redis.smembers(`user:${userId}:sockets`);
-      const isOnline = userSockets.length > 0 && userSockets.some((socketId) => {
-        const socket = this.io.sockets.sockets.get(socketId);
-        return socket && socket.connected;
-      });
-
-      if (isOnline) {
-        // User is online - send via socket
-        this.io.to(`user:${userId}`).emit(NOTIFICATION_SOCKET_EVENTS.NOTIFICATION_RECEIVED, createdNotification);
-
-        // Also update unread count
-        const getUnreadCountUseCase = container.resolve<IGetUnreadNotificationCountUseCase>(
-          USE_CASE_TOKENS.GetUnreadNotificationCountUseCase
-        );
-        const unreadCount = await getUnreadCountUseCase.execute(userId);
-
-        this.io.to(`user:${userId}`).emit(NOTIFICATION_SOCKET_EVENTS.UNREAD_COUNT_UPDATED, unreadCount);
-
-        logger.info(`Notification sent via socket to user: ${userId}, notification: ${createdNotification.notificationId}`);
-      } else {
-        // User is offline - send push notification
-        logger.info(`User ${userId} is offline, sending push notification`);
-        
-        await this.expoPushService.sendToDriver(userId, {
-          title: createdNotification.title || 'New Notification',
-          body: createdNotification.message || '',
-          data: {
-            type: 'notification',
-            notificationId: createdNotification.notificationId,
-            ...createdNotification.data,
-          },
-          sound: 'default',
-        });
-
-        logger.info(`Push notification sent to offline user: ${userId}, notification: ${createdNotification.notificationId}`);
-      }
+      const notificationService = container.resolve<INotificationService>(SERVICE_TOKENS.INotificationService);
+      await notificationService.sendNotification({ ...notification, userId });
     } catch (error) {
       logger.error(`Error sending notification to user: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
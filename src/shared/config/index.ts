@@ -42,6 +42,8 @@ export const SERVER_CONFIG = {
     json: { limit: '10mb' },
     urlencoded: { extended: true, limit: '10mb' },
   },
+  // Reverse proxies in front of the app; req.ip (which rate limits are keyed on) is read from X-Forwarded-For past them
+  TRUST_PROXY_HOPS: parseInt(process.env.TRUST_PROXY_HOPS || '0', 10),
 } as const;
 
 /**
@@ -119,4 +121,102 @@ export const STRIPE_CONFIG = {
   SECRET_KEY: process.env.STRIPE_SECRET_KEY || '',
   PUBLISHABLE_KEY: process.env.STRIPE_PUBLISHABLE_KEY || '',
   WEBHOOK_SECRET: process.env.STRIPE_WEBHOOK_SECRET || '',
-} as const;
\ No newline at end of file
+} as const;
+
+/**
+ * Payment gateway configuration constants
+ * Selects the payment gateway adapter and tunes the in-process fake gateway
+ */
+export const PAYMENT_GATEWAY_CONFIG = {
+  PROVIDER: (process.env.PAYMENT_GATEWAY_PROVIDER || 'stripe') as 'stripe' | 'fake',
+  FAKE: {
+    DEFAULT_SCENARIO: process.env.FAKE_PAYMENT_SCENARIO || 'success',
+    WEBHOOK_DELAY_MS: parseInt(process.env.FAKE_PAYMENT_WEBHOOK_DELAY_MS || '5000', 10),
+    WEBHOOK_SECRET: process.env.FAKE_PAYMENT_WEBHOOK_SECRET || 'whsec_fake',
+  },
+} as const;
+
+/**
+ * Payment plan configuration constants
+ * Large group bookings can pay a deposit up front and the balance before departure
+ */
+export const PAYMENT_PLAN_CONFIG = {
+  DEPOSIT_PERCENTAGE: parseInt(process.env.PAYMENT_PLAN_DEPOSIT_PERCENTAGE || '30', 10),
+  MIN_PASSENGERS: parseInt(process.env.PAYMENT_PLAN_MIN_PASSENGERS || '30', 10), // Smallest group offered a deposit
+  BALANCE_DUE_DAYS: parseInt(process.env.PAYMENT_PLAN_BALANCE_DUE_DAYS || '14', 10), // Days before departure
+  REMINDER_DAYS: [7, 3, 1], // Days before the balance due date
+  OVERDUE_ACTION: (process.env.PAYMENT_PLAN_OVERDUE_ACTION || 'cancel') as 'cancel' | 'overdue',
+} as const;
+
+/**
+ * Quote follow-up configuration constants
+ * Timing of the reminder and nudge emails sent to customers who have not finished a quote
+ */
+export const QUOTE_FOLLOW_UP_CONFIG = {
+  PAYMENT_WINDOW_HOURS: 24, // Quotes expire this long after being quoted
+  REMINDER_HOURS_BEFORE_EXPIRY: parseInt(process.env.QUOTE_REMINDER_HOURS_BEFORE_EXPIRY || '4', 10),
+  DRAFT_NUDGE_HOURS: parseInt(process.env.QUOTE_DRAFT_NUDGE_HOURS || '24', 10), // Hours of inactivity on a draft
+} as const;
+
+/**
+ * Corporate account configuration constants
+ * Bookings on account are collected on a monthly invoice payable on net terms
+ */
+export const CORPORATE_CONFIG = {
+  DEFAULT_PAYMENT_TERMS_DAYS: parseInt(process.env.CORPORATE_PAYMENT_TERMS_DAYS || '30', 10),
+  INVOICING_CRON: process.env.CORPORATE_INVOICING_CRON || '0 2 1 * *', // 02:00 on the 1st of every month
+  OVERDUE_CHECK_CRON: '0 3 * * *', // Daily at 03:00
+} as const;
+
+/**
+ * Web Push configuration constants
+ * VAPID keys identify this server to browser push services
+ */
+export const WEB_PUSH_CONFIG = {
+  PUBLIC_KEY: process.env.VAPID_PUBLIC_KEY || '',
+  PRIVATE_KEY: process.env.VAPID_PRIVATE_KEY || '',
+  SUBJECT: process.env.VAPID_SUBJECT || 'mailto:support@grandline.com',
+  TTL_SECONDS: parseInt(process.env.WEB_PUSH_TTL_SECONDS || '86400', 10), // How long push services keep an undelivered message
+  // Push services browsers hand out endpoints for; subdomains match too. Any other host is refused
+  ALLOWED_ENDPOINT_HOSTS: [
+    'fcm.googleapis.com', // Chrome, Edge, Opera
+    'push.services.mozilla.com', // Firefox
+    'push.apple.com', // Safari
+    'notify.windows.com', // Legacy Edge (WNS)
+  ],
+} as const;
+
+/**
+ * Notification digest configuration constants
+ * Users who opt in get one email a day summarising their unread notifications
+ */
+export const NOTIFICATION_DIGEST_CONFIG = {
+  CRON: process.env.NOTIFICATION_DIGEST_CRON || '0 8 * * *', // Daily at 08:00 UTC
+  LOOKBACK_HOURS: 24, // Only notifications from the last day are listed
+  MAX_ITEMS: 20, // Most recent notifications listed in one email
+} as const;
+
+/**
+ * Login protection configuration constants
+ * Sliding-window limits per client IP and per account; lockouts grow with each repeat within a day
+ */
+export const LOGIN_PROTECTION_CONFIG = {
+  LOGIN_IP_MAX_ATTEMPTS: parseInt(process.env.LOGIN_IP_MAX_ATTEMPTS || '20', 10),
+  LOGIN_IP_WINDOW_SECONDS: 15 * 60,
+  OTP_IP_MAX_ATTEMPTS: parseInt(process.env.OTP_IP_MAX_ATTEMPTS || '10', 10),
+  OTP_IP_WINDOW_SECONDS: 15 * 60,
+  ACCOUNT_MAX_FAILURES: parseInt(process.env.LOGIN_ACCOUNT_MAX_FAILURES || '5', 10),
+  ACCOUNT_WINDOW_SECONDS: 15 * 60,
+  LOCKOUT_DURATIONS_SECONDS: [15 * 60, 60 * 60, 24 * 60 * 60], // First, second and any later lockout
+  LOCKOUT_LEVEL_RESET_SECONDS: 24 * 60 * 60, // A day without lockouts starts again from the first duration
+} as const;
+
+/**
+ * Two-factor authentication configuration constants
+ * Any user may enroll; admins can be made to enroll before they can log in
+ */
+export const TWO_FACTOR_AUTH_CONFIG = {
+  ISSUER: process.env.TWO_FACTOR_ISSUER || 'GRANDLINE', // Name shown in authenticator apps
+  REQUIRED_FOR_ADMINS: process.env.TWO_FACTOR_REQUIRED_FOR_ADMINS === 'true',
+} as const;
+
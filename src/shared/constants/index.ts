@@ -12,6 +12,188 @@ export enum UserRole {
   USER = 'user'     
 }
 
+/**
+ * Staff role enumeration
+ * Narrows what an ADMIN user may do; admins without a staff role are treated as super-admins
+ */
+export enum AdminRole {
+  SUPER_ADMIN = 'super_admin',
+  DISPATCHER = 'dispatcher',
+  FINANCE = 'finance',
+  SUPPORT = 'support',
+}
+
+/**
+ * Staff permission enumeration
+ * Checked per route with requirePermission and carried in the JWT payload
+ */
+export enum Permission {
+  DASHBOARD_VIEW = 'dashboard:view',
+  USER_VIEW = 'user:view',
+  USER_BLOCK = 'user:block',
+  USER_ROLE_ASSIGN = 'user:role',
+  DRIVER_VIEW = 'driver:view',
+  DRIVER_MANAGE = 'driver:manage',
+  DRIVER_PAYOUT = 'driver:payout',
+  RESERVATION_VIEW = 'reservation:view',
+  RESERVATION_MANAGE = 'reservation:manage',
+  REFUND_CREATE = 'refund:create',
+  CHARGE_MANAGE = 'charge:manage',
+  QUOTE_VIEW = 'quote:view',
+  QUOTE_MANAGE = 'quote:manage',
+  PRICING_VIEW = 'pricing:view',
+  PRICING_CREATE = 'pricing:create',
+  PRICING_ACTIVATE = 'pricing:activate',
+  PROMO_MANAGE = 'promo:manage',
+  EXCHANGE_RATE_MANAGE = 'exchange_rate:manage',
+  CORPORATE_VIEW = 'corporate:view',
+  CORPORATE_MANAGE = 'corporate:manage',
+  INVOICE_MANAGE = 'invoice:manage',
+  FLEET_VIEW = 'fleet:view',
+  FLEET_MANAGE = 'fleet:manage',
+  TRIP_VIEW = 'trip:view',
+  SUPPORT_MANAGE = 'support:manage',
+  WEBHOOK_VIEW = 'webhook:view',
+  WEBHOOK_REPLAY = 'webhook:replay',
+  AUDIT_LOG_VIEW = 'audit_log:view',
+}
+
+/**
+ * Permissions granted to each staff role
+ */
+export const ADMIN_ROLE_PERMISSIONS: Record<AdminRole, Permission[]> = {
+  [AdminRole.SUPER_ADMIN]: Object.values(Permission),
+  [AdminRole.DISPATCHER]: [
+    Permission.DASHBOARD_VIEW,
+    Permission.USER_VIEW,
+    Permission.DRIVER_VIEW,
+    Permission.DRIVER_MANAGE,
+    Permission.RESERVATION_VIEW,
+    Permission.RESERVATION_MANAGE,
+    Permission.QUOTE_VIEW,
+    Permission.QUOTE_MANAGE,
+    Permission.PRICING_VIEW,
+    Permission.CORPORATE_VIEW,
+    Permission.FLEET_VIEW,
+    Permission.FLEET_MANAGE,
+    Permission.TRIP_VIEW,
+  ],
+  [AdminRole.FINANCE]: [
+    Permission.DASHBOARD_VIEW,
+    Permission.USER_VIEW,
+    Permission.DRIVER_VIEW,
+    Permission.DRIVER_PAYOUT,
+    Permission.RESERVATION_VIEW,
+    Permission.REFUND_CREATE,
+    Permission.CHARGE_MANAGE,
+    Permission.QUOTE_VIEW,
+    Permission.PRICING_VIEW,
+    Permission.PRICING_CREATE,
+    Permission.PRICING_ACTIVATE,
+    Permission.PROMO_MANAGE,
+    Permission.EXCHANGE_RATE_MANAGE,
+    Permission.CORPORATE_VIEW,
+    Permission.CORPORATE_MANAGE,
+    Permission.INVOICE_MANAGE,
+    Permission.FLEET_VIEW,
+    Permission.WEBHOOK_VIEW,
+    Permission.WEBHOOK_REPLAY,
+  ],
+  [AdminRole.SUPPORT]: [
+    Permission.DASHBOARD_VIEW,
+    Permission.USER_VIEW,
+    Permission.USER_BLOCK,
+    Permission.DRIVER_VIEW,
+    Permission.RESERVATION_VIEW,
+    Permission.QUOTE_VIEW,
+    Permission.CORPORATE_VIEW,
+    Permission.TRIP_VIEW,
+    Permission.SUPPORT_MANAGE,
+  ],
+};
+
+/**
+ * Audit log action enumeration
+ * One value per mutating admin use case, named <target>.<change>
+ */
+export enum AuditAction {
+  USER_STATUS_CHANGE = 'user.status_change',
+  USER_ROLE_CHANGE = 'user.role_change',
+  USER_UNLOCK = 'user.unlock',
+  USER_SESSIONS_REVOKE = 'user.sessions_revoke',
+  DRIVER_CREATE = 'driver.create',
+  DRIVER_UPDATE = 'driver.update',
+  DRIVER_STATUS_CHANGE = 'driver.status_change',
+  DRIVER_DELETE = 'driver.delete',
+  DRIVER_PAYOUT = 'driver.payout',
+  DRIVER_UNLOCK = 'driver.unlock',
+  PRICING_CONFIG_CREATE = 'pricing_config.create',
+  PRICING_CONFIG_ACTIVATE = 'pricing_config.activate',
+  CANCELLATION_POLICY_CREATE = 'cancellation_policy.create',
+  CANCELLATION_POLICY_ACTIVATE = 'cancellation_policy.activate',
+  EXCHANGE_RATE_UPDATE = 'exchange_rate.update',
+  EXCHANGE_RATE_DELETE = 'exchange_rate.delete',
+  PROMO_CODE_CREATE = 'promo_code.create',
+  PROMO_CODE_UPDATE = 'promo_code.update',
+  RESERVATION_STATUS_CHANGE = 'reservation.status_change',
+  RESERVATION_PASSENGERS_ADD = 'reservation.passengers_add',
+  RESERVATION_DRIVER_CHANGE = 'reservation.driver_change',
+  RESERVATION_VEHICLES_ADJUST = 'reservation.vehicles_adjust',
+  RESERVATION_ITINERARY_UPDATE = 'reservation.itinerary_update',
+  RESERVATION_REFUND = 'reservation.refund',
+  RESERVATION_CANCEL = 'reservation.cancel',
+  RESERVATION_CHARGE_ADD = 'reservation.charge_add',
+  RESERVATION_CHARGE_MARK_PAID = 'reservation.charge_mark_paid',
+  QUOTE_STATUS_CHANGE = 'quote.status_change',
+  QUOTE_DRIVER_ASSIGN = 'quote.driver_assign',
+  QUOTE_RECALCULATE = 'quote.recalculate',
+  QUOTE_COUNTER_OFFER = 'quote.counter_offer',
+  CORPORATE_ACCOUNT_CREATE = 'corporate_account.create',
+  CORPORATE_ACCOUNT_UPDATE = 'corporate_account.update',
+  CORPORATE_MEMBER_ADD = 'corporate_account.member_add',
+  CORPORATE_MEMBER_REMOVE = 'corporate_account.member_remove',
+  CORPORATE_INVOICE_MARK_PAID = 'corporate_invoice.mark_paid',
+  VEHICLE_CREATE = 'vehicle.create',
+  VEHICLE_UPDATE = 'vehicle.update',
+  VEHICLE_STATUS_CHANGE = 'vehicle.status_change',
+  VEHICLE_DELETE = 'vehicle.delete',
+  VEHICLE_TYPE_CREATE = 'vehicle_type.create',
+  VEHICLE_TYPE_UPDATE = 'vehicle_type.update',
+  VEHICLE_TYPE_DELETE = 'vehicle_type.delete',
+  AMENITY_CREATE = 'amenity.create',
+  AMENITY_UPDATE = 'amenity.update',
+  AMENITY_DELETE = 'amenity.delete',
+  MAINTENANCE_PLAN_UPDATE = 'maintenance.plan_update',
+  MAINTENANCE_WINDOW_SCHEDULE = 'maintenance.window_schedule',
+  MAINTENANCE_WINDOW_CANCEL = 'maintenance.window_cancel',
+  MAINTENANCE_SERVICE_RECORD = 'maintenance.service_record',
+  SUPPORT_TICKET_STATUS_CHANGE = 'support_ticket.status_change',
+  SUPPORT_TICKET_ASSIGN = 'support_ticket.assign',
+  WEBHOOK_EVENT_REPLAY = 'webhook_event.replay',
+}
+
+/**
+ * Kind of entity an audit log entry is about
+ */
+export enum AuditTargetType {
+  USER = 'user',
+  DRIVER = 'driver',
+  PRICING_CONFIG = 'pricing_config',
+  CANCELLATION_POLICY = 'cancellation_policy',
+  EXCHANGE_RATE = 'exchange_rate',
+  PROMO_CODE = 'promo_code',
+  RESERVATION = 'reservation',
+  QUOTE = 'quote',
+  CORPORATE_ACCOUNT = 'corporate_account',
+  CORPORATE_INVOICE = 'corporate_invoice',
+  VEHICLE = 'vehicle',
+  VEHICLE_TYPE = 'vehicle_type',
+  AMENITY = 'amenity',
+  MAINTENANCE = 'maintenance',
+  SUPPORT_TICKET = 'support_ticket',
+  WEBHOOK_EVENT = 'webhook_event',
+}
+
 /**
  * User status enumeration
  * Tracks the current state of user accounts
@@ -35,6 +217,19 @@ export enum DriverStatus {
   BLOCKED = 'blocked'       
 }
 
+/**
+ * Session revoke reason enumeration
+ * Why a login session ended before it expired
+ */
+export enum SessionRevokeReason {
+  LOGOUT = 'logout',                   // Logged out on the device itself
+  REVOKED_BY_USER = 'revoked_by_user', // Ended from another device
+  LOGOUT_ALL = 'logout_all',           // "Log out everywhere"
+  TOKEN_REUSE = 'token_reuse',         // A rotated refresh token was used again, so it may be stolen
+  ACCOUNT_BLOCKED = 'account_blocked',     // Blocked or deleted by an admin
+  REVOKED_BY_ADMIN = 'revoked_by_admin',
+}
+
 /**
  * Driver assignment configuration constants
  */
@@ -53,6 +248,102 @@ export const DRIVER_ASSIGNMENT_CONFIG = {
   SOON_START_THRESHOLD_MS: 2 * 60 * 60 * 1000,
 } as const;
 
+/**
+ * Reservation cancellation configuration constants
+ */
+export const RESERVATION_CANCELLATION_CONFIG = {
+  /**
+   * How long before the first itinerary stop users can still cancel on their own (in milliseconds)
+   * After the cutoff only admins can cancel
+   * Default: 24 hours
+   */
+  SELF_SERVICE_CUTOFF_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Vehicle hold configuration constants
+ */
+export const VEHICLE_HOLD_CONFIG = {
+  /**
+   * How long a soft hold on a quoted vehicle lasts (in milliseconds)
+   * Matches the quote payment window, after which the quote expires
+   * Default: 24 hours
+   */
+  QUOTE_HOLD_DURATION_MS: 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Fleet schedule configuration constants
+ */
+export const FLEET_SCHEDULE_CONFIG = {
+  /**
+   * Range shown when the admin does not pass `to` (in milliseconds)
+   * Default: 7 days
+   */
+  DEFAULT_RANGE_MS: 7 * 24 * 60 * 60 * 1000,
+
+  /**
+   * Longest range a single schedule request may cover (in milliseconds)
+   * Default: 31 days
+   */
+  MAX_RANGE_MS: 31 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Audit log configuration constants
+ */
+export const AUDIT_LOG_CONFIG = {
+  /**
+   * Most entries a single CSV export contains; narrow the filters to export older ones
+   */
+  MAX_EXPORT_ROWS: 10000,
+};
+
+/**
+ * Trip fuel logging configuration constants
+ */
+export const FUEL_LOG_CONFIG = {
+  /**
+   * Number of latest completed trips the rolling-average consumption is taken over
+   */
+  ROLLING_WINDOW_TRIPS: 10,
+
+  /**
+   * Completed trips with fuel fills needed before a vehicle gets a rolling-average consumption
+   */
+  MIN_TRIPS_FOR_AVERAGE: 3,
+
+  /**
+   * Range reported when the admin does not pass `from` (in milliseconds)
+   * Default: 30 days
+   */
+  DEFAULT_REPORT_RANGE_MS: 30 * 24 * 60 * 60 * 1000,
+
+  /**
+   * Longest range a single report request may cover (in milliseconds)
+   * Default: 366 days
+   */
+  MAX_REPORT_RANGE_MS: 366 * 24 * 60 * 60 * 1000,
+} as const;
+
+/**
+ * Currency configuration constants
+ */
+export const CURRENCY_CONFIG = {
+  /**
+   * Currency used when a pricing config, quote or charge does not name one
+   */
+  DEFAULT_CURRENCY: 'INR',
+
+  /**
+   * Currencies Stripe charges in whole units (no minor unit)
+   */
+  ZERO_DECIMAL_CURRENCIES: [
+    'BIF', 'CLP', 'DJF', 'GNF', 'JPY', 'KMF', 'KRW', 'MGA',
+    'PYG', 'RWF', 'UGX', 'VND', 'VUV', 'XAF', 'XOF', 'XPF',
+  ] as readonly string[],
+} as const;
+
 /**
  * Vehicle status enumeration
  * Tracks the current state of vehicles in the system
@@ -176,12 +467,56 @@ export enum NotificationType {
   RESERVATION_CHARGE_ADDED = 'reservation_charge_added',   // Additional charge added to reservation
   RESERVATION_CANCELLED = 'reservation_cancelled',   // Reservation cancelled
   RESERVATION_REFUNDED = 'reservation_refunded',   // Reservation refund processed
+  RESERVATION_VEHICLES_CONFLICT = 'reservation_vehicles_conflict',   // Paid reservation's vehicles were booked by someone else
+  QUOTE_COUNTER_OFFER = 'quote_counter_offer',   // Admin sent a counter-offer on a quote
+  PAYMENT_REFUND_RECONCILED = 'payment_refund_reconciled',   // Refund issued outside the app was recorded
+  PAYMENT_REFUND_REVERSED = 'payment_refund_reversed',   // Recorded refund failed or was canceled in the gateway
+  PAYMENT_DISPUTE_OPENED = 'payment_dispute_opened',   // Cardholder opened a chargeback
+  PAYMENT_DISPUTE_CLOSED = 'payment_dispute_closed',   // Chargeback was won or lost
+  RESERVATION_BALANCE_DUE = 'reservation_balance_due',   // Balance of a deposit booking is due soon
+  RESERVATION_BALANCE_OVERDUE = 'reservation_balance_overdue',   // Balance was not paid by its due date
+  RESERVATION_BALANCE_PAID = 'reservation_balance_paid',   // Balance of a deposit booking was paid
+  CORPORATE_BOOKING_APPROVAL_REQUIRED = 'corporate_booking_approval_required',   // Booking on account waits for an account admin
+  CORPORATE_BOOKING_APPROVED = 'corporate_booking_approved',   // Booking on account was approved
+  CORPORATE_BOOKING_REJECTED = 'corporate_booking_rejected',   // Booking on account was rejected
+  CORPORATE_INVOICE_ISSUED = 'corporate_invoice_issued',   // Monthly corporate invoice was issued
+  CORPORATE_INVOICE_OVERDUE = 'corporate_invoice_overdue',   // Corporate invoice passed its due date unpaid
   TICKET_CREATED = 'ticket_created',   // Ticket created
   TICKET_ASSIGNED_TO_ADMIN = 'ticket_assigned_to_admin',   // Ticket assigned to admin
   TICKET_STATUS_CHANGED = 'ticket_status_changed',   // Ticket status changed
   TICKET_MESSAGE_ADDED = 'ticket_message_added',   // Ticket message added
 }
 
+/**
+ * Notification channel enumeration
+ */
+export enum NotificationChannel {
+  IN_APP = 'in_app',   // Notification centre with a live alert while the user is connected
+  EMAIL = 'email',   // Email to the account address
+  PUSH = 'push',   // Push notification to the user's registered devices
+}
+
+/**
+ * Notification delivery status enumeration
+ */
+export enum NotificationDeliveryStatus {
+  SENT = 'sent',   // Handed over to the channel (live alert, mail server or push service)
+  STORED = 'stored',   // Kept in the notification centre for the user's next visit
+  SKIPPED = 'skipped',   // Not attempted, the delivery reason says why
+  FAILED = 'failed',   // Attempted and failed
+}
+
+/**
+ * Reasons a notification channel was skipped
+ */
+export enum NotificationSkipReason {
+  DISABLED = 'disabled',   // User turned the channel off for this notification type
+  QUIET_HOURS = 'quiet_hours',   // Sent during the user's quiet hours
+  USER_ONLINE = 'user_online',   // User already got the live in-app alert
+  NO_EMAIL = 'no_email',   // No email address on the account
+  NO_DEVICE = 'no_device',   // No device registered for push
+}
+
 /**
  * Vehicle status labels mapping
  * Maps status enum values to user-friendly display labels
@@ -201,6 +536,10 @@ export const OTP_CONFIG = {
   LENGTH: 6,                    // OTP is 6 digits
   EXPIRY_TIME: 120000,          // 2 minutes in milliseconds
   REDIS_PREFIX: 'otp:',        
+  RESEND_COOLDOWN_SECONDS: 60,  // Minimum time between two codes sent to the same email
+  COOLDOWN_PREFIX: 'otp_cooldown:',
+  MAX_VERIFY_ATTEMPTS: 5,       // Incorrect codes allowed before the code is discarded
+  ATTEMPTS_PREFIX: 'otp_attempts:',
 } as const;
 
 /**
@@ -208,6 +547,29 @@ export const OTP_CONFIG = {
  */
 export const TOKEN_BLACKLIST = {
   PREFIX: 'blacklist:',
+  SESSION_PREFIX: 'revoked_session:', // Revoked sessions, so their access tokens stop working before they expire
+} as const;
+
+/**
+ * Login protection Redis key prefixes
+ * Limits and lockout durations are in LOGIN_PROTECTION_CONFIG
+ */
+export const LOGIN_PROTECTION_KEYS = {
+  RATE_LIMIT_PREFIX: 'rate_limit:',
+  LOCK_PREFIX: 'lockout:',
+  LOCK_LEVEL_PREFIX: 'lockout_level:',
+  FAILURES_PREFIX: 'login_failures:',
+} as const;
+
+/**
+ * Two-factor authentication constants
+ */
+export const TWO_FACTOR_CONFIG = {
+  CHALLENGE_EXPIRY_SECONDS: 300,  // Time to enter a code after the password was accepted
+  MAX_CHALLENGE_ATTEMPTS: 5,      // Wrong codes allowed before the login has to start over
+  RECOVERY_CODE_COUNT: 10,
+  CHALLENGE_PREFIX: 'two_factor_challenge:',
+  ATTEMPTS_PREFIX: 'two_factor_attempts:',
 } as const;
 
 /**
@@ -242,11 +604,20 @@ export const SUCCESS_MESSAGES = {
   USER_REGISTERED: 'User registered successfully. Please verify using OTP',
   USER_STATUS_UPDATED: 'User status updated successfully',
   USER_ROLE_UPDATED: 'User role updated successfully',
+  ACCOUNT_UNLOCKED: 'Account unlocked successfully',
+  TWO_FACTOR_REQUIRED: 'Enter the code from your authenticator app to finish logging in',
+  TWO_FACTOR_ENROLLMENT_REQUIRED: 'Set up an authenticator app to finish logging in',
+  TWO_FACTOR_SETUP_STARTED: 'Scan the QR code with your authenticator app, then enter a code to confirm',
+  TWO_FACTOR_ENABLED: 'Two-factor authentication enabled. Store your recovery codes somewhere safe',
+  TWO_FACTOR_DISABLED: 'Two-factor authentication disabled',
+  RECOVERY_CODES_REGENERATED: 'New recovery codes generated. Your previous codes no longer work',
   USER_DELETED: 'User deleted successfully',
   OTP_SENT: 'OTP has been sent',
   OTP_VERIFIED: 'OTP verified successfully',
   LOGIN_SUCCESS: 'Login successful',
   LOGOUT_SUCCESS: 'Logout successful',
+  SESSION_REVOKED: 'Session ended successfully',
+  SESSIONS_REVOKED: 'Logged out of all sessions',
   PASSWORD_RESET_EMAIL_SENT: 'Password reset link has been sent to your email',
   PASSWORD_RESET_SUCCESS: 'Password has been reset successfully',
   PASSWORD_CHANGED_SUCCESS: 'Password changed successfully',
@@ -288,11 +659,26 @@ export const ERROR_MESSAGES = {
   INVALID_CREDENTIALS: 'Invalid email or password',
   ACCOUNT_NOT_VERIFIED: 'Please verify your account to continue',
   OTP_INVALID_OR_EXPIRED: 'OTP is invalid or has expired',
+  OTP_RESEND_COOLDOWN: 'Please wait before requesting another code',
+  OTP_TOO_MANY_ATTEMPTS: 'Too many incorrect codes. Please request a new code',
+  TOO_MANY_REQUESTS: 'Too many requests. Please try again later',
+  ACCOUNT_LOCKED: 'Too many failed login attempts. Please try again later or reset your password',
+  TWO_FACTOR_CHALLENGE_INVALID: 'Your login has expired. Please log in again',
+  TWO_FACTOR_CODE_INVALID: 'Invalid authentication code',
+  TWO_FACTOR_CODE_REQUIRED: 'An authentication code or recovery code is required',
+  TWO_FACTOR_TOO_MANY_ATTEMPTS: 'Too many invalid authentication codes. Please log in again',
+  TWO_FACTOR_ALREADY_ENABLED: 'Two-factor authentication is already enabled',
+  TWO_FACTOR_NOT_ENABLED: 'Two-factor authentication is not enabled',
+  TWO_FACTOR_SETUP_NOT_STARTED: 'Start two-factor setup before confirming it',
+  TWO_FACTOR_REQUIRED_FOR_ROLE: 'Two-factor authentication is required for admin accounts',
   TOKEN_REVOKED: 'Token has been revoked',
+  SESSION_NOT_FOUND: 'Session not found',
+  SESSION_REVOKED: 'Your session has ended. Please log in again',
   TOKEN_EXPIRED: 'Token has expired',
   INVALID_RESET_TOKEN: 'Invalid or expired password reset token',
   UNAUTHORIZED: 'Unauthorized access',
   FORBIDDEN: 'You do not have permission to perform this action',
+  REFUND_PERMISSION_REQUIRED: 'Cancelling this reservation issues a refund, which you do not have permission to do',
   BAD_REQUEST: 'Invalid request data',
   SERVER_ERROR: 'Something went wrong. Please try again later',
   ACCOUNT_ALREADY_EXISTS: 'Account already exists',
@@ -329,6 +715,8 @@ export const ERROR_MESSAGES = {
   CANNOT_BLOCK_ADMIN: 'Cannot block admin user',
   CANNOT_DELETE_ADMIN: 'Cannot delete admin user',
   INVALID_USER_ROLE: 'Invalid user role',
+  ADMIN_ROLE_REQUIRED: 'A staff role is required for admin users',
+  ADMIN_ROLE_NOT_ALLOWED: 'Only admin users can have a staff role',
   DRIVER_NOT_FOUND: 'Driver not found',
   DRIVER_EMAIL_ALREADY_EXISTS: 'Driver with this email already exists',
   DRIVER_LICENSE_NUMBER_EXISTS: 'Driver with this license number already exists',
@@ -337,6 +725,7 @@ export const ERROR_MESSAGES = {
   QUOTE_PAYMENT_WINDOW_EXPIRED: 'Quote payment window has expired. Please request a new quote.',
   DRIVER_NOT_AVAILABLE: 'Driver is not available for the selected dates',
   VEHICLES_NOT_AVAILABLE: 'Selected vehicles are no longer available. Please select new vehicles.',
+  VEHICLES_ALREADY_BOOKED: 'One or more vehicles are already booked for an overlapping trip',
   REPORT_CONTENT_REQUIRED: 'Report content is required',  
   REPORT_CONTENT_EMPTY: 'Report content cannot be empty',
   REPORT_CONTENT_TOO_LONG: 'Report content cannot exceed 2000 characters',
@@ -344,6 +733,60 @@ export const ERROR_MESSAGES = {
   TRIP_NOT_COMPLETED: 'Trip must be completed before submitting a report',
   UNAUTHORIZED_REPORT_SUBMISSION: 'Unauthorized: You can only submit reports for your own trips',
   RESERVATION_NOT_FOUND: 'Reservation not found',
+  INVALID_SCHEDULE_RANGE: 'Schedule range must have valid dates with from before to, spanning at most 31 days',
+  INVALID_SCHEDULE_RESOURCE: 'Schedule resource must be either vehicle or driver',
+  MAINTENANCE_WINDOW_NOT_FOUND: 'Maintenance window not found',
+  INVALID_MAINTENANCE_WINDOW: 'Maintenance window must end after it starts and must not end in the past',
+  MAINTENANCE_WINDOW_OVERLAP: 'Vehicle already has maintenance scheduled during this window',
+  MAINTENANCE_WINDOW_CLOSED: 'Maintenance window has already been completed or cancelled',
+  VEHICLE_RETIRED: 'Vehicle has been retired',
+  INVALID_ODOMETER_READING: 'Odometer reading is invalid for this vehicle',
+  TRIP_VEHICLE_NOT_ASSIGNED: 'Vehicle is not assigned to this reservation',
+  TRIP_LOG_NOT_STARTED: 'No start odometer reading was recorded for this vehicle',
+  INVALID_FUEL_REPORT_RANGE: 'Report range must have valid dates with from before to, spanning at most 366 days',
+  INVALID_AUDIT_LOG_FILTER: 'Invalid audit log filter',
+  UNSUPPORTED_CURRENCY: 'No exchange rate is configured for this currency',
+  EXCHANGE_RATE_NOT_FOUND: 'Exchange rate not found',
+  INVALID_EXCHANGE_RATE: 'Exchange rate must be between two different currencies and greater than zero',
+  CURRENCY_MISMATCH: 'Currency does not match the currency the reservation was paid in',
+  PROMO_CODE_NOT_FOUND: 'Promo code not found',
+  PROMO_CODE_NOT_ACTIVE: 'Promo code is not active or has expired',
+  PROMO_CODE_USAGE_LIMIT_REACHED: 'Promo code has reached its usage limit',
+  PROMO_CODE_USER_LIMIT_REACHED: 'You have already used this promo code the maximum number of times',
+  PROMO_CODE_NOT_APPLICABLE: 'Promo code does not apply to this trip',
+  PROMO_CODE_ALREADY_EXISTS: 'A promo code with this code already exists',
+  INVALID_PROMO_CODE: 'Promo code must end after it starts, and percentage discounts cannot exceed 100',
+  QUOTE_NOT_NEGOTIABLE: 'Only quoted quotes with pricing can be negotiated',
+  INVALID_COUNTER_OFFER: 'Counter-offer must change at least one component, override each component once, and total more than zero',
+  COUNTER_OFFER_NOT_FOUND: 'There is no counter-offer waiting for a response on this quote',
+  COUNTER_OFFER_PENDING: 'Please accept or reject the counter-offer before paying',
+  QUOTE_NOT_REQUOTABLE: 'Only expired quotes can be requoted',
+  QUOTE_ALREADY_REQUOTED: 'This quote has already been requoted',
+  QUOTE_DATES_IN_PAST: 'The trip dates of this quote have passed. Please create a new quote.',
+  INVALID_TIMEZONE: 'Timezone must be a valid IANA timezone, e.g. Asia/Kolkata',
+  WEB_PUSH_NOT_CONFIGURED: 'Browser push notifications are not available',
+  WEB_PUSH_SUBSCRIPTION_NOT_FOUND: 'Push subscription not found',
+  WEB_PUSH_ENDPOINT_NOT_ALLOWED: 'Push subscription endpoint must belong to a supported browser push service',
+  WEBHOOK_EVENT_NOT_FOUND: 'Webhook event not found',
+  WEBHOOK_EVENT_IN_PROGRESS: 'Webhook event is already being processed',
+  INVALID_PAYMENT_PLAN: 'Payment plan must be either full or deposit',
+  DEPOSIT_NOT_AVAILABLE: 'A deposit is not available for this booking. Please pay the full amount.',
+  NO_OUTSTANDING_BALANCE: 'There is no outstanding balance on this reservation',
+  BALANCE_OUTSTANDING: 'The balance for this reservation has not been paid yet',
+  CORPORATE_ACCOUNT_NOT_FOUND: 'Corporate account not found',
+  CORPORATE_ACCOUNT_INACTIVE: 'Corporate account is suspended',
+  NOT_CORPORATE_MEMBER: 'You are not a member of a corporate account',
+  CORPORATE_MEMBER_EXISTS: 'User already belongs to a corporate account',
+  CORPORATE_MEMBER_NOT_FOUND: 'User is not a member of this corporate account',
+  CORPORATE_CREDIT_LIMIT_EXCEEDED: 'This booking would exceed the credit limit of your corporate account',
+  CORPORATE_CREDIT_BUSY: 'Other bookings on your corporate account are being processed, please try again',
+  CORPORATE_CURRENCY_MISMATCH: 'Quote currency does not match the billing currency of the corporate account',
+  CORPORATE_BOOKING_NOT_FOUND: 'Corporate booking not found',
+  CORPORATE_BOOKING_NOT_PENDING: 'Corporate booking is not waiting for approval',
+  CORPORATE_APPROVAL_FORBIDDEN: 'Only account administrators can approve corporate bookings',
+  CORPORATE_INVOICE_NOT_FOUND: 'Corporate invoice not found',
+  CORPORATE_INVOICE_ALREADY_PAID: 'Corporate invoice has already been paid',
+  RESERVATION_INVOICE_NOT_FOUND: 'Invoice not found',
 } as const;
 
 /**
@@ -351,11 +794,23 @@ export const ERROR_MESSAGES = {
  */
 export const ERROR_CODES = {
   AUTH_INVALID_OTP: 'AUTH_INVALID_OTP',
+  AUTH_OTP_RESEND_COOLDOWN: 'AUTH_OTP_RESEND_COOLDOWN',
+  AUTH_OTP_TOO_MANY_ATTEMPTS: 'AUTH_OTP_TOO_MANY_ATTEMPTS',
+  AUTH_ACCOUNT_LOCKED: 'AUTH_ACCOUNT_LOCKED',
+  AUTH_TWO_FACTOR_CHALLENGE_INVALID: 'AUTH_TWO_FACTOR_CHALLENGE_INVALID',
+  AUTH_TWO_FACTOR_CODE_INVALID: 'AUTH_TWO_FACTOR_CODE_INVALID',
+  AUTH_TWO_FACTOR_TOO_MANY_ATTEMPTS: 'AUTH_TWO_FACTOR_TOO_MANY_ATTEMPTS',
+  TWO_FACTOR_ALREADY_ENABLED: 'TWO_FACTOR_ALREADY_ENABLED',
+  TWO_FACTOR_NOT_ENABLED: 'TWO_FACTOR_NOT_ENABLED',
+  TWO_FACTOR_REQUIRED: 'TWO_FACTOR_REQUIRED',
   AUTH_ACCOUNT_BLOCKED: 'AUTH_ACCOUNT_BLOCKED',
   AUTH_TOKEN_EXPIRED: 'AUTH_TOKEN_EXPIRED',
+  AUTH_SESSION_REVOKED: 'AUTH_SESSION_REVOKED',
+  SESSION_NOT_FOUND: 'SESSION_NOT_FOUND',
   USER_DUPLICATE_EMAIL: 'USER_DUPLICATE_EMAIL',
   USER_NOT_FOUND: 'USER_NOT_FOUND',
   FORBIDDEN: 'FORBIDDEN',
+  REFUND_PERMISSION_REQUIRED: 'REFUND_PERMISSION_REQUIRED',
   INVALID_QUOTE_ID: 'INVALID_QUOTE_ID',
   INVALID_USER_ID: 'INVALID_USER_ID',
   INVALID_REQUEST: 'INVALID_REQUEST',
@@ -379,6 +834,7 @@ export const ERROR_CODES = {
   CHAT_NOT_FOUND: 'CHAT_NOT_FOUND',
   INVALID_USER_STATUS: 'INVALID_USER_STATUS',
   INVALID_USER_ROLE: 'INVALID_USER_ROLE',
+  INVALID_ADMIN_ROLE: 'INVALID_ADMIN_ROLE',
   DRIVER_NOT_FOUND: 'DRIVER_NOT_FOUND',
   DRIVER_DUPLICATE_EMAIL: 'DRIVER_DUPLICATE_EMAIL',
   DRIVER_DUPLICATE_LICENSE: 'DRIVER_DUPLICATE_LICENSE',
@@ -387,10 +843,65 @@ export const ERROR_CODES = {
   QUOTE_EXPIRED: 'QUOTE_EXPIRED',
   DRIVER_NOT_AVAILABLE: 'DRIVER_NOT_AVAILABLE',
   VEHICLES_NOT_AVAILABLE: 'VEHICLES_NOT_AVAILABLE',
+  VEHICLES_ALREADY_BOOKED: 'VEHICLES_ALREADY_BOOKED',
   SERVER_ERROR: 'SERVER_ERROR',
   INVALID_REPORT_CONTENT: 'INVALID_REPORT_CONTENT',
   REPORT_ALREADY_SUBMITTED: 'REPORT_ALREADY_SUBMITTED',
   TRIP_NOT_COMPLETED: 'TRIP_NOT_COMPLETED',
   UNAUTHORIZED_REPORT_SUBMISSION: 'UNAUTHORIZED_REPORT_SUBMISSION',
   RESERVATION_NOT_FOUND: 'RESERVATION_NOT_FOUND',
+  INVALID_SCHEDULE_RANGE: 'INVALID_SCHEDULE_RANGE',
+  INVALID_SCHEDULE_RESOURCE: 'INVALID_SCHEDULE_RESOURCE',
+  MAINTENANCE_WINDOW_NOT_FOUND: 'MAINTENANCE_WINDOW_NOT_FOUND',
+  INVALID_MAINTENANCE_WINDOW: 'INVALID_MAINTENANCE_WINDOW',
+  MAINTENANCE_WINDOW_OVERLAP: 'MAINTENANCE_WINDOW_OVERLAP',
+  MAINTENANCE_WINDOW_CLOSED: 'MAINTENANCE_WINDOW_CLOSED',
+  VEHICLE_RETIRED: 'VEHICLE_RETIRED',
+  INVALID_ODOMETER_READING: 'INVALID_ODOMETER_READING',
+  TRIP_VEHICLE_NOT_ASSIGNED: 'TRIP_VEHICLE_NOT_ASSIGNED',
+  TRIP_LOG_NOT_STARTED: 'TRIP_LOG_NOT_STARTED',
+  INVALID_FUEL_REPORT_RANGE: 'INVALID_FUEL_REPORT_RANGE',
+  INVALID_AUDIT_LOG_FILTER: 'INVALID_AUDIT_LOG_FILTER',
+  UNSUPPORTED_CURRENCY: 'UNSUPPORTED_CURRENCY',
+  EXCHANGE_RATE_NOT_FOUND: 'EXCHANGE_RATE_NOT_FOUND',
+  INVALID_EXCHANGE_RATE: 'INVALID_EXCHANGE_RATE',
+  CURRENCY_MISMATCH: 'CURRENCY_MISMATCH',
+  PROMO_CODE_NOT_FOUND: 'PROMO_CODE_NOT_FOUND',
+  PROMO_CODE_NOT_ACTIVE: 'PROMO_CODE_NOT_ACTIVE',
+  PROMO_CODE_USAGE_LIMIT_REACHED: 'PROMO_CODE_USAGE_LIMIT_REACHED',
+  PROMO_CODE_USER_LIMIT_REACHED: 'PROMO_CODE_USER_LIMIT_REACHED',
+  PROMO_CODE_NOT_APPLICABLE: 'PROMO_CODE_NOT_APPLICABLE',
+  PROMO_CODE_ALREADY_EXISTS: 'PROMO_CODE_ALREADY_EXISTS',
+  INVALID_PROMO_CODE: 'INVALID_PROMO_CODE',
+  QUOTE_NOT_NEGOTIABLE: 'QUOTE_NOT_NEGOTIABLE',
+  INVALID_COUNTER_OFFER: 'INVALID_COUNTER_OFFER',
+  COUNTER_OFFER_NOT_FOUND: 'COUNTER_OFFER_NOT_FOUND',
+  COUNTER_OFFER_PENDING: 'COUNTER_OFFER_PENDING',
+  QUOTE_NOT_REQUOTABLE: 'QUOTE_NOT_REQUOTABLE',
+  QUOTE_ALREADY_REQUOTED: 'QUOTE_ALREADY_REQUOTED',
+  QUOTE_DATES_IN_PAST: 'QUOTE_DATES_IN_PAST',
+  INVALID_TIMEZONE: 'INVALID_TIMEZONE',
+  WEB_PUSH_NOT_CONFIGURED: 'WEB_PUSH_NOT_CONFIGURED',
+  WEB_PUSH_SUBSCRIPTION_NOT_FOUND: 'WEB_PUSH_SUBSCRIPTION_NOT_FOUND',
+  WEB_PUSH_ENDPOINT_NOT_ALLOWED: 'WEB_PUSH_ENDPOINT_NOT_ALLOWED',
+  WEBHOOK_EVENT_NOT_FOUND: 'WEBHOOK_EVENT_NOT_FOUND',
+  WEBHOOK_EVENT_IN_PROGRESS: 'WEBHOOK_EVENT_IN_PROGRESS',
+  INVALID_PAYMENT_PLAN: 'INVALID_PAYMENT_PLAN',
+  DEPOSIT_NOT_AVAILABLE: 'DEPOSIT_NOT_AVAILABLE',
+  NO_OUTSTANDING_BALANCE: 'NO_OUTSTANDING_BALANCE',
+  BALANCE_OUTSTANDING: 'BALANCE_OUTSTANDING',
+  CORPORATE_ACCOUNT_NOT_FOUND: 'CORPORATE_ACCOUNT_NOT_FOUND',
+  CORPORATE_ACCOUNT_INACTIVE: 'CORPORATE_ACCOUNT_INACTIVE',
+  NOT_CORPORATE_MEMBER: 'NOT_CORPORATE_MEMBER',
+  CORPORATE_MEMBER_EXISTS: 'CORPORATE_MEMBER_EXISTS',
+  CORPORATE_MEMBER_NOT_FOUND: 'CORPORATE_MEMBER_NOT_FOUND',
+  CORPORATE_CREDIT_LIMIT_EXCEEDED: 'CORPORATE_CREDIT_LIMIT_EXCEEDED',
+  CORPORATE_CREDIT_BUSY: 'CORPORATE_CREDIT_BUSY',
+  CORPORATE_CURRENCY_MISMATCH: 'CORPORATE_CURRENCY_MISMATCH',
+  CORPORATE_BOOKING_NOT_FOUND: 'CORPORATE_BOOKING_NOT_FOUND',
+  CORPORATE_BOOKING_NOT_PENDING: 'CORPORATE_BOOKING_NOT_PENDING',
+  CORPORATE_APPROVAL_FORBIDDEN: 'CORPORATE_APPROVAL_FORBIDDEN',
+  CORPORATE_INVOICE_NOT_FOUND: 'CORPORATE_INVOICE_NOT_FOUND',
+  CORPORATE_INVOICE_ALREADY_PAID: 'CORPORATE_INVOICE_ALREADY_PAID',
+  RESERVATION_INVOICE_NOT_FOUND: 'RESERVATION_INVOICE_NOT_FOUND',
 } as const;
\ No newline at end of file
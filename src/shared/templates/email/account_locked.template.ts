@@ -0,0 +1,110 @@
+import { AccountLockedEmailData } from '../../types/email.types';
+import { escapeHTML } from './notification.template';
+
+/**
+ * Formats date
+ */
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+    timeZoneName: 'short',
+  }).format(new Date(date));
+}
+
+/**
+ * Renders HTML version of account locked email
+ * Styled with GRANDLINE theme colors
+ */
+export function renderAccountLockedHTML(data: AccountLockedEmailData): string {
+  const greeting = data.fullName ? `Hello ${escapeHTML(data.fullName)},` : 'Hello,';
+  const lockedUntil = formatDate(data.lockedUntil);
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Account Temporarily Locked - GRANDLINE</title>
+</head>
+<body style="font-family: 'Work Sans', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; line-height: 1.6; color: #1a1a1a; margin: 0; padding: 0; background-color: #F4F1DE;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #F4F1DE; padding: 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" style="max-width: 600px; width: 100%; background-color: #FFFFFF; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="color: #FFFFFF; margin: 0; font-size: 28px; font-weight: 600;">Account Temporarily Locked</h1>
+              <p style="color: #FFFFFF; margin: 10px 0 0 0; font-size: 16px; opacity: 0.95;">GRANDLINE</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                ${greeting}
+              </p>
+
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                We noticed several unsuccessful sign-in attempts on your account, so we have paused sign-ins to keep it safe.
+              </p>
+
+              <div style="background-color: #F4F1DE; border: 2px solid #E8E5D0; border-radius: 8px; padding: 25px; margin: 30px 0; text-align: center;">
+                <p style="font-size: 14px; color: #6b7280; margin: 0 0 8px 0;">You can sign in again after</p>
+                <p style="font-size: 18px; color: #1a1a1a; margin: 0; font-weight: 600;">${lockedUntil}</p>
+              </div>
+
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                If these attempts were not made by you, please reset your password or contact our support team.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #E8E5D0; padding: 30px; text-align: center; border-top: 1px solid #d1d5db;">
+              <p style="font-size: 12px; color: #6b7280; margin: 0;">
+                This is an automated security notice. Please do not reply to this email.
+              </p>
+              <p style="font-size: 12px; color: #9ca3af; margin: 10px 0 0 0;">
+                © ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Renders plain text version of account locked email
+ */
+export function renderAccountLockedText(data: AccountLockedEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+
+  return `
+Account Temporarily Locked - GRANDLINE
+
+${greeting}
+
+We noticed several unsuccessful sign-in attempts on your account, so we have paused sign-ins to keep it safe.
+
+You can sign in again after: ${formatDate(data.lockedUntil)}
+
+If these attempts were not made by you, please reset your password or contact our support team.
+
+This is an automated security notice. Please do not reply to this email.
+
+© ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+  `.trim();
+}
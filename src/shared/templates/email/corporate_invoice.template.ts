@@ -0,0 +1,151 @@
+import { CorporateInvoiceEmailData } from '../../types/email.types';
+
+/**
+ * Formats currency amount
+ */
+function formatCurrency(amount: number, currency: string = 'INR'): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: currency,
+  }).format(amount);
+}
+
+/**
+ * Formats date
+ */
+function formatDate(date: Date | string): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+  }).format(new Date(date));
+}
+
+/**
+ * Renders HTML version of corporate invoice email
+ * Styled with GRANDLINE theme colors
+ */
+export function renderCorporateInvoiceHTML(data: CorporateInvoiceEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+  const period = `${formatDate(data.periodStart)} - ${formatDate(data.periodEnd)}`;
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your Monthly Invoice - GRANDLINE</title>
+</head>
+<body style="font-family: 'Work Sans', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; line-height: 1.6; color: #1a1a1a; margin: 0; padding: 0; background-color: #F4F1DE;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #F4F1DE; padding: 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" style="max-width: 600px; width: 100%; background-color: #FFFFFF; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="color: #FFFFFF; margin: 0; font-size: 28px; font-weight: 600;">Monthly Invoice</h1>
+              <p style="color: #FFFFFF; margin: 10px 0 0 0; font-size: 16px; opacity: 0.95;">GRANDLINE</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                ${greeting}
+              </p>
+
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 30px 0; line-height: 1.8;">
+                Please find attached the invoice for reservations booked on the ${data.accountName} account during ${period}.
+              </p>
+
+              <!-- Invoice Details Card -->
+              <div style="background-color: #F4F1DE; border: 2px solid #E8E5D0; border-radius: 8px; padding: 25px; margin: 30px 0;">
+                <h2 style="color: #C5630C; margin: 0 0 20px 0; font-size: 20px; font-weight: 600;">Invoice Details</h2>
+
+                <table role="presentation" style="width: 100%; border-collapse: collapse;">
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px; width: 40%;">Invoice Number:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${data.invoiceNumber}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Billing Period:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${period}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Reservations:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${data.reservationCount}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Amount Due:</td>
+                    <td style="padding: 8px 0; color: #C5630C; font-size: 18px; font-weight: 700;">${formatCurrency(data.totalAmount, data.currency)}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Due Date:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${formatDate(data.dueDate)} (net ${data.paymentTermsDays})</td>
+                  </tr>
+                </table>
+              </div>
+
+              <p style="font-size: 14px; color: #6b7280; margin: 30px 0 0 0; line-height: 1.8;">
+                Please quote the invoice number with your payment. If you have any questions about this invoice, please contact our support team.
+              </p>
+
+              <p style="font-size: 14px; color: #6b7280; margin: 20px 0 0 0;">
+                Thank you for choosing GRANDLINE.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #F4F1DE; padding: 30px; text-align: center; border-top: 1px solid #E8E5D0;">
+              <p style="font-size: 12px; color: #6b7280; margin: 0;">
+                This is an automated email. Please do not reply to this message.
+              </p>
+              <p style="font-size: 12px; color: #6b7280; margin: 10px 0 0 0;">
+                © ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `;
+}
+
+/**
+ * Renders plain text version of corporate invoice email
+ */
+export function renderCorporateInvoiceText(data: CorporateInvoiceEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+  const period = `${formatDate(data.periodStart)} - ${formatDate(data.periodEnd)}`;
+
+  return `
+MONTHLY INVOICE - GRANDLINE
+
+${greeting}
+
+Please find attached the invoice for reservations booked on the ${data.accountName} account during ${period}.
+
+INVOICE DETAILS:
+- Invoice Number: ${data.invoiceNumber}
+- Billing Period: ${period}
+- Reservations: ${data.reservationCount}
+- Amount Due: ${formatCurrency(data.totalAmount, data.currency)}
+- Due Date: ${formatDate(data.dueDate)} (net ${data.paymentTermsDays})
+
+Please quote the invoice number with your payment. If you have any questions about this invoice, please contact our support team.
+
+Thank you for choosing GRANDLINE.
+
+---
+This is an automated email. Please do not reply to this message.
+© ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+  `.trim();
+}
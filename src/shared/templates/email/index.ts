@@ -1,12 +1,19 @@
 import { EmailType } from '../../types/email.types';
-import { OTPEmailData, PasswordResetEmailData, QuoteEmailData, InvoiceEmailData, RefundConfirmationEmailData, PaymentRequiredEmailData, CancellationWithRefundEmailData } from '../../types/email.types';
+import { OTPEmailData, PasswordResetEmailData, QuoteEmailData, InvoiceEmailData, RefundConfirmationEmailData, PaymentRequiredEmailData, CancellationWithRefundEmailData, CorporateInvoiceEmailData, QuoteReminderEmailData, QuoteExpiredEmailData, QuoteDraftReminderEmailData, NotificationEmailData, NotificationDigestEmailData, AccountLockedEmailData } from '../../types/email.types';
 import { renderOTPHTML, renderOTPText } from './otp.template';
 import { renderPasswordResetHTML, renderPasswordResetText } from './password_reset.template';
 import { renderQuoteHTML, renderQuoteText } from './quote.template';
+import { renderQuoteReminderHTML, renderQuoteReminderText } from './quote_reminder.template';
+import { renderQuoteExpiredHTML, renderQuoteExpiredText } from './quote_expired.template';
+import { renderQuoteDraftReminderHTML, renderQuoteDraftReminderText } from './quote_draft_reminder.template';
+import { renderNotificationHTML, renderNotificationText } from './notification.template';
+import { renderNotificationDigestHTML, renderNotificationDigestText } from './notification_digest.template';
+import { renderAccountLockedHTML, renderAccountLockedText } from './account_locked.template';
 import { renderInvoiceHTML, renderInvoiceText } from './invoice.template';
 import { renderRefundConfirmationHTML, renderRefundConfirmationText } from './refund_confirmation.template';
 import { renderPaymentRequiredHTML, renderPaymentRequiredText } from './payment_required.template';
 import { renderCancellationWithRefundHTML, renderCancellationWithRefundText } from './cancellation_with_refund.template';
+import { renderCorporateInvoiceHTML, renderCorporateInvoiceText } from './corporate_invoice.template';
 
 /**
  * Template renderer type
@@ -34,6 +41,30 @@ const TEMPLATE_REGISTRY: Record<EmailType, TemplateRenderer> = {
     html: (data: unknown) => renderQuoteHTML(data as QuoteEmailData),
     text: (data: unknown) => renderQuoteText(data as QuoteEmailData),
   },
+  [EmailType.QUOTE_REMINDER]: {
+    html: (data: unknown) => renderQuoteReminderHTML(data as QuoteReminderEmailData),
+    text: (data: unknown) => renderQuoteReminderText(data as QuoteReminderEmailData),
+  },
+  [EmailType.QUOTE_EXPIRED]: {
+    html: (data: unknown) => renderQuoteExpiredHTML(data as QuoteExpiredEmailData),
+    text: (data: unknown) => renderQuoteExpiredText(data as QuoteExpiredEmailData),
+  },
+  [EmailType.QUOTE_DRAFT_REMINDER]: {
+    html: (data: unknown) => renderQuoteDraftReminderHTML(data as QuoteDraftReminderEmailData),
+    text: (data: unknown) => renderQuoteDraftReminderText(data as QuoteDraftReminderEmailData),
+  },
+  [EmailType.NOTIFICATION]: {
+    html: (data: unknown) => renderNotificationHTML(data as NotificationEmailData),
+    text: (data: unknown) => renderNotificationText(data as NotificationEmailData),
+  },
+  [EmailType.NOTIFICATION_DIGEST]: {
+    html: (data: unknown) => renderNotificationDigestHTML(data as NotificationDigestEmailData),
+    text: (data: unknown) => renderNotificationDigestText(data as NotificationDigestEmailData),
+  },
+  [EmailType.ACCOUNT_LOCKED]: {
+    html: (data: unknown) => renderAccountLockedHTML(data as AccountLockedEmailData),
+    text: (data: unknown) => renderAccountLockedText(data as AccountLockedEmailData),
+  },
   [EmailType.INVOICE]: {
     html: (data: unknown) => renderInvoiceHTML(data as InvoiceEmailData),
     text: (data: unknown) => renderInvoiceText(data as InvoiceEmailData),
@@ -50,6 +81,10 @@ const TEMPLATE_REGISTRY: Record<EmailType, TemplateRenderer> = {
     html: (data: unknown) => renderCancellationWithRefundHTML(data as CancellationWithRefundEmailData),
     text: (data: unknown) => renderCancellationWithRefundText(data as CancellationWithRefundEmailData),
   },
+  [EmailType.CORPORATE_INVOICE]: {
+    html: (data: unknown) => renderCorporateInvoiceHTML(data as CorporateInvoiceEmailData),
+    text: (data: unknown) => renderCorporateInvoiceText(data as CorporateInvoiceEmailData),
+  },
 };
 
 /**
@@ -3,10 +3,10 @@ import { InvoiceEmailData } from '../../types/email.types';
 /**
  * Formats currency amount
  */
-function formatCurrency(amount: number): string {
+function formatCurrency(amount: number, currency: string = 'INR'): string {
   return new Intl.NumberFormat('en-IN', {
     style: 'currency',
-    currency: 'INR',
+    currency: currency,
   }).format(amount);
 }
 
@@ -109,7 +109,7 @@ export function renderInvoiceHTML(data: InvoiceEmailData): string {
               <div style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); border-radius: 8px; padding: 25px; margin: 30px 0; text-align: center;">
                 <p style="color: #FFFFFF; margin: 0 0 10px 0; font-size: 14px; text-transform: uppercase; letter-spacing: 1px; opacity: 0.9;">Amount Paid</p>
                 <h2 style="color: #FFFFFF; margin: 0; font-size: 36px; font-weight: 700;">
-                  ${formatCurrency(data.paymentAmount)}
+                  ${formatCurrency(data.paymentAmount, data.currency)}
                 </h2>
               </div>
               
@@ -174,7 +174,7 @@ RESERVATION DETAILS
 Trip Name: ${tripName}
 Trip Type: ${tripTypeLabel}
 
-Amount Paid: ${formatCurrency(data.paymentAmount)}
+Amount Paid: ${formatCurrency(data.paymentAmount, data.currency)}
 
 ${data.viewReservationLink ? `View Reservation: ${data.viewReservationLink}` : ''}
 
@@ -0,0 +1,106 @@
+import { NotificationEmailData } from '../../types/email.types';
+
+/**
+ * Escapes notification text, which can contain user input such as chat messages
+ */
+export function escapeHTML(value: string): string {
+  return value
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+}
+
+/**
+ * Renders HTML version of notification email
+ * Styled with GRANDLINE theme colors
+ */
+export function renderNotificationHTML(data: NotificationEmailData): string {
+  const greeting = data.fullName ? `Hello ${escapeHTML(data.fullName)},` : 'Hello,';
+  const title = escapeHTML(data.title);
+  const message = escapeHTML(data.message);
+  const viewLink = data.viewLink || '#';
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>${title} - GRANDLINE</title>
+</head>
+<body style="font-family: 'Work Sans', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; line-height: 1.6; color: #1a1a1a; margin: 0; padding: 0; background-color: #F4F1DE;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #F4F1DE; padding: 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" style="max-width: 600px; width: 100%; background-color: #FFFFFF; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="color: #FFFFFF; margin: 0; font-size: 28px; font-weight: 600;">${title}</h1>
+              <p style="color: #FFFFFF; margin: 10px 0 0 0; font-size: 16px; opacity: 0.95;">GRANDLINE</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                ${greeting}
+              </p>
+
+              <div style="background-color: #F4F1DE; border: 2px solid #E8E5D0; border-radius: 8px; padding: 25px; margin: 30px 0;">
+                <p style="font-size: 16px; color: #1a1a1a; margin: 0; line-height: 1.8; white-space: pre-line;">${message}</p>
+              </div>
+
+              <!-- Action Button -->
+              <div style="text-align: center; margin: 35px 0;">
+                <a href="${viewLink}"
+                   style="display: inline-block; background-color: #C5630C; color: #FFFFFF; padding: 16px 40px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                  View in GRANDLINE
+                </a>
+              </div>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #E8E5D0; padding: 30px; text-align: center; border-top: 1px solid #d1d5db;">
+              <p style="font-size: 12px; color: #6b7280; margin: 0;">
+                You are receiving this email because of your notification settings. You can change them in your profile settings.
+              </p>
+              <p style="font-size: 12px; color: #9ca3af; margin: 10px 0 0 0;">
+                © ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Renders plain text version of notification email
+ */
+export function renderNotificationText(data: NotificationEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+
+  return `
+${data.title} - GRANDLINE
+
+${greeting}
+
+${data.message}
+
+${data.viewLink ? `View in GRANDLINE: ${data.viewLink}` : ''}
+
+You are receiving this email because of your notification settings. You can change them in your profile settings.
+
+© ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+  `.trim();
+}
@@ -0,0 +1,138 @@
+import { NotificationDigestEmailData } from '../../types/email.types';
+import { escapeHTML } from './notification.template';
+
+/**
+ * Formats date
+ */
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    month: 'short',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(date));
+}
+
+/**
+ * Labels a grouped notification with the number of occurrences it stands for
+ */
+function formatTitle(title: string, count: number): string {
+  return count > 1 ? `${title} (${count})` : title;
+}
+
+/**
+ * Renders HTML version of notification digest email
+ * Styled with GRANDLINE theme colors
+ */
+export function renderNotificationDigestHTML(data: NotificationDigestEmailData): string {
+  const greeting = data.fullName ? `Hello ${escapeHTML(data.fullName)},` : 'Hello,';
+  const viewLink = data.viewLink || '#';
+  const rows = data.notifications
+    .map(
+      (notification) => `
+                  <tr>
+                    <td style="padding: 12px 0; border-bottom: 1px solid #E8E5D0;">
+                      <p style="color: #1a1a1a; margin: 0; font-size: 15px; font-weight: 600;">${escapeHTML(formatTitle(notification.title, notification.count))}</p>
+                      <p style="color: #1a1a1a; margin: 4px 0 0 0; font-size: 14px;">${escapeHTML(notification.message)}</p>
+                      <p style="color: #6b7280; margin: 4px 0 0 0; font-size: 12px;">${formatDate(notification.notifiedAt)}</p>
+                    </td>
+                  </tr>`
+    )
+    .join('');
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your Daily Notification Summary - GRANDLINE</title>
+</head>
+<body style="font-family: 'Work Sans', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; line-height: 1.6; color: #1a1a1a; margin: 0; padding: 0; background-color: #F4F1DE;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #F4F1DE; padding: 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" style="max-width: 600px; width: 100%; background-color: #FFFFFF; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="color: #FFFFFF; margin: 0; font-size: 28px; font-weight: 600;">Your Daily Summary</h1>
+              <p style="color: #FFFFFF; margin: 10px 0 0 0; font-size: 16px; opacity: 0.95;">GRANDLINE</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                ${greeting}
+              </p>
+
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 30px 0; line-height: 1.8;">
+                You have ${data.unreadCount} unread notification${data.unreadCount === 1 ? '' : 's'}. Here is what happened in the last day.
+              </p>
+
+              <!-- Notifications Card -->
+              <div style="background-color: #F4F1DE; border: 2px solid #E8E5D0; border-radius: 8px; padding: 10px 25px; margin: 30px 0;">
+                <table role="presentation" style="width: 100%; border-collapse: collapse;">${rows}
+                </table>
+              </div>
+
+              <!-- Action Button -->
+              <div style="text-align: center; margin: 35px 0;">
+                <a href="${viewLink}"
+                   style="display: inline-block; background-color: #C5630C; color: #FFFFFF; padding: 16px 40px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                  View All Notifications
+                </a>
+              </div>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #E8E5D0; padding: 30px; text-align: center; border-top: 1px solid #d1d5db;">
+              <p style="font-size: 12px; color: #6b7280; margin: 0;">
+                You are receiving this email because you turned on the daily summary. You can turn it off in your notification settings.
+              </p>
+              <p style="font-size: 12px; color: #9ca3af; margin: 10px 0 0 0;">
+                © ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Renders plain text version of notification digest email
+ */
+export function renderNotificationDigestText(data: NotificationDigestEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+  const lines = data.notifications
+    .map(
+      (notification) =>
+        `- ${formatTitle(notification.title, notification.count)} (${formatDate(notification.notifiedAt)})\n  ${notification.message}`
+    )
+    .join('\n');
+
+  return `
+Your Daily Summary - GRANDLINE
+
+${greeting}
+
+You have ${data.unreadCount} unread notification${data.unreadCount === 1 ? '' : 's'}. Here is what happened in the last day.
+
+${lines}
+
+${data.viewLink ? `View All Notifications: ${data.viewLink}` : ''}
+
+You are receiving this email because you turned on the daily summary. You can turn it off in your notification settings.
+
+© ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+  `.trim();
+}
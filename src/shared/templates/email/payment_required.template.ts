@@ -35,6 +35,9 @@ export function renderPaymentRequiredHTML(data: PaymentRequiredEmailData): strin
   const viewLink = data.viewReservationLink || '#';
   const paymentLink = data.paymentLink || '#';
   const chargeTypeLabel = data.chargeType.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+  const intro =
+    data.message ||
+    'An additional charge has been added to your reservation. Please complete the payment to confirm your booking.';
 
   return `
 <!DOCTYPE html>
@@ -65,7 +68,7 @@ export function renderPaymentRequiredHTML(data: PaymentRequiredEmailData): strin
               </p>
               
               <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 30px 0; line-height: 1.8;">
-                An additional charge has been added to your reservation. Please complete the payment to confirm your booking.
+                ${intro}
               </p>
               
               <!-- Charge Details Card -->
@@ -160,13 +163,16 @@ export function renderPaymentRequiredText(data: PaymentRequiredEmailData): strin
   const tripName = data.tripName || 'Your Trip';
   const tripTypeLabel = data.tripType === 'one_way' ? 'One Way' : 'Round Trip';
   const chargeTypeLabel = data.chargeType.replace('_', ' ').replace(/\b\w/g, (l) => l.toUpperCase());
+  const intro =
+    data.message ||
+    'An additional charge has been added to your reservation. Please complete the payment to confirm your booking.';
 
   return `
 PAYMENT REQUIRED - GRANDLINE
 
 ${greeting}
 
-An additional charge has been added to your reservation. Please complete the payment to confirm your booking.
+${intro}
 
 CHARGE DETAILS:
 - Reservation Number: ${data.reservationNumber}
@@ -3,10 +3,10 @@ import { QuoteEmailData } from '../../types/email.types';
 /**
  * Formats currency amount
  */
-function formatCurrency(amount: number): string {
+function formatCurrency(amount: number, currency: string = 'INR'): string {
   return new Intl.NumberFormat('en-IN', {
     style: 'currency',
-    currency: 'INR',
+    currency: currency,
   }).format(amount);
 }
 
@@ -94,7 +94,7 @@ export function renderQuoteHTML(data: QuoteEmailData): string {
               <div style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); border-radius: 8px; padding: 25px; margin: 30px 0; text-align: center;">
                 <p style="color: #FFFFFF; margin: 0 0 10px 0; font-size: 14px; text-transform: uppercase; letter-spacing: 1px; opacity: 0.9;">Total Price</p>
                 <h2 style="color: #FFFFFF; margin: 0; font-size: 36px; font-weight: 700;">
-                  ${formatCurrency(data.totalPrice)}
+                  ${formatCurrency(data.totalPrice, data.currency)}
                 </h2>
               </div>
               
@@ -158,7 +158,7 @@ Trip Name: ${tripName}
 Trip Type: ${tripTypeLabel}
 Quote Date: ${formatDate(data.quoteDate)}
 
-Total Price: ${formatCurrency(data.totalPrice)}
+Total Price: ${formatCurrency(data.totalPrice, data.currency)}
 
 ${data.paymentLink ? `Pay Now: ${data.paymentLink}` : ''}
 ${data.viewQuoteLink ? `View Quote: ${data.viewQuoteLink}` : ''}
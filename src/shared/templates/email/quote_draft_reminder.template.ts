@@ -0,0 +1,112 @@
+import { QuoteDraftReminderEmailData } from '../../types/email.types';
+
+/**
+ * Renders HTML version of draft quote reminder email
+ * Styled with GRANDLINE theme colors
+ */
+export function renderQuoteDraftReminderHTML(data: QuoteDraftReminderEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+  const tripName = data.tripName || 'your trip';
+  const continueLink = data.continueLink || '#';
+  const progress = Math.round(((data.currentStep - 1) / data.totalSteps) * 100);
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Finish Your Quote - GRANDLINE</title>
+</head>
+<body style="font-family: 'Work Sans', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; line-height: 1.6; color: #1a1a1a; margin: 0; padding: 0; background-color: #F4F1DE;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #F4F1DE; padding: 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" style="max-width: 600px; width: 100%; background-color: #FFFFFF; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="color: #FFFFFF; margin: 0; font-size: 28px; font-weight: 600;">Finish Your Quote</h1>
+              <p style="color: #FFFFFF; margin: 10px 0 0 0; font-size: 16px; opacity: 0.95;">GRANDLINE</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                ${greeting}
+              </p>
+
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 30px 0; line-height: 1.8;">
+                You started a quote for ${tripName} but stopped at step ${data.currentStep} of ${data.totalSteps}. Everything you entered has been saved, so you can pick up right where you left off.
+              </p>
+
+              <!-- Progress Card -->
+              <div style="background-color: #F4F1DE; border: 2px solid #E8E5D0; border-radius: 8px; padding: 25px; margin: 30px 0;">
+                <p style="color: #6b7280; margin: 0 0 10px 0; font-size: 14px;">Quote ${data.quoteNumber}</p>
+                <div style="background-color: #E8E5D0; border-radius: 6px; height: 12px; overflow: hidden;">
+                  <div style="background-color: #C5630C; height: 12px; width: ${progress}%;"></div>
+                </div>
+                <p style="color: #1a1a1a; margin: 10px 0 0 0; font-size: 14px; font-weight: 600;">${progress}% complete</p>
+              </div>
+
+              <!-- Action Button -->
+              <div style="text-align: center; margin: 35px 0;">
+                <a href="${continueLink}"
+                   style="display: inline-block; background-color: #C5630C; color: #FFFFFF; padding: 16px 40px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px;">
+                  Continue Your Quote
+                </a>
+              </div>
+
+              <p style="font-size: 14px; color: #6b7280; margin: 30px 0 0 0; line-height: 1.8;">
+                Need help planning your trip? Reach out to our support team and we will be happy to assist.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #E8E5D0; padding: 30px; text-align: center; border-top: 1px solid #d1d5db;">
+              <p style="font-size: 12px; color: #6b7280; margin: 0;">
+                This is an automated message from GRANDLINE. You can turn off quote reminders in your profile settings.
+              </p>
+              <p style="font-size: 12px; color: #9ca3af; margin: 10px 0 0 0;">
+                © ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Renders plain text version of draft quote reminder email
+ */
+export function renderQuoteDraftReminderText(data: QuoteDraftReminderEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+  const tripName = data.tripName || 'your trip';
+
+  return `
+Finish Your Quote - GRANDLINE
+
+${greeting}
+
+You started a quote for ${tripName} but stopped at step ${data.currentStep} of ${data.totalSteps}. Everything you entered has been saved, so you can pick up right where you left off.
+
+Quote Number: ${data.quoteNumber}
+
+${data.continueLink ? `Continue Your Quote: ${data.continueLink}` : ''}
+
+Need help planning your trip? Reach out to our support team and we will be happy to assist.
+
+This is an automated message from GRANDLINE. You can turn off quote reminders in your profile settings.
+
+© ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+  `.trim();
+}
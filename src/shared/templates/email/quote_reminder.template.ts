@@ -0,0 +1,174 @@
+import { QuoteReminderEmailData } from '../../types/email.types';
+
+/**
+ * Formats currency amount
+ */
+function formatCurrency(amount: number, currency: string = 'INR'): string {
+  return new Intl.NumberFormat('en-IN', {
+    style: 'currency',
+    currency: currency,
+  }).format(amount);
+}
+
+/**
+ * Formats date
+ */
+function formatDate(date: Date): string {
+  return new Intl.DateTimeFormat('en-US', {
+    year: 'numeric',
+    month: 'long',
+    day: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  }).format(new Date(date));
+}
+
+/**
+ * Formats the time left in the payment window
+ */
+function formatHoursLeft(hoursLeft: number): string {
+  return hoursLeft === 1 ? '1 hour' : `${hoursLeft} hours`;
+}
+
+/**
+ * Renders HTML version of quote reminder email
+ * Styled with GRANDLINE theme colors
+ */
+export function renderQuoteReminderHTML(data: QuoteReminderEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+  const tripName = data.tripName || 'Your Trip';
+  const tripTypeLabel = data.tripType === 'one_way' ? 'One Way' : 'Round Trip';
+  const viewLink = data.viewQuoteLink || '#';
+  const paymentLink = data.paymentLink || '#';
+
+  return `
+<!DOCTYPE html>
+<html lang="en">
+<head>
+  <meta charset="UTF-8">
+  <meta name="viewport" content="width=device-width, initial-scale=1.0">
+  <title>Your Quotation Expires Soon - GRANDLINE</title>
+</head>
+<body style="font-family: 'Work Sans', system-ui, -apple-system, BlinkMacSystemFont, 'Segoe UI', Roboto, Oxygen, Ubuntu, Cantarell, sans-serif; line-height: 1.6; color: #1a1a1a; margin: 0; padding: 0; background-color: #F4F1DE;">
+  <table role="presentation" style="width: 100%; border-collapse: collapse; background-color: #F4F1DE; padding: 20px;">
+    <tr>
+      <td align="center">
+        <table role="presentation" style="max-width: 600px; width: 100%; background-color: #FFFFFF; border-radius: 12px; overflow: hidden; box-shadow: 0 4px 6px rgba(0, 0, 0, 0.1);">
+          <!-- Header -->
+          <tr>
+            <td style="background: linear-gradient(135deg, #C5630C 0%, #b5590b 100%); padding: 40px 30px; text-align: center;">
+              <h1 style="color: #FFFFFF; margin: 0; font-size: 28px; font-weight: 600;">Your Quotation Expires Soon</h1>
+              <p style="color: #FFFFFF; margin: 10px 0 0 0; font-size: 16px; opacity: 0.95;">GRANDLINE</p>
+            </td>
+          </tr>
+
+          <!-- Content -->
+          <tr>
+            <td style="padding: 40px 30px;">
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 20px 0;">
+                ${greeting}
+              </p>
+
+              <p style="font-size: 16px; color: #1a1a1a; margin: 0 0 30px 0; line-height: 1.8;">
+                Your quotation is held for another ${formatHoursLeft(data.hoursLeft)}. Complete the payment before it expires to keep the assigned driver and vehicles for your trip.
+              </p>
+
+              <!-- Quote Details Card -->
+              <div style="background-color: #F4F1DE; border: 2px solid #E8E5D0; border-radius: 8px; padding: 25px; margin: 30px 0;">
+                <h2 style="color: #C5630C; margin: 0 0 20px 0; font-size: 20px; font-weight: 600;">Quote Details</h2>
+
+                <table role="presentation" style="width: 100%; border-collapse: collapse;">
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px; width: 40%;">Quote Number:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${data.quoteNumber}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Trip Name:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${tripName}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Trip Type:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${tripTypeLabel}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Total Price:</td>
+                    <td style="padding: 8px 0; color: #C5630C; font-size: 18px; font-weight: 700;">${formatCurrency(data.totalPrice, data.currency)}</td>
+                  </tr>
+                  <tr>
+                    <td style="padding: 8px 0; color: #6b7280; font-size: 14px;">Expires At:</td>
+                    <td style="padding: 8px 0; color: #1a1a1a; font-size: 14px; font-weight: 600;">${formatDate(data.expiresAt)}</td>
+                  </tr>
+                </table>
+              </div>
+
+              <!-- Action Buttons -->
+              <div style="text-align: center; margin: 35px 0;">
+                <a href="${paymentLink}"
+                   style="display: inline-block; background-color: #C5630C; color: #FFFFFF; padding: 16px 40px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; margin: 0 10px 10px 0;">
+                  Pay Now
+                </a>
+                <a href="${viewLink}"
+                   style="display: inline-block; background-color: #FFFFFF; color: #C5630C; padding: 16px 40px; text-decoration: none; border-radius: 8px; font-weight: 600; font-size: 16px; border: 2px solid #C5630C; margin: 0 10px 10px 0;">
+                  View Quote Details
+                </a>
+              </div>
+
+              <p style="font-size: 14px; color: #6b7280; margin: 30px 0 0 0; line-height: 1.8;">
+                Once the quotation expires the driver and vehicles are released and the trip has to be quoted again at current prices.
+              </p>
+            </td>
+          </tr>
+
+          <!-- Footer -->
+          <tr>
+            <td style="background-color: #E8E5D0; padding: 30px; text-align: center; border-top: 1px solid #d1d5db;">
+              <p style="font-size: 12px; color: #6b7280; margin: 0;">
+                This is an automated message from GRANDLINE. You can turn off quote reminders in your profile settings.
+              </p>
+              <p style="font-size: 12px; color: #9ca3af; margin: 10px 0 0 0;">
+                © ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+              </p>
+            </td>
+          </tr>
+        </table>
+      </td>
+    </tr>
+  </table>
+</body>
+</html>
+  `.trim();
+}
+
+/**
+ * Renders plain text version of quote reminder email
+ */
+export function renderQuoteReminderText(data: QuoteReminderEmailData): string {
+  const greeting = data.fullName ? `Hello ${data.fullName},` : 'Hello,';
+  const tripName = data.tripName || 'Your Trip';
+  const tripTypeLabel = data.tripType === 'one_way' ? 'One Way' : 'Round Trip';
+
+  return `
+Your Quotation Expires Soon - GRANDLINE
+
+${greeting}
+
+Your quotation is held for another ${formatHoursLeft(data.hoursLeft)}. Complete the payment before it expires to keep the assigned driver and vehicles for your trip.
+
+QUOTE DETAILS
+-------------
+Quote Number: ${data.quoteNumber}
+Trip Name: ${tripName}
+Trip Type: ${tripTypeLabel}
+Total Price: ${formatCurrency(data.totalPrice, data.currency)}
+Expires At: ${formatDate(data.expiresAt)}
+
+${data.paymentLink ? `Pay Now: ${data.paymentLink}` : ''}
+${data.viewQuoteLink ? `View Quote: ${data.viewQuoteLink}` : ''}
+
+Once the quotation expires the driver and vehicles are released and the trip has to be quoted again at current prices.
+
+This is an automated message from GRANDLINE. You can turn off quote reminders in your profile settings.
+
+© ${new Date().getFullYear()} GRANDLINE. All rights reserved.
+  `.trim();
+}
@@ -0,0 +1,134 @@
+import {
+  CorporateAccount,
+  CorporateAccountStatus,
+  ICorporateAccountMember,
+} from '../../../domain/entities/corporate_account.entity';
+import { CorporateBooking, CorporateBookingStatus } from '../../../domain/entities/corporate_booking.entity';
+import {
+  CorporateInvoice,
+  CorporateInvoiceStatus,
+  ICorporateInvoiceLineItem,
+} from '../../../domain/entities/corporate_invoice.entity';
+import { v4 as uuidv4 } from 'uuid';
+
+/**
+ * Test fixture factories for CorporateAccount, CorporateBooking and CorporateInvoice entities
+ * Provides helper functions to create corporate billing instances for testing
+ */
+
+interface CorporateAccountFixtureOptions {
+  corporateAccountId?: string;
+  name?: string;
+  creditLimit?: number;
+  currency?: string;
+  paymentTermsDays?: number;
+  members?: ICorporateAccountMember[];
+  status?: CorporateAccountStatus;
+  approvalThreshold?: number;
+  creditVersion?: number;
+}
+
+interface CorporateBookingFixtureOptions {
+  corporateBookingId?: string;
+  corporateAccountId?: string;
+  quoteId?: string;
+  requestedBy?: string;
+  amount?: number;
+  currency?: string;
+  status?: CorporateBookingStatus;
+  reservationId?: string;
+  paymentId?: string;
+  bookedAt?: Date;
+  invoiceId?: string;
+  createdAt?: Date;
+}
+
+interface CorporateInvoiceFixtureOptions {
+  invoiceId?: string;
+  invoiceNumber?: string;
+  corporateAccountId?: string;
+  lineItems?: ICorporateInvoiceLineItem[];
+  totalAmount?: number;
+  currency?: string;
+  status?: CorporateInvoiceStatus;
+  dueAt?: Date;
+}
+
+/**
+ * Creates a CorporateAccount fixture with one admin and one booker
+ * Override specific properties as needed for your test
+ */
+export function createCorporateAccountFixture(options: CorporateAccountFixtureOptions = {}): CorporateAccount {
+  const now = new Date();
+
+  return new CorporateAccount(
+    options.corporateAccountId || 'account-1',
+    options.name || 'Acme School',
+    { name: 'Finance Office', email: 'finance@acme.test' },
+    options.creditLimit ?? 100000,
+    options.currency || 'INR',
+    options.paymentTermsDays ?? 30,
+    options.members || [
+      { userId: 'account-admin-1', role: 'admin', addedAt: now },
+      { userId: 'booker-1', role: 'booker', addedAt: now },
+    ],
+    options.status || 'active',
+    'platform-admin',
+    now,
+    now,
+    options.approvalThreshold,
+    undefined,
+    undefined,
+    options.creditVersion ?? 0
+  );
+}
+
+/**
+ * Creates a CorporateBooking fixture, waiting for approval unless a status is given
+ * Booked bookings get a reservation and payment unless overridden
+ */
+export function createCorporateBookingFixture(options: CorporateBookingFixtureOptions = {}): CorporateBooking {
+  const now = new Date();
+  const corporateBookingId = options.corporateBookingId || uuidv4();
+  const status = options.status || 'pending_approval';
+  const isBooked = status === 'booked';
+
+  return new CorporateBooking(
+    corporateBookingId,
+    options.corporateAccountId || 'account-1',
+    options.quoteId || `quote-${corporateBookingId}`,
+    options.requestedBy || 'booker-1',
+    options.amount ?? 10000,
+    options.currency || 'INR',
+    status,
+    options.createdAt || now,
+    now,
+    options.reservationId ?? (isBooked ? `reservation-${corporateBookingId}` : undefined),
+    options.paymentId ?? (isBooked ? `payment-${corporateBookingId}` : undefined),
+    options.bookedAt ?? (isBooked ? now : undefined),
+    options.invoiceId
+  );
+}
+
+/**
+ * Creates an issued CorporateInvoice fixture for January 2030
+ */
+export function createCorporateInvoiceFixture(options: CorporateInvoiceFixtureOptions = {}): CorporateInvoice {
+  const now = new Date();
+
+  return new CorporateInvoice(
+    options.invoiceId || uuidv4(),
+    options.invoiceNumber || 'INV-0001',
+    options.corporateAccountId || 'account-1',
+    new Date('2030-01-01T00:00:00Z'),
+    new Date('2030-01-31T23:59:59.999Z'),
+    options.lineItems || [],
+    options.totalAmount ?? 10000,
+    options.currency || 'INR',
+    options.status || 'issued',
+    new Date('2030-02-01T00:00:00Z'),
+    options.dueAt || new Date('2030-03-03T00:00:00Z'),
+    now,
+    now
+  );
+}
@@ -1,4 +1,4 @@
-import { Quote } from '../../../domain/entities/quote.entity';
+import { IQuotePricingVersion, Quote } from '../../../domain/entities/quote.entity';
 import { QuoteStatus, TripType } from '../../../shared/constants';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -35,6 +35,10 @@ interface QuoteFixtureOptions {
   pricingLastUpdatedAt?: Date;
   quotedAt?: Date;
   isDeleted?: boolean;
+  currency?: string;
+  promoCode?: string;
+  pricingVersions?: IQuotePricingVersion[];
+  requotedFromQuoteId?: string;
   createdAt?: Date;
   updatedAt?: Date;
 }
@@ -70,7 +74,11 @@ export function createQuoteFixture(options: QuoteFixtureOptions = {}): Quote {
     options.actualDriverRate,
     options.pricingLastUpdatedAt,
     options.quotedAt,
-    options.isDeleted || false
+    options.isDeleted || false,
+    options.currency,
+    options.promoCode,
+    options.pricingVersions,
+    options.requotedFromQuoteId
   );
 }
 
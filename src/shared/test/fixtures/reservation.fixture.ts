@@ -1,4 +1,4 @@
-import { Reservation } from '../../../domain/entities/reservation.entity';
+import { IPaymentSchedule, Reservation } from '../../../domain/entities/reservation.entity';
 import { ReservationStatus, TripType } from '../../../shared/constants';
 import { v4 as uuidv4 } from 'uuid';
 
@@ -31,6 +31,7 @@ interface ReservationFixtureOptions {
   refundedAt?: Date;
   cancellationReason?: string;
   cancelledAt?: Date;
+  paymentSchedule?: IPaymentSchedule;
   reservationDate?: Date;
   createdAt?: Date;
   updatedAt?: Date;
@@ -50,10 +51,10 @@ export function createReservationFixture(options: ReservationFixtureOptions = {}
 
   return new Reservation(
     reservationId,
-    reservationNumber,
     userId,
     quoteId,
     paymentId,
+    reservationNumber,
     options.tripType || TripType.ONE_WAY,
     options.status || ReservationStatus.CONFIRMED,
     options.reservationDate || now,
@@ -75,7 +76,13 @@ export function createReservationFixture(options: ReservationFixtureOptions = {}
     options.refundedAmount,
     options.refundedAt,
     options.cancellationReason,
-    options.cancelledAt
+    options.cancelledAt,
+    undefined, // startedAt
+    undefined, // completedAt
+    undefined, // driverReport
+    undefined, // cancellationPolicyId
+    undefined, // cancellationPolicyVersion
+    options.paymentSchedule
   );
 }
 
@@ -1,5 +1,5 @@
 import { User } from '../../../domain/entities/user.entity';
-import { UserRole, UserStatus } from '../../../shared/constants';
+import { AdminRole, UserRole, UserStatus } from '../../../shared/constants';
 import { v4 as uuidv4 } from 'uuid';
 
 /**
@@ -17,6 +17,8 @@ interface UserFixtureOptions {
   isEmailVerified?: boolean;
   createdAt?: Date;
   updatedAt?: Date;
+  quoteFollowUpEmails?: boolean;
+  adminRole?: AdminRole;
 }
 
 /**
@@ -38,7 +40,12 @@ export function createUserFixture(options: UserFixtureOptions = {}): User {
     options.isEmailVerified !== undefined ? options.isEmailVerified : true,
     options.createdAt || now,
     options.updatedAt || now,
-    options.phoneNumber
+    options.phoneNumber,
+    undefined, // password
+    undefined, // googleId
+    false, // isDeleted
+    options.quoteFollowUpEmails !== undefined ? options.quoteFollowUpEmails : true,
+    options.adminRole
   );
 }
 
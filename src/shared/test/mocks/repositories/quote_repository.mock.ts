@@ -26,6 +26,9 @@ export class MockQuoteRepository implements IQuoteRepository {
   findActiveQuotesByUserId = vi.fn<[string], Promise<Quote[]>>().mockResolvedValue([]);
   findAllQuotesByUserId = vi.fn<[string], Promise<Quote[]>>().mockResolvedValue([]);
   softDelete = vi.fn<[string], Promise<void>>().mockResolvedValue(undefined);
+  clearPromoCode = vi.fn<[string], Promise<void>>().mockResolvedValue(undefined);
+  findByRequotedFromQuoteId = vi.fn<[string], Promise<Quote | null>>().mockResolvedValue(null);
+  createRequote = vi.fn<[Quote], Promise<boolean>>().mockResolvedValue(true);
   findByTripType = vi.fn<[TripType], Promise<Quote[]>>().mockResolvedValue([]);
   findByQuoteNumber = vi.fn<[string], Promise<Quote[] | null>>().mockResolvedValue(null);
   findAllForAdmin = vi.fn<
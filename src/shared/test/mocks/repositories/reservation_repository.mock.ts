@@ -28,6 +28,7 @@ export class MockReservationRepository implements IReservationRepository {
     .fn<[string, number, number], Promise<{ reservations: Reservation[]; total: number }>>()
     .mockResolvedValue({ reservations: [], total: 0 });
   findByStatus = vi.fn<[ReservationStatus], Promise<Reservation[]>>().mockResolvedValue([]);
+  findByIds = vi.fn<[string[]], Promise<Reservation[]>>().mockResolvedValue([]);
   findByUserIdAndStatus = vi.fn<[string, ReservationStatus], Promise<Reservation[]>>().mockResolvedValue([]);
   findByAssignedDriverId = vi.fn<[string], Promise<Reservation[]>>().mockResolvedValue([]);
   findAllForAdmin = vi
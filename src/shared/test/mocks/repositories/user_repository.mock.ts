@@ -1,7 +1,7 @@
 import { vi } from 'vitest';
 import { IUserRepository } from '../../../../domain/repositories/user_repository.interface';
 import { User } from '../../../../domain/entities/user.entity';
-import { UserRole, UserStatus } from '../../../../shared/constants';
+import { AdminRole, UserRole, UserStatus } from '../../../../shared/constants';
 
 /**
  * Mock implementation of IUserRepository
@@ -19,7 +19,7 @@ export class MockUserRepository implements IUserRepository {
   updatePassword = vi.fn<[string, string], Promise<void>>().mockResolvedValue(undefined);
   linkGoogleAccount = vi.fn<[string, string], Promise<User>>().mockRejectedValue(new Error('Not implemented'));
   updateUserProfile = vi
-    .fn<[string, { fullName?: string; phoneNumber?: string; profilePicture?: string }], Promise<User>>()
+    .fn<[string, { fullName?: string; phoneNumber?: string; profilePicture?: string; quoteFollowUpEmails?: boolean }], Promise<User>>()
     .mockRejectedValue(new Error('Not implemented'));
   findRegularUsersWithFilters = vi
     .fn<
@@ -38,7 +38,7 @@ export class MockUserRepository implements IUserRepository {
     >()
     .mockResolvedValue({ users: [], total: 0 });
   updateUserStatus = vi.fn<[string, UserStatus], Promise<User>>().mockRejectedValue(new Error('Not implemented'));
-  updateUserRole = vi.fn<[string, UserRole], Promise<User>>().mockRejectedValue(new Error('Not implemented'));
+  updateUserRole = vi.fn<[string, UserRole, AdminRole?], Promise<User>>().mockRejectedValue(new Error('Not implemented'));
   getUserStatistics = vi
     .fn<[({ startDate?: Date; endDate?: Date } | undefined)?], Promise<{
       totalUsers: number;
@@ -0,0 +1,19 @@
+import { vi } from 'vitest';
+import { IWebhookEventRepository } from '../../../../domain/repositories/webhook_event_repository.interface';
+import { WebhookEvent, WebhookEventStatus } from '../../../../domain/entities/webhook_event.entity';
+
+/**
+ * Mock implementation of IWebhookEventRepository
+ * Use this in unit tests to avoid database dependencies
+ */
+export class MockWebhookEventRepository implements IWebhookEventRepository {
+  findById = vi.fn<[string], Promise<WebhookEvent | null>>().mockResolvedValue(null);
+  create = vi.fn<[WebhookEvent], Promise<void>>().mockResolvedValue(undefined);
+  updateById = vi.fn<[string, Partial<WebhookEvent>], Promise<void>>().mockResolvedValue(undefined);
+  deleteById = vi.fn<[string], Promise<void>>().mockResolvedValue(undefined);
+  createIfAbsent = vi.fn<[WebhookEvent], Promise<boolean>>().mockResolvedValue(true);
+  claimForProcessing = vi.fn<[string, WebhookEventStatus[], Date], Promise<boolean>>().mockResolvedValue(true);
+  markProcessed = vi.fn<[string, Date], Promise<void>>().mockResolvedValue(undefined);
+  markFailed = vi.fn<[string, string], Promise<void>>().mockResolvedValue(undefined);
+  findAll = vi.fn<[{ status?: WebhookEventStatus; type?: string }?], Promise<WebhookEvent[]>>().mockResolvedValue([]);
+}
@@ -0,0 +1,25 @@
+import { vi } from 'vitest';
+import {
+  IPaymentGateway,
+  IGatewayPaymentIntent,
+  ICreatePaymentIntentParams,
+  ICreateRefundParams,
+  IGatewayRefund,
+  IPaymentWebhookEvent,
+} from '../../../../domain/services/payment_gateway.interface';
+import { PaymentMethod } from '../../../../domain/entities/payment.entity';
+
+/**
+ * Mock implementation of IPaymentGateway
+ * Use this in unit tests to avoid calling a real payment processor
+ */
+export class MockPaymentGateway implements IPaymentGateway {
+  readonly paymentMethod = PaymentMethod.STRIPE;
+  createPaymentIntent = vi.fn<[ICreatePaymentIntentParams], Promise<IGatewayPaymentIntent>>();
+  retrievePaymentIntent = vi.fn<[string], Promise<IGatewayPaymentIntent>>();
+  capturePaymentIntent = vi.fn<[string, number?], Promise<IGatewayPaymentIntent>>();
+  cancelPaymentIntent = vi.fn<[string], Promise<IGatewayPaymentIntent>>();
+  createRefund = vi.fn<[ICreateRefundParams], Promise<IGatewayRefund>>();
+  listRefunds = vi.fn<[string], Promise<IGatewayRefund[]>>().mockResolvedValue([]);
+  constructWebhookEvent = vi.fn<[string | Buffer, string], IPaymentWebhookEvent>();
+}
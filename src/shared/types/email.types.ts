@@ -10,6 +10,13 @@ export enum EmailType {
   REFUND_CONFIRMATION = 'REFUND_CONFIRMATION',
   PAYMENT_REQUIRED = 'PAYMENT_REQUIRED',
   CANCELLATION_WITH_REFUND = 'CANCELLATION_WITH_REFUND',
+  CORPORATE_INVOICE = 'CORPORATE_INVOICE',
+  QUOTE_REMINDER = 'QUOTE_REMINDER',
+  QUOTE_EXPIRED = 'QUOTE_EXPIRED',
+  QUOTE_DRAFT_REMINDER = 'QUOTE_DRAFT_REMINDER',
+  NOTIFICATION = 'NOTIFICATION',
+  NOTIFICATION_DIGEST = 'NOTIFICATION_DIGEST',
+  ACCOUNT_LOCKED = 'ACCOUNT_LOCKED',
 }
 
 /**
@@ -45,11 +52,88 @@ export interface QuoteEmailData {
   tripName?: string;
   tripType: string;
   totalPrice: number;
+  currency?: string;
   quoteDate: Date;
   viewQuoteLink?: string;
   paymentLink?: string;
 }
 
+/**
+ * Quote reminder email data interface
+ * Contains all data needed to remind a customer that the payment window of their quote is closing
+ */
+export interface QuoteReminderEmailData {
+  email: string;
+  fullName?: string;
+  quoteNumber: string;
+  tripName?: string;
+  tripType: string;
+  totalPrice: number;
+  currency?: string;
+  expiresAt: Date;
+  hoursLeft: number;
+  viewQuoteLink?: string;
+  paymentLink?: string;
+}
+
+/**
+ * Quote expired email data interface
+ * Contains all data needed to tell a customer their quote expired and offer a requote
+ */
+export interface QuoteExpiredEmailData {
+  email: string;
+  fullName?: string;
+  quoteNumber: string;
+  tripName?: string;
+  tripType: string;
+  expiredAt: Date;
+  requoteLink?: string;
+  viewQuoteLink?: string;
+}
+
+/**
+ * Draft quote reminder email data interface
+ * Contains all data needed to nudge a customer who left a quote unfinished
+ */
+export interface QuoteDraftReminderEmailData {
+  email: string;
+  fullName?: string;
+  quoteNumber: string;
+  tripName?: string;
+  currentStep: number;
+  totalSteps: number;
+  continueLink?: string;
+}
+
+/**
+ * Notification email data interface
+ * Contains all data needed to deliver an in-app notification by email
+ */
+export interface NotificationEmailData {
+  email: string;
+  fullName?: string;
+  title: string;
+  message: string;
+  viewLink?: string;
+}
+
+/**
+ * Notification digest email data interface
+ * Contains the unread notifications of the last day for the daily digest email
+ */
+export interface NotificationDigestEmailData {
+  email: string;
+  fullName?: string;
+  unreadCount: number; // All unread notifications, including older ones
+  notifications: Array<{
+    title: string;
+    message: string;
+    count: number;
+    notifiedAt: Date; // Latest roll-up of a grouped notification
+  }>;
+  viewLink?: string;
+}
+
 /**
  * Invoice email data interface
  * Contains all data needed to send an invoice email
@@ -60,6 +144,7 @@ export interface InvoiceEmailData {
   reservationNumber: string;
   invoiceNumber: string;
   paymentAmount: number;
+  currency?: string;
   paymentDate: Date;
   paymentMethod: string;
   tripName?: string;
@@ -94,7 +179,7 @@ export interface PaymentRequiredEmailData {
   email: string;
   fullName?: string;
   reservationNumber: string;
-  chargeId: string;
+  chargeId?: string; // Not set for balance reminders of deposit bookings
   chargeDescription: string;
   amount: number;
   currency: string;
@@ -104,6 +189,7 @@ export interface PaymentRequiredEmailData {
   paymentLink?: string;
   viewReservationLink?: string;
   dueDate?: Date;
+  message?: string; // Replaces the opening paragraph
 }
 
 /**
@@ -126,3 +212,30 @@ export interface CancellationWithRefundEmailData {
   isFullRefund: boolean;
 }
 
+/**
+ * Corporate invoice email data interface
+ * Contains all data needed to send a monthly invoice to a corporate billing contact
+ */
+export interface CorporateInvoiceEmailData {
+  email: string;
+  fullName?: string;
+  accountName: string;
+  invoiceNumber: string;
+  periodStart: Date;
+  periodEnd: Date;
+  reservationCount: number;
+  totalAmount: number;
+  currency: string;
+  dueDate: Date;
+  paymentTermsDays: number;
+}
+
+/**
+ * Account locked email data interface
+ * Contains all data needed to tell an account owner their sign-in was locked after repeated failures
+ */
+export interface AccountLockedEmailData {
+  email: string;
+  fullName?: string;
+  lockedUntil: Date;
+}
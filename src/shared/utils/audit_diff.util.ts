@@ -0,0 +1,40 @@
+import { AuditChange } from '../../domain/entities/audit_log.entity';
+
+/**
+ * Fields never written to the audit log
+ * Secrets must not leak into it and bookkeeping timestamps change on every write
+ */
+const IGNORED_FIELDS = new Set(['password', 'passwordHash', 'updatedAt', '_id', '__v']);
+
+/**
+ * Converts a state snapshot to plain JSON values (dates become ISO strings, class instances plain objects)
+ */
+function toPlain(snapshot: object | null | undefined): Record<string, unknown> {
+  if (!snapshot) {
+    return {};
+  }
+  return JSON.parse(JSON.stringify(snapshot)) as Record<string, unknown>;
+}
+
+/**
+ * Lists the top-level fields that differ between two snapshots of the same entity
+ * A missing `before` records a creation (every field is new), a missing `after` a deletion
+ */
+export function diffSnapshots(before: object | null | undefined, after: object | null | undefined): AuditChange[] {
+  const previous = toPlain(before);
+  const next = toPlain(after);
+  const fields = new Set([...Object.keys(previous), ...Object.keys(next)]);
+  const changes: AuditChange[] = [];
+
+  for (const field of fields) {
+    if (IGNORED_FIELDS.has(field)) {
+      continue;
+    }
+    if (JSON.stringify(previous[field]) === JSON.stringify(next[field])) {
+      continue;
+    }
+    changes.push({ field, before: previous[field], after: next[field] });
+  }
+
+  return changes;
+}
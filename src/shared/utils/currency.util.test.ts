@@ -0,0 +1,23 @@
+import { describe, it, expect } from 'vitest';
+import { normalizeCurrency, roundCurrencyAmount, toMajorUnits, toMinorUnits } from './currency.util';
+
+describe('currency.util', () => {
+  it('should normalize codes to upper case and fall back to the default currency', () => {
+    expect(normalizeCurrency('usd')).toBe('USD');
+    expect(normalizeCurrency(' eur ')).toBe('EUR');
+    expect(normalizeCurrency(undefined)).toBe('INR');
+    expect(normalizeCurrency('')).toBe('INR');
+  });
+
+  it('should convert two-decimal currencies to and from minor units', () => {
+    expect(toMinorUnits(1234.56, 'INR')).toBe(123456);
+    expect(toMajorUnits(123456, 'inr')).toBe(1234.56);
+    expect(roundCurrencyAmount(10.006, 'USD')).toBe(10.01);
+  });
+
+  it('should leave zero-decimal currencies in whole units', () => {
+    expect(toMinorUnits(1500.4, 'JPY')).toBe(1500);
+    expect(toMajorUnits(1500, 'jpy')).toBe(1500);
+    expect(roundCurrencyAmount(1500.6, 'KRW')).toBe(1501);
+  });
+});
@@ -0,0 +1,50 @@
+import { CURRENCY_CONFIG } from '../constants';
+
+/**
+ * Normalizes a currency code to upper-case ISO 4217, falling back to the default currency
+ */
+export function normalizeCurrency(currency?: string | null): string {
+  const code = currency?.trim().toUpperCase();
+  return code ? code : CURRENCY_CONFIG.DEFAULT_CURRENCY;
+}
+
+/**
+ * Checks if a currency has no minor unit (e.g. JPY)
+ */
+export function isZeroDecimalCurrency(currency: string): boolean {
+  return CURRENCY_CONFIG.ZERO_DECIMAL_CURRENCIES.includes(normalizeCurrency(currency));
+}
+
+/**
+ * Rounds a major-unit amount to the precision of its currency
+ */
+export function roundCurrencyAmount(amount: number, currency: string): number {
+  if (isZeroDecimalCurrency(currency)) {
+    return Math.round(amount);
+  }
+  return Math.round(amount * 100) / 100;
+}
+
+/**
+ * Converts a major-unit amount to the smallest unit of its currency (paise, cents, or yen itself)
+ */
+export function toMinorUnits(amount: number, currency: string): number {
+  return isZeroDecimalCurrency(currency) ? Math.round(amount) : Math.round(amount * 100);
+}
+
+/**
+ * Converts an amount in the smallest unit of its currency back to major units
+ */
+export function toMajorUnits(amount: number, currency: string): number {
+  return isZeroDecimalCurrency(currency) ? amount : amount / 100;
+}
+
+/**
+ * Formats a major-unit amount for display, e.g. ₹1,234.50 or $1,234.50
+ */
+export function formatCurrency(amount: number, currency?: string | null, locale: string = 'en-IN'): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'currency',
+    currency: normalizeCurrency(currency),
+  }).format(amount);
+}
@@ -0,0 +1,115 @@
+import { describe, it, expect } from 'vitest';
+import { buildDepositPlan, findTripPayments, splitRefundAcrossPayments } from './payment_plan.util';
+import { MockPaymentRepository } from '../test/mocks/repositories/payment_repository.mock';
+import {
+  createFailedPaymentFixture,
+  createPaymentFixture,
+  createSucceededPaymentFixture,
+} from '../test/fixtures/payment.fixture';
+import { createConfirmedReservationFixture } from '../test/fixtures/reservation.fixture';
+import { PaymentStatus } from '../../domain/entities/payment.entity';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+describe('payment_plan.util', () => {
+  const now = new Date('2030-01-01T10:00:00Z');
+  const tripStartAt = new Date(now.getTime() + 60 * ONE_DAY_MS);
+
+  describe('buildDepositPlan', () => {
+    it('should split a large group booking into a deposit and a balance due before departure', () => {
+      expect(buildDepositPlan(1000.05, 'USD', 40, tripStartAt, now)).toEqual({
+        depositPercentage: 30,
+        depositAmount: 300.02,
+        balanceAmount: 700.03,
+        balanceDueAt: new Date(tripStartAt.getTime() - 14 * ONE_DAY_MS),
+      });
+    });
+
+    it('should round the deposit to whole units for zero-decimal currencies', () => {
+      expect(buildDepositPlan(10001, 'JPY', 40, tripStartAt, now)).toMatchObject({
+        depositAmount: 3000,
+        balanceAmount: 7001,
+      });
+    });
+
+    it('should require full payment from small groups', () => {
+      expect(buildDepositPlan(1000, 'USD', 29, tripStartAt, now)).toBeNull();
+      expect(buildDepositPlan(1000, 'USD', undefined, tripStartAt, now)).toBeNull();
+    });
+
+    it('should require full payment once the balance due date has passed', () => {
+      const soon = new Date(now.getTime() + 14 * ONE_DAY_MS);
+
+      expect(buildDepositPlan(1000, 'USD', 40, soon, now)).toBeNull();
+    });
+  });
+
+  describe('splitRefundAcrossPayments', () => {
+    const deposit = { paymentId: 'deposit', amount: 300 };
+    const balance = { paymentId: 'balance', amount: 700 };
+
+    it('should refund the deposit first and take the rest from the balance payment', () => {
+      expect(splitRefundAcrossPayments([deposit, balance], 0, 1000, 'USD')).toEqual([
+        { payment: deposit, amount: 300, fullyRefunded: true },
+        { payment: balance, amount: 700, fullyRefunded: true },
+      ]);
+    });
+
+    it('should take earlier refunds out of the payments in order', () => {
+      expect(splitRefundAcrossPayments([deposit, balance], 350, 400, 'USD')).toEqual([
+        { payment: balance, amount: 400, fullyRefunded: false },
+      ]);
+    });
+
+    it('should never refund more than was paid', () => {
+      expect(splitRefundAcrossPayments([deposit, balance], 900, 500, 'USD')).toEqual([
+        { payment: balance, amount: 100, fullyRefunded: true },
+      ]);
+      expect(splitRefundAcrossPayments([deposit], 300, 100, 'USD')).toEqual([]);
+    });
+
+    it('should round each share to the currency', () => {
+      const shares = splitRefundAcrossPayments(
+        [
+          { paymentId: 'deposit', amount: 300.1 },
+          { paymentId: 'balance', amount: 700.2 },
+        ],
+        0.05,
+        1000.25,
+        'USD'
+      );
+
+      expect(shares.map((share) => share.amount)).toEqual([300.05, 700.2]);
+      expect(shares.every((share) => share.fullyRefunded)).toBe(true);
+    });
+  });
+
+  describe('findTripPayments', () => {
+    it('should return the paid and refunded payments of the trip price in order', async () => {
+      const deposit = createPaymentFixture({ paymentId: 'deposit', status: PaymentStatus.REFUNDED });
+      const balance = createSucceededPaymentFixture({ paymentId: 'balance' });
+      const paymentRepository = new MockPaymentRepository();
+      paymentRepository.findById.mockImplementation((paymentId: string) =>
+        Promise.resolve(
+          { deposit, balance, retry: createFailedPaymentFixture({ paymentId: 'retry' }) }[paymentId] ?? null
+        )
+      );
+      const reservation = createConfirmedReservationFixture({
+        paymentId: 'deposit',
+        paymentSchedule: {
+          totalAmount: 1000,
+          currency: 'USD',
+          depositPercentage: 30,
+          installments: [
+            { kind: 'deposit', amount: 300, dueAt: now, status: 'paid', paymentId: 'deposit' },
+            { kind: 'balance', amount: 700, dueAt: now, status: 'paid', paymentId: 'balance' },
+            { kind: 'balance', amount: 700, dueAt: now, status: 'paid', paymentId: 'retry' },
+            { kind: 'balance', amount: 700, dueAt: now, status: 'paid', paymentId: 'missing' },
+          ],
+        },
+      });
+
+      await expect(findTripPayments(reservation, paymentRepository)).resolves.toEqual([deposit, balance]);
+    });
+  });
+});
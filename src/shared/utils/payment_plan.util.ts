@@ -0,0 +1,112 @@
+import { PAYMENT_PLAN_CONFIG } from '../config';
+import { Payment } from '../../domain/entities/payment.entity';
+import { Reservation } from '../../domain/entities/reservation.entity';
+import { IPaymentRepository } from '../../domain/repositories/payment_repository.interface';
+import { roundCurrencyAmount } from './currency.util';
+
+const ONE_DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Deposit terms offered for a booking
+ */
+export interface DepositPlan {
+  depositPercentage: number;
+  depositAmount: number;
+  balanceAmount: number;
+  balanceDueAt: Date;
+}
+
+/**
+ * Works out the deposit plan for a booking, or null when it has to be paid in full
+ * Only groups of the configured size qualify, and only while the balance due date is still ahead
+ */
+export function buildDepositPlan(
+  total: number,
+  currency: string,
+  passengerCount: number | undefined,
+  tripStartAt: Date,
+  now: Date = new Date()
+): DepositPlan | null {
+  const depositPercentage = PAYMENT_PLAN_CONFIG.DEPOSIT_PERCENTAGE;
+  if (depositPercentage <= 0 || depositPercentage >= 100) {
+    return null;
+  }
+
+  if ((passengerCount ?? 0) < PAYMENT_PLAN_CONFIG.MIN_PASSENGERS) {
+    return null;
+  }
+
+  const balanceDueAt = new Date(tripStartAt.getTime() - PAYMENT_PLAN_CONFIG.BALANCE_DUE_DAYS * ONE_DAY_MS);
+  if (balanceDueAt.getTime() <= now.getTime()) {
+    return null;
+  }
+
+  const depositAmount = roundCurrencyAmount((total * depositPercentage) / 100, currency);
+
+  return {
+    depositPercentage,
+    depositAmount,
+    balanceAmount: roundCurrencyAmount(total - depositAmount, currency),
+    balanceDueAt,
+  };
+}
+
+/**
+ * Part of a refund taken from one payment
+ */
+export interface PaymentRefundShare<T> {
+  payment: T;
+  amount: number;
+  fullyRefunded: boolean;
+}
+
+/**
+ * Splits a refund across the payments a trip price was collected through
+ * Earlier refunds are taken to have come out of the payments in the order given, so the
+ * refund continues from the first payment that still has money left on it
+ */
+export function splitRefundAcrossPayments<T extends { amount: number }>(
+  payments: T[],
+  alreadyRefundedAmount: number,
+  refundAmount: number,
+  currency: string
+): PaymentRefundShare<T>[] {
+  const shares: PaymentRefundShare<T>[] = [];
+  let previouslyRefunded = alreadyRefundedAmount;
+  let remaining = refundAmount;
+
+  for (const payment of payments) {
+    const refundedFromPayment = Math.min(payment.amount, Math.max(previouslyRefunded, 0));
+    previouslyRefunded -= refundedFromPayment;
+
+    const amount = roundCurrencyAmount(Math.min(payment.amount - refundedFromPayment, remaining), currency);
+    if (amount <= 0) {
+      continue;
+    }
+
+    remaining = roundCurrencyAmount(remaining - amount, currency);
+    shares.push({ payment, amount, fullyRefunded: roundCurrencyAmount(refundedFromPayment + amount, currency) >= payment.amount });
+    if (remaining <= 0) {
+      break;
+    }
+  }
+
+  return shares;
+}
+
+/**
+ * Finds the payments the trip price was collected through, in the order refunds come out of them
+ * Payments that never went through have nothing to give back; refunded ones still count as paid
+ * because the reservation's refunded amount includes them
+ */
+export async function findTripPayments(
+  reservation: Reservation,
+  paymentRepository: IPaymentRepository
+): Promise<Payment[]> {
+  const payments = await Promise.all(
+    reservation.getTripPaymentIds().map((paymentId) => paymentRepository.findById(paymentId))
+  );
+  return payments.filter(
+    (payment): payment is Payment => !!payment && (payment.isSucceeded() || payment.isRefunded())
+  );
+}
@@ -0,0 +1,49 @@
+import { describe, it, expect } from 'vitest';
+import { hasPermissions, resolvePermissions } from './permission.util';
+import { ADMIN_ROLE_PERMISSIONS, AdminRole, Permission, UserRole } from '../constants';
+
+describe('permission.util', () => {
+  describe('resolvePermissions', () => {
+    it('should grant regular users no permissions', () => {
+      expect(resolvePermissions(UserRole.USER)).toEqual([]);
+      expect(resolvePermissions(undefined, AdminRole.SUPER_ADMIN)).toEqual([]);
+    });
+
+    it('should grant admins the permissions of their staff role', () => {
+      const permissions = resolvePermissions(UserRole.ADMIN, AdminRole.DISPATCHER);
+
+      expect(permissions).toEqual(ADMIN_ROLE_PERMISSIONS[AdminRole.DISPATCHER]);
+      expect(permissions).toContain(Permission.RESERVATION_MANAGE);
+      expect(permissions).not.toContain(Permission.REFUND_CREATE);
+    });
+
+    it('should give admins without a staff role full access', () => {
+      expect(resolvePermissions(UserRole.ADMIN)).toEqual(Object.values(Permission));
+    });
+
+    it('should return a copy that cannot change the role definitions', () => {
+      resolvePermissions(UserRole.ADMIN, AdminRole.SUPPORT).push(Permission.REFUND_CREATE);
+
+      expect(ADMIN_ROLE_PERMISSIONS[AdminRole.SUPPORT]).not.toContain(Permission.REFUND_CREATE);
+    });
+  });
+
+  describe('hasPermissions', () => {
+    const dispatcher = { role: UserRole.ADMIN, permissions: resolvePermissions(UserRole.ADMIN, AdminRole.DISPATCHER) };
+
+    it('should require every permission', () => {
+      expect(hasPermissions(dispatcher, [Permission.RESERVATION_VIEW, Permission.RESERVATION_MANAGE])).toBe(true);
+      expect(hasPermissions(dispatcher, [Permission.RESERVATION_MANAGE, Permission.REFUND_CREATE])).toBe(false);
+    });
+
+    it('should reject principals that are not admins whatever their claims', () => {
+      expect(hasPermissions({ role: UserRole.USER, permissions: [Permission.REFUND_CREATE] }, [Permission.REFUND_CREATE])).toBe(
+        false
+      );
+    });
+
+    it('should reject admins whose token carries no permissions', () => {
+      expect(hasPermissions({ role: UserRole.ADMIN }, [Permission.DASHBOARD_VIEW])).toBe(false);
+    });
+  });
+});
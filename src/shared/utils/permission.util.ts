@@ -0,0 +1,26 @@
+import { ADMIN_ROLE_PERMISSIONS, AdminRole, Permission, UserRole } from '../constants';
+
+/**
+ * Resolves the permissions of a user from their role and staff role
+ * Regular users have none; admins without a staff role predate staff roles and keep full access
+ */
+export function resolvePermissions(role: string | undefined, adminRole?: AdminRole): Permission[] {
+  if (role !== UserRole.ADMIN) {
+    return [];
+  }
+  return [...ADMIN_ROLE_PERMISSIONS[adminRole ?? AdminRole.SUPER_ADMIN]];
+}
+
+/**
+ * Checks that an authenticated principal is an admin holding every required permission
+ */
+export function hasPermissions(
+  principal: { role?: string; permissions?: string[] },
+  required: Permission[]
+): boolean {
+  if (principal.role !== UserRole.ADMIN) {
+    return false;
+  }
+  const granted = principal.permissions ?? [];
+  return required.every((permission) => granted.includes(permission));
+}
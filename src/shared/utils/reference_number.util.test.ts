@@ -0,0 +1,19 @@
+import { describe, it, expect } from 'vitest';
+import { formatSequentialReferenceNumber, getReferenceSequenceKey } from './reference_number.util';
+
+describe('reference_number.util', () => {
+  it('should key sequences by prefix and UTC year', () => {
+    expect(getReferenceSequenceKey('RIN', new Date('2026-06-15T10:00:00Z'))).toBe('RIN-2026');
+    // Still the old year in UTC
+    expect(getReferenceSequenceKey('CRN', new Date('2026-12-31T23:59:59Z'))).toBe('CRN-2026');
+    expect(getReferenceSequenceKey('CRN', new Date('2027-01-01T00:00:00Z'))).toBe('CRN-2027');
+  });
+
+  it('should zero-pad sequence numbers', () => {
+    const date = new Date('2026-03-01T00:00:00Z');
+
+    expect(formatSequentialReferenceNumber('RIN', date, 1)).toBe('RIN-2026-000001');
+    expect(formatSequentialReferenceNumber('RCT', date, 4210)).toBe('RCT-2026-004210');
+    expect(formatSequentialReferenceNumber('CRN', date, 1234567)).toBe('CRN-2026-1234567');
+  });
+});
@@ -1,9 +1,9 @@
 /**
  * Reference number utility functions
- * Generates unique reference numbers for quotes and reservations
+ * Generates unique reference numbers for quotes, reservations and corporate invoices
  */
 export function generateReferenceNumber(
-  prefix: 'QOT' | 'RSV'
+  prefix: 'QOT' | 'RSV' | 'INV'
 ): string {
   const date = new Date();
   const yy = String(date.getFullYear()).slice(-2);
@@ -15,3 +15,27 @@ export function generateReferenceNumber(
   return `${prefix}-${yy}${mm}${dd}${random}`;
 }
 
+/**
+ * Prefixes of billing documents numbered from a gap-free sequence
+ * RIN: reservation invoice, RCT: receipt, CRN: credit note
+ */
+export type SequentialReferencePrefix = 'RIN' | 'RCT' | 'CRN';
+
+/**
+ * Gets the key of the sequence a billing document number is drawn from
+ * Each prefix restarts at 1 every calendar year (UTC)
+ */
+export function getReferenceSequenceKey(prefix: SequentialReferencePrefix, date: Date): string {
+  return `${prefix}-${date.getUTCFullYear()}`;
+}
+
+/**
+ * Formats a sequential billing document number, e.g. RIN-2026-000042
+ */
+export function formatSequentialReferenceNumber(
+  prefix: SequentialReferencePrefix,
+  date: Date,
+  sequence: number
+): string {
+  return `${getReferenceSequenceKey(prefix, date)}-${String(sequence).padStart(6, '0')}`;
+}
@@ -0,0 +1,28 @@
+import { AsyncLocalStorage } from 'async_hooks';
+
+/**
+ * Who is behind the current request, for code that has no access to it (e.g. the audit log)
+ */
+export interface RequestContext {
+  actorId: string;
+  actorEmail?: string;
+  actorRole?: string;
+  ipAddress?: string;
+  userAgent?: string;
+}
+
+const storage = new AsyncLocalStorage<RequestContext>();
+
+/**
+ * Runs `fn` - and everything it awaits or schedules - with the given request context
+ */
+export function runWithRequestContext<T>(context: RequestContext, fn: () => T): T {
+  return storage.run(context, fn);
+}
+
+/**
+ * Gets the context of the request being handled, if any
+ */
+export function getRequestContext(): RequestContext | undefined {
+  return storage.getStore();
+}
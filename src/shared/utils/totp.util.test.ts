@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest';
+import {
+  base32Decode,
+  base32Encode,
+  buildOtpauthUri,
+  generateHotp,
+  generateRecoveryCodes,
+  generateTotp,
+  generateTotpSecret,
+  hashRecoveryCode,
+  verifyTotp,
+} from './totp.util';
+
+// Shared secrets of the RFC 6238 Appendix B test vectors
+const SHA1_SECRET = base32Encode(Buffer.from('12345678901234567890'));
+const SHA256_SECRET = base32Encode(Buffer.from('12345678901234567890123456789012'));
+const SHA512_SECRET = base32Encode(
+  Buffer.from('1234567890123456789012345678901234567890123456789012345678901234')
+);
+
+describe('totp.util', () => {
+  it('should round-trip base32 as in RFC 4648', () => {
+    expect(base32Encode(Buffer.from('foobar'))).toBe('MZXW6YTBOI');
+    expect(base32Decode('mzxw 6ytb oi======').toString()).toBe('foobar');
+  });
+
+  it('should match the HOTP test values of RFC 4226', () => {
+    const secret = Buffer.from('12345678901234567890');
+    const expected = ['755224', '287082', '359152', '969429', '338314', '254676', '287922', '162583', '399871', '520489'];
+
+    expected.forEach((code, counter) => {
+      expect(generateHotp(secret, counter)).toBe(code);
+    });
+  });
+
+  it.each([
+    [59, '94287082', '46119246', '90693936'],
+    [1111111109, '07081804', '68084774', '25091201'],
+    [1111111111, '14050471', '67062674', '99943326'],
+    [1234567890, '89005924', '91819424', '93441116'],
+    [2000000000, '69279037', '90698825', '38618901'],
+    [20000000000, '65353130', '77737706', '47863826'],
+  ])('should match the TOTP test values of RFC 6238 at %i seconds', (seconds, sha1, sha256, sha512) => {
+    const at = new Date(seconds * 1000);
+
+    expect(generateTotp(SHA1_SECRET, at, { digits: 8, algorithm: 'sha1' })).toBe(sha1);
+    expect(generateTotp(SHA256_SECRET, at, { digits: 8, algorithm: 'sha256' })).toBe(sha256);
+    expect(generateTotp(SHA512_SECRET, at, { digits: 8, algorithm: 'sha512' })).toBe(sha512);
+  });
+
+  it('should accept codes from the neighbouring time steps only', () => {
+    const secret = generateTotpSecret();
+    const at = new Date('2030-01-01T10:00:15Z');
+    const previous = generateTotp(secret, new Date(at.getTime() - 30_000));
+    const stale = generateTotp(secret, new Date(at.getTime() - 60_000));
+
+    expect(verifyTotp(secret, generateTotp(secret, at), { at })).toBe(Math.floor(at.getTime() / 30_000));
+    expect(verifyTotp(secret, previous, { at })).toBe(Math.floor(at.getTime() / 30_000) - 1);
+    expect(verifyTotp(secret, stale, { at })).toBeNull();
+    expect(verifyTotp(secret, 'abcdef', { at })).toBeNull();
+  });
+
+  it('should build a URI authenticator apps can scan', () => {
+    const uri = buildOtpauthUri('JBSWY3DPEHPK3PXP', 'admin@example.com', 'GRANDLINE');
+
+    expect(uri).toBe(
+      'otpauth://totp/GRANDLINE%3Aadmin%40example.com?secret=JBSWY3DPEHPK3PXP&issuer=GRANDLINE&algorithm=SHA1&digits=6&period=30'
+    );
+  });
+
+  it('should hash recovery codes the same way however they are typed', () => {
+    const [code] = generateRecoveryCodes(1);
+
+    expect(code).toMatch(/^[a-z2-9]{5}-[a-z2-9]{5}$/);
+    expect(hashRecoveryCode(` ${code.toUpperCase().replace('-', '')} `)).toBe(hashRecoveryCode(code));
+    expect(new Set(generateRecoveryCodes(10)).size).toBe(10);
+  });
+});
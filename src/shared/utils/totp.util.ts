@@ -0,0 +1,177 @@
+import { createHash, createHmac, randomBytes, randomInt, timingSafeEqual } from 'crypto';
+
+/**
+ * TOTP utility functions
+ * Implements time-based one-time passwords (RFC 6238, built on HOTP from RFC 4226)
+ * compatible with authenticator apps, plus the recovery codes that back them up
+ */
+
+const BASE32_ALPHABET = 'ABCDEFGHIJKLMNOPQRSTUVWXYZ234567';
+const RECOVERY_CODE_ALPHABET = 'abcdefghjkmnpqrstuvwxyz23456789'; // No look-alike characters
+
+export type TotpAlgorithm = 'sha1' | 'sha256' | 'sha512';
+
+export interface TotpOptions {
+  digits?: number; // Defaults to 6, what authenticator apps expect
+  period?: number; // Seconds per time step, defaults to 30
+  algorithm?: TotpAlgorithm; // Defaults to sha1, the only one every authenticator app supports
+}
+
+export interface TotpVerifyOptions extends TotpOptions {
+  window?: number; // Time steps accepted either side of the current one for clock drift, defaults to 1
+  at?: Date;
+}
+
+const DEFAULT_DIGITS = 6;
+const DEFAULT_PERIOD = 30;
+const DEFAULT_ALGORITHM: TotpAlgorithm = 'sha1';
+const DEFAULT_WINDOW = 1;
+
+/**
+ * Encodes bytes as unpadded base32 (RFC 4648), the format authenticator apps take secrets in
+ */
+export function base32Encode(data: Buffer): string {
+  let bits = 0;
+  let value = 0;
+  let output = '';
+
+  for (const byte of data) {
+    value = (value << 8) | byte;
+    bits += 8;
+    while (bits >= 5) {
+      output += BASE32_ALPHABET[(value >>> (bits - 5)) & 31];
+      bits -= 5;
+    }
+  }
+  if (bits > 0) {
+    output += BASE32_ALPHABET[(value << (5 - bits)) & 31];
+  }
+  return output;
+}
+
+/**
+ * Decodes base32, ignoring case, spaces and padding as users may type secrets by hand
+ */
+export function base32Decode(encoded: string): Buffer {
+  const cleaned = encoded.toUpperCase().replace(/[\s=]/g, '');
+  let bits = 0;
+  let value = 0;
+  const bytes: number[] = [];
+
+  for (const char of cleaned) {
+    const index = BASE32_ALPHABET.indexOf(char);
+    if (index === -1) {
+      throw new Error(`Invalid base32 character: ${char}`);
+    }
+    value = (value << 5) | index;
+    bits += 5;
+    if (bits >= 8) {
+      bytes.push((value >>> (bits - 8)) & 255);
+      bits -= 8;
+    }
+  }
+  return Buffer.from(bytes);
+}
+
+/**
+ * Generates a new shared secret (160 bits, as recommended by RFC 4226) in base32
+ */
+export function generateTotpSecret(): string {
+  return base32Encode(randomBytes(20));
+}
+
+/**
+ * Computes the HOTP value of a counter (RFC 4226 section 5.3)
+ */
+export function generateHotp(
+  secret: Buffer,
+  counter: number,
+  digits: number = DEFAULT_DIGITS,
+  algorithm: TotpAlgorithm = DEFAULT_ALGORITHM
+): string {
+  const message = Buffer.alloc(8);
+  message.writeBigUInt64BE(BigInt(counter));
+  const hmac = createHmac(algorithm, secret).update(message).digest();
+
+  // Dynamic truncation
+  const offset = hmac[hmac.length - 1] & 0x0f;
+  const binary = (hmac.readUInt32BE(offset) & 0x7fffffff) % 10 ** digits;
+  return binary.toString().padStart(digits, '0');
+}
+
+/**
+ * Gets the time step a moment falls in
+ */
+export function getTotpTimeStep(at: Date = new Date(), period: number = DEFAULT_PERIOD): number {
+  return Math.floor(at.getTime() / 1000 / period);
+}
+
+/**
+ * Computes the TOTP code of a base32 secret at a moment
+ */
+export function generateTotp(secret: string, at: Date = new Date(), options: TotpOptions = {}): string {
+  return generateHotp(
+    base32Decode(secret),
+    getTotpTimeStep(at, options.period),
+    options.digits,
+    options.algorithm
+  );
+}
+
+/**
+ * Checks a code against a base32 secret
+ * @returns The time step the code belongs to, so callers can reject codes that were already used, or null when it does not match
+ */
+export function verifyTotp(secret: string, code: string, options: TotpVerifyOptions = {}): number | null {
+  const digits = options.digits ?? DEFAULT_DIGITS;
+  const normalized = code.replace(/\s/g, '');
+  if (!new RegExp(`^\\d{${digits}}$`).test(normalized)) {
+    return null;
+  }
+
+  const key = base32Decode(secret);
+  const currentStep = getTotpTimeStep(options.at, options.period);
+  const window = options.window ?? DEFAULT_WINDOW;
+
+  for (let step = currentStep - window; step <= currentStep + window; step++) {
+    const expected = generateHotp(key, step, digits, options.algorithm);
+    if (timingSafeEqual(Buffer.from(expected), Buffer.from(normalized))) {
+      return step;
+    }
+  }
+  return null;
+}
+
+/**
+ * Builds the otpauth:// URI authenticator apps read from a QR code
+ */
+export function buildOtpauthUri(secret: string, accountName: string, issuer: string): string {
+  const label = encodeURIComponent(`${issuer}:${accountName}`);
+  const params = new URLSearchParams({
+    secret,
+    issuer,
+    algorithm: DEFAULT_ALGORITHM.toUpperCase(),
+    digits: String(DEFAULT_DIGITS),
+    period: String(DEFAULT_PERIOD),
+  });
+  return `otpauth://totp/${label}?${params.toString()}`;
+}
+
+/**
+ * Generates single-use recovery codes formatted as xxxxx-xxxxx
+ */
+export function generateRecoveryCodes(count: number): string[] {
+  return Array.from({ length: count }, () => {
+    const characters = Array.from({ length: 10 }, () => RECOVERY_CODE_ALPHABET[randomInt(RECOVERY_CODE_ALPHABET.length)]);
+    return `${characters.slice(0, 5).join('')}-${characters.slice(5).join('')}`;
+  });
+}
+
+/**
+ * Hashes a recovery code for storage, ignoring case, spaces and dashes
+ * Recovery codes are random enough that a fast hash is safe and allows looking them up directly
+ */
+export function hashRecoveryCode(code: string): string {
+  const normalized = code.toLowerCase().replace(/[\s-]/g, '');
+  return createHash('sha256').update(normalized).digest('hex');
+}
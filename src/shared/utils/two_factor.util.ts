@@ -0,0 +1,9 @@
+import { TWO_FACTOR_AUTH_CONFIG } from '../config';
+import { UserRole } from '../constants';
+
+/**
+ * Checks if users with a role must use two-factor authentication to log in
+ */
+export function isTwoFactorRequired(role: string | undefined): boolean {
+  return role === UserRole.ADMIN && TWO_FACTOR_AUTH_CONFIG.REQUIRED_FOR_ADMINS;
+}
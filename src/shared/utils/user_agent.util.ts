@@ -0,0 +1,43 @@
+/**
+ * User agent utility functions
+ * Turns user agent strings into short labels for listing a user's sessions
+ */
+
+const BROWSERS: Array<[RegExp, string]> = [
+  [/Edg(e|A|iOS)?\//, 'Edge'],
+  [/OPR\/|Opera/, 'Opera'],
+  [/SamsungBrowser\//, 'Samsung Internet'],
+  [/Firefox\/|FxiOS\//, 'Firefox'],
+  [/Chrome\/|CriOS\//, 'Chrome'],
+  [/Safari\//, 'Safari'],
+  [/Expo|okhttp|CFNetwork|Dalvik/, 'Mobile app'],
+];
+
+const PLATFORMS: Array<[RegExp, string]> = [
+  [/iPhone|iPad|iPod/, 'iOS'],
+  [/Android/, 'Android'],
+  [/Windows/, 'Windows'],
+  [/Mac OS X|Macintosh/, 'macOS'],
+  [/CrOS/, 'ChromeOS'],
+  [/Linux/, 'Linux'],
+];
+
+const findLabel = (userAgent: string, patterns: Array<[RegExp, string]>): string | undefined =>
+  patterns.find(([pattern]) => pattern.test(userAgent))?.[1];
+
+/**
+ * Describes the device behind a user agent, e.g. "Chrome on Windows"
+ */
+export function describeUserAgent(userAgent?: string | null): string {
+  if (!userAgent) {
+    return 'Unknown device';
+  }
+
+  const browser = findLabel(userAgent, BROWSERS);
+  const platform = findLabel(userAgent, PLATFORMS);
+
+  if (browser && platform) {
+    return `${browser} on ${platform}`;
+  }
+  return browser ?? platform ?? 'Unknown device';
+}
@@ -0,0 +1,28 @@
+import { VehicleHold } from '../../domain/entities/vehicle_hold.entity';
+import { MaintenanceWindow } from '../../domain/entities/maintenance_window.entity';
+import { ERROR_MESSAGES } from '../constants';
+
+/**
+ * Describes which vehicles are blocked and when, for error messages
+ */
+export function describeVehicleHoldConflicts(
+  conflicts: VehicleHold[],
+  maintenanceConflicts: MaintenanceWindow[] = []
+): string {
+  if (conflicts.length === 0 && maintenanceConflicts.length === 0) {
+    return ERROR_MESSAGES.VEHICLES_ALREADY_BOOKED;
+  }
+
+  const details = [
+    ...conflicts.map(
+      (hold) =>
+        `vehicle ${hold.vehicleId} is ${hold.isConfirmed() ? 'booked' : 'held for another quote'} from ${hold.startAt.toISOString()} to ${hold.endAt.toISOString()}`
+    ),
+    ...maintenanceConflicts.map(
+      (window) =>
+        `vehicle ${window.vehicleId} is under maintenance from ${window.startAt.toISOString()} to ${window.endAt.toISOString()}`
+    ),
+  ];
+
+  return `Vehicles unavailable for the trip dates: ${details.join('; ')}`;
+}
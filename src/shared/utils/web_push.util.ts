@@ -0,0 +1,111 @@
+import { createECDH, createPrivateKey, hkdfSync, randomBytes, createCipheriv } from 'crypto';
+import jwt from 'jsonwebtoken';
+
+/**
+ * Web Push utility functions
+ * Implements payload encryption (RFC 8291, aes128gcm) and VAPID authentication (RFC 8292)
+ * so the server can talk to browser push services without a third-party client
+ */
+
+const RECORD_SIZE = 4096;
+const VAPID_TOKEN_EXPIRY_SECONDS = 12 * 60 * 60;
+
+export interface VapidKeys {
+  publicKey: string; // base64url-encoded uncompressed P-256 point
+  privateKey: string; // base64url-encoded P-256 scalar
+  subject: string; // mailto: or https: contact for the push service
+}
+
+function hkdf(ikm: Buffer, salt: Buffer, info: Buffer, length: number): Buffer {
+  return Buffer.from(hkdfSync('sha256', ikm, salt, info, length));
+}
+
+/**
+ * Encrypts a push message for one subscription
+ * @param payload - Message body, usually JSON
+ * @param p256dh - Subscription public key (base64url)
+ * @param auth - Subscription authentication secret (base64url)
+ * @returns Request body ready to POST to the subscription endpoint
+ */
+export function encryptWebPushPayload(payload: string, p256dh: string, auth: string): Buffer {
+  const userAgentPublicKey = Buffer.from(p256dh, 'base64url');
+  const authSecret = Buffer.from(auth, 'base64url');
+
+  // A fresh key pair and salt for every message
+  const ecdh = createECDH('prime256v1');
+  const serverPublicKey = ecdh.generateKeys();
+  const sharedSecret = ecdh.computeSecret(userAgentPublicKey);
+  const salt = randomBytes(16);
+
+  const keyInfo = Buffer.concat([Buffer.from('WebPush: info\0'), userAgentPublicKey, serverPublicKey]);
+  const ikm = hkdf(sharedSecret, authSecret, keyInfo, 32);
+  const contentEncryptionKey = hkdf(ikm, salt, Buffer.from('Content-Encoding: aes128gcm\0'), 16);
+  const nonce = hkdf(ikm, salt, Buffer.from('Content-Encoding: nonce\0'), 12);
+
+  // Single record, terminated by the 0x02 padding delimiter
+  const cipher = createCipheriv('aes-128-gcm', contentEncryptionKey, nonce);
+  const ciphertext = Buffer.concat([
+    cipher.update(Buffer.concat([Buffer.from(payload), Buffer.from([2])])),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+
+  const header = Buffer.alloc(21);
+  salt.copy(header, 0);
+  header.writeUInt32BE(RECORD_SIZE, 16);
+  header.writeUInt8(serverPublicKey.length, 20);
+
+  return Buffer.concat([header, serverPublicKey, ciphertext]);
+}
+
+/**
+ * Builds the VAPID Authorization header for a push service
+ * @param endpoint - Subscription endpoint; the token is scoped to its origin
+ * @param keys - Server VAPID key pair and contact subject
+ */
+export function createVapidAuthorization(endpoint: string, keys: VapidKeys): string {
+  const publicKey = Buffer.from(keys.publicKey, 'base64url');
+  const signingKey = createPrivateKey({
+    key: {
+      kty: 'EC',
+      crv: 'P-256',
+      d: keys.privateKey,
+      x: publicKey.subarray(1, 33).toString('base64url'),
+      y: publicKey.subarray(33, 65).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+
+  const token = jwt.sign(
+    {
+      aud: new URL(endpoint).origin,
+      sub: keys.subject,
+    },
+    signingKey,
+    { algorithm: 'ES256', expiresIn: VAPID_TOKEN_EXPIRY_SECONDS }
+  );
+
+  return `vapid t=${token}, k=${keys.publicKey}`;
+}
+
+/**
+ * Checks that a subscription endpoint points at a known browser push service
+ * The server POSTs to stored endpoints, so anything else would let a client aim it at internal hosts
+ * @param endpoint - Subscription endpoint supplied by the browser
+ * @param allowedHosts - Push service hosts; subdomains of each are accepted
+ */
+export function isAllowedPushEndpoint(endpoint: string, allowedHosts: readonly string[]): boolean {
+  let url: URL;
+  try {
+    url = new URL(endpoint);
+  } catch {
+    return false;
+  }
+
+  if (url.protocol !== 'https:' || url.port !== '' || url.username !== '' || url.password !== '') {
+    return false;
+  }
+
+  const hostname = url.hostname.toLowerCase();
+  return allowedHosts.some((host) => hostname === host || hostname.endsWith(`.${host}`));
+}